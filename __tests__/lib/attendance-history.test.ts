@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AttendanceChangeAction, AttendanceChangeSource, AttendanceStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  hasAttendanceChanged,
+  buildAttendanceHistoryEntries,
+  recordAttendanceHistory,
+  type AttendanceSnapshot,
+} from '@/lib/attendance-history'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    attendanceHistory: {
+      createMany: vi.fn(),
+    },
+  },
+}))
+
+const absent: AttendanceSnapshot = {
+  status: AttendanceStatus.ABSENT,
+  notes: null,
+  conductRemoval: false,
+  conductNote: null,
+}
+
+const base = { attendanceRecordId: 'rec-1', lessonId: 'lesson-1', studentId: 'student-1' }
+
+describe('hasAttendanceChanged', () => {
+  it('should be false for identical snapshots', () => {
+    expect(hasAttendanceChanged(absent, { ...absent })).toBe(false)
+  })
+
+  it('should detect a status change', () => {
+    expect(hasAttendanceChanged(absent, { ...absent, status: AttendanceStatus.EXCUSED })).toBe(true)
+  })
+
+  it('should detect notes and conduct changes', () => {
+    expect(hasAttendanceChanged(absent, { ...absent, notes: 'Traveling' })).toBe(true)
+    expect(hasAttendanceChanged(absent, { ...absent, conductRemoval: true, conductNote: 'Disruptive' })).toBe(true)
+  })
+
+  it('should treat undefined and null notes as equal', () => {
+    const withUndefined = { ...absent, notes: undefined as unknown as null }
+    expect(hasAttendanceChanged(withUndefined, absent)).toBe(false)
+  })
+})
+
+describe('buildAttendanceHistoryEntries', () => {
+  const context = { source: AttendanceChangeSource.BATCH, changedBy: 'admin-1' }
+
+  it('should log a new record as CREATED with no previous values', () => {
+    const [entry] = buildAttendanceHistoryEntries([{ ...base, before: null, after: absent }], context)
+    expect(entry.action).toBe(AttendanceChangeAction.CREATED)
+    expect(entry.previousStatus).toBeNull()
+    expect(entry.previousConductRemoval).toBeNull()
+    expect(entry.newStatus).toBe(AttendanceStatus.ABSENT)
+    expect(entry.newConductRemoval).toBe(false)
+  })
+
+  it('should log a removed record as DELETED with no new values', () => {
+    const [entry] = buildAttendanceHistoryEntries([{ ...base, before: absent, after: null }], context)
+    expect(entry.action).toBe(AttendanceChangeAction.DELETED)
+    expect(entry.previousStatus).toBe(AttendanceStatus.ABSENT)
+    expect(entry.newStatus).toBeNull()
+  })
+
+  it('should log old and new values for an update', () => {
+    const [entry] = buildAttendanceHistoryEntries(
+      [{ ...base, before: absent, after: { ...absent, status: AttendanceStatus.EXCUSED, notes: 'Retreat' } }],
+      context
+    )
+    expect(entry).toMatchObject({
+      attendanceRecordId: 'rec-1',
+      lessonId: 'lesson-1',
+      studentId: 'student-1',
+      action: AttendanceChangeAction.UPDATED,
+      source: AttendanceChangeSource.BATCH,
+      previousStatus: AttendanceStatus.ABSENT,
+      newStatus: AttendanceStatus.EXCUSED,
+      previousNotes: null,
+      newNotes: 'Retreat',
+      changedBy: 'admin-1',
+    })
+  })
+
+  it('should skip updates that change nothing', () => {
+    const entries = buildAttendanceHistoryEntries([{ ...base, before: absent, after: { ...absent } }], context)
+    expect(entries).toHaveLength(0)
+  })
+
+  it('should record a null actor for system changes', () => {
+    const [entry] = buildAttendanceHistoryEntries(
+      [{ ...base, before: null, after: absent }],
+      { source: AttendanceChangeSource.BACKFILL }
+    )
+    expect(entry.changedBy).toBeNull()
+  })
+
+  it('should ignore extra fields on the snapshots', () => {
+    const record = { ...absent, id: 'rec-1', arrivedAt: null, expectedAbsenceId: null }
+    const [entry] = buildAttendanceHistoryEntries([{ ...base, before: null, after: record }], context)
+    expect(Object.keys(entry)).not.toContain('arrivedAt')
+  })
+})
+
+describe('recordAttendanceHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should not write when nothing changed', async () => {
+    await recordAttendanceHistory([{ ...base, before: absent, after: absent }], { source: AttendanceChangeSource.BATCH })
+    expect(prisma.attendanceHistory.createMany).not.toHaveBeenCalled()
+  })
+
+  it('should write all entries in one createMany', async () => {
+    await recordAttendanceHistory(
+      [
+        { ...base, before: null, after: absent },
+        { ...base, studentId: 'student-2', before: absent, after: { ...absent, status: AttendanceStatus.PRESENT } },
+      ],
+      { source: AttendanceChangeSource.BATCH, changedBy: 'admin-1' }
+    )
+    expect(prisma.attendanceHistory.createMany).toHaveBeenCalledTimes(1)
+    const { data } = vi.mocked(prisma.attendanceHistory.createMany).mock.calls[0][0]!
+    expect(data).toHaveLength(2)
+  })
+})
@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildImportBatches,
+  matchLessonDate,
+  matchStudentName,
+  mergeImportedRecord,
+  nameSimilarity,
+  parseAttendanceCell,
+  parseAttendanceGrid,
+  toDateKey,
+  type AttendanceGrid,
+} from '@/lib/attendance-import'
+
+describe('toDateKey', () => {
+  it('should read dates in the formats spreadsheets export', () => {
+    expect(toDateKey(new Date(2025, 8, 14))).toBe('2025-09-14')
+    expect(toDateKey(45914)).toBe('2025-09-14')
+    expect(toDateKey('2025-09-14')).toBe('2025-09-14')
+    expect(toDateKey('9/14/25')).toBe('2025-09-14')
+    expect(toDateKey('9/14/2025')).toBe('2025-09-14')
+  })
+
+  it('should reject values that are not dates', () => {
+    expect(toDateKey('Name')).toBeNull()
+    expect(toDateKey(12)).toBeNull()
+    expect(toDateKey('13/40/25')).toBeNull()
+    expect(toDateKey(null)).toBeNull()
+  })
+})
+
+describe('parseAttendanceCell', () => {
+  it('should read single-cell statuses', () => {
+    expect(parseAttendanceCell('P')).toBe('PRESENT')
+    expect(parseAttendanceCell('late')).toBe('LATE')
+    expect(parseAttendanceCell('A')).toBe('ABSENT')
+    expect(parseAttendanceCell('Excused')).toBe('EXCUSED')
+    expect(parseAttendanceCell(true)).toBe('PRESENT')
+    expect(parseAttendanceCell(false)).toBe('ABSENT')
+  })
+
+  it('should leave blank and unknown cells unrecorded', () => {
+    expect(parseAttendanceCell(null)).toBeNull()
+    expect(parseAttendanceCell('  ')).toBeNull()
+    expect(parseAttendanceCell('?')).toBeNull()
+  })
+
+  it('should combine attendance and late checkboxes', () => {
+    expect(parseAttendanceCell(true, false)).toBe('PRESENT')
+    expect(parseAttendanceCell('TRUE', 'TRUE')).toBe('LATE')
+    expect(parseAttendanceCell(false, null)).toBe('ABSENT')
+  })
+})
+
+describe('parseAttendanceGrid', () => {
+  it('should parse a single-cell grid with a name header', () => {
+    const { grid } = parseAttendanceGrid([
+      ['Name', '2025-09-14', '2025-09-21'],
+      ['Mivel Abdelmalak', 'P', 'L'],
+      ['Mark Hanna', 'A', null],
+      [null, null, null],
+    ])
+
+    expect(grid?.columns).toEqual([
+      { dateKey: '2025-09-14', col: 1, lateCol: null },
+      { dateKey: '2025-09-21', col: 2, lateCol: null },
+    ])
+    expect(grid?.rows).toEqual([
+      { rowNumber: 2, name: 'Mivel Abdelmalak', statuses: { '2025-09-14': 'PRESENT', '2025-09-21': 'LATE' } },
+      { rowNumber: 3, name: 'Mark Hanna', statuses: { '2025-09-14': 'ABSENT' } },
+    ])
+  })
+
+  it('should pair attendance and late checkbox columns', () => {
+    const { grid } = parseAttendanceGrid([
+      [null, null, 45914, null],
+      [null, null, 'Attendance', 'Late'],
+      [1, 'Mark Hanna', true, true],
+      [2, 'Sara Ibrahim', false, false],
+    ])
+
+    expect(grid?.columns).toEqual([{ dateKey: '2025-09-14', col: 2, lateCol: 3 }])
+    expect(grid?.rows.map(r => [r.name, r.statuses['2025-09-14']])).toEqual([
+      ['Mark Hanna', 'LATE'],
+      ['Sara Ibrahim', 'ABSENT'],
+    ])
+  })
+
+  it('should report sheets without dates or students', () => {
+    expect(parseAttendanceGrid([['Name', 'Score']]).error).toContain('No lesson dates')
+    expect(parseAttendanceGrid([['Name', '2025-09-14']]).error).toBe('No student rows found')
+  })
+})
+
+describe('matchStudentName', () => {
+  const students = [
+    { id: 's1', name: 'Mivel Abdelmalak' },
+    { id: 's2', name: 'Mark Hanna' },
+    { id: 's3', name: 'Marc Hanna' },
+  ]
+
+  it('should preselect exact matches ignoring case, punctuation and word order', () => {
+    expect(nameSimilarity('Abdelmalak, Mivel', 'Mivel Abdelmalak')).toBe(1)
+    const result = matchStudentName('abdelmalak, mivel', students)
+    expect(result.matchedId).toBe('s1')
+    expect(result.needsReview).toBe(false)
+  })
+
+  it('should preselect a close misspelling but flag it for review', () => {
+    const result = matchStudentName('Mivel Abdelmalek', students)
+    expect(result.matchedId).toBe('s1')
+    expect(result.needsReview).toBe(true)
+  })
+
+  it('should not preselect when two students are equally close', () => {
+    const result = matchStudentName('Mar Hanna', students)
+    expect(result.matchedId).toBeNull()
+    expect(result.candidates.map(c => c.id).sort()).toEqual(['s2', 's3'])
+  })
+
+  it('should return no candidates for unknown names', () => {
+    const result = matchStudentName('Zzz', students)
+    expect(result).toEqual({ matchedId: null, confidence: 0, needsReview: true, candidates: [] })
+  })
+})
+
+describe('matchLessonDate', () => {
+  const lessons = [
+    { id: 'l1', title: 'Lesson 1', scheduledDate: '2025-09-14T00:00:00.000Z' },
+    { id: 'l2', title: 'Lesson 2', scheduledDate: '2025-09-23T00:00:00.000Z' },
+  ]
+
+  it('should match a same-day lesson with full confidence', () => {
+    expect(matchLessonDate('2025-09-14', lessons)).toMatchObject({ matchedId: 'l1', confidence: 1, needsReview: false })
+  })
+
+  it('should only suggest a lesson a few days off', () => {
+    const result = matchLessonDate('2025-09-21', lessons)
+    expect(result.matchedId).toBeNull()
+    expect(result.candidates).toEqual([{ id: 'l2', label: 'Lesson 2', confidence: 0.5 }])
+  })
+
+  it('should find nothing far from any lesson', () => {
+    expect(matchLessonDate('2025-10-30', lessons).candidates).toEqual([])
+  })
+})
+
+describe('buildImportBatches', () => {
+  const grid: AttendanceGrid = {
+    columns: [
+      { dateKey: '2025-09-14', col: 1, lateCol: null },
+      { dateKey: '2025-09-21', col: 2, lateCol: null },
+    ],
+    rows: [
+      { rowNumber: 2, name: 'A', statuses: { '2025-09-14': 'PRESENT', '2025-09-21': 'LATE' } },
+      { rowNumber: 3, name: 'B', statuses: { '2025-09-14': 'ABSENT' } },
+      { rowNumber: 4, name: 'C', statuses: { '2025-09-14': 'PRESENT' } },
+    ],
+  }
+
+  it('should group records by lesson and skip unmatched rows and columns', () => {
+    const result = buildImportBatches(grid, { 2: 's1', 3: 's2', 4: null }, { '2025-09-14': 'l1', '2025-09-21': null })
+    expect(result.batches).toEqual([
+      { lessonId: 'l1', records: [{ studentId: 's1', status: 'PRESENT' }, { studentId: 's2', status: 'ABSENT' }] },
+    ])
+    expect(result.duplicateStudentIds).toEqual([])
+  })
+
+  it('should skip students and lessons matched more than once', () => {
+    const result = buildImportBatches(grid, { 2: 's1', 3: 's1', 4: 's3' }, { '2025-09-14': 'l1', '2025-09-21': 'l1' })
+    expect(result.duplicateStudentIds).toEqual(['s1'])
+    expect(result.duplicateLessonIds).toEqual(['l1'])
+    expect(result.batches).toEqual([])
+  })
+})
+
+describe('mergeImportedRecord', () => {
+  const removed = {
+    notes: 'Talked through the lesson',
+    arrivedAt: new Date('2025-09-14T18:05:00Z'),
+    minutesLate: 5,
+    conductRemoval: true,
+    conductNote: 'Disruptive',
+  }
+
+  it('should keep a conduct removal, notes and arrival a status-only import leaves out', () => {
+    const { record, keptArrival } = mergeImportedRecord({ studentId: 's1', status: 'ABSENT' }, removed)
+    expect(record).toEqual({
+      studentId: 's1',
+      status: 'ABSENT',
+      notes: 'Talked through the lesson',
+      conductRemoval: true,
+      conductNote: 'Disruptive',
+    })
+    expect(keptArrival).toEqual({ arrivedAt: removed.arrivedAt, minutesLate: 5 })
+  })
+
+  it('should let fields the record does send win', () => {
+    const { record, keptArrival } = mergeImportedRecord(
+      { studentId: 's1', status: 'PRESENT', arrivedAt: '18:00', notes: null, conductRemoval: false },
+      removed
+    )
+    expect(record).toMatchObject({ status: 'PRESENT', arrivedAt: '18:00', notes: null, conductRemoval: false })
+    expect(keptArrival).toBeNull()
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  toAttendancePolicy,
+  parseAttendancePolicyInput,
+  describeLateWeight,
+} from '@/lib/attendance-policy'
+
+describe('toAttendancePolicy', () => {
+  it('should return the default policy when there is no year', () => {
+    expect(toAttendancePolicy(null)).toEqual(DEFAULT_ATTENDANCE_POLICY)
+    expect(toAttendancePolicy(undefined)).toEqual(DEFAULT_ATTENDANCE_POLICY)
+  })
+
+  it('should map the academic year columns', () => {
+    const policy = toAttendancePolicy({
+      attendanceRequiredPercent: 80,
+      attendanceLateWeight: 0.25,
+      conductRemovalCountsAsAbsence: false,
+      sundaySchoolRequiredPercent: 60,
+    })
+    expect(policy).toEqual({
+      requiredPercentage: 80,
+      lateWeight: 0.25,
+      conductRemovalCountsAsAbsence: false,
+      sundaySchoolRequiredPercentage: 60,
+    })
+  })
+})
+
+describe('parseAttendancePolicyInput', () => {
+  it('should return only the fields present in the body', () => {
+    expect(parseAttendancePolicyInput({ name: '2025-2026' })).toEqual({ data: {} })
+    expect(parseAttendancePolicyInput({ attendanceRequiredPercent: 80 })).toEqual({
+      data: { attendanceRequiredPercent: 80 },
+    })
+  })
+
+  it('should coerce numeric strings', () => {
+    const { data, error } = parseAttendancePolicyInput({ attendanceLateWeight: '0.25', sundaySchoolRequiredPercent: '70' })
+    expect(error).toBeUndefined()
+    expect(data).toEqual({ attendanceLateWeight: 0.25, sundaySchoolRequiredPercent: 70 })
+  })
+
+  it('should reject percentages outside 0-100', () => {
+    expect(parseAttendancePolicyInput({ attendanceRequiredPercent: 120 }).error).toMatch(/between 0 and 100/)
+    expect(parseAttendancePolicyInput({ sundaySchoolRequiredPercent: -1 }).error).toMatch(/between 0 and 100/)
+    expect(parseAttendancePolicyInput({ attendanceRequiredPercent: 'abc' }).error).toBeDefined()
+  })
+
+  it('should reject a late weight outside 0-1', () => {
+    expect(parseAttendancePolicyInput({ attendanceLateWeight: 2 }).error).toMatch(/between 0 and 1/)
+  })
+
+  it('should require a boolean for conductRemovalCountsAsAbsence', () => {
+    expect(parseAttendancePolicyInput({ conductRemovalCountsAsAbsence: 'no' }).error).toBeDefined()
+    expect(parseAttendancePolicyInput({ conductRemovalCountsAsAbsence: false }).data).toEqual({
+      conductRemovalCountsAsAbsence: false,
+    })
+  })
+})
+
+describe('describeLateWeight', () => {
+  it('should describe whole-number ratios as lates per absence', () => {
+    expect(describeLateWeight(0.5)).toBe('2 lates = 1 absence')
+    expect(describeLateWeight(0.75)).toBe('4 lates = 1 absence')
+  })
+
+  it('should describe the extremes', () => {
+    expect(describeLateWeight(1)).toBe('Lates count as present')
+    expect(describeLateWeight(0)).toBe('Lates count as absences')
+  })
+
+  it('should fall back to a percentage for other weights', () => {
+    expect(describeLateWeight(0.4)).toBe('A late counts as 40% present')
+  })
+})
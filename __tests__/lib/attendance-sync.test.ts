@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyReplayResult,
+  getReplayableSaves,
+  mergeQueuedSave,
+  partitionAttendanceConflicts,
+  type QueuedAttendanceSave,
+} from '@/lib/attendance-sync'
+
+const T1 = '2026-03-01T18:00:00.000Z'
+const T2 = '2026-03-01T18:30:00.000Z'
+
+function makeSave(overrides: Partial<QueuedAttendanceSave> = {}): QueuedAttendanceSave {
+  return {
+    id: 'save-1',
+    lessonId: 'lesson-1',
+    lessonTitle: 'Lesson 1',
+    records: [{ studentId: 's1', status: 'PRESENT' }],
+    baseline: { s1: null },
+    queuedAt: T1,
+    ...overrides,
+  }
+}
+
+describe('partitionAttendanceConflicts', () => {
+  const existing = [
+    { studentId: 's1', status: 'PRESENT' as const, notes: null, updatedAt: new Date(T1) },
+    { studentId: 's2', status: 'ABSENT' as const, notes: 'Sick', updatedAt: new Date(T2) },
+  ]
+
+  it('should accept everything without a baseline', () => {
+    const records = [{ studentId: 's1' }, { studentId: 's2' }]
+    const result = partitionAttendanceConflicts(records, existing, undefined)
+    expect(result.accepted).toEqual(records)
+    expect(result.conflicts).toEqual([])
+  })
+
+  it('should accept records unchanged since the baseline', () => {
+    const result = partitionAttendanceConflicts([{ studentId: 's1' }], existing, { s1: T1 })
+    expect(result.accepted).toHaveLength(1)
+    expect(result.conflicts).toHaveLength(0)
+  })
+
+  it('should flag records updated after the baseline', () => {
+    const result = partitionAttendanceConflicts([{ studentId: 's2' }], existing, { s2: T1 })
+    expect(result.accepted).toHaveLength(0)
+    expect(result.conflicts).toEqual([
+      { record: { studentId: 's2' }, theirs: { status: 'ABSENT', notes: 'Sick', updatedAt: T2 } },
+    ])
+  })
+
+  it('should flag records created by someone else when none existed', () => {
+    const result = partitionAttendanceConflicts([{ studentId: 's1' }, { studentId: 's3' }], existing, { s1: null, s3: null })
+    expect(result.accepted).toEqual([{ studentId: 's3' }])
+    expect(result.conflicts[0].record.studentId).toBe('s1')
+  })
+
+  it('should flag records deleted since the baseline', () => {
+    const result = partitionAttendanceConflicts([{ studentId: 's3' }], existing, { s3: T1 })
+    expect(result.conflicts).toEqual([{ record: { studentId: 's3' }, theirs: null }])
+  })
+
+  it('should accept students missing from the baseline', () => {
+    const result = partitionAttendanceConflicts([{ studentId: 's2' }], existing, {})
+    expect(result.accepted).toHaveLength(1)
+  })
+})
+
+describe('mergeQueuedSave', () => {
+  it('should append a save for a new lesson', () => {
+    const queue = [makeSave()]
+    const next = mergeQueuedSave(queue, makeSave({ id: 'save-2', lessonId: 'lesson-2' }))
+    expect(next).toHaveLength(2)
+  })
+
+  it('should fold a save into the pending one for the same lesson', () => {
+    const queue = [makeSave()]
+    const next = mergeQueuedSave(queue, makeSave({
+      id: 'save-2',
+      queuedAt: T2,
+      records: [{ studentId: 's1', status: 'LATE' }, { studentId: 's2', status: 'ABSENT' }],
+      baseline: { s1: T1, s2: T2 },
+    }))
+
+    expect(next).toHaveLength(1)
+    expect(next[0].id).toBe('save-1')
+    expect(next[0].records).toEqual([
+      { studentId: 's1', status: 'LATE' },
+      { studentId: 's2', status: 'ABSENT' },
+    ])
+    // The first offline edit's baseline is kept
+    expect(next[0].baseline).toEqual({ s1: null, s2: T2 })
+  })
+
+  it('should not merge into a flagged save', () => {
+    const queue = [makeSave({ error: 'Forbidden' })]
+    const next = mergeQueuedSave(queue, makeSave({ id: 'save-2' }))
+    expect(next).toHaveLength(2)
+  })
+})
+
+describe('getReplayableSaves', () => {
+  it('should return unflagged saves oldest first', () => {
+    const queue = [
+      makeSave({ id: 'b', queuedAt: T2 }),
+      makeSave({ id: 'a', queuedAt: T1 }),
+      makeSave({ id: 'c', conflicts: [] }),
+      makeSave({ id: 'd', error: 'Lesson not found' }),
+    ]
+    expect(getReplayableSaves(queue).map(q => q.id)).toEqual(['a', 'b'])
+  })
+})
+
+describe('applyReplayResult', () => {
+  it('should return null when everything synced', () => {
+    expect(applyReplayResult(makeSave(), { conflicts: [] })).toBeNull()
+    expect(applyReplayResult(makeSave(), {})).toBeNull()
+  })
+
+  it('should narrow the save to the conflicting records', () => {
+    const save = makeSave({
+      records: [{ studentId: 's1', status: 'PRESENT' }, { studentId: 's2', status: 'LATE' }],
+    })
+    const theirs = { status: 'ABSENT' as const, notes: null, updatedAt: T2 }
+    const result = applyReplayResult(save, { conflicts: [{ studentId: 's2', theirs }] })
+
+    expect(result?.records).toEqual([{ studentId: 's2', status: 'LATE' }])
+    expect(result?.conflicts).toEqual([
+      { studentId: 's2', theirs, mine: { studentId: 's2', status: 'LATE' } },
+    ])
+  })
+})
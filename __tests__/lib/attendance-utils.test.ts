@@ -8,8 +8,24 @@ import {
   getAttendanceStatusLabel,
   calculateEffectiveAbsences,
   calculateAbsencesAllowed,
+  resolveAttendanceRules,
+  tallyAttendanceStatus,
+  resolveLessonTiming,
+  parseClockMinutes,
+  parseLessonTimingInput,
+  calculateMinutesLate,
+  deriveArrivalStatus,
+  calculateAverageLateness,
   type AttendanceCounts,
 } from '@/lib/attendance-utils'
+import { DEFAULT_ATTENDANCE_POLICY } from '@/lib/attendance-policy'
+
+const strictPolicy = {
+  ...DEFAULT_ATTENDANCE_POLICY,
+  requiredPercentage: 80,
+  lateWeight: 0,
+  conductRemovalCountsAsAbsence: false,
+}
 
 describe('calculateAttendancePercentage', () => {
   it('should return 100% when all present', () => {
@@ -71,6 +87,14 @@ describe('calculateAttendancePercentage', () => {
     // 8P + 2L + 0A → effective = (8+1)/10 = 90%
     expect(calculateAttendancePercentage({ present: 8, late: 2, absent: 0, excused: 0 })).toBe(90)
   })
+
+  it('should apply the policy late weight', () => {
+    const counts = { present: 8, late: 2, absent: 0, excused: 0 }
+    expect(calculateAttendancePercentage(counts, { lateWeight: 0 })).toBe(80)
+    expect(calculateAttendancePercentage(counts, { lateWeight: 1 })).toBe(100)
+    // 8 + 2 * 0.75 = 9.5 / 10
+    expect(calculateAttendancePercentage(counts, { lateWeight: 0.75 })).toBe(95)
+  })
 })
 
 describe('countAttendanceStatuses', () => {
@@ -99,6 +123,34 @@ describe('countAttendanceStatuses', () => {
     const records = Array(5).fill({ status: AttendanceStatus.LATE })
     expect(countAttendanceStatuses(records)).toEqual({ present: 0, late: 5, absent: 0, excused: 0 })
   })
+
+  it('should count conduct removals as absences by default', () => {
+    const records = [{ status: AttendanceStatus.ABSENT, conductRemoval: true }]
+    expect(countAttendanceStatuses(records)).toEqual({ present: 0, late: 0, absent: 1, excused: 0 })
+  })
+
+  it('should count conduct removals as excused when the policy excludes them', () => {
+    const records = [
+      { status: AttendanceStatus.ABSENT, conductRemoval: true },
+      { status: AttendanceStatus.ABSENT, conductRemoval: false },
+    ]
+    expect(countAttendanceStatuses(records, strictPolicy)).toEqual({ present: 0, late: 0, absent: 1, excused: 1 })
+  })
+})
+
+describe('tallyAttendanceStatus', () => {
+  it('should add grouped counts to the matching status', () => {
+    const counts = { present: 0, late: 0, absent: 0, excused: 0 }
+    tallyAttendanceStatus(counts, { status: AttendanceStatus.PRESENT }, DEFAULT_ATTENDANCE_POLICY, 4)
+    tallyAttendanceStatus(counts, { status: AttendanceStatus.LATE }, DEFAULT_ATTENDANCE_POLICY, 2)
+    expect(counts).toEqual({ present: 4, late: 2, absent: 0, excused: 0 })
+  })
+
+  it('should move grouped conduct removals to excused when excluded', () => {
+    const counts = { present: 0, late: 0, absent: 0, excused: 0 }
+    tallyAttendanceStatus(counts, { status: AttendanceStatus.ABSENT, conductRemoval: true }, strictPolicy, 3)
+    expect(counts).toEqual({ present: 0, late: 0, absent: 0, excused: 3 })
+  })
 })
 
 describe('calculateAttendanceFromRecords', () => {
@@ -125,6 +177,17 @@ describe('calculateAttendanceFromRecords', () => {
     ]
     expect(calculateAttendanceFromRecords(records)).toBeNull()
   })
+
+  it('should apply the full policy', () => {
+    const records = [
+      { status: AttendanceStatus.PRESENT },
+      { status: AttendanceStatus.PRESENT },
+      { status: AttendanceStatus.LATE },
+      { status: AttendanceStatus.ABSENT, conductRemoval: true },
+    ]
+    // Conduct removal excluded, late earns nothing: 2 / 3
+    expect(calculateAttendanceFromRecords(records, strictPolicy)).toBeCloseTo(66.67, 1)
+  })
 })
 
 describe('meetsAttendanceRequirement', () => {
@@ -145,6 +208,11 @@ describe('meetsAttendanceRequirement', () => {
   it('should return false for null (no countable lessons)', () => {
     expect(meetsAttendanceRequirement(null)).toBe(false)
   })
+
+  it('should use a custom required percentage', () => {
+    expect(meetsAttendanceRequirement(78, 80)).toBe(false)
+    expect(meetsAttendanceRequirement(78, 70)).toBe(true)
+  })
 })
 
 describe('getAttendanceStatusLabel', () => {
@@ -178,6 +246,10 @@ describe('calculateEffectiveAbsences', () => {
     // 1 late / 2 = 0.5
     expect(calculateEffectiveAbsences({ present: 9, late: 1, absent: 0, excused: 0 })).toBe(0.5)
   })
+
+  it('should count every late as an absence when lates earn no credit', () => {
+    expect(calculateEffectiveAbsences({ present: 5, late: 3, absent: 2, excused: 0 }, { lateWeight: 0 })).toBe(5)
+  })
 })
 
 describe('calculateAbsencesAllowed', () => {
@@ -231,4 +303,208 @@ describe('calculateAbsencesAllowed', () => {
     const counts: AttendanceCounts = { present: 7, late: 0, absent: 1, excused: 2 }
     expect(calculateAbsencesAllowed(counts, 5)).toBe(2)
   })
+
+  it('should use the policy required percentage and late weight', () => {
+    // 8 present, 2 late (no credit), 0 absent, 10 remaining
+    // effectivePresent = 8, futurePresentNeeded = 0.8 * 20 = 16
+    // allowed = 8 + 10 - 16 = 2
+    const counts: AttendanceCounts = { present: 8, late: 2, absent: 0, excused: 0 }
+    expect(calculateAbsencesAllowed(counts, 10, strictPolicy)).toBe(2)
+  })
+})
+
+describe('resolveAttendanceRules', () => {
+  const lessonDate = new Date('2025-10-10T00:00:00Z')
+  const absence = { id: 'ea-1', reason: 'Family trip' }
+
+  it('should pass through a status with no late start or expected absence', () => {
+    expect(resolveAttendanceRules({ status: AttendanceStatus.PRESENT }, { lessonDate })).toEqual({
+      status: AttendanceStatus.PRESENT,
+      notes: null,
+      notEnrolledYet: false,
+      expectedAbsenceId: null,
+    })
+  })
+
+  it('should auto-excuse ABSENT before the attendance start date', () => {
+    const result = resolveAttendanceRules(
+      { status: AttendanceStatus.ABSENT },
+      { lessonDate, attendanceStartDate: new Date('2025-11-01T00:00:00Z') }
+    )
+    expect(result.status).toBe(AttendanceStatus.EXCUSED)
+    expect(result.notEnrolledYet).toBe(true)
+  })
+
+  it('should respect PRESENT and LATE before the attendance start date', () => {
+    const startDate = new Date('2025-11-01T00:00:00Z')
+    for (const status of [AttendanceStatus.PRESENT, AttendanceStatus.LATE]) {
+      const result = resolveAttendanceRules({ status }, { lessonDate, attendanceStartDate: startDate })
+      expect(result.status).toBe(status)
+      expect(result.notEnrolledYet).toBe(false)
+    }
+  })
+
+  it('should link EXCUSED to a covering expected absence and carry its reason', () => {
+    const result = resolveAttendanceRules(
+      { status: AttendanceStatus.EXCUSED },
+      { lessonDate, expectedAbsence: absence }
+    )
+    expect(result.expectedAbsenceId).toBe('ea-1')
+    expect(result.notes).toBe('Family trip')
+  })
+
+  it('should keep explicit notes over the expected absence reason', () => {
+    const result = resolveAttendanceRules(
+      { status: AttendanceStatus.EXCUSED, notes: 'Called in sick' },
+      { lessonDate, expectedAbsence: absence }
+    )
+    expect(result.notes).toBe('Called in sick')
+  })
+
+  it('should not link an expected absence when the student showed up', () => {
+    const result = resolveAttendanceRules(
+      { status: AttendanceStatus.LATE },
+      { lessonDate, expectedAbsence: absence }
+    )
+    expect(result.status).toBe(AttendanceStatus.LATE)
+    expect(result.expectedAbsenceId).toBeNull()
+  })
+
+  it('should skip both rules for conduct removals', () => {
+    const result = resolveAttendanceRules(
+      { status: AttendanceStatus.ABSENT, conductRemoval: true },
+      { lessonDate, attendanceStartDate: new Date('2025-11-01T00:00:00Z'), expectedAbsence: absence }
+    )
+    expect(result.status).toBe(AttendanceStatus.ABSENT)
+    expect(result.notEnrolledYet).toBe(false)
+    expect(result.expectedAbsenceId).toBeNull()
+  })
+})
+
+describe('resolveLessonTiming', () => {
+  it('should prefer the lesson start time and grace period', () => {
+    expect(resolveLessonTiming(
+      { startTime: '18:30', lateGraceMinutes: 10 },
+      { defaultLessonStartTime: '19:00', defaultLateGraceMinutes: 5 }
+    )).toEqual({ startTime: '18:30', lateGraceMinutes: 10 })
+  })
+
+  it('should fall back to the year defaults', () => {
+    expect(resolveLessonTiming(
+      { startTime: null, lateGraceMinutes: null },
+      { defaultLessonStartTime: '19:00', defaultLateGraceMinutes: 5 }
+    )).toEqual({ startTime: '19:00', lateGraceMinutes: 5 })
+  })
+
+  it('should keep a zero grace period set on the lesson', () => {
+    expect(resolveLessonTiming({ lateGraceMinutes: 0 }, { defaultLateGraceMinutes: 5 }).lateGraceMinutes).toBe(0)
+  })
+
+  it('should have no start time when neither sets one', () => {
+    expect(resolveLessonTiming({}, null)).toEqual({ startTime: null, lateGraceMinutes: 0 })
+  })
+})
+
+describe('parseClockMinutes', () => {
+  it('should parse HH:MM and HH:MM:SS', () => {
+    expect(parseClockMinutes('19:05')).toBe(1145)
+    expect(parseClockMinutes('07:30:00')).toBe(450)
+  })
+
+  it('should reject invalid times', () => {
+    expect(parseClockMinutes('25:00')).toBeNull()
+    expect(parseClockMinutes('7pm')).toBeNull()
+    expect(parseClockMinutes('')).toBeNull()
+    expect(parseClockMinutes(null)).toBeNull()
+  })
+})
+
+describe('parseLessonTimingInput', () => {
+  it('should leave out fields that are not provided', () => {
+    expect(parseLessonTimingInput(undefined, undefined)).toEqual({ data: {} })
+  })
+
+  it('should normalize the start time and coerce the grace period', () => {
+    expect(parseLessonTimingInput('7:05', '10')).toEqual({ data: { startTime: '07:05', lateGraceMinutes: 10 } })
+  })
+
+  it('should clear fields with empty values', () => {
+    expect(parseLessonTimingInput('', '')).toEqual({ data: { startTime: null, lateGraceMinutes: null } })
+  })
+
+  it('should reject invalid values', () => {
+    expect(parseLessonTimingInput('noon', undefined).error).toMatch(/HH:MM/)
+    expect(parseLessonTimingInput(undefined, -5).error).toMatch(/between 0 and 120/)
+    expect(parseLessonTimingInput(undefined, 2.5).error).toBeDefined()
+  })
+})
+
+describe('calculateMinutesLate', () => {
+  it('should count minutes after the start', () => {
+    expect(calculateMinutesLate('19:12', '19:00')).toBe(12)
+  })
+
+  it('should be 0 for early or on-time arrivals', () => {
+    expect(calculateMinutesLate('18:50', '19:00')).toBe(0)
+    expect(calculateMinutesLate('19:00', '19:00')).toBe(0)
+  })
+
+  it('should be null without both times', () => {
+    expect(calculateMinutesLate(null, '19:00')).toBeNull()
+    expect(calculateMinutesLate('19:10', null)).toBeNull()
+  })
+})
+
+describe('deriveArrivalStatus', () => {
+  const timing = { startTime: '19:00', lateGraceMinutes: 5 }
+
+  it('should mark arrivals within the grace period PRESENT', () => {
+    expect(deriveArrivalStatus({ status: AttendanceStatus.LATE, arrivedAt: '19:05' }, timing)).toEqual({
+      status: AttendanceStatus.PRESENT,
+      minutesLate: 5,
+    })
+  })
+
+  it('should mark arrivals after the grace period LATE', () => {
+    expect(deriveArrivalStatus({ status: AttendanceStatus.PRESENT, arrivedAt: '19:06' }, timing)).toEqual({
+      status: AttendanceStatus.LATE,
+      minutesLate: 6,
+    })
+  })
+
+  it('should leave the status alone without an arrival or start time', () => {
+    expect(deriveArrivalStatus({ status: AttendanceStatus.LATE }, timing)).toEqual({
+      status: AttendanceStatus.LATE,
+      minutesLate: null,
+    })
+    expect(deriveArrivalStatus(
+      { status: AttendanceStatus.PRESENT, arrivedAt: '19:30' },
+      { startTime: null, lateGraceMinutes: 0 }
+    ).status).toBe(AttendanceStatus.PRESENT)
+  })
+
+  it('should not reclassify absences, excuses or conduct removals', () => {
+    expect(deriveArrivalStatus({ status: AttendanceStatus.EXCUSED, arrivedAt: '19:30' }, timing).status)
+      .toBe(AttendanceStatus.EXCUSED)
+    expect(deriveArrivalStatus(
+      { status: AttendanceStatus.ABSENT, arrivedAt: '19:30', conductRemoval: true },
+      timing
+    )).toEqual({ status: AttendanceStatus.ABSENT, minutesLate: null })
+  })
+})
+
+describe('calculateAverageLateness', () => {
+  it('should average timed late arrivals only', () => {
+    const records = [
+      { status: AttendanceStatus.LATE, minutesLate: 10 },
+      { status: AttendanceStatus.LATE, minutesLate: 5 },
+      { status: AttendanceStatus.LATE, minutesLate: null },
+      { status: AttendanceStatus.PRESENT, minutesLate: 3 },
+    ]
+    expect(calculateAverageLateness(records)).toBe(7.5)
+  })
+
+  it('should be null without timed late arrivals', () => {
+    expect(calculateAverageLateness([{ status: AttendanceStatus.LATE }])).toBeNull()
+  })
 })
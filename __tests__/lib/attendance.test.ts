@@ -352,6 +352,50 @@ describe('calculateExamStats', () => {
   })
 })
 
+describe('calculateExamStats with weights', () => {
+  it('should weigh exams within a section', () => {
+    const stats = calculateExamStats([
+      { percentage: 90, sectionName: 'Bible Studies', weight: 3 },
+      { percentage: 50, sectionName: 'Bible Studies', weight: 1 },
+    ])
+
+    // (90 * 3 + 50) / 4 = 80
+    expect(stats.sectionAverages[0].average).toBe(80)
+    expect(stats.overallAverage).toBe(80)
+  })
+
+  it('should weigh sections in the overall average', () => {
+    const stats = calculateExamStats([
+      { percentage: 90, sectionName: 'Bible Studies', sectionWeight: 2 },
+      { percentage: 60, sectionName: 'Dogma', sectionWeight: 1 },
+    ])
+
+    // (90 * 2 + 60) / 3 = 80
+    expect(stats.overallAverage).toBe(80)
+    expect(stats.overallAverageMet).toBe(true)
+  })
+
+  it('should match the unweighted mean when every weight is 1', () => {
+    const scores: ExamScore[] = [
+      { percentage: 80, sectionName: 'Bible Studies', weight: 1, sectionWeight: 1 },
+      { percentage: 70, sectionName: 'Dogma', weight: 1, sectionWeight: 1 },
+      { percentage: 90, sectionName: 'Dogma', weight: 1, sectionWeight: 1 },
+    ]
+
+    expect(calculateExamStats(scores).overallAverage).toBe(80)
+  })
+
+  it('should let a heavier passing exam lift a failing section', () => {
+    const stats = calculateExamStats([
+      { percentage: 50, sectionName: 'Dogma', weight: 1 },
+      { percentage: 70, sectionName: 'Dogma', weight: 3 },
+    ])
+
+    expect(stats.sectionAverages[0].average).toBe(65)
+    expect(stats.allSectionsPassing).toBe(true)
+  })
+})
+
 describe('checkGraduationEligibility', () => {
   const createAttendanceStats = (met: boolean) => ({
     presentCount: 0,
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { AttendanceStatus } from '@prisma/client'
+import {
+  generateCheckInCode,
+  getCheckInCodeValidUntil,
+  normalizeCheckInCode,
+  buildCheckInUrl,
+  getCheckInStatus,
+  getCheckInMinutesLate,
+  isLessonOpenForCheckIn,
+  CHECK_IN_CODE_TTL_SECONDS,
+  CHECK_IN_ROTATE_SECONDS,
+} from '@/lib/check-in-utils'
+
+describe('generateCheckInCode', () => {
+  it('should generate a 6-character code', () => {
+    expect(generateCheckInCode()).toHaveLength(6)
+  })
+
+  it('should not contain confusable characters', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generateCheckInCode()).not.toMatch(/[01OIL]/)
+    }
+  })
+
+  it('should generate different codes', () => {
+    const codes = new Set(Array.from({ length: 20 }, () => generateCheckInCode()))
+    expect(codes.size).toBeGreaterThan(1)
+  })
+})
+
+describe('getCheckInCodeValidUntil', () => {
+  it('should add the code TTL to the generation time', () => {
+    const generatedAt = new Date('2025-10-10T23:00:00Z')
+    expect(getCheckInCodeValidUntil(generatedAt).getTime() - generatedAt.getTime())
+      .toBe(CHECK_IN_CODE_TTL_SECONDS * 1000)
+  })
+
+  it('should outlive the rotation interval so scans near rotation still work', () => {
+    expect(CHECK_IN_CODE_TTL_SECONDS).toBeGreaterThan(CHECK_IN_ROTATE_SECONDS)
+  })
+})
+
+describe('normalizeCheckInCode', () => {
+  it('should uppercase and strip whitespace and separators', () => {
+    expect(normalizeCheckInCode(' k7x-m3p ')).toBe('K7XM3P')
+  })
+})
+
+describe('buildCheckInUrl', () => {
+  it('should point at the student check-in page with the code', () => {
+    expect(buildCheckInUrl('https://example.org', 'K7XM3P'))
+      .toBe('https://example.org/dashboard/student/check-in?code=K7XM3P')
+  })
+})
+
+describe('getCheckInStatus', () => {
+  const startsAt = new Date('2025-10-10T23:00:00Z')
+
+  it('should be PRESENT before the start time', () => {
+    expect(getCheckInStatus(new Date('2025-10-10T22:45:00Z'), startsAt)).toBe(AttendanceStatus.PRESENT)
+  })
+
+  it('should be PRESENT exactly at the start time', () => {
+    expect(getCheckInStatus(new Date(startsAt), startsAt)).toBe(AttendanceStatus.PRESENT)
+  })
+
+  it('should be LATE after the start time', () => {
+    expect(getCheckInStatus(new Date('2025-10-10T23:01:00Z'), startsAt)).toBe(AttendanceStatus.LATE)
+  })
+
+  it('should allow the grace period before marking LATE', () => {
+    expect(getCheckInStatus(new Date('2025-10-10T23:05:00Z'), startsAt, 5)).toBe(AttendanceStatus.PRESENT)
+    expect(getCheckInStatus(new Date('2025-10-10T23:05:01Z'), startsAt, 5)).toBe(AttendanceStatus.LATE)
+  })
+})
+
+describe('getCheckInMinutesLate', () => {
+  const startsAt = new Date('2025-10-10T23:00:00Z')
+
+  it('should count whole minutes after the start', () => {
+    expect(getCheckInMinutesLate(new Date('2025-10-10T23:07:45Z'), startsAt)).toBe(7)
+  })
+
+  it('should be 0 for early scans', () => {
+    expect(getCheckInMinutesLate(new Date('2025-10-10T22:45:00Z'), startsAt)).toBe(0)
+  })
+})
+
+describe('isLessonOpenForCheckIn', () => {
+  it('should allow check-in on the lesson day', () => {
+    const now = new Date(2025, 9, 10, 19, 0)
+    expect(isLessonOpenForCheckIn(new Date(2025, 9, 10), now)).toBe(true)
+  })
+
+  it('should reject check-in before the lesson day', () => {
+    const now = new Date(2025, 9, 9, 19, 0)
+    expect(isLessonOpenForCheckIn(new Date(2025, 9, 10), now)).toBe(false)
+  })
+})
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { AttendanceStatus, ConductIncidentStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { AttendanceSnapshot } from '@/lib/attendance-history'
+import {
+  CONDUCT_ESCALATION_THRESHOLD,
+  backfillConductIncidents,
+  escalateRepeatIncident,
+  parseConductIncidentInput,
+  planConductIncidentSync,
+  shouldEscalateConduct,
+  syncConductIncidents,
+} from '@/lib/conduct-incidents'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    conductIncident: {
+      count: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      upsert: vi.fn(),
+      createMany: vi.fn(),
+    },
+    attendanceRecord: {
+      findMany: vi.fn(),
+    },
+  },
+}))
+
+const present: AttendanceSnapshot = {
+  status: AttendanceStatus.PRESENT,
+  notes: null,
+  conductRemoval: false,
+  conductNote: null,
+}
+const removed: AttendanceSnapshot = {
+  status: AttendanceStatus.ABSENT,
+  notes: null,
+  conductRemoval: true,
+  conductNote: 'Disruptive',
+}
+
+function change(before: AttendanceSnapshot | null, after: AttendanceSnapshot | null, attendanceRecordId: string | null = 'rec-1') {
+  return { attendanceRecordId, lessonId: 'lesson-1', studentId: 'student-1', before, after }
+}
+
+describe('planConductIncidentSync', () => {
+  it('should open an incident for a new conduct removal', () => {
+    const plan = planConductIncidentSync([change(present, removed), change(null, removed, 'rec-2')])
+    expect(plan.toCreate).toEqual([
+      { attendanceRecordId: 'rec-1', lessonId: 'lesson-1', studentId: 'student-1', description: 'Disruptive' },
+      { attendanceRecordId: 'rec-2', lessonId: 'lesson-1', studentId: 'student-1', description: 'Disruptive' },
+    ])
+  })
+
+  it('should withdraw the incident when a removal is undone', () => {
+    const plan = planConductIncidentSync([change(removed, present)])
+    expect(plan.toWithdraw).toEqual(['rec-1'])
+    expect(plan.toCreate).toHaveLength(0)
+  })
+
+  it('should update the description when the conduct note changes', () => {
+    const plan = planConductIncidentSync([change(removed, { ...removed, conductNote: 'Left early' })])
+    expect(plan.toUpdate).toEqual([{ attendanceRecordId: 'rec-1', description: 'Left early' }])
+  })
+
+  it('should ignore unchanged removals, unrelated edits and deleted records', () => {
+    const plan = planConductIncidentSync([
+      change(removed, removed),
+      change(present, { ...present, status: AttendanceStatus.LATE }),
+      change(removed, null),
+      change(null, removed, null),
+    ])
+    expect(plan).toEqual({ toCreate: [], toUpdate: [], toWithdraw: [] })
+  })
+})
+
+describe('shouldEscalateConduct', () => {
+  it('should escalate at and beyond the threshold', () => {
+    expect(shouldEscalateConduct(CONDUCT_ESCALATION_THRESHOLD - 1)).toBe(false)
+    expect(shouldEscalateConduct(CONDUCT_ESCALATION_THRESHOLD)).toBe(true)
+    expect(shouldEscalateConduct(CONDUCT_ESCALATION_THRESHOLD + 1)).toBe(true)
+  })
+
+  it('should honour a custom threshold', () => {
+    expect(shouldEscalateConduct(2, 2)).toBe(true)
+  })
+})
+
+describe('parseConductIncidentInput', () => {
+  it('should require a description when creating', () => {
+    expect(parseConductIncidentInput({}, { requireDescription: true }).error).toBe('A description is required')
+    expect(parseConductIncidentInput({ description: '  ' }, { requireDescription: true }).error).toBeDefined()
+  })
+
+  it('should parse a full update', () => {
+    const { data } = parseConductIncidentInput({
+      severity: 'SEVERE',
+      status: 'RESOLVED',
+      description: ' Fighting ',
+      meetingDate: '2026-03-08',
+      meetingOutcome: ' Apologised ',
+      followUpActions: '',
+    })
+    expect(data).toEqual({
+      severity: 'SEVERE',
+      status: 'RESOLVED',
+      description: 'Fighting',
+      meetingDate: new Date('2026-03-08'),
+      meetingOutcome: 'Apologised',
+      followUpActions: null,
+    })
+  })
+
+  it('should only include fields that are present', () => {
+    expect(parseConductIncidentInput({ status: 'FOLLOW_UP' }).data).toEqual({ status: 'FOLLOW_UP' })
+  })
+
+  it('should reject invalid values', () => {
+    expect(parseConductIncidentInput({ severity: 'EXTREME' }).error).toContain('Invalid severity')
+    expect(parseConductIncidentInput({ status: 'CLOSED' }).error).toContain('Invalid status')
+    expect(parseConductIncidentInput({ meetingDate: 'soon' }).error).toBe('Invalid meeting date')
+    expect(parseConductIncidentInput({ occurredAt: 'yesterday' }).error).toBe('Invalid incident date')
+  })
+
+  it('should allow clearing the meeting date', () => {
+    expect(parseConductIncidentInput({ meetingDate: null }).data).toEqual({ meetingDate: null })
+  })
+})
+
+describe('escalateRepeatIncident', () => {
+  const incident = { id: 'inc-1', studentId: 'student-1', academicYearId: 'year-1' }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should not escalate below the threshold', async () => {
+    vi.mocked(prisma.conductIncident.count).mockResolvedValue(CONDUCT_ESCALATION_THRESHOLD - 1)
+    expect(await escalateRepeatIncident(incident)).toBeNull()
+    expect(prisma.conductIncident.update).not.toHaveBeenCalled()
+  })
+
+  it('should flag the incident that reaches the threshold', async () => {
+    vi.mocked(prisma.conductIncident.count).mockResolvedValue(CONDUCT_ESCALATION_THRESHOLD)
+    const result = await escalateRepeatIncident(incident)
+
+    expect(prisma.conductIncident.count).toHaveBeenCalledWith({
+      where: { studentId: 'student-1', academicYearId: 'year-1', status: { not: ConductIncidentStatus.WITHDRAWN } },
+    })
+    expect(prisma.conductIncident.update).toHaveBeenCalledWith({
+      where: { id: 'inc-1' },
+      data: { escalatedAt: expect.any(Date) },
+    })
+    expect(result).toEqual({
+      incidentId: 'inc-1',
+      studentId: 'student-1',
+      incidentCount: CONDUCT_ESCALATION_THRESHOLD,
+      escalatedAt: expect.any(Date),
+    })
+  })
+})
+
+describe('syncConductIncidents', () => {
+  const context = { academicYearId: 'year-1', occurredAt: new Date('2025-10-05T00:00:00Z'), reportedBy: 'admin-1' }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should withdraw rather than delete the incident when a removal is undone', async () => {
+    await syncConductIncidents([change(removed, present)], context)
+    expect(prisma.conductIncident.updateMany).toHaveBeenCalledWith({
+      where: { attendanceRecordId: { in: ['rec-1'] } },
+      data: { status: ConductIncidentStatus.WITHDRAWN },
+    })
+  })
+
+  it('should reopen a withdrawn incident when the removal is made again', async () => {
+    vi.mocked(prisma.conductIncident.upsert).mockResolvedValue({ id: 'inc-1', studentId: 'student-1', academicYearId: 'year-1' } as never)
+    vi.mocked(prisma.conductIncident.count).mockResolvedValue(1)
+    await syncConductIncidents([change(present, removed)], context)
+    expect(prisma.conductIncident.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { attendanceRecordId: 'rec-1' },
+      update: { description: 'Disruptive', status: ConductIncidentStatus.OPEN },
+    }))
+  })
+})
+
+describe('backfillConductIncidents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should open an incident for each removal without one', async () => {
+    vi.mocked(prisma.attendanceRecord.findMany).mockResolvedValue([{
+      id: 'rec-1',
+      lessonId: 'lesson-1',
+      studentId: 'student-1',
+      conductNote: null,
+      recordedBy: 'admin-1',
+      lesson: { academicYearId: 'year-1', scheduledDate: new Date('2024-03-03T00:00:00Z') },
+    }] as never)
+    vi.mocked(prisma.conductIncident.createMany).mockResolvedValue({ count: 1 })
+
+    expect(await backfillConductIncidents()).toBe(1)
+    expect(prisma.attendanceRecord.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { conductRemoval: true, conductIncident: null },
+    }))
+    expect(prisma.conductIncident.createMany).toHaveBeenCalledWith({
+      data: [{
+        attendanceRecordId: 'rec-1',
+        lessonId: 'lesson-1',
+        studentId: 'student-1',
+        academicYearId: 'year-1',
+        occurredAt: new Date('2024-03-03T00:00:00Z'),
+        description: 'Removed from lesson',
+        reportedBy: 'admin-1',
+      }],
+      skipDuplicates: true,
+    })
+  })
+})
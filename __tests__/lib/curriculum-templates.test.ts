@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from 'vitest'
+import { LessonStatus } from '@prisma/client'
+import {
+  parseTemplateApplyInput,
+  parseTemplateInput,
+  planTemplateLessons,
+  toDayKey,
+  toTemplateLessons,
+  type SourceLesson,
+} from '@/lib/curriculum-templates'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+function sourceLesson(date: string, overrides: Partial<SourceLesson> = {}): SourceLesson {
+  return {
+    scheduledDate: new Date(date),
+    status: LessonStatus.COMPLETED,
+    examSectionId: 'sec-1',
+    title: `Lesson ${date}`,
+    subtitle: null,
+    description: null,
+    speaker: null,
+    speakerId: null,
+    isExamDay: false,
+    startTime: null,
+    lateGraceMinutes: null,
+    resources: [],
+    ...overrides,
+  }
+}
+
+const academicYear = { startDate: new Date('2025-09-01'), endDate: new Date('2026-06-30') }
+
+function templateLesson(order: number, weekOffset: number) {
+  return { order, weekOffset, title: `Lesson ${order}`, examSectionId: 'sec-1' }
+}
+
+describe('toTemplateLessons', () => {
+  it('should order lessons by date and store week offsets from the first lesson', () => {
+    const result = toTemplateLessons([
+      sourceLesson('2024-09-22T18:00:00Z', { title: 'Third' }),
+      sourceLesson('2024-09-08T18:00:00Z', { title: 'First' }),
+      sourceLesson('2024-09-15T18:00:00Z', { title: 'Second' }),
+    ])
+
+    expect(result.map(l => [l.order, l.title, l.weekOffset])).toEqual([
+      [1, 'First', 0],
+      [2, 'Second', 1],
+      [3, 'Third', 2],
+    ])
+  })
+
+  it('should keep gaps between lessons as whole weeks', () => {
+    const result = toTemplateLessons([
+      sourceLesson('2024-09-08T18:00:00Z'),
+      // Four weeks later, an hour off for daylight saving
+      sourceLesson('2024-10-06T19:00:00Z'),
+    ])
+    expect(result[1].weekOffset).toBe(4)
+  })
+
+  it('should leave out cancelled and no-class lessons', () => {
+    const result = toTemplateLessons([
+      sourceLesson('2024-09-01T18:00:00Z', { status: LessonStatus.CANCELLED }),
+      sourceLesson('2024-09-08T18:00:00Z', { title: 'Held' }),
+      sourceLesson('2024-09-15T18:00:00Z', { status: LessonStatus.NO_CLASS }),
+    ])
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({ title: 'Held', order: 1, weekOffset: 0 })
+  })
+
+  it('should carry over lesson details and drop the date and status', () => {
+    const [lesson] = toTemplateLessons([
+      sourceLesson('2024-09-08T18:00:00Z', {
+        speaker: 'Fr. Mark',
+        isExamDay: true,
+        resources: [{ title: 'Slides', url: 'https://example.com', type: 'link' }],
+      }),
+    ])
+    expect(lesson).toMatchObject({
+      speaker: 'Fr. Mark',
+      isExamDay: true,
+      resources: [{ title: 'Slides', url: 'https://example.com', type: 'link' }],
+    })
+    expect(lesson).not.toHaveProperty('scheduledDate')
+    expect(lesson).not.toHaveProperty('status')
+  })
+
+  it('should return nothing when no lessons were held', () => {
+    expect(toTemplateLessons([])).toEqual([])
+  })
+})
+
+describe('planTemplateLessons', () => {
+  const options = {
+    startDate: new Date('2025-09-07'),
+    blackoutDates: [] as string[],
+    academicYear,
+    existingLessonDates: [] as Date[],
+  }
+
+  it('should date lessons by their week offsets from the start date', () => {
+    const plan = planTemplateLessons([templateLesson(1, 0), templateLesson(2, 1), templateLesson(3, 3)], options)
+    expect(plan.map(p => toDayKey(p.scheduledDate))).toEqual(['2025-09-07', '2025-09-14', '2025-09-28'])
+    expect(plan.every(p => p.weeksShifted === 0)).toBe(true)
+  })
+
+  it('should push a blacked-out lesson and every later lesson back a week', () => {
+    const plan = planTemplateLessons(
+      [templateLesson(1, 0), templateLesson(2, 1), templateLesson(3, 2)],
+      { ...options, blackoutDates: ['2025-09-14'] }
+    )
+    expect(plan.map(p => toDayKey(p.scheduledDate))).toEqual(['2025-09-07', '2025-09-21', '2025-09-28'])
+    expect(plan.map(p => p.weeksShifted)).toEqual([0, 1, 1])
+  })
+
+  it('should skip consecutive blackout weeks', () => {
+    const plan = planTemplateLessons(
+      [templateLesson(1, 0), templateLesson(2, 1)],
+      { ...options, blackoutDates: ['2025-09-07', '2025-09-14'] }
+    )
+    expect(plan.map(p => toDayKey(p.scheduledDate))).toEqual(['2025-09-21', '2025-09-28'])
+    expect(plan.map(p => p.weeksShifted)).toEqual([2, 2])
+  })
+
+  it('should follow template order regardless of input order', () => {
+    const plan = planTemplateLessons([templateLesson(2, 1), templateLesson(1, 0)], options)
+    expect(plan.map(p => p.order)).toEqual([1, 2])
+  })
+
+  it('should flag lessons outside the academic year', () => {
+    const plan = planTemplateLessons(
+      [templateLesson(1, 0), templateLesson(2, 1)],
+      { ...options, startDate: new Date('2026-06-28') }
+    )
+    expect(plan.map(p => p.outsideYear)).toEqual([false, true])
+  })
+
+  it('should flag days that already have a lesson in the year', () => {
+    const plan = planTemplateLessons(
+      [templateLesson(1, 0), templateLesson(2, 1)],
+      { ...options, existingLessonDates: [new Date('2025-09-14T18:00:00Z')] }
+    )
+    expect(plan.map(p => p.clashesWithExisting)).toEqual([false, true])
+  })
+})
+
+describe('parseTemplateInput', () => {
+  it('should require a name and an academic year', () => {
+    expect(parseTemplateInput({ name: '  ', academicYearId: 'y1' }).error).toBeDefined()
+    expect(parseTemplateInput({ name: 'Year 1' }).error).toBeDefined()
+  })
+
+  it('should trim the name and blank descriptions', () => {
+    expect(parseTemplateInput({ name: ' Year 1 ', description: ' ', academicYearId: 'y1' }).data).toEqual({
+      name: 'Year 1',
+      description: null,
+      academicYearId: 'y1',
+    })
+  })
+})
+
+describe('parseTemplateApplyInput', () => {
+  it('should require a year and a first lesson date', () => {
+    expect(parseTemplateApplyInput({ startDate: '2025-09-07' }).error).toBeDefined()
+    expect(parseTemplateApplyInput({ academicYearId: 'y1' }).error).toBeDefined()
+    expect(parseTemplateApplyInput({ academicYearId: 'y1', startDate: '09/07/2025' }).error).toBeDefined()
+  })
+
+  it('should reject malformed blackout dates', () => {
+    expect(parseTemplateApplyInput({ academicYearId: 'y1', startDate: '2025-09-07', blackoutDates: '2025-12-28' }).error)
+      .toBeDefined()
+    expect(parseTemplateApplyInput({ academicYearId: 'y1', startDate: '2025-09-07', blackoutDates: ['2025-13-40'] }).error)
+      .toBeDefined()
+  })
+
+  it('should dedupe and sort blackout dates', () => {
+    const { data } = parseTemplateApplyInput({
+      academicYearId: 'y1',
+      startDate: '2025-09-07',
+      blackoutDates: ['2025-12-28', '2025-12-21', '2025-12-28'],
+    })
+    expect(data).toEqual({
+      academicYearId: 'y1',
+      startDate: new Date('2025-09-07'),
+      blackoutDates: ['2025-12-21', '2025-12-28'],
+    })
+  })
+
+  it('should default to no blackout dates', () => {
+    expect(parseTemplateApplyInput({ academicYearId: 'y1', startDate: '2025-09-07' }).data?.blackoutDates).toEqual([])
+  })
+})
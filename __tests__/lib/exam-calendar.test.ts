@@ -0,0 +1,232 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  ABSENCE_WARNING_SHARE,
+  examDayLessonChangeError,
+  findExamDateConflicts,
+  planExamDayLessonNumbers,
+  sundaySchoolCoversDate,
+  syncExamDayLesson,
+  utcDayRange,
+  utcWeekRange,
+  type ExamDateContext,
+} from '@/lib/exam-calendar'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+const baseContext: ExamDateContext = {
+  examDate: new Date('2025-03-09T18:00:00Z'),
+  academicYear: { name: '2024-2025', startDate: new Date('2024-09-01'), endDate: new Date('2025-06-30') },
+  lessons: [],
+  studentCount: 20,
+  absentStudentCount: 0,
+  sundaySchoolStudentCount: 0,
+}
+
+describe('utcDayRange / utcWeekRange', () => {
+  it('should cover the whole UTC day', () => {
+    const { start, end } = utcDayRange(new Date('2025-03-12T15:30:00Z'))
+    expect(start.toISOString()).toBe('2025-03-12T00:00:00.000Z')
+    expect(end.toISOString()).toBe('2025-03-12T23:59:59.999Z')
+  })
+
+  it('should run Sunday to Saturday', () => {
+    // Wednesday
+    const { start, end } = utcWeekRange(new Date('2025-03-12T15:30:00Z'))
+    expect(start.toISOString()).toBe('2025-03-09T00:00:00.000Z')
+    expect(end.toISOString()).toBe('2025-03-15T23:59:59.999Z')
+  })
+})
+
+describe('sundaySchoolCoversDate', () => {
+  const assignment = { startDate: new Date('2025-03-02T00:00:00Z'), totalWeeks: 6 }
+
+  it('should match the assignment weekday within its weeks', () => {
+    expect(sundaySchoolCoversDate(assignment, new Date('2025-03-02T10:00:00Z'))).toBe(true)
+    expect(sundaySchoolCoversDate(assignment, new Date('2025-04-06T10:00:00Z'))).toBe(true)
+  })
+
+  it('should not match other days, earlier dates or weeks after the last', () => {
+    expect(sundaySchoolCoversDate(assignment, new Date('2025-03-05T10:00:00Z'))).toBe(false)
+    expect(sundaySchoolCoversDate(assignment, new Date('2025-02-23T10:00:00Z'))).toBe(false)
+    expect(sundaySchoolCoversDate(assignment, new Date('2025-04-13T10:00:00Z'))).toBe(false)
+  })
+})
+
+describe('findExamDateConflicts', () => {
+  it('should find nothing on a clear date', () => {
+    expect(findExamDateConflicts(baseContext)).toEqual([])
+  })
+
+  it('should reject dates outside the academic year', () => {
+    const conflicts = findExamDateConflicts({ ...baseContext, examDate: new Date('2025-07-06') })
+    expect(conflicts).toEqual([
+      expect.objectContaining({ type: 'OUTSIDE_ACADEMIC_YEAR', severity: 'error' }),
+    ])
+  })
+
+  it('should accept the first and last days of the year', () => {
+    expect(findExamDateConflicts({ ...baseContext, examDate: new Date('2024-09-01T12:00:00Z') })).toEqual([])
+    expect(findExamDateConflicts({ ...baseContext, examDate: new Date('2025-06-30T12:00:00Z') })).toEqual([])
+  })
+
+  it('should warn about cancelled and no-class lessons that day', () => {
+    const conflicts = findExamDateConflicts({
+      ...baseContext,
+      lessons: [
+        { title: 'Church History', status: 'CANCELLED', cancellationReason: 'Snow' },
+        { title: 'Feast', status: 'NO_CLASS', cancellationReason: null },
+        { title: 'Dogma', status: 'SCHEDULED', cancellationReason: null },
+      ],
+    })
+    expect(conflicts.map(c => [c.type, c.severity])).toEqual([
+      ['LESSON_CANCELLED', 'warning'],
+      ['NO_CLASS', 'warning'],
+    ])
+    expect(conflicts[0].message).toContain('(Snow)')
+  })
+
+  it('should warn when enough students are away that week', () => {
+    const threshold = Math.ceil(baseContext.studentCount * ABSENCE_WARNING_SHARE)
+    expect(findExamDateConflicts({ ...baseContext, absentStudentCount: threshold - 1 })).toEqual([])
+    expect(findExamDateConflicts({ ...baseContext, absentStudentCount: threshold })[0]).toMatchObject({
+      type: 'EXPECTED_ABSENCES',
+      message: `${threshold} of 20 students expect to be away that week`,
+    })
+  })
+
+  it('should warn about students serving Sunday School', () => {
+    expect(findExamDateConflicts({ ...baseContext, sundaySchoolStudentCount: 2 })[0].type).toBe('SUNDAY_SCHOOL')
+  })
+})
+
+describe('examDayLessonChangeError', () => {
+  it('should block unflagging or cancelling an exam day', () => {
+    expect(examDayLessonChangeError({ isExamDay: false })).toContain('exam day')
+    expect(examDayLessonChangeError({ status: 'CANCELLED' })).toContain('before cancelling')
+    expect(examDayLessonChangeError({ status: 'NO_CLASS' })).toContain('before cancelling')
+  })
+
+  it('should allow other changes', () => {
+    expect(examDayLessonChangeError({})).toBeNull()
+    expect(examDayLessonChangeError({ isExamDay: true, status: 'COMPLETED' })).toBeNull()
+  })
+})
+
+describe('planExamDayLessonNumbers', () => {
+  it('should append after the last lesson when nothing comes later', () => {
+    expect(planExamDayLessonNumbers([], 12)).toEqual({ lessonNumber: 13, renumbered: [] })
+    expect(planExamDayLessonNumbers([], null)).toEqual({ lessonNumber: 1, renumbered: [] })
+  })
+
+  it('should take the first later number and move the later lessons up one', () => {
+    expect(planExamDayLessonNumbers([{ id: 'a', lessonNumber: 8 }, { id: 'b', lessonNumber: 9 }], 9)).toEqual({
+      lessonNumber: 8,
+      renumbered: [{ id: 'a', lessonNumber: 9 }, { id: 'b', lessonNumber: 10 }],
+    })
+  })
+
+  it('should put out-of-order later lessons back in date order', () => {
+    // b (number 5) falls after a (number 6): the new lesson takes 5, a keeps 6
+    expect(planExamDayLessonNumbers([{ id: 'a', lessonNumber: 6 }, { id: 'b', lessonNumber: 5 }], 6)).toEqual({
+      lessonNumber: 5,
+      renumbered: [{ id: 'b', lessonNumber: 7 }],
+    })
+  })
+})
+
+describe('syncExamDayLesson', () => {
+  const tx = {
+    exam: { findUniqueOrThrow: vi.fn(), update: vi.fn(), count: vi.fn() },
+    lesson: { findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn(), create: vi.fn(), aggregate: vi.fn() },
+  }
+  const exam = {
+    id: 'exam1',
+    academicYearId: 'year1',
+    examSectionId: 'sec1',
+    examDate: new Date('2025-03-09T00:00:00Z'),
+    sittingType: 'REGULAR',
+    examSection: { displayName: 'Dogma' },
+    lesson: null,
+  }
+  const sync = () => syncExamDayLesson(tx as never, 'exam1', 'admin1')
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should leave makeups and retakes without a lesson', async () => {
+    tx.exam.findUniqueOrThrow.mockResolvedValue({ ...exam, sittingType: 'MAKEUP' })
+    expect(await sync()).toBeNull()
+    expect(tx.exam.update).not.toHaveBeenCalled()
+  })
+
+  it("should flag that day's lesson as the exam day", async () => {
+    tx.exam.findUniqueOrThrow.mockResolvedValue(exam)
+    tx.lesson.findFirst.mockResolvedValue({ id: 'lesson1', isExamDay: false })
+    tx.lesson.update.mockResolvedValue({ id: 'lesson1', isExamDay: true })
+
+    expect(await sync()).toBe('lesson1')
+    expect(tx.lesson.update).toHaveBeenCalledWith({ where: { id: 'lesson1' }, data: { isExamDay: true } })
+    expect(tx.exam.update).toHaveBeenCalledWith({ where: { id: 'exam1' }, data: { lessonId: 'lesson1' } })
+  })
+
+  it('should add an exam-day lesson when none is held that day', async () => {
+    tx.exam.findUniqueOrThrow.mockResolvedValue(exam)
+    tx.lesson.findFirst.mockResolvedValue(null)
+    tx.lesson.findMany.mockResolvedValue([])
+    tx.lesson.aggregate.mockResolvedValue({ _max: { lessonNumber: 12 } })
+    tx.lesson.create.mockResolvedValue({ id: 'new-lesson' })
+
+    expect(await sync()).toBe('new-lesson')
+    expect(tx.lesson.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        title: 'Dogma Exam',
+        lessonNumber: 13,
+        isExamDay: true,
+        scheduledDate: exam.examDate,
+        createdBy: 'admin1',
+      }),
+    })
+  })
+
+  it('should number an added lesson in date order, moving later lessons up', async () => {
+    tx.exam.findUniqueOrThrow.mockResolvedValue(exam)
+    tx.lesson.findFirst.mockResolvedValue(null)
+    tx.lesson.findMany.mockResolvedValue([{ id: 'l11', lessonNumber: 11 }, { id: 'l12', lessonNumber: 12 }])
+    tx.lesson.aggregate.mockResolvedValue({ _max: { lessonNumber: 12 } })
+    tx.lesson.create.mockResolvedValue({ id: 'new-lesson' })
+
+    await sync()
+    expect(tx.lesson.create).toHaveBeenCalledWith({ data: expect.objectContaining({ lessonNumber: 11 }) })
+    expect(tx.lesson.update.mock.calls.map(([args]) => args)).toEqual([
+      { where: { id: 'l11' }, data: { lessonNumber: -1 } },
+      { where: { id: 'l12' }, data: { lessonNumber: -2 } },
+      { where: { id: 'l11' }, data: { lessonNumber: 12 } },
+      { where: { id: 'l12' }, data: { lessonNumber: 13 } },
+    ])
+  })
+
+  it('should release the previous lesson when the exam moves', async () => {
+    tx.exam.findUniqueOrThrow.mockResolvedValue({
+      ...exam,
+      lesson: { id: 'old', isExamDay: true, scheduledDate: new Date('2025-03-02T00:00:00Z') },
+    })
+    tx.lesson.findFirst.mockResolvedValue({ id: 'lesson1', isExamDay: true })
+    tx.exam.count.mockResolvedValue(0)
+
+    await sync()
+    expect(tx.exam.count).toHaveBeenCalledWith({ where: { lessonId: 'old', id: { not: 'exam1' } } })
+    expect(tx.lesson.update).toHaveBeenCalledWith({ where: { id: 'old' }, data: { isExamDay: false } })
+  })
+
+  it('should keep a lesson still on the exam date', async () => {
+    tx.exam.findUniqueOrThrow.mockResolvedValue({
+      ...exam,
+      lesson: { id: 'lesson1', isExamDay: true, scheduledDate: new Date('2025-03-09T18:00:00Z') },
+    })
+
+    expect(await sync()).toBe('lesson1')
+    expect(tx.lesson.findFirst).not.toHaveBeenCalled()
+    expect(tx.exam.update).not.toHaveBeenCalled()
+  })
+})
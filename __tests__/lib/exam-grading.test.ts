@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyCurve,
+  curvePercentages,
+  describeCurve,
+  parseExamCurveInput,
+  parseWeightInput,
+  toRawPercentage,
+} from '@/lib/exam-grading'
+
+const context = { totalPoints: 50, topRawPercentage: 80 }
+
+describe('parseWeightInput', () => {
+  it('should accept positive numbers only', () => {
+    expect(parseWeightInput(2).data).toBe(2)
+    expect(parseWeightInput(0.5).data).toBe(0.5)
+    expect(parseWeightInput(0).error).toBeDefined()
+    expect(parseWeightInput(-1).error).toBeDefined()
+    expect(parseWeightInput('2').error).toBeDefined()
+  })
+})
+
+describe('parseExamCurveInput', () => {
+  it('should treat a missing curve type as removing the curve', () => {
+    expect(parseExamCurveInput({}, 50).data).toEqual({ curveType: null, curveValue: null })
+    expect(parseExamCurveInput({ curveType: null, curveValue: 5 }, 50).data).toEqual({ curveType: null, curveValue: null })
+  })
+
+  it('should require points within the exam total for ADD_POINTS', () => {
+    expect(parseExamCurveInput({ curveType: 'ADD_POINTS', curveValue: 5 }, 50).data)
+      .toEqual({ curveType: 'ADD_POINTS', curveValue: 5 })
+    expect(parseExamCurveInput({ curveType: 'ADD_POINTS' }, 50).error).toBeDefined()
+    expect(parseExamCurveInput({ curveType: 'ADD_POINTS', curveValue: 60 }, 50).error).toBeDefined()
+  })
+
+  it('should default SCALE_TO_MAX to 100% and bound the target', () => {
+    expect(parseExamCurveInput({ curveType: 'SCALE_TO_MAX' }, 50).data)
+      .toEqual({ curveType: 'SCALE_TO_MAX', curveValue: 100 })
+    expect(parseExamCurveInput({ curveType: 'SCALE_TO_MAX', curveValue: 120 }, 50).error).toBeDefined()
+  })
+
+  it('should drop the value for SQUARE_ROOT and reject unknown types', () => {
+    expect(parseExamCurveInput({ curveType: 'SQUARE_ROOT', curveValue: 3 }, 50).data)
+      .toEqual({ curveType: 'SQUARE_ROOT', curveValue: null })
+    expect(parseExamCurveInput({ curveType: 'toString' }, 50).error).toBeDefined()
+    expect(parseExamCurveInput({ curveType: 'ADD_POINTS', curveValue: '5' }, 50).error).toBeDefined()
+  })
+})
+
+describe('applyCurve', () => {
+  it('should leave the raw percentage without a curve', () => {
+    expect(applyCurve(55, { curveType: null, curveValue: null }, context)).toBe(55)
+  })
+
+  it('should add points on the exam scale', () => {
+    // 5 of 50 points = 10%
+    expect(applyCurve(55, { curveType: 'ADD_POINTS', curveValue: 5 }, context)).toBe(65)
+  })
+
+  it('should scale the top score to the target', () => {
+    const curve = { curveType: 'SCALE_TO_MAX' as const, curveValue: 100 }
+    expect(applyCurve(80, curve, context)).toBe(100)
+    expect(applyCurve(40, curve, context)).toBe(50)
+  })
+
+  it('should apply a square-root curve', () => {
+    expect(applyCurve(64, { curveType: 'SQUARE_ROOT', curveValue: null }, context)).toBe(80)
+  })
+
+  it('should never lower a score or pass 100%', () => {
+    expect(applyCurve(98, { curveType: 'ADD_POINTS', curveValue: 5 }, context)).toBe(100)
+    // Target below the top score would lower everyone
+    expect(applyCurve(80, { curveType: 'SCALE_TO_MAX', curveValue: 70 }, context)).toBe(80)
+  })
+})
+
+describe('curvePercentages', () => {
+  it('should scale against the exam top score', () => {
+    expect(curvePercentages([45, 90, 60], { curveType: 'SCALE_TO_MAX', curveValue: 100 }, 20)).toEqual([50, 100, 200 / 3])
+    expect(curvePercentages([], { curveType: 'SCALE_TO_MAX', curveValue: 100 }, 20)).toEqual([])
+  })
+})
+
+describe('toRawPercentage and describeCurve', () => {
+  it('should compute raw percentages and describe curves', () => {
+    expect(toRawPercentage(17, 20)).toBe(85)
+    expect(toRawPercentage(5, 0)).toBe(0)
+    expect(describeCurve({ curveType: 'ADD_POINTS', curveValue: 3 })).toBe('+3 pts')
+    expect(describeCurve({ curveType: null, curveValue: null })).toBeNull()
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { parseRegradeRequestInput, validateRegradeReview } from '@/lib/exam-regrades'
+
+describe('parseRegradeRequestInput', () => {
+  it('should require a score and a comment', () => {
+    expect(parseRegradeRequestInput({ comment: 'Question 3' }).error).toBeDefined()
+    expect(parseRegradeRequestInput({ examScoreId: 'score-1' }).error).toBeDefined()
+    expect(parseRegradeRequestInput({ examScoreId: 'score-1', comment: '   ' }).error).toBeDefined()
+  })
+
+  it('should trim the comment', () => {
+    expect(parseRegradeRequestInput({ examScoreId: 'score-1', comment: '  Question 3 was marked wrong ' }).data)
+      .toEqual({ examScoreId: 'score-1', comment: 'Question 3 was marked wrong' })
+  })
+
+  it('should reject overly long comments', () => {
+    expect(parseRegradeRequestInput({ examScoreId: 'score-1', comment: 'a'.repeat(2001) }).error).toBeDefined()
+  })
+})
+
+describe('validateRegradeReview', () => {
+  it('should only accept APPROVED or DENIED on pending requests', () => {
+    expect(validateRegradeReview('PENDING', { status: 'PENDING' }, 50).error).toBeDefined()
+    expect(validateRegradeReview('APPROVED', { status: 'DENIED', note: 'No' }, 50).error)
+      .toBe('Request has already been approved')
+  })
+
+  it('should require the adjusted score within the exam total when approving', () => {
+    expect(validateRegradeReview('PENDING', { status: 'APPROVED' }, 50).error).toBeDefined()
+    expect(validateRegradeReview('PENDING', { status: 'APPROVED', adjustedScore: 51 }, 50).error).toBeDefined()
+    expect(validateRegradeReview('PENDING', { status: 'APPROVED', adjustedScore: -1 }, 50).error).toBeDefined()
+    expect(validateRegradeReview('PENDING', { status: 'APPROVED', adjustedScore: 45, note: ' Fixed Q3 ' }, 50).data)
+      .toEqual({ status: 'APPROVED', adjustedScore: 45, reviewNote: 'Fixed Q3' })
+  })
+
+  it('should require a note when denying and ignore any score', () => {
+    expect(validateRegradeReview('PENDING', { status: 'DENIED' }, 50).error).toBeDefined()
+    expect(validateRegradeReview('PENDING', { status: 'DENIED', adjustedScore: 45, note: 'Answer key is correct' }, 50).data)
+      .toEqual({ status: 'DENIED', adjustedScore: null, reviewNote: 'Answer key is correct' })
+  })
+})
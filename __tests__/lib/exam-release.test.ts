@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canSeeUnreleasedScores,
+  isExamReleased,
+  notifiesOnScoreSave,
+  parseReleaseInput,
+  releasedExamWhere,
+} from '@/lib/exam-release'
+
+const now = new Date('2026-03-01T12:00:00Z')
+
+describe('canSeeUnreleasedScores', () => {
+  it('should let admins see hidden scores but not students or mentors', () => {
+    expect(canSeeUnreleasedScores('SUPER_ADMIN')).toBe(true)
+    expect(canSeeUnreleasedScores('SERVANT_PREP')).toBe(true)
+    expect(canSeeUnreleasedScores('PRIEST')).toBe(true)
+    expect(canSeeUnreleasedScores('MENTOR')).toBe(false)
+    expect(canSeeUnreleasedScores('STUDENT')).toBe(false)
+  })
+})
+
+describe('isExamReleased', () => {
+  it('should treat released exams as visible and drafts as hidden', () => {
+    expect(isExamReleased({ releaseStatus: 'RELEASED', releaseAt: null }, now)).toBe(true)
+    expect(isExamReleased({ releaseStatus: 'DRAFT', releaseAt: null }, now)).toBe(false)
+  })
+
+  it('should release scheduled exams once their time has passed', () => {
+    expect(isExamReleased({ releaseStatus: 'SCHEDULED', releaseAt: '2026-03-01T11:59:00Z' }, now)).toBe(true)
+    expect(isExamReleased({ releaseStatus: 'SCHEDULED', releaseAt: new Date('2026-03-01T12:00:00Z') }, now)).toBe(true)
+    expect(isExamReleased({ releaseStatus: 'SCHEDULED', releaseAt: '2026-03-02T09:00:00Z' }, now)).toBe(false)
+    expect(isExamReleased({ releaseStatus: 'SCHEDULED', releaseAt: null }, now)).toBe(false)
+  })
+})
+
+describe('notifiesOnScoreSave', () => {
+  it('should only notify once an exam has actually been released', () => {
+    expect(notifiesOnScoreSave({ releaseStatus: 'RELEASED' })).toBe(true)
+    expect(notifiesOnScoreSave({ releaseStatus: 'SCHEDULED' })).toBe(false)
+    expect(notifiesOnScoreSave({ releaseStatus: 'DRAFT' })).toBe(false)
+  })
+})
+
+describe('releasedExamWhere', () => {
+  it('should match released exams and scheduled exams that are due', () => {
+    expect(releasedExamWhere(now)).toEqual({
+      OR: [
+        { releaseStatus: 'RELEASED' },
+        { releaseStatus: 'SCHEDULED', releaseAt: { lte: now } },
+      ],
+    })
+  })
+})
+
+describe('parseReleaseInput', () => {
+  it('should reject unknown statuses', () => {
+    expect(parseReleaseInput({}, now).error).toBeDefined()
+    expect(parseReleaseInput({ releaseStatus: 'PUBLISHED' }, now).error).toBeDefined()
+  })
+
+  it('should clear the release time unless scheduling', () => {
+    expect(parseReleaseInput({ releaseStatus: 'DRAFT', releaseAt: '2026-04-01T00:00:00Z' }, now).data)
+      .toEqual({ releaseStatus: 'DRAFT', releaseAt: null })
+    expect(parseReleaseInput({ releaseStatus: 'RELEASED' }, now).data)
+      .toEqual({ releaseStatus: 'RELEASED', releaseAt: null })
+  })
+
+  it('should require a future time when scheduling', () => {
+    expect(parseReleaseInput({ releaseStatus: 'SCHEDULED' }, now).error).toBeDefined()
+    expect(parseReleaseInput({ releaseStatus: 'SCHEDULED', releaseAt: 'soon' }, now).error).toBeDefined()
+    expect(parseReleaseInput({ releaseStatus: 'SCHEDULED', releaseAt: '2026-02-28T12:00:00Z' }, now).error).toBeDefined()
+    expect(parseReleaseInput({ releaseStatus: 'SCHEDULED', releaseAt: '2026-03-05T18:00:00Z' }, now).data)
+      .toEqual({ releaseStatus: 'SCHEDULED', releaseAt: new Date('2026-03-05T18:00:00Z') })
+  })
+})
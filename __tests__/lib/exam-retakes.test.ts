@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest'
+import type { ExamRetakePolicy, ExamSittingType } from '@prisma/client'
+import {
+  getOriginalExamId,
+  isSittingOpenToStudent,
+  parseExamSittingInput,
+  parseRetakePolicyInput,
+  resolveEffectiveScore,
+  resolveEffectiveScores,
+} from '@/lib/exam-retakes'
+
+function sitting(
+  id: string,
+  sittingType: ExamSittingType,
+  examDate: string,
+  percentage: number,
+  options: { policy?: ExamRetakePolicy; studentId?: string; passingScore?: number } = {}
+) {
+  return {
+    id: `score-${id}`,
+    studentId: options.studentId ?? 's1',
+    score: percentage,
+    percentage,
+    exam: {
+      id,
+      examDate,
+      totalPoints: 100,
+      sittingType,
+      originalExamId: sittingType === 'REGULAR' ? null : 'e1',
+      academicYear: { examRetakePolicy: options.policy ?? 'HIGHEST' },
+      examSection: { passingScore: options.passingScore ?? 60 },
+    },
+  }
+}
+
+describe('parseExamSittingInput', () => {
+  it('should default to a regular exam', () => {
+    expect(parseExamSittingInput({}).data).toEqual({ sittingType: 'REGULAR', originalExamId: null })
+  })
+
+  it('should require an original exam for makeups and retakes', () => {
+    expect(parseExamSittingInput({ sittingType: 'MAKEUP' }).error).toBeDefined()
+    expect(parseExamSittingInput({ sittingType: 'RETAKE', originalExamId: 'e1' }).data)
+      .toEqual({ sittingType: 'RETAKE', originalExamId: 'e1' })
+  })
+
+  it('should reject a regular exam linked to an original', () => {
+    expect(parseExamSittingInput({ sittingType: 'REGULAR', originalExamId: 'e1' }).error).toBeDefined()
+  })
+
+  it('should reject unknown sitting types', () => {
+    expect(parseExamSittingInput({ sittingType: 'toString' }).error).toBeDefined()
+  })
+})
+
+describe('parseRetakePolicyInput', () => {
+  it('should leave the policy alone when omitted', () => {
+    expect(parseRetakePolicyInput({})).toEqual({ data: {} })
+  })
+
+  it('should accept known policies and reject others', () => {
+    expect(parseRetakePolicyInput({ examRetakePolicy: 'LATEST' }).data).toEqual({ examRetakePolicy: 'LATEST' })
+    expect(parseRetakePolicyInput({ examRetakePolicy: 'LOWEST' }).error).toBeDefined()
+  })
+})
+
+describe('isSittingOpenToStudent', () => {
+  it('should offer makeups only to students without an original score', () => {
+    expect(isSittingOpenToStudent({ sittingType: 'MAKEUP' }, false)).toBe(true)
+    expect(isSittingOpenToStudent({ sittingType: 'MAKEUP' }, true)).toBe(false)
+  })
+
+  it('should offer retakes only to students with an original score', () => {
+    expect(isSittingOpenToStudent({ sittingType: 'RETAKE' }, true)).toBe(true)
+    expect(isSittingOpenToStudent({ sittingType: 'RETAKE' }, false)).toBe(false)
+    expect(isSittingOpenToStudent({ sittingType: 'REGULAR' }, false)).toBe(true)
+  })
+})
+
+describe('getOriginalExamId', () => {
+  it('should use the linked original for sittings', () => {
+    expect(getOriginalExamId({ id: 'e2', originalExamId: 'e1' })).toBe('e1')
+    expect(getOriginalExamId({ id: 'e1', originalExamId: null })).toBe('e1')
+  })
+})
+
+describe('resolveEffectiveScore', () => {
+  it('should return null without sittings', () => {
+    expect(resolveEffectiveScore([])).toBeNull()
+  })
+
+  it('should count a single sitting as is', () => {
+    const original = sitting('e1', 'REGULAR', '2026-01-10', 70)
+    const result = resolveEffectiveScore([original])!
+    expect(result.counted).toBe(original)
+    expect(result.percentage).toBe(70)
+    expect(result.originalExamId).toBe('e1')
+  })
+
+  it('should let a makeup stand in for a missed original', () => {
+    const makeup = sitting('e2', 'MAKEUP', '2026-01-20', 80)
+    const result = resolveEffectiveScore([makeup])!
+    expect(result.base).toBe(makeup)
+    expect(result.originalExamId).toBe('e1')
+    expect(result.percentage).toBe(80)
+  })
+
+  it('should take the highest score under HIGHEST', () => {
+    const original = sitting('e1', 'REGULAR', '2026-01-10', 50)
+    const retake = sitting('e2', 'RETAKE', '2026-02-10', 85)
+    const worse = sitting('e3', 'RETAKE', '2026-03-10', 70)
+    const result = resolveEffectiveScore([worse, retake, original])!
+    expect(result.counted).toBe(retake)
+    expect(result.percentage).toBe(85)
+    // History stays in date order with the original first
+    expect(result.sittings.map(s => s.exam.id)).toEqual(['e1', 'e2', 'e3'])
+  })
+
+  it('should keep the original when a retake only ties it', () => {
+    const original = sitting('e1', 'REGULAR', '2026-01-10', 70)
+    const retake = sitting('e2', 'RETAKE', '2026-02-10', 70)
+    expect(resolveEffectiveScore([retake, original])!.counted).toBe(original)
+  })
+
+  it('should take the most recent sitting under LATEST, even when lower', () => {
+    const original = sitting('e1', 'REGULAR', '2026-01-10', 65, { policy: 'LATEST' })
+    const retake = sitting('e2', 'RETAKE', '2026-02-10', 55, { policy: 'LATEST' })
+    const result = resolveEffectiveScore([original, retake])!
+    expect(result.counted).toBe(retake)
+    expect(result.percentage).toBe(55)
+  })
+
+  it('should cap retakes at the passing score under CAPPED_AT_PASSING', () => {
+    const original = sitting('e1', 'REGULAR', '2026-01-10', 40, { policy: 'CAPPED_AT_PASSING' })
+    const retake = sitting('e2', 'RETAKE', '2026-02-10', 90, { policy: 'CAPPED_AT_PASSING' })
+    const result = resolveEffectiveScore([original, retake])!
+    expect(result.counted).toBe(retake)
+    expect(result.percentage).toBe(60)
+    expect(result.score).toBe(60)
+    expect(result.capped).toBe(true)
+  })
+
+  it('should keep an original above passing under CAPPED_AT_PASSING', () => {
+    const original = sitting('e1', 'REGULAR', '2026-01-10', 65, { policy: 'CAPPED_AT_PASSING' })
+    const retake = sitting('e2', 'RETAKE', '2026-02-10', 95, { policy: 'CAPPED_AT_PASSING' })
+    const result = resolveEffectiveScore([original, retake])!
+    expect(result.counted).toBe(original)
+    expect(result.capped).toBe(false)
+  })
+
+  it('should not cap a retake that stays below passing', () => {
+    const original = sitting('e1', 'REGULAR', '2026-01-10', 30, { policy: 'CAPPED_AT_PASSING' })
+    const retake = sitting('e2', 'RETAKE', '2026-02-10', 50, { policy: 'CAPPED_AT_PASSING' })
+    const result = resolveEffectiveScore([original, retake])!
+    expect(result.percentage).toBe(50)
+    expect(result.capped).toBe(false)
+  })
+})
+
+describe('resolveEffectiveScores', () => {
+  it('should resolve each student and exam separately', () => {
+    const results = resolveEffectiveScores([
+      sitting('e1', 'REGULAR', '2026-01-10', 50),
+      sitting('e2', 'RETAKE', '2026-02-10', 80),
+      sitting('e1', 'REGULAR', '2026-01-10', 90, { studentId: 's2' }),
+      sitting('e9', 'REGULAR', '2026-01-12', 75),
+    ])
+    expect(results).toHaveLength(3)
+    const s1e1 = results.find(r => r.studentId === 's1' && r.originalExamId === 'e1')!
+    expect(s1e1.percentage).toBe(80)
+    expect(s1e1.sittings).toHaveLength(2)
+    expect(results.find(r => r.studentId === 's2')!.percentage).toBe(90)
+  })
+})
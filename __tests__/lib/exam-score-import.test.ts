@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildScoreImportPlan,
+  matchScoreRow,
+  parseScoreCell,
+  parseScoreSheet,
+  validateImportedScore,
+  type ScoreSheetRow,
+} from '@/lib/exam-score-import'
+
+const students = [
+  { id: 's1', name: 'Mivel Abdelmalak', email: 'mivel@example.com' },
+  { id: 's2', name: 'Mina Girgis', email: 'mina@example.com' },
+  { id: 's3', name: 'Marina Hanna', email: 'marina@example.com' },
+]
+
+function row(rowNumber: number, score: number | null, overrides: Partial<ScoreSheetRow> = {}): ScoreSheetRow {
+  return { rowNumber, name: `Row ${rowNumber}`, email: null, score, rawScore: String(score ?? ''), notes: null, ...overrides }
+}
+
+describe('parseScoreCell', () => {
+  it('should read numbers and numeric text', () => {
+    expect(parseScoreCell(17).score).toBe(17)
+    expect(parseScoreCell(' 17.5 ').score).toBe(17.5)
+  })
+
+  it('should leave other text for review', () => {
+    expect(parseScoreCell('17/20')).toEqual({ score: null, rawScore: '17/20' })
+    expect(parseScoreCell('85%').score).toBeNull()
+  })
+})
+
+describe('parseScoreSheet', () => {
+  it('should read name, email, score and notes columns', () => {
+    const { rows } = parseScoreSheet([
+      ['Name', 'Email', 'Score', 'Notes'],
+      ['Mivel Abdelmalak', 'MIVEL@example.com', 18, 'Great work'],
+      ['Mina Girgis', '', '15', null],
+    ])
+    expect(rows).toEqual([
+      { rowNumber: 2, name: 'Mivel Abdelmalak', email: 'mivel@example.com', score: 18, rawScore: '18', notes: 'Great work' },
+      { rowNumber: 3, name: 'Mina Girgis', email: null, score: 15, rawScore: '15', notes: null },
+    ])
+  })
+
+  it('should find a header row below a title', () => {
+    const { rows } = parseScoreSheet([
+      ['Church History Exam'],
+      [],
+      ['Student Name', 'Points'],
+      ['Mina Girgis', 12],
+    ])
+    expect(rows).toHaveLength(1)
+    expect(rows![0].rowNumber).toBe(4)
+  })
+
+  it('should skip rows without a name or a score', () => {
+    const { rows } = parseScoreSheet([
+      ['Name', 'Score'],
+      ['Mina Girgis', null],
+      [null, 10],
+      ['Marina Hanna', 'absent'],
+    ])
+    expect(rows).toEqual([{ rowNumber: 4, name: 'Marina Hanna', email: null, score: null, rawScore: 'absent', notes: null }])
+  })
+
+  it('should require a score column and a name or email column', () => {
+    expect(parseScoreSheet([['Name', 'Date']]).error).toMatch(/score column/)
+    expect(parseScoreSheet([['ID', 'Score'], ['1', 10]]).error).toMatch(/Name/)
+  })
+})
+
+describe('matchScoreRow', () => {
+  it('should match an email exactly before trying names', () => {
+    const match = matchScoreRow({ name: 'Someone Else', email: 'mina@example.com' }, students)
+    expect(match.matchedId).toBe('s2')
+    expect(match.needsReview).toBe(false)
+  })
+
+  it('should fall back to fuzzy name matching', () => {
+    const match = matchScoreRow({ name: 'Abdelmalak, Mivel', email: 'unknown@example.com' }, students)
+    expect(match.matchedId).toBe('s1')
+  })
+})
+
+describe('validateImportedScore', () => {
+  it('should check the score against the exam total', () => {
+    expect(validateImportedScore(20, 20)).toBeNull()
+    expect(validateImportedScore(0, 20)).toBeNull()
+    expect(validateImportedScore(21, 20)).toMatch(/20 points/)
+    expect(validateImportedScore(-1, 20)).toMatch(/negative/)
+    expect(validateImportedScore(null, 20)).toMatch(/not a number/)
+  })
+})
+
+describe('buildScoreImportPlan', () => {
+  it('should split new, changed and unchanged scores', () => {
+    const plan = buildScoreImportPlan(
+      [row(2, 18), row(3, 15), row(4, 12)],
+      { 2: 's1', 3: 's2', 4: 's3' },
+      { s2: 14, s3: 12 },
+      20
+    )
+    expect(plan.entries).toEqual([
+      { rowNumber: 2, studentId: 's1', score: 18, notes: null, change: 'new', previousScore: null },
+      { rowNumber: 3, studentId: 's2', score: 15, notes: null, change: 'changed', previousScore: 14 },
+    ])
+    expect(plan.unchangedCount).toBe(1)
+  })
+
+  it('should report invalid scores and skip unmatched rows', () => {
+    const plan = buildScoreImportPlan([row(2, 25), row(3, 10)], { 2: 's1', 3: null }, {}, 20)
+    expect(plan.entries).toEqual([])
+    expect(plan.invalidRows).toEqual([{ rowNumber: 2, error: "Score is above the exam's 20 points" }])
+  })
+
+  it('should skip students matched to more than one row', () => {
+    const plan = buildScoreImportPlan([row(2, 10), row(3, 11), row(4, 12)], { 2: 's1', 3: 's1', 4: 's2' }, {}, 20)
+    expect(plan.duplicateStudentIds).toEqual(['s1'])
+    expect(plan.entries.map(e => e.studentId)).toEqual(['s2'])
+  })
+})
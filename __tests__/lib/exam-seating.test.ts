@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import {
+  absenceCoversDate,
+  assignSeats,
+  escapeHtml,
+  getSeatingFlags,
+  parseSeatingInput,
+  seatLabel,
+  shuffle,
+} from '@/lib/exam-seating'
+
+// Deterministic stand-in for Math.random
+function sequence(values: number[]) {
+  let index = 0
+  return () => values[index++ % values.length]
+}
+
+describe('shuffle', () => {
+  it('should keep every item and leave the input untouched', () => {
+    const items = ['a', 'b', 'c', 'd']
+    const shuffled = shuffle(items, sequence([0.1, 0.7, 0.4]))
+    expect([...shuffled].sort()).toEqual(items)
+    expect(items).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('should reverse-swap from the end (Fisher-Yates)', () => {
+    // Always picking index 0 rotates the first item to the end
+    expect(shuffle(['a', 'b', 'c'], () => 0)).toEqual(['b', 'c', 'a'])
+  })
+})
+
+describe('assignSeats', () => {
+  it('should fill each row before starting the next', () => {
+    const seats = assignSeats(['s1', 's2', 's3', 's4', 's5'], 2, () => 0.999)
+    expect(seats.map(s => [s.row, s.seat])).toEqual([[1, 1], [1, 2], [2, 1], [2, 2], [3, 1]])
+    expect(new Set(seats.map(s => s.studentId)).size).toBe(5)
+  })
+})
+
+describe('seatLabel', () => {
+  it('should letter rows and continue past Z', () => {
+    expect(seatLabel(1, 1)).toBe('A1')
+    expect(seatLabel(3, 4)).toBe('C4')
+    expect(seatLabel(26, 2)).toBe('Z2')
+    expect(seatLabel(27, 1)).toBe('AA1')
+  })
+})
+
+describe('parseSeatingInput', () => {
+  it('should default seats per row and reject bad values', () => {
+    expect(parseSeatingInput({}).data).toEqual({ seatsPerRow: 6 })
+    expect(parseSeatingInput({ seatsPerRow: 8 }).data).toEqual({ seatsPerRow: 8 })
+    expect(parseSeatingInput({ seatsPerRow: 0 }).error).toBeDefined()
+    expect(parseSeatingInput({ seatsPerRow: 2.5 }).error).toBeDefined()
+    expect(parseSeatingInput({ seatsPerRow: 31 }).error).toBeDefined()
+  })
+})
+
+describe('absenceCoversDate', () => {
+  const examDate = '2026-05-10T00:00:00.000Z'
+
+  it('should match windows that touch the exam day', () => {
+    expect(absenceCoversDate({ startDate: '2026-05-08T00:00:00Z', endDate: '2026-05-10T23:59:59.999Z' }, examDate)).toBe(true)
+    expect(absenceCoversDate({ startDate: '2026-05-10T00:00:00Z', endDate: '2026-05-12T23:59:59.999Z' }, examDate)).toBe(true)
+  })
+
+  it('should not match windows on other days', () => {
+    expect(absenceCoversDate({ startDate: '2026-05-01T00:00:00Z', endDate: '2026-05-09T23:59:59.999Z' }, examDate)).toBe(false)
+    expect(absenceCoversDate({ startDate: '2026-05-11T00:00:00Z', endDate: '2026-05-12T23:59:59.999Z' }, examDate)).toBe(false)
+  })
+})
+
+describe('getSeatingFlags', () => {
+  const examDate = new Date('2026-05-10T00:00:00Z')
+  const window = { startDate: '2026-05-09T00:00:00Z', endDate: '2026-05-11T23:59:59.999Z', reason: 'Travel' }
+
+  it('should flag async students and absences on the exam date', () => {
+    expect(getSeatingFlags({ isAsyncStudent: true, expectedAbsences: [] }, examDate))
+      .toEqual([{ type: 'ASYNC', label: 'Async student' }])
+    expect(getSeatingFlags({ isAsyncStudent: false, expectedAbsences: [{ ...window, status: 'APPROVED' }] }, examDate))
+      .toEqual([{ type: 'EXPECTED_ABSENCE', label: 'Expected absence: Travel' }])
+    expect(getSeatingFlags({ isAsyncStudent: false, expectedAbsences: [{ ...window, status: 'PENDING' }] }, examDate))
+      .toEqual([{ type: 'EXPECTED_ABSENCE', label: 'Requested absence: Travel' }])
+  })
+
+  it('should ignore rejected requests', () => {
+    expect(getSeatingFlags({ isAsyncStudent: false, expectedAbsences: [{ ...window, status: 'REJECTED' }] }, examDate))
+      .toEqual([])
+  })
+})
+
+describe('escapeHtml', () => {
+  it('should escape markup in names', () => {
+    expect(escapeHtml(`<b>O'Neil & "Co"</b>`)).toBe('&lt;b&gt;O&#39;Neil &amp; &quot;Co&quot;&lt;/b&gt;')
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeQuestions,
+  buildHistogram,
+  calculateScoreStatistics,
+  calculateYearLevelStatistics,
+  median,
+  standardDeviation,
+  yearLevelAtExam,
+} from '@/lib/exam-statistics'
+
+describe('median', () => {
+  it('should take the middle value or the mean of the middle two', () => {
+    expect(median([90, 70, 80])).toBe(80)
+    expect(median([60, 90, 70, 80])).toBe(75)
+    expect(median([])).toBeNull()
+  })
+})
+
+describe('standardDeviation', () => {
+  it('should compute the population standard deviation', () => {
+    expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBe(2)
+    expect(standardDeviation([80])).toBe(0)
+    expect(standardDeviation([])).toBeNull()
+  })
+})
+
+describe('buildHistogram', () => {
+  it('should count scores in 10-point bands with 100 in the top band', () => {
+    const histogram = buildHistogram([100, 95, 69.5, 60, 0])
+    expect(histogram).toHaveLength(10)
+    expect(histogram[9]).toEqual({ label: '90–100', min: 90, max: 100, count: 2 })
+    expect(histogram[6].count).toBe(2)
+    expect(histogram[0].count).toBe(1)
+  })
+})
+
+describe('calculateScoreStatistics', () => {
+  it('should summarize scores against the passing score', () => {
+    const stats = calculateScoreStatistics([50, 60, 70, 80, 90], 60)
+    expect(stats.count).toBe(5)
+    expect(stats.mean).toBe(70)
+    expect(stats.median).toBe(70)
+    expect(stats.min).toBe(50)
+    expect(stats.max).toBe(90)
+    expect(stats.passCount).toBe(4)
+    expect(stats.passRate).toBe(80)
+  })
+
+  it('should return nulls without scores', () => {
+    const stats = calculateScoreStatistics([], 60)
+    expect(stats.mean).toBeNull()
+    expect(stats.passRate).toBeNull()
+    expect(stats.histogram.every(b => b.count === 0)).toBe(true)
+  })
+})
+
+describe('yearLevelAtExam', () => {
+  it('should treat the enrollment start year as Year 1', () => {
+    expect(yearLevelAtExam({ academicYearId: 'y1', yearLevel: 'YEAR_2' }, 'y1')).toBe('YEAR_1')
+    expect(yearLevelAtExam({ academicYearId: 'y1', yearLevel: 'YEAR_2' }, 'y2')).toBe('YEAR_2')
+  })
+
+  it('should fall back to the current year level', () => {
+    expect(yearLevelAtExam({ academicYearId: null, yearLevel: 'YEAR_1' }, 'y2')).toBe('YEAR_1')
+    expect(yearLevelAtExam(null, 'y2')).toBeNull()
+  })
+})
+
+describe('calculateYearLevelStatistics', () => {
+  it('should summarize each year level separately', () => {
+    const result = calculateYearLevelStatistics([
+      { percentage: 80, yearLevel: 'YEAR_1' },
+      { percentage: 60, yearLevel: 'YEAR_1' },
+      { percentage: 90, yearLevel: 'YEAR_2' },
+      { percentage: 40, yearLevel: null },
+    ], 60)
+    expect(result.YEAR_1.mean).toBe(70)
+    expect(result.YEAR_2.count).toBe(1)
+  })
+})
+
+describe('analyzeQuestions', () => {
+  const questions = [
+    { id: 'q2', order: 2, type: 'ESSAY' as const, prompt: 'Explain', options: [], points: 4 },
+    { id: 'q1', order: 1, type: 'MULTIPLE_CHOICE' as const, prompt: 'Pick', options: ['A', 'B'], points: 2 },
+  ]
+
+  it('should report how much of each question was earned, in order', () => {
+    const result = analyzeQuestions(questions, [
+      { questionId: 'q1', response: '0', pointsAwarded: 2 },
+      { questionId: 'q1', response: '1', pointsAwarded: 0 },
+      { questionId: 'q1', response: '0', pointsAwarded: 2 },
+      { questionId: 'q2', response: 'Essay', pointsAwarded: 3 },
+      { questionId: 'q2', response: 'Pending', pointsAwarded: null },
+    ])
+    expect(result.map(q => q.questionId)).toEqual(['q1', 'q2'])
+    expect(result[0].difficulty).toBeCloseTo(200 / 3)
+    expect(result[0].responseCounts).toEqual({ A: 2, B: 1 })
+    expect(result[1].gradedCount).toBe(1)
+    expect(result[1].difficulty).toBe(75)
+    expect(result[1].responseCounts).toEqual({})
+  })
+
+  it('should leave difficulty empty before any answer is graded', () => {
+    expect(analyzeQuestions(questions, [])[0].difficulty).toBeNull()
+  })
+})
@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ExamAttemptStatus, ExamQuestionType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  ATTEMPT_GRACE_SECONDS,
+  finalizeAttempt,
+  getAttemptExpiry,
+  gradeAnswer,
+  isAttemptOpen,
+  isExamOpenToStudent,
+  parseExamQuestionInput,
+  submitAttempt,
+  summarizeAttempt,
+  toExamScore,
+  toStudentQuestion,
+} from '@/lib/exam-taking'
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    examAttempt: {
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+    },
+    examAnswer: {
+      upsert: vi.fn(),
+    },
+    examScore: {
+      upsert: vi.fn(),
+    },
+  },
+}))
+
+const mc = { id: 'q1', type: ExamQuestionType.MULTIPLE_CHOICE, answerKey: ['2'], points: 2 }
+const tf = { id: 'q2', type: ExamQuestionType.TRUE_FALSE, answerKey: ['false'], points: 1 }
+const short = { id: 'q3', type: ExamQuestionType.SHORT_ANSWER, answerKey: ['St. Athanasius', 'Athanasius'], points: 1 }
+const essay = { id: 'q4', type: ExamQuestionType.ESSAY, answerKey: [], points: 5 }
+
+describe('parseExamQuestionInput', () => {
+  it('should parse a multiple choice question', () => {
+    const { data } = parseExamQuestionInput({
+      type: 'MULTIPLE_CHOICE',
+      prompt: ' Who wrote On the Incarnation? ',
+      options: ['Basil', ' Cyril ', 'Athanasius'],
+      answerKey: ['2'],
+      points: 2,
+    })
+    expect(data).toEqual({
+      type: 'MULTIPLE_CHOICE',
+      prompt: 'Who wrote On the Incarnation?',
+      options: ['Basil', 'Cyril', 'Athanasius'],
+      answerKey: ['2'],
+      points: 2,
+    })
+  })
+
+  it('should reject multiple choice without valid options or a correct option', () => {
+    expect(parseExamQuestionInput({ type: 'MULTIPLE_CHOICE', prompt: 'Q', options: ['A'], answerKey: ['0'] }).error)
+      .toContain('at least two options')
+    expect(parseExamQuestionInput({ type: 'MULTIPLE_CHOICE', prompt: 'Q', options: ['A', ' '], answerKey: ['0'] }).error)
+      .toBe('Options cannot be blank')
+    expect(parseExamQuestionInput({ type: 'MULTIPLE_CHOICE', prompt: 'Q', options: ['A', 'B'], answerKey: ['2'] }).error)
+      .toBe('Mark which option is correct')
+    expect(parseExamQuestionInput({ type: 'MULTIPLE_CHOICE', prompt: 'Q', options: ['A', 'B'] }).error)
+      .toBe('Mark which option is correct')
+  })
+
+  it('should normalize true/false answers and clear options', () => {
+    const { data } = parseExamQuestionInput({ type: 'TRUE_FALSE', prompt: 'Q', options: ['x'], answerKey: ['TRUE'] })
+    expect(data).toMatchObject({ options: [], answerKey: ['true'], points: 1 })
+    expect(parseExamQuestionInput({ type: 'TRUE_FALSE', prompt: 'Q', answerKey: ['maybe'] }).error).toBeDefined()
+  })
+
+  it('should allow short answers without a key and ignore keys on essays', () => {
+    expect(parseExamQuestionInput({ type: 'SHORT_ANSWER', prompt: 'Q', answerKey: ['', ' '] }).data?.answerKey).toEqual([])
+    expect(parseExamQuestionInput({ type: 'ESSAY', prompt: 'Q', answerKey: ['x'] }).data?.answerKey).toEqual([])
+  })
+
+  it('should reject bad types, prompts and points', () => {
+    expect(parseExamQuestionInput({ type: 'MATCHING', prompt: 'Q' }).error).toContain('Invalid question type')
+    expect(parseExamQuestionInput({ type: 'ESSAY', prompt: '  ' }).error).toBe('A question prompt is required')
+    expect(parseExamQuestionInput({ type: 'ESSAY', prompt: 'Q', points: 0 }).error).toBe('Points must be a positive number')
+    expect(parseExamQuestionInput({ type: 'ESSAY', prompt: 'Q', options: 'A,B' }).error).toContain('lists of text')
+  })
+})
+
+describe('gradeAnswer', () => {
+  it('should grade objective questions', () => {
+    expect(gradeAnswer(mc, '2')).toEqual({ isCorrect: true, pointsAwarded: 2 })
+    expect(gradeAnswer(mc, '1')).toEqual({ isCorrect: false, pointsAwarded: 0 })
+    expect(gradeAnswer(tf, 'False')).toEqual({ isCorrect: true, pointsAwarded: 1 })
+  })
+
+  it('should match short answers ignoring case, spacing and trailing punctuation', () => {
+    expect(gradeAnswer(short, '  athanasius. ')).toEqual({ isCorrect: true, pointsAwarded: 1 })
+    expect(gradeAnswer(short, 'st.  athanasius')).toEqual({ isCorrect: true, pointsAwarded: 1 })
+    expect(gradeAnswer(short, 'Cyril')).toEqual({ isCorrect: false, pointsAwarded: 0 })
+  })
+
+  it('should leave essays and unkeyed short answers for a grader', () => {
+    expect(gradeAnswer(essay, 'A long answer')).toBeNull()
+    expect(gradeAnswer({ ...short, answerKey: [] }, 'Athanasius')).toBeNull()
+  })
+
+  it('should score blank answers zero for every type', () => {
+    expect(gradeAnswer(essay, '  ')).toEqual({ isCorrect: false, pointsAwarded: 0 })
+    expect(gradeAnswer(mc, null)).toEqual({ isCorrect: false, pointsAwarded: 0 })
+  })
+})
+
+describe('summarizeAttempt', () => {
+  it('should total awarded points and count answers awaiting a grader', () => {
+    const summary = summarizeAttempt([mc, tf, essay], [
+      { questionId: 'q1', pointsAwarded: 2 },
+      { questionId: 'q2', pointsAwarded: 0 },
+      { questionId: 'q4', pointsAwarded: null },
+    ])
+    expect(summary).toEqual({ earned: 2, possible: 8, pendingCount: 1 })
+  })
+
+  it('should treat a missing answer as pending', () => {
+    expect(summarizeAttempt([mc], []).pendingCount).toBe(1)
+  })
+})
+
+describe('toExamScore', () => {
+  it('should scale question points to the exam total', () => {
+    expect(toExamScore(6, 8, 100)).toEqual({ score: 75, percentage: 75 })
+    const { score, percentage } = toExamScore(1, 3, 50)
+    expect(score).toBe(16.67)
+    expect(percentage).toBeCloseTo(33.33, 2)
+  })
+
+  it('should score an exam without points as zero', () => {
+    expect(toExamScore(0, 0, 100)).toEqual({ score: 0, percentage: 0 })
+  })
+})
+
+describe('attempt timing', () => {
+  const startedAt = new Date('2026-05-01T10:00:00Z')
+
+  it('should compute the expiry from the duration', () => {
+    expect(getAttemptExpiry(startedAt, 45)).toEqual(new Date('2026-05-01T10:45:00Z'))
+    expect(getAttemptExpiry(startedAt, null)).toBeNull()
+  })
+
+  it('should accept answers until the grace period ends', () => {
+    const attempt = { status: ExamAttemptStatus.IN_PROGRESS, expiresAt: new Date('2026-05-01T10:45:00Z') }
+    const justAfter = new Date(attempt.expiresAt.getTime() + (ATTEMPT_GRACE_SECONDS - 1) * 1000)
+    const tooLate = new Date(attempt.expiresAt.getTime() + (ATTEMPT_GRACE_SECONDS + 1) * 1000)
+
+    expect(isAttemptOpen(attempt, justAfter)).toBe(true)
+    expect(isAttemptOpen(attempt, tooLate)).toBe(false)
+    expect(isAttemptOpen({ ...attempt, expiresAt: null }, tooLate)).toBe(true)
+    expect(isAttemptOpen({ ...attempt, status: ExamAttemptStatus.SUBMITTED }, startedAt)).toBe(false)
+  })
+})
+
+describe('isExamOpenToStudent', () => {
+  const enrollment = { yearLevel: 'YEAR_1', isActive: true }
+
+  it('should require an online exam for the student year level', () => {
+    expect(isExamOpenToStudent({ onlineEnabled: true, yearLevel: 'BOTH' }, enrollment)).toBe(true)
+    expect(isExamOpenToStudent({ onlineEnabled: true, yearLevel: 'YEAR_1' }, enrollment)).toBe(true)
+    expect(isExamOpenToStudent({ onlineEnabled: true, yearLevel: 'YEAR_2' }, enrollment)).toBe(false)
+    expect(isExamOpenToStudent({ onlineEnabled: false, yearLevel: 'BOTH' }, enrollment)).toBe(false)
+  })
+
+  it('should exclude students without an active enrollment', () => {
+    expect(isExamOpenToStudent({ onlineEnabled: true, yearLevel: 'BOTH' }, null)).toBe(false)
+    expect(isExamOpenToStudent({ onlineEnabled: true, yearLevel: 'BOTH' }, { ...enrollment, isActive: false })).toBe(false)
+  })
+})
+
+describe('toStudentQuestion', () => {
+  it('should strip the answer key', () => {
+    expect(toStudentQuestion({ id: 'q1', prompt: 'Q', answerKey: ['2'] })).toEqual({ id: 'q1', prompt: 'Q' })
+  })
+})
+
+describe('submitAttempt and finalizeAttempt', () => {
+  const finalizeShape = (answers: Array<{ questionId: string; pointsAwarded: number | null }>) => ({
+    id: 'att-1',
+    examId: 'exam-1',
+    studentId: 'student-1',
+    exam: {
+      totalPoints: 50,
+      releaseStatus: 'RELEASED',
+      releaseAt: null,
+      examSection: { displayName: 'Bible' },
+      questions: [{ id: 'q1', points: 2 }, { id: 'q4', points: 5 }],
+    },
+    student: { name: 'Mark Hanna' },
+    answers,
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should auto-grade objective answers and leave essays pending', async () => {
+    vi.mocked(prisma.examAttempt.findUniqueOrThrow)
+      .mockResolvedValueOnce({
+        id: 'att-1',
+        exam: { questions: [mc, essay] },
+        answers: [{ questionId: 'q1', response: '2' }, { questionId: 'q4', response: 'My essay' }],
+      } as never)
+      .mockResolvedValueOnce(finalizeShape([
+        { questionId: 'q1', pointsAwarded: 2 },
+        { questionId: 'q4', pointsAwarded: null },
+      ]) as never)
+
+    const result = await submitAttempt('att-1')
+
+    expect(prisma.examAnswer.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { attemptId_questionId: { attemptId: 'att-1', questionId: 'q1' } },
+      update: { isCorrect: true, pointsAwarded: 2, gradedAt: expect.any(Date) },
+    }))
+    expect(prisma.examAnswer.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { attemptId_questionId: { attemptId: 'att-1', questionId: 'q4' } },
+      update: { isCorrect: null, pointsAwarded: null, gradedAt: null },
+    }))
+    expect(prisma.examAttempt.update).toHaveBeenCalledWith({
+      where: { id: 'att-1' },
+      data: { status: ExamAttemptStatus.SUBMITTED, submittedAt: expect.any(Date) },
+    })
+    expect(result).toBeNull()
+    expect(prisma.examScore.upsert).not.toHaveBeenCalled()
+  })
+
+  it('should write the scaled result to ExamScore once everything is graded', async () => {
+    vi.mocked(prisma.examAttempt.findUniqueOrThrow).mockResolvedValueOnce(finalizeShape([
+      { questionId: 'q1', pointsAwarded: 2 },
+      { questionId: 'q4', pointsAwarded: 3.6 },
+    ]) as never)
+
+    const result = await finalizeAttempt('att-1', 'grader-1')
+
+    expect(prisma.examScore.upsert).toHaveBeenCalledWith({
+      where: { examId_studentId: { examId: 'exam-1', studentId: 'student-1' } },
+      create: { examId: 'exam-1', studentId: 'student-1', score: 40, percentage: 80, rawPercentage: 80, gradedBy: 'grader-1' },
+      update: { score: 40, percentage: 80, rawPercentage: 80, gradedBy: 'grader-1', gradedAt: expect.any(Date) },
+    })
+    expect(prisma.examAttempt.update).toHaveBeenCalledWith({
+      where: { id: 'att-1' },
+      data: { status: ExamAttemptStatus.GRADED },
+    })
+    expect(result).toEqual({
+      examId: 'exam-1',
+      studentId: 'student-1',
+      studentName: 'Mark Hanna',
+      examSection: 'Bible',
+      score: 40,
+      percentage: 80,
+      released: true,
+      notify: true,
+    })
+  })
+
+  it('should show but not notify a due scheduled release that has not been claimed yet', async () => {
+    const shape = finalizeShape([
+      { questionId: 'q1', pointsAwarded: 2 },
+      { questionId: 'q4', pointsAwarded: 3.6 },
+    ])
+    vi.mocked(prisma.examAttempt.findUniqueOrThrow).mockResolvedValueOnce({
+      ...shape,
+      exam: { ...shape.exam, releaseStatus: 'SCHEDULED', releaseAt: new Date(Date.now() - 60_000) },
+    } as never)
+
+    const result = await finalizeAttempt('att-1', 'grader-1')
+
+    expect(result).toMatchObject({ released: true, notify: false })
+  })
+})
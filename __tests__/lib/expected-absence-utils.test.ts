@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { formatAbsenceRange, parseExpectedAbsenceInput, validateAbsenceReview } from '@/lib/expected-absence-utils'
+
+describe('parseExpectedAbsenceInput', () => {
+  it('should require dates and a reason', () => {
+    expect(parseExpectedAbsenceInput({ startDate: '2026-03-01', endDate: '2026-03-05' }).error)
+      .toBe('Start date, end date, and reason are required')
+    expect(parseExpectedAbsenceInput({ startDate: '2026-03-01', endDate: '2026-03-05', reason: '   ' }).error)
+      .toBe('Start date, end date, and reason are required')
+    expect(parseExpectedAbsenceInput({ endDate: '2026-03-05', reason: 'Travel' }).error)
+      .toBe('Start date, end date, and reason are required')
+  })
+
+  it('should reject unparseable dates', () => {
+    expect(parseExpectedAbsenceInput({ startDate: 'soon', endDate: '2026-03-05', reason: 'Travel' }).error)
+      .toBe('Invalid date(s)')
+  })
+
+  it('should reject an end date before the start date', () => {
+    expect(parseExpectedAbsenceInput({ startDate: '2026-03-05', endDate: '2026-03-01', reason: 'Travel' }).error)
+      .toBe('End date must be on or after the start date')
+  })
+
+  it('should cover the whole final day and trim the reason', () => {
+    const { data, error } = parseExpectedAbsenceInput({
+      startDate: '2026-03-01',
+      endDate: '2026-03-01',
+      reason: '  Family trip ',
+    })
+    expect(error).toBeUndefined()
+    expect(data!.startDate.toISOString()).toBe('2026-03-01T00:00:00.000Z')
+    expect(data!.endDate.toISOString()).toBe('2026-03-01T23:59:59.999Z')
+    expect(data!.reason).toBe('Family trip')
+  })
+})
+
+describe('validateAbsenceReview', () => {
+  it('should accept approving a pending request without a note', () => {
+    expect(validateAbsenceReview('PENDING', 'APPROVED')).toBeNull()
+  })
+
+  it('should accept rejecting a pending request with a note', () => {
+    expect(validateAbsenceReview('PENDING', 'REJECTED', 'Not a valid reason')).toBeNull()
+  })
+
+  it('should require a note to reject', () => {
+    expect(validateAbsenceReview('PENDING', 'REJECTED', ' ')).toBe('A note is required when rejecting a request')
+  })
+
+  it('should reject unknown decisions', () => {
+    expect(validateAbsenceReview('PENDING', 'PENDING')).toBe('Invalid status. Must be APPROVED or REJECTED')
+  })
+
+  it('should not review a request twice', () => {
+    expect(validateAbsenceReview('APPROVED', 'REJECTED', 'Changed my mind')).toBe('Request has already been approved')
+    expect(validateAbsenceReview('REJECTED', 'APPROVED')).toBe('Request has already been rejected')
+  })
+})
+
+describe('formatAbsenceRange', () => {
+  it('should show a single day once', () => {
+    expect(formatAbsenceRange('2026-03-01T00:00:00.000Z', '2026-03-01T23:59:59.999Z')).toBe('Mar 1, 2026')
+  })
+
+  it('should show both ends of a range', () => {
+    expect(formatAbsenceRange(new Date('2026-03-01'), new Date('2026-03-05T23:59:59.999Z'))).toBe('Mar 1 – Mar 5, 2026')
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest'
+import path from 'path'
+import { get, put } from '@vercel/blob'
+import {
+  MAX_UPLOAD_SIZE,
+  contentDisposition,
+  readStoredFile,
+  resolveLocalUploadPath,
+  sanitizeFilename,
+  storeFile,
+  validateUploadFile,
+} from '@/lib/file-storage'
+
+vi.mock('@vercel/blob', () => ({
+  put: vi.fn(),
+  del: vi.fn(),
+  get: vi.fn(),
+}))
+
+describe('validateUploadFile', () => {
+  it('should accept images and PDFs within the size limit', () => {
+    expect(validateUploadFile({ type: 'application/pdf', size: 1024 })).toBeNull()
+    expect(validateUploadFile({ type: 'image/jpeg', size: MAX_UPLOAD_SIZE })).toBeNull()
+  })
+
+  it('should reject other file types', () => {
+    expect(validateUploadFile({ type: 'text/html', size: 10 })).toContain('Invalid file type')
+  })
+
+  it('should reject files over the size limit', () => {
+    expect(validateUploadFile({ type: 'image/png', size: MAX_UPLOAD_SIZE + 1 })).toBe('File size exceeds 4.5 MB limit')
+  })
+
+  it('should honour a custom type list', () => {
+    expect(validateUploadFile({ type: 'application/pdf', size: 10 }, ['image/png'])).toContain('Invalid file type')
+  })
+
+  it('should honour a custom size limit', () => {
+    expect(validateUploadFile({ type: 'image/png', size: MAX_UPLOAD_SIZE + 1 }, undefined, 10 * 1024 * 1024)).toBeNull()
+    expect(validateUploadFile({ type: 'image/png', size: 11 * 1024 * 1024 }, undefined, 10 * 1024 * 1024)).toBe('File size exceeds 10 MB limit')
+  })
+})
+
+describe('contentDisposition', () => {
+  it('should keep plain names as they are', () => {
+    expect(contentDisposition('inline', 'notes.pdf')).toBe(`inline; filename="notes.pdf"; filename*=UTF-8''notes.pdf`)
+  })
+
+  it('should send spaces and non-ASCII names exactly, with an ASCII fallback', () => {
+    expect(contentDisposition('attachment', 'Lesson 3 – Sacraments.pptx')).toBe(
+      `attachment; filename="Lesson 3 _ Sacraments.pptx"; filename*=UTF-8''Lesson%203%20%E2%80%93%20Sacraments.pptx`
+    )
+  })
+
+  it('should not let quotes break out of the header value', () => {
+    expect(contentDisposition('inline', `the "final" (v2).pdf`)).toBe(
+      `inline; filename="the _final_ (v2).pdf"; filename*=UTF-8''the%20%22final%22%20%28v2%29.pdf`
+    )
+  })
+})
+
+describe('sanitizeFilename', () => {
+  it('should keep ordinary names', () => {
+    expect(sanitizeFilename('doctors-note_2026.pdf')).toBe('doctors-note_2026.pdf')
+  })
+
+  it('should replace spaces and path characters', () => {
+    expect(sanitizeFilename('../../etc/passwd')).toBe('etc-passwd')
+    expect(sanitizeFilename('Doctor Note (1).pdf')).toBe('Doctor-Note-1-.pdf')
+  })
+
+  it('should fall back when nothing usable is left', () => {
+    expect(sanitizeFilename('...')).toBe('file')
+  })
+})
+
+describe('resolveLocalUploadPath', () => {
+  const base = path.resolve('/tmp/uploads')
+
+  it('should resolve paths inside the upload directory', () => {
+    expect(resolveLocalUploadPath('excuses/student-1/note.pdf', base)).toBe(path.join(base, 'excuses/student-1/note.pdf'))
+  })
+
+  it('should refuse paths that escape the upload directory', () => {
+    expect(resolveLocalUploadPath('../secrets.txt', base)).toBeNull()
+    expect(resolveLocalUploadPath('excuses/../../secrets.txt', base)).toBeNull()
+    expect(resolveLocalUploadPath('', base)).toBeNull()
+  })
+})
+
+describe('Blob storage', () => {
+  it('should store uploads as private blobs', async () => {
+    vi.stubEnv('BLOB_READ_WRITE_TOKEN', 'token')
+    vi.mocked(put).mockResolvedValue({ url: 'https://store.private.blob.vercel-storage.com/excuses/note.pdf' } as never)
+    const file = new File(['%PDF'], 'note.pdf', { type: 'application/pdf' })
+
+    const stored = await storeFile('excuses/student-1', file)
+    expect(vi.mocked(put).mock.calls[0][2]).toMatchObject({ access: 'private' })
+    expect(stored.url).toBe('https://store.private.blob.vercel-storage.com/excuses/note.pdf')
+    vi.unstubAllEnvs()
+  })
+
+  it('should read private blobs with the token and older public blobs by their URL', async () => {
+    const stream = new ReadableStream<Uint8Array>()
+    vi.mocked(get).mockResolvedValue({ statusCode: 200, stream } as never)
+
+    expect(await readStoredFile('https://store.private.blob.vercel-storage.com/a.pdf')).toBe(stream)
+    expect(vi.mocked(get).mock.calls[0][1]).toMatchObject({ access: 'private' })
+    await readStoredFile('https://store.public.blob.vercel-storage.com/b.pdf')
+    expect(vi.mocked(get).mock.calls[1][1]).toMatchObject({ access: 'public' })
+  })
+
+  it('should return null for missing blobs', async () => {
+    vi.mocked(get).mockResolvedValue(null)
+    expect(await readStoredFile('https://store.private.blob.vercel-storage.com/gone.pdf')).toBeNull()
+  })
+})
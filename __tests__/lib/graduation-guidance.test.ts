@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { getAttendanceGuidance, describeAttendanceRisk } from '@/lib/graduation-guidance'
+import type { AttendanceAnalytics } from '@/lib/types'
+
+function analytics(overrides: Partial<AttendanceAnalytics>): AttendanceAnalytics {
+  return {
+    totalLessons: 0,
+    allLessons: 0,
+    presentCount: 0,
+    lateCount: 0,
+    absentCount: 0,
+    excusedCount: 0,
+    effectivePresent: 0,
+    percentage: null,
+    met: true,
+    required: 75,
+    conductDismissalCount: 0,
+    ...overrides,
+  }
+}
+
+describe('getAttendanceGuidance', () => {
+  it('should report no data when nothing is countable', () => {
+    expect(getAttendanceGuidance(analytics({})).status).toBe('no-data')
+  })
+
+  it('should be on track with a buffer', () => {
+    // 10 of 10 present: 10 / 0.75 - 10 = 3.33 → 3 absences of buffer
+    const g = getAttendanceGuidance(analytics({ allLessons: 10, effectivePresent: 10, percentage: 100 }))
+    expect(g.status).toBe('on-track')
+    expect(g.buffer).toBe(3)
+  })
+
+  it('should be at risk when no absences are left to spare', () => {
+    // 3 of 4 present = 75%, 3 / 0.75 - 4 = 0
+    const g = getAttendanceGuidance(analytics({ allLessons: 4, effectivePresent: 3, percentage: 75 }))
+    expect(g.status).toBe('at-risk')
+    expect(g.buffer).toBe(0)
+  })
+
+  it('should keep early-year perfect attendance on track', () => {
+    // 1 to 3 of 1 to 3 present: the buffer is 0, 0 and then 1
+    for (const lessons of [1, 2, 3]) {
+      const g = getAttendanceGuidance(analytics({ allLessons: lessons, effectivePresent: lessons, percentage: 100 }))
+      expect(g.status).toBe('on-track')
+    }
+    expect(getAttendanceGuidance(analytics({ allLessons: 2, effectivePresent: 2, percentage: 100 })).buffer).toBe(0)
+    expect(getAttendanceGuidance(analytics({ allLessons: 3, effectivePresent: 3, percentage: 100 })).buffer).toBe(1)
+  })
+
+  it('should not call a zero buffer at risk before enough lessons are recorded', () => {
+    // 2 of 2 present at 90%: 2 / 0.9 - 2 = 0.22 → 0
+    const g = getAttendanceGuidance(analytics({ allLessons: 2, effectivePresent: 2, percentage: 100, required: 90 }))
+    expect(g.status).toBe('on-track')
+    expect(g.buffer).toBe(0)
+  })
+
+  it('should be failing with the lessons needed to recover', () => {
+    // 6 of 10 = 60%: (0.75 * 10 - 6) / 0.25 = 6
+    const g = getAttendanceGuidance(analytics({ allLessons: 10, effectivePresent: 6, percentage: 60, met: false }))
+    expect(g.status).toBe('failing')
+    expect(g.lessonsToRecover).toBe(6)
+  })
+})
+
+describe('describeAttendanceRisk', () => {
+  it('should describe an at-risk student', () => {
+    const a = analytics({ allLessons: 4, effectivePresent: 3, percentage: 75 })
+    expect(describeAttendanceRisk(a, getAttendanceGuidance(a))).toBe(
+      'Attendance is 75.0% (required 75%). No absences to spare: any further absence drops below 75%.'
+    )
+  })
+
+  it('should include the recovery count for a failing student', () => {
+    const a = analytics({ allLessons: 10, effectivePresent: 6, percentage: 60, met: false })
+    expect(describeAttendanceRisk(a, getAttendanceGuidance(a))).toBe(
+      'Attendance is 60.0% (required 75%). Needs to attend the next 6 lessons in a row to recover.'
+    )
+  })
+})
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi } from 'vitest'
+import { LessonStatus } from '@prisma/client'
+import {
+  buildICalendar,
+  escapeICalText,
+  examToEvent,
+  feedRange,
+  foldICalLine,
+  lessonToEvent,
+  mergeCalendarEvents,
+  readCalendarFeedToken,
+  signCalendarFeedToken,
+  sundaySchoolEvents,
+  type CalendarExam,
+  type CalendarLesson,
+  type CalendarSundaySchoolAssignment,
+} from '@/lib/lesson-calendar'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+const SECRET = 'test-secret'
+
+function lesson(overrides: Partial<CalendarLesson> = {}): CalendarLesson {
+  return {
+    id: 'lesson-1',
+    title: 'The Creation',
+    subtitle: null,
+    speaker: null,
+    scheduledDate: new Date('2025-09-07T00:00:00Z'),
+    status: LessonStatus.SCHEDULED,
+    cancellationReason: null,
+    isExamDay: false,
+    startTime: null,
+    updatedAt: new Date('2025-08-01T12:00:00Z'),
+    examSection: { displayName: 'Old Testament' },
+    academicYear: { defaultLessonStartTime: '19:00' },
+    ...overrides,
+  }
+}
+
+function exam(overrides: Partial<CalendarExam> = {}): CalendarExam {
+  return {
+    id: 'exam-1',
+    examDate: new Date('2025-12-14T00:00:00Z'),
+    yearLevel: 'YEAR_1',
+    lessonId: null,
+    updatedAt: new Date('2025-08-01T12:00:00Z'),
+    examSection: { displayName: 'Old Testament' },
+    lesson: null,
+    academicYear: { defaultLessonStartTime: '19:00' },
+    ...overrides,
+  }
+}
+
+function assignment(overrides: Partial<CalendarSundaySchoolAssignment> = {}): CalendarSundaySchoolAssignment {
+  return {
+    studentId: 'student-1',
+    grade: 'GRADE_3',
+    startDate: new Date('2025-10-05T00:00:00Z'),
+    totalWeeks: 3,
+    updatedAt: new Date('2025-09-01T12:00:00Z'),
+    ...overrides,
+  }
+}
+
+const fall = { from: new Date('2025-09-01T00:00:00Z'), to: new Date('2025-12-31T23:59:59Z') }
+
+describe('lessonToEvent', () => {
+  it('should use the lesson start time, falling back to the year default', () => {
+    expect(lessonToEvent(lesson()).startTime).toBe('19:00')
+    expect(lessonToEvent(lesson({ startTime: '18:30' })).startTime).toBe('18:30')
+    expect(lessonToEvent(lesson({ academicYear: { defaultLessonStartTime: null } })).startTime).toBeNull()
+  })
+
+  it('should mark cancelled and no-class lessons with the reason', () => {
+    const cancelled = lessonToEvent(lesson({ status: LessonStatus.CANCELLED, cancellationReason: 'Snow' }))
+    expect(cancelled.title).toBe('Cancelled: The Creation')
+    expect(cancelled.description).toContain('Reason: Snow')
+    expect(lessonToEvent(lesson({ status: LessonStatus.NO_CLASS })).title).toBe('No class: The Creation')
+  })
+
+  it('should mark exam days', () => {
+    expect(lessonToEvent(lesson({ isExamDay: true })).title).toBe('Exam day: The Creation')
+  })
+
+  it('should list section and speaker in the description', () => {
+    expect(lessonToEvent(lesson({ speaker: 'Fr. Mark' })).description).toBe('Old Testament\nSpeaker: Fr. Mark')
+  })
+})
+
+describe('examToEvent', () => {
+  it('should name the exam by section and year level', () => {
+    expect(examToEvent(exam()).title).toBe('Old Testament Exam (Year 1)')
+    expect(examToEvent(exam({ yearLevel: 'BOTH' })).title).toBe('Old Testament Exam')
+  })
+
+  it("should use the exam-day lesson's start time when it has one", () => {
+    expect(examToEvent(exam({ lessonId: 'l1', lesson: { startTime: '10:00' } })).startTime).toBe('10:00')
+    expect(examToEvent(exam()).startTime).toBe('19:00')
+  })
+})
+
+describe('sundaySchoolEvents', () => {
+  it("should give each of a student's weeks its number", () => {
+    const events = sundaySchoolEvents([assignment()], fall, false)
+    expect(events.map(e => [e.date, e.title])).toEqual([
+      ['2025-10-05', 'Sunday School week 1 of 3'],
+      ['2025-10-12', 'Sunday School week 2 of 3'],
+      ['2025-10-19', 'Sunday School week 3 of 3'],
+    ])
+    expect(events[0].description).toBe('3rd Grade')
+  })
+
+  it('should leave out weeks outside the range', () => {
+    const events = sundaySchoolEvents([assignment()], { from: new Date('2025-10-10T00:00:00Z'), to: fall.to }, false)
+    expect(events.map(e => e.date)).toEqual(['2025-10-12', '2025-10-19'])
+  })
+
+  it('should combine students into one event per week', () => {
+    const events = sundaySchoolEvents(
+      [assignment(), assignment({ studentId: 'student-2', startDate: new Date('2025-10-12T00:00:00Z'), totalWeeks: 1 })],
+      fall,
+      true
+    )
+    expect(events.map(e => [e.date, e.title])).toEqual([
+      ['2025-10-05', 'Sunday School (1 student)'],
+      ['2025-10-12', 'Sunday School (2 students)'],
+      ['2025-10-19', 'Sunday School (1 student)'],
+    ])
+  })
+})
+
+describe('mergeCalendarEvents', () => {
+  it('should drop exam-day lessons that an exam is tied to', () => {
+    const events = mergeCalendarEvents(
+      [lesson({ id: 'l1', isExamDay: true, scheduledDate: new Date('2025-12-14T00:00:00Z') }), lesson({ id: 'l2' })],
+      [exam({ lessonId: 'l1' })],
+      []
+    )
+    expect(events.map(e => e.uid)).toEqual(['lesson-l2', 'exam-exam-1'])
+  })
+
+  it('should sort by date, then start time', () => {
+    const events = mergeCalendarEvents(
+      [lesson({ id: 'late', scheduledDate: new Date('2025-09-14T00:00:00Z') }), lesson({ id: 'early' })],
+      [],
+      sundaySchoolEvents([assignment({ startDate: new Date('2025-09-07T00:00:00Z'), totalWeeks: 1 })], fall, true)
+    )
+    expect(events.map(e => e.uid)).toEqual(['sunday-school-2025-09-07', 'lesson-early', 'lesson-late'])
+  })
+})
+
+describe('escapeICalText / foldICalLine', () => {
+  it('should escape special characters', () => {
+    expect(escapeICalText('Genesis 1; Psalm 8, notes\\\nline two')).toBe('Genesis 1\\; Psalm 8\\, notes\\\\\\nline two')
+  })
+
+  it('should leave short lines alone', () => {
+    expect(foldICalLine('SUMMARY:Short')).toBe('SUMMARY:Short')
+  })
+
+  it('should fold long lines at 75 octets', () => {
+    const folded = foldICalLine(`DESCRIPTION:${'a'.repeat(200)}`)
+    const lines = folded.split('\r\n')
+    expect(lines.length).toBeGreaterThan(1)
+    expect(lines.every(l => new TextEncoder().encode(l).length <= 75)).toBe(true)
+    expect(lines.slice(1).every(l => l.startsWith(' '))).toBe(true)
+    expect(lines.map((l, i) => (i === 0 ? l : l.slice(1))).join('')).toBe(`DESCRIPTION:${'a'.repeat(200)}`)
+  })
+
+  it('should not split multi-byte characters', () => {
+    const folded = foldICalLine(`SUMMARY:${'é'.repeat(60)}`)
+    expect(folded.split('\r\n').every(l => new TextEncoder().encode(l).length <= 75)).toBe(true)
+    expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`)
+  })
+})
+
+describe('buildICalendar', () => {
+  it('should write timed events with floating local times', () => {
+    const ics = buildICalendar([lessonToEvent(lesson())], 'Servants Prep')
+    expect(ics).toContain('BEGIN:VCALENDAR\r\n')
+    expect(ics).toContain('X-WR-CALNAME:Servants Prep\r\n')
+    expect(ics).toContain('UID:lesson-lesson-1@servants-prep\r\n')
+    expect(ics).toContain('DTSTART:20250907T190000\r\n')
+    expect(ics).toContain('DTEND:20250907T200000\r\n')
+    expect(ics).toContain('DTSTAMP:20250801T120000Z\r\n')
+    expect(ics).toContain('STATUS:CONFIRMED\r\n')
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+  })
+
+  it('should write all-day events without a start time', () => {
+    const ics = buildICalendar(sundaySchoolEvents([assignment({ totalWeeks: 1 })], fall, false), 'Servants Prep')
+    expect(ics).toContain('DTSTART;VALUE=DATE:20251005\r\n')
+    expect(ics).toContain('DTEND;VALUE=DATE:20251006\r\n')
+  })
+
+  it('should mark cancelled and no-class lessons as cancelled', () => {
+    const ics = buildICalendar([
+      lessonToEvent(lesson({ id: 'a', status: LessonStatus.CANCELLED })),
+      lessonToEvent(lesson({ id: 'b', status: LessonStatus.NO_CLASS })),
+    ], 'Servants Prep')
+    expect(ics.match(/STATUS:CANCELLED/g)).toHaveLength(2)
+  })
+
+  it('should categorize exams', () => {
+    expect(buildICalendar([examToEvent(exam())], 'Servants Prep')).toContain('CATEGORIES:Exam\r\n')
+  })
+})
+
+describe('calendar feed tokens', () => {
+  it('should round-trip a signed token', () => {
+    const token = signCalendarFeedToken('user-1', 3, SECRET)
+    expect(readCalendarFeedToken(token, SECRET)).toEqual({ userId: 'user-1', version: 3 })
+  })
+
+  it('should reject tokens signed with another secret', () => {
+    const token = signCalendarFeedToken('user-1', 0, 'other-secret')
+    expect(readCalendarFeedToken(token, SECRET)).toBeNull()
+  })
+
+  it('should reject tampered user ids and versions', () => {
+    const [, , signature] = signCalendarFeedToken('user-1', 0, SECRET).split('.')
+    expect(readCalendarFeedToken(`user-2.0.${signature}`, SECRET)).toBeNull()
+    expect(readCalendarFeedToken(`user-1.1.${signature}`, SECRET)).toBeNull()
+  })
+
+  it('should reject malformed tokens', () => {
+    expect(readCalendarFeedToken('', SECRET)).toBeNull()
+    expect(readCalendarFeedToken('user-1', SECRET)).toBeNull()
+    expect(readCalendarFeedToken('user-1.x.sig', SECRET)).toBeNull()
+    expect(readCalendarFeedToken('user-1.0.sig.extra', SECRET)).toBeNull()
+  })
+})
+
+describe('feedRange', () => {
+  it('should cover recent weeks and the year ahead', () => {
+    const now = new Date('2025-10-01T00:00:00Z')
+    const { from, to } = feedRange(now)
+    expect(from.toISOString()).toBe('2025-08-02T00:00:00.000Z')
+    expect(to.toISOString()).toBe('2026-10-01T00:00:00.000Z')
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from 'vitest'
+import { LessonStatus } from '@prisma/client'
+import { planCancelAndShift, type RescheduleLesson } from '@/lib/lesson-rescheduling'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+const academicYear = { endDate: new Date('2026-06-30T00:00:00Z') }
+
+function lesson(id: string, date: string, lessonNumber: number, overrides: Partial<RescheduleLesson> = {}): RescheduleLesson {
+  return {
+    id,
+    title: `Lesson ${id}`,
+    lessonNumber,
+    scheduledDate: new Date(`${date}T00:00:00Z`),
+    status: LessonStatus.SCHEDULED,
+    attendanceCount: 0,
+    examCount: 0,
+    ...overrides,
+  }
+}
+
+const day = (date: Date | null) => date?.toISOString().slice(0, 10) ?? null
+
+describe('planCancelAndShift', () => {
+  const year = [
+    lesson('a', '2025-09-07', 1, { status: LessonStatus.COMPLETED }),
+    lesson('b', '2025-09-14', 2),
+    lesson('c', '2025-09-21', 3),
+    lesson('d', '2025-09-28', 4),
+  ]
+
+  it('should move each lesson to the next lesson date and the last to the following week', () => {
+    const { plan } = planCancelAndShift(year, 'b', academicYear)
+    const moved = plan!.shifts.filter(s => s.lessonId)
+    expect(moved.map(s => [s.lessonId, day(s.toDate)])).toEqual([
+      ['b', '2025-09-21'],
+      ['c', '2025-09-28'],
+      ['d', '2025-10-05'],
+    ])
+    expect(plan!.movedLessonIds).toEqual(['b', 'c', 'd'])
+  })
+
+  it('should keep a cancelled placeholder on the cancelled date and renumber in date order', () => {
+    const { plan } = planCancelAndShift(year, 'b', academicYear)
+    expect(plan!.shifts.map(s => [s.lessonId, day(s.toDate), s.fromNumber, s.toNumber])).toEqual([
+      [null, '2025-09-14', null, 2],
+      ['b', '2025-09-21', 2, 3],
+      ['c', '2025-09-28', 3, 4],
+      ['d', '2025-10-05', 4, 5],
+    ])
+  })
+
+  it('should leave earlier lessons alone', () => {
+    const { plan } = planCancelAndShift(year, 'c', academicYear)
+    expect(plan!.shifts.some(s => s.lessonId === 'a' || s.lessonId === 'b')).toBe(false)
+  })
+
+  it('should keep breaks by reusing the later lessons dates', () => {
+    const { plan } = planCancelAndShift([
+      lesson('a', '2025-12-14', 1),
+      lesson('b', '2026-01-11', 2),
+    ], 'a', academicYear)
+    expect(plan!.shifts.filter(s => s.lessonId).map(s => day(s.toDate))).toEqual(['2026-01-11', '2026-01-18'])
+  })
+
+  it('should leave no-class days in place and skip them for the last lesson', () => {
+    const { plan } = planCancelAndShift([
+      lesson('a', '2025-09-07', 1),
+      lesson('b', '2025-09-14', 2),
+      lesson('off', '2025-09-21', 3, { status: LessonStatus.NO_CLASS }),
+    ], 'a', academicYear)
+    expect(plan!.shifts.map(s => [s.lessonId, day(s.toDate), s.toNumber])).toEqual([
+      [null, '2025-09-07', 1],
+      ['a', '2025-09-14', 2],
+      ['b', '2025-09-28', 4],
+    ])
+  })
+
+  it('should only accept scheduled lessons', () => {
+    expect(planCancelAndShift(year, 'a', academicYear).error).toBeDefined()
+    expect(planCancelAndShift(year, 'missing', academicYear).error).toBeDefined()
+  })
+
+  it('should block later lessons that already have attendance', () => {
+    const { plan } = planCancelAndShift(
+      [lesson('a', '2025-09-07', 1, { attendanceCount: 12 }), lesson('b', '2025-09-14', 2, { attendanceCount: 3 })],
+      'a',
+      academicYear
+    )
+    expect(plan!.blockers).toEqual(['Lesson 2 "Lesson b" already has attendance recorded'])
+    expect(plan!.cancelled.attendanceCount).toBe(12)
+  })
+
+  it('should flag a last lesson that falls after the academic year', () => {
+    const { plan } = planCancelAndShift([lesson('a', '2026-06-28', 1)], 'a', academicYear)
+    expect(plan!.outsideYear).toBe(true)
+    expect(planCancelAndShift(year, 'b', academicYear).plan!.outsideYear).toBe(false)
+  })
+
+  it('should count exams moving with exam-day lessons', () => {
+    const { plan } = planCancelAndShift(
+      [lesson('a', '2025-09-07', 1), lesson('exam', '2025-09-14', 2, { examCount: 2 })],
+      'a',
+      academicYear
+    )
+    expect(plan!.shifts.find(s => s.lessonId === 'exam')!.examCount).toBe(2)
+  })
+})
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { LessonStatus, ResourceAccessAction, UserRole } from '@prisma/client'
+import { del, head } from '@vercel/blob'
+import {
+  MAX_RESOURCE_UPLOAD_SIZE,
+  canAttachResources,
+  canManageLessonResources,
+  readResourceUpload,
+  resourceKindFromContentType,
+  summarizeResourceAccess,
+  type ResourceAccessEntry,
+} from '@/lib/lesson-resources'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+vi.mock('@vercel/blob', () => ({
+  put: vi.fn(),
+  del: vi.fn(),
+  get: vi.fn(),
+  head: vi.fn(),
+  BlobNotFoundError: class BlobNotFoundError extends Error {},
+}))
+
+const students = [
+  { id: 's1', name: 'Mina' },
+  { id: 's2', name: 'Abanoub' },
+  { id: 's3', name: 'Youssef' },
+]
+
+const slides = { id: 'r1', title: 'Slides', filename: 'slides.pptx', version: 2 }
+const link = { id: 'r2', title: 'Reading', filename: null, version: 1 }
+
+function access(overrides: Partial<ResourceAccessEntry> = {}): ResourceAccessEntry {
+  return {
+    resourceId: 'r1',
+    studentId: 's1',
+    action: ResourceAccessAction.VIEW,
+    version: 2,
+    createdAt: new Date('2025-10-01T18:00:00Z'),
+    ...overrides,
+  }
+}
+
+describe('resourceKindFromContentType', () => {
+  it('should recognize slides, PDFs, audio and images', () => {
+    expect(resourceKindFromContentType('application/vnd.openxmlformats-officedocument.presentationml.presentation')).toBe('slides')
+    expect(resourceKindFromContentType('application/vnd.ms-powerpoint')).toBe('slides')
+    expect(resourceKindFromContentType('application/pdf')).toBe('pdf')
+    expect(resourceKindFromContentType('audio/mpeg')).toBe('audio')
+    expect(resourceKindFromContentType('image/png')).toBe('image')
+    expect(resourceKindFromContentType('application/msword')).toBe('document')
+  })
+})
+
+describe('canAttachResources', () => {
+  it('should allow lessons before and after they are given', () => {
+    expect(canAttachResources({ status: LessonStatus.SCHEDULED })).toBe(true)
+    expect(canAttachResources({ status: LessonStatus.COMPLETED })).toBe(true)
+  })
+
+  it('should refuse cancelled and no-class lessons', () => {
+    expect(canAttachResources({ status: LessonStatus.CANCELLED })).toBe(false)
+    expect(canAttachResources({ status: LessonStatus.NO_CLASS })).toBe(false)
+  })
+})
+
+describe('canManageLessonResources', () => {
+  const lesson = { assignedSpeaker: { userId: 'speaker-1' } }
+
+  it('should allow curriculum managers and the assigned speaker', () => {
+    expect(canManageLessonResources({ id: 'x', role: UserRole.SERVANT_PREP }, lesson)).toBe(true)
+    expect(canManageLessonResources({ id: 'speaker-1', role: UserRole.MENTOR }, lesson)).toBe(true)
+  })
+
+  it('should refuse everyone else', () => {
+    expect(canManageLessonResources({ id: 'x', role: UserRole.PRIEST }, lesson)).toBe(false)
+    expect(canManageLessonResources({ id: 'x', role: UserRole.MENTOR }, lesson)).toBe(false)
+    expect(canManageLessonResources({ id: 'x', role: UserRole.MENTOR }, { assignedSpeaker: null })).toBe(false)
+  })
+})
+
+describe('summarizeResourceAccess', () => {
+  it('should count views and downloads per student', () => {
+    const [summary] = summarizeResourceAccess([slides], [
+      access(),
+      access({ action: ResourceAccessAction.DOWNLOAD, createdAt: new Date('2025-10-03T18:00:00Z') }),
+      access({ createdAt: new Date('2025-09-30T18:00:00Z') }),
+    ], students)
+    expect(summary.opened).toEqual([{
+      studentId: 's1',
+      name: 'Mina',
+      views: 2,
+      downloads: 1,
+      firstOpenedAt: new Date('2025-09-30T18:00:00Z'),
+      lastOpenedAt: new Date('2025-10-03T18:00:00Z'),
+      seenLatest: true,
+    }])
+  })
+
+  it('should list students who never opened it by name', () => {
+    const [summary] = summarizeResourceAccess([slides], [access()], students)
+    expect(summary.notOpened.map(s => s.name)).toEqual(['Abanoub', 'Youssef'])
+  })
+
+  it('should flag students who only opened an earlier version', () => {
+    const [summary] = summarizeResourceAccess([slides], [access({ version: 1 })], students)
+    expect(summary.opened[0].seenLatest).toBe(false)
+  })
+
+  it('should treat links as always current', () => {
+    const [summary] = summarizeResourceAccess([link], [access({ resourceId: 'r2', version: null })], students)
+    expect(summary.isFile).toBe(false)
+    expect(summary.opened[0].seenLatest).toBe(true)
+  })
+
+  it('should ignore students outside the group and other resources', () => {
+    const summaries = summarizeResourceAccess([slides, link], [
+      access({ studentId: 'not-a-mentee' }),
+      access({ resourceId: 'r2', studentId: 's2', version: null }),
+    ], students)
+    expect(summaries[0].opened).toEqual([])
+    expect(summaries[1].opened.map(s => s.studentId)).toEqual(['s2'])
+  })
+
+  it('should put the most recent readers first', () => {
+    const [summary] = summarizeResourceAccess([slides], [
+      access({ studentId: 's1', createdAt: new Date('2025-10-01T18:00:00Z') }),
+      access({ studentId: 's3', createdAt: new Date('2025-10-05T18:00:00Z') }),
+    ], students)
+    expect(summary.opened.map(s => s.studentId)).toEqual(['s3', 's1'])
+  })
+})
+
+describe('readResourceUpload', () => {
+  const blobUrl = 'https://store.private.blob.vercel-storage.com/lesson-resources/lesson-1/talk-abc.mp3'
+  const register = (body: Record<string, unknown>) => readResourceUpload(
+    new Request('http://localhost/api/lessons/lesson-1/resources', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    }),
+    'lesson-1'
+  )
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env.BLOB_READ_WRITE_TOKEN = 'token'
+  })
+
+  afterEach(() => {
+    delete process.env.BLOB_READ_WRITE_TOKEN
+  })
+
+  it('should register a browser upload larger than a server upload', async () => {
+    vi.mocked(head).mockResolvedValueOnce({
+      pathname: 'lesson-resources/lesson-1/talk-abc.mp3',
+      contentType: 'audio/mpeg',
+      size: 60 * 1024 * 1024,
+    } as never)
+
+    expect(await register({ url: blobUrl, filename: 'Talk.mp3', title: 'Recording' })).toEqual({
+      stored: { url: blobUrl, filename: 'Talk.mp3', contentType: 'audio/mpeg', size: 60 * 1024 * 1024 },
+      title: 'Recording',
+    })
+  })
+
+  it("should refuse uploads outside the lesson's folder", async () => {
+    vi.mocked(head).mockResolvedValueOnce({
+      pathname: 'lesson-resources/other-lesson/talk.mp3',
+      contentType: 'audio/mpeg',
+      size: 1024,
+    } as never)
+
+    expect(await register({ url: blobUrl, filename: 'Talk.mp3' })).toEqual({ error: 'Upload not found' })
+  })
+
+  it('should delete an upload over the limit', async () => {
+    vi.mocked(head).mockResolvedValueOnce({
+      pathname: 'lesson-resources/lesson-1/talk-abc.mp3',
+      contentType: 'audio/mpeg',
+      size: MAX_RESOURCE_UPLOAD_SIZE + 1,
+    } as never)
+
+    expect((await register({ url: blobUrl, filename: 'Talk.mp3' })).error).toBe('File size exceeds 200 MB limit')
+    expect(del).toHaveBeenCalledWith(blobUrl, { token: 'token' })
+  })
+
+  it('should need Blob storage to register by URL', async () => {
+    delete process.env.BLOB_READ_WRITE_TOKEN
+    expect(await register({ url: blobUrl, filename: 'Talk.mp3' })).toEqual({ error: 'Browser uploads need Blob storage' })
+    expect(head).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { prisma } from '@/lib/prisma'
+import {
+  MAX_SAMPLE_SIZE,
+  addBankQuestionsToExam,
+  calculateBankQuestionStats,
+  parseBankQuestionInput,
+  parseBankSampleInput,
+  sampleQuestions,
+} from '@/lib/question-bank'
+
+vi.mock('@/lib/prisma', () => {
+  const tx = {
+    bankQuestion: { findMany: vi.fn() },
+    examQuestion: { findFirst: vi.fn(), create: vi.fn() },
+  }
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  }
+})
+
+const mcBody = {
+  examSectionId: 'sec1',
+  type: 'MULTIPLE_CHOICE',
+  prompt: 'Who wrote On the Incarnation?',
+  options: ['Basil', 'Athanasius'],
+  answerKey: ['1'],
+}
+
+describe('parseBankQuestionInput', () => {
+  it('should parse a question with its section and default to MEDIUM', () => {
+    const { data } = parseBankQuestionInput(mcBody)
+    expect(data).toEqual({
+      type: 'MULTIPLE_CHOICE',
+      prompt: 'Who wrote On the Incarnation?',
+      options: ['Basil', 'Athanasius'],
+      answerKey: ['1'],
+      points: 1,
+      examSectionId: 'sec1',
+      lessonId: null,
+      difficulty: 'MEDIUM',
+    })
+  })
+
+  it('should keep the lesson and difficulty', () => {
+    const { data } = parseBankQuestionInput({ ...mcBody, lessonId: 'lesson1', difficulty: 'HARD' })
+    expect(data?.lessonId).toBe('lesson1')
+    expect(data?.difficulty).toBe('HARD')
+  })
+
+  it('should require a section and a valid difficulty', () => {
+    expect(parseBankQuestionInput({ ...mcBody, examSectionId: '' }).error).toBe('examSectionId is required')
+    expect(parseBankQuestionInput({ ...mcBody, difficulty: 'EXTREME' }).error).toContain('Invalid difficulty')
+    expect(parseBankQuestionInput({ ...mcBody, lessonId: 5 }).error).toBe('Invalid lessonId')
+  })
+
+  it('should apply the exam question rules', () => {
+    expect(parseBankQuestionInput({ ...mcBody, answerKey: [] }).error).toBe('Mark which option is correct')
+    expect(parseBankQuestionInput({ ...mcBody, prompt: ' ' }).error).toBe('A question prompt is required')
+  })
+})
+
+describe('parseBankSampleInput', () => {
+  it('should parse a count with optional filters', () => {
+    expect(parseBankSampleInput({ count: 5 }).data).toEqual({ count: 5, lessonId: null, difficulty: null })
+    expect(parseBankSampleInput({ count: 3, lessonId: 'l1', difficulty: 'EASY' }).data)
+      .toEqual({ count: 3, lessonId: 'l1', difficulty: 'EASY' })
+  })
+
+  it('should reject counts outside 1 to MAX_SAMPLE_SIZE', () => {
+    expect(parseBankSampleInput({ count: 0 }).error).toContain('Count must be')
+    expect(parseBankSampleInput({ count: 2.5 }).error).toContain('Count must be')
+    expect(parseBankSampleInput({ count: MAX_SAMPLE_SIZE + 1 }).error).toContain('Count must be')
+    expect(parseBankSampleInput({ count: 2, difficulty: 'HARDEST' }).error).toContain('Invalid difficulty')
+  })
+})
+
+describe('sampleQuestions', () => {
+  it('should return at most count distinct questions', () => {
+    const sample = sampleQuestions(['a', 'b', 'c', 'd'], 2)
+    expect(sample).toHaveLength(2)
+    expect(new Set(sample).size).toBe(2)
+  })
+
+  it('should return everything when there are fewer candidates than asked for', () => {
+    expect(sampleQuestions(['a', 'b'], 5).sort()).toEqual(['a', 'b'])
+  })
+
+  it('should use the given random source', () => {
+    expect(sampleQuestions(['a', 'b', 'c'], 2, () => 0)).toEqual(['b', 'c'])
+  })
+})
+
+describe('calculateBankQuestionStats', () => {
+  it('should report no usage for a new question', () => {
+    expect(calculateBankQuestionStats([])).toEqual({
+      timesUsed: 0,
+      lastUsedAt: null,
+      responseCount: 0,
+      averagePercent: null,
+    })
+  })
+
+  it('should average the share of points earned across years, skipping ungraded answers', () => {
+    const stats = calculateBankQuestionStats([
+      { examDate: new Date('2024-05-01'), points: 2, answers: [{ pointsAwarded: 2 }, { pointsAwarded: 0 }] },
+      { examDate: new Date('2025-05-01'), points: 4, answers: [{ pointsAwarded: 3 }, { pointsAwarded: null }] },
+    ])
+    expect(stats.timesUsed).toBe(2)
+    expect(stats.lastUsedAt).toEqual(new Date('2025-05-01'))
+    expect(stats.responseCount).toBe(3)
+    // (100 + 0 + 75) / 3
+    expect(stats.averagePercent).toBe(58.3)
+  })
+})
+
+describe('addBankQuestionsToExam', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should copy the questions after the last one, in the order picked, linked to the bank', async () => {
+    vi.mocked(prisma.bankQuestion.findMany).mockResolvedValue([
+      { id: 'b1', type: 'ESSAY', prompt: 'Explain', options: [], answerKey: [], points: 5 },
+      { id: 'b2', type: 'TRUE_FALSE', prompt: 'True?', options: [], answerKey: ['true'], points: 1 },
+    ] as never)
+    vi.mocked(prisma.examQuestion.findFirst).mockResolvedValue({ order: 3 } as never)
+    vi.mocked(prisma.examQuestion.create).mockImplementation((args) => Promise.resolve(args.data) as never)
+
+    const created = await addBankQuestionsToExam('exam1', ['b2', 'missing', 'b1'])
+
+    expect(created).toEqual([
+      { examId: 'exam1', bankQuestionId: 'b2', order: 4, type: 'TRUE_FALSE', prompt: 'True?', options: [], answerKey: ['true'], points: 1 },
+      { examId: 'exam1', bankQuestionId: 'b1', order: 5, type: 'ESSAY', prompt: 'Explain', options: [], answerKey: [], points: 5 },
+    ])
+  })
+})
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest'
+import { LessonStatus, SpeakerStatus } from '@prisma/client'
+import {
+  canRespondToLesson,
+  freeTextSpeakerData,
+  parseSpeakerInput,
+  speakerAssignmentData,
+  summarizeSpeakerLessons,
+  type SpeakerReportLesson,
+} from '@/lib/speakers'
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+const oldTestament = { id: 'sec-ot', displayName: 'Old Testament' }
+const dogma = { id: 'sec-dogma', displayName: 'Dogma' }
+
+function reportLesson(overrides: Partial<SpeakerReportLesson> = {}): SpeakerReportLesson {
+  return {
+    speakerId: 'spk-1',
+    speaker: 'Fr. Mark',
+    status: LessonStatus.COMPLETED,
+    scheduledDate: new Date('2025-09-07T00:00:00Z'),
+    examSection: oldTestament,
+    ...overrides,
+  }
+}
+
+describe('parseSpeakerInput', () => {
+  it('should require a name', () => {
+    expect(parseSpeakerInput({ name: '  ' }).error).toBeDefined()
+    expect(parseSpeakerInput({}).error).toBeDefined()
+  })
+
+  it('should trim fields and blank empty ones', () => {
+    expect(parseSpeakerInput({ name: ' Fr. Mark ', email: ' ', phone: ' 555-0100 ', bio: '' }).data).toEqual({
+      name: 'Fr. Mark',
+      email: null,
+      phone: '555-0100',
+      bio: null,
+      userId: null,
+    })
+  })
+
+  it('should reject malformed emails', () => {
+    expect(parseSpeakerInput({ name: 'Fr. Mark', email: 'not-an-email' }).error).toBeDefined()
+    expect(parseSpeakerInput({ name: 'Fr. Mark', email: 'mark@example.com' }).data?.email).toBe('mark@example.com')
+  })
+
+  it('should only return the fields present when partial', () => {
+    expect(parseSpeakerInput({ phone: '555-0100' }, { partial: true }).data).toEqual({ phone: '555-0100' })
+    expect(parseSpeakerInput({ name: '' }, { partial: true }).error).toBeDefined()
+  })
+})
+
+describe('speakerAssignmentData', () => {
+  it('should ask a newly assigned speaker to confirm', () => {
+    expect(speakerAssignmentData({ id: 'spk-1', name: 'Fr. Mark' })).toEqual({
+      speakerId: 'spk-1',
+      speaker: 'Fr. Mark',
+      speakerStatus: SpeakerStatus.PENDING,
+      speakerRespondedAt: null,
+      speakerRemindedAt: null,
+    })
+  })
+
+  it('should clear everything when unassigning', () => {
+    expect(speakerAssignmentData(null)).toMatchObject({ speakerId: null, speaker: null, speakerStatus: null })
+  })
+})
+
+describe('freeTextSpeakerData', () => {
+  const assigned = { speakerId: 'spk-1', speaker: 'Fr. Mark' }
+
+  it("should keep the assignment when the assigned speaker's name is unchanged", () => {
+    expect(freeTextSpeakerData('Fr. Mark', assigned)).toEqual({ speaker: 'Fr. Mark' })
+  })
+
+  it('should replace the assignment with plain text for a different name', () => {
+    expect(freeTextSpeakerData('Guest Speaker', assigned)).toMatchObject({
+      speakerId: null,
+      speaker: 'Guest Speaker',
+      speakerStatus: null,
+    })
+  })
+
+  it('should blank an empty name', () => {
+    expect(freeTextSpeakerData('  ', { speakerId: null, speaker: 'Old' }).speaker).toBeNull()
+  })
+})
+
+describe('canRespondToLesson', () => {
+  const now = new Date('2025-09-07T15:00:00Z')
+
+  it('should allow scheduled lessons today or later', () => {
+    expect(canRespondToLesson({ status: LessonStatus.SCHEDULED, scheduledDate: new Date('2025-09-07T00:00:00Z') }, now)).toBe(true)
+    expect(canRespondToLesson({ status: LessonStatus.SCHEDULED, scheduledDate: new Date('2025-09-14T00:00:00Z') }, now)).toBe(true)
+  })
+
+  it('should refuse past, cancelled and no-class lessons', () => {
+    expect(canRespondToLesson({ status: LessonStatus.SCHEDULED, scheduledDate: new Date('2025-09-06T00:00:00Z') }, now)).toBe(false)
+    expect(canRespondToLesson({ status: LessonStatus.CANCELLED, scheduledDate: new Date('2025-09-14T00:00:00Z') }, now)).toBe(false)
+    expect(canRespondToLesson({ status: LessonStatus.NO_CLASS, scheduledDate: new Date('2025-09-14T00:00:00Z') }, now)).toBe(false)
+  })
+})
+
+describe('summarizeSpeakerLessons', () => {
+  const now = new Date('2025-10-01T00:00:00Z')
+  const names = new Map([['spk-1', 'Fr. Mark']])
+
+  it('should count lessons given per section', () => {
+    const rows = summarizeSpeakerLessons([
+      reportLesson(),
+      reportLesson({ scheduledDate: new Date('2025-09-14T00:00:00Z') }),
+      reportLesson({ scheduledDate: new Date('2025-09-21T00:00:00Z'), examSection: dogma }),
+    ], names, now)
+    expect(rows).toEqual([
+      { speakerId: 'spk-1', name: 'Fr. Mark', total: 3, upcoming: 0, bySection: { 'Old Testament': 2, Dogma: 1 } },
+    ])
+  })
+
+  it("should use the directory name over the lesson's text", () => {
+    const [row] = summarizeSpeakerLessons([reportLesson({ speaker: 'Father Mark' })], names, now)
+    expect(row.name).toBe('Fr. Mark')
+  })
+
+  it('should count future lessons as upcoming only', () => {
+    const [row] = summarizeSpeakerLessons([reportLesson({ scheduledDate: new Date('2025-10-05T00:00:00Z') })], names, now)
+    expect(row).toMatchObject({ total: 0, upcoming: 1, bySection: {} })
+  })
+
+  it('should leave out cancelled and no-class lessons', () => {
+    expect(summarizeSpeakerLessons([
+      reportLesson({ status: LessonStatus.CANCELLED }),
+      reportLesson({ status: LessonStatus.NO_CLASS }),
+    ], names, now)).toEqual([])
+  })
+
+  it('should group free-text speakers by name, ignoring case', () => {
+    const rows = summarizeSpeakerLessons([
+      reportLesson({ speakerId: null, speaker: 'Guest Speaker' }),
+      reportLesson({ speakerId: null, speaker: 'guest speaker ' }),
+      reportLesson({ speakerId: null, speaker: null }),
+    ], names, now)
+    expect(rows).toHaveLength(1)
+    expect(rows[0]).toMatchObject({ speakerId: null, name: 'Guest Speaker', total: 2 })
+  })
+
+  it('should sort by lessons given, then name', () => {
+    const rows = summarizeSpeakerLessons([
+      reportLesson({ speakerId: null, speaker: 'Zed' }),
+      reportLesson({ speakerId: null, speaker: 'Abe' }),
+      reportLesson(),
+      reportLesson({ scheduledDate: new Date('2025-09-14T00:00:00Z') }),
+    ], names, now)
+    expect(rows.map(r => r.name)).toEqual(['Fr. Mark', 'Abe', 'Zed'])
+  })
+})
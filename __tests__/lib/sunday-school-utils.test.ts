@@ -221,6 +221,14 @@ describe('calculateSSAttendance', () => {
     expect(result2!.percentage).toBeCloseTo(83.33, 1)
     expect(result2!.met).toBe(true)
   })
+
+  it('should use a custom required percentage', () => {
+    // 4 present of 6 = 66.7%
+    const logs = Array(4).fill({ status: SundaySchoolLogStatus.VERIFIED as SSLogStatus })
+    expect(calculateSSAttendance(logs, 6, 60)!.met).toBe(true)
+    expect(calculateSSAttendance(logs, 6, 60)!.required).toBe(60)
+    expect(calculateSSAttendance(logs, 6, 70)!.met).toBe(false)
+  })
 })
 
 describe('getAssignmentWeeks', () => {
@@ -1,7 +1,11 @@
 import { NextResponse } from "next/server"
+import type { ExamRetakePolicy } from "@prisma/client"
 import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { isAdmin } from "@/lib/roles"
+import { parseAttendancePolicyInput, type AcademicYearPolicyFields } from "@/lib/attendance-policy"
+import { parseLessonTimingInput } from "@/lib/attendance-utils"
+import { parseRetakePolicyInput } from "@/lib/exam-retakes"
 
 
 // PATCH /api/academic-years/[id] - Update an academic year (Priest only)
@@ -23,6 +27,21 @@ export async function PATCH(
     const body = await request.json()
     const { name, startDate, endDate, isActive } = body
 
+    const policy = parseAttendancePolicyInput(body)
+    if (policy.error) {
+      return NextResponse.json({ error: policy.error }, { status: 400 })
+    }
+
+    const timing = parseLessonTimingInput(body.defaultLessonStartTime, body.defaultLateGraceMinutes)
+    if (timing.error) {
+      return NextResponse.json({ error: timing.error }, { status: 400 })
+    }
+
+    const retakes = parseRetakePolicyInput(body)
+    if (retakes.error) {
+      return NextResponse.json({ error: retakes.error }, { status: 400 })
+    }
+
     // If setting as active, deactivate all others
     if (isActive) {
       await prisma.academicYear.updateMany({
@@ -34,7 +53,20 @@ export async function PATCH(
       })
     }
 
-    const updateData: { name?: string; startDate?: Date; endDate?: Date; isActive?: boolean } = {}
+    const updateData: {
+      name?: string
+      startDate?: Date
+      endDate?: Date
+      isActive?: boolean
+      defaultLessonStartTime?: string | null
+      defaultLateGraceMinutes?: number
+      examRetakePolicy?: ExamRetakePolicy
+    } & Partial<AcademicYearPolicyFields> = {
+      ...policy.data,
+      ...retakes.data,
+    }
+    if (timing.data.startTime !== undefined) updateData.defaultLessonStartTime = timing.data.startTime
+    if (timing.data.lateGraceMinutes !== undefined) updateData.defaultLateGraceMinutes = timing.data.lateGraceMinutes ?? 0
     if (name) updateData.name = name
     if (startDate) updateData.startDate = new Date(startDate)
     if (endDate) updateData.endDate = new Date(endDate)
@@ -3,6 +3,9 @@ import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 
 import { isAdmin } from "@/lib/roles"
+import { parseAttendancePolicyInput } from "@/lib/attendance-policy"
+import { parseLessonTimingInput } from "@/lib/attendance-utils"
+import { parseRetakePolicyInput } from "@/lib/exam-retakes"
 
 // GET /api/academic-years - List all academic years
 // All authenticated users can view academic years (needed for dashboard display)
@@ -57,6 +60,24 @@ export async function POST(request: Request) {
       )
     }
 
+    // Optional attendance policy; omitted fields keep the schema defaults
+    const policy = parseAttendancePolicyInput(body)
+    if (policy.error) {
+      return NextResponse.json({ error: policy.error }, { status: 400 })
+    }
+
+    // Optional default lesson start time and grace period
+    const timing = parseLessonTimingInput(body.defaultLessonStartTime, body.defaultLateGraceMinutes)
+    if (timing.error) {
+      return NextResponse.json({ error: timing.error }, { status: 400 })
+    }
+
+    // Optional exam retake policy; defaults to the highest score counting
+    const retakes = parseRetakePolicyInput(body)
+    if (retakes.error) {
+      return NextResponse.json({ error: retakes.error }, { status: 400 })
+    }
+
     // If setting as active, deactivate all others
     if (isActive) {
       await prisma.academicYear.updateMany({
@@ -71,6 +92,10 @@ export async function POST(request: Request) {
         startDate: new Date(startDate),
         endDate: new Date(endDate),
         isActive: isActive || false,
+        ...policy.data,
+        ...retakes.data,
+        defaultLessonStartTime: timing.data.startTime ?? null,
+        defaultLateGraceMinutes: timing.data.lateGraceMinutes ?? 0,
       }
     })
 
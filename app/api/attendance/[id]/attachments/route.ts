@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageData } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { storeFile, validateUploadFile } from "@/lib/file-storage"
+
+// POST /api/attendance/[id]/attachments - Attach excuse documentation to an attendance record
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: multipart form with a `file` field (image or PDF)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    if (!canManageData(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const record = await prisma.attendanceRecord.findUnique({
+      where: { id },
+      select: { id: true, studentId: true },
+    })
+    if (!record) {
+      return NextResponse.json({ error: "Attendance record not found" }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get("file") as File | null
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 })
+    }
+    const fileError = validateUploadFile(file)
+    if (fileError) {
+      return NextResponse.json({ error: fileError }, { status: 400 })
+    }
+
+    const stored = await storeFile(`excuses/${record.studentId}`, file)
+    const attachment = await prisma.excuseAttachment.create({
+      data: {
+        attendanceRecordId: record.id,
+        ...stored,
+        uploadedBy: user.id,
+      },
+    })
+
+    return NextResponse.json(attachment, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
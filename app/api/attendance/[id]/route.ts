@@ -3,6 +3,9 @@ import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { AttendanceStatus } from "@prisma/client"
 import { canManageData } from "@/lib/roles"
+import { recordAttendanceHistory, type AttendanceChange } from "@/lib/attendance-history"
+import { syncConductIncidents, type EscalatedConductIncident } from "@/lib/conduct-incidents"
+import { notifyConductEscalated } from "@/lib/notifications"
 
 // PATCH /api/attendance/[id] - Update attendance record (SUPER_ADMIN and SERVANT_PREP only)
 export async function PATCH(
@@ -79,19 +82,42 @@ export async function PATCH(
       updateData.conductNote = conductRemoval ? (conductNote || null) : null
     }
 
-    const updatedRecord = await prisma.attendanceRecord.update({
-      where: { id },
-      data: updateData,
-      include: {
-        student: {
-          select: {
-            id: true,
-            name: true,
+    let escalations: EscalatedConductIncident[] = []
+    const updatedRecord = await prisma.$transaction(async (tx) => {
+      const updated = await tx.attendanceRecord.update({
+        where: { id },
+        data: updateData,
+        include: {
+          student: {
+            select: {
+              id: true,
+              name: true,
+            }
           }
         }
-      }
+      })
+
+      const changes: AttendanceChange[] = [
+        { attendanceRecordId: id, lessonId: record.lessonId, studentId: record.studentId, before: record, after: updated },
+      ]
+      await recordAttendanceHistory(changes, { source: "MANUAL_EDIT", changedBy: user.id }, tx)
+      escalations = await syncConductIncidents(
+        changes,
+        { academicYearId: record.lesson.academicYearId, occurredAt: record.lesson.scheduledDate, reportedBy: user.id },
+        tx
+      )
+
+      return updated
     })
 
+    for (const escalation of escalations) {
+      notifyConductEscalated({
+        studentId: escalation.studentId,
+        studentName: updatedRecord.student.name,
+        incidentCount: escalation.incidentCount,
+      }).catch(() => {})
+    }
+
     return NextResponse.json(updatedRecord)
   } catch (error: unknown) {
     return NextResponse.json(
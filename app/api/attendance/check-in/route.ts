@@ -0,0 +1,205 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { AttendanceStatus, UserRole } from "@prisma/client"
+import { handleApiError } from "@/lib/api-utils"
+import { resolveAttendanceRules, resolveLessonTiming } from "@/lib/attendance-utils"
+import { recordAttendanceHistory } from "@/lib/attendance-history"
+import {
+  getCheckInMinutesLate,
+  getCheckInStatus,
+  isLessonOpenForCheckIn,
+  normalizeCheckInCode,
+} from "@/lib/check-in-utils"
+
+// POST /api/attendance/check-in - Student self check-in by scanning a lesson code
+// Body: { code }
+// Creates (or upgrades) the student's attendance record as PRESENT or LATE based
+// on the scan time. Admins can still override the result from the attendance page.
+// Mentor notifications are left to the admin's batch save to avoid one per scan.
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (user.role !== UserRole.STUDENT) {
+      return NextResponse.json(
+        { error: "Only students can check in to a lesson" },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const code = typeof body.code === "string" ? normalizeCheckInCode(body.code) : ""
+
+    if (!code) {
+      return NextResponse.json(
+        { error: "Missing required field: code" },
+        { status: 400 }
+      )
+    }
+
+    const checkInCode = await prisma.lessonCheckInCode.findUnique({
+      where: { code },
+      include: {
+        lesson: {
+          select: {
+            id: true,
+            title: true,
+            scheduledDate: true,
+            status: true,
+            lateGraceMinutes: true,
+            academicYear: { select: { defaultLateGraceMinutes: true } },
+          },
+        },
+      },
+    })
+
+    if (!checkInCode) {
+      return NextResponse.json({ error: "Invalid check-in code" }, { status: 404 })
+    }
+
+    if (!checkInCode.isActive) {
+      return NextResponse.json(
+        { error: "Check-in for this lesson has closed" },
+        { status: 410 }
+      )
+    }
+
+    const now = new Date()
+    if (now > checkInCode.validUntil) {
+      return NextResponse.json(
+        { error: "This code has expired. Scan the code currently on screen." },
+        { status: 410 }
+      )
+    }
+
+    const { lesson } = checkInCode
+    // The code may still be live when the lesson is cancelled after check-in opened
+    if (lesson.status !== "SCHEDULED" && lesson.status !== "COMPLETED") {
+      return NextResponse.json(
+        { error: "This lesson has been cancelled" },
+        { status: 410 }
+      )
+    }
+
+    if (!isLessonOpenForCheckIn(lesson.scheduledDate, now)) {
+      return NextResponse.json(
+        { error: "Cannot check in before the lesson date" },
+        { status: 400 }
+      )
+    }
+
+    const enrollment = await prisma.studentEnrollment.findUnique({
+      where: { studentId: user.id },
+      select: { isActive: true, attendanceStartDate: true },
+    })
+    if (!enrollment || !enrollment.isActive) {
+      return NextResponse.json(
+        { error: "No active enrollment found" },
+        { status: 403 }
+      )
+    }
+
+    const existing = await prisma.attendanceRecord.findUnique({
+      where: { lessonId_studentId: { lessonId: lesson.id, studentId: user.id } },
+      select: { id: true, status: true, arrivedAt: true, notes: true, conductRemoval: true, conductNote: true, recordedBy: true },
+    })
+
+    // A conduct removal, or any absent/excused mark someone else recorded, is an
+    // admin decision the student cannot undo by scanning
+    if (
+      existing &&
+      (existing.conductRemoval ||
+        (existing.recordedBy !== user.id &&
+          existing.status !== AttendanceStatus.PRESENT &&
+          existing.status !== AttendanceStatus.LATE))
+    ) {
+      return NextResponse.json(
+        { error: "Your attendance for this lesson has already been recorded" },
+        { status: 409 }
+      )
+    }
+
+    // Already checked in (or already marked present/late by an admin): keep the
+    // original record so a second scan doesn't turn an on-time arrival into LATE
+    if (
+      existing &&
+      (existing.status === AttendanceStatus.PRESENT || existing.status === AttendanceStatus.LATE)
+    ) {
+      return NextResponse.json({
+        alreadyCheckedIn: true,
+        status: existing.status,
+        arrivedAt: existing.arrivedAt,
+        lessonTitle: lesson.title,
+      })
+    }
+
+    const absence = await prisma.expectedAbsence.findFirst({
+      where: {
+        studentId: user.id,
+        status: "APPROVED",
+        startDate: { lte: lesson.scheduledDate },
+        endDate: { gte: lesson.scheduledDate },
+      },
+      select: { id: true, reason: true },
+    })
+
+    // The kiosk sends the start time; the grace period comes from the lesson or year
+    const { lateGraceMinutes } = resolveLessonTiming(lesson, lesson.academicYear)
+    const minutesLate = getCheckInMinutesLate(now, checkInCode.startsAt)
+
+    const resolved = resolveAttendanceRules(
+      { status: getCheckInStatus(now, checkInCode.startsAt, lateGraceMinutes) },
+      {
+        lessonDate: lesson.scheduledDate,
+        attendanceStartDate: enrollment.attendanceStartDate,
+        expectedAbsence: absence,
+      }
+    )
+
+    const record = await prisma.$transaction(async (tx) => {
+      const saved = await tx.attendanceRecord.upsert({
+        where: { lessonId_studentId: { lessonId: lesson.id, studentId: user.id } },
+        create: {
+          lessonId: lesson.id,
+          studentId: user.id,
+          status: resolved.status,
+          arrivedAt: now,
+          minutesLate,
+          notes: resolved.notes,
+          recordedBy: user.id,
+          notEnrolledYet: resolved.notEnrolledYet,
+          expectedAbsenceId: resolved.expectedAbsenceId,
+          checkInCodeId: checkInCode.id,
+        },
+        update: {
+          status: resolved.status,
+          arrivedAt: now,
+          minutesLate,
+          recordedBy: user.id,
+          notEnrolledYet: resolved.notEnrolledYet,
+          expectedAbsenceId: resolved.expectedAbsenceId,
+          checkInCodeId: checkInCode.id,
+        },
+        select: { id: true, status: true, arrivedAt: true, notes: true, conductRemoval: true, conductNote: true },
+      })
+
+      await recordAttendanceHistory(
+        [{ attendanceRecordId: saved.id, lessonId: lesson.id, studentId: user.id, before: existing, after: saved }],
+        { source: "SELF_CHECK_IN", changedBy: user.id },
+        tx
+      )
+
+      return saved
+    })
+
+    return NextResponse.json({
+      alreadyCheckedIn: false,
+      status: record.status,
+      arrivedAt: record.arrivedAt,
+      lessonTitle: lesson.title,
+    }, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server"
+import * as XLSX from "@e965/xlsx"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageData } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { MAX_UPLOAD_SIZE } from "@/lib/file-storage"
+import { matchLessonDate, matchStudentName, parseAttendanceGrid } from "@/lib/attendance-import"
+
+const SPREADSHEET_EXTENSIONS = /\.(xlsx|xls|csv)$/i
+
+// POST /api/attendance/import/preview - Parse an attendance spreadsheet and match it to students and lessons
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: multipart form with `file` (XLSX/CSV) and `academicYearId`
+// Nothing is saved; the admin confirms the matches and commits via /api/attendance/import.
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageData(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get("file") as File | null
+    const academicYearId = formData.get("academicYearId")
+
+    if (!file || typeof academicYearId !== "string" || !academicYearId) {
+      return NextResponse.json({ error: "A spreadsheet and academic year are required" }, { status: 400 })
+    }
+    if (!SPREADSHEET_EXTENSIONS.test(file.name)) {
+      return NextResponse.json({ error: "Upload an .xlsx, .xls or .csv file" }, { status: 400 })
+    }
+    if (file.size > MAX_UPLOAD_SIZE) {
+      return NextResponse.json({ error: "File size exceeds 4.5 MB limit" }, { status: 400 })
+    }
+
+    const workbook = XLSX.read(Buffer.from(await file.arrayBuffer()), { type: "buffer", cellDates: true })
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    const data = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: null }) as unknown[][]
+
+    const { grid, error } = parseAttendanceGrid(data)
+    if (!grid) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const [students, lessons] = await Promise.all([
+      prisma.user.findMany({
+        where: { role: "STUDENT", enrollments: { some: {} } },
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+      }),
+      // Same lessons the attendance page offers: no cancelled or exam-day lessons
+      prisma.lesson.findMany({
+        where: { academicYearId, status: { not: "CANCELLED" }, isExamDay: false },
+        select: {
+          id: true,
+          title: true,
+          lessonNumber: true,
+          scheduledDate: true,
+          _count: { select: { attendanceRecords: true } },
+        },
+        orderBy: { scheduledDate: "asc" },
+      }),
+    ])
+
+    return NextResponse.json({
+      grid,
+      students,
+      lessons,
+      studentMatches: Object.fromEntries(grid.rows.map(row => [row.rowNumber, matchStudentName(row.name, students)])),
+      lessonMatches: Object.fromEntries(grid.columns.map(column => [column.dateKey, matchLessonDate(column.dateKey, lessons)])),
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
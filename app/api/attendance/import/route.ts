@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageData } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { saveAttendanceBatch, type AttendanceBatchInput } from "@/lib/attendance-batch"
+
+// POST /api/attendance/import - Save confirmed spreadsheet attendance, one batch per lesson
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { batches: [{ lessonId, records: [{ studentId, status }] }] }
+// Each lesson goes through the same save as the attendance page; a lesson that
+// fails validation is reported without stopping the others. Existing records
+// only take the imported status: notes, arrival and conduct removals are kept.
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageData(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const batches: AttendanceBatchInput[] = body.batches
+    if (!Array.isArray(batches) || batches.length === 0) {
+      return NextResponse.json({ error: "No attendance to import" }, { status: 400 })
+    }
+    if (batches.some(b => !b?.lessonId || !Array.isArray(b.records))) {
+      return NextResponse.json({ error: "Each batch needs a lessonId and records array" }, { status: 400 })
+    }
+
+    let created = 0
+    let updated = 0
+    const failed: Array<{ lessonId: string; error: string }> = []
+
+    for (const batch of batches) {
+      const { data, error } = await saveAttendanceBatch(
+        user,
+        { lessonId: batch.lessonId, records: batch.records },
+        { source: "IMPORT", notifyMentors: false, mergeExisting: true }
+      )
+      if (data) {
+        created += data.created
+        updated += data.updated
+      } else {
+        failed.push({ lessonId: batch.lessonId, error: error || "Failed to save attendance" })
+      }
+    }
+
+    return NextResponse.json({ created, updated, failed })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
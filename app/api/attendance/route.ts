@@ -51,6 +51,9 @@ export async function GET(request: Request) {
             id: true,
             name: true,
           }
+        },
+        attachments: {
+          orderBy: { createdAt: 'asc' }
         }
       },
       orderBy: {
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { handleApiError } from "@/lib/api-utils"
+import { buildICalendar, feedRange, getCalendarEvents, readCalendarFeedToken } from "@/lib/lesson-calendar"
+
+// GET /api/calendar/feed/[token] - A user's iCalendar feed
+// Auth: None - the signed token in the URL identifies the user, so calendar apps can subscribe
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params
+    const feed = readCalendarFeedToken(token.replace(/\.ics$/, ""))
+    const user = feed && await prisma.user.findUnique({
+      where: { id: feed.userId },
+      select: { id: true, role: true, isDisabled: true, calendarFeedVersion: true },
+    })
+
+    // Revoked, forged and disabled-account feeds all look the same
+    if (!feed || !user || user.isDisabled || user.calendarFeedVersion !== feed.version) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 })
+    }
+
+    const events = await getCalendarEvents(user, feedRange())
+
+    return new NextResponse(buildICalendar(events, "Servants Prep"), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="servants-prep.ics"',
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
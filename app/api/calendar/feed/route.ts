@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import { signCalendarFeedToken } from "@/lib/lesson-calendar"
+
+function feedUrl(request: Request, userId: string, version: number) {
+  const { origin } = new URL(request.url)
+  return `${origin}/api/calendar/feed/${signCalendarFeedToken(userId, version)}.ics`
+}
+
+// GET /api/calendar/feed - The signed-in user's calendar feed URL
+// Auth: Any signed-in user
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    const { calendarFeedVersion } = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+      select: { calendarFeedVersion: true },
+    })
+
+    return NextResponse.json({ url: feedUrl(request, user.id, calendarFeedVersion) })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/calendar/feed - Issue a new feed URL; the old one stops working
+// Auth: Any signed-in user
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    const { calendarFeedVersion } = await prisma.user.update({
+      where: { id: user.id },
+      data: { calendarFeedVersion: { increment: 1 } },
+      select: { calendarFeedVersion: true },
+    })
+
+    return NextResponse.json({ url: feedUrl(request, user.id, calendarFeedVersion) })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
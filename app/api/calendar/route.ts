@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import { getCalendarEvents } from "@/lib/lesson-calendar"
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/
+const MAX_RANGE_DAYS = 366
+
+// GET /api/calendar - Lessons, exams and Sunday School weeks for the calendar view
+// Auth: Any signed-in user (students see their own year level and Sunday School weeks)
+// Query: from, to - "YYYY-MM-DD", inclusive
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get("from") || ""
+    const to = searchParams.get("to") || ""
+    if (!DAY_KEY.test(from) || !DAY_KEY.test(to)) {
+      return NextResponse.json({ error: "from and to must be YYYY-MM-DD dates" }, { status: 400 })
+    }
+
+    const range = { from: new Date(`${from}T00:00:00.000Z`), to: new Date(`${to}T23:59:59.999Z`) }
+    if (isNaN(range.from.getTime()) || isNaN(range.to.getTime()) || range.from > range.to) {
+      return NextResponse.json({ error: "Invalid date range" }, { status: 400 })
+    }
+    if (range.to.getTime() - range.from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json({ error: `The range can't be longer than ${MAX_RANGE_DAYS} days` }, { status: 400 })
+    }
+
+    const events = await getCalendarEvents(user, range)
+
+    return NextResponse.json(events)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
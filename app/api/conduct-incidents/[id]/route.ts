@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin, isMentor, canManageData } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { parseConductIncidentInput } from "@/lib/conduct-incidents"
+
+// PATCH /api/conduct-incidents/[id] - Record follow-up, the meeting outcome, or resolve an incident
+// Auth: admins (including PRIEST, who handle escalations) or the student's mentor
+// Moving an incident to RESOLVED stamps the resolver; reopening clears it.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const incident = await prisma.conductIncident.findUnique({
+      where: { id },
+      include: {
+        student: { select: { enrollments: { select: { mentorId: true } } } },
+      },
+    })
+    if (!incident) {
+      return NextResponse.json({ error: "Conduct incident not found" }, { status: 404 })
+    }
+
+    const isStudentsMentor =
+      isMentor(user.role) && incident.student.enrollments.some(e => e.mentorId === user.id)
+    if (!isAdmin(user.role) && !isStudentsMentor) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { data, error } = parseConductIncidentInput(body)
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const resolution = data.status === undefined || data.status === incident.status
+      ? {}
+      : data.status === "RESOLVED"
+        ? { resolvedBy: user.id, resolvedAt: new Date() }
+        : { resolvedBy: null, resolvedAt: null }
+
+    const updated = await prisma.conductIncident.update({
+      where: { id },
+      data: { ...data, ...resolution },
+      include: {
+        lesson: { select: { id: true, title: true, scheduledDate: true } },
+        academicYear: { select: { id: true, name: true } },
+        reporter: { select: { id: true, name: true } },
+        resolver: { select: { id: true, name: true } },
+      },
+    })
+
+    return NextResponse.json(updated)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/conduct-incidents/[id] - Delete an incident logged by mistake
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Incidents opened by a conduct removal go away when the removal is undone.
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    if (!canManageData(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const incident = await prisma.conductIncident.findUnique({
+      where: { id },
+      select: { attendanceRecordId: true },
+    })
+    if (!incident) {
+      return NextResponse.json({ error: "Conduct incident not found" }, { status: 404 })
+    }
+    if (incident.attendanceRecordId) {
+      return NextResponse.json(
+        { error: "This incident comes from a conduct removal. Undo the removal on the attendance record instead." },
+        { status: 400 }
+      )
+    }
+
+    await prisma.conductIncident.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
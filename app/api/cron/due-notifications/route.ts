@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { handleApiError } from "@/lib/api-utils"
+import { releaseDueExamScores, sendDueSpeakerReminders } from "@/lib/notifications"
+
+// GET /api/cron/due-notifications - Send the notifications that fall due over time
+// Releases scheduled exam scores whose time has passed (notifying each exam's
+// students in one batch) and reminds speakers of upcoming lessons. Called by
+// the Vercel cron in vercel.json; any other scheduler can call it the same way.
+// Auth: Authorization: Bearer <CRON_SECRET>
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const releasedExams = await releaseDueExamScores()
+    const speakerReminders = await sendDueSpeakerReminders()
+
+    return NextResponse.json({ releasedExams, speakerReminders })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageCurriculum } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { getTemplatePlan, parseTemplateApplyInput } from "@/lib/curriculum-templates"
+
+// POST /api/curriculum-templates/[id]/apply/preview - Show the dates a template's lessons would get
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { academicYearId, startDate, blackoutDates? }
+// Nothing is saved; the admin reviews the dates, then commits via /api/curriculum-templates/[id]/apply.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageCurriculum(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const { data, error } = parseTemplateApplyInput(await request.json())
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const planned = await getTemplatePlan(id, data)
+    if (!planned) {
+      return NextResponse.json({ error: "Template or academic year not found" }, { status: 404 })
+    }
+
+    const lessonsByOrder = new Map(planned.template.lessons.map(l => [l.order, l]))
+    return NextResponse.json({
+      academicYear: { id: planned.academicYear.id, name: planned.academicYear.name },
+      lessons: planned.plan.map(entry => {
+        const lesson = lessonsByOrder.get(entry.order)!
+        return {
+          ...entry,
+          examSection: lesson.examSection.displayName,
+          speaker: lesson.speaker,
+          isExamDay: lesson.isExamDay,
+          resourceCount: lesson.resources.length,
+        }
+      }),
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
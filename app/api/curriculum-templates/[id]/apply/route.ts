@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageCurriculum } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { applyTemplatePlan, getTemplatePlan, parseTemplateApplyInput } from "@/lib/curriculum-templates"
+import { notifySpeakerRequested } from "@/lib/notifications"
+
+// POST /api/curriculum-templates/[id]/apply - Create a template's lessons in an academic year
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { academicYearId, startDate, blackoutDates? } - the same body as the preview
+// Refused when any lesson would fall outside the academic year. Assigned speakers
+// are asked to confirm the new lessons.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageCurriculum(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const { data, error } = parseTemplateApplyInput(await request.json())
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const planned = await getTemplatePlan(id, data)
+    if (!planned) {
+      return NextResponse.json({ error: "Template or academic year not found" }, { status: 404 })
+    }
+
+    const outside = planned.plan.filter(entry => entry.outsideYear).length
+    if (outside > 0) {
+      return NextResponse.json(
+        { error: `${outside} lesson(s) would fall outside ${planned.academicYear.name}. Choose an earlier first date or fewer blackout dates` },
+        { status: 400 }
+      )
+    }
+
+    const lessons = await applyTemplatePlan(planned, user.id)
+    notifySpeakerRequested(lessons.filter(l => l.speakerId).map(l => l.id)).catch(() => {})
+
+    return NextResponse.json({ created: lessons.length }, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
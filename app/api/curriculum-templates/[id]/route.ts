@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin, canManageCurriculum } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+
+// GET /api/curriculum-templates/[id] - A template with its lessons
+// Auth: Admins
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const template = await prisma.curriculumTemplate.findUnique({
+      where: { id },
+      include: {
+        sourceAcademicYear: { select: { id: true, name: true } },
+        lessons: {
+          orderBy: { order: "asc" },
+          include: {
+            examSection: { select: { id: true, displayName: true } },
+            resources: true,
+          },
+        },
+      },
+    })
+
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(template)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/curriculum-templates/[id] - Delete a template (lessons created from it are kept)
+// Auth: SUPER_ADMIN, SERVANT_PREP
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageCurriculum(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const template = await prisma.curriculumTemplate.findUnique({ where: { id }, select: { id: true } })
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    await prisma.curriculumTemplate.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin, canManageCurriculum } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { createTemplateFromYear, parseTemplateInput } from "@/lib/curriculum-templates"
+
+// GET /api/curriculum-templates - List saved curriculum templates
+// Auth: Admins
+export async function GET() {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const templates = await prisma.curriculumTemplate.findMany({
+      include: {
+        sourceAcademicYear: { select: { id: true, name: true } },
+        creator: { select: { id: true, name: true } },
+        _count: { select: { lessons: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    })
+
+    return NextResponse.json(templates)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/curriculum-templates - Save an academic year's lessons as a template
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { name, description?, academicYearId }
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageCurriculum(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { data, error } = parseTemplateInput(await request.json())
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const [academicYear, existing] = await Promise.all([
+      prisma.academicYear.findUnique({
+        where: { id: data.academicYearId },
+        select: { id: true, _count: { select: { lessons: true } } },
+      }),
+      prisma.curriculumTemplate.findUnique({ where: { name: data.name }, select: { id: true } }),
+    ])
+
+    if (!academicYear) {
+      return NextResponse.json({ error: "Academic year not found" }, { status: 404 })
+    }
+    if (academicYear._count.lessons === 0) {
+      return NextResponse.json({ error: "This academic year has no lessons to save" }, { status: 400 })
+    }
+    if (existing) {
+      return NextResponse.json({ error: "A template with this name already exists" }, { status: 409 })
+    }
+
+    const template = await createTemplateFromYear(data, user.id)
+
+    return NextResponse.json(template, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -2,7 +2,10 @@ import { NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { isAdmin } from "@/lib/roles"
-import { AttendanceStatus, YearLevel, ExamYearLevel } from "@prisma/client"
+import { YearLevel, ExamSittingType, ExamYearLevel } from "@prisma/client"
+import { calculateAttendancePercentage, meetsAttendanceRequirement, tallyAttendanceStatus } from "@/lib/attendance-utils"
+import { ATTENDANCE_POLICY_SELECT, toAttendancePolicy } from "@/lib/attendance-policy"
+import { EXAM_SITTING_SELECT, resolveEffectiveScores } from "@/lib/exam-retakes"
 
 // GET /api/dashboard/analytics - Get detailed analytics for the dashboard
 export async function GET() {
@@ -19,10 +22,13 @@ export async function GET() {
     // Get all academic years
     const academicYears = await prisma.academicYear.findMany({
       orderBy: { startDate: 'desc' },
-      select: { id: true, name: true, isActive: true }
+      select: { id: true, name: true, isActive: true, ...ATTENDANCE_POLICY_SELECT }
     })
 
     const activeYear = academicYears.find(y => y.isActive)
+    // At-risk checks use the active year's rules; per-year rates use each year's own
+    const policy = toAttendancePolicy(activeYear)
+    const policyByYear = new Map(academicYears.map(y => [y.id, toAttendancePolicy(y)]))
 
     // Get all exam sections
     const examSections = await prisma.examSection.findMany({
@@ -33,10 +39,11 @@ export async function GET() {
     const examScores = await prisma.examScore.findMany({
       select: {
         score: true,
+        percentage: true,
         studentId: true,
         exam: {
           select: {
-            id: true,
+            ...EXAM_SITTING_SELECT,
             academicYearId: true,
             examSectionId: true,
             yearLevel: true
@@ -44,9 +51,16 @@ export async function GET() {
         }
       }
     })
-
-    // Get all exams to count properly
+    // Collapse makeups and retakes into one effective score per student per exam
+    const effectiveScores = resolveEffectiveScores(examScores).map(e => ({
+      score: e.score,
+      studentId: e.studentId,
+      exam: e.base.exam
+    }))
+
+    // Get all exams to count properly (makeups and retakes are sittings, not extra exams)
     const allExams = await prisma.exam.findMany({
+      where: { sittingType: ExamSittingType.REGULAR },
       select: {
         id: true,
         academicYearId: true,
@@ -63,6 +77,7 @@ export async function GET() {
       },
       select: {
         status: true,
+        conductRemoval: true,
         lesson: {
           select: {
             academicYearId: true
@@ -71,7 +86,7 @@ export async function GET() {
       }
     })
 
-    // Get students at risk (below 75% attendance or exam average)
+    // Get students at risk (below the required attendance or 75% exam average)
     const activeEnrollments = await prisma.studentEnrollment.findMany({
       where: { isActive: true },
       select: {
@@ -88,7 +103,7 @@ export async function GET() {
     // Calculate exam averages per section per academic year
     const examAveragesByYearAndSection: Record<string, Record<string, { total: number; count: number }>> = {}
 
-    for (const score of examScores) {
+    for (const score of effectiveScores) {
       const yearId = score.exam.academicYearId
       const sectionId = score.exam.examSectionId
 
@@ -114,15 +129,7 @@ export async function GET() {
       }
 
       attendanceByYear[yearId].total += 1
-      if (record.status === AttendanceStatus.PRESENT) {
-        attendanceByYear[yearId].present += 1
-      } else if (record.status === AttendanceStatus.LATE) {
-        attendanceByYear[yearId].late += 1
-      } else if (record.status === AttendanceStatus.ABSENT) {
-        attendanceByYear[yearId].absent += 1
-      } else if (record.status === AttendanceStatus.EXCUSED) {
-        attendanceByYear[yearId].excused += 1
-      }
+      tallyAttendanceStatus(attendanceByYear[yearId], record, policyByYear.get(yearId))
     }
 
     // Get individual student analytics for at-risk calculation
@@ -130,7 +137,7 @@ export async function GET() {
 
     // Get attendance per student (exclude exam day lessons)
     const studentAttendance = await prisma.attendanceRecord.groupBy({
-      by: ['studentId', 'status'],
+      by: ['studentId', 'status', 'conductRemoval'],
       where: {
         studentId: { in: studentIds },
         lesson: {
@@ -140,16 +147,9 @@ export async function GET() {
       _count: true
     })
 
-    // Get exam scores per student
-    const studentExamScores = await prisma.examScore.findMany({
-      where: {
-        studentId: { in: studentIds }
-      },
-      select: {
-        studentId: true,
-        score: true
-      }
-    })
+    // Effective exam scores per student
+    const activeStudentIdSet = new Set(studentIds)
+    const studentExamScores = effectiveScores.filter(s => activeStudentIdSet.has(s.studentId))
 
     // Calculate at-risk students
     const studentAttendanceMap: Record<string, { present: number; late: number; absent: number; excused: number; total: number }> = {}
@@ -160,15 +160,7 @@ export async function GET() {
       }
 
       studentAttendanceMap[record.studentId].total += record._count
-      if (record.status === AttendanceStatus.PRESENT) {
-        studentAttendanceMap[record.studentId].present += record._count
-      } else if (record.status === AttendanceStatus.LATE) {
-        studentAttendanceMap[record.studentId].late += record._count
-      } else if (record.status === AttendanceStatus.ABSENT) {
-        studentAttendanceMap[record.studentId].absent += record._count
-      } else if (record.status === AttendanceStatus.EXCUSED) {
-        studentAttendanceMap[record.studentId].excused += record._count
-      }
+      tallyAttendanceStatus(studentAttendanceMap[record.studentId], record, policy, record._count)
     }
 
     const studentExamScoresMap: Record<string, number[]> = {}
@@ -194,7 +186,7 @@ export async function GET() {
     let studentsWithLowAttendance = 0
     let studentsWithGoodExams = 0
     let studentsWithLowExams = 0
-    let studentsFullyOnTrack = 0  // Both attendance AND exams >= 75%
+    let studentsFullyOnTrack = 0  // Attendance meets policy AND exams >= 75%
 
     for (const enrollment of activeEnrollments) {
       const studentId = enrollment.student.id
@@ -208,10 +200,9 @@ export async function GET() {
       let hasGoodExams = false
 
       if (attendance && attendance.total > 0) {
-        const countableLessons = attendance.total - attendance.excused
-        if (countableLessons > 0) {
-          attendanceRate = ((attendance.present + (attendance.late / 2)) / countableLessons) * 100
-          if (attendanceRate < 75) {
+        attendanceRate = calculateAttendancePercentage(attendance, policy)
+        if (attendanceRate !== null) {
+          if (!meetsAttendanceRequirement(attendanceRate, policy.requiredPercentage)) {
             issues.push(`Low attendance: ${attendanceRate.toFixed(2)}%`)
             studentsWithLowAttendance++
           } else {
@@ -330,8 +321,7 @@ export async function GET() {
 
     const attendanceByYearFormatted = academicYears.map(year => {
       const data = attendanceByYear[year.id] || { present: 0, late: 0, absent: 0, excused: 0, total: 0 }
-      const countable = data.total - data.excused
-      const rate = countable > 0 ? ((data.present + (data.late / 2)) / countable) * 100 : null
+      const rate = calculateAttendancePercentage(data, policyByYear.get(year.id))
 
       return {
         yearId: year.id,
@@ -356,8 +346,7 @@ export async function GET() {
     const currentYearExams = allExams.filter(e => activeYear && e.academicYearId === activeYear.id)
 
     // Count exam scores for active students
-    const activeStudentIds = new Set(activeEnrollments.map(e => e.student.id))
-    const activeStudentScores = examScores.filter(s => activeStudentIds.has(s.studentId))
+    const activeStudentScores = studentExamScores
 
     // Count exams by year level
     // An exam with BOTH applies to both Year 1 and Year 2 students
@@ -387,6 +376,7 @@ export async function GET() {
     // Get exam counts by academic year
     const examsByYear = await prisma.exam.groupBy({
       by: ['academicYearId'],
+      where: { sittingType: ExamSittingType.REGULAR },
       _count: true
     })
 
@@ -396,27 +386,11 @@ export async function GET() {
       examCountByYear[exam.academicYearId] = exam._count
     }
 
-    // Get exam scores count by academic year
-    const examScoresByAcademicYear = await prisma.examScore.groupBy({
-      by: ['examId'],
-      _count: true
-    })
-
-    // Map exam scores to academic year
-    const examIdToYear: Record<string, string> = {}
-    for (const exam of allExams) {
-      examIdToYear[exam.id] = exam.academicYearId
-    }
-
+    // Count effective exam scores by academic year
     const examScoresCountByYear: Record<string, number> = {}
-    for (const scoreGroup of examScoresByAcademicYear) {
-      const yearId = examIdToYear[scoreGroup.examId]
-      if (yearId) {
-        if (!examScoresCountByYear[yearId]) {
-          examScoresCountByYear[yearId] = 0
-        }
-        examScoresCountByYear[yearId] += scoreGroup._count
-      }
+    for (const score of effectiveScores) {
+      const yearId = score.exam.academicYearId
+      examScoresCountByYear[yearId] = (examScoresCountByYear[yearId] || 0) + 1
     }
 
     // Program overview stats
@@ -437,13 +411,14 @@ export async function GET() {
       overallProgramAverage: activeStudentScores.length > 0
         ? activeStudentScores.reduce((sum, s) => sum + s.score, 0) / activeStudentScores.length
         : null,
-      // Students meeting 75% threshold
+      // Students meeting the attendance policy / 75% exam threshold
       studentsWithGoodAttendance,
       studentsWithLowAttendance,
       studentsWithGoodExams,
       studentsWithLowExams,
       studentsFullyOnTrack,
       totalActiveStudents: activeEnrollments.length,
+      attendanceRequired: policy.requiredPercentage,
       // Lessons by year (excluding exam days)
       lessonCountByYear,
       // Exams by year
@@ -4,6 +4,8 @@ import { requireAuth } from "@/lib/auth-helpers"
 import { canViewStudents } from "@/lib/roles"
 import { UserRole } from "@prisma/client"
 import { handleApiError } from "@/lib/api-utils"
+import { EXAM_SITTING_SELECT, resolveEffectiveScores } from "@/lib/exam-retakes"
+import { canSeeUnreleasedScores, releasedExamWhere } from "@/lib/exam-release"
 
 // GET /api/dashboard/class-averages - Get class-wide exam section averages
 export async function GET() {
@@ -34,26 +36,31 @@ export async function GET() {
       })
     }
 
-    // Get all exam scores for active students with section info
+    // Get all exam scores for active students with section info (mentors only see released exams)
     const examScores = await prisma.examScore.findMany({
       where: {
-        studentId: { in: studentIds }
+        studentId: { in: studentIds },
+        ...(!canSeeUnreleasedScores(user.role as UserRole) && { exam: releasedExamWhere() })
       },
       select: {
         studentId: true,
+        score: true,
         percentage: true,
         exam: {
           select: {
+            ...EXAM_SITTING_SELECT,
             examSectionId: true
           }
         }
       }
     })
+    // One effective score per student per exam, after makeups and retakes
+    const effectiveScores = resolveEffectiveScores(examScores)
 
     // Group scores by section
     const scoresBySection: Record<string, number[]> = {}
-    for (const score of examScores) {
-      const sectionId = score.exam.examSectionId
+    for (const score of effectiveScores) {
+      const sectionId = score.base.exam.examSectionId
       if (!scoresBySection[sectionId]) {
         scoresBySection[sectionId] = []
       }
@@ -76,7 +83,7 @@ export async function GET() {
     })
 
     // Calculate overall average across all scores
-    const allScores = examScores.map(s => s.percentage)
+    const allScores = effectiveScores.map(s => s.percentage)
     const overallAverage = allScores.length > 0
       ? allScores.reduce((a, b) => a + b, 0) / allScores.length
       : null
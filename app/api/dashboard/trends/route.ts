@@ -2,7 +2,8 @@ import { NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAuth } from '@/lib/auth-helpers'
 import { isAdmin } from '@/lib/roles'
-import { AttendanceStatus } from '@prisma/client'
+import { countAttendanceStatuses, calculateAttendancePercentage } from '@/lib/attendance-utils'
+import { toAttendancePolicy } from '@/lib/attendance-policy'
 
 export async function GET() {
   try {
@@ -12,6 +13,7 @@ export async function GET() {
     }
 
     const activeYear = await prisma.academicYear.findFirst({ where: { isActive: true } })
+    const policy = toAttendancePolicy(activeYear)
 
     const lessonWhere = activeYear ? { academicYearId: activeYear.id } : {}
 
@@ -24,24 +26,16 @@ export async function GET() {
         title: true,
         scheduledDate: true,
         lessonNumber: true,
-        attendanceRecords: { select: { status: true } },
+        attendanceRecords: { select: { status: true, conductRemoval: true } },
       },
       take: 60,
     })
 
     const attendancePoints = lessons.map(lesson => {
-      let present = 0
-      let late = 0
-      let excused = 0
-      let absent = 0
-      for (const a of lesson.attendanceRecords) {
-        if (a.status === AttendanceStatus.PRESENT) present++
-        else if (a.status === AttendanceStatus.LATE) late++
-        else if (a.status === AttendanceStatus.EXCUSED) excused++
-        else if (a.status === AttendanceStatus.ABSENT) absent++
-      }
+      const counts = countAttendanceStatuses(lesson.attendanceRecords, policy)
+      const { present, late, absent, excused } = counts
       const denom = present + late + absent
-      const rate = denom > 0 ? ((present + late / 2) / denom) * 100 : null
+      const rate = calculateAttendancePercentage(counts, policy)
       return {
         label: `#${lesson.lessonNumber}`,
         date: lesson.scheduledDate.toISOString(),
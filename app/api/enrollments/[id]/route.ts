@@ -145,7 +145,7 @@ export async function PATCH(
 
       // Reconcile late-start attendance atomically when the start date changed
       if (attendanceStartChanged) {
-        await reconcileLateStartAttendance(updated.studentId, newAttendanceStart, tx)
+        await reconcileLateStartAttendance(updated.studentId, newAttendanceStart, tx, user.id)
       }
 
       return updated
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server"
+import { ExamAttemptStatus } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { notifyGradePosted } from "@/lib/notifications"
+import { finalizeAttempt } from "@/lib/exam-taking"
+
+// PATCH /api/exam-answers/[id] - Grade an essay or short answer by hand
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { pointsAwarded, feedback? }
+// Grading the last pending answer writes the attempt's result to ExamScore.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { pointsAwarded, feedback } = body
+
+    if (typeof pointsAwarded !== 'number' || isNaN(pointsAwarded) || pointsAwarded < 0) {
+      return NextResponse.json({ error: "Points must be zero or more" }, { status: 400 })
+    }
+
+    const answer = await prisma.examAnswer.findUnique({
+      where: { id },
+      include: {
+        question: { select: { points: true } },
+        attempt: { select: { status: true } },
+      },
+    })
+
+    if (!answer) {
+      return NextResponse.json({ error: "Answer not found" }, { status: 404 })
+    }
+
+    if (answer.attempt.status === ExamAttemptStatus.IN_PROGRESS) {
+      return NextResponse.json({ error: "This exam hasn't been submitted yet" }, { status: 400 })
+    }
+
+    if (pointsAwarded > answer.question.points) {
+      return NextResponse.json(
+        { error: `Points cannot exceed the question's value (${answer.question.points})` },
+        { status: 400 }
+      )
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.examAnswer.update({
+        where: { id },
+        data: {
+          pointsAwarded,
+          isCorrect: pointsAwarded >= answer.question.points,
+          feedback: typeof feedback === 'string' ? feedback.trim() || null : answer.feedback,
+          gradedBy: user.id,
+          gradedAt: new Date(),
+        },
+      })
+      return finalizeAttempt(answer.attemptId, user.id, tx)
+    })
+
+    if (result?.notify) notifyGradePosted(result).catch(() => {})
+
+    return NextResponse.json({ success: true, finalized: !!result })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
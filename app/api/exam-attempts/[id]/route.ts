@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import { notifyGradePosted } from "@/lib/notifications"
+import { closeExpiredAttempt, isAttemptOpen, saveAttemptResponses } from "@/lib/exam-taking"
+
+// PATCH /api/exam-attempts/[id] - Save answers during an online exam
+// Auth: the student taking the exam
+// Body: { responses: { [questionId]: string | null } }
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const attempt = await prisma.examAttempt.findUnique({
+      where: { id },
+      include: { exam: { select: { questions: { select: { id: true } } } } },
+    })
+
+    if (!attempt || attempt.studentId !== user.id) {
+      return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+    }
+
+    if (!isAttemptOpen(attempt)) {
+      const { result } = await closeExpiredAttempt(attempt)
+      if (result?.notify) notifyGradePosted(result).catch(() => {})
+      return NextResponse.json({ error: "This exam has already been submitted or its time is up" }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const responses: Record<string, unknown> = body.responses
+    if (!responses || typeof responses !== 'object') {
+      return NextResponse.json({ error: "responses object is required" }, { status: 400 })
+    }
+
+    const questionIds = new Set(attempt.exam.questions.map(q => q.id))
+    const cleaned: Record<string, string | null> = {}
+    for (const [questionId, response] of Object.entries(responses)) {
+      if (!questionIds.has(questionId)) {
+        return NextResponse.json({ error: "Unknown question" }, { status: 400 })
+      }
+      if (response !== null && typeof response !== 'string') {
+        return NextResponse.json({ error: "Answers must be text" }, { status: 400 })
+      }
+      cleaned[questionId] = response
+    }
+
+    await saveAttemptResponses(id, cleaned)
+
+    return NextResponse.json({ success: true, savedAt: new Date() })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server"
+import { ExamAttemptStatus } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import { notifyGradePosted } from "@/lib/notifications"
+import { isAttemptOpen, saveAttemptResponses, submitAttempt } from "@/lib/exam-taking"
+
+// POST /api/exam-attempts/[id]/submit - Hand in an online exam
+// Auth: the student taking the exam
+// Body: { responses? } - final answers, saved first if the attempt is still open
+// Objective answers are graded immediately; essays go to the grading queue.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const attempt = await prisma.examAttempt.findUnique({
+      where: { id },
+      include: { exam: { select: { questions: { select: { id: true } } } } },
+    })
+
+    if (!attempt || attempt.studentId !== user.id) {
+      return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+    }
+
+    if (attempt.status !== ExamAttemptStatus.IN_PROGRESS) {
+      return NextResponse.json({ error: "This exam has already been submitted" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const questionIds = new Set(attempt.exam.questions.map(q => q.id))
+    const responses: Record<string, string | null> = {}
+    for (const [questionId, response] of Object.entries(body.responses ?? {})) {
+      if (questionIds.has(questionId) && (response === null || typeof response === 'string')) {
+        responses[questionId] = response
+      }
+    }
+
+    // Late final answers are dropped; what was saved in time is graded
+    const lateSubmission = !isAttemptOpen(attempt)
+
+    const result = await prisma.$transaction(async (tx) => {
+      if (!lateSubmission) await saveAttemptResponses(id, responses, tx)
+      return submitAttempt(id, tx)
+    })
+
+    if (result?.notify) notifyGradePosted(result).catch(() => {})
+
+    return NextResponse.json({
+      status: result ? ExamAttemptStatus.GRADED : ExamAttemptStatus.SUBMITTED,
+      score: result?.released ? { score: result.score, percentage: result.percentage } : null,
+      lateSubmission,
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
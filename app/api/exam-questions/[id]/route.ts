@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { parseExamQuestionInput } from "@/lib/exam-taking"
+
+async function findEditableQuestion(id: string) {
+  const question = await prisma.examQuestion.findUnique({
+    where: { id },
+    include: { exam: { select: { _count: { select: { attempts: true } } } } },
+  })
+
+  if (!question) {
+    return { error: "Question not found", status: 404 }
+  }
+  if (question.exam._count.attempts > 0) {
+    return { error: "Questions can't be changed once students have started this exam", status: 400 }
+  }
+  return { question }
+}
+
+// PATCH /api/exam-questions/[id] - Edit or reorder a question
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: any of { type, prompt, options, answerKey, points, order }
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const { question, error, status } = await findEditableQuestion(id)
+    if (!question) {
+      return NextResponse.json({ error }, { status })
+    }
+
+    const body = await request.json()
+    if (body.order !== undefined && (!Number.isInteger(body.order) || body.order < 1)) {
+      return NextResponse.json({ error: "Order must be a positive whole number" }, { status: 400 })
+    }
+
+    // Validate the question as a whole so the answer key always fits the type
+    const { data, error: inputError } = parseExamQuestionInput({
+      type: body.type ?? question.type,
+      prompt: body.prompt ?? question.prompt,
+      options: body.options ?? question.options,
+      answerKey: body.answerKey ?? question.answerKey,
+      points: body.points ?? question.points,
+    })
+    if (!data) {
+      return NextResponse.json({ error: inputError }, { status: 400 })
+    }
+
+    const updated = await prisma.examQuestion.update({
+      where: { id },
+      data: { ...data, ...(body.order !== undefined && { order: body.order }) },
+    })
+
+    return NextResponse.json(updated)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/exam-questions/[id] - Remove a question
+// Auth: SUPER_ADMIN, SERVANT_PREP
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const { question, error, status } = await findEditableQuestion(id)
+    if (!question) {
+      return NextResponse.json({ error }, { status })
+    }
+
+    await prisma.examQuestion.delete({ where: { id } })
+
+    // An online exam can't be left without questions
+    const remaining = await prisma.examQuestion.count({ where: { examId: question.examId } })
+    if (remaining === 0) {
+      await prisma.exam.update({
+        where: { id: question.examId },
+        data: { onlineEnabled: false },
+      })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { notifyRegradeReviewed } from "@/lib/notifications"
+import { validateRegradeReview } from "@/lib/exam-regrades"
+import { reviewRegradeRequest } from "@/lib/exam-scores"
+
+// POST /api/exam-regrades/[id]/review - Approve or deny a regrade request
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { status: "APPROVED" | "DENIED", adjustedScore?, note? }
+// Approving sets the score to adjustedScore (points); denying needs a note.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const regrade = await prisma.examRegradeRequest.findUnique({
+      where: { id },
+      select: { status: true, examScore: { select: { exam: { select: { totalPoints: true } } } } },
+    })
+    if (!regrade) {
+      return NextResponse.json({ error: "Regrade request not found" }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const decision = validateRegradeReview(regrade.status, body, regrade.examScore.exam.totalPoints)
+    if (decision.error || !decision.data) {
+      return NextResponse.json({ error: decision.error }, { status: 400 })
+    }
+
+    const reviewed = await reviewRegradeRequest(id, decision.data, user.id)
+
+    notifyRegradeReviewed({
+      studentId: reviewed.studentId,
+      examSection: reviewed.examSection,
+      status: reviewed.status,
+      percentage: reviewed.percentage,
+      reviewNote: reviewed.reviewNote,
+    }).catch(() => {})
+
+    return NextResponse.json(reviewed)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server"
+import { RegradeRequestStatus } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin, isStudent } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { notifyRegradeRequested } from "@/lib/notifications"
+import { parseRegradeRequestInput, REGRADE_STATUS_LABELS } from "@/lib/exam-regrades"
+import { isExamReleased } from "@/lib/exam-release"
+
+// GET /api/exam-regrades - List regrade requests
+// Auth: admins (all requests) or STUDENT (their own)
+// Query: status? - PENDING, APPROVED or DENIED
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role) && !isStudent(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get("status")
+    if (status && !Object.keys(REGRADE_STATUS_LABELS).includes(status)) {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+    }
+
+    const requests = await prisma.examRegradeRequest.findMany({
+      where: {
+        ...(isStudent(user.role) && { studentId: user.id }),
+        ...(status && { status: status as RegradeRequestStatus }),
+      },
+      include: {
+        student: { select: { id: true, name: true } },
+        reviewer: { select: { id: true, name: true } },
+        examScore: {
+          select: {
+            id: true,
+            score: true,
+            percentage: true,
+            exam: {
+              select: {
+                id: true,
+                examDate: true,
+                totalPoints: true,
+                examSection: { select: { displayName: true } },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: status === "PENDING" ? "asc" : "desc" },
+    })
+
+    return NextResponse.json(requests)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/exam-regrades - Ask for a posted score to be reviewed
+// Auth: STUDENT (their own released scores)
+// Body: { examScoreId, comment }
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!isStudent(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const input = parseRegradeRequestInput(body)
+    if (input.error || !input.data) {
+      return NextResponse.json({ error: input.error }, { status: 400 })
+    }
+    const { examScoreId, comment } = input.data
+
+    const examScore = await prisma.examScore.findUnique({
+      where: { id: examScoreId },
+      include: {
+        student: { select: { name: true } },
+        exam: {
+          select: {
+            releaseStatus: true,
+            releaseAt: true,
+            examSection: { select: { displayName: true } },
+          },
+        },
+      },
+    })
+    // Hidden scores are treated as missing
+    if (!examScore || examScore.studentId !== user.id || !isExamReleased(examScore.exam)) {
+      return NextResponse.json({ error: "Exam score not found" }, { status: 404 })
+    }
+
+    const pending = await prisma.examRegradeRequest.findFirst({
+      where: { examScoreId, status: RegradeRequestStatus.PENDING },
+      select: { id: true },
+    })
+    if (pending) {
+      return NextResponse.json({ error: "You already have a pending request for this score" }, { status: 400 })
+    }
+
+    const created = await prisma.examRegradeRequest.create({
+      data: {
+        examScoreId,
+        studentId: user.id,
+        comment,
+        previousScore: examScore.score,
+      },
+    })
+
+    notifyRegradeRequested({
+      studentId: user.id,
+      studentName: examScore.student.name,
+      examSection: examScore.exam.examSection.displayName,
+      comment,
+    }).catch(() => {})
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -2,6 +2,8 @@ import { NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { canManageExams } from "@/lib/roles"
+import { toRawPercentage } from "@/lib/exam-grading"
+import { applyExamCurve } from "@/lib/exam-scores"
 
 
 // PATCH /api/exam-scores/[id] - Update an exam score (SUPER_ADMIN and SERVANT_PREP only, PRIEST is read-only)
@@ -69,16 +71,18 @@ export async function PATCH(
       )
     }
 
-    const percentage = (score / examScore.exam.totalPoints) * 100
+    const rawPercentage = toRawPercentage(score, examScore.exam.totalPoints)
 
     const updateData: {
       score: number
       percentage: number
+      rawPercentage: number
       gradedBy: string
       notes?: string | null
     } = {
       score,
-      percentage,
+      percentage: rawPercentage,
+      rawPercentage,
       gradedBy: user.id,
     }
 
@@ -99,6 +103,12 @@ export async function PATCH(
       }
     })
 
+    // A curved exam is re-curved as a whole (a new top score moves scale-to-max curves)
+    if (examScore.exam.curveType) {
+      const curved = await applyExamCurve(examScore.examId)
+      return NextResponse.json({ ...updatedScore, percentage: curved.get(updatedScore.studentId) ?? rawPercentage })
+    }
+
     return NextResponse.json(updatedScore)
   } catch (error: unknown) {
     return NextResponse.json(
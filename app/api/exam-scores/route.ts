@@ -3,14 +3,19 @@ import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { UserRole } from "@prisma/client"
 import { isAdmin } from "@/lib/roles"
+import { canSeeUnreleasedScores, releasedExamWhere } from "@/lib/exam-release"
 
 // GET /api/exam-scores - List all exam scores (Admins see all, Mentors see only their mentees)
+// Students and mentors only see scores of released exams.
 export async function GET() {
   try {
     const user = await requireAuth()
 
     // Build where clause based on role
-    const where: { studentId?: string | { in: string[] } } = {}
+    const where: {
+      studentId?: string | { in: string[] }
+      exam?: ReturnType<typeof releasedExamWhere>
+    } = {}
 
     // If MENTOR role, restrict to only their mentees
     if (user.role === UserRole.MENTOR) {
@@ -33,6 +38,10 @@ export async function GET() {
       where.studentId = user.id
     }
 
+    if (!canSeeUnreleasedScores(user.role)) {
+      where.exam = releasedExamWhere()
+    }
+
     const scores = await prisma.examScore.findMany({
       where,
       include: {
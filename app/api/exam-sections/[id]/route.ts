@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { parseWeightInput } from "@/lib/exam-grading"
+
+// PATCH /api/exam-sections/[id] - Set a section's weight in the overall exam average
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { weight }
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const weight = parseWeightInput(body.weight)
+    if (weight.error) {
+      return NextResponse.json({ error: weight.error }, { status: 400 })
+    }
+
+    const section = await prisma.examSection.findUnique({ where: { id }, select: { id: true } })
+    if (!section) {
+      return NextResponse.json({ error: "Exam section not found" }, { status: 404 })
+    }
+
+    const updated = await prisma.examSection.update({
+      where: { id },
+      data: { weight: weight.data },
+    })
+
+    return NextResponse.json(updated)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { EXAM_SITTING_SELECT, resolveEffectiveScores } from "@/lib/exam-retakes"
+import {
+  calculateScoreStatistics,
+  calculateYearLevelStatistics,
+  yearLevelAtExam,
+} from "@/lib/exam-statistics"
+
+// GET /api/exam-sections/[id]/statistics - Compare one exam section across academic years
+// Auth: SUPER_ADMIN, SERVANT_PREP, PRIEST
+// Each year summarizes the effective score (after makeups and retakes) of
+// every student on every exam of the section that year.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const section = await prisma.examSection.findUnique({
+      where: { id },
+      select: { id: true, name: true, displayName: true, passingScore: true },
+    })
+
+    if (!section) {
+      return NextResponse.json({ error: "Exam section not found" }, { status: 404 })
+    }
+
+    const [academicYears, scores] = await Promise.all([
+      prisma.academicYear.findMany({
+        where: { exams: { some: { examSectionId: id } } },
+        select: {
+          id: true,
+          name: true,
+          startDate: true,
+          _count: { select: { exams: { where: { examSectionId: id, sittingType: "REGULAR" } } } },
+        },
+        orderBy: { startDate: "asc" },
+      }),
+      prisma.examScore.findMany({
+        where: { exam: { examSectionId: id } },
+        select: {
+          studentId: true,
+          score: true,
+          percentage: true,
+          exam: { select: { ...EXAM_SITTING_SELECT, academicYearId: true } },
+          student: {
+            select: {
+              enrollments: { select: { academicYearId: true, yearLevel: true } },
+            },
+          },
+        },
+      }),
+    ])
+
+    const effectiveScores = resolveEffectiveScores(scores)
+
+    const years = academicYears.map(year => {
+      const yearScores = effectiveScores
+        .filter(s => s.base.exam.academicYearId === year.id)
+        .map(s => ({
+          percentage: s.percentage,
+          yearLevel: yearLevelAtExam(s.base.student.enrollments[0] ?? null, year.id),
+        }))
+      return {
+        academicYearId: year.id,
+        name: year.name,
+        startDate: year.startDate,
+        examCount: year._count.exams,
+        statistics: calculateScoreStatistics(yearScores.map(s => s.percentage), section.passingScore),
+        byYearLevel: calculateYearLevelStatistics(yearScores, section.passingScore),
+      }
+    })
+
+    return NextResponse.json({ section, years })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,174 @@
+import { NextResponse } from "next/server"
+import { ExamAttemptStatus } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isStudent } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { notifyGradePosted } from "@/lib/notifications"
+import {
+  closeExpiredAttempt,
+  getAttemptExpiry,
+  isExamOpenToStudent,
+  toStudentQuestion,
+} from "@/lib/exam-taking"
+import { isSittingOpenToStudent } from "@/lib/exam-retakes"
+import { isExamReleased } from "@/lib/exam-release"
+
+async function loadExamForStudent(examId: string, studentId: string) {
+  const [exam, enrollment] = await Promise.all([
+    prisma.exam.findUnique({
+      where: { id: examId },
+      include: {
+        examSection: { select: { displayName: true } },
+        questions: { orderBy: { order: 'asc' } },
+        originalExam: {
+          select: { scores: { where: { studentId }, select: { id: true } } },
+        },
+      },
+    }),
+    prisma.studentEnrollment.findUnique({
+      where: { studentId },
+      select: { yearLevel: true, isActive: true },
+    }),
+  ])
+
+  if (!exam || !isExamOpenToStudent(exam, enrollment)) return null
+  // Makeups are only for students who missed the original, retakes only for those who sat it
+  if (!isSittingOpenToStudent(exam, !!exam.originalExam?.scores.length)) return null
+  return exam
+}
+
+type StudentExam = NonNullable<Awaited<ReturnType<typeof loadExamForStudent>>>
+
+// The attempt as the student sees it: no answer keys, and grades only once
+// final and released
+async function buildAttemptView(exam: StudentExam, attemptId: string) {
+  const attempt = await prisma.examAttempt.findUniqueOrThrow({
+    where: { id: attemptId },
+    include: { answers: true },
+  })
+  const graded = attempt.status === ExamAttemptStatus.GRADED && isExamReleased(exam)
+  const score = graded
+    ? await prisma.examScore.findUnique({
+        where: { examId_studentId: { examId: exam.id, studentId: attempt.studentId } },
+        select: { score: true, percentage: true },
+      })
+    : null
+
+  return {
+    exam: {
+      id: exam.id,
+      examSection: exam.examSection,
+      examDate: exam.examDate,
+      totalPoints: exam.totalPoints,
+      durationMinutes: exam.durationMinutes,
+    },
+    attempt: {
+      id: attempt.id,
+      status: attempt.status,
+      startedAt: attempt.startedAt,
+      expiresAt: attempt.expiresAt,
+      submittedAt: attempt.submittedAt,
+    },
+    questions: exam.questions.map(toStudentQuestion),
+    answers: attempt.answers.map(answer => ({
+      questionId: answer.questionId,
+      response: answer.response,
+      ...(graded && {
+        isCorrect: answer.isCorrect,
+        pointsAwarded: answer.pointsAwarded,
+        feedback: answer.feedback,
+      }),
+    })),
+    score,
+  }
+}
+
+// GET /api/exams/[id]/attempt - The signed-in student's attempt at an online exam
+// Auth: STUDENT
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!isStudent(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const exam = await loadExamForStudent(id, user.id)
+    if (!exam) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    const attempt = await prisma.examAttempt.findUnique({
+      where: { examId_studentId: { examId: id, studentId: user.id } },
+    })
+    if (!attempt) {
+      return NextResponse.json({ error: "You haven't started this exam" }, { status: 404 })
+    }
+
+    const { result } = await closeExpiredAttempt(attempt)
+    if (result?.notify) notifyGradePosted(result).catch(() => {})
+
+    return NextResponse.json(await buildAttemptView(exam, attempt.id))
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/exams/[id]/attempt - Start the online exam, or resume an attempt in progress
+// Auth: STUDENT
+// The timer starts now; the attempt closes automatically when it runs out.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!isStudent(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const exam = await loadExamForStudent(id, user.id)
+    if (!exam) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    const existing = await prisma.examAttempt.findUnique({
+      where: { examId_studentId: { examId: id, studentId: user.id } },
+    })
+
+    if (existing) {
+      const { result } = await closeExpiredAttempt(existing)
+      if (result?.notify) notifyGradePosted(result).catch(() => {})
+      return NextResponse.json(await buildAttemptView(exam, existing.id))
+    }
+
+    // A score typed in from a paper exam means the exam was already taken
+    const score = await prisma.examScore.findUnique({
+      where: { examId_studentId: { examId: id, studentId: user.id } },
+    })
+    if (score) {
+      return NextResponse.json({ error: "You already have a score for this exam" }, { status: 400 })
+    }
+
+    const startedAt = new Date()
+    const attempt = await prisma.examAttempt.create({
+      data: {
+        examId: id,
+        studentId: user.id,
+        startedAt,
+        expiresAt: getAttemptExpiry(startedAt, exam.durationMinutes),
+      },
+    })
+
+    return NextResponse.json(await buildAttemptView(exam, attempt.id), { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
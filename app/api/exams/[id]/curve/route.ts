@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { parseExamCurveInput } from "@/lib/exam-grading"
+import { applyExamCurve } from "@/lib/exam-scores"
+
+// PUT /api/exams/[id]/curve - Apply, change or remove an exam's curve
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { curveType: "ADD_POINTS" | "SCALE_TO_MAX" | "SQUARE_ROOT" | null, curveValue? }
+// Every score's curved percentage is recomputed from its raw percentage;
+// a null curveType puts the raw percentages back.
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const exam = await prisma.exam.findUnique({
+      where: { id },
+      select: { id: true, totalPoints: true },
+    })
+    if (!exam) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    const curve = parseExamCurveInput(body, exam.totalPoints)
+    if (curve.error || !curve.data) {
+      return NextResponse.json({ error: curve.error }, { status: 400 })
+    }
+    const curveData = curve.data
+
+    const curved = await prisma.$transaction(async (tx) => {
+      await tx.exam.update({ where: { id }, data: curveData })
+      return applyExamCurve(id, tx)
+    })
+
+    return NextResponse.json({
+      ...curveData,
+      scores: Object.fromEntries(curved),
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
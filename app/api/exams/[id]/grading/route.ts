@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { ExamAttemptStatus } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+
+// GET /api/exams/[id]/grading - Manual grading queue for an online exam
+// Auth: Admins
+// Returns answers waiting on a grader, and hand-graded answers so they can be revised.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const answers = await prisma.examAnswer.findMany({
+      where: {
+        attempt: { examId: id, status: { not: ExamAttemptStatus.IN_PROGRESS } },
+        OR: [{ pointsAwarded: null }, { gradedBy: { not: null } }],
+      },
+      include: {
+        question: { select: { id: true, order: true, type: true, prompt: true, points: true } },
+        attempt: {
+          select: {
+            id: true,
+            submittedAt: true,
+            student: { select: { id: true, name: true } },
+          },
+        },
+        grader: { select: { id: true, name: true } },
+      },
+      orderBy: [{ question: { order: 'asc' } }, { attempt: { submittedAt: 'asc' } }],
+    })
+
+    return NextResponse.json({
+      pending: answers.filter(a => a.pointsAwarded === null),
+      graded: answers.filter(a => a.pointsAwarded !== null),
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { addBankQuestionsToExam, parseBankSampleInput, sampleQuestions } from "@/lib/question-bank"
+
+// POST /api/exams/[id]/questions/from-bank - Add bank questions to the end of an exam
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { questionIds } to pick, or { count, lessonId?, difficulty? } to sample at random
+// Only the exam's section's active questions not already on the exam are used.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id: examId } = await params
+    const exam = await prisma.exam.findUnique({
+      where: { id: examId },
+      select: {
+        id: true,
+        examSectionId: true,
+        _count: { select: { attempts: true } },
+        questions: { select: { bankQuestionId: true } },
+      },
+    })
+
+    if (!exam) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    // Changing the paper after students start would make their grades inconsistent
+    if (exam._count.attempts > 0) {
+      return NextResponse.json(
+        { error: "Questions can't be changed once students have started this exam" },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const alreadyOnExam = exam.questions
+      .map(q => q.bankQuestionId)
+      .filter((id): id is string => id !== null)
+    const available = {
+      examSectionId: exam.examSectionId,
+      isArchived: false,
+      id: { notIn: alreadyOnExam },
+    }
+
+    let bankQuestionIds: string[]
+    if (body.questionIds !== undefined) {
+      if (!Array.isArray(body.questionIds) || body.questionIds.length === 0 ||
+          body.questionIds.some((id: unknown) => typeof id !== "string")) {
+        return NextResponse.json({ error: "Select at least one question" }, { status: 400 })
+      }
+      const found = await prisma.bankQuestion.findMany({
+        where: { ...available, id: { in: body.questionIds, notIn: alreadyOnExam } },
+        select: { id: true },
+      })
+      const foundIds = new Set(found.map(q => q.id))
+      // Keep the order the questions were picked in, each question once
+      bankQuestionIds = [...new Set(body.questionIds as string[])].filter(id => foundIds.has(id))
+    } else {
+      const { data, error } = parseBankSampleInput(body)
+      if (!data) {
+        return NextResponse.json({ error }, { status: 400 })
+      }
+      const candidates = await prisma.bankQuestion.findMany({
+        where: {
+          ...available,
+          ...(data.lessonId && { lessonId: data.lessonId }),
+          ...(data.difficulty && { difficulty: data.difficulty }),
+        },
+        select: { id: true },
+      })
+      bankQuestionIds = sampleQuestions(candidates, data.count).map(q => q.id)
+    }
+
+    if (bankQuestionIds.length === 0) {
+      return NextResponse.json({ error: "No matching bank questions are available for this exam" }, { status: 400 })
+    }
+
+    const questions = await addBankQuestionsToExam(examId, bankQuestionIds)
+
+    return NextResponse.json(questions, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin, canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { parseExamQuestionInput } from "@/lib/exam-taking"
+
+// GET /api/exams/[id]/questions - List an exam's questions with answer keys
+// Auth: Admins (students get questions without keys from /api/exams/[id]/attempt)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const [questions, attemptCount] = await Promise.all([
+      prisma.examQuestion.findMany({
+        where: { examId: id },
+        orderBy: { order: 'asc' },
+      }),
+      prisma.examAttempt.count({ where: { examId: id } }),
+    ])
+
+    return NextResponse.json({ questions, attemptCount })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/exams/[id]/questions - Add a question to the end of an exam
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { type, prompt, options?, answerKey?, points? }
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id: examId } = await params
+    const { data, error } = parseExamQuestionInput(await request.json())
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const exam = await prisma.exam.findUnique({
+      where: { id: examId },
+      select: { id: true, _count: { select: { attempts: true } } },
+    })
+
+    if (!exam) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    // Changing the paper after students start would make their grades inconsistent
+    if (exam._count.attempts > 0) {
+      return NextResponse.json(
+        { error: "Questions can't be changed once students have started this exam" },
+        { status: 400 }
+      )
+    }
+
+    const last = await prisma.examQuestion.findFirst({
+      where: { examId },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    })
+
+    const question = await prisma.examQuestion.create({
+      data: { ...data, examId, order: (last?.order ?? 0) + 1 },
+    })
+
+    return NextResponse.json(question, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
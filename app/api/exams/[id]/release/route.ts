@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { notifyGradesPosted } from "@/lib/notifications"
+import { parseReleaseInput } from "@/lib/exam-release"
+import { releaseExamScores } from "@/lib/exam-scores"
+
+// PUT /api/exams/[id]/release - Release an exam's scores now, schedule the release, or hide them
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { releaseStatus: "DRAFT" | "SCHEDULED" | "RELEASED", releaseAt? }
+// Releasing notifies every student with a score in one batch.
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+
+    const release = parseReleaseInput(body)
+    if (release.error || !release.data) {
+      return NextResponse.json({ error: release.error }, { status: 400 })
+    }
+
+    const exam = await prisma.exam.findUnique({ where: { id }, select: { id: true } })
+    if (!exam) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    if (release.data.releaseStatus === "RELEASED") {
+      const released = await releaseExamScores(id)
+      if (released) {
+        notifyGradesPosted({
+          examSection: released.examSection,
+          grades: released.grades,
+        }).catch(() => {})
+      }
+    } else {
+      await prisma.exam.update({
+        where: { id },
+        data: { ...release.data, releasedAt: null },
+      })
+    }
+
+    const updated = await prisma.exam.findUniqueOrThrow({
+      where: { id },
+      select: { id: true, releaseStatus: true, releaseAt: true, releasedAt: true },
+    })
+    return NextResponse.json(updated)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -3,6 +3,10 @@ import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { prisma } from "@/lib/prisma"
 import { canManageExams } from "@/lib/roles"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import { parseWeightInput } from "@/lib/exam-grading"
+import { checkExamDate, releaseExamDayLesson, syncExamDayLesson } from "@/lib/exam-calendar"
 
 // DELETE /api/exams/[id] - Delete an exam (SUPER_ADMIN and SERVANT_PREP only, PRIEST is read-only)
 export async function DELETE(
@@ -46,14 +50,21 @@ export async function DELETE(
       )
     }
 
-    // Delete all associated scores first
-    await prisma.examScore.deleteMany({
-      where: { examId }
-    })
+    await prisma.$transaction(async (tx) => {
+      // Delete all associated scores first
+      await tx.examScore.deleteMany({
+        where: { examId }
+      })
+
+      // The exam-day lesson goes back to a regular lesson once no exam uses it
+      if (exam.lessonId) {
+        await releaseExamDayLesson(tx, exam.lessonId, examId)
+      }
 
-    // Delete the exam
-    await prisma.exam.delete({
-      where: { id: examId }
+      // Delete the exam
+      await tx.exam.delete({
+        where: { id: examId }
+      })
     })
 
     return NextResponse.json(
@@ -67,3 +78,104 @@ export async function DELETE(
     )
   }
 }
+
+// PATCH /api/exams/[id] - Update the date, online exam settings and grading weight (SUPER_ADMIN and SERVANT_PREP only)
+// Body: { examDate?, confirmConflicts?, onlineEnabled?, durationMinutes?, weight? }
+// A weight change carries over to the exam's makeup and retake sittings. A new date is checked
+// like POST /api/exams, and a regular exam's exam-day lesson moves to the new date's lesson.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data: { examDate?: Date; onlineEnabled?: boolean; durationMinutes?: number | null; weight?: number } = {}
+
+    if (body.examDate !== undefined) {
+      const examDate = new Date(body.examDate)
+      if (isNaN(examDate.getTime())) {
+        return NextResponse.json({ error: "Invalid exam date" }, { status: 400 })
+      }
+      data.examDate = examDate
+    }
+
+    if (body.durationMinutes !== undefined) {
+      if (body.durationMinutes !== null && (!Number.isInteger(body.durationMinutes) || body.durationMinutes <= 0)) {
+        return NextResponse.json({ error: "Duration must be a whole number of minutes" }, { status: 400 })
+      }
+      data.durationMinutes = body.durationMinutes
+    }
+
+    if (body.onlineEnabled !== undefined) {
+      data.onlineEnabled = !!body.onlineEnabled
+    }
+
+    if (body.weight !== undefined) {
+      const weight = parseWeightInput(body.weight)
+      if (weight.error) {
+        return NextResponse.json({ error: weight.error }, { status: 400 })
+      }
+      data.weight = weight.data
+    }
+
+    const exam = await prisma.exam.findUnique({
+      where: { id },
+      include: { _count: { select: { questions: true } } },
+    })
+
+    if (!exam) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    if (data.onlineEnabled && exam._count.questions === 0) {
+      return NextResponse.json({ error: "Add questions before opening the exam online" }, { status: 400 })
+    }
+
+    if (data.weight !== undefined && exam.originalExamId) {
+      return NextResponse.json({ error: "Set the weight on the original exam" }, { status: 400 })
+    }
+
+    if (data.examDate) {
+      const conflicts = await checkExamDate({
+        academicYearId: exam.academicYearId,
+        examDate: data.examDate,
+        yearLevel: exam.yearLevel,
+      })
+      const blocking = conflicts?.find(c => c.severity === "error")
+      if (blocking) {
+        return NextResponse.json({ error: blocking.message, conflicts }, { status: 400 })
+      }
+      if (conflicts && conflicts.length > 0 && body.confirmConflicts !== true) {
+        return NextResponse.json(
+          { error: "This date conflicts with the calendar", conflicts },
+          { status: 409 }
+        )
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (data.weight !== undefined) {
+        await tx.exam.updateMany({ where: { originalExamId: id }, data: { weight: data.weight } })
+      }
+      await tx.exam.update({ where: { id }, data })
+      if (data.examDate) {
+        await syncExamDayLesson(tx, id, user.id)
+      }
+      return tx.exam.findUniqueOrThrow({
+        where: { id },
+        include: { examSection: true, _count: { select: { scores: true, questions: true } } },
+      })
+    })
+
+    return NextResponse.json(updated)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
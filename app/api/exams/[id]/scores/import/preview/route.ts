@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server"
+import * as XLSX from "@e965/xlsx"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { MAX_UPLOAD_SIZE } from "@/lib/file-storage"
+import { getExamRoster } from "@/lib/exam-scores"
+import { matchScoreRow, parseScoreSheet } from "@/lib/exam-score-import"
+
+const SPREADSHEET_EXTENSIONS = /\.(xlsx|xls|csv)$/i
+
+// POST /api/exams/[id]/scores/import/preview - Parse a score spreadsheet and match rows to students
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: multipart form with `file` (XLSX/CSV)
+// Nothing is saved; the admin reviews the matches and the diff, then commits via /api/exams/[id]/scores/import.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const formData = await request.formData()
+    const file = formData.get("file") as File | null
+
+    if (!file) {
+      return NextResponse.json({ error: "A spreadsheet is required" }, { status: 400 })
+    }
+    if (!SPREADSHEET_EXTENSIONS.test(file.name)) {
+      return NextResponse.json({ error: "Upload an .xlsx, .xls or .csv file" }, { status: 400 })
+    }
+    if (file.size > MAX_UPLOAD_SIZE) {
+      return NextResponse.json({ error: "File size exceeds 4.5 MB limit" }, { status: 400 })
+    }
+
+    const roster = await getExamRoster(id)
+    if (!roster) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    const workbook = XLSX.read(Buffer.from(await file.arrayBuffer()), { type: "buffer" })
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    const data = XLSX.utils.sheet_to_json(sheet, { header: 1, defval: null }) as unknown[][]
+
+    const { rows, error } = parseScoreSheet(data)
+    if (!rows) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const existing = await prisma.examScore.findMany({
+      where: { examId: id },
+      select: { studentId: true, score: true },
+    })
+
+    return NextResponse.json({
+      rows,
+      totalPoints: roster.exam.totalPoints,
+      students: roster.students.map(({ id, name }) => ({ id, name })),
+      existingScores: Object.fromEntries(existing.map(s => [s.studentId, s.score])),
+      matches: Object.fromEntries(rows.map(row => [row.rowNumber, matchScoreRow(row, roster.students)])),
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { notifyGradesPosted } from "@/lib/notifications"
+import { getExamRoster, saveImportedScores } from "@/lib/exam-scores"
+import { notifiesOnScoreSave } from "@/lib/exam-release"
+import type { ScoreImportEntry } from "@/lib/exam-score-import"
+
+// POST /api/exams/[id]/scores/import - Save confirmed spreadsheet scores for an exam
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { scores: [{ studentId, score, notes? }] }
+// All or nothing: any invalid score rejects the import. Students with a new
+// or changed score are notified in one batch, or on release if the exam's
+// scores are hidden.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const scores: ScoreImportEntry[] = body.scores
+    if (!Array.isArray(scores) || scores.length === 0) {
+      return NextResponse.json({ error: "No scores to import" }, { status: 400 })
+    }
+    if (scores.some(s => typeof s?.studentId !== "string")) {
+      return NextResponse.json({ error: "Each score needs a studentId" }, { status: 400 })
+    }
+
+    const roster = await getExamRoster(id)
+    if (!roster) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    const { data, error, invalid } = await saveImportedScores(roster.exam, roster.students, scores, user.id)
+    if (!data) {
+      return NextResponse.json({ error, invalid }, { status: 400 })
+    }
+
+    if (notifiesOnScoreSave(roster.exam)) {
+      notifyGradesPosted({
+        examSection: roster.exam.examSection.displayName,
+        grades: data.posted,
+      }).catch(() => {})
+    }
+
+    return NextResponse.json({ created: data.created, updated: data.updated })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -4,9 +4,12 @@ import { requireAuth } from "@/lib/auth-helpers"
 import { UserRole } from "@prisma/client"
 import { isAdmin, canManageExams } from "@/lib/roles"
 import { notifyGradePosted } from "@/lib/notifications"
+import { toRawPercentage } from "@/lib/exam-grading"
+import { applyExamCurve } from "@/lib/exam-scores"
+import { notifiesOnScoreSave, releasedExamWhere } from "@/lib/exam-release"
 
 
-// GET /api/exams/[id]/scores - Get scores for an exam (Admins see all, Mentors see only their mentees)
+// GET /api/exams/[id]/scores - Get scores for an exam (Admins see all, Mentors see only their mentees once released)
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -16,9 +19,13 @@ export async function GET(
     const { id } = await params
 
     // Build where clause based on role
-    const where: { examId: string; student?: { enrollments: { some: { mentorId: string } } } } = { examId: id }
+    const where: {
+      examId: string
+      student?: { enrollments: { some: { mentorId: string } } }
+      exam?: ReturnType<typeof releasedExamWhere>
+    } = { examId: id }
 
-    // If MENTOR role, restrict to only their mentees
+    // If MENTOR role, restrict to only their mentees, and only released scores
     if (user.role === UserRole.MENTOR) {
       where.student = {
         enrollments: {
@@ -27,6 +34,7 @@ export async function GET(
           }
         }
       }
+      where.exam = releasedExamWhere()
     } else if (!isAdmin(user.role)) {
       // Non-admin, non-mentor roles are forbidden
       return NextResponse.json(
@@ -104,7 +112,7 @@ export async function POST(
       )
     }
 
-    const percentage = (score / exam.totalPoints) * 100
+    const rawPercentage = toRawPercentage(score, exam.totalPoints)
 
     // Check if score already exists
     const existing = await prisma.examScore.findUnique({
@@ -134,7 +142,8 @@ export async function POST(
         examId,
         studentId,
         score,
-        percentage,
+        percentage: rawPercentage,
+        rawPercentage,
         notes: notes || null,
         gradedBy: user.id,
       },
@@ -148,15 +157,22 @@ export async function POST(
       }
     })
 
-    // Send notification (non-blocking)
-    notifyGradePosted({
-      studentId,
-      studentName: examScore.student.name,
-      examSection: examWithSection?.examSection?.displayName || 'Exam',
-      percentage,
-    }).catch(() => {})
+    // A curved exam is re-curved as a whole (a new top score moves scale-to-max curves)
+    const percentage = exam.curveType
+      ? (await applyExamCurve(examId)).get(studentId) ?? rawPercentage
+      : rawPercentage
+
+    // Send notification (non-blocking); hidden and scheduled exams notify on release instead
+    if (notifiesOnScoreSave(exam)) {
+      notifyGradePosted({
+        studentId,
+        studentName: examScore.student.name,
+        examSection: examWithSection?.examSection?.displayName || 'Exam',
+        percentage,
+      }).catch(() => {})
+    }
 
-    return NextResponse.json(examScore, { status: 201 })
+    return NextResponse.json({ ...examScore, percentage }, { status: 201 })
   } catch (error: unknown) {
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Failed to create exam score" },
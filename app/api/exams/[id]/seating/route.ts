@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams, isAdmin } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { getExamSeatingRoster, saveExamSeating } from "@/lib/exam-scores"
+import { assignSeats, parseSeatingInput } from "@/lib/exam-seating"
+
+// GET /api/exams/[id]/seating - The exam's roster with seats and attendance flags
+// Auth: SUPER_ADMIN, SERVANT_PREP, PRIEST
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const roster = await getExamSeatingRoster(id)
+    if (!roster) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(roster)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/exams/[id]/seating - Generate a new random seating chart
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { seatsPerRow? }
+// Replaces the current chart. Flagged students (async, or expected to be
+// absent on the exam date) are not seated.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const input = parseSeatingInput(body)
+    if (input.error || !input.data) {
+      return NextResponse.json({ error: input.error }, { status: 400 })
+    }
+
+    const roster = await getExamSeatingRoster(id)
+    if (!roster) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    const seated = roster.students.filter(s => s.flags.length === 0).map(s => s.id)
+    await saveExamSeating(id, assignSeats(seated, input.data.seatsPerRow))
+
+    return NextResponse.json(await getExamSeatingRoster(id))
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
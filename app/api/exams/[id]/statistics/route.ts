@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import {
+  analyzeQuestions,
+  calculateScoreStatistics,
+  calculateYearLevelStatistics,
+  yearLevelAtExam,
+} from "@/lib/exam-statistics"
+
+// GET /api/exams/[id]/statistics - Score distribution and summary statistics for one exam
+// Auth: SUPER_ADMIN, SERVANT_PREP, PRIEST
+// Uses the percentages that count (curved when the exam has a curve); a curved
+// exam also reports the raw statistics. Pass rate is against the section's passing score.
+// Exams taken online also get a per-question item analysis.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const exam = await prisma.exam.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        academicYearId: true,
+        examDate: true,
+        totalPoints: true,
+        yearLevel: true,
+        sittingType: true,
+        curveType: true,
+        examSection: { select: { id: true, displayName: true, passingScore: true } },
+        questions: { select: { id: true, order: true, type: true, prompt: true, options: true, points: true } },
+        scores: {
+          select: {
+            percentage: true,
+            rawPercentage: true,
+            student: {
+              select: {
+                enrollments: { select: { academicYearId: true, yearLevel: true } },
+              },
+            },
+          },
+        },
+      },
+    })
+
+    if (!exam) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    const answers = exam.questions.length > 0
+      ? await prisma.examAnswer.findMany({
+          where: { attempt: { examId: id, status: { not: "IN_PROGRESS" } } },
+          select: { questionId: true, response: true, pointsAwarded: true },
+        })
+      : []
+
+    const passingScore = exam.examSection.passingScore
+    const percentages = exam.scores.map(s => s.percentage)
+    const byYearLevel = calculateYearLevelStatistics(
+      exam.scores.map(s => ({
+        percentage: s.percentage,
+        yearLevel: yearLevelAtExam(s.student.enrollments[0] ?? null, exam.academicYearId),
+      })),
+      passingScore
+    )
+
+    return NextResponse.json({
+      exam: {
+        id: exam.id,
+        examDate: exam.examDate,
+        totalPoints: exam.totalPoints,
+        yearLevel: exam.yearLevel,
+        sittingType: exam.sittingType,
+        examSection: exam.examSection,
+      },
+      statistics: calculateScoreStatistics(percentages, passingScore),
+      rawStatistics: exam.curveType
+        ? calculateScoreStatistics(exam.scores.map(s => s.rawPercentage ?? s.percentage), passingScore)
+        : null,
+      byYearLevel,
+      questions: analyzeQuestions(exam.questions, answers),
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
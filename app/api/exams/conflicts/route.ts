@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { ExamYearLevel } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { checkExamDate } from "@/lib/exam-calendar"
+
+// GET /api/exams/conflicts - Check a proposed exam date against the calendar
+// Auth: Admins
+// Query: examDate and either originalExamId (makeups and retakes) or academicYearId + yearLevel
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const examDate = new Date(searchParams.get("examDate") ?? "")
+    const originalExamId = searchParams.get("originalExamId")
+    let academicYearId = searchParams.get("academicYearId")
+    let yearLevel = searchParams.get("yearLevel") ?? "BOTH"
+
+    if (isNaN(examDate.getTime())) {
+      return NextResponse.json({ error: "A valid examDate is required" }, { status: 400 })
+    }
+
+    if (originalExamId) {
+      const original = await prisma.exam.findUnique({
+        where: { id: originalExamId },
+        select: { academicYearId: true, yearLevel: true },
+      })
+      if (!original) {
+        return NextResponse.json({ error: "Original exam not found" }, { status: 404 })
+      }
+      academicYearId = original.academicYearId
+      yearLevel = original.yearLevel
+    }
+
+    if (!academicYearId) {
+      return NextResponse.json({ error: "academicYearId is required" }, { status: 400 })
+    }
+    if (!Object.values(ExamYearLevel).includes(yearLevel as ExamYearLevel)) {
+      return NextResponse.json({ error: "Invalid yearLevel" }, { status: 400 })
+    }
+
+    const conflicts = await checkExamDate({
+      academicYearId,
+      examDate,
+      yearLevel: yearLevel as ExamYearLevel,
+    })
+    if (!conflicts) {
+      return NextResponse.json({ error: "Academic year not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ conflicts })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
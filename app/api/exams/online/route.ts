@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isStudent } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { notifyGradePosted } from "@/lib/notifications"
+import { closeExpiredAttempt, isExamOpenToStudent } from "@/lib/exam-taking"
+import { isSittingOpenToStudent } from "@/lib/exam-retakes"
+import { isExamReleased } from "@/lib/exam-release"
+
+// GET /api/exams/online - Online exams the signed-in student can take, with their attempt status
+// Auth: STUDENT
+export async function GET() {
+  try {
+    const user = await requireAuth()
+
+    if (!isStudent(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const enrollment = await prisma.studentEnrollment.findUnique({
+      where: { studentId: user.id },
+      select: { yearLevel: true, isActive: true },
+    })
+
+    const exams = await prisma.exam.findMany({
+      where: { onlineEnabled: true, academicYear: { isActive: true } },
+      include: {
+        examSection: { select: { displayName: true } },
+        _count: { select: { questions: true } },
+        attempts: {
+          where: { studentId: user.id },
+          select: { id: true, status: true, startedAt: true, expiresAt: true, submittedAt: true },
+        },
+        scores: {
+          where: { studentId: user.id },
+          select: { score: true, percentage: true },
+        },
+        originalExam: {
+          select: { scores: { where: { studentId: user.id }, select: { id: true } } },
+        },
+      },
+      orderBy: { examDate: 'asc' },
+    })
+
+    const available = []
+    for (const { attempts, scores, originalExam, ...exam } of exams) {
+      if (!isExamOpenToStudent(exam, enrollment)) continue
+      if (!isSittingOpenToStudent(exam, !!originalExam?.scores.length)) continue
+
+      let attempt = attempts[0] ?? null
+      const released = isExamReleased(exam)
+      let score = released ? scores[0] ?? null : null
+      if (attempt) {
+        // Time ran out since the student last looked: grade what they saved
+        const { closed, result } = await closeExpiredAttempt(attempt)
+        if (closed) {
+          attempt = await prisma.examAttempt.findUniqueOrThrow({
+            where: { id: attempt.id },
+            select: { id: true, status: true, startedAt: true, expiresAt: true, submittedAt: true },
+          })
+        }
+        if (result?.released) score = { score: result.score, percentage: result.percentage }
+        if (result?.notify) notifyGradePosted(result).catch(() => {})
+      }
+
+      available.push({ ...exam, attempt, score })
+    }
+
+    return NextResponse.json(available)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
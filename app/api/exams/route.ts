@@ -2,6 +2,10 @@ import { NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { canManageExams } from "@/lib/roles"
+import { parseExamSittingInput } from "@/lib/exam-retakes"
+import { parseWeightInput } from "@/lib/exam-grading"
+import { parseReleaseInput, type ExamReleaseInput } from "@/lib/exam-release"
+import { checkExamDate, syncExamDayLesson } from "@/lib/exam-calendar"
 
 
 // GET /api/exams - List exams
@@ -27,9 +31,16 @@ export async function GET(request: Request) {
             name: true,
           }
         },
+        originalExam: {
+          select: {
+            id: true,
+            examDate: true,
+          }
+        },
         _count: {
           select: {
-            scores: true
+            scores: true,
+            questions: true,
           }
         }
       },
@@ -48,6 +59,12 @@ export async function GET(request: Request) {
 }
 
 // POST /api/exams - Create a new exam (SUPER_ADMIN and SERVANT_PREP only, PRIEST is read-only)
+// Body: { academicYearId, examSectionId, yearLevel, examDate, totalPoints?, weight?, sittingType?, originalExamId?, releaseStatus?, releaseAt?, confirmConflicts? }
+// A MAKEUP or RETAKE sitting takes its year, section, year level and weight from the original exam.
+// Without releaseStatus, scores are visible to students as soon as they're saved.
+// Dates outside the academic year are rejected; other calendar conflicts return 409 with the
+// conflicts until the request is resent with confirmConflicts. A REGULAR exam flags (or creates)
+// that day's lesson as its exam day.
 export async function POST(request: Request) {
   try {
     const user = await requireAuth()
@@ -61,7 +78,51 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json()
-    const { academicYearId, examSectionId, yearLevel, examDate, totalPoints } = body
+    let { academicYearId, examSectionId, yearLevel } = body
+    const { examDate, totalPoints } = body
+
+    const sitting = parseExamSittingInput(body)
+    if (sitting.error || !sitting.data) {
+      return NextResponse.json({ error: sitting.error }, { status: 400 })
+    }
+
+    let weight = 1
+    if (body.weight !== undefined) {
+      const parsed = parseWeightInput(body.weight)
+      if (parsed.error || parsed.data === undefined) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      weight = parsed.data
+    }
+
+    let release: ExamReleaseInput = { releaseStatus: "RELEASED", releaseAt: null }
+    if (body.releaseStatus !== undefined) {
+      const parsed = parseReleaseInput(body)
+      if (parsed.error || !parsed.data) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 })
+      }
+      release = parsed.data
+    }
+
+    if (sitting.data.originalExamId) {
+      const original = await prisma.exam.findUnique({
+        where: { id: sitting.data.originalExamId },
+        select: { academicYearId: true, examSectionId: true, yearLevel: true, weight: true, sittingType: true },
+      })
+      if (!original) {
+        return NextResponse.json({ error: "Original exam not found" }, { status: 404 })
+      }
+      if (original.sittingType !== "REGULAR") {
+        return NextResponse.json(
+          { error: "Link makeups and retakes to the regular exam, not another sitting" },
+          { status: 400 }
+        )
+      }
+      academicYearId = original.academicYearId
+      examSectionId = original.examSectionId
+      yearLevel = original.yearLevel
+      weight = original.weight
+    }
 
     if (!academicYearId || !examSectionId || !yearLevel || !examDate) {
       return NextResponse.json(
@@ -70,17 +131,55 @@ export async function POST(request: Request) {
       )
     }
 
-    const exam = await prisma.exam.create({
-      data: {
-        academicYearId,
-        examSectionId,
-        yearLevel,
-        examDate: new Date(examDate),
-        totalPoints: totalPoints || 100,
-      },
-      include: {
-        examSection: true,
-      }
+    const date = new Date(examDate)
+    if (isNaN(date.getTime())) {
+      return NextResponse.json({ error: "Invalid exam date" }, { status: 400 })
+    }
+
+    const conflicts = await checkExamDate({ academicYearId, examDate: date, yearLevel })
+    if (!conflicts) {
+      return NextResponse.json({ error: "Academic year not found" }, { status: 404 })
+    }
+    const blocking = conflicts.find(c => c.severity === "error")
+    if (blocking) {
+      return NextResponse.json({ error: blocking.message, conflicts }, { status: 400 })
+    }
+    if (conflicts.length > 0 && body.confirmConflicts !== true) {
+      return NextResponse.json(
+        { error: "This date conflicts with the calendar", conflicts },
+        { status: 409 }
+      )
+    }
+
+    const { sittingType, originalExamId } = sitting.data
+    const exam = await prisma.$transaction(async (tx) => {
+      const created = await tx.exam.create({
+        data: {
+          academicYearId,
+          examSectionId,
+          yearLevel,
+          examDate: date,
+          totalPoints: totalPoints || 100,
+          weight,
+          ...release,
+          releasedAt: release.releaseStatus === "RELEASED" ? new Date() : null,
+          sittingType,
+          originalExamId,
+        },
+      })
+      await syncExamDayLesson(tx, created.id, user.id)
+      return tx.exam.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          examSection: true,
+          originalExam: {
+            select: {
+              id: true,
+              examDate: true,
+            }
+          },
+        }
+      })
     })
 
     return NextResponse.json(exam, { status: 201 })
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageData, isAdmin, isMentor } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { contentDisposition, deleteStoredFile, readStoredFile } from "@/lib/file-storage"
+
+// GET /api/excuse-attachments/[id] - Serve an excuse document
+// Files are only ever served from here (blobs are private), so access follows
+// the record: admins, the student it belongs to, or that student's mentor.
+// Auth: Admins, the student, or the student's mentor
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const attachment = await prisma.excuseAttachment.findUnique({
+      where: { id },
+      select: {
+        url: true,
+        filename: true,
+        contentType: true,
+        attendanceRecord: { select: { studentId: true } },
+        expectedAbsence: { select: { studentId: true } },
+      },
+    })
+    if (!attachment) {
+      return NextResponse.json({ error: "Attachment not found" }, { status: 404 })
+    }
+
+    const ownerId = attachment.attendanceRecord?.studentId ?? attachment.expectedAbsence?.studentId
+    const isOwnMentee = isMentor(user.role) && !!ownerId && await prisma.studentEnrollment.count({
+      where: { studentId: ownerId, mentorId: user.id },
+    }) > 0
+    if (!isAdmin(user.role) && user.id !== ownerId && !isOwnMentee) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const contents = await readStoredFile(attachment.url)
+    if (!contents) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    return new NextResponse(contents, {
+      headers: {
+        "Content-Type": attachment.contentType,
+        "Content-Disposition": contentDisposition("inline", attachment.filename),
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/excuse-attachments/[id] - Remove an excuse attachment and its stored file
+// Auth: SUPER_ADMIN, SERVANT_PREP, or whoever uploaded it
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const attachment = await prisma.excuseAttachment.findUnique({
+      where: { id },
+      select: { id: true, url: true, uploadedBy: true },
+    })
+    if (!attachment) {
+      return NextResponse.json({ error: "Attachment not found" }, { status: 404 })
+    }
+
+    if (!canManageData(user.role) && attachment.uploadedBy !== user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    await prisma.excuseAttachment.delete({ where: { id } })
+    await deleteStoredFile(attachment.url)
+
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageData } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { storeFile, validateUploadFile } from "@/lib/file-storage"
+
+// POST /api/expected-absences/[id]/attachments - Attach documentation to an expected absence
+// Auth: SUPER_ADMIN, SERVANT_PREP, or the student the absence belongs to
+// Body: multipart form with a `file` field (image or PDF)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const absence = await prisma.expectedAbsence.findUnique({
+      where: { id },
+      select: { id: true, studentId: true },
+    })
+    if (!absence) {
+      return NextResponse.json({ error: "Expected absence not found" }, { status: 404 })
+    }
+
+    const isOwnAbsence = user.role === "STUDENT" && user.id === absence.studentId
+    if (!canManageData(user.role) && !isOwnAbsence) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get("file") as File | null
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 })
+    }
+    const fileError = validateUploadFile(file)
+    if (fileError) {
+      return NextResponse.json({ error: fileError }, { status: 400 })
+    }
+
+    const stored = await storeFile(`excuses/${absence.studentId}`, file)
+    const attachment = await prisma.excuseAttachment.create({
+      data: {
+        expectedAbsenceId: absence.id,
+        ...stored,
+        uploadedBy: user.id,
+      },
+    })
+
+    return NextResponse.json(attachment, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageData, isMentor } from "@/lib/roles"
+import { applyExpectedAbsenceToRecords, handleApiError } from "@/lib/api-utils"
+import { validateAbsenceReview } from "@/lib/expected-absence-utils"
+import { notifyAbsenceReviewed } from "@/lib/notifications"
+
+// POST /api/expected-absences/[id]/review - Approve or reject a student's absence request
+// Auth: SUPER_ADMIN, SERVANT_PREP, or the student's mentor
+// Body: { status: "APPROVED" | "REJECTED", note?: string }
+// Approving excuses existing attendance records in the window; future lessons
+// are excused as attendance is taken.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const absence = await prisma.expectedAbsence.findUnique({
+      where: { id },
+      include: {
+        student: { select: { enrollments: { select: { mentorId: true } } } },
+      },
+    })
+    if (!absence) {
+      return NextResponse.json({ error: "Expected absence not found" }, { status: 404 })
+    }
+
+    const isStudentsMentor =
+      isMentor(user.role) && absence.student.enrollments.some(e => e.mentorId === user.id)
+    if (!canManageData(user.role) && !isStudentsMentor) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { status, note } = body
+
+    const validationError = validateAbsenceReview(absence.status, status, note)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+    const reviewNote = typeof note === "string" && note.trim() ? note.trim() : null
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Re-fetch inside transaction for fresh state (prevents double review)
+      const current = await tx.expectedAbsence.findUnique({
+        where: { id },
+        select: { status: true },
+      })
+      if (current?.status !== "PENDING") {
+        throw new Error("Request has already been reviewed")
+      }
+
+      const reviewed = await tx.expectedAbsence.update({
+        where: { id },
+        data: {
+          status,
+          reviewedBy: user.id,
+          reviewedAt: new Date(),
+          reviewNote,
+        },
+        include: {
+          student: { select: { id: true, name: true } },
+          reviewer: { select: { id: true, name: true } },
+        },
+      })
+
+      if (status === "APPROVED") {
+        await applyExpectedAbsenceToRecords(
+          {
+            id,
+            studentId: absence.studentId,
+            startDate: absence.startDate,
+            endDate: absence.endDate,
+            reason: absence.reason,
+            createdBy: user.id,
+          },
+          tx
+        )
+      }
+
+      return reviewed
+    })
+
+    // Notify student (non-blocking)
+    notifyAbsenceReviewed({
+      studentId: absence.studentId,
+      startDate: absence.startDate,
+      endDate: absence.endDate,
+      status,
+      note: reviewNote ?? undefined,
+    }).catch(() => {})
+
+    return NextResponse.json(updated)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -3,11 +3,14 @@ import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { canManageData } from "@/lib/roles"
 import { handleApiError } from "@/lib/api-utils"
+import { recordAttendanceHistory, type AttendanceChange } from "@/lib/attendance-history"
+import { deleteStoredFile } from "@/lib/file-storage"
 
 // DELETE /api/expected-absences/[id] - Remove an expected absence.
 // Linked attendance records are reverted: lessons that predate the student's
 // attendance start date stay EXCUSED (late start), everything else goes back
-// to ABSENT with the reason note cleared.
+// to ABSENT with the reason note cleared. Students may withdraw their own
+// request while it is still pending.
 export async function DELETE(
   _request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -16,18 +19,20 @@ export async function DELETE(
     const user = await requireAuth()
     const { id } = await params
 
-    if (!canManageData(user.role)) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
-    }
-
     const absence = await prisma.expectedAbsence.findUnique({
       where: { id },
-      select: { id: true, studentId: true },
+      select: { id: true, studentId: true, status: true, attachments: { select: { url: true } } },
     })
     if (!absence) {
       return NextResponse.json({ error: "Expected absence not found" }, { status: 404 })
     }
 
+    const isOwnPendingRequest =
+      user.role === "STUDENT" && user.id === absence.studentId && absence.status === "PENDING"
+    if (!canManageData(user.role) && !isOwnPendingRequest) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
     const enrollment = await prisma.studentEnrollment.findUnique({
       where: { studentId: absence.studentId },
       select: { attendanceStartDate: true },
@@ -38,22 +43,45 @@ export async function DELETE(
       // Find records auto-excused by this expected absence
       const linked = await tx.attendanceRecord.findMany({
         where: { expectedAbsenceId: id },
-        select: { id: true, lesson: { select: { scheduledDate: true } } },
+        select: {
+          id: true,
+          lessonId: true,
+          status: true,
+          notes: true,
+          conductRemoval: true,
+          conductNote: true,
+          lesson: { select: { scheduledDate: true } },
+        },
       })
 
+      const changes: AttendanceChange[] = []
       for (const record of linked) {
         const beforeStart = startDate !== null && record.lesson.scheduledDate < startDate
-        await tx.attendanceRecord.update({
+        const updated = await tx.attendanceRecord.update({
           where: { id: record.id },
           data: beforeStart
             ? { expectedAbsenceId: null, notes: null, status: "EXCUSED", notEnrolledYet: true }
             : { expectedAbsenceId: null, notes: null, status: "ABSENT", notEnrolledYet: false },
         })
+        changes.push({
+          attendanceRecordId: record.id,
+          lessonId: record.lessonId,
+          studentId: absence.studentId,
+          before: record,
+          after: updated,
+        })
       }
 
+      await recordAttendanceHistory(changes, { source: "EXPECTED_ABSENCE", changedBy: user.id }, tx)
+
       await tx.expectedAbsence.delete({ where: { id } })
     })
 
+    // Attachment rows cascade with the absence; remove their stored files too
+    for (const attachment of absence.attachments) {
+      await deleteStoredFile(attachment.url)
+    }
+
     return NextResponse.json({ success: true })
   } catch (error: unknown) {
     return handleApiError(error)
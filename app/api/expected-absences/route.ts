@@ -1,21 +1,54 @@
 import { NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
-import { isAdmin } from "@/lib/roles"
+import { ExpectedAbsenceStatus, Prisma } from "@prisma/client"
+import { isAdmin, isMentor } from "@/lib/roles"
 import { handleApiError } from "@/lib/api-utils"
 
 // GET /api/expected-absences?lessonId=xxx
-// Returns the expected absences that cover a given lesson's date, keyed for the
-// attendance page so it can flag students and pre-fill the excuse reason.
+// Returns the approved expected absences that cover a given lesson's date, keyed
+// for the attendance page so it can flag students and pre-fill the excuse reason.
+//
+// GET /api/expected-absences?status=PENDING[&mentorId=xxx]
+// Lists absence requests by status for review, optionally limited to one
+// mentor's mentees. Mentors only ever see their own mentees'.
 export async function GET(request: Request) {
   try {
     const user = await requireAuth()
+    const { searchParams } = new URL(request.url)
+    const lessonId = searchParams.get("lessonId")
+    const status = searchParams.get("status")
+
+    if (!lessonId && status) {
+      if (!isAdmin(user.role) && !isMentor(user.role)) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+      }
+      if (!Object.values(ExpectedAbsenceStatus).includes(status as ExpectedAbsenceStatus)) {
+        return NextResponse.json({ error: "Invalid status" }, { status: 400 })
+      }
+
+      const where: Prisma.ExpectedAbsenceWhereInput = { status: status as ExpectedAbsenceStatus }
+      const mentorId = isMentor(user.role) ? user.id : searchParams.get("mentorId")
+      if (mentorId) {
+        where.student = { enrollments: { some: { mentorId } } }
+      }
+
+      const requests = await prisma.expectedAbsence.findMany({
+        where,
+        include: {
+          student: { select: { id: true, name: true } },
+          reviewer: { select: { id: true, name: true } },
+          attachments: { orderBy: { createdAt: "asc" } },
+        },
+        orderBy: { startDate: "asc" },
+      })
+
+      return NextResponse.json(requests)
+    }
+
     if (!isAdmin(user.role)) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 })
     }
-
-    const { searchParams } = new URL(request.url)
-    const lessonId = searchParams.get("lessonId")
     if (!lessonId) {
       return NextResponse.json({ error: "lessonId is required" }, { status: 400 })
     }
@@ -30,10 +63,18 @@ export async function GET(request: Request) {
 
     const absences = await prisma.expectedAbsence.findMany({
       where: {
+        status: "APPROVED",
         startDate: { lte: lesson.scheduledDate },
         endDate: { gte: lesson.scheduledDate },
       },
-      select: { id: true, studentId: true, reason: true, startDate: true, endDate: true },
+      select: {
+        id: true,
+        studentId: true,
+        reason: true,
+        startDate: true,
+        endDate: true,
+        attachments: { orderBy: { createdAt: "asc" } },
+      },
     })
 
     return NextResponse.json(absences)
@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import { contentDisposition, readStoredFile } from "@/lib/file-storage"
+import { canManageLessonResources } from "@/lib/lesson-resources"
+
+// GET /api/lesson-resources/[id]/open - Open or download a lesson resource
+// Students' views and downloads are recorded so mentors can see who opened
+// the material. Links redirect; uploads are served from here since blobs are
+// private.
+// Auth: Any signed-in user; earlier versions only for SUPER_ADMIN, SERVANT_PREP or the lesson's speaker
+// Query: download=1 to download instead of view, version=N for an earlier upload
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const { searchParams } = new URL(request.url)
+    const download = searchParams.get("download") === "1"
+    const versionParam = searchParams.get("version")
+
+    const resource = await prisma.lessonResource.findUnique({
+      where: { id },
+      select: {
+        url: true,
+        filename: true,
+        contentType: true,
+        version: true,
+        lesson: { select: { assignedSpeaker: { select: { userId: true } } } },
+      },
+    })
+    if (!resource) {
+      return NextResponse.json({ error: "Resource not found" }, { status: 404 })
+    }
+
+    let file = resource.filename && resource.contentType
+      ? { url: resource.url, filename: resource.filename, contentType: resource.contentType, version: resource.version }
+      : null
+    if (versionParam && file && Number(versionParam) !== resource.version) {
+      if (!canManageLessonResources(user, resource.lesson)) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+      }
+      const version = await prisma.lessonResourceVersion.findUnique({
+        where: { resourceId_version: { resourceId: id, version: Number(versionParam) || 0 } },
+        select: { url: true, filename: true, contentType: true, version: true },
+      })
+      if (!version) {
+        return NextResponse.json({ error: "Version not found" }, { status: 404 })
+      }
+      file = version
+    }
+
+    if (user.role === "STUDENT") {
+      await prisma.lessonResourceAccess.create({
+        data: {
+          resourceId: id,
+          studentId: user.id,
+          action: download && file ? "DOWNLOAD" : "VIEW",
+          version: file?.version ?? null,
+        },
+      })
+    }
+
+    if (!file) {
+      return NextResponse.redirect(resource.url)
+    }
+
+    const contents = await readStoredFile(file.url)
+    if (!contents) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+    return new NextResponse(contents, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": contentDisposition(download ? "attachment" : "inline", file.filename),
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import { canManageLessonResources, deleteLessonResource } from "@/lib/lesson-resources"
+
+// DELETE /api/lesson-resources/[id] - Remove a resource, every stored version and its access history
+// Auth: SUPER_ADMIN, SERVANT_PREP, or the speaker assigned to the lesson
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const resource = await prisma.lessonResource.findUnique({
+      where: { id },
+      select: { lesson: { select: { assignedSpeaker: { select: { userId: true } } } } },
+    })
+    if (!resource) {
+      return NextResponse.json({ error: "Resource not found" }, { status: 404 })
+    }
+    if (!canManageLessonResources(user, resource.lesson)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    await deleteLessonResource(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
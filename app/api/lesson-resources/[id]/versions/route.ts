@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import {
+  addResourceVersion,
+  canAttachResources,
+  canManageLessonResources,
+  readResourceUpload,
+} from "@/lib/lesson-resources"
+
+async function findResource(id: string) {
+  return prisma.lessonResource.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      lessonId: true,
+      filename: true,
+      lesson: { select: { status: true, assignedSpeaker: { select: { userId: true } } } },
+    },
+  })
+}
+
+// GET /api/lesson-resources/[id]/versions - Every uploaded version of a file resource, newest first
+// Auth: SUPER_ADMIN, SERVANT_PREP, or the speaker assigned to the lesson
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const resource = await findResource(id)
+    if (!resource) {
+      return NextResponse.json({ error: "Resource not found" }, { status: 404 })
+    }
+    if (!canManageLessonResources(user, resource.lesson)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const versions = await prisma.lessonResourceVersion.findMany({
+      where: { resourceId: id },
+      select: {
+        id: true,
+        version: true,
+        filename: true,
+        contentType: true,
+        size: true,
+        createdAt: true,
+        uploader: { select: { id: true, name: true } },
+      },
+      orderBy: { version: "desc" },
+    })
+
+    return NextResponse.json(versions)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/lesson-resources/[id]/versions - Upload a new version of a file resource
+// Auth: SUPER_ADMIN, SERVANT_PREP, or the speaker assigned to the lesson
+// Body: multipart form with a `file` field, or JSON { url, filename } for a file
+// uploaded to Blob from the browser
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const resource = await findResource(id)
+    if (!resource) {
+      return NextResponse.json({ error: "Resource not found" }, { status: 404 })
+    }
+    if (!canManageLessonResources(user, resource.lesson)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+    if (!resource.filename) {
+      return NextResponse.json({ error: "Links don't have versions; edit the link instead" }, { status: 400 })
+    }
+    if (!canAttachResources(resource.lesson)) {
+      return NextResponse.json({ error: "Cancelled and no-class lessons can't take resources" }, { status: 400 })
+    }
+
+    const { stored, error } = await readResourceUpload(request, resource.lessonId)
+    if (!stored) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const updated = await addResourceVersion(id, stored, user.id)
+    if (!updated) {
+      return NextResponse.json({ error: "Resource not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(updated, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin, isMentor } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { getResourceAccessReport } from "@/lib/lesson-resources"
+
+// GET /api/lesson-resources/access - Who opened the resources of the most recent lessons
+// Mentors only ever see their own mentees; admins see every enrolled student
+// unless they pass a mentorId.
+// Auth: SUPER_ADMIN, PRIEST, SERVANT_PREP, MENTOR
+// Query: mentorId (optional), limit (lessons, default 10, max 50)
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth()
+    if (!isAdmin(user.role) && !isMentor(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const mentorId = isMentor(user.role) ? user.id : searchParams.get("mentorId")
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "10", 10) || 10, 1), 50)
+
+    const report = await getResourceAccessReport({ mentorId, limit })
+
+    return NextResponse.json(report)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
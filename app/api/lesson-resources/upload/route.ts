@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server"
+import { handleUpload, type HandleUploadBody } from "@vercel/blob/client"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import { MAX_UPLOAD_SIZE, usesBlobStorage } from "@/lib/file-storage"
+import {
+  MAX_RESOURCE_UPLOAD_SIZE,
+  RESOURCE_UPLOAD_TYPES,
+  canAttachResources,
+  canManageLessonResources,
+  resourceUploadFolder,
+} from "@/lib/lesson-resources"
+
+// GET /api/lesson-resources/upload - How the browser should upload a resource file
+// With Blob storage files go straight from the browser to Blob (clientUploads);
+// otherwise they're posted to the resource routes, up to the server limit.
+// Auth: Any signed-in user
+export async function GET() {
+  try {
+    await requireAuth()
+    const clientUploads = usesBlobStorage()
+    return NextResponse.json({
+      clientUploads,
+      maxSize: clientUploads ? MAX_RESOURCE_UPLOAD_SIZE : MAX_UPLOAD_SIZE,
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/lesson-resources/upload - Issue a Blob client token for a lesson resource upload
+// The finished upload is registered through POST /api/lessons/[id]/resources
+// or /api/lesson-resources/[id]/versions with its URL.
+// Auth: SUPER_ADMIN, SERVANT_PREP, or the speaker assigned to the lesson
+// Body: the @vercel/blob/client upload request; clientPayload is { lessonId }
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth()
+    if (!usesBlobStorage()) {
+      return NextResponse.json({ error: "Blob storage is not configured" }, { status: 400 })
+    }
+
+    const body: HandleUploadBody = await request.json()
+    const result = await handleUpload({
+      body,
+      request,
+      token: process.env.BLOB_READ_WRITE_TOKEN,
+      onBeforeGenerateToken: async (pathname, clientPayload) => {
+        const { lessonId } = JSON.parse(clientPayload || "{}")
+        const lesson = typeof lessonId === "string"
+          ? await prisma.lesson.findUnique({
+              where: { id: lessonId },
+              select: { id: true, status: true, assignedSpeaker: { select: { userId: true } } },
+            })
+          : null
+        if (!lesson) throw new Error("Not found")
+        if (!canManageLessonResources(user, lesson) || !canAttachResources(lesson)) throw new Error("Forbidden")
+        if (!pathname.startsWith(`${resourceUploadFolder(lesson.id)}/`)) throw new Error("Invalid upload path")
+
+        return {
+          allowedContentTypes: RESOURCE_UPLOAD_TYPES,
+          maximumSizeInBytes: MAX_RESOURCE_UPLOAD_SIZE,
+          addRandomSuffix: true,
+        }
+      },
+    })
+
+    return NextResponse.json(result)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
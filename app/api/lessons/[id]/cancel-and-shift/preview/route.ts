@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageCurriculum } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { getCancelShiftPlan } from "@/lib/lesson-rescheduling"
+
+// GET /api/lessons/[id]/cancel-and-shift/preview - Dry run of cancelling a lesson and shifting the rest back
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Nothing is changed; the plan lists each lesson's new date and number.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageCurriculum(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const planned = await getCancelShiftPlan(id)
+    if (!planned) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 })
+    }
+    if (!planned.plan) {
+      return NextResponse.json({ error: planned.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ academicYear: planned.academicYear, ...planned.plan })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
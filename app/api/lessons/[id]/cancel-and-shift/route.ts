@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageCurriculum } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { notifyLessonCancelled, notifySpeakerRequested } from "@/lib/notifications"
+import { applyCancelShiftPlan, getCancelShiftPlan } from "@/lib/lesson-rescheduling"
+import { formatDateUTC } from "@/lib/utils"
+
+// POST /api/lessons/[id]/cancel-and-shift - Cancel a lesson and shift it and every later lesson back a slot
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { cancellationReason }
+// Refused when a later lesson already has attendance or the last lesson would fall
+// outside the academic year. Students are told about the cancellation and speakers
+// of moved lessons are asked to confirm their new dates.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageCurriculum(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const { cancellationReason } = await request.json()
+    if (typeof cancellationReason !== "string" || !cancellationReason.trim()) {
+      return NextResponse.json({ error: "A cancellation reason is required" }, { status: 400 })
+    }
+
+    const planned = await getCancelShiftPlan(id)
+    if (!planned) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 })
+    }
+    const { plan, academicYear } = planned
+    if (!plan) {
+      return NextResponse.json({ error: planned.error }, { status: 400 })
+    }
+    if (plan.blockers.length > 0) {
+      return NextResponse.json({ error: plan.blockers.join("; ") }, { status: 400 })
+    }
+    if (plan.outsideYear) {
+      return NextResponse.json(
+        { error: `The last lesson would move past the end of ${academicYear.name}. Extend the year or cancel without shifting` },
+        { status: 400 }
+      )
+    }
+
+    const { placeholder, speakerLessonIds } = await applyCancelShiftPlan(plan, {
+      academicYearId: academicYear.id,
+      cancellationReason: cancellationReason.trim(),
+      userId: user.id,
+    })
+
+    const postponed = plan.shifts.find(s => s.lessonId === id)!
+    notifyLessonCancelled({
+      lessonTitle: plan.cancelled.title,
+      lessonDate: formatDateUTC(plan.cancelled.scheduledDate),
+      reason: cancellationReason.trim(),
+      postponedTo: formatDateUTC(postponed.toDate),
+    }).catch(() => {})
+    notifySpeakerRequested(speakerLessonIds).catch(() => {})
+
+    return NextResponse.json({ placeholder, shifted: plan.movedLessonIds.length })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageData } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import {
+  generateCheckInCode,
+  getCheckInCodeValidUntil,
+  isLessonOpenForCheckIn,
+} from "@/lib/check-in-utils"
+
+// GET /api/lessons/[id]/check-in - Current rotating code and self check-in count for the kiosk
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageData(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const [currentCode, checkedInCount] = await Promise.all([
+      prisma.lessonCheckInCode.findFirst({
+        where: { lessonId: id, isActive: true, validUntil: { gt: new Date() } },
+        orderBy: { generatedAt: "desc" },
+      }),
+      prisma.attendanceRecord.count({
+        where: { lessonId: id, checkInCodeId: { not: null } },
+      }),
+    ])
+
+    return NextResponse.json({ code: currentCode, checkedInCount })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/lessons/[id]/check-in - Rotate to a new check-in code
+// Body: { startsAt: string } (ISO datetime of the lesson start; later scans are LATE)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageData(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { startsAt } = body
+
+    const startsAtDate = startsAt ? new Date(startsAt) : null
+    if (!startsAtDate || isNaN(startsAtDate.getTime())) {
+      return NextResponse.json(
+        { error: "A valid lesson start time is required" },
+        { status: 400 }
+      )
+    }
+
+    const lesson = await prisma.lesson.findUnique({
+      where: { id },
+      select: { id: true, scheduledDate: true, status: true },
+    })
+    if (!lesson) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 })
+    }
+
+    if (lesson.status === "CANCELLED" || lesson.status === "NO_CLASS") {
+      return NextResponse.json(
+        { error: "Check-in is not available for a cancelled lesson" },
+        { status: 400 }
+      )
+    }
+
+    if (!isLessonOpenForCheckIn(lesson.scheduledDate)) {
+      return NextResponse.json(
+        { error: "Cannot open check-in before the lesson date" },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+    const code = await prisma.lessonCheckInCode.create({
+      data: {
+        code: generateCheckInCode(),
+        lessonId: id,
+        startsAt: startsAtDate,
+        validUntil: getCheckInCodeValidUntil(now),
+        generatedBy: user.id,
+        generatedAt: now,
+      },
+    })
+
+    return NextResponse.json(code, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/lessons/[id]/check-in - Close check-in (deactivates every code for the lesson)
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageData(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    const result = await prisma.lessonCheckInCode.updateMany({
+      where: { lessonId: id, isActive: true },
+      data: { isActive: false },
+    })
+
+    return NextResponse.json({ success: true, deactivated: result.count })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
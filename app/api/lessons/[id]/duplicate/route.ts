@@ -44,8 +44,9 @@ export async function POST(
       return NextResponse.json({ error: "Lesson not found" }, { status: 404 })
     }
 
+    // Uploaded files belong to the source lesson; only its links are copied
     const sourceResources = await prisma.lessonResource.findMany({
-      where: { lessonId: id },
+      where: { lessonId: id, filename: null },
       orderBy: { createdAt: "asc" },
     })
 
@@ -64,6 +65,8 @@ export async function POST(
         subtitle: source.subtitle,
         description: source.description,
         isExamDay: source.isExamDay,
+        startTime: source.startTime,
+        lateGraceMinutes: source.lateGraceMinutes,
         scheduledDate: parsedDate,
         lessonNumber: nextLessonNumber,
         status: "SCHEDULED",
@@ -3,6 +3,7 @@ import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { canManageCurriculum } from "@/lib/roles"
 import { handleApiError } from "@/lib/api-utils"
+import { recordAttendanceHistory } from "@/lib/attendance-history"
 
 // POST /api/lessons/[id]/reset-attendance
 // Deletes all attendance records for a lesson and resets its status to SCHEDULED.
@@ -24,10 +25,24 @@ export async function POST(
       return NextResponse.json({ error: "Lesson not found" }, { status: 404 })
     }
 
-    await prisma.$transaction([
-      prisma.attendanceRecord.deleteMany({ where: { lessonId: id } }),
-      prisma.lesson.update({ where: { id }, data: { status: "SCHEDULED" } }),
-    ])
+    await prisma.$transaction(async (tx) => {
+      const records = await tx.attendanceRecord.findMany({ where: { lessonId: id } })
+
+      await recordAttendanceHistory(
+        records.map(r => ({
+          attendanceRecordId: r.id,
+          lessonId: id,
+          studentId: r.studentId,
+          before: r,
+          after: null,
+        })),
+        { source: "LESSON_RESET", changedBy: user.id },
+        tx
+      )
+
+      await tx.attendanceRecord.deleteMany({ where: { lessonId: id } })
+      await tx.lesson.update({ where: { id }, data: { status: "SCHEDULED" } })
+    })
 
     return NextResponse.json({ success: true })
   } catch (error: unknown) {
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import {
+  canAttachResources,
+  canManageLessonResources,
+  createFileResource,
+  readResourceUpload,
+} from "@/lib/lesson-resources"
+
+// POST /api/lessons/[id]/resources - Upload a file (slides, PDF, audio) as a lesson resource
+// Auth: SUPER_ADMIN, SERVANT_PREP, or the speaker assigned to the lesson
+// Body: multipart form with a `file` field and an optional `title` (defaults to the filename),
+// or JSON { url, filename, title? } for a file uploaded to Blob from the browser
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+
+    const lesson = await prisma.lesson.findUnique({
+      where: { id },
+      select: { id: true, status: true, assignedSpeaker: { select: { userId: true } } },
+    })
+    if (!lesson) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 })
+    }
+    if (!canManageLessonResources(user, lesson)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+    if (!canAttachResources(lesson)) {
+      return NextResponse.json({ error: "Cancelled and no-class lessons can't take resources" }, { status: 400 })
+    }
+
+    const { stored, title, error } = await readResourceUpload(request, lesson.id)
+    if (!stored) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const resource = await createFileResource(lesson.id, title?.trim() || stored.filename, stored, user.id)
+
+    return NextResponse.json(resource, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -3,10 +3,16 @@ import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { canManageCurriculum } from "@/lib/roles"
 import { handleApiError, assertSafeHttpUrl } from "@/lib/api-utils"
-import { notifyLessonCancelled } from "@/lib/notifications"
+import { notifyLessonCancelled, notifySpeakerRequested } from "@/lib/notifications"
+import { parseLessonTimingInput } from "@/lib/attendance-utils"
+import { examDayLessonChangeError, moveExamsWithLesson } from "@/lib/exam-calendar"
+import { freeTextSpeakerData, speakerReconfirmData } from "@/lib/speakers"
+import { replaceLinkResources } from "@/lib/lesson-resources"
 
 
 // PATCH /api/lessons/[id] - Update a lesson (SUPER_ADMIN and SERVANT_PREP only, PRIEST is read-only)
+// An exam's exam-day lesson stays an exam day and can't be cancelled; moving it moves its exams.
+// Moving a lesson with an assigned speaker asks the speaker to confirm the new date.
 export async function PATCH(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -25,6 +31,12 @@ export async function PATCH(
     const body = await request.json()
     const { title, subtitle, description, scheduledDate, examSectionId, status, cancellationReason, resources, isExamDay, speaker } = body
 
+    // Get the current lesson state before update (to detect cancellation, moves and speaker changes)
+    const currentLesson = await prisma.lesson.findUnique({
+      where: { id },
+      select: { status: true, title: true, scheduledDate: true, speaker: true, speakerId: true },
+    })
+
     const updateData: Record<string, unknown> = {}
     if (title) updateData.title = title
     if (subtitle !== undefined) updateData.subtitle = subtitle || null
@@ -34,36 +46,34 @@ export async function PATCH(
     if (status) updateData.status = status
     if (cancellationReason !== undefined) updateData.cancellationReason = cancellationReason
     if (isExamDay !== undefined) updateData.isExamDay = isExamDay
-    if (speaker !== undefined) updateData.speaker = speaker || null
+    if (speaker !== undefined && currentLesson) Object.assign(updateData, freeTextSpeakerData(speaker, currentLesson))
+
+    // The speaker agreed to the old date; ask them about the new one
+    const reconfirmSpeaker = !!scheduledDate && !!currentLesson?.speakerId && updateData.speakerId !== null &&
+      new Date(scheduledDate).getTime() !== currentLesson.scheduledDate.getTime()
+    if (reconfirmSpeaker) Object.assign(updateData, speakerReconfirmData())
+
+    // Start time and grace period; empty values fall back to the year's defaults
+    const timing = parseLessonTimingInput(body.startTime, body.lateGraceMinutes)
+    if (timing.error) {
+      return NextResponse.json({ error: timing.error }, { status: 400 })
+    }
+    Object.assign(updateData, timing.data)
+
+    const linkedExams = await prisma.exam.count({ where: { lessonId: id } })
+    const examDayError = linkedExams > 0 ? examDayLessonChangeError({ isExamDay, status }) : null
+    if (examDayError) {
+      return NextResponse.json({ error: examDayError }, { status: 400 })
+    }
 
-    // Handle resources update: delete all existing and recreate
+    // Handle resources update: replace the links; uploaded files are managed on their own
     if (resources !== undefined) {
       for (const r of resources as Array<{ url?: string; title?: string }>) {
         assertSafeHttpUrl(r?.url ?? "", `Resource "${r?.title ?? ""}" URL`)
       }
-
-      await prisma.lessonResource.deleteMany({
-        where: { lessonId: id }
-      })
-
-      if (resources.length > 0) {
-        await prisma.lessonResource.createMany({
-          data: resources.map((r: { title: string; url: string; type?: string }) => ({
-            lessonId: id,
-            title: r.title,
-            url: r.url,
-            type: r.type || null,
-          }))
-        })
-      }
+      await replaceLinkResources(id, resources)
     }
 
-    // Get the current lesson state before update (to detect cancellation)
-    const currentLesson = await prisma.lesson.findUnique({
-      where: { id },
-      select: { status: true, title: true, scheduledDate: true },
-    })
-
     const lesson = await prisma.lesson.update({
       where: { id },
       data: updateData,
@@ -82,6 +92,15 @@ export async function PATCH(
       }
     })
 
+    // Keep the day's exams on the lesson's date
+    if (scheduledDate && linkedExams > 0) {
+      await moveExamsWithLesson(id, lesson.scheduledDate)
+    }
+
+    if (reconfirmSpeaker) {
+      notifySpeakerRequested([id]).catch(() => {})
+    }
+
     // Notify students if lesson was just cancelled
     if (
       status === 'CANCELLED' &&
@@ -102,6 +121,7 @@ export async function PATCH(
 }
 
 // DELETE /api/lessons/[id] - Delete a lesson (SUPER_ADMIN and SERVANT_PREP only, PRIEST is read-only)
+// Exam-day lessons tied to an exam are kept until the exam is moved or deleted.
 export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -118,6 +138,14 @@ export async function DELETE(
     }
     const { id } = await params
 
+    const linkedExams = await prisma.exam.count({ where: { lessonId: id } })
+    if (linkedExams > 0) {
+      return NextResponse.json(
+        { error: "This lesson is an exam's exam day. Move or delete the exam first" },
+        { status: 400 }
+      )
+    }
+
     await prisma.lesson.delete({
       where: { id }
     })
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageCurriculum } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { notifySpeakerRequested } from "@/lib/notifications"
+import { speakerAssignmentData } from "@/lib/speakers"
+
+// PUT /api/lessons/[id]/speaker - Assign a speaker from the directory and ask them to confirm
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { speakerId } - null clears the assignment; assigning the same speaker again re-sends the request
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageCurriculum(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const { speakerId } = await request.json()
+
+    const lesson = await prisma.lesson.findUnique({ where: { id }, select: { id: true } })
+    if (!lesson) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 })
+    }
+
+    let speaker: { id: string; name: string } | null = null
+    if (speakerId) {
+      const found = await prisma.speaker.findUnique({
+        where: { id: speakerId },
+        select: { id: true, name: true, isActive: true },
+      })
+      if (!found) {
+        return NextResponse.json({ error: "Speaker not found" }, { status: 404 })
+      }
+      if (!found.isActive) {
+        return NextResponse.json({ error: `${found.name} is inactive` }, { status: 400 })
+      }
+      speaker = found
+    }
+
+    const updated = await prisma.lesson.update({
+      where: { id },
+      data: speakerAssignmentData(speaker),
+      select: { id: true, speaker: true, speakerId: true, speakerStatus: true },
+    })
+
+    if (speaker) {
+      notifySpeakerRequested([id]).catch(() => {})
+    }
+
+    return NextResponse.json(updated)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
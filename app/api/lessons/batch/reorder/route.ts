@@ -3,8 +3,13 @@ import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { canManageCurriculum } from "@/lib/roles"
 import { handleApiError } from "@/lib/api-utils"
+import { moveExamsWithLesson } from "@/lib/exam-calendar"
+import { resetSpeakerConfirmations } from "@/lib/speakers"
+import { notifySpeakerRequested } from "@/lib/notifications"
 
 // POST /api/lessons/batch/reorder - Reorder lessons (dates stay in slots, topics move)
+// Exams tied to a moved exam-day lesson move with it, and speakers of moved
+// lessons are asked to confirm the new date.
 export async function POST(request: Request) {
   try {
     const user = await requireAuth()
@@ -20,7 +25,7 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "At least 2 lesson IDs required" }, { status: 400 })
     }
 
-    await prisma.$transaction(async (tx) => {
+    const movedIds = await prisma.$transaction(async (tx) => {
       // Fetch inside transaction for fresh data
       const lessons = await tx.lesson.findMany({
         where: { id: { in: lessonIds } },
@@ -32,6 +37,7 @@ export async function POST(request: Request) {
       }
 
       const lessonMap = new Map(lessons.map(l => [l.id, l]))
+      const moved: string[] = []
 
       // Group lesson IDs by academic year, preserving the new order from lessonIds
       const yearGroups = new Map<string, string[]>()
@@ -76,10 +82,19 @@ export async function POST(request: Request) {
               lessonNumber: numbers[i],
             },
           })
+          // An exam-day lesson takes its exams to the new date
+          await moveExamsWithLesson(ids[i], dates[i], tx)
+          if (dates[i].getTime() !== lessonMap.get(ids[i])!.scheduledDate.getTime()) moved.push(ids[i])
         }
       }
+
+      return resetSpeakerConfirmations(moved, tx)
     })
 
+    if (movedIds.length > 0) {
+      notifySpeakerRequested(movedIds).catch(() => {})
+    }
+
     return NextResponse.json({ reordered: lessonIds.length })
   } catch (error: unknown) {
     return handleApiError(error)
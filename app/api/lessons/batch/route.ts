@@ -4,6 +4,11 @@ import { requireAuth } from "@/lib/auth-helpers"
 import { canManageCurriculum } from "@/lib/roles"
 import { handleApiError, assertSafeHttpUrl } from "@/lib/api-utils"
 import { LessonStatus } from "@prisma/client"
+import { parseLessonTimingInput } from "@/lib/attendance-utils"
+import { examDayLessonChangeError, moveExamsWithLesson } from "@/lib/exam-calendar"
+import { freeTextSpeakerData, speakerReconfirmData } from "@/lib/speakers"
+import { replaceLinkResources } from "@/lib/lesson-resources"
+import { notifySpeakerRequested } from "@/lib/notifications"
 
 interface LessonUpdate {
   id: string
@@ -16,6 +21,8 @@ interface LessonUpdate {
   isExamDay?: boolean
   status?: string
   cancellationReason?: string
+  startTime?: string | null
+  lateGraceMinutes?: string | number | null
   resources?: { title: string; url: string }[]
 }
 
@@ -60,6 +67,11 @@ function validateLessonUpdate(lesson: LessonUpdate, index: number): void {
       `Lesson at index ${index}: cancellationReason is required when status is CANCELLED`
     )
   }
+
+  const timing = parseLessonTimingInput(lesson.startTime, lesson.lateGraceMinutes)
+  if (timing.error) {
+    throw new Error(`Lesson at index ${index}: ${timing.error}`)
+  }
 }
 
 // PATCH /api/lessons/batch - Batch update multiple lessons
@@ -125,6 +137,27 @@ export async function PATCH(request: Request) {
       }
     }
 
+    // 3. Exam-day lessons tied to an exam must stay held exam days
+    const examDayLessons = await prisma.exam.findMany({
+      where: { lessonId: { in: lessons.map((l) => l.id) } },
+      select: { lessonId: true },
+    })
+    const examDayLessonIds = new Set(examDayLessons.map((e) => e.lessonId))
+    for (const lesson of lessons) {
+      const examDayError = examDayLessonIds.has(lesson.id) ? examDayLessonChangeError(lesson) : null
+      if (examDayError) {
+        return NextResponse.json({ error: examDayError }, { status: 400 })
+      }
+    }
+
+    // 4. Current speakers and dates, to tell edited names and moved lessons apart
+    const currentLessons = await prisma.lesson.findMany({
+      where: { id: { in: lessons.map((l) => l.id) } },
+      select: { id: true, speaker: true, speakerId: true, scheduledDate: true },
+    })
+    const currentById = new Map(currentLessons.map((l) => [l.id, l]))
+    const reconfirmIds: string[] = []
+
     // --- Perform the batch update inside an interactive transaction ---
     const updated = await prisma.$transaction(async (tx) => {
       const results = []
@@ -134,12 +167,25 @@ export async function PATCH(request: Request) {
         if (lesson.title !== undefined) data.title = lesson.title
         if (lesson.subtitle !== undefined) data.subtitle = lesson.subtitle || null
         if (lesson.description !== undefined) data.description = lesson.description || null
-        if (lesson.speaker !== undefined) data.speaker = lesson.speaker || null
+        const current = currentById.get(lesson.id)
+        if (lesson.speaker !== undefined) {
+          Object.assign(data, current ? freeTextSpeakerData(lesson.speaker, current) : { speaker: lesson.speaker || null })
+        }
         if (lesson.scheduledDate !== undefined) data.scheduledDate = new Date(lesson.scheduledDate)
         if (lesson.examSectionId !== undefined) data.examSectionId = lesson.examSectionId
         if (lesson.isExamDay !== undefined) data.isExamDay = lesson.isExamDay
         if (lesson.status !== undefined) data.status = lesson.status
         if (lesson.cancellationReason !== undefined) data.cancellationReason = lesson.cancellationReason || null
+        Object.assign(data, parseLessonTimingInput(lesson.startTime, lesson.lateGraceMinutes).data)
+
+        // The speaker agreed to the old date; ask them about the new one
+        if (
+          lesson.scheduledDate !== undefined && current?.speakerId && data.speakerId !== null &&
+          new Date(lesson.scheduledDate).getTime() !== current.scheduledDate.getTime()
+        ) {
+          Object.assign(data, speakerReconfirmData())
+          reconfirmIds.push(lesson.id)
+        }
 
         // Update the lesson fields
         const result = await tx.lesson.update({
@@ -147,21 +193,13 @@ export async function PATCH(request: Request) {
           data,
         })
 
-        // Handle resources: delete existing and recreate
+        if (lesson.scheduledDate !== undefined && examDayLessonIds.has(lesson.id)) {
+          await moveExamsWithLesson(lesson.id, result.scheduledDate, tx)
+        }
+
+        // Handle resources: replace the links; uploaded files are managed on their own
         if (lesson.resources !== undefined) {
-          await tx.lessonResource.deleteMany({
-            where: { lessonId: lesson.id },
-          })
-
-          if (lesson.resources.length > 0) {
-            await tx.lessonResource.createMany({
-              data: lesson.resources.map((r) => ({
-                lessonId: lesson.id,
-                title: r.title,
-                url: r.url,
-              })),
-            })
-          }
+          await replaceLinkResources(lesson.id, lesson.resources, tx)
         }
 
         results.push(result)
@@ -170,6 +208,10 @@ export async function PATCH(request: Request) {
       return results
     })
 
+    if (reconfirmIds.length > 0) {
+      notifySpeakerRequested(reconfirmIds).catch(() => {})
+    }
+
     return NextResponse.json({ updated: updated.length })
   } catch (error: unknown) {
     return handleApiError(error)
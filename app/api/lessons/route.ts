@@ -5,6 +5,7 @@ import { canManageCurriculum } from "@/lib/roles"
 import { handleApiError, assertSafeHttpUrl } from "@/lib/api-utils"
 import { LessonStatus } from "@prisma/client"
 import { notifyLessonScheduled } from "@/lib/notifications"
+import { parseLessonTimingInput } from "@/lib/attendance-utils"
 
 
 // GET /api/lessons - List lessons
@@ -68,6 +69,8 @@ export async function GET(request: Request) {
           select: {
             id: true,
             name: true,
+            defaultLessonStartTime: true,
+            defaultLateGraceMinutes: true,
           }
         },
         creator: {
@@ -155,6 +158,12 @@ export async function POST(request: Request) {
       }
     }
 
+    // Optional start time and grace period (otherwise the year's defaults apply)
+    const timing = parseLessonTimingInput(body.startTime, body.lateGraceMinutes)
+    if (timing.error) {
+      return NextResponse.json({ error: timing.error }, { status: 400 })
+    }
+
     // Compute lessonNumber server-side to avoid race conditions and cross-year bugs
     const lesson = await prisma.$transaction(async (tx) => {
       const maxResult = await tx.lesson.aggregate({
@@ -174,6 +183,7 @@ export async function POST(request: Request) {
           lessonNumber: nextLessonNumber,
           isExamDay: isExamDay || false,
           speaker: speaker || null,
+          ...timing.data,
           createdBy: user.id,
           resources: resources && resources.length > 0 ? {
             create: resources.map((r: { title: string; url: string; type?: string }) => ({
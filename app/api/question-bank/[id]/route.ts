@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { parseBankQuestionInput } from "@/lib/question-bank"
+
+// PATCH /api/question-bank/[id] - Edit, retag or archive a bank question
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: any of { type, prompt, options, answerKey, points, lessonId, difficulty, isArchived }
+// Exams the question was already added to keep their own copy.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const question = await prisma.bankQuestion.findUnique({ where: { id } })
+    if (!question) {
+      return NextResponse.json({ error: "Question not found" }, { status: 404 })
+    }
+
+    const body = await request.json()
+    if (body.isArchived !== undefined && typeof body.isArchived !== "boolean") {
+      return NextResponse.json({ error: "isArchived must be true or false" }, { status: 400 })
+    }
+
+    // Validate the question as a whole so the answer key always fits the type
+    const { data, error } = parseBankQuestionInput({
+      examSectionId: question.examSectionId,
+      lessonId: body.lessonId !== undefined ? body.lessonId : question.lessonId,
+      difficulty: body.difficulty ?? question.difficulty,
+      type: body.type ?? question.type,
+      prompt: body.prompt ?? question.prompt,
+      options: body.options ?? question.options,
+      answerKey: body.answerKey ?? question.answerKey,
+      points: body.points ?? question.points,
+    })
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    if (data.lessonId && data.lessonId !== question.lessonId) {
+      const lesson = await prisma.lesson.findUnique({
+        where: { id: data.lessonId },
+        select: { examSectionId: true },
+      })
+      if (!lesson || lesson.examSectionId !== question.examSectionId) {
+        return NextResponse.json({ error: "Lesson must belong to the question's exam section" }, { status: 400 })
+      }
+    }
+
+    const updated = await prisma.bankQuestion.update({
+      where: { id },
+      data: { ...data, ...(body.isArchived !== undefined && { isArchived: body.isArchived }) },
+    })
+
+    return NextResponse.json(updated)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/question-bank/[id] - Remove a bank question
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Questions already used on an exam are archived instead so their history is kept.
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const question = await prisma.bankQuestion.findUnique({
+      where: { id },
+      select: { id: true, _count: { select: { examQuestions: true } } },
+    })
+    if (!question) {
+      return NextResponse.json({ error: "Question not found" }, { status: 404 })
+    }
+
+    if (question._count.examQuestions > 0) {
+      await prisma.bankQuestion.update({ where: { id }, data: { isArchived: true } })
+      return NextResponse.json({ success: true, archived: true })
+    }
+
+    await prisma.bankQuestion.delete({ where: { id } })
+
+    return NextResponse.json({ success: true, archived: false })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
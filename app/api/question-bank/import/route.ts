@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+
+// POST /api/question-bank/import - Save an exam's questions to its section's bank
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { examId, questionIds? } - all of the exam's questions when questionIds is omitted
+// Questions already in the bank are skipped. Each exam question is linked to
+// its new bank entry so this exam counts toward the question's usage.
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { examId, questionIds } = await request.json()
+    if (typeof examId !== "string" || !examId) {
+      return NextResponse.json({ error: "examId is required" }, { status: 400 })
+    }
+    if (questionIds !== undefined &&
+        (!Array.isArray(questionIds) || questionIds.some((id: unknown) => typeof id !== "string"))) {
+      return NextResponse.json({ error: "questionIds must be a list of question IDs" }, { status: 400 })
+    }
+
+    const exam = await prisma.exam.findUnique({
+      where: { id: examId },
+      select: { id: true, examSectionId: true },
+    })
+    if (!exam) {
+      return NextResponse.json({ error: "Exam not found" }, { status: 404 })
+    }
+
+    const questions = await prisma.examQuestion.findMany({
+      where: {
+        examId,
+        bankQuestionId: null,
+        ...(questionIds && { id: { in: questionIds } }),
+      },
+      orderBy: { order: "asc" },
+    })
+
+    const imported = await prisma.$transaction(async (tx) => {
+      for (const question of questions) {
+        const bankQuestion = await tx.bankQuestion.create({
+          data: {
+            examSectionId: exam.examSectionId,
+            type: question.type,
+            prompt: question.prompt,
+            options: question.options,
+            answerKey: question.answerKey,
+            points: question.points,
+            createdBy: user.id,
+          },
+        })
+        await tx.examQuestion.update({
+          where: { id: question.id },
+          data: { bankQuestionId: bankQuestion.id },
+        })
+      }
+      return questions.length
+    })
+
+    return NextResponse.json({ imported })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server"
+import { QuestionDifficulty } from "@prisma/client"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin, canManageExams } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { calculateBankQuestionStats, parseBankQuestionInput } from "@/lib/question-bank"
+
+// GET /api/question-bank - List bank questions with usage and performance stats
+// Auth: Admins
+// Query: examSectionId?, lessonId?, difficulty?, includeArchived? (true to show archived questions)
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const examSectionId = searchParams.get("examSectionId")
+    const lessonId = searchParams.get("lessonId")
+    const difficulty = searchParams.get("difficulty")
+    const includeArchived = searchParams.get("includeArchived") === "true"
+
+    if (difficulty && !Object.values(QuestionDifficulty).includes(difficulty as QuestionDifficulty)) {
+      return NextResponse.json({ error: "Invalid difficulty" }, { status: 400 })
+    }
+
+    const questions = await prisma.bankQuestion.findMany({
+      where: {
+        ...(examSectionId && { examSectionId }),
+        ...(lessonId && { lessonId }),
+        ...(difficulty && { difficulty: difficulty as QuestionDifficulty }),
+        ...(!includeArchived && { isArchived: false }),
+      },
+      include: {
+        examSection: { select: { id: true, displayName: true } },
+        lesson: { select: { id: true, title: true, lessonNumber: true } },
+        examQuestions: {
+          select: {
+            examId: true,
+            points: true,
+            exam: { select: { examDate: true } },
+            answers: { select: { pointsAwarded: true } },
+          },
+        },
+      },
+      orderBy: [{ examSectionId: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    return NextResponse.json(questions.map(({ examQuestions, ...question }) => ({
+      ...question,
+      usedInExamIds: examQuestions.map(q => q.examId),
+      stats: calculateBankQuestionStats(examQuestions.map(q => ({
+        examDate: q.exam.examDate,
+        points: q.points,
+        answers: q.answers,
+      }))),
+    })))
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/question-bank - Add a question to the bank
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { examSectionId, lessonId?, difficulty?, type, prompt, options?, answerKey?, points? }
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageExams(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { data, error } = parseBankQuestionInput(await request.json())
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const section = await prisma.examSection.findUnique({ where: { id: data.examSectionId } })
+    if (!section) {
+      return NextResponse.json({ error: "Exam section not found" }, { status: 404 })
+    }
+
+    if (data.lessonId) {
+      const lesson = await prisma.lesson.findUnique({
+        where: { id: data.lessonId },
+        select: { examSectionId: true },
+      })
+      if (!lesson || lesson.examSectionId !== data.examSectionId) {
+        return NextResponse.json({ error: "Lesson must belong to the question's exam section" }, { status: 400 })
+      }
+    }
+
+    const question = await prisma.bankQuestion.create({
+      data: { ...data, createdBy: user.id },
+    })
+
+    return NextResponse.json(question, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -2,15 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { put } from '@vercel/blob'
 import { prisma } from '@/lib/prisma'
 import { isInviteCodeValid } from '@/lib/registration-utils'
-
-const ALLOWED_FILE_TYPES = [
-  'image/png',
-  'image/jpeg',
-  'image/jpg',
-  'image/gif',
-  'application/pdf',
-]
-const MAX_FILE_SIZE = 4.5 * 1024 * 1024 // 4.5 MB (Vercel's server upload limit)
+import { validateUploadFile } from '@/lib/file-storage'
 
 /**
  * POST /api/registration/upload
@@ -71,24 +63,10 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Validate file type
-    if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-      return NextResponse.json(
-        {
-          error: `Invalid file type. Allowed types: ${ALLOWED_FILE_TYPES.join(', ')}`,
-        },
-        { status: 400 }
-      )
-    }
-
-    // Validate file size
-    if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        {
-          error: `File size exceeds ${MAX_FILE_SIZE / 1024 / 1024} MB limit`,
-        },
-        { status: 400 }
-      )
+    // Validate file type and size
+    const fileError = validateUploadFile(file)
+    if (fileError) {
+      return NextResponse.json({ error: fileError }, { status: 400 })
     }
 
     // Upload to Vercel Blob
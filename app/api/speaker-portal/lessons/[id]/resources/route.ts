@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError, assertSafeHttpUrl } from "@/lib/api-utils"
+import { canAttachResources } from "@/lib/lesson-resources"
+
+// POST /api/speaker-portal/lessons/[id]/resources - Add a link to a lesson you're speaking at, before or after it
+// Files are uploaded through POST /api/lessons/[id]/resources.
+// Auth: The speaker assigned to the lesson
+// Body: { title, url }
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const { title, url } = await request.json()
+
+    const lesson = await prisma.lesson.findUnique({
+      where: { id },
+      select: { status: true, assignedSpeaker: { select: { userId: true } } },
+    })
+    if (!lesson || lesson.assignedSpeaker?.userId !== user.id) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 })
+    }
+    if (!canAttachResources(lesson)) {
+      return NextResponse.json({ error: "Cancelled and no-class lessons can't take resources" }, { status: 400 })
+    }
+
+    if (typeof title !== "string" || !title.trim()) {
+      return NextResponse.json({ error: "A resource title is required" }, { status: 400 })
+    }
+    let safeUrl: string
+    try {
+      safeUrl = assertSafeHttpUrl(typeof url === "string" ? url : "", "Resource URL")
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+    }
+
+    const resource = await prisma.lessonResource.create({
+      data: { lessonId: id, title: title.trim(), url: safeUrl },
+      select: { id: true, title: true, url: true, type: true, filename: true, contentType: true, size: true, version: true },
+    })
+
+    return NextResponse.json(resource, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
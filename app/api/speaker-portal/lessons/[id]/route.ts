@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import { notifySpeakerResponded } from "@/lib/notifications"
+import { canRespondToLesson } from "@/lib/speakers"
+import { SpeakerStatus } from "@prisma/client"
+
+const RESPONSES = new Set<string>([SpeakerStatus.CONFIRMED, SpeakerStatus.DECLINED])
+
+// PATCH /api/speaker-portal/lessons/[id] - Confirm or decline speaking at a lesson
+// Auth: The speaker assigned to the lesson
+// Body: { status: "CONFIRMED" | "DECLINED", note? } - the note is passed on to curriculum managers
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const { status, note } = await request.json()
+
+    if (!RESPONSES.has(status)) {
+      return NextResponse.json({ error: "status must be CONFIRMED or DECLINED" }, { status: 400 })
+    }
+
+    const lesson = await prisma.lesson.findUnique({
+      where: { id },
+      select: {
+        title: true,
+        status: true,
+        scheduledDate: true,
+        assignedSpeaker: { select: { name: true, userId: true } },
+      },
+    })
+    if (!lesson || lesson.assignedSpeaker?.userId !== user.id) {
+      return NextResponse.json({ error: "Lesson not found" }, { status: 404 })
+    }
+    if (!canRespondToLesson(lesson)) {
+      return NextResponse.json({ error: "This lesson is no longer open for replies" }, { status: 400 })
+    }
+
+    const updated = await prisma.lesson.update({
+      where: { id },
+      data: { speakerStatus: status, speakerRespondedAt: new Date() },
+      select: { id: true, speakerStatus: true, speakerRespondedAt: true },
+    })
+
+    notifySpeakerResponded({
+      speakerName: lesson.assignedSpeaker.name,
+      lessonTitle: lesson.title,
+      lessonDate: lesson.scheduledDate,
+      status,
+      note: typeof note === "string" && note.trim() ? note.trim() : undefined,
+    }).catch(() => {})
+
+    return NextResponse.json(updated)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { handleApiError } from "@/lib/api-utils"
+import { canRespondToLesson } from "@/lib/speakers"
+import { PAST_LESSON_RESOURCE_DAYS, canAttachResources } from "@/lib/lesson-resources"
+
+// GET /api/speaker-portal - The signed-in user's speaker profile, upcoming lessons and recent past ones
+// Past lessons are listed so the speaker can still add material after giving them.
+// Auth: Any signed-in user linked to a speaker; others get { speaker: null }
+export async function GET() {
+  try {
+    const user = await requireAuth()
+
+    const speaker = await prisma.speaker.findUnique({
+      where: { userId: user.id },
+      select: { id: true, name: true, email: true, phone: true, bio: true, isActive: true },
+    })
+    if (!speaker) {
+      return NextResponse.json({ speaker: null, lessons: [] })
+    }
+
+    const since = new Date()
+    since.setUTCHours(0, 0, 0, 0)
+    since.setUTCDate(since.getUTCDate() - PAST_LESSON_RESOURCE_DAYS)
+
+    const lessons = await prisma.lesson.findMany({
+      where: { speakerId: speaker.id, scheduledDate: { gte: since } },
+      select: {
+        id: true,
+        title: true,
+        subtitle: true,
+        description: true,
+        scheduledDate: true,
+        startTime: true,
+        status: true,
+        speakerStatus: true,
+        speakerRespondedAt: true,
+        examSection: { select: { displayName: true } },
+        academicYear: { select: { name: true, defaultLessonStartTime: true } },
+        resources: {
+          select: { id: true, title: true, url: true, type: true, filename: true, contentType: true, size: true, version: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+      orderBy: { scheduledDate: "asc" },
+    })
+
+    return NextResponse.json({
+      speaker,
+      lessons: lessons.map(lesson => ({
+        ...lesson,
+        canRespond: canRespondToLesson(lesson),
+        canAttach: canAttachResources(lesson),
+      })),
+    })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
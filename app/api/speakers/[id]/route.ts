@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { canManageCurriculum } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { parseSpeakerInput } from "@/lib/speakers"
+
+// PATCH /api/speakers/[id] - Update a speaker
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { name?, email?, phone?, bio?, userId?, isActive? }
+// Renaming a speaker renames them on their lessons too.
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageCurriculum(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { data, error } = parseSpeakerInput(body, { partial: true })
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const existing = await prisma.speaker.findUnique({ where: { id }, select: { id: true, name: true } })
+    if (!existing) {
+      return NextResponse.json({ error: "Speaker not found" }, { status: 404 })
+    }
+
+    if (data.userId) {
+      const [account, linked] = await Promise.all([
+        prisma.user.findUnique({ where: { id: data.userId }, select: { id: true } }),
+        prisma.speaker.findUnique({ where: { userId: data.userId }, select: { id: true, name: true } }),
+      ])
+      if (!account) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 })
+      }
+      if (linked && linked.id !== id) {
+        return NextResponse.json({ error: `That account is already linked to ${linked.name}` }, { status: 409 })
+      }
+    }
+
+    const speaker = await prisma.$transaction(async (tx) => {
+      const updated = await tx.speaker.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(typeof body.isActive === "boolean" && { isActive: body.isActive }),
+        },
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+          _count: { select: { lessons: true } },
+        },
+      })
+      if (data.name && data.name !== existing.name) {
+        await tx.lesson.updateMany({ where: { speakerId: id }, data: { speaker: data.name } })
+      }
+      return updated
+    })
+
+    return NextResponse.json(speaker)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// DELETE /api/speakers/[id] - Remove a speaker
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Speakers with lessons are made inactive instead so their history is kept.
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageCurriculum(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { id } = await params
+    const speaker = await prisma.speaker.findUnique({
+      where: { id },
+      select: { id: true, _count: { select: { lessons: true } } },
+    })
+    if (!speaker) {
+      return NextResponse.json({ error: "Speaker not found" }, { status: 404 })
+    }
+
+    if (speaker._count.lessons > 0) {
+      await prisma.speaker.update({ where: { id }, data: { isActive: false } })
+      return NextResponse.json({ success: true, deactivated: true })
+    }
+
+    await prisma.speaker.delete({ where: { id } })
+
+    return NextResponse.json({ success: true, deactivated: false })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
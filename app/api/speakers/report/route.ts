@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { summarizeSpeakerLessons } from "@/lib/speakers"
+
+// GET /api/speakers/report - Lessons given per speaker and section
+// Auth: Admins
+// Query: academicYearId? - all years when omitted
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const academicYearId = searchParams.get("academicYearId")
+
+    const [lessons, speakers, sections] = await Promise.all([
+      prisma.lesson.findMany({
+        where: {
+          ...(academicYearId && { academicYearId }),
+          OR: [{ speakerId: { not: null } }, { speaker: { not: null } }],
+        },
+        select: {
+          speakerId: true,
+          speaker: true,
+          status: true,
+          scheduledDate: true,
+          examSection: { select: { id: true, displayName: true } },
+        },
+      }),
+      prisma.speaker.findMany({ select: { id: true, name: true } }),
+      prisma.examSection.findMany({ select: { displayName: true }, orderBy: { displayName: "asc" } }),
+    ])
+
+    const rows = summarizeSpeakerLessons(lessons, new Map(speakers.map(s => [s.id, s.name])))
+
+    return NextResponse.json({ sections: sections.map(s => s.displayName), rows })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin, canManageCurriculum } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { parseSpeakerInput, type SpeakerInput } from "@/lib/speakers"
+
+// GET /api/speakers - The speaker directory
+// Auth: Admins
+// Query: includeInactive=true to list inactive speakers too
+export async function GET(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get("includeInactive") === "true"
+
+    const speakers = await prisma.speaker.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        _count: { select: { lessons: true } },
+      },
+      orderBy: { name: "asc" },
+    })
+
+    return NextResponse.json(speakers)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/speakers - Add a speaker
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { name, email?, phone?, bio?, userId? } - userId links an account for requests and the speaker portal
+export async function POST(request: Request) {
+  try {
+    const user = await requireAuth()
+
+    if (!canManageCurriculum(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { data, error } = parseSpeakerInput(await request.json())
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    if (data.userId) {
+      const [account, linked] = await Promise.all([
+        prisma.user.findUnique({ where: { id: data.userId }, select: { id: true } }),
+        prisma.speaker.findUnique({ where: { userId: data.userId }, select: { name: true } }),
+      ])
+      if (!account) {
+        return NextResponse.json({ error: "User not found" }, { status: 404 })
+      }
+      if (linked) {
+        return NextResponse.json({ error: `That account is already linked to ${linked.name}` }, { status: 409 })
+      }
+    }
+
+    const speaker = await prisma.speaker.create({
+      data: data as SpeakerInput,
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        _count: { select: { lessons: true } },
+      },
+    })
+
+    return NextResponse.json(speaker, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
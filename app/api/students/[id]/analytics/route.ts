@@ -1,15 +1,22 @@
 import { NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
-import { ExamYearLevel, LessonStatus, NoteSubmissionStatus, UserRole } from "@prisma/client"
+import { ExamSittingType, ExamYearLevel, LessonStatus, NoteSubmissionStatus, UserRole } from "@prisma/client"
 import { canViewStudents } from "@/lib/roles"
-import { handleApiError } from "@/lib/api-utils"
+import { handleApiError, getAttendancePolicy } from "@/lib/api-utils"
 import {
   countAttendanceStatuses,
   calculateAttendancePercentage,
+  calculateEffectivePresent,
+  calculateAverageLateness,
   meetsAttendanceRequirement
 } from "@/lib/attendance-utils"
+import { ATTENDANCE_POLICY_SELECT, toAttendancePolicy } from "@/lib/attendance-policy"
 import { calculateSSAttendance, getAssignmentWeeks } from "@/lib/sunday-school-utils"
+import { resolveEffectiveScores } from "@/lib/exam-retakes"
+import { calculateExamStats, type ExamScore } from "@/lib/attendance"
+import { canSeeUnreleasedScores, releasedExamWhere } from "@/lib/exam-release"
+import { COUNTED_CONDUCT_INCIDENTS } from "@/lib/conduct-incidents"
 
 // GET /api/students/[id]/analytics - Get student analytics including graduation status
 // NOTE: academicYearId parameter is optional. If not provided, aggregates across ALL academic years.
@@ -108,6 +115,9 @@ export async function GET(
       }
     }
 
+    // Attendance rules for the requested year (the active year's when aggregating across years)
+    const policy = await getAttendancePolicy(academicYearId)
+
     // Build lesson filter - if academicYearId provided, filter by it; otherwise include all
     // Only count lessons that have attendance records (i.e., attendance was taken)
     // Exclude exam day lessons and cancelled lessons from attendance calculations
@@ -136,6 +146,7 @@ export async function GET(
       select: {
         status: true,
         arrivedAt: true,
+        minutesLate: true,
         conductRemoval: true,
         notEnrolledYet: true,
         lesson: {
@@ -150,22 +161,22 @@ export async function GET(
     // (late start). These are shown as N/A rather than a regular excuse.
     const notEnrolledYetCount = attendanceRecords.filter(r => r.notEnrolledYet).length
 
-    // Count conduct removals across all lessons (not filtered by academicYearId)
-    const conductDismissalCount = await prisma.attendanceRecord.count({
-      where: { studentId, conductRemoval: true }
+    // Count conduct incidents (removals and logged incidents) across all years
+    const conductDismissalCount = await prisma.conductIncident.count({
+      where: { studentId, ...COUNTED_CONDUCT_INCIDENTS }
     })
 
     // Calculate attendance using shared utility
-    const attendanceCounts = countAttendanceStatuses(attendanceRecords)
+    const attendanceCounts = countAttendanceStatuses(attendanceRecords, policy)
     const { present: presentCount, late: lateCount, absent: absentCount, excused: excusedCount } = attendanceCounts
 
     // Calculate totals using shared utilities
     const studentTotalLessons = presentCount + lateCount + absentCount + excusedCount
-    const effectivePresent = presentCount + (lateCount / 2)
+    const effectivePresent = calculateEffectivePresent(attendanceCounts, policy)
     const effectiveTotalLessons = studentTotalLessons - excusedCount
-    const attendancePercentage = calculateAttendancePercentage(attendanceCounts)
+    const attendancePercentage = calculateAttendancePercentage(attendanceCounts, policy)
     // If no attendance data, treat as "met" (not penalized) until data exists
-    const attendanceMet = attendancePercentage === null ? true : meetsAttendanceRequirement(attendancePercentage)
+    const attendanceMet = attendancePercentage === null ? true : meetsAttendanceRequirement(attendancePercentage, policy.requiredPercentage)
 
     // Build exam filter - if academicYearId provided, filter by it; otherwise include all
     // Map yearLevel to ExamYearLevel (BOTH is always included, plus the student's current year)
@@ -174,42 +185,55 @@ export async function GET(
       ? [ExamYearLevel.BOTH, ExamYearLevel.YEAR_1, ExamYearLevel.YEAR_2]
       : [ExamYearLevel.BOTH, ExamYearLevel.YEAR_1]
 
+    // Students and mentors don't see exams whose scores haven't been released
+    const releaseFilter = canSeeUnreleasedScores(user.role) ? {} : releasedExamWhere()
+
     const examWhereClause = academicYearId
       ? {
           studentId,
           exam: {
             academicYearId,
-            yearLevel: { in: validYearLevels }
+            yearLevel: { in: validYearLevels },
+            ...releaseFilter
           }
         }
       : {
           studentId,
           exam: {
-            yearLevel: { in: validYearLevels }
+            yearLevel: { in: validYearLevels },
+            ...releaseFilter
           }
         }
 
-    // Get exam scores by section
+    // Get exam scores by section, including makeup and retake sittings
     const examScores = await prisma.examScore.findMany({
       where: examWhereClause,
       include: {
         exam: {
           include: {
-            examSection: true
+            examSection: true,
+            academicYear: { select: { examRetakePolicy: true } }
           }
         }
       }
     })
+    // One score per exam: the sitting the year's retake policy says counts
+    const effectiveScores = resolveEffectiveScores(examScores)
 
     // Get all exams applicable to this student's year level to find missing ones
+    // (makeups and retakes are extra sittings, not extra exams)
     const allApplicableExams = await prisma.exam.findMany({
       where: academicYearId
         ? {
             academicYearId,
-            yearLevel: { in: validYearLevels }
+            yearLevel: { in: validYearLevels },
+            sittingType: ExamSittingType.REGULAR,
+            ...releaseFilter
           }
         : {
-            yearLevel: { in: validYearLevels }
+            yearLevel: { in: validYearLevels },
+            sittingType: ExamSittingType.REGULAR,
+            ...releaseFilter
           },
       include: {
         examSection: true
@@ -221,7 +245,7 @@ export async function GET(
 
     // Find exams the student hasn't taken (only past exams, not upcoming ones)
     const now = new Date()
-    const takenExamIds = new Set(examScores.map(s => s.exam.id))
+    const takenExamIds = new Set(effectiveScores.map(s => s.originalExamId))
     const missingExams = allApplicableExams
       .filter(exam => !takenExamIds.has(exam.id) && new Date(exam.examDate) < now)
       .map(exam => ({
@@ -233,39 +257,58 @@ export async function GET(
         sectionDisplayName: exam.examSection.displayName
       }))
 
-    // Group scores by section
+    // Group scores by section (curved percentages, with exam and section weights)
     const scoresBySection: { [key: string]: number[] } = {}
-    examScores.forEach(score => {
-      const sectionName = score.exam.examSection.name
+    const weightedScores: ExamScore[] = effectiveScores.map(score => {
+      const sectionName = score.base.exam.examSection.name
       if (!scoresBySection[sectionName]) {
         scoresBySection[sectionName] = []
       }
       scoresBySection[sectionName].push(score.percentage)
-    })
-
-    // Calculate averages per section
-    const sectionAverages = Object.entries(scoresBySection).map(([section, scores]) => {
-      const average = scores.reduce((a, b) => a + b, 0) / scores.length
       return {
-        section,
-        average,
-        scores,
-        passingMet: average >= 60
+        percentage: score.percentage,
+        sectionName,
+        weight: score.base.exam.weight,
+        sectionWeight: score.base.exam.examSection.weight
       }
     })
 
-    // Calculate overall average
-    const allScores = Object.values(scoresBySection).flat()
+    // Exams sat more than once, with every sitting kept for the record
+    const examHistory = effectiveScores
+      .filter(score => score.sittings.length > 1 || score.base.exam.sittingType !== ExamSittingType.REGULAR)
+      .map(score => ({
+        originalExamId: score.originalExamId,
+        sectionName: score.base.exam.examSection.name,
+        sectionDisplayName: score.base.exam.examSection.displayName,
+        policy: score.policy,
+        effectivePercentage: score.percentage,
+        capped: score.capped,
+        sittings: score.sittings.map(sitting => ({
+          examId: sitting.exam.id,
+          sittingType: sitting.exam.sittingType,
+          examDate: sitting.exam.examDate,
+          score: sitting.score,
+          totalPoints: sitting.exam.totalPoints,
+          percentage: sitting.percentage,
+          rawPercentage: sitting.rawPercentage ?? sitting.percentage,
+          counted: sitting === score.counted
+        }))
+      }))
+
+    // Weighted section and overall averages
+    const examStats = calculateExamStats(weightedScores, 75, 60)
+    const sectionAverages = examStats.sectionAverages.map(section => ({
+      ...section,
+      scores: scoresBySection[section.section]
+    }))
+
     // If no exam scores yet, return null (not 0) - don't penalize for exams that haven't happened
-    const overallAverage = allScores.length > 0
-      ? allScores.reduce((a, b) => a + b, 0) / allScores.length
-      : null
+    const overallAverage = weightedScores.length > 0 ? examStats.overallAverage : null
     // If no exam data, treat as "met" (not penalized) until data exists
-    const overallAverageMet = overallAverage === null ? true : overallAverage >= 75
+    const overallAverageMet = overallAverage === null ? true : examStats.overallAverageMet
 
-    // Check if all sections have at least 60%
     // If no sections yet, treat as passing (not penalized)
-    const allSectionsPassing = sectionAverages.length === 0 ? true : sectionAverages.every(s => s.passingMet)
+    const allSectionsPassing = examStats.allSectionsPassing
 
     // Async student data
     let asyncNotes = null
@@ -294,12 +337,14 @@ export async function GET(
         where: { studentId },
         include: {
           logs: true,
-          academicYear: { select: { id: true, name: true } }
+          academicYear: { select: { id: true, name: true, ...ATTENDANCE_POLICY_SELECT } }
         }
       })
 
       const assignmentData = ssAssignments.map(assignment => {
-        const attendance = calculateSSAttendance(assignment.logs, assignment.totalWeeks)
+        // Each assignment is judged by the Sunday School threshold of its own year
+        const ssRequired = toAttendancePolicy(assignment.academicYear).sundaySchoolRequiredPercentage
+        const attendance = calculateSSAttendance(assignment.logs, assignment.totalWeeks, ssRequired)
         const weeks = getAssignmentWeeks(assignment.startDate, assignment.totalWeeks)
         const weekDetails = weeks.map(w => {
           const log = assignment.logs.find(l => l.weekNumber === w.weekNumber)
@@ -314,7 +359,7 @@ export async function GET(
           id: assignment.id,
           grade: assignment.grade,
           yearLevel: assignment.yearLevel,
-          academicYear: assignment.academicYear,
+          academicYear: { id: assignment.academicYear.id, name: assignment.academicYear.name },
           totalWeeks: assignment.totalWeeks,
           startDate: assignment.startDate,
           isActive: assignment.isActive,
@@ -324,7 +369,8 @@ export async function GET(
             absent: attendance.absent,
             effectiveTotal: attendance.effectiveTotal,
             percentage: attendance.percentage,
-            met: attendance.met
+            met: attendance.met,
+            required: attendance.required
           } : null,
           weeks: weekDetails
         }
@@ -361,7 +407,10 @@ export async function GET(
         effectivePresent,
         percentage: attendancePercentage,
         met: attendanceMet,
-        required: 75,
+        required: policy.requiredPercentage,
+        lateWeight: policy.lateWeight,
+        conductRemovalCountsAsAbsence: policy.conductRemovalCountsAsAbsence,
+        averageMinutesLate: calculateAverageLateness(attendanceRecords),
         conductDismissalCount,
       },
       exams: {
@@ -373,7 +422,8 @@ export async function GET(
         requiredMinimum: 60,
         missingExams,
         totalApplicableExams: allApplicableExams.length,
-        examsTaken: examScores.length
+        examsTaken: effectiveScores.length,
+        examHistory
       },
       graduation: {
         eligible: graduationEligible,
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+
+// GET /api/students/[id]/attendance-history - Attendance change log for a student, newest first
+// Optional query: lessonId (limit to one lesson)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id: studentId } = await params
+
+    // Same audience as the student details view
+    if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const lessonId = searchParams.get('lessonId')
+
+    const history = await prisma.attendanceHistory.findMany({
+      where: {
+        studentId,
+        ...(lessonId && { lessonId }),
+      },
+      include: {
+        lesson: {
+          select: {
+            id: true,
+            title: true,
+            lessonNumber: true,
+            scheduledDate: true,
+          }
+        },
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            role: true,
+          }
+        }
+      },
+      orderBy: { changedAt: 'desc' },
+      take: 200,
+    })
+
+    return NextResponse.json(history)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth } from "@/lib/auth-helpers"
+import { isAdmin, isMentor, canManageData } from "@/lib/roles"
+import { handleApiError } from "@/lib/api-utils"
+import { escalateRepeatIncident, parseConductIncidentInput } from "@/lib/conduct-incidents"
+import { notifyConductEscalated } from "@/lib/notifications"
+
+// GET /api/students/[id]/conduct-incidents - List a student's conduct incidents
+// Auth: admins (including PRIEST) or the student's mentor
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id: studentId } = await params
+
+    if (isMentor(user.role)) {
+      const enrollment = await prisma.studentEnrollment.findUnique({
+        where: { studentId },
+        select: { mentorId: true },
+      })
+      if (enrollment?.mentorId !== user.id) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+      }
+    } else if (!isAdmin(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const incidents = await prisma.conductIncident.findMany({
+      where: { studentId },
+      include: {
+        lesson: { select: { id: true, title: true, scheduledDate: true } },
+        academicYear: { select: { id: true, name: true } },
+        reporter: { select: { id: true, name: true } },
+        resolver: { select: { id: true, name: true } },
+      },
+      orderBy: { occurredAt: "desc" },
+    })
+
+    return NextResponse.json(incidents)
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
+
+// POST /api/students/[id]/conduct-incidents - Log a conduct incident
+// Auth: SUPER_ADMIN, SERVANT_PREP
+// Body: { description, severity?, occurredAt?, academicYearId?, followUpActions? }
+// Defaults to the active academic year; repeat incidents escalate to the priests.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id: studentId } = await params
+
+    if (!canManageData(user.role)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { data, error } = parseConductIncidentInput(body, { requireDescription: true })
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const student = await prisma.user.findUnique({
+      where: { id: studentId },
+      select: { id: true, name: true },
+    })
+    if (!student) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 })
+    }
+
+    const academicYear = typeof body.academicYearId === "string"
+      ? await prisma.academicYear.findUnique({ where: { id: body.academicYearId }, select: { id: true } })
+      : await prisma.academicYear.findFirst({ where: { isActive: true }, select: { id: true } })
+    if (!academicYear) {
+      return NextResponse.json({ error: "Academic year not found" }, { status: 404 })
+    }
+
+    const { incident, escalation } = await prisma.$transaction(async (tx) => {
+      const incident = await tx.conductIncident.create({
+        data: {
+          studentId,
+          academicYearId: academicYear.id,
+          occurredAt: data.occurredAt ?? new Date(),
+          severity: data.severity,
+          description: data.description!,
+          followUpActions: data.followUpActions,
+          reportedBy: user.id,
+        },
+      })
+      const escalation = await escalateRepeatIncident(incident, tx)
+      return { incident, escalation }
+    })
+
+    if (escalation) {
+      notifyConductEscalated({
+        studentId,
+        studentName: student.name,
+        incidentCount: escalation.incidentCount,
+      }).catch(() => {})
+    }
+
+    return NextResponse.json({ ...incident, escalatedAt: escalation?.escalatedAt ?? null }, { status: 201 })
+  } catch (error: unknown) {
+    return handleApiError(error)
+  }
+}
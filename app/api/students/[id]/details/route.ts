@@ -2,7 +2,7 @@ import { NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { isAdmin } from "@/lib/roles"
-import { LessonStatus } from "@prisma/client"
+import { ExamSittingType, LessonStatus } from "@prisma/client"
 
 // GET /api/students/[id]/details - Get detailed student data for editing
 // NOTE: academicYearId parameter is optional. If not provided, returns data across ALL academic years.
@@ -113,6 +113,9 @@ export async function GET(
             id: true,
             name: true
           }
+        },
+        attachments: {
+          orderBy: { createdAt: 'asc' }
         }
       },
       orderBy: {
@@ -122,7 +125,7 @@ export async function GET(
       }
     })
 
-    // Get all exams (to show missing scores)
+    // Get all regular exams (to show missing scores; makeups and retakes are extra sittings)
     // Limited to recent 6 months for performance
     const sixMonthsAgo = new Date()
     sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6)
@@ -135,6 +138,7 @@ export async function GET(
             ['BOTH', student.enrollments[0].yearLevel] :
             ['BOTH']
         },
+        sittingType: ExamSittingType.REGULAR,
         examDate: {
           gte: sixMonthsAgo
         }
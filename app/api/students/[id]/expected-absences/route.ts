@@ -1,8 +1,10 @@
 import { NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
-import { isAdmin, canManageData } from "@/lib/roles"
+import { isAdmin, isMentor, canManageData } from "@/lib/roles"
 import { applyExpectedAbsenceToRecords, handleApiError } from "@/lib/api-utils"
+import { parseExpectedAbsenceInput } from "@/lib/expected-absence-utils"
+import { notifyAbsenceRequested } from "@/lib/notifications"
 
 // GET /api/students/[id]/expected-absences - List a student's expected absences
 export async function GET(
@@ -13,11 +15,19 @@ export async function GET(
     const user = await requireAuth()
     const { id: studentId } = await params
 
-    // Students may view their own; admins can view any
+    // Students may view their own, mentors their mentees'; admins can view any
     if (user.role === "STUDENT" && user.id !== studentId) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 })
     }
-    if (user.role !== "STUDENT" && !isAdmin(user.role)) {
+    if (isMentor(user.role)) {
+      const enrollment = await prisma.studentEnrollment.findUnique({
+        where: { studentId },
+        select: { mentorId: true },
+      })
+      if (enrollment?.mentorId !== user.id) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+      }
+    } else if (user.role !== "STUDENT" && !isAdmin(user.role)) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 })
     }
 
@@ -25,6 +35,8 @@ export async function GET(
       where: { studentId },
       include: {
         creator: { select: { id: true, name: true } },
+        reviewer: { select: { id: true, name: true } },
+        attachments: { orderBy: { createdAt: "asc" } },
       },
       orderBy: { startDate: "desc" },
     })
@@ -36,7 +48,9 @@ export async function GET(
 }
 
 // POST /api/students/[id]/expected-absences - Create an expected absence
-// Auto-excuses any existing attendance records that fall within the window.
+// Admins create it approved, auto-excusing any existing attendance records that
+// fall within the window. Students request their own, which stay PENDING until
+// an admin or their mentor reviews them.
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -45,51 +59,58 @@ export async function POST(
     const user = await requireAuth()
     const { id: studentId } = await params
 
-    if (!canManageData(user.role)) {
+    const isOwnRequest = user.role === "STUDENT" && user.id === studentId
+    if (!canManageData(user.role) && !isOwnRequest) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 })
     }
 
     const body = await request.json()
-    const { startDate, endDate, reason } = body
-
-    if (!startDate || !endDate || !reason || !reason.trim()) {
-      return NextResponse.json(
-        { error: "Start date, end date, and reason are required" },
-        { status: 400 }
-      )
-    }
-
-    const start = new Date(startDate)
-    const end = new Date(endDate)
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
-      return NextResponse.json({ error: "Invalid date(s)" }, { status: 400 })
-    }
-    // Make the window inclusive of the whole final day so a lesson scheduled at
-    // any time on the end date is covered.
-    end.setUTCHours(23, 59, 59, 999)
-    if (end < start) {
-      return NextResponse.json(
-        { error: "End date must be on or after the start date" },
-        { status: 400 }
-      )
+    const { data, error } = parseExpectedAbsenceInput(body)
+    if (!data) {
+      return NextResponse.json({ error }, { status: 400 })
     }
+    const { startDate: start, endDate: end, reason } = data
 
     // Verify the student exists
     const student = await prisma.user.findUnique({
       where: { id: studentId },
-      select: { id: true },
+      select: { id: true, name: true },
     })
     if (!student) {
       return NextResponse.json({ error: "Student not found" }, { status: 404 })
     }
 
+    if (isOwnRequest) {
+      const requested = await prisma.expectedAbsence.create({
+        data: {
+          studentId,
+          startDate: start,
+          endDate: end,
+          reason,
+          status: "PENDING",
+          createdBy: user.id,
+        },
+      })
+
+      // Notify reviewers (non-blocking)
+      notifyAbsenceRequested({
+        studentId,
+        studentName: student.name,
+        startDate: start,
+        endDate: end,
+        reason,
+      }).catch(() => {})
+
+      return NextResponse.json(requested, { status: 201 })
+    }
+
     const absence = await prisma.$transaction(async (tx) => {
       const created = await tx.expectedAbsence.create({
         data: {
           studentId,
           startDate: start,
           endDate: end,
-          reason: reason.trim(),
+          reason,
           createdBy: user.id,
         },
       })
@@ -101,7 +122,8 @@ export async function POST(
           studentId,
           startDate: start,
           endDate: end,
-          reason: reason.trim(),
+          reason,
+          createdBy: user.id,
         },
         tx
       )
@@ -2,14 +2,21 @@ import { NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { requireAuth } from "@/lib/auth-helpers"
 import { canViewStudents } from "@/lib/roles"
-import { LessonStatus, NoteSubmissionStatus, UserRole } from "@prisma/client"
-import { handleApiError } from "@/lib/api-utils"
+import { AttendanceStatus, LessonStatus, NoteSubmissionStatus, UserRole } from "@prisma/client"
+import { handleApiError, getAttendancePolicy } from "@/lib/api-utils"
 import {
   calculateAttendancePercentage,
+  calculateEffectivePresent,
   meetsAttendanceRequirement,
+  tallyAttendanceStatus,
   type AttendanceCounts
 } from "@/lib/attendance-utils"
+import { ATTENDANCE_POLICY_SELECT, toAttendancePolicy } from "@/lib/attendance-policy"
 import { calculateSSAttendance } from "@/lib/sunday-school-utils"
+import { EXAM_SITTING_SELECT, resolveEffectiveScores } from "@/lib/exam-retakes"
+import { calculateExamStats, type ExamScore } from "@/lib/attendance"
+import { canSeeUnreleasedScores, releasedExamWhere } from "@/lib/exam-release"
+import { COUNTED_CONDUCT_INCIDENTS } from "@/lib/conduct-incidents"
 
 // GET /api/students/analytics/batch - Get analytics for all students efficiently
 // OPTIMIZED: Uses database aggregations instead of fetching all records
@@ -103,17 +110,25 @@ export async function GET(request: Request) {
       attendanceRecords: { some: {} }
     }
 
-    // Build exam filter - if academicYearId provided, filter by it; otherwise include all
+    // Build exam filter - if academicYearId provided, filter by it; otherwise include all.
+    // Mentors only see exams whose scores have been released.
+    const releaseFilter = canSeeUnreleasedScores(user.role as UserRole) ? {} : releasedExamWhere()
     const examFilter = academicYearId
-      ? { exam: { academicYearId } }
-      : {}
+      ? { exam: { academicYearId, ...releaseFilter } }
+      : { exam: releaseFilter }
+
+    // Attendance rules for the requested year (the active year's when aggregating across years)
+    const policy = await getAttendancePolicy(academicYearId)
 
     // Get academic years for reference
     const academicYears = await prisma.academicYear.findMany({
       orderBy: { startDate: 'asc' },
-      select: { id: true, name: true }
+      select: { id: true, name: true, ...ATTENDANCE_POLICY_SELECT }
     })
 
+    // Per-year policies for the Year 1 / Year 2 breakdown and Sunday School
+    const policyByAcademicYear = new Map(academicYears.map(ay => [ay.id, toAttendancePolicy(ay)]))
+
     // Create academic year ID lookup by name
     const academicYearIdByName = new Map<string, string>()
     academicYears.forEach(ay => {
@@ -148,7 +163,7 @@ export async function GET(request: Request) {
     const asyncStudentIds = enrollments.filter(e => e.isAsyncStudent).map(e => e.studentId)
 
     // Run all queries in parallel for better performance
-    const [lessonsWithAttendanceCount, attendanceAggregates, examAggregates, examScoresWithSections, attendanceWithYear, ssAssignments, asyncNoteAggregates, conductRemovalCounts] = await Promise.all([
+    const [lessonsWithAttendanceCount, attendanceAggregates, examScoresWithSections, attendanceWithYear, ssAssignments, asyncNoteAggregates, conductRemovalCounts, latenessAggregates] = await Promise.all([
       // Count only lessons that have attendance records (completed lessons with attendance taken)
       prisma.lesson.count({
         where: lessonsWithAttendanceFilter
@@ -157,7 +172,7 @@ export async function GET(request: Request) {
       // Get attendance counts grouped by student and status
       // Much more efficient than fetching all records and filtering in JS
       prisma.attendanceRecord.groupBy({
-        by: ['studentId', 'status'],
+        by: ['studentId', 'status', 'conductRemoval'],
         where: {
           studentId: { in: studentIds },
           lesson: lessonsWithAttendanceFilter
@@ -165,18 +180,8 @@ export async function GET(request: Request) {
         _count: { status: true }
       }),
 
-      // Get exam score averages per student using DB aggregation
-      prisma.examScore.groupBy({
-        by: ['studentId'],
-        where: {
-          studentId: { in: studentIds },
-          ...examFilter
-        },
-        _avg: { percentage: true },
-        _count: { id: true }
-      }),
-
-      // Get exam scores with section info for section-level averages
+      // Get exam scores with section info for averages; makeups and retakes
+      // are resolved to one effective score per exam below
       prisma.examScore.findMany({
         where: {
           studentId: { in: studentIds },
@@ -184,12 +189,17 @@ export async function GET(request: Request) {
         },
         select: {
           studentId: true,
+          score: true,
           percentage: true,
           exam: {
             select: {
+              ...EXAM_SITTING_SELECT,
+              weight: true,
               examSection: {
                 select: {
-                  name: true
+                  name: true,
+                  passingScore: true,
+                  weight: true
                 }
               }
             }
@@ -206,6 +216,7 @@ export async function GET(request: Request) {
         select: {
           studentId: true,
           status: true,
+          conductRemoval: true,
           lesson: {
             select: {
               academicYearId: true
@@ -231,14 +242,26 @@ export async function GET(request: Request) {
           })
         : Promise.resolve([]),
 
-      // Count conduct removals per student
-      prisma.attendanceRecord.groupBy({
+      // Count conduct incidents per student (removals and logged incidents)
+      prisma.conductIncident.groupBy({
         by: ['studentId'],
         where: {
           studentId: { in: studentIds },
-          conductRemoval: true,
+          ...COUNTED_CONDUCT_INCIDENTS,
         },
         _count: { id: true }
+      }),
+
+      // Average minutes late per student (LATE records with an arrival time)
+      prisma.attendanceRecord.groupBy({
+        by: ['studentId'],
+        where: {
+          studentId: { in: studentIds },
+          status: AttendanceStatus.LATE,
+          minutesLate: { not: null },
+          lesson: lessonsWithAttendanceFilter
+        },
+        _avg: { minutesLate: true }
       })
     ])
 
@@ -248,33 +271,30 @@ export async function GET(request: Request) {
       if (!attendanceByStudent.has(agg.studentId)) {
         attendanceByStudent.set(agg.studentId, { present: 0, late: 0, absent: 0, excused: 0 })
       }
-      const record = attendanceByStudent.get(agg.studentId)!
-      if (agg.status === 'PRESENT') record.present = agg._count.status
-      else if (agg.status === 'LATE') record.late = agg._count.status
-      else if (agg.status === 'ABSENT') record.absent = agg._count.status
-      else if ((agg.status as string) === 'EXCUSED') record.excused = agg._count.status
+      tallyAttendanceStatus(attendanceByStudent.get(agg.studentId)!, agg, policy, agg._count.status)
     }
 
-    const examsByStudent = new Map<string, { avg: number; count: number }>()
-    for (const agg of examAggregates) {
-      examsByStudent.set(agg.studentId, {
-        avg: agg._avg.percentage || 0,
-        count: agg._count.id
-      })
+    const averageLatenessByStudent = new Map<string, number>()
+    for (const agg of latenessAggregates) {
+      if (agg._avg.minutesLate !== null) {
+        averageLatenessByStudent.set(agg.studentId, Math.round(agg._avg.minutesLate * 10) / 10)
+      }
     }
 
-    // Build section averages per student
-    const sectionScoresByStudent = new Map<string, Map<string, number[]>>()
-    for (const score of examScoresWithSections) {
-      if (!sectionScoresByStudent.has(score.studentId)) {
-        sectionScoresByStudent.set(score.studentId, new Map())
-      }
-      const studentSections = sectionScoresByStudent.get(score.studentId)!
-      const sectionName = score.exam.examSection.name
-      if (!studentSections.has(sectionName)) {
-        studentSections.set(sectionName, [])
+    const effectiveExamScores = resolveEffectiveScores(examScoresWithSections)
+
+    // Curved percentages with exam and section weights, per student
+    const weightedScoresByStudent = new Map<string, ExamScore[]>()
+    for (const score of effectiveExamScores) {
+      if (!weightedScoresByStudent.has(score.studentId)) {
+        weightedScoresByStudent.set(score.studentId, [])
       }
-      studentSections.get(sectionName)!.push(score.percentage)
+      weightedScoresByStudent.get(score.studentId)!.push({
+        percentage: score.percentage,
+        sectionName: score.base.exam.examSection.name,
+        weight: score.base.exam.weight,
+        sectionWeight: score.base.exam.examSection.weight
+      })
     }
 
     // Build attendance by student by academic year (raw data, will be mapped per-student later)
@@ -289,16 +309,11 @@ export async function GET(request: Request) {
       if (!studentYearMap.has(academicYearId)) {
         studentYearMap.set(academicYearId, { present: 0, late: 0, absent: 0, excused: 0 })
       }
-      const yearRecord = studentYearMap.get(academicYearId)!
-
-      if (record.status === 'PRESENT') yearRecord.present++
-      else if (record.status === 'LATE') yearRecord.late++
-      else if (record.status === 'ABSENT') yearRecord.absent++
-      else if ((record.status as string) === 'EXCUSED') yearRecord.excused++
+      tallyAttendanceStatus(studentYearMap.get(academicYearId)!, record, policyByAcademicYear.get(academicYearId))
     }
 
     // Build SS assignment lookup per student
-    type SSAssignment = { studentId: string; totalWeeks: number; logs: { status: import('@prisma/client').SundaySchoolLogStatus; weekNumber: number }[] }
+    type SSAssignment = { studentId: string; academicYearId: string; totalWeeks: number; logs: { status: import('@prisma/client').SundaySchoolLogStatus; weekNumber: number }[] }
     const ssAssignmentsByStudent = new Map<string, SSAssignment[]>()
     for (const assignment of ssAssignments as SSAssignment[]) {
       if (!ssAssignmentsByStudent.has(assignment.studentId)) {
@@ -307,7 +322,7 @@ export async function GET(request: Request) {
       ssAssignmentsByStudent.get(assignment.studentId)!.push(assignment)
     }
 
-    // Build conduct removal counts per student
+    // Build conduct incident counts per student
     const conductRemovalByStudent = new Map<string, number>()
     for (const agg of conductRemovalCounts) {
       conductRemovalByStudent.set(agg.studentId, agg._count.id)
@@ -331,7 +346,6 @@ export async function GET(request: Request) {
     const studentAnalytics = enrollments.map(enrollment => {
       const studentId = enrollment.studentId
       const attendance = attendanceByStudent.get(studentId) || { present: 0, late: 0, absent: 0, excused: 0 }
-      const exams = examsByStudent.get(studentId) || { avg: 0, count: 0 }
 
       // Get per-student year mapping based on their current year level
       const studentYearMapping = getStudentYearMapping(enrollment.yearLevel)
@@ -355,58 +369,56 @@ export async function GET(request: Request) {
 
       // Overall attendance calculation using shared utility
       // Uses STUDENT'S attendance record count, not ALL lessons in the system
-      const overallAttendancePercentage = calculateAttendancePercentage(attendance as AttendanceCounts)
+      const overallAttendancePercentage = calculateAttendancePercentage(attendance as AttendanceCounts, policy)
       const studentTotalLessons = presentCount + lateCount + absentCount + excusedCount
-      const totalEffectivePresent = presentCount + (lateCount / 2)
+      const totalEffectivePresent = calculateEffectivePresent(attendance, policy)
       const effectiveTotalLessons = studentTotalLessons - excusedCount
 
-      // Year 1 attendance - use shared utility
-      const year1AttendancePercentage = calculateAttendancePercentage(year1Attendance as AttendanceCounts)
+      // Year 1 attendance - use shared utility with that year's policy
+      const year1Policy = policyByAcademicYear.get(year1AcademicYearId ?? '')
+      const year1AttendancePercentage = calculateAttendancePercentage(year1Attendance as AttendanceCounts, year1Policy)
       const year1StudentTotalLessons = year1Attendance.present + year1Attendance.late + year1Attendance.absent + year1Attendance.excused
-      const year1EffectivePresent = year1Attendance.present + (year1Attendance.late / 2)
+      const year1EffectivePresent = calculateEffectivePresent(year1Attendance, year1Policy)
       const year1EffectiveTotalLessons = year1StudentTotalLessons - year1Attendance.excused
 
       // Year 2 attendance (null if student is still in Year 1) - use shared utility
+      const year2Policy = policyByAcademicYear.get(year2AcademicYearId ?? '')
       const year2AttendancePercentage = year2Attendance
-        ? calculateAttendancePercentage(year2Attendance as AttendanceCounts)
+        ? calculateAttendancePercentage(year2Attendance as AttendanceCounts, year2Policy)
         : null
       const year2StudentTotalLessons = year2Attendance
         ? year2Attendance.present + year2Attendance.late + year2Attendance.absent + year2Attendance.excused
         : 0
       const year2EffectivePresent = year2Attendance
-        ? year2Attendance.present + (year2Attendance.late / 2)
+        ? calculateEffectivePresent(year2Attendance, year2Policy)
         : 0
       const year2EffectiveTotalLessons = year2Attendance
         ? year2StudentTotalLessons - year2Attendance.excused
         : 0
 
-      // Calculate section averages for this student
-      const studentSections = sectionScoresByStudent.get(studentId)
+      // Calculate weighted section and overall averages for this student
+      const studentScores = weightedScoresByStudent.get(studentId) || []
+      const examStats = calculateExamStats(studentScores, 75, 60)
       const sectionAverages: { [section: string]: number } = {}
-      let allSectionsMet = true
-
-      if (studentSections) {
-        for (const [sectionName, scores] of studentSections.entries()) {
-          const avg = scores.reduce((a, b) => a + b, 0) / scores.length
-          sectionAverages[sectionName] = avg  // No rounding - keep exact score
-          if (avg < 60) allSectionsMet = false
-        }
+      for (const section of examStats.sectionAverages) {
+        sectionAverages[section.section] = section.average  // No rounding - keep exact score
       }
+      const allSectionsMet = examStats.allSectionsPassing
 
       // Graduation requirements using shared utility
       // If no data yet, treat as "met" (not penalized) until data exists
-      const attendanceMet = overallAttendancePercentage === null ? true : meetsAttendanceRequirement(overallAttendancePercentage)
+      const attendanceMet = overallAttendancePercentage === null ? true : meetsAttendanceRequirement(overallAttendancePercentage, policy.requiredPercentage)
       // If no exam scores, return null for average (don't penalize for exams not taken yet)
-      const examAverage = exams.count > 0 ? exams.avg : null
-      const examAverageMet = examAverage === null ? true : examAverage >= 75
-      // allSectionsMet is already true by default, only set to false if a section < 60%
+      const examAverage = studentScores.length > 0 ? examStats.overallAverage : null
+      const examAverageMet = examAverage === null ? true : examStats.overallAverageMet
 
       // Sunday School check for async students
       let sundaySchoolMet = true
       if (enrollment.isAsyncStudent) {
         const studentSSAssignments = ssAssignmentsByStudent.get(studentId) || []
         for (const ssa of studentSSAssignments) {
-          const ssAttendance = calculateSSAttendance(ssa.logs, ssa.totalWeeks)
+          const ssRequired = (policyByAcademicYear.get(ssa.academicYearId) ?? policy).sundaySchoolRequiredPercentage
+          const ssAttendance = calculateSSAttendance(ssa.logs, ssa.totalWeeks, ssRequired)
           if (ssAttendance && !ssAttendance.met) {
             sundaySchoolMet = false
             break
@@ -425,18 +437,20 @@ export async function GET(request: Request) {
           ? Math.round(overallAttendancePercentage * 10) / 10
           : null,
         attendanceMet,
+        attendanceRequired: policy.requiredPercentage,
         totalLessons: effectiveTotalLessons, // Total minus excused for this student
         allLessons: lessonsWithAttendanceCount, // All lessons with attendance
         presentCount,
         lateCount,
         absentCount,
         excusedCount,
+        averageMinutesLate: averageLatenessByStudent.get(studentId) ?? null,
         attendedLessons: Math.round(totalEffectivePresent * 10) / 10,
         // Exams - null if no exams yet (no rounding - keep exact scores)
         examAverage: examAverage,
-        avgExamScore: exams.count > 0 ? exams.avg : null,
+        avgExamScore: examAverage,
         examAverageMet,
-        examCount: exams.count,
+        examCount: studentScores.length,
         sectionAverages,
         allSectionsMet,
         // Graduation
@@ -457,7 +471,7 @@ export async function GET(request: Request) {
         year2AttendedLessons: year2Attendance !== null
           ? Math.round(year2EffectivePresent * 10) / 10
           : null,
-        // Conduct removals count
+        // Conduct incidents count
         conductDismissalCount: conductRemovalByStudent.get(studentId) || 0,
         // Async student fields
         isAsyncStudent: enrollment.isAsyncStudent,
@@ -5,6 +5,7 @@ import { UserRole, YearLevel } from "@prisma/client"
 import { isAdmin } from "@/lib/roles"
 import { getMentorStudentIds } from "@/lib/api-utils"
 import { calculateSSAttendance, getAssignmentWeeks, GRADE_DISPLAY_NAMES } from "@/lib/sunday-school-utils"
+import { ATTENDANCE_POLICY_SELECT, toAttendancePolicy } from "@/lib/attendance-policy"
 
 // GET /api/sunday-school/progress - Get student Sunday School progress
 // Query params:
@@ -48,6 +49,7 @@ export async function GET(request: Request) {
           select: {
             id: true,
             name: true,
+            ...ATTENDANCE_POLICY_SELECT,
           },
         },
         logs: {
@@ -59,7 +61,9 @@ export async function GET(request: Request) {
 
     // Build per-assignment progress data
     const assignmentProgress = assignments.map((assignment) => {
-      const attendance = calculateSSAttendance(assignment.logs, assignment.totalWeeks)
+      // Each assignment is judged by the Sunday School threshold of its own year
+      const ssRequired = toAttendancePolicy(assignment.academicYear).sundaySchoolRequiredPercentage
+      const attendance = calculateSSAttendance(assignment.logs, assignment.totalWeeks, ssRequired)
       const weeks = getAssignmentWeeks(assignment.startDate, assignment.totalWeeks)
 
       // Map logs to weeks for week-by-week breakdown
@@ -84,7 +88,7 @@ export async function GET(request: Request) {
         grade: assignment.grade,
         gradeDisplayName: GRADE_DISPLAY_NAMES[assignment.grade],
         yearLevel: assignment.yearLevel,
-        academicYear: assignment.academicYear,
+        academicYear: { id: assignment.academicYear.id, name: assignment.academicYear.name },
         totalWeeks: assignment.totalWeeks,
         startDate: assignment.startDate,
         isActive: assignment.isActive,
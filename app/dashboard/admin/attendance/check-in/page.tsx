@@ -0,0 +1,204 @@
+'use client'
+
+import { Suspense, useCallback, useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { QRCodeSVG } from 'qrcode.react'
+import { useAdminGuard } from '@/hooks/useAdminGuard'
+import { canManageData } from '@/lib/roles'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { PageLoading } from '@/components/ui/page-loading'
+import { ChevronLeft, QrCode, Users } from 'lucide-react'
+import { toast } from 'sonner'
+import { formatDateUTC } from '@/lib/utils'
+import { CHECK_IN_ROTATE_SECONDS, buildCheckInUrl } from '@/lib/check-in-utils'
+
+interface CheckInCode {
+  id: string
+  code: string
+  startsAt: string
+  validUntil: string
+}
+
+// Lessons are stored as midnight UTC of their calendar day, so combine the
+// UTC date parts with the start time in the kiosk's local timezone.
+function buildStartsAt(scheduledDate: string, startTime: string): Date {
+  const day = new Date(scheduledDate)
+  const [hours, minutes] = startTime.split(':').map(Number)
+  return new Date(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(), hours, minutes)
+}
+
+function CheckInKiosk() {
+  const { status } = useAdminGuard(canManageData)
+  const router = useRouter()
+  const params = useSearchParams()
+  const lessonId = params.get('lessonId') ?? ''
+  const lessonTitle = params.get('title') ?? 'Lesson'
+  const scheduledDate = params.get('date') ?? ''
+
+  // Defaults to the lesson's configured start time when there is one
+  const [startTime, setStartTime] = useState(params.get('start') || '19:00')
+  const [running, setRunning] = useState(false)
+  const [currentCode, setCurrentCode] = useState<CheckInCode | null>(null)
+  const [checkedInCount, setCheckedInCount] = useState(0)
+  const [closing, setClosing] = useState(false)
+
+  const rotateCode = useCallback(async () => {
+    if (!scheduledDate) return
+    try {
+      const res = await fetch(`/api/lessons/${lessonId}/check-in`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startsAt: buildStartsAt(scheduledDate, startTime).toISOString() })
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to generate check-in code')
+      }
+      setCurrentCode(data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate check-in code')
+      setRunning(false)
+    }
+  }, [lessonId, scheduledDate, startTime])
+
+  // Rotate the code on a fixed interval while check-in is open
+  useEffect(() => {
+    if (!running) return
+    rotateCode()
+    const interval = setInterval(rotateCode, CHECK_IN_ROTATE_SECONDS * 1000)
+    return () => clearInterval(interval)
+  }, [running, rotateCode])
+
+  // Poll the live check-in count
+  useEffect(() => {
+    if (!running) return
+    const poll = async () => {
+      try {
+        const res = await fetch(`/api/lessons/${lessonId}/check-in`)
+        if (res.ok) {
+          const data = await res.json()
+          setCheckedInCount(data.checkedInCount)
+        }
+      } catch {
+        // Best-effort; the next poll will catch up
+      }
+    }
+    poll()
+    const interval = setInterval(poll, 5000)
+    return () => clearInterval(interval)
+  }, [running, lessonId])
+
+  const closeCheckIn = async () => {
+    setClosing(true)
+    try {
+      const res = await fetch(`/api/lessons/${lessonId}/check-in`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to close check-in')
+      }
+      setRunning(false)
+      setCurrentCode(null)
+      toast.success('Check-in closed', { description: `${checkedInCount} student${checkedInCount === 1 ? '' : 's'} checked in` })
+      router.push('/dashboard/admin/attendance')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to close check-in')
+    } finally {
+      setClosing(false)
+    }
+  }
+
+  if (status === 'loading') {
+    return <PageLoading />
+  }
+
+  if (!lessonId || !scheduledDate) {
+    router.replace('/dashboard/admin/attendance')
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 p-4 md:p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => router.push('/dashboard/admin/attendance')}>
+            <ChevronLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-2xl font-bold dark:text-white truncate">{lessonTitle}</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Self check-in • {formatDateUTC(scheduledDate, { weekday: 'long', month: 'short', day: 'numeric' })}
+            </p>
+          </div>
+          {running && (
+            <div className="flex items-center gap-2 text-lg font-semibold text-green-700">
+              <Users className="h-5 w-5" />
+              {checkedInCount}
+            </div>
+          )}
+        </div>
+
+        {!running ? (
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor="start-time">Lesson start time</Label>
+                <Input
+                  id="start-time"
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                />
+                <p className="text-xs text-gray-500">
+                  Students who scan after this time (plus the lesson&apos;s grace period) are marked Late.
+                </p>
+              </div>
+              <Button onClick={() => setRunning(true)} disabled={!startTime} className="gap-2">
+                <QrCode className="h-4 w-4" />
+                Start Check-In
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-6 md:p-10 flex flex-col items-center gap-6">
+              {currentCode ? (
+                <>
+                  <div className="bg-white p-4 rounded-xl">
+                    <QRCodeSVG
+                      value={buildCheckInUrl(window.location.origin, currentCode.code)}
+                      size={320}
+                      level="M"
+                    />
+                  </div>
+                  <div className="text-center">
+                    <div className="text-5xl font-mono font-bold tracking-[0.3em]">{currentCode.code}</div>
+                    <p className="text-sm text-gray-500 mt-2">
+                      Scan with your phone camera or enter the code under Lesson Check-In.
+                      The code changes every minute.
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <div className="h-80 flex items-center justify-center text-gray-500">Generating code...</div>
+              )}
+              <Button variant="outline" onClick={closeCheckIn} disabled={closing}>
+                {closing ? 'Closing...' : 'Close Check-In'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function CheckInKioskPage() {
+  return (
+    <Suspense fallback={<PageLoading />}>
+      <CheckInKiosk />
+    </Suspense>
+  )
+}
@@ -1,6 +1,7 @@
 'use client'
 
-import { useEffect, useState, useMemo } from 'react'
+import { useEffect, useState, useMemo, useRef } from 'react'
+import { useRouter } from 'next/navigation'
 import { useAdminGuard } from '@/hooks/useAdminGuard'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -9,15 +10,25 @@ import { Input } from '@/components/ui/input'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { PageLoading } from '@/components/ui/page-loading'
 import { AttendanceStatusButtons } from '@/components/attendance-status-buttons'
+import { ExcuseAttachments, type ExcuseAttachmentItem } from '@/components/excuse-attachments'
 import { PageHeader } from '@/components/admin/page-header'
+import { AttendanceImportDialog } from '@/components/attendance-import-dialog'
 import { isAdmin, canManageData } from '@/lib/roles'
-import { ChevronDown, ChevronRight, Calendar, Settings2, Check, X, UserX, Plane } from 'lucide-react'
+import { ChevronDown, ChevronRight, Calendar, Settings2, Check, X, UserX, Plane, QrCode, CloudOff } from 'lucide-react'
 import { toast } from 'sonner'
 import { formatDateUTC, formatToastTimestamp, buildStudentMapFromEnrollments } from '@/lib/utils'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import type { AcademicYear } from '@/lib/types'
+import { calculateMinutesLate, deriveArrivalStatus, resolveLessonTiming } from '@/lib/attendance-utils'
+import type { AttendanceBaseline, QueuedAttendanceSave } from '@/lib/attendance-sync'
+import {
+  getQueuedAttendanceSaves,
+  queueAttendanceSave,
+  removeQueuedAttendanceSave,
+  replayAttendanceQueue,
+} from '@/lib/offline-attendance-queue'
 
 interface Lesson {
   id: string
@@ -27,9 +38,15 @@ interface Lesson {
   status: string
   academicYearId: string
   isExamDay?: boolean
+  startTime?: string | null
+  lateGraceMinutes?: number | null
   examSection: {
     displayName: string
   }
+  academicYear?: {
+    defaultLessonStartTime?: string | null
+    defaultLateGraceMinutes?: number
+  }
   _count?: {
     attendanceRecords: number
   }
@@ -47,17 +64,54 @@ interface Student {
 }
 
 interface AttendanceRecord {
+  id?: string
   studentId: string
   status: 'PRESENT' | 'LATE' | 'ABSENT' | 'EXCUSED'
   arrivedAt?: string
   notes?: string
   conductRemoval?: boolean
   conductNote?: string
+  checkInCodeId?: string | null
+  attachments?: ExcuseAttachmentItem[]
+  // Server version the grid was loaded from; sent as the baseline of offline saves
+  updatedAt?: string
+}
+
+interface CoveringAbsence {
+  id: string
+  reason: string
+  attachments: ExcuseAttachmentItem[]
+}
+
+// Records come back with arrivedAt as an ISO timestamp; the grid edits it as HH:MM
+function toTimeInputValue(arrivedAt?: string | null): string | undefined {
+  if (!arrivedAt) return undefined
+  if (/^\d{2}:\d{2}/.test(arrivedAt)) return arrivedAt
+  const date = new Date(arrivedAt)
+  if (isNaN(date.getTime())) return undefined
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+function toAttendanceRecord(record: AttendanceRecord): AttendanceRecord {
+  return {
+    id: record.id,
+    studentId: record.studentId,
+    status: record.status,
+    arrivedAt: toTimeInputValue(record.arrivedAt),
+    notes: record.notes,
+    conductRemoval: record.conductRemoval,
+    conductNote: record.conductNote,
+    checkInCodeId: record.checkInCodeId,
+    attachments: record.attachments,
+    updatedAt: record.updatedAt,
+  }
 }
 
 export default function AttendancePage() {
   const { session, status } = useAdminGuard(isAdmin)
+  const router = useRouter()
   const [lessons, setLessons] = useState<Lesson[]>([])
+  const [lessonsVersion, setLessonsVersion] = useState(0)
   const [selectedLesson, setSelectedLesson] = useState<Lesson | null>(null)
   const [students, setStudents] = useState<Student[]>([])
   const [academicYears, setAcademicYears] = useState<AcademicYear[]>([])
@@ -79,7 +133,12 @@ export default function AttendancePage() {
   const [conductRemovalDialog, setConductRemovalDialog] = useState<{ studentId: string; studentName: string } | null>(null)
   const [conductNoteInput, setConductNoteInput] = useState('')
   // Expected absences covering the selected lesson, keyed by studentId
-  const [expectedAbsences, setExpectedAbsences] = useState<Map<string, { id: string; reason: string }>>(new Map())
+  const [expectedAbsences, setExpectedAbsences] = useState<Map<string, CoveringAbsence>>(new Map())
+  // Students edited locally since the last load/save; live refresh leaves these alone
+  const dirtyStudentIds = useRef<Set<string>>(new Set())
+  // Saves queued while offline, including any flagged with conflicts
+  const [queuedSaves, setQueuedSaves] = useState<QueuedAttendanceSave[]>([])
+  const [resolvingSaveId, setResolvingSaveId] = useState<string | null>(null)
 
   // Fetch academic years and students on mount
   useEffect(() => {
@@ -149,7 +208,7 @@ export default function AttendancePage() {
     }
 
     fetchLessons()
-  }, [selectedYearId])
+  }, [selectedYearId, lessonsVersion])
 
   useEffect(() => {
     const fetchAttendance = async () => {
@@ -163,10 +222,10 @@ export default function AttendancePage() {
         const records = await attRes.json()
 
         // Build a map of expected absences covering this lesson, keyed by student
-        const eaMap = new Map<string, { id: string; reason: string }>()
+        const eaMap = new Map<string, CoveringAbsence>()
         if (eaRes.ok) {
-          const eaData: Array<{ id: string; studentId: string; reason: string }> = await eaRes.json()
-          eaData.forEach((ea) => eaMap.set(ea.studentId, { id: ea.id, reason: ea.reason }))
+          const eaData: Array<CoveringAbsence & { studentId: string }> = await eaRes.json()
+          eaData.forEach((ea) => eaMap.set(ea.studentId, { id: ea.id, reason: ea.reason, attachments: ea.attachments }))
         }
         setExpectedAbsences(eaMap)
 
@@ -177,16 +236,10 @@ export default function AttendancePage() {
         setExistingAttendance(recordsMap)
 
         const attendanceMap = new Map<string, AttendanceRecord>()
-        records.forEach((record: AttendanceRecord & { studentId: string }) => {
-          attendanceMap.set(record.studentId, {
-            studentId: record.studentId,
-            status: record.status,
-            arrivedAt: record.arrivedAt,
-            notes: record.notes,
-            conductRemoval: record.conductRemoval,
-            conductNote: record.conductNote,
-          })
+        records.forEach((record: AttendanceRecord) => {
+          attendanceMap.set(record.studentId, toAttendanceRecord(record))
         })
+        dirtyStudentIds.current = new Set()
 
         // Auto-excuse students with an expected absence that have no record yet,
         // pre-filling the reason into notes (admins can still reject before saving).
@@ -222,10 +275,14 @@ export default function AttendancePage() {
       updates.conductNote = undefined
     }
 
-    setAttendance(new Map(attendance.set(studentId, {
-      ...record,
-      ...updates,
-    })))
+    // With a start time, PRESENT/LATE follow the arrival time (same rule as the save)
+    const updated = { ...record, ...updates }
+    if (lessonTiming?.startTime && (field === 'status' || field === 'arrivedAt')) {
+      updated.status = deriveArrivalStatus(updated, lessonTiming).status
+    }
+
+    setAttendance(new Map(attendance.set(studentId, updated)))
+    dirtyStudentIds.current.add(studentId)
     setHasUnsavedChanges(true)
   }
 
@@ -233,12 +290,20 @@ export default function AttendancePage() {
     const newAttendance = new Map(attendance)
     filteredStudents.forEach(student => {
       const existing = attendance.get(student.id)
-      newAttendance.set(student.id, {
+      const record: AttendanceRecord = {
+        id: existing?.id,
         studentId: student.id,
         status: 'PRESENT',
         arrivedAt: existing?.arrivedAt,
-        notes: existing?.notes
-      })
+        notes: existing?.notes,
+        attachments: existing?.attachments,
+        updatedAt: existing?.updatedAt,
+      }
+      if (lessonTiming?.startTime) {
+        record.status = deriveArrivalStatus(record, lessonTiming).status
+      }
+      newAttendance.set(student.id, record)
+      dirtyStudentIds.current.add(student.id)
     })
     setAttendance(newAttendance)
     setHasUnsavedChanges(true)
@@ -254,6 +319,7 @@ export default function AttendancePage() {
         conductRemoval: false,
         conductNote: undefined,
       })))
+      dirtyStudentIds.current.add(studentId)
       setHasUnsavedChanges(true)
     } else {
       // Open dialog to get reason
@@ -276,11 +342,87 @@ export default function AttendancePage() {
       conductRemoval: true,
       conductNote: conductNoteInput.trim(),
     })))
+    dirtyStudentIds.current.add(studentId)
     setHasUnsavedChanges(true)
     setConductRemovalDialog(null)
     setConductNoteInput('')
   }
 
+  const refreshQueuedSaves = async () => {
+    try {
+      setQueuedSaves(await getQueuedAttendanceSaves())
+    } catch (error) {
+      console.error('Failed to read offline attendance queue:', error)
+    }
+  }
+
+  // Replay saves queued offline: on load, whenever the connection comes back,
+  // and pick up the result when the service worker replays them in the background
+  useEffect(() => {
+    const replay = async () => {
+      if (!navigator.onLine) return
+      try {
+        const { synced, conflicts } = await replayAttendanceQueue()
+        if (synced > 0) {
+          toast.success(`Synced ${synced} offline attendance ${synced === 1 ? 'save' : 'saves'}`)
+        }
+        if (conflicts > 0) {
+          toast.error('Some offline attendance could not be synced', {
+            description: 'Review the conflicts at the top of the page.'
+          })
+        }
+      } catch (error) {
+        console.error('Failed to sync offline attendance:', error)
+      }
+      await refreshQueuedSaves()
+    }
+
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'ATTENDANCE_SYNCED') {
+        refreshQueuedSaves()
+      }
+    }
+
+    replay()
+    window.addEventListener('online', replay)
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage)
+    return () => {
+      window.removeEventListener('online', replay)
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage)
+    }
+  }, [])
+
+  // Resolve a flagged save: overwrite the server with the queued values, or drop them
+  const resolveQueuedSave = async (save: QueuedAttendanceSave, keepMine: boolean) => {
+    setResolvingSaveId(save.id)
+    try {
+      if (keepMine) {
+        const res = await fetch('/api/attendance/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ lessonId: save.lessonId, records: save.records })
+        })
+        if (!res.ok) {
+          const error = await res.json()
+          throw new Error(error.error || 'Failed to save attendance')
+        }
+        toast.success(`Attendance for ${save.lessonTitle} saved`)
+      }
+      await removeQueuedAttendanceSave(save.id)
+      await refreshQueuedSaves()
+    } catch (error) {
+      toast.error('Failed to resolve offline save', {
+        description: error instanceof Error ? error.message : 'Please try again.'
+      })
+    } finally {
+      setResolvingSaveId(null)
+    }
+  }
+
+  const pendingSyncCount = queuedSaves.filter(q => !q.conflicts && !q.error).length
+  const flaggedSaves = queuedSaves.filter(q => q.conflicts || q.error)
+  const studentNameById = useMemo(() => new Map(students.map(s => [s.id, s.name])), [students])
+
   const saveAttendance = async () => {
     if (!selectedLesson) return
 
@@ -299,14 +441,44 @@ export default function AttendancePage() {
         }
       })
 
-      const res = await fetch('/api/attendance/batch', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      let res: Response | null = null
+      if (navigator.onLine) {
+        try {
+          res = await fetch('/api/attendance/batch', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              lessonId: selectedLesson.id,
+              records
+            })
+          })
+        } catch (error) {
+          // fetch only rejects on network failure; anything else is a real error
+          if (!(error instanceof TypeError)) throw error
+        }
+      }
+
+      if (!res) {
+        // Offline: keep the save on this device and replay it when back online
+        const baseline: AttendanceBaseline = {}
+        records.forEach(record => {
+          baseline[record.studentId] = attendance.get(record.studentId)?.updatedAt ?? null
+        })
+        await queueAttendanceSave({
           lessonId: selectedLesson.id,
-          records
+          lessonTitle: selectedLesson.title,
+          records,
+          baseline,
         })
-      })
+        await refreshQueuedSaves()
+        setHasUnsavedChanges(false)
+        dirtyStudentIds.current = new Set()
+        toast.warning('Saved offline', {
+          description: 'Attendance will sync automatically when you are back online.'
+        })
+        setSelectedLesson(null)
+        return
+      }
 
       if (!res.ok) {
         const error = await res.json()
@@ -317,6 +489,7 @@ export default function AttendancePage() {
       const now = new Date()
       setLastSaved(now)
       setHasUnsavedChanges(false)
+      dirtyStudentIds.current = new Set()
       toast.success('Attendance saved successfully!', {
         description: `${result.created} created, ${result.updated} updated • ${formatToastTimestamp(now)}`
       })
@@ -393,6 +566,86 @@ export default function AttendancePage() {
     return lessonDate <= today
   }, [selectedLesson])
 
+  // Start time and grace period for auto-LATE (lesson override, else year default)
+  const lessonTiming = useMemo(
+    () => selectedLesson ? resolveLessonTiming(selectedLesson, selectedLesson.academicYear) : null,
+    [selectedLesson]
+  )
+
+  // Attachments are saved immediately, so they update the record without marking it dirty
+  const setRecordAttachments = (studentId: string, attachments: ExcuseAttachmentItem[]) => {
+    setAttendance(prev => {
+      const record = prev.get(studentId)
+      if (!record) return prev
+      return new Map(prev).set(studentId, { ...record, attachments })
+    })
+  }
+
+  // Excuse documentation for a saved EXCUSED record, plus any on its expected absence
+  const renderExcuseAttachments = (studentId: string, record?: AttendanceRecord, ea?: CoveringAbsence) => {
+    if (record?.status !== 'EXCUSED') return null
+    return (
+      <>
+        {ea && ea.attachments.length > 0 && <ExcuseAttachments attachments={ea.attachments} />}
+        {record.id && (
+          <ExcuseAttachments
+            attachments={record.attachments || []}
+            uploadUrl={userCanManageData ? `/api/attendance/${record.id}/attachments` : undefined}
+            canDelete={userCanManageData}
+            onChange={(attachments) => setRecordAttachments(studentId, attachments)}
+          />
+        )}
+      </>
+    )
+  }
+
+  // Minutes after the start time, shown next to the arrival time
+  const getMinutesLate = (record?: AttendanceRecord): number | null => {
+    if (!lessonTiming?.startTime || !record?.arrivedAt) return null
+    if (record.status !== 'PRESENT' && record.status !== 'LATE') return null
+    return calculateMinutesLate(record.arrivedAt, lessonTiming.startTime)
+  }
+
+  // Pick up student self check-ins (kiosk QR scans) while the grid is open.
+  // Rows edited locally are skipped so an admin override isn't clobbered before saving.
+  useEffect(() => {
+    if (!selectedLesson || !isLessonEditable) return
+
+    const interval = setInterval(async () => {
+      try {
+        const res = await fetch(`/api/attendance?lessonId=${selectedLesson.id}`)
+        if (!res.ok) return
+        const records: AttendanceRecord[] = await res.json()
+        setAttendance(prev => {
+          const next = new Map(prev)
+          records.forEach(record => {
+            if (!dirtyStudentIds.current.has(record.studentId)) {
+              next.set(record.studentId, toAttendanceRecord(record))
+            }
+          })
+          return next
+        })
+      } catch {
+        // Best-effort; the next refresh will catch up
+      }
+    }, 15000)
+
+    return () => clearInterval(interval)
+  }, [selectedLesson, isLessonEditable])
+
+  const openCheckInKiosk = () => {
+    if (!selectedLesson) return
+    const params = new URLSearchParams({
+      lessonId: selectedLesson.id,
+      title: selectedLesson.title,
+      date: selectedLesson.scheduledDate,
+    })
+    if (lessonTiming?.startTime) {
+      params.set('start', lessonTiming.startTime)
+    }
+    router.push(`/dashboard/admin/attendance/check-in?${params.toString()}`)
+  }
+
   if (loading || status === 'loading') {
     return <PageLoading />
   }
@@ -409,6 +662,7 @@ export default function AttendancePage() {
               : `${academicYears.find(y => y.id === selectedYearId)?.name || 'Selected year'} • ${lessons.length} lessons`
           }
           lastSaved={lastSaved}
+          pendingSyncCount={pendingSyncCount}
           actions={
             <>
               {!selectedLesson && (
@@ -434,8 +688,21 @@ export default function AttendancePage() {
                     <option value="SCHEDULED">Scheduled</option>
                     <option value="COMPLETED">Completed</option>
                   </select>
+                  {userCanManageData && (
+                    <AttendanceImportDialog
+                      academicYears={academicYears}
+                      defaultYearId={selectedYearId}
+                      onSuccess={() => setLessonsVersion(v => v + 1)}
+                    />
+                  )}
                 </>
               )}
+              {selectedLesson && userCanManageData && isLessonEditable && (
+                <Button variant="outline" size="sm" onClick={openCheckInKiosk} className="text-xs sm:text-sm gap-1">
+                  <QrCode className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                  Check-In Kiosk
+                </Button>
+              )}
               {selectedLesson && (
                 <Button variant="outline" size="sm" onClick={() => setSelectedLesson(null)} className="text-xs sm:text-sm">
                   Change Lesson
@@ -445,6 +712,53 @@ export default function AttendancePage() {
           }
         />
 
+        {/* Offline saves the server refused */}
+        {flaggedSaves.map(save => (
+          <div key={save.id} className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm space-y-2">
+            <div className="flex items-center gap-2 font-medium text-red-800">
+              <CloudOff className="h-4 w-4 shrink-0" />
+              Offline attendance for {save.lessonTitle} could not be synced
+            </div>
+            {save.error ? (
+              <p className="text-red-700">{save.error}</p>
+            ) : (
+              <>
+                <p className="text-red-700">These records were changed by someone else while you were offline:</p>
+                <ul className="space-y-1">
+                  {save.conflicts?.map(conflict => (
+                    <li key={conflict.studentId} className="flex flex-wrap gap-x-2 text-xs text-gray-700">
+                      <span className="font-medium">{studentNameById.get(conflict.studentId) || 'Unknown student'}</span>
+                      <span>Theirs: {conflict.theirs ? conflict.theirs.status : 'deleted'}</span>
+                      <span>Yours: {conflict.mine.status}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+            <div className="flex gap-2">
+              {userCanManageData && (
+                <Button
+                  size="sm"
+                  onClick={() => resolveQueuedSave(save, true)}
+                  disabled={resolvingSaveId === save.id}
+                  className="text-xs"
+                >
+                  Keep Mine
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => resolveQueuedSave(save, false)}
+                disabled={resolvingSaveId === save.id}
+                className="text-xs"
+              >
+                {save.error ? 'Discard' : 'Keep Theirs'}
+              </Button>
+            </div>
+          </div>
+        ))}
+
         {/* Lesson Selection */}
         {!selectedLesson ? (
           <div className="space-y-4 sm:space-y-6">
@@ -509,6 +823,15 @@ export default function AttendancePage() {
                       <span>{formatDateUTC(selectedLesson.scheduledDate, { weekday: 'short', month: 'short', day: 'numeric' })}</span>
                       <span className="hidden sm:inline">|</span>
                       <Badge className="text-[10px] sm:text-xs px-1 sm:px-2">{selectedLesson.examSection.displayName}</Badge>
+                      {lessonTiming?.startTime && (
+                        <>
+                          <span className="hidden sm:inline">|</span>
+                          <span>
+                            Starts {lessonTiming.startTime}
+                            {lessonTiming.lateGraceMinutes > 0 && ` (+${lessonTiming.lateGraceMinutes} min grace)`}
+                          </span>
+                        </>
+                      )}
                     </div>
                   </div>
                   <div className="text-xs sm:text-sm text-gray-600 shrink-0">
@@ -666,6 +989,12 @@ export default function AttendancePage() {
                                 Expected: {ea.reason}
                               </p>
                             )}
+                            {record?.checkInCodeId && (
+                              <p className="text-[10px] text-green-700 mt-1 flex items-center justify-center gap-1">
+                                <QrCode className="h-2.5 w-2.5 shrink-0" />
+                                Self check-in{record.arrivedAt ? ` ${record.arrivedAt}` : ''}
+                              </p>
+                            )}
                           </td>
                           {!compactMode && (
                             <>
@@ -676,6 +1005,9 @@ export default function AttendancePage() {
                                   onChange={(e) => updateAttendance(student.id, 'arrivedAt', e.target.value)}
                                   className="h-7 text-xs"
                                 />
+                                {!!getMinutesLate(record) && (
+                                  <p className="text-[10px] text-yellow-700 mt-0.5">{getMinutesLate(record)} min late</p>
+                                )}
                               </td>
                               <td className="p-2">
                                 <Input
@@ -685,6 +1017,7 @@ export default function AttendancePage() {
                                   onChange={(e) => updateAttendance(student.id, 'notes', e.target.value)}
                                   className="h-7 text-xs"
                                 />
+                                {renderExcuseAttachments(student.id, record, ea)}
                               </td>
                             </>
                           )}
@@ -765,6 +1098,12 @@ export default function AttendancePage() {
                           Expected: {ea.reason}
                         </p>
                       )}
+                      {record?.checkInCodeId && (
+                        <p className="text-[10px] text-green-700 mt-1 flex items-center gap-1">
+                          <QrCode className="h-2.5 w-2.5 shrink-0" />
+                          Self check-in{record.arrivedAt ? ` ${record.arrivedAt}` : ''}
+                        </p>
+                      )}
 
                       {/* Expanded Details */}
                       {!compactMode && isExpanded && (
@@ -778,6 +1117,9 @@ export default function AttendancePage() {
                                 onChange={(e) => updateAttendance(student.id, 'arrivedAt', e.target.value)}
                                 className="h-8 text-sm"
                               />
+                              {!!getMinutesLate(record) && (
+                                <p className="text-[10px] text-yellow-700 mt-0.5">{getMinutesLate(record)} min late</p>
+                              )}
                             </div>
                             <div>
                               <label className="text-xs text-gray-500">Notes</label>
@@ -790,6 +1132,7 @@ export default function AttendancePage() {
                               />
                             </div>
                           </div>
+                          {renderExcuseAttachments(student.id, record, ea)}
                         </div>
                       )}
                     </CardContent>
@@ -30,7 +30,9 @@ import { PageLoading } from '@/components/ui/page-loading'
 import { PageHeader } from '@/components/admin/page-header'
 import { SortableRow } from '@/components/curriculum/sortable-row'
 import { MobileLessonCard } from '@/components/curriculum/mobile-lesson-card'
-import type { Lesson, Section, LessonEdits } from '@/components/curriculum/types'
+import { CurriculumTemplatesDialog } from '@/components/curriculum/curriculum-templates-dialog'
+import { CancelAndShiftDialog } from '@/components/curriculum/cancel-and-shift-dialog'
+import type { Lesson, Section, LessonEdits, SpeakerOption } from '@/components/curriculum/types'
 import type { AcademicYear } from '@/lib/types'
 
 export default function CurriculumPage() {
@@ -38,6 +40,7 @@ export default function CurriculumPage() {
   const router = useRouter()
   const [lessons, setLessons] = useState<Lesson[]>([])
   const [sections, setSections] = useState<Section[]>([])
+  const [speakers, setSpeakers] = useState<SpeakerOption[]>([])
   const [academicYears, setAcademicYears] = useState<AcademicYear[]>([])
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
@@ -47,6 +50,8 @@ export default function CurriculumPage() {
   const [selectedYearId, setSelectedYearId] = useState<string>('')
   const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set())
   const [lastSaved, setLastSaved] = useState<Date | null>(null)
+  const [templatesOpen, setTemplatesOpen] = useState(false)
+  const [cancelShiftId, setCancelShiftId] = useState<string | null>(null)
 
   // Track edited fields per lesson
   const [editedLessons, setEditedLessons] = useState<Map<string, LessonEdits>>(new Map())
@@ -138,6 +143,12 @@ export default function CurriculumPage() {
             setNewLesson(prev => ({ ...prev, examSectionId: sectionsData[0].id }))
           }
         }
+
+        // The speaker directory, for assigning speakers to lessons
+        if (session?.user?.role && canManageCurriculum(session.user.role)) {
+          const speakersRes = await fetch('/api/speakers?includeInactive=true')
+          if (speakersRes.ok) setSpeakers(await speakersRes.json())
+        }
       } catch (error) {
         console.error('Failed to fetch initial data:', error)
       }
@@ -222,6 +233,10 @@ export default function CurriculumPage() {
     }
   }
 
+  const handleCancelShiftOpenChange = useCallback((open: boolean) => {
+    if (!open) setCancelShiftId(null)
+  }, [])
+
   const handleToggleExpand = useCallback((id: string) => {
     setExpandedIds(prev => {
       const next = new Set(prev)
@@ -543,10 +558,20 @@ export default function CurriculumPage() {
                   </option>
                 ))}
               </select>
+              {canEdit && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="ml-auto"
+                  onClick={() => setTemplatesOpen(true)}
+                >
+                  Templates
+                </Button>
+              )}
               {canEdit && !showAddRow && (
                 <Button
                   size="sm"
-                  className="ml-auto bg-maroon-600 hover:bg-maroon-700 text-white"
+                  className="bg-maroon-600 hover:bg-maroon-700 text-white"
                   onClick={() => setShowAddRow(true)}
                 >
                   + Add Lesson
@@ -657,9 +682,13 @@ export default function CurriculumPage() {
                           edits={editedLessons.get(lesson.id)}
                           onEdit={handleEdit}
                           onEditResources={handleEditResources}
+                          speakers={speakers}
+                          onSpeakerAssigned={refetchLessons}
+                          onResourcesChanged={refetchLessons}
                           onDelete={handleDelete}
                           onDuplicate={handleDuplicate}
                           onResetAttendance={handleResetAttendance}
+                          onCancelAndShift={setCancelShiftId}
                           onToggleExpand={handleToggleExpand}
                           isExpanded={expandedIds.has(lesson.id)}
                         />
@@ -769,9 +798,13 @@ export default function CurriculumPage() {
                 edits={editedLessons.get(lesson.id)}
                 onEdit={handleEdit}
                 onEditResources={handleEditResources}
+                speakers={speakers}
+                onSpeakerAssigned={refetchLessons}
+                onResourcesChanged={refetchLessons}
                 onDelete={handleDelete}
                 onDuplicate={handleDuplicate}
                 onResetAttendance={handleResetAttendance}
+                onCancelAndShift={setCancelShiftId}
                 onMoveUp={(id) => handleMobileMove(id, 'up')}
                 onMoveDown={(id) => handleMobileMove(id, 'down')}
                 isExpanded={expandedIds.has(lesson.id)}
@@ -781,6 +814,24 @@ export default function CurriculumPage() {
           )}
         </div>
       </div>
+
+      {canEdit && (
+        <CurriculumTemplatesDialog
+          open={templatesOpen}
+          onOpenChange={setTemplatesOpen}
+          academicYears={academicYears}
+          selectedYearId={selectedYearId}
+          onApplied={refetchLessons}
+        />
+      )}
+
+      {canEdit && (
+        <CancelAndShiftDialog
+          lessonId={cancelShiftId}
+          onOpenChange={handleCancelShiftOpenChange}
+          onApplied={refetchLessons}
+        />
+      )}
     </div>
   )
 }
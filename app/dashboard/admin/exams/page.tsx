@@ -10,20 +10,57 @@ import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { PageLoading } from '@/components/ui/page-loading'
+import { ExamQuestionsEditor } from '@/components/exams/exam-questions-editor'
+import { ExamGradingQueue } from '@/components/exams/exam-grading-queue'
+import { ExamScoreImportDialog } from '@/components/exams/exam-score-import-dialog'
+import { ExamCurveDialog, type ExamGradingSettings } from '@/components/exams/exam-curve-dialog'
+import { ExamStatisticsReport } from '@/components/exams/exam-statistics-report'
+import { ExamReleaseBadge, ExamReleaseControl } from '@/components/exams/exam-release-control'
+import { ExamRegradeQueue } from '@/components/exams/exam-regrade-queue'
+import { ExamSeatingPanel } from '@/components/exams/exam-seating-panel'
+import { ExamDateConflicts } from '@/components/exams/exam-date-conflicts'
 import { toast } from 'sonner'
 import { Trash2 } from 'lucide-react'
 import { formatDateUTC, formatToastTimestamp, buildStudentMapFromEnrollments } from '@/lib/utils'
+import { SITTING_TYPE_LABELS } from '@/lib/exam-retakes'
+import { describeCurve, type ExamCurve } from '@/lib/exam-grading'
+import type { ExamReleaseState } from '@/lib/exam-release'
 import type { AcademicYear, ExamSection } from '@/lib/types'
 
+type SittingType = keyof typeof SITTING_TYPE_LABELS
+
+const EMPTY_NEW_EXAM = {
+  examSectionId: '',
+  yearLevel: 'BOTH' as 'YEAR_1' | 'YEAR_2' | 'BOTH',
+  examDate: '',
+  totalPoints: 100,
+  sittingType: 'REGULAR' as SittingType,
+  originalExamId: '',
+  // New exams keep their scores hidden until an admin releases them
+  releaseStatus: 'DRAFT' as 'DRAFT' | 'RELEASED',
+}
+
 interface Exam {
   id: string
   examDate: string
   yearLevel: string
   totalPoints: number
+  onlineEnabled: boolean
+  durationMinutes: number | null
+  sittingType: SittingType
+  originalExamId: string | null
+  originalExam: { id: string; examDate: string } | null
+  weight: number
+  curveType: ExamCurve['curveType']
+  curveValue: number | null
+  releaseStatus: ExamReleaseState['releaseStatus']
+  releaseAt: string | null
   examSection: ExamSection
   _count: {
     scores: number
+    questions: number
   }
 }
 
@@ -40,7 +77,8 @@ interface Student {
 interface ExamScore {
   id: string
   score: number
-  percentage: number
+  percentage: number // Curved when the exam has a curve
+  rawPercentage: number | null
   notes?: string
   student: {
     id: string
@@ -68,6 +106,7 @@ function ExamsPageContent() {
   const [loading, setLoading] = useState(true)
   const [showCreateExam, setShowCreateExam] = useState(false)
   const [selectedExam, setSelectedExam] = useState<Exam | null>(null)
+  const [examView, setExamView] = useState<'scores' | 'questions' | 'grading' | 'statistics' | 'seating'>('scores')
   const [students, setStudents] = useState<Student[]>([])
   const [existingScores, setExistingScores] = useState<Map<string, ExamScore>>(new Map())
   const [scores, setScores] = useState<Map<string, number>>(new Map())
@@ -78,12 +117,8 @@ function ExamsPageContent() {
   const [lastSaved, setLastSaved] = useState<Date | null>(null)
 
   // New exam form
-  const [newExam, setNewExam] = useState({
-    examSectionId: '',
-    yearLevel: 'BOTH' as 'YEAR_1' | 'YEAR_2' | 'BOTH',
-    examDate: '',
-    totalPoints: 100
-  })
+  const [newExam, setNewExam] = useState(EMPTY_NEW_EXAM)
+  const isSitting = newExam.sittingType !== 'REGULAR'
 
   // Read URL params for section filter
   useEffect(() => {
@@ -155,7 +190,7 @@ function ExamsPageContent() {
     fetchExams()
   }, [selectedYearId])
 
-  const createExam = async () => {
+  const createExam = async (confirmConflicts = false) => {
     try {
       // When creating, use the selected year or default to active year
       let yearIdForCreate = selectedYearId
@@ -173,27 +208,35 @@ function ExamsPageContent() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           academicYearId: yearIdForCreate,
-          ...newExam
+          ...newExam,
+          // Makeups and retakes take their section and year level from the original
+          originalExamId: isSitting ? newExam.originalExamId : null,
+          confirmConflicts
         })
       })
 
+      if (res.status === 409) {
+        const data = await res.json()
+        const details = (data.conflicts as { message: string }[]).map(c => `• ${c.message}`).join('\n')
+        if (confirm(`${data.error}:\n\n${details}\n\nSchedule the exam anyway?`)) {
+          await createExam(true)
+        }
+        return
+      }
+
       if (res.ok) {
         const exam = await res.json()
         setExams([exam, ...exams])
         setShowCreateExam(false)
-        setNewExam({
-          examSectionId: '',
-          yearLevel: 'BOTH',
-          examDate: '',
-          totalPoints: 100
-        })
+        setNewExam(EMPTY_NEW_EXAM)
         const now = new Date()
         setLastSaved(now)
-        toast.success('Exam created successfully!', {
+        toast.success(isSitting ? `${SITTING_TYPE_LABELS[newExam.sittingType]} scheduled` : 'Exam created successfully!', {
           description: formatToastTimestamp(now)
         })
       } else {
-        toast.error('Failed to create exam')
+        const data = await res.json().catch(() => ({}))
+        toast.error(data.error || 'Failed to create exam')
       }
     } catch (error) {
       console.error('Failed to create exam:', error)
@@ -201,8 +244,20 @@ function ExamsPageContent() {
     }
   }
 
+  // Schedule a makeup or retake of a regular exam
+  const openSittingDialog = (exam: Exam) => {
+    setNewExam({
+      ...EMPTY_NEW_EXAM,
+      sittingType: 'MAKEUP',
+      originalExamId: exam.id,
+      totalPoints: exam.totalPoints
+    })
+    setShowCreateExam(true)
+  }
+
   const openEnterScores = async (exam: Exam) => {
     setSelectedExam(exam)
+    setExamView('scores')
     setSearchTerm('')
     setFilterMentees(false)
 
@@ -315,7 +370,7 @@ function ExamsPageContent() {
       // Update exam count locally without full refetch
       setExams(exams.map(exam =>
         exam.id === selectedExam.id
-          ? { ...exam, _count: { scores: scoresData.length } }
+          ? { ...exam, _count: { ...exam._count, scores: scoresData.length } }
           : exam
       ))
     } catch (error) {
@@ -326,6 +381,60 @@ function ExamsPageContent() {
     }
   }
 
+  const handleExamChange = (changes: { onlineEnabled: boolean; durationMinutes: number | null; questionCount: number }) => {
+    if (!selectedExam) return
+    const updated: Exam = {
+      ...selectedExam,
+      onlineEnabled: changes.onlineEnabled,
+      durationMinutes: changes.durationMinutes,
+      _count: { ...selectedExam._count, questions: changes.questionCount },
+    }
+    setSelectedExam(updated)
+    setExams(exams.map(exam => exam.id === updated.id ? updated : exam))
+  }
+
+  const handleGradingChange = (settings: ExamGradingSettings) => {
+    if (!selectedExam) return
+    const updated: Exam = { ...selectedExam, ...settings }
+    setExams(exams.map(exam => exam.id === updated.id ? updated : exam))
+    // Reload to pick up the re-curved percentages
+    openEnterScores(updated)
+  }
+
+  const handleReleaseChange = (state: ExamReleaseState) => {
+    if (!selectedExam) return
+    const updated: Exam = { ...selectedExam, ...state, releaseAt: state.releaseAt ? String(state.releaseAt) : null }
+    setSelectedExam(updated)
+    setExams(exams.map(exam => exam.id === updated.id ? updated : exam))
+  }
+
+  const updateSectionWeight = async (section: ExamSection, value: string) => {
+    const weight = parseFloat(value)
+    if (weight === (section.weight ?? 1)) return
+    if (isNaN(weight) || weight <= 0) {
+      toast.error('Weight must be a positive number')
+      return
+    }
+
+    try {
+      const res = await fetch(`/api/exam-sections/${section.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ weight }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save section weight')
+        return
+      }
+      setExamSections(examSections.map(s => s.id === section.id ? { ...s, weight: data.weight } : s))
+      toast.success(`${section.displayName} weight saved`)
+    } catch (error) {
+      console.error('Failed to save section weight:', error)
+      toast.error('Failed to save section weight')
+    }
+  }
+
   const deleteExam = async (examId: string, e: React.MouseEvent) => {
     e.stopPropagation() // Prevent opening the exam for scoring
 
@@ -354,6 +463,13 @@ function ExamsPageContent() {
     }
   }
 
+  // The stored curved percentage, while the entered score still matches it
+  const curvedPercentageFor = (studentId: string, score: number | undefined): number | null => {
+    const existing = existingScores.get(studentId)
+    if (!selectedExam?.curveType || !existing || existing.score !== score) return null
+    return existing.percentage
+  }
+
   const eligibleStudents = students.filter(student => {
     if (!selectedExam) return false
 
@@ -439,7 +555,7 @@ function ExamsPageContent() {
                   ))}
                 </select>
                 {canEdit && (
-                  <Button onClick={() => setShowCreateExam(true)} className="w-full sm:w-auto">
+                  <Button onClick={() => { setNewExam(EMPTY_NEW_EXAM); setShowCreateExam(true) }} className="w-full sm:w-auto">
                     Create New Exam
                   </Button>
                 )}
@@ -456,6 +572,8 @@ function ExamsPageContent() {
         {/* Exam List or Score Entry */}
         {!selectedExam ? (
           <div className="space-y-6">
+            <ExamRegradeQueue canEdit={!!canEdit} />
+
             {examSections
               .filter(section => selectedSectionId === 'all' || section.id === selectedSectionId)
               .map(section => {
@@ -463,7 +581,24 @@ function ExamsPageContent() {
 
               return (
                 <div key={section.id} className="space-y-3">
-                  <h2 className="text-lg font-semibold">{section.displayName}</h2>
+                  <div className="flex items-center justify-between gap-3">
+                    <h2 className="text-lg font-semibold">{section.displayName}</h2>
+                    {canEdit ? (
+                      <label className="flex items-center gap-2 text-sm text-gray-600">
+                        Section weight
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          defaultValue={section.weight ?? 1}
+                          onBlur={(e) => updateSectionWeight(section, e.target.value)}
+                          className="w-20 h-8"
+                        />
+                      </label>
+                    ) : section.weight !== undefined && section.weight !== 1 && (
+                      <span className="text-sm text-gray-600">Section weight {section.weight}</span>
+                    )}
+                  </div>
 
                   {sectionExams.length === 0 ? (
                     <Card>
@@ -487,9 +622,28 @@ function ExamsPageContent() {
                                   <Badge variant="outline">
                                     {exam.yearLevel === 'BOTH' ? 'All' : exam.yearLevel === 'YEAR_1' ? 'Y1' : 'Y2'}
                                   </Badge>
+                                  {exam.sittingType !== 'REGULAR' && (
+                                    <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                                      {SITTING_TYPE_LABELS[exam.sittingType]}
+                                    </Badge>
+                                  )}
+                                  {exam.onlineEnabled && (
+                                    <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                                      Online
+                                    </Badge>
+                                  )}
+                                  {exam.curveType && (
+                                    <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                                      {describeCurve(exam)}
+                                    </Badge>
+                                  )}
+                                  {exam.releaseStatus !== 'RELEASED' && <ExamReleaseBadge exam={exam} />}
                                 </div>
                                 <div className="text-sm text-gray-600">
                                   {formatDateUTC(exam.examDate, { weekday: undefined })} | {exam.totalPoints} points
+                                  {exam.weight !== 1 && ` | Weight ${exam.weight}`}
+                                  {exam._count?.questions > 0 && ` | ${exam._count.questions} questions`}
+                                  {exam.originalExam && ` | For the ${formatDateUTC(exam.originalExam.examDate, { weekday: undefined })} exam`}
                                 </div>
                               </div>
                               <div className="flex items-center gap-4">
@@ -527,229 +681,301 @@ function ExamsPageContent() {
                     <div className="font-semibold">{selectedExam.examSection.displayName} Exam</div>
                     <div className="text-sm text-gray-600">
                       {formatDateUTC(selectedExam.examDate, { weekday: undefined })} | Out of {selectedExam.totalPoints} points
+                      {selectedExam.weight !== 1 && ` | Weight ${selectedExam.weight}`}
+                      {selectedExam.curveType && ` | Curve: ${describeCurve(selectedExam)}`}
                     </div>
                   </div>
-                  <div className="text-sm text-gray-600">
-                    {scores.size} / {filteredStudents.length} scores entered
+                  <div className="flex items-center gap-3">
+                    <div className="text-sm text-gray-600">
+                      {scores.size} / {filteredStudents.length} scores entered
+                    </div>
+                    {canEdit ? (
+                      <ExamReleaseControl exam={selectedExam} onChange={handleReleaseChange} />
+                    ) : (
+                      <ExamReleaseBadge exam={selectedExam} />
+                    )}
+                    {canEdit && selectedExam.sittingType === 'REGULAR' && (
+                      <Button variant="outline" size="sm" onClick={() => openSittingDialog(selectedExam)}>
+                        Schedule Makeup / Retake
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardContent>
             </Card>
 
-            {/* Filters & Actions */}
-            <div className="flex flex-wrap gap-2 items-center">
-              <Input
-                placeholder="Search students..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="max-w-xs"
+            <Tabs value={examView} onValueChange={(value) => setExamView(value as typeof examView)}>
+              <TabsList>
+                <TabsTrigger value="scores">Scores</TabsTrigger>
+                <TabsTrigger value="questions">Questions</TabsTrigger>
+                <TabsTrigger value="grading">Grading</TabsTrigger>
+                <TabsTrigger value="statistics">Statistics</TabsTrigger>
+                <TabsTrigger value="seating">Seating</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            {examView === 'questions' && (
+              <ExamQuestionsEditor
+                key={selectedExam.id}
+                exam={selectedExam}
+                canEdit={!!canEdit}
+                onExamChange={handleExamChange}
               />
-              <label className="flex items-center gap-2 px-3 h-10 border rounded-md bg-background cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={filterMentees}
-                  onChange={(e) => setFilterMentees(e.target.checked)}
-                  className="h-4 w-4"
-                />
-                <span className="text-sm">My Mentees</span>
-              </label>
-              {canEdit && (
-                <Button
-                  onClick={saveScores}
-                  disabled={saving || scores.size === 0}
-                  size="sm"
-                  className="ml-auto"
-                >
-                  {saving ? 'Saving...' : 'Save Scores'}
-                </Button>
-              )}
-            </div>
+            )}
+
+            {examView === 'grading' && (
+              <ExamGradingQueue examId={selectedExam.id} canEdit={!!canEdit} />
+            )}
+
+            {examView === 'statistics' && (
+              <ExamStatisticsReport
+                key={selectedExam.id}
+                examId={selectedExam.id}
+                sectionId={selectedExam.examSection.id}
+              />
+            )}
+
+            {examView === 'seating' && (
+              <ExamSeatingPanel key={selectedExam.id} examId={selectedExam.id} canEdit={!!canEdit} />
+            )}
 
-            {/* Excel-like Table - Desktop */}
-            <Card className="hidden md:block">
-              <div className="overflow-x-auto">
-                <table className="w-full text-sm">
-                  <thead className="bg-gray-50 border-b">
-                    <tr>
-                      <th className="text-left p-2 font-medium text-gray-700 w-8">#</th>
-                      <th className="text-left p-2 font-medium text-gray-700">Name</th>
-                      <th className="text-center p-2 font-medium text-gray-700 w-20">Year</th>
-                      <th className="text-center p-2 font-medium text-gray-700 w-32">Score</th>
-                      <th className="text-center p-2 font-medium text-gray-700 w-24">Percentage</th>
-                      <th className="text-center p-2 font-medium text-gray-700 w-24">Status</th>
-                      <th className="text-left p-2 font-medium text-gray-700">Notes</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {filteredStudents.map((student, index) => {
+            {examView === 'scores' && (
+              <>
+                {/* Filters & Actions */}
+                <div className="flex flex-wrap gap-2 items-center">
+                  <Input
+                    placeholder="Search students..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="max-w-xs"
+                  />
+                  <label className="flex items-center gap-2 px-3 h-10 border rounded-md bg-background cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={filterMentees}
+                      onChange={(e) => setFilterMentees(e.target.checked)}
+                      className="h-4 w-4"
+                    />
+                    <span className="text-sm">My Mentees</span>
+                  </label>
+                  {canEdit && (
+                    <div className="ml-auto flex items-center gap-2">
+                      <ExamCurveDialog
+                        exam={selectedExam}
+                        rawPercentages={Array.from(existingScores.values()).map(s => s.rawPercentage ?? s.percentage)}
+                        onSuccess={handleGradingChange}
+                      />
+                      <ExamScoreImportDialog
+                        examId={selectedExam.id}
+                        totalPoints={selectedExam.totalPoints}
+                        onSuccess={() => openEnterScores(selectedExam)}
+                      />
+                      <Button
+                        onClick={saveScores}
+                        disabled={saving || scores.size === 0}
+                        size="sm"
+                      >
+                        {saving ? 'Saving...' : 'Save Scores'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {/* Excel-like Table - Desktop */}
+                <Card className="hidden md:block">
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 border-b">
+                        <tr>
+                          <th className="text-left p-2 font-medium text-gray-700 w-8">#</th>
+                          <th className="text-left p-2 font-medium text-gray-700">Name</th>
+                          <th className="text-center p-2 font-medium text-gray-700 w-20">Year</th>
+                          <th className="text-center p-2 font-medium text-gray-700 w-32">Score</th>
+                          <th className="text-center p-2 font-medium text-gray-700 w-24">Percentage</th>
+                          <th className="text-center p-2 font-medium text-gray-700 w-24">Status</th>
+                          <th className="text-left p-2 font-medium text-gray-700">Notes</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {filteredStudents.map((student, index) => {
+                          const score = scores.get(student.id)
+                          const percentage = score !== undefined && selectedExam
+                            ? (score / selectedExam.totalPoints * 100)
+                            : null
+                          const curvedPercentage = curvedPercentageFor(student.id, score)
+                          const yearLevel = student.enrollments[0]?.yearLevel
+                          const isMentee = student.enrollments.some(e => e.mentorId === session?.user?.id)
+                          const isPassing = (curvedPercentage ?? percentage ?? 0) >= 60
+
+                          return (
+                            <tr
+                              key={student.id}
+                              className={`border-b hover:bg-gray-50 ${isMentee ? 'bg-maroon-50' : ''}`}
+                            >
+                              <td className="p-2 text-gray-500">{index + 1}</td>
+                              <td className="p-2">
+                                <div className="font-medium">{student.name}</div>
+                                {isMentee && <span className="text-xs text-maroon-600">Your Mentee</span>}
+                              </td>
+                              <td className="p-2 text-center">
+                                <Badge variant="outline" className="text-xs">
+                                  {yearLevel === 'YEAR_1' ? 'Y1' : 'Y2'}
+                                </Badge>
+                              </td>
+                              <td className="p-2">
+                                <div className="flex items-center justify-center gap-2">
+                                  <input
+                                    type="number"
+                                    placeholder="0"
+                                    value={score !== undefined ? score : ''}
+                                    onChange={(e) => handleScoreChange(student.id, e.target.value)}
+                                    disabled={!canEdit}
+                                    className={`w-20 px-2 py-1 text-center border rounded focus:outline-none focus:ring-1 focus:ring-maroon-500 ${!canEdit ? 'bg-gray-100 cursor-not-allowed' : ''}`}
+                                    min={0}
+                                    max={selectedExam?.totalPoints}
+                                    step="any"
+                                  />
+                                  <span className="text-gray-500">/ {selectedExam.totalPoints}</span>
+                                </div>
+                              </td>
+                              <td className="p-2 text-center">
+                                {percentage !== null ? (
+                                  <span className={`font-medium ${isPassing ? 'text-green-600' : 'text-red-600'}`}>
+                                    {percentage.toFixed(2)}%
+                                    {curvedPercentage !== null && (
+                                      <span className="block text-xs font-normal">curved {curvedPercentage.toFixed(2)}%</span>
+                                    )}
+                                  </span>
+                                ) : (
+                                  <span className="text-gray-400">—</span>
+                                )}
+                              </td>
+                              <td className="p-2 text-center">
+                                {percentage !== null && (
+                                  <Badge className={isPassing ? 'bg-green-500' : 'bg-red-500'}>
+                                    {isPassing ? '✓ Pass' : '✗ Fail'}
+                                  </Badge>
+                                )}
+                              </td>
+                              <td className="p-2">
+                                <Textarea
+                                  placeholder="Optional notes..."
+                                  value={notes.get(student.id) || ''}
+                                  onChange={(e) => handleNotesChange(student.id, e.target.value)}
+                                  disabled={!canEdit}
+                                  className={`w-full text-xs min-h-[60px] ${!canEdit ? 'bg-gray-100 cursor-not-allowed' : ''}`}
+                                  rows={2}
+                                />
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+
+                    {filteredStudents.length === 0 && (
+                      <div className="p-8 text-center text-gray-500">
+                        No eligible students for this exam
+                      </div>
+                    )}
+                  </div>
+                </Card>
+
+                {/* Mobile Card Layout */}
+                <div className="md:hidden space-y-3">
+                  {filteredStudents.length === 0 ? (
+                    <Card>
+                      <CardContent className="p-6 text-center text-gray-500">
+                        No eligible students for this exam
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    filteredStudents.map((student, index) => {
                       const score = scores.get(student.id)
                       const percentage = score !== undefined && selectedExam
                         ? (score / selectedExam.totalPoints * 100)
                         : null
+                      const curvedPercentage = curvedPercentageFor(student.id, score)
                       const yearLevel = student.enrollments[0]?.yearLevel
                       const isMentee = student.enrollments.some(e => e.mentorId === session?.user?.id)
-                      const isPassing = percentage !== null && percentage >= 60
+                      const isPassing = (curvedPercentage ?? percentage ?? 0) >= 60
 
                       return (
-                        <tr
-                          key={student.id}
-                          className={`border-b hover:bg-gray-50 ${isMentee ? 'bg-maroon-50' : ''}`}
-                        >
-                          <td className="p-2 text-gray-500">{index + 1}</td>
-                          <td className="p-2">
-                            <div className="font-medium">{student.name}</div>
-                            {isMentee && <span className="text-xs text-maroon-600">Your Mentee</span>}
-                          </td>
-                          <td className="p-2 text-center">
-                            <Badge variant="outline" className="text-xs">
-                              {yearLevel === 'YEAR_1' ? 'Y1' : 'Y2'}
-                            </Badge>
-                          </td>
-                          <td className="p-2">
-                            <div className="flex items-center justify-center gap-2">
-                              <input
-                                type="number"
-                                placeholder="0"
-                                value={score !== undefined ? score : ''}
-                                onChange={(e) => handleScoreChange(student.id, e.target.value)}
-                                disabled={!canEdit}
-                                className={`w-20 px-2 py-1 text-center border rounded focus:outline-none focus:ring-1 focus:ring-maroon-500 ${!canEdit ? 'bg-gray-100 cursor-not-allowed' : ''}`}
-                                min={0}
-                                max={selectedExam?.totalPoints}
-                                step="any"
-                              />
-                              <span className="text-gray-500">/ {selectedExam.totalPoints}</span>
-                            </div>
-                          </td>
-                          <td className="p-2 text-center">
-                            {percentage !== null ? (
-                              <span className={`font-medium ${isPassing ? 'text-green-600' : 'text-red-600'}`}>
-                                {percentage.toFixed(2)}%
-                              </span>
-                            ) : (
-                              <span className="text-gray-400">—</span>
-                            )}
-                          </td>
-                          <td className="p-2 text-center">
-                            {percentage !== null && (
-                              <Badge className={isPassing ? 'bg-green-500' : 'bg-red-500'}>
-                                {isPassing ? '✓ Pass' : '✗ Fail'}
+                        <Card key={student.id} className={isMentee ? 'border-maroon-300 bg-maroon-50' : ''}>
+                          <CardContent className="p-4 space-y-3">
+                            {/* Student Header */}
+                            <div className="flex items-start justify-between">
+                              <div className="flex-1">
+                                <div className="flex items-center gap-2">
+                                  <span className="text-sm text-gray-500">#{index + 1}</span>
+                                  <h3 className="font-semibold">{student.name}</h3>
+                                </div>
+                                {isMentee && (
+                                  <span className="text-xs text-maroon-600">Your Mentee</span>
+                                )}
+                              </div>
+                              <Badge variant="outline" className="text-xs">
+                                {yearLevel === 'YEAR_1' ? 'Year 1' : 'Year 2'}
                               </Badge>
-                            )}
-                          </td>
-                          <td className="p-2">
-                            <Textarea
-                              placeholder="Optional notes..."
-                              value={notes.get(student.id) || ''}
-                              onChange={(e) => handleNotesChange(student.id, e.target.value)}
-                              disabled={!canEdit}
-                              className={`w-full text-xs min-h-[60px] ${!canEdit ? 'bg-gray-100 cursor-not-allowed' : ''}`}
-                              rows={2}
-                            />
-                          </td>
-                        </tr>
-                      )
-                    })}
-                  </tbody>
-                </table>
-
-                {filteredStudents.length === 0 && (
-                  <div className="p-8 text-center text-gray-500">
-                    No eligible students for this exam
-                  </div>
-                )}
-              </div>
-            </Card>
+                            </div>
 
-            {/* Mobile Card Layout */}
-            <div className="md:hidden space-y-3">
-              {filteredStudents.length === 0 ? (
-                <Card>
-                  <CardContent className="p-6 text-center text-gray-500">
-                    No eligible students for this exam
-                  </CardContent>
-                </Card>
-              ) : (
-                filteredStudents.map((student, index) => {
-                  const score = scores.get(student.id)
-                  const percentage = score !== undefined && selectedExam
-                    ? (score / selectedExam.totalPoints * 100)
-                    : null
-                  const yearLevel = student.enrollments[0]?.yearLevel
-                  const isMentee = student.enrollments.some(e => e.mentorId === session?.user?.id)
-                  const isPassing = percentage !== null && percentage >= 60
-
-                  return (
-                    <Card key={student.id} className={isMentee ? 'border-maroon-300 bg-maroon-50' : ''}>
-                      <CardContent className="p-4 space-y-3">
-                        {/* Student Header */}
-                        <div className="flex items-start justify-between">
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2">
-                              <span className="text-sm text-gray-500">#{index + 1}</span>
-                              <h3 className="font-semibold">{student.name}</h3>
+                            {/* Score Input */}
+                            <div className="space-y-2">
+                              <label className="text-sm font-medium text-gray-700">Score</label>
+                              <div className="flex items-center gap-2">
+                                <input
+                                  type="number"
+                                  placeholder="0"
+                                  value={score !== undefined ? score : ''}
+                                  onChange={(e) => handleScoreChange(student.id, e.target.value)}
+                                  disabled={!canEdit}
+                                  className={`flex-1 px-3 py-2 text-center border rounded-md focus:outline-none focus:ring-2 focus:ring-maroon-500 ${!canEdit ? 'bg-gray-100 cursor-not-allowed' : ''}`}
+                                  min={0}
+                                  max={selectedExam?.totalPoints}
+                                  step="any"
+                                />
+                                <span className="text-gray-600">/ {selectedExam.totalPoints}</span>
+                              </div>
                             </div>
-                            {isMentee && (
-                              <span className="text-xs text-maroon-600">Your Mentee</span>
-                            )}
-                          </div>
-                          <Badge variant="outline" className="text-xs">
-                            {yearLevel === 'YEAR_1' ? 'Year 1' : 'Year 2'}
-                          </Badge>
-                        </div>
-
-                        {/* Score Input */}
-                        <div className="space-y-2">
-                          <label className="text-sm font-medium text-gray-700">Score</label>
-                          <div className="flex items-center gap-2">
-                            <input
-                              type="number"
-                              placeholder="0"
-                              value={score !== undefined ? score : ''}
-                              onChange={(e) => handleScoreChange(student.id, e.target.value)}
-                              disabled={!canEdit}
-                              className={`flex-1 px-3 py-2 text-center border rounded-md focus:outline-none focus:ring-2 focus:ring-maroon-500 ${!canEdit ? 'bg-gray-100 cursor-not-allowed' : ''}`}
-                              min={0}
-                              max={selectedExam?.totalPoints}
-                              step="any"
-                            />
-                            <span className="text-gray-600">/ {selectedExam.totalPoints}</span>
-                          </div>
-                        </div>
-
-                        {/* Percentage & Status */}
-                        {percentage !== null && (
-                          <div className="flex items-center justify-between pt-2 border-t">
-                            <div>
-                              <div className="text-xs text-gray-500">Percentage</div>
-                              <div className={`text-lg font-bold ${isPassing ? 'text-green-600' : 'text-red-600'}`}>
-                                {percentage.toFixed(2)}%
+
+                            {/* Percentage & Status */}
+                            {percentage !== null && (
+                              <div className="flex items-center justify-between pt-2 border-t">
+                                <div>
+                                  <div className="text-xs text-gray-500">Percentage</div>
+                                  <div className={`text-lg font-bold ${isPassing ? 'text-green-600' : 'text-red-600'}`}>
+                                    {percentage.toFixed(2)}%
+                                  </div>
+                                  {curvedPercentage !== null && (
+                                    <div className="text-xs text-gray-500">Curved {curvedPercentage.toFixed(2)}%</div>
+                                  )}
+                                </div>
+                                <Badge className={isPassing ? 'bg-green-500' : 'bg-red-500'}>
+                                  {isPassing ? 'Pass' : 'Fail'}
+                                </Badge>
                               </div>
+                            )}
+
+                            {/* Notes */}
+                            <div className="space-y-2">
+                              <label className="text-sm font-medium text-gray-700">Notes (Optional)</label>
+                              <Textarea
+                                placeholder="Add notes for this student..."
+                                value={notes.get(student.id) || ''}
+                                onChange={(e) => handleNotesChange(student.id, e.target.value)}
+                                disabled={!canEdit}
+                                className={`w-full text-sm ${!canEdit ? 'bg-gray-100 cursor-not-allowed' : ''}`}
+                                rows={3}
+                              />
                             </div>
-                            <Badge className={isPassing ? 'bg-green-500' : 'bg-red-500'}>
-                              {isPassing ? 'Pass' : 'Fail'}
-                            </Badge>
-                          </div>
-                        )}
-
-                        {/* Notes */}
-                        <div className="space-y-2">
-                          <label className="text-sm font-medium text-gray-700">Notes (Optional)</label>
-                          <Textarea
-                            placeholder="Add notes for this student..."
-                            value={notes.get(student.id) || ''}
-                            onChange={(e) => handleNotesChange(student.id, e.target.value)}
-                            disabled={!canEdit}
-                            className={`w-full text-sm ${!canEdit ? 'bg-gray-100 cursor-not-allowed' : ''}`}
-                            rows={3}
-                          />
-                        </div>
-                      </CardContent>
-                    </Card>
-                  )
-                })
-              )}
-            </div>
+                          </CardContent>
+                        </Card>
+                      )
+                    })
+                  )}
+                </div>
+              </>
+            )}
           </>
         )}
 
@@ -765,33 +991,69 @@ function ExamsPageContent() {
 
             <div className="space-y-4">
               <div>
-                <label className="text-sm font-medium">Exam Section</label>
+                <label className="text-sm font-medium">Sitting</label>
                 <select
                   className="w-full h-10 px-3 rounded-md border border-input bg-background mt-1"
-                  value={newExam.examSectionId}
-                  onChange={(e) => setNewExam({ ...newExam, examSectionId: e.target.value })}
+                  value={newExam.sittingType}
+                  onChange={(e) => setNewExam({ ...newExam, sittingType: e.target.value as SittingType })}
                 >
-                  <option value="">Select section...</option>
-                  {examSections.map(section => (
-                    <option key={section.id} value={section.id}>
-                      {section.displayName}
-                    </option>
-                  ))}
+                  <option value="REGULAR">Regular exam</option>
+                  <option value="MAKEUP">Makeup (for students who missed the original)</option>
+                  <option value="RETAKE">Retake (for students who already sat it)</option>
                 </select>
               </div>
 
-              <div>
-                <label className="text-sm font-medium">Year Level</label>
-                <select
-                  className="w-full h-10 px-3 rounded-md border border-input bg-background mt-1"
-                  value={newExam.yearLevel}
-                  onChange={(e) => setNewExam({ ...newExam, yearLevel: e.target.value as 'YEAR_1' | 'YEAR_2' | 'BOTH' })}
-                >
-                  <option value="BOTH">All Students (Both Years)</option>
-                  <option value="YEAR_1">Year 1 Only</option>
-                  <option value="YEAR_2">Year 2 Only</option>
-                </select>
-              </div>
+              {isSitting ? (
+                <div>
+                  <label className="text-sm font-medium">Original Exam</label>
+                  <select
+                    className="w-full h-10 px-3 rounded-md border border-input bg-background mt-1"
+                    value={newExam.originalExamId}
+                    onChange={(e) => setNewExam({ ...newExam, originalExamId: e.target.value })}
+                  >
+                    <option value="">Select exam...</option>
+                    {exams.filter(exam => exam.sittingType === 'REGULAR').map(exam => (
+                      <option key={exam.id} value={exam.id}>
+                        {exam.examSection.displayName} • {formatDateUTC(exam.examDate, { month: 'short', day: 'numeric', year: 'numeric' })}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Uses the original&apos;s section and year level. The academic year&apos;s retake policy decides which score counts.
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div>
+                    <label className="text-sm font-medium">Exam Section</label>
+                    <select
+                      className="w-full h-10 px-3 rounded-md border border-input bg-background mt-1"
+                      value={newExam.examSectionId}
+                      onChange={(e) => setNewExam({ ...newExam, examSectionId: e.target.value })}
+                    >
+                      <option value="">Select section...</option>
+                      {examSections.map(section => (
+                        <option key={section.id} value={section.id}>
+                          {section.displayName}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="text-sm font-medium">Year Level</label>
+                    <select
+                      className="w-full h-10 px-3 rounded-md border border-input bg-background mt-1"
+                      value={newExam.yearLevel}
+                      onChange={(e) => setNewExam({ ...newExam, yearLevel: e.target.value as 'YEAR_1' | 'YEAR_2' | 'BOTH' })}
+                    >
+                      <option value="BOTH">All Students (Both Years)</option>
+                      <option value="YEAR_1">Year 1 Only</option>
+                      <option value="YEAR_2">Year 2 Only</option>
+                    </select>
+                  </div>
+                </>
+              )}
 
               <div>
                 <label className="text-sm font-medium">Exam Date</label>
@@ -801,6 +1063,21 @@ function ExamsPageContent() {
                   onChange={(e) => setNewExam({ ...newExam, examDate: e.target.value })}
                   className="mt-1"
                 />
+                <div className="mt-2">
+                  <ExamDateConflicts
+                    examDate={isSitting && !newExam.originalExamId ? '' : newExam.examDate}
+                    academicYearId={selectedYearId && selectedYearId !== 'all'
+                      ? selectedYearId
+                      : academicYears.find(y => y.isActive)?.id}
+                    yearLevel={newExam.yearLevel}
+                    originalExamId={isSitting ? newExam.originalExamId : undefined}
+                  />
+                </div>
+                {!isSitting && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    That day&apos;s lesson is marked as an exam day (or one is added to the curriculum).
+                  </p>
+                )}
               </div>
 
               <div>
@@ -813,9 +1090,21 @@ function ExamsPageContent() {
                 />
               </div>
 
+              <div>
+                <label className="text-sm font-medium">Scores</label>
+                <select
+                  className="w-full h-10 px-3 rounded-md border border-input bg-background mt-1"
+                  value={newExam.releaseStatus}
+                  onChange={(e) => setNewExam({ ...newExam, releaseStatus: e.target.value as 'DRAFT' | 'RELEASED' })}
+                >
+                  <option value="DRAFT">Hidden from students until released</option>
+                  <option value="RELEASED">Visible to students as soon as saved</option>
+                </select>
+              </div>
+
               <Button
-                onClick={createExam}
-                disabled={!newExam.examSectionId || !newExam.examDate}
+                onClick={() => createExam()}
+                disabled={!newExam.examDate || (isSitting ? !newExam.originalExamId : !newExam.examSectionId)}
                 className="w-full"
               >
                 Create Exam
@@ -9,7 +9,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { DashboardSkeleton } from '@/components/ui/skeleton'
 import { PageHeader } from '@/components/admin/page-header'
 import { AttendanceTrendChart, ExamTrendChart, type AttendancePoint, type ExamPoint } from '@/components/admin/trend-charts'
-import { isAdmin, canAssignMentors, canManageUsers } from '@/lib/roles'
+import { AbsenceRequestsPanel } from '@/components/admin/absence-requests-panel'
+import { isAdmin, canAssignMentors, canManageUsers, canManageData } from '@/lib/roles'
 import { useAdminGuard } from '@/hooks/useAdminGuard'
 import { useDashboardStats } from '@/lib/swr'
 import {
@@ -145,6 +146,7 @@ export default function AdminDashboard() {
 
   const userRole = session?.user?.role
   const canAssign = userRole ? canAssignMentors(userRole) : false
+  const canReviewAbsences = userRole ? canManageData(userRole) : false
   const canManage = userRole ? canManageUsers(userRole) : false
 
   const getScoreColor = (score: number | null) => {
@@ -801,6 +803,8 @@ export default function AdminDashboard() {
             )}
 
             {/* Other Alerts */}
+            {canReviewAbsences && <AbsenceRequestsPanel />}
+
             {stats && stats.unassignedStudents > 0 && (
               <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-900/30">
                 <CardHeader className="pb-3">
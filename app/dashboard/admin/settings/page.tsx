@@ -27,15 +27,26 @@ import {
 } from '@/components/ui/alert-dialog'
 import { PageLoading } from '@/components/ui/page-loading'
 import { isAdmin } from '@/lib/roles'
+import { DEFAULT_ATTENDANCE_POLICY, describeLateWeight } from '@/lib/attendance-policy'
+import { RETAKE_POLICY_LABELS } from '@/lib/exam-retakes'
 import { toast } from 'sonner'
 import { Calendar, Plus, Pencil, Trash2, Check, BookOpen, GraduationCap } from 'lucide-react'
 
+type RetakePolicy = keyof typeof RETAKE_POLICY_LABELS
+
 interface AcademicYear {
   id: string
   name: string
   startDate: string
   endDate: string
   isActive: boolean
+  attendanceRequiredPercent: number
+  attendanceLateWeight: number
+  conductRemovalCountsAsAbsence: boolean
+  sundaySchoolRequiredPercent: number
+  defaultLessonStartTime: string | null
+  defaultLateGraceMinutes: number
+  examRetakePolicy: RetakePolicy
   _count?: {
     lessons: number
     exams: number
@@ -60,6 +71,13 @@ export default function SettingsPage() {
   const [formStartDate, setFormStartDate] = useState('')
   const [formEndDate, setFormEndDate] = useState('')
   const [formIsActive, setFormIsActive] = useState(false)
+  const [formRequiredPercent, setFormRequiredPercent] = useState(String(DEFAULT_ATTENDANCE_POLICY.requiredPercentage))
+  const [formLateWeight, setFormLateWeight] = useState(String(DEFAULT_ATTENDANCE_POLICY.lateWeight))
+  const [formConductCounts, setFormConductCounts] = useState(DEFAULT_ATTENDANCE_POLICY.conductRemovalCountsAsAbsence)
+  const [formSSRequiredPercent, setFormSSRequiredPercent] = useState(String(DEFAULT_ATTENDANCE_POLICY.sundaySchoolRequiredPercentage))
+  const [formStartTime, setFormStartTime] = useState('')
+  const [formGraceMinutes, setFormGraceMinutes] = useState('0')
+  const [formRetakePolicy, setFormRetakePolicy] = useState<RetakePolicy>('HIGHEST')
 
   useEffect(() => {
     fetchAcademicYears()
@@ -84,8 +102,25 @@ export default function SettingsPage() {
     setFormStartDate('')
     setFormEndDate('')
     setFormIsActive(false)
+    setFormRequiredPercent(String(DEFAULT_ATTENDANCE_POLICY.requiredPercentage))
+    setFormLateWeight(String(DEFAULT_ATTENDANCE_POLICY.lateWeight))
+    setFormConductCounts(DEFAULT_ATTENDANCE_POLICY.conductRemovalCountsAsAbsence)
+    setFormSSRequiredPercent(String(DEFAULT_ATTENDANCE_POLICY.sundaySchoolRequiredPercentage))
+    setFormStartTime('')
+    setFormGraceMinutes('0')
+    setFormRetakePolicy('HIGHEST')
   }
 
+  const policyPayload = () => ({
+    attendanceRequiredPercent: Number(formRequiredPercent),
+    attendanceLateWeight: Number(formLateWeight),
+    conductRemovalCountsAsAbsence: formConductCounts,
+    sundaySchoolRequiredPercent: Number(formSSRequiredPercent),
+    defaultLessonStartTime: formStartTime || null,
+    defaultLateGraceMinutes: formGraceMinutes === '' ? 0 : Number(formGraceMinutes),
+    examRetakePolicy: formRetakePolicy,
+  })
+
   const openCreateDialog = () => {
     resetForm()
     // Suggest next year name based on existing years
@@ -103,6 +138,13 @@ export default function SettingsPage() {
     setFormStartDate(year.startDate.split('T')[0])
     setFormEndDate(year.endDate.split('T')[0])
     setFormIsActive(year.isActive)
+    setFormRequiredPercent(String(year.attendanceRequiredPercent))
+    setFormLateWeight(String(year.attendanceLateWeight))
+    setFormConductCounts(year.conductRemovalCountsAsAbsence)
+    setFormSSRequiredPercent(String(year.sundaySchoolRequiredPercent))
+    setFormStartTime(year.defaultLessonStartTime ?? '')
+    setFormGraceMinutes(String(year.defaultLateGraceMinutes))
+    setFormRetakePolicy(year.examRetakePolicy)
     setShowEditDialog(true)
   }
 
@@ -127,6 +169,7 @@ export default function SettingsPage() {
           startDate: formStartDate,
           endDate: formEndDate,
           isActive: formIsActive,
+          ...policyPayload(),
         }),
       })
 
@@ -161,6 +204,7 @@ export default function SettingsPage() {
           startDate: formStartDate,
           endDate: formEndDate,
           isActive: formIsActive,
+          ...policyPayload(),
         }),
       })
 
@@ -228,6 +272,106 @@ export default function SettingsPage() {
     }
   }
 
+  // Attendance policy inputs, shared by the create and edit dialogs
+  const renderPolicyFields = (idPrefix: string) => (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div>
+        <p className="text-sm font-medium">Attendance Policy</p>
+        <p className="text-xs text-gray-500">Graduation rules for this year. Changes apply to all calculations immediately.</p>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-requiredPercent`}>Required attendance (%)</Label>
+          <Input
+            id={`${idPrefix}-requiredPercent`}
+            type="number"
+            min={0}
+            max={100}
+            value={formRequiredPercent}
+            onChange={(e) => setFormRequiredPercent(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-lateWeight`}>Late credit (0-1)</Label>
+          <Input
+            id={`${idPrefix}-lateWeight`}
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={formLateWeight}
+            onChange={(e) => setFormLateWeight(e.target.value)}
+          />
+          {formLateWeight !== '' && Number(formLateWeight) >= 0 && Number(formLateWeight) <= 1 && (
+            <p className="text-xs text-gray-500">{describeLateWeight(Number(formLateWeight))}</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-ssRequiredPercent`}>Sunday School required (%)</Label>
+          <Input
+            id={`${idPrefix}-ssRequiredPercent`}
+            type="number"
+            min={0}
+            max={100}
+            value={formSSRequiredPercent}
+            onChange={(e) => setFormSSRequiredPercent(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-startTime`}>Lesson start time</Label>
+          <Input
+            id={`${idPrefix}-startTime`}
+            type="time"
+            value={formStartTime}
+            onChange={(e) => setFormStartTime(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-graceMinutes`}>Late grace period (min)</Label>
+          <Input
+            id={`${idPrefix}-graceMinutes`}
+            type="number"
+            min={0}
+            max={120}
+            value={formGraceMinutes}
+            onChange={(e) => setFormGraceMinutes(e.target.value)}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        With a start time set, arrivals after the grace period are marked Late automatically. Lessons can override both.
+      </p>
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id={`${idPrefix}-conductCounts`}
+          checked={formConductCounts}
+          onChange={(e) => setFormConductCounts(e.target.checked)}
+          className="h-4 w-4 rounded border-gray-300"
+        />
+        <Label htmlFor={`${idPrefix}-conductCounts`} className="text-sm font-normal">
+          Conduct removals count as absences
+        </Label>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-retakePolicy`}>Exam retakes</Label>
+        <select
+          id={`${idPrefix}-retakePolicy`}
+          value={formRetakePolicy}
+          onChange={(e) => setFormRetakePolicy(e.target.value as RetakePolicy)}
+          className="h-9 w-full px-2 rounded-md border border-input bg-background text-sm"
+        >
+          {Object.entries(RETAKE_POLICY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500">
+          Which score counts when a student retakes an exam. A makeup always stands in for a missed exam.
+        </p>
+      </div>
+    </div>
+  )
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       month: 'short',
@@ -298,6 +442,13 @@ export default function SettingsPage() {
                         <p className="text-sm text-gray-500 mt-1">
                           {formatDate(year.startDate)} - {formatDate(year.endDate)}
                         </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Attendance ≥{year.attendanceRequiredPercent}% • {describeLateWeight(year.attendanceLateWeight)}
+                          {!year.conductRemovalCountsAsAbsence && ' • Conduct removals not counted'}
+                          {' • '}Sunday School ≥{year.sundaySchoolRequiredPercent}%
+                          {year.defaultLessonStartTime && ` • Starts ${year.defaultLessonStartTime} (+${year.defaultLateGraceMinutes} min grace)`}
+                          {' • '}{RETAKE_POLICY_LABELS[year.examRetakePolicy]}
+                        </p>
                         {year._count && (
                           <div className="flex items-center gap-3 mt-2 text-xs text-gray-500">
                             <span className="flex items-center gap-1">
@@ -397,6 +548,7 @@ export default function SettingsPage() {
                   Set as active year (dashboards will show this year by default)
                 </Label>
               </div>
+              {renderPolicyFields('create')}
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
@@ -460,6 +612,7 @@ export default function SettingsPage() {
                   Set as active year
                 </Label>
               </div>
+              {renderPolicyFields('edit')}
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setShowEditDialog(false)}>
@@ -0,0 +1,55 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useEffect, useState } from 'react'
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
+import { isAdmin, canManageCurriculum } from '@/lib/roles'
+import { SpeakerDirectoryPanel } from '@/components/admin/speaker-directory-panel'
+import { SpeakerReportPanel } from '@/components/admin/speaker-report-panel'
+
+export default function SpeakersPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [activeTab, setActiveTab] = useState('directory')
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+    } else if (status === 'authenticated' && !isAdmin(session?.user?.role)) {
+      router.push('/dashboard')
+    }
+  }, [status, session, router])
+
+  if (status === 'loading' || !session?.user || !isAdmin(session.user.role)) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Speakers</h1>
+          <p className="text-muted-foreground">
+            The speaker directory and how many lessons each speaker gave
+          </p>
+        </div>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList>
+            <TabsTrigger value="directory">Directory</TabsTrigger>
+            <TabsTrigger value="report">Lessons by Section</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="directory" className="mt-6">
+            <SpeakerDirectoryPanel canManage={canManageCurriculum(session.user.role)} />
+          </TabsContent>
+
+          <TabsContent value="report" className="mt-6">
+            <SpeakerReportPanel />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  )
+}
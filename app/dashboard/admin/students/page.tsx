@@ -11,6 +11,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { PageLoading } from '@/components/ui/page-loading'
 import { isAdmin } from '@/lib/roles'
 import type { AcademicYear } from '@/lib/types'
+import { toAttendancePolicy } from '@/lib/attendance-policy'
 import { formatToastTimestamp } from '@/lib/utils'
 import { toast } from 'sonner'
 import { ChevronUp, ChevronDown, ChevronRight, Trash2, UserPlus, Pencil, CheckCircle, AlertTriangle, GraduationCap, UserX } from 'lucide-react'
@@ -68,10 +69,13 @@ interface StudentAnalytics {
   allSectionsMet: boolean
   // Conduct removals
   conductDismissalCount: number
+  // Average minutes late across timed LATE arrivals
+  averageMinutesLate: number | null
 }
 
 interface ExamScore {
   id: string
+  studentId: string
   score: number
   percentage: number
   notes?: string
@@ -79,11 +83,17 @@ interface ExamScore {
     id: string
     examDate: string | Date
     totalPoints: number
+    sittingType: 'REGULAR' | 'MAKEUP' | 'RETAKE'
+    originalExamId: string | null
+    academicYear: {
+      examRetakePolicy: 'HIGHEST' | 'LATEST' | 'CAPPED_AT_PASSING'
+    }
     examSection: {
       id: string
       name: string
       displayName: string
       yearLevel: string
+      passingScore: number
     }
   }
   grader?: {
@@ -171,6 +181,9 @@ function StudentsManagementContent() {
   const [detailsLoading, setDetailsLoading] = useState(false)
   const [, setAcademicYearId] = useState<string | null>(null)
 
+  // Graduation rules of the active year
+  const attendancePolicy = toAttendancePolicy(activeYear)
+
   useEffect(() => {
     if (session?.user) {
       fetchStudents()
@@ -708,10 +721,10 @@ function StudentsManagementContent() {
                   {filteredStudents.map(student => {
                     const studentAnalytics = analytics.find(a => a.studentId === student.id)
                     const year1Color = !studentAnalytics || studentAnalytics.year1AttendancePercentage === null ? 'text-gray-400' :
-                      studentAnalytics.year1AttendancePercentage >= 75 ? 'text-green-700' :
+                      studentAnalytics.year1AttendancePercentage >= attendancePolicy.requiredPercentage ? 'text-green-700' :
                       studentAnalytics.year1AttendancePercentage >= 60 ? 'text-yellow-700' : 'text-red-700'
                     const year2Color = !studentAnalytics || studentAnalytics.year2AttendancePercentage === null ? 'text-gray-400' :
-                      studentAnalytics.year2AttendancePercentage >= 75 ? 'text-green-700' :
+                      studentAnalytics.year2AttendancePercentage >= attendancePolicy.requiredPercentage ? 'text-green-700' :
                       studentAnalytics.year2AttendancePercentage >= 60 ? 'text-yellow-700' : 'text-red-700'
                     const examColor = !studentAnalytics || studentAnalytics.avgExamScore === null ? 'text-gray-400' :
                       studentAnalytics.avgExamScore >= 75 ? 'text-green-700' :
@@ -747,10 +760,15 @@ function StudentsManagementContent() {
                                 <div className="flex items-center gap-1 mt-0.5">
                                   <Badge variant="outline" className="text-[10px] px-1 py-0 text-orange-700 border-orange-300 bg-orange-50">
                                     <UserX className="h-2.5 w-2.5 mr-0.5" />
-                                    {studentAnalytics.conductDismissalCount} removal{studentAnalytics.conductDismissalCount !== 1 ? 's' : ''}
+                                    {studentAnalytics.conductDismissalCount} incident{studentAnalytics.conductDismissalCount !== 1 ? 's' : ''}
                                   </Badge>
                                 </div>
                               )}
+                              {typeof studentAnalytics?.averageMinutesLate === 'number' && (
+                                <div className="text-[10px] text-yellow-700 mt-0.5">
+                                  Avg. {studentAnalytics.averageMinutesLate} min late
+                                </div>
+                              )}
                             </div>
                           </div>
                         </td>
@@ -876,10 +894,10 @@ function StudentsManagementContent() {
                 const studentAnalytics = analytics.find(a => a.studentId === student.id)
                 const isExpanded = expandedStudent === student.id
                 const year1Color = !studentAnalytics || studentAnalytics.year1AttendancePercentage === null ? 'text-gray-400' :
-                  studentAnalytics.year1AttendancePercentage >= 75 ? 'text-green-700' :
+                  studentAnalytics.year1AttendancePercentage >= attendancePolicy.requiredPercentage ? 'text-green-700' :
                   studentAnalytics.year1AttendancePercentage >= 60 ? 'text-yellow-700' : 'text-red-700'
                 const year2Color = !studentAnalytics || studentAnalytics.year2AttendancePercentage === null ? 'text-gray-400' :
-                  studentAnalytics.year2AttendancePercentage >= 75 ? 'text-green-700' :
+                  studentAnalytics.year2AttendancePercentage >= attendancePolicy.requiredPercentage ? 'text-green-700' :
                   studentAnalytics.year2AttendancePercentage >= 60 ? 'text-yellow-700' : 'text-red-700'
                 const examColor = !studentAnalytics || studentAnalytics.avgExamScore === null ? 'text-gray-400' :
                   studentAnalytics.avgExamScore >= 75 ? 'text-green-700' :
@@ -928,7 +946,12 @@ function StudentsManagementContent() {
                               {studentAnalytics && studentAnalytics.conductDismissalCount > 0 && (
                                 <Badge variant="outline" className="text-xs text-orange-700 border-orange-300 bg-orange-50">
                                   <UserX className="h-3 w-3 mr-0.5" />
-                                  {studentAnalytics.conductDismissalCount} removal{studentAnalytics.conductDismissalCount !== 1 ? 's' : ''}
+                                  {studentAnalytics.conductDismissalCount} incident{studentAnalytics.conductDismissalCount !== 1 ? 's' : ''}
+                                </Badge>
+                              )}
+                              {typeof studentAnalytics?.averageMinutesLate === 'number' && (
+                                <Badge variant="outline" className="text-xs text-yellow-700 border-yellow-300 bg-yellow-50">
+                                  Avg. {studentAnalytics.averageMinutesLate} min late
                                 </Badge>
                               )}
                             </div>
@@ -1039,6 +1062,7 @@ function StudentsManagementContent() {
         onOpenChange={setShowGraduateDialog}
         selectedStudents={students.filter(s => selectedStudents.has(s.id))}
         analytics={analytics}
+        policy={attendancePolicy}
         onGraduate={handleGraduateStudents}
       />
 
@@ -1058,6 +1082,7 @@ function StudentsManagementContent() {
         attendanceRecords={studentDetails?.attendanceRecords || []}
         allExams={studentDetails?.allExams || []}
         allLessons={studentDetails?.allLessons || []}
+        policy={attendancePolicy}
         loading={detailsLoading}
         onClose={() => {
           setViewingStudent(null)
@@ -0,0 +1,23 @@
+import type { Metadata } from 'next'
+import LessonCalendar from '@/components/lesson-calendar'
+
+export const metadata: Metadata = {
+  title: 'Calendar | Servants Prep',
+  description: 'Lessons, exams and Sunday School weeks.',
+}
+
+export default function CalendarPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Calendar</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Lessons, exams and Sunday School weeks.
+          </p>
+        </div>
+        <LessonCalendar />
+      </div>
+    </div>
+  )
+}
@@ -339,7 +339,7 @@ export default function MyMenteesPage() {
                         </div>
                         {analytics.attendance.conductDismissalCount > 0 && (
                           <div className="text-center md:text-right">
-                            <div className="text-[10px] md:text-xs text-gray-500 uppercase">Removed</div>
+                            <div className="text-[10px] md:text-xs text-gray-500 uppercase">Conduct</div>
                             <div className="text-sm md:text-lg font-bold text-orange-600">
                               {analytics.attendance.conductDismissalCount}x
                             </div>
@@ -444,7 +444,7 @@ export default function MyMenteesPage() {
                             <div className="flex items-center gap-1.5 mt-2 p-1.5 md:p-2 bg-orange-50 border border-orange-200 rounded text-[10px] md:text-xs text-orange-700">
                               <AlertCircle className="h-3 w-3 shrink-0" />
                               <span>
-                                Removed from lesson {analytics.attendance.conductDismissalCount} time{analytics.attendance.conductDismissalCount !== 1 ? 's' : ''} (each counts as an absence)
+                                {analytics.attendance.conductDismissalCount} conduct incident{analytics.attendance.conductDismissalCount !== 1 ? 's' : ''} on record
                               </span>
                             </div>
                           )}
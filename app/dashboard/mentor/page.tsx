@@ -7,6 +7,8 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { PageLoading } from '@/components/ui/page-loading'
 import { PageHeader } from '@/components/admin/page-header'
+import { AbsenceRequestsPanel } from '@/components/admin/absence-requests-panel'
+import { ResourceAccessPanel } from '@/components/admin/resource-access-panel'
 import { useAdminGuard } from '@/hooks/useAdminGuard'
 import { canBeMentor } from '@/lib/roles'
 import { useEnrollments, useClassAverages, useMenteeAnalytics } from '@/lib/swr'
@@ -169,6 +171,12 @@ export default function MentorDashboard() {
           </Card>
         </div>
 
+        {/* Pending mentee absence requests */}
+        {userId && <AbsenceRequestsPanel mentorId={userId} />}
+
+        {/* Who opened the recent lessons' material */}
+        {userId && <ResourceAccessPanel mentorId={userId} />}
+
         {/* Class Average vs My Mentees Comparison */}
         <Card>
           <CardHeader>
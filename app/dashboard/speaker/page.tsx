@@ -0,0 +1,23 @@
+import type { Metadata } from 'next'
+import SpeakerPortal from '@/components/speaker-portal'
+
+export const metadata: Metadata = {
+  title: 'Speaking | Servants Prep',
+  description: 'Lessons you are speaking at and their resources.',
+}
+
+export default function SpeakerPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Speaking</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Lessons you are speaking at and their resources.
+          </p>
+        </div>
+        <SpeakerPortal />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+'use client'
+
+import { Suspense, useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { useAdminGuard } from '@/hooks/useAdminGuard'
+import { isStudent } from '@/lib/roles'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { PageLoading } from '@/components/ui/page-loading'
+import { ChevronLeft, CheckCircle, Clock, XCircle, QrCode } from 'lucide-react'
+
+interface CheckInResult {
+  alreadyCheckedIn: boolean
+  status: 'PRESENT' | 'LATE' | 'ABSENT' | 'EXCUSED'
+  arrivedAt: string | null
+  lessonTitle: string
+}
+
+function CheckIn() {
+  const { session, status } = useAdminGuard(isStudent)
+  const router = useRouter()
+  const params = useSearchParams()
+  const [code, setCode] = useState(params.get('code') ?? '')
+  const [submitting, setSubmitting] = useState(false)
+  const [result, setResult] = useState<CheckInResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const autoSubmitted = useRef(false)
+
+  const submit = useCallback(async (value: string) => {
+    if (!value.trim()) return
+    setSubmitting(true)
+    setError(null)
+    try {
+      const res = await fetch('/api/attendance/check-in', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: value.trim().toUpperCase() })
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to check in')
+      }
+      setResult(data)
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to check in')
+    } finally {
+      setSubmitting(false)
+    }
+  }, [])
+
+  // Scanning the kiosk QR code lands here with ?code=..., so check in right away
+  useEffect(() => {
+    const scanned = params.get('code')
+    if (session?.user && scanned && !autoSubmitted.current) {
+      autoSubmitted.current = true
+      submit(scanned)
+    }
+  }, [session?.user, params, submit])
+
+  if (status === 'loading') {
+    return <PageLoading />
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 p-4 md:p-8">
+      <div className="max-w-md mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => router.push('/dashboard/student')}>
+            <ChevronLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold dark:text-white">Lesson Check-In</h1>
+            <p className="text-gray-600 dark:text-gray-400">Scan the code shown at the lesson hall</p>
+          </div>
+        </div>
+
+        {result ? (
+          <Card className={result.status === 'LATE' ? 'border-yellow-400' : 'border-green-500'}>
+            <CardContent className="p-8 text-center space-y-3">
+              {result.status === 'LATE' ? (
+                <Clock className="h-14 w-14 text-yellow-500 mx-auto" />
+              ) : (
+                <CheckCircle className="h-14 w-14 text-green-600 mx-auto" />
+              )}
+              <div className="text-lg font-semibold">
+                {result.alreadyCheckedIn
+                  ? 'You are already checked in'
+                  : result.status === 'LATE' ? 'Checked in (late)' : 'Checked in'}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">{result.lessonTitle}</div>
+              {result.arrivedAt && (
+                <div className="text-xs text-gray-500">
+                  Arrived {new Date(result.arrivedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                </div>
+              )}
+              <Button variant="outline" className="mt-2" onClick={() => router.push('/dashboard/student')}>
+                Back to Dashboard
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <QrCode className="h-5 w-5" />
+                Enter Check-In Code
+              </CardTitle>
+              <CardDescription>
+                Scan the QR code with your phone camera, or type the code shown under it.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="e.g., K7XM3P"
+                className="text-center text-lg font-mono tracking-wider"
+                maxLength={10}
+              />
+              {error && (
+                <p className="text-sm text-red-600 flex items-center gap-2">
+                  <XCircle className="h-4 w-4 shrink-0" />
+                  {error}
+                </p>
+              )}
+              <Button
+                onClick={() => submit(code)}
+                disabled={submitting || !code.trim()}
+                className="w-full"
+              >
+                {submitting ? 'Checking in...' : 'Check In'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function StudentCheckInPage() {
+  return (
+    <Suspense fallback={<PageLoading />}>
+      <CheckIn />
+    </Suspense>
+  )
+}
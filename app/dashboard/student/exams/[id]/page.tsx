@@ -0,0 +1,392 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useParams, useRouter } from 'next/navigation'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { PageLoading } from '@/components/ui/page-loading'
+import { toast } from 'sonner'
+import { ChevronLeft, Clock, CheckCircle, XCircle } from 'lucide-react'
+import { formatDateUTC } from '@/lib/utils'
+import { QUESTION_TYPE_LABELS, type ExamQuestion } from '@/components/exams/types'
+
+interface AttemptView {
+  exam: {
+    id: string
+    examSection: { displayName: string }
+    examDate: string
+    totalPoints: number
+    durationMinutes: number | null
+  }
+  attempt: {
+    id: string
+    status: 'IN_PROGRESS' | 'SUBMITTED' | 'GRADED'
+    startedAt: string
+    expiresAt: string | null
+    submittedAt: string | null
+  }
+  questions: ExamQuestion[]
+  answers: Array<{
+    questionId: string
+    response: string | null
+    isCorrect?: boolean | null
+    pointsAwarded?: number | null
+    feedback?: string | null
+  }>
+  score: { score: number; percentage: number } | null
+}
+
+interface ExamSummary {
+  id: string
+  examDate: string
+  durationMinutes: number | null
+  examSection: { displayName: string }
+  _count: { questions: number }
+}
+
+// Answers are saved this long after the student stops typing
+const AUTOSAVE_DELAY_MS = 1500
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${String(seconds).padStart(2, '0')}`
+}
+
+export default function TakeExamPage() {
+  const { data: session, status: authStatus } = useSession()
+  const router = useRouter()
+  const { id: examId } = useParams<{ id: string }>()
+  const [view, setView] = useState<AttemptView | null>(null)
+  const [summary, setSummary] = useState<ExamSummary | null>(null)
+  const [responses, setResponses] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [starting, setStarting] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [remainingMs, setRemainingMs] = useState<number | null>(null)
+  const [lastSaved, setLastSaved] = useState<Date | null>(null)
+  const unsaved = useRef<Record<string, string | null>>({})
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    if (authStatus === 'unauthenticated') router.push('/login')
+    else if (authStatus === 'authenticated' && session?.user?.role !== 'STUDENT') router.push('/dashboard')
+  }, [authStatus, session, router])
+
+  const applyView = (data: AttemptView) => {
+    setView(data)
+    setResponses(Object.fromEntries(data.answers.map(a => [a.questionId, a.response || ''])))
+  }
+
+  useEffect(() => {
+    const fetchAttempt = async () => {
+      try {
+        const res = await fetch(`/api/exams/${examId}/attempt`)
+        if (res.ok) {
+          applyView(await res.json())
+          return
+        }
+        // Not started yet: show the exam's details before the timer starts
+        const listRes = await fetch('/api/exams/online')
+        const exams: ExamSummary[] = listRes.ok ? await listRes.json() : []
+        setSummary(exams.find(e => e.id === examId) || null)
+      } catch {
+        toast.error('Failed to load exam')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (session?.user) fetchAttempt()
+  }, [session?.user, examId])
+
+  const isOpen = view?.attempt.status === 'IN_PROGRESS'
+
+  const flushAnswers = useCallback(async () => {
+    if (!view || Object.keys(unsaved.current).length === 0) return
+    const pending = unsaved.current
+    unsaved.current = {}
+    try {
+      const res = await fetch(`/api/exam-attempts/${view.attempt.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ responses: pending }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        toast.error(data.error || 'Failed to save answers')
+        return
+      }
+      setLastSaved(new Date())
+    } catch {
+      // Keep the answers to retry with the next save
+      unsaved.current = { ...pending, ...unsaved.current }
+    }
+  }, [view])
+
+  const handleResponse = (questionId: string, value: string) => {
+    setResponses(prev => ({ ...prev, [questionId]: value }))
+    unsaved.current[questionId] = value
+    if (saveTimer.current) clearTimeout(saveTimer.current)
+    saveTimer.current = setTimeout(flushAnswers, AUTOSAVE_DELAY_MS)
+  }
+
+  const submitExam = useCallback(async (auto = false) => {
+    if (!view) return
+    if (saveTimer.current) clearTimeout(saveTimer.current)
+    setSubmitting(true)
+    try {
+      const res = await fetch(`/api/exam-attempts/${view.attempt.id}/submit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ responses }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to submit exam')
+        return
+      }
+      unsaved.current = {}
+      toast.success(auto ? "Time's up — your exam was submitted" : 'Exam submitted', {
+        description: data.score
+          ? `Score: ${data.score.percentage.toFixed(1)}%`
+          : data.status === 'GRADED'
+          ? 'Your score will be posted when the exam results are released.'
+          : 'Some answers will be graded by hand; your score will be posted when grading is done.',
+      })
+      const attemptRes = await fetch(`/api/exams/${examId}/attempt`)
+      if (attemptRes.ok) applyView(await attemptRes.json())
+    } catch {
+      toast.error('Failed to submit exam')
+    } finally {
+      setSubmitting(false)
+    }
+  }, [view, responses, examId])
+
+  // Countdown; submit automatically when time runs out
+  useEffect(() => {
+    if (!isOpen || !view?.attempt.expiresAt) {
+      setRemainingMs(null)
+      return
+    }
+    const expiresAt = new Date(view.attempt.expiresAt).getTime()
+    const tick = () => {
+      const remaining = expiresAt - Date.now()
+      setRemainingMs(remaining)
+      if (remaining <= 0) {
+        clearInterval(interval)
+        submitExam(true)
+      }
+    }
+    const interval = setInterval(tick, 1000)
+    tick()
+    return () => clearInterval(interval)
+  }, [isOpen, view?.attempt.expiresAt, submitExam])
+
+  const startExam = async () => {
+    setStarting(true)
+    try {
+      const res = await fetch(`/api/exams/${examId}/attempt`, { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to start exam')
+        return
+      }
+      applyView(data)
+    } catch {
+      toast.error('Failed to start exam')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const confirmSubmit = () => {
+    const unanswered = view ? view.questions.filter(q => !responses[q.id]?.trim()).length : 0
+    const message = unanswered > 0
+      ? `You have ${unanswered} unanswered question(s). Submit anyway? You can't change your answers afterwards.`
+      : "Submit your exam? You can't change your answers afterwards."
+    if (confirm(message)) submitExam()
+  }
+
+  if (loading || authStatus === 'loading') {
+    return <PageLoading />
+  }
+
+  const header = (title: string, subtitle: string) => (
+    <div className="flex items-center gap-4">
+      <Button variant="ghost" size="icon" onClick={() => router.push('/dashboard/student/exams')}>
+        <ChevronLeft className="h-5 w-5" />
+      </Button>
+      <div className="flex-1">
+        <h1 className="text-2xl font-bold dark:text-white">{title}</h1>
+        <p className="text-gray-600 dark:text-gray-400">{subtitle}</p>
+      </div>
+    </div>
+  )
+
+  // Start screen
+  if (!view) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-950 p-4 md:p-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {header(summary ? `${summary.examSection.displayName} Exam` : 'Exam', 'Online exam')}
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              {!summary ? (
+                <p className="text-gray-500">This exam isn&apos;t available to take online.</p>
+              ) : (
+                <>
+                  <ul className="text-sm text-gray-700 space-y-1">
+                    <li>{summary._count.questions} questions</li>
+                    <li>{summary.durationMinutes ? `${summary.durationMinutes} minute time limit` : 'No time limit'}</li>
+                    <li>Your answers are saved as you go. You can only take this exam once.</li>
+                    {summary.durationMinutes && (
+                      <li>The timer starts when you press Start and the exam submits itself when time runs out.</li>
+                    )}
+                  </ul>
+                  <Button onClick={startExam} disabled={starting}>
+                    {starting ? 'Starting...' : 'Start Exam'}
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  const gradeFor = (questionId: string) => view.answers.find(a => a.questionId === questionId)
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 p-4 md:p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {header(
+          `${view.exam.examSection.displayName} Exam`,
+          formatDateUTC(view.exam.examDate, { month: 'short', day: 'numeric', year: 'numeric' })
+        )}
+
+        {/* Status bar */}
+        <Card className={isOpen ? 'sticky top-2 z-10' : ''}>
+          <CardContent className="p-3 flex flex-wrap items-center gap-3 text-sm">
+            {isOpen ? (
+              <>
+                {remainingMs !== null && (
+                  <span className={`flex items-center gap-1 font-mono font-semibold ${remainingMs < 60000 ? 'text-red-600' : ''}`}>
+                    <Clock className="h-4 w-4" />
+                    {formatRemaining(remainingMs)}
+                  </span>
+                )}
+                <span className="text-gray-500">
+                  {view.questions.filter(q => responses[q.id]?.trim()).length} / {view.questions.length} answered
+                </span>
+                {lastSaved && <span className="text-xs text-gray-400">Saved {lastSaved.toLocaleTimeString()}</span>}
+                <Button size="sm" className="ml-auto" onClick={confirmSubmit} disabled={submitting}>
+                  {submitting ? 'Submitting...' : 'Submit Exam'}
+                </Button>
+              </>
+            ) : view.score ? (
+              <span className="font-semibold">
+                Score: {view.score.score} / {view.exam.totalPoints} ({view.score.percentage.toFixed(1)}%)
+              </span>
+            ) : view.attempt.status === 'GRADED' ? (
+              <span className="text-gray-600">Submitted. Your score will be posted when the exam results are released.</span>
+            ) : (
+              <span className="text-gray-600">Submitted. Some answers are waiting to be graded.</span>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Questions */}
+        {view.questions.map((question, index) => {
+          const response = responses[question.id] || ''
+          const grade = gradeFor(question.id)
+          const graded = grade?.pointsAwarded !== undefined && grade?.pointsAwarded !== null
+
+          return (
+            <Card key={question.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold">Question {index + 1}</span>
+                  <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                  <span className="text-xs text-gray-500">{question.points} pt(s)</span>
+                  {graded && (
+                    <span className={`ml-auto flex items-center gap-1 text-sm font-medium ${grade.isCorrect ? 'text-green-700' : 'text-red-700'}`}>
+                      {grade.isCorrect ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+                      {grade.pointsAwarded} / {question.points}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm whitespace-pre-wrap">{question.prompt}</p>
+
+                {question.type === 'MULTIPLE_CHOICE' && (
+                  <div className="space-y-2">
+                    {question.options.map((option, i) => (
+                      <label key={i} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input
+                          type="radio"
+                          name={question.id}
+                          checked={response === String(i)}
+                          onChange={() => handleResponse(question.id, String(i))}
+                          disabled={!isOpen}
+                        />
+                        {String.fromCharCode(65 + i)}. {option}
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {question.type === 'TRUE_FALSE' && (
+                  <div className="flex gap-4">
+                    {['true', 'false'].map(value => (
+                      <label key={value} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input
+                          type="radio"
+                          name={question.id}
+                          checked={response === value}
+                          onChange={() => handleResponse(question.id, value)}
+                          disabled={!isOpen}
+                        />
+                        {value === 'true' ? 'True' : 'False'}
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                {question.type === 'SHORT_ANSWER' && (
+                  <Input
+                    value={response}
+                    onChange={(e) => handleResponse(question.id, e.target.value)}
+                    disabled={!isOpen}
+                    placeholder="Your answer"
+                  />
+                )}
+
+                {question.type === 'ESSAY' && (
+                  <Textarea
+                    value={response}
+                    onChange={(e) => handleResponse(question.id, e.target.value)}
+                    disabled={!isOpen}
+                    placeholder="Your answer"
+                    rows={6}
+                  />
+                )}
+
+                {grade?.feedback && (
+                  <p className="text-sm text-gray-700 bg-gray-50 border rounded-md p-2">
+                    <span className="font-medium">Feedback:</span> {grade.feedback}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { PageLoading } from '@/components/ui/page-loading'
+import { toast } from 'sonner'
+import { ChevronLeft, Clock, FileText } from 'lucide-react'
+import { formatDateUTC } from '@/lib/utils'
+
+interface OnlineExam {
+  id: string
+  examDate: string
+  totalPoints: number
+  durationMinutes: number | null
+  examSection: { displayName: string }
+  _count: { questions: number }
+  attempt: {
+    id: string
+    status: 'IN_PROGRESS' | 'SUBMITTED' | 'GRADED'
+    startedAt: string
+    expiresAt: string | null
+    submittedAt: string | null
+  } | null
+  score: { score: number; percentage: number } | null
+}
+
+export default function StudentExamsPage() {
+  const { data: session, status: authStatus } = useSession()
+  const router = useRouter()
+  const [exams, setExams] = useState<OnlineExam[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (authStatus === 'unauthenticated') router.push('/login')
+    else if (authStatus === 'authenticated' && session?.user?.role !== 'STUDENT') router.push('/dashboard')
+  }, [authStatus, session, router])
+
+  useEffect(() => {
+    const fetchExams = async () => {
+      try {
+        const res = await fetch('/api/exams/online')
+        if (!res.ok) throw new Error('Failed to load exams')
+        setExams(await res.json())
+      } catch {
+        toast.error('Failed to load exams')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    if (session?.user) fetchExams()
+  }, [session?.user])
+
+  if (loading || authStatus === 'loading') {
+    return <PageLoading />
+  }
+
+  const renderStatus = (exam: OnlineExam) => {
+    if (exam.score) {
+      return (
+        <Badge className={exam.score.percentage >= 60 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+          {exam.score.percentage.toFixed(1)}%
+        </Badge>
+      )
+    }
+    switch (exam.attempt?.status) {
+      case 'GRADED':
+        return <Badge className="bg-gray-100 text-gray-700">Score not released yet</Badge>
+      case 'IN_PROGRESS':
+        return <Badge className="bg-yellow-100 text-yellow-800">In progress</Badge>
+      case 'SUBMITTED':
+        return <Badge className="bg-blue-100 text-blue-800">Awaiting grading</Badge>
+      default:
+        return <Badge variant="outline">Not started</Badge>
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950 p-4 md:p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => router.push('/dashboard/student')}>
+            <ChevronLeft className="h-5 w-5" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-2xl font-bold dark:text-white">My Exams</h1>
+            <p className="text-gray-600 dark:text-gray-400">Exams you can take online</p>
+          </div>
+        </div>
+
+        {exams.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-gray-500">
+              No online exams are open right now.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-3">
+            {exams.map(exam => (
+              <Card key={exam.id}>
+                <CardContent className="p-4 flex flex-wrap items-center gap-4">
+                  <FileText className="h-5 w-5 text-maroon-600 shrink-0" />
+                  <div className="flex-1 min-w-48">
+                    <div className="font-semibold">{exam.examSection.displayName} Exam</div>
+                    <div className="text-sm text-gray-600 flex flex-wrap items-center gap-x-2">
+                      <span>{formatDateUTC(exam.examDate, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                      <span>• {exam._count.questions} questions</span>
+                      <span className="flex items-center gap-1">
+                        • <Clock className="h-3.5 w-3.5" />
+                        {exam.durationMinutes ? `${exam.durationMinutes} min` : 'No time limit'}
+                      </span>
+                    </div>
+                  </div>
+                  {renderStatus(exam)}
+                  {!exam.score && (!exam.attempt || exam.attempt.status === 'IN_PROGRESS') ? (
+                    <Button size="sm" onClick={() => router.push(`/dashboard/student/exams/${exam.id}`)}>
+                      {exam.attempt ? 'Resume' : 'Start Exam'}
+                    </Button>
+                  ) : exam.attempt && (
+                    <Button size="sm" variant="outline" onClick={() => router.push(`/dashboard/student/exams/${exam.id}`)}>
+                      Review
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -16,13 +16,16 @@ import {
   isGoogleDriveLink,
   extractDomain,
 } from '@/lib/link-metadata'
-import { Check, Clock, X, Shield, Calendar, BookOpen, ExternalLink, ChevronDown, ChevronRight, AlertTriangle, Minus } from 'lucide-react'
+import { formatSize } from '@/lib/drive'
+import { Check, Clock, X, Shield, Calendar, BookOpen, ExternalLink, Download, ChevronDown, ChevronRight, AlertTriangle, Minus } from 'lucide-react'
 
 interface LessonResource {
   id: string
   title: string
   url: string
   type: string | null
+  filename: string | null // Set for uploaded files
+  size: number | null
 }
 
 interface Lesson {
@@ -55,6 +58,14 @@ interface Lesson {
   } | null
 }
 
+// Icons for uploaded files by resource type
+const FILE_ICONS: Record<string, string> = {
+  slides: '📽️',
+  pdf: '📄',
+  audio: '🎧',
+  image: '🖼️',
+}
+
 export default function StudentLessonsPage() {
   const { session, status } = useAdminGuard((role) => role === 'STUDENT')
   const [lessons, setLessons] = useState<Lesson[]>([])
@@ -337,56 +348,74 @@ export default function StudentLessonsPage() {
                             <h4 className="text-sm font-medium mb-2 dark:text-white">Resources</h4>
                             <div className="grid gap-2 sm:grid-cols-2">
                               {lesson.resources.map(resource => {
-                                const isDrive = isGoogleDriveLink(resource.url)
+                                const isFile = !!resource.filename
+                                const isDrive = !isFile && isGoogleDriveLink(resource.url)
                                 const fileId = isDrive ? extractGoogleDriveFileId(resource.url) : null
-                                const icon = isDrive ? getGoogleDriveFileIcon(resource.url) : '🔗'
+                                const icon = isFile ? FILE_ICONS[resource.type ?? ''] ?? '📄' : isDrive ? getGoogleDriveFileIcon(resource.url) : '🔗'
+                                // Opened through the app so mentors can see who read the material
+                                const openUrl = `/api/lesson-resources/${resource.id}/open`
 
                                 return (
-                                  <a
+                                  <div
                                     key={resource.id}
-                                    href={resource.url}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="flex items-center gap-3 p-3 border rounded-lg hover:bg-white dark:hover:bg-gray-700 hover:shadow-sm transition-all group"
+                                    className="flex items-center border rounded-lg hover:bg-white dark:hover:bg-gray-700 hover:shadow-sm transition-all group"
                                   >
-                                    {/* Thumbnail or Icon */}
-                                    {isDrive && fileId ? (
-                                      <div className="shrink-0 w-12 h-12 rounded overflow-hidden bg-gray-100 dark:bg-gray-800 flex items-center justify-center">
-                                        {/* eslint-disable-next-line @next/next/no-img-element -- Google Drive thumbnail URL with onError fallback */}
-                                        <img
-                                          src={getGoogleDriveThumbnail(fileId)}
-                                          alt=""
-                                          className="w-full h-full object-cover"
-                                          onError={(e) => {
-                                            e.currentTarget.style.display = 'none'
-                                            const parent = e.currentTarget.parentElement
-                                            if (parent) {
-                                              const span = document.createElement('span')
-                                              span.className = 'text-2xl'
-                                              span.textContent = icon
-                                              parent.replaceChildren(span)
-                                            }
-                                          }}
-                                        />
-                                      </div>
-                                    ) : (
-                                      <div className="shrink-0 w-12 h-12 rounded bg-gray-100 dark:bg-gray-800 flex items-center justify-center text-2xl">
-                                        {icon}
-                                      </div>
-                                    )}
+                                    <a
+                                      href={openUrl}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="flex flex-1 min-w-0 items-center gap-3 p-3"
+                                    >
+                                      {/* Thumbnail or Icon */}
+                                      {isDrive && fileId ? (
+                                        <div className="shrink-0 w-12 h-12 rounded overflow-hidden bg-gray-100 dark:bg-gray-800 flex items-center justify-center">
+                                          {/* eslint-disable-next-line @next/next/no-img-element -- Google Drive thumbnail URL with onError fallback */}
+                                          <img
+                                            src={getGoogleDriveThumbnail(fileId)}
+                                            alt=""
+                                            className="w-full h-full object-cover"
+                                            onError={(e) => {
+                                              e.currentTarget.style.display = 'none'
+                                              const parent = e.currentTarget.parentElement
+                                              if (parent) {
+                                                const span = document.createElement('span')
+                                                span.className = 'text-2xl'
+                                                span.textContent = icon
+                                                parent.replaceChildren(span)
+                                              }
+                                            }}
+                                          />
+                                        </div>
+                                      ) : (
+                                        <div className="shrink-0 w-12 h-12 rounded bg-gray-100 dark:bg-gray-800 flex items-center justify-center text-2xl">
+                                          {icon}
+                                        </div>
+                                      )}
 
-                                    {/* Resource Info */}
-                                    <div className="flex-1 min-w-0">
-                                      <div className="font-medium text-sm truncate dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400">
-                                        {resource.title}
-                                      </div>
-                                      <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
-                                        {isDrive ? 'Google Drive' : extractDomain(resource.url)}
+                                      {/* Resource Info */}
+                                      <div className="flex-1 min-w-0">
+                                        <div className="font-medium text-sm truncate dark:text-white group-hover:text-blue-600 dark:group-hover:text-blue-400">
+                                          {resource.title}
+                                        </div>
+                                        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                                          {isFile
+                                            ? [resource.filename, formatSize(resource.size ? String(resource.size) : undefined)].filter(Boolean).join(' · ')
+                                            : isDrive ? 'Google Drive' : extractDomain(resource.url)}
+                                        </div>
                                       </div>
-                                    </div>
 
-                                    <ExternalLink className="h-4 w-4 text-gray-400 group-hover:text-blue-600 dark:group-hover:text-blue-400 shrink-0" />
-                                  </a>
+                                      <ExternalLink className="h-4 w-4 text-gray-400 group-hover:text-blue-600 dark:group-hover:text-blue-400 shrink-0" />
+                                    </a>
+                                    {isFile && (
+                                      <a
+                                        href={`${openUrl}?download=1`}
+                                        className="p-3 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 shrink-0"
+                                        title="Download"
+                                      >
+                                        <Download className="h-4 w-4" />
+                                      </a>
+                                    )}
+                                  </div>
                                 )
                               })}
                             </div>
@@ -8,12 +8,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { DashboardSkeleton } from '@/components/ui/skeleton'
 import { PageHeader } from '@/components/admin/page-header'
+import { PlannedAbsencesCard } from '@/components/planned-absences-card'
+import { ExamFeedbackCard } from '@/components/exam-feedback-card'
 import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
 import { SECTION_DISPLAY_NAMES } from '@/lib/constants'
 import type { AttendanceAnalytics, ExamAnalytics, GraduationStatus } from '@/lib/types'
 import { getAttendanceGuidance, getExamGuidance } from '@/lib/graduation-guidance'
-import { Phone, Mail, Church, Lightbulb, BookOpen, FileText, GraduationCap as GradCap } from 'lucide-react'
+import { DEFAULT_ATTENDANCE_POLICY, describeLateWeight } from '@/lib/attendance-policy'
+import { RETAKE_POLICY_LABELS, SITTING_TYPE_LABELS } from '@/lib/exam-retakes'
+import { formatDateUTC } from '@/lib/utils'
+import { Phone, Mail, Church, Lightbulb, BookOpen, FileText, QrCode, GraduationCap as GradCap } from 'lucide-react'
 
 interface Analytics {
   enrollment: {
@@ -131,6 +136,7 @@ export default function StudentDashboard() {
     )
   }
 
+  const lateWeight = analytics.attendance.lateWeight ?? DEFAULT_ATTENDANCE_POLICY.lateWeight
 
   return (
     <div className="min-h-screen bg-gray-50 p-4 md:p-8">
@@ -148,6 +154,10 @@ export default function StudentDashboard() {
                 <BookOpen className="h-4 w-4" />
                 My Lessons
               </Button>
+              <Button onClick={() => router.push('/dashboard/student/check-in')} size="sm" variant="outline" className="gap-2">
+                <QrCode className="h-4 w-4" />
+                Check In
+              </Button>
               {analytics.enrollment.isAsyncStudent && (
                 <>
                   <Button
@@ -400,6 +410,9 @@ export default function StudentDashboard() {
               <div>
                 <div className="font-semibold text-yellow-700">Late</div>
                 <div className="text-2xl text-yellow-700">{analytics.attendance.lateCount}</div>
+                {typeof analytics.attendance.averageMinutesLate === 'number' && (
+                  <div className="text-xs text-yellow-700">avg. {analytics.attendance.averageMinutesLate} min</div>
+                )}
               </div>
               <div>
                 <div className="font-semibold text-red-700">Absent</div>
@@ -421,11 +434,14 @@ export default function StudentDashboard() {
               </div>
             </div>
             <p className="text-xs text-gray-500 italic">
-              Formula: (Present + Late÷2) ÷ (Total - Excused) • 2 lates = 1 absence • Excused days don&apos;t count against you
+              Formula: (Present + Late×{lateWeight}) ÷ (Total - Excused) • {describeLateWeight(lateWeight)} • Excused days don&apos;t count against you
             </p>
           </CardContent>
         </Card>
 
+        {/* Planned Absences */}
+        {session?.user?.id && <PlannedAbsencesCard studentId={session.user.id} />}
+
         {/* Exam Scores */}
         <Card>
           <CardHeader>
@@ -489,8 +505,40 @@ export default function StudentDashboard() {
                 </div>
               </div>
             )}
+
+            {/* Makeups and retakes */}
+            {analytics.exams.examHistory && analytics.exams.examHistory.length > 0 && (
+              <div className="mt-4 pt-4 border-t">
+                <h4 className="font-semibold mb-2">Makeups &amp; Retakes</h4>
+                <div className="space-y-2">
+                  {analytics.exams.examHistory.map((entry) => (
+                    <div key={entry.originalExamId} className="rounded border p-2">
+                      <div className="flex justify-between items-center">
+                        <div className="text-sm font-medium">{entry.sectionDisplayName}</div>
+                        <span className="text-sm font-medium">
+                          {entry.effectivePercentage.toFixed(1)}% counts
+                          {entry.capped && ' (capped at passing)'}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1 space-y-0.5">
+                        {entry.sittings.map((s) => (
+                          <div key={s.examId} className={s.counted ? 'text-gray-800' : ''}>
+                            {SITTING_TYPE_LABELS[s.sittingType]} • {formatDateUTC(s.examDate, { month: 'short', day: 'numeric', year: 'numeric' })} • {s.percentage.toFixed(1)}%
+                            {s.counted && ' ✓'}
+                          </div>
+                        ))}
+                      </div>
+                      <div className="text-xs text-gray-400 mt-1">{RETAKE_POLICY_LABELS[entry.policy]}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
+
+        {/* Posted scores and regrade requests */}
+        <ExamFeedbackCard />
       </div>
     </div>
   )
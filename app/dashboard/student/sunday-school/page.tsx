@@ -44,6 +44,7 @@ interface SSAssignment {
     effectiveTotal: number
     percentage: number
     met: boolean
+    required: number
   } | null
   weeks: SSWeek[]
 }
@@ -208,7 +209,7 @@ export default function SundaySchoolPage() {
                         {assignment.attendance.present} of {assignment.attendance.effectiveTotal} weeks attended
                       </span>
                       <span className={assignment.attendance.met ? 'text-green-600 font-medium' : 'text-red-600 font-medium'}>
-                        {assignment.attendance.percentage.toFixed(0)}% {assignment.attendance.met ? '(Met)' : '(Need 75%)'}
+                        {assignment.attendance.percentage.toFixed(0)}% {assignment.attendance.met ? '(Met)' : `(Need ${assignment.attendance.required}%)`}
                       </span>
                     </div>
                     <Progress value={assignment.attendance.percentage} className="h-3" />
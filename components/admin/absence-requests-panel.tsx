@@ -0,0 +1,163 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { ExcuseAttachments, type ExcuseAttachmentItem } from '@/components/excuse-attachments'
+import { formatAbsenceRange } from '@/lib/expected-absence-utils'
+import { toast } from 'sonner'
+import { Check, Plane, X } from 'lucide-react'
+
+interface AbsenceRequest {
+  id: string
+  startDate: string
+  endDate: string
+  reason: string
+  createdAt: string
+  student: { id: string; name: string }
+  attachments: ExcuseAttachmentItem[]
+}
+
+/**
+ * Pending student absence requests with approve/reject actions. Pass a
+ * mentorId to limit the list to that mentor's mentees. Renders nothing when
+ * there is nothing to review.
+ */
+export function AbsenceRequestsPanel({ mentorId }: { mentorId?: string }) {
+  const [requests, setRequests] = useState<AbsenceRequest[]>([])
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+  const [rejecting, setRejecting] = useState<AbsenceRequest | null>(null)
+  const [rejectNote, setRejectNote] = useState('')
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const query = mentorId ? `&mentorId=${mentorId}` : ''
+      const res = await fetch(`/api/expected-absences?status=PENDING${query}`)
+      if (res.ok) {
+        const data = await res.json()
+        setRequests(Array.isArray(data) ? data : [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch absence requests:', error)
+    }
+  }, [mentorId])
+
+  useEffect(() => {
+    fetchRequests()
+  }, [fetchRequests])
+
+  const review = async (request: AbsenceRequest, status: 'APPROVED' | 'REJECTED', note?: string) => {
+    setReviewingId(request.id)
+    try {
+      const res = await fetch(`/api/expected-absences/${request.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, note }),
+      })
+      if (res.ok) {
+        toast.success(status === 'APPROVED'
+          ? `Approved ${request.student.name}'s absence — overlapping lessons were excused`
+          : `Rejected ${request.student.name}'s absence request`)
+        setRequests(prev => prev.filter(r => r.id !== request.id))
+        setRejecting(null)
+        setRejectNote('')
+      } else {
+        const data = await res.json()
+        toast.error(data.error || 'Failed to review request')
+      }
+    } catch (error) {
+      console.error('Failed to review absence request:', error)
+      toast.error('Failed to review request')
+    } finally {
+      setReviewingId(null)
+    }
+  }
+
+  if (requests.length === 0) return null
+
+  return (
+    <>
+      <Card className="border-sky-200 dark:border-sky-800">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <Plane className="h-5 w-5 text-sky-600" />
+            <CardTitle>Absence Requests</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="divide-y">
+            {requests.map((request) => (
+              <div key={request.id} className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium">{request.student.name}</p>
+                  <p className="text-sm text-gray-600">{formatAbsenceRange(request.startDate, request.endDate)}</p>
+                  <p className="text-xs text-gray-500 break-words">{request.reason}</p>
+                  <ExcuseAttachments attachments={request.attachments} />
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    size="sm"
+                    onClick={() => review(request, 'APPROVED')}
+                    disabled={reviewingId === request.id}
+                    className="gap-1"
+                  >
+                    <Check className="h-4 w-4" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setRejecting(request)}
+                    disabled={reviewingId === request.id}
+                    className="gap-1 text-red-600 hover:text-red-700"
+                  >
+                    <X className="h-4 w-4" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => { if (!open) { setRejecting(null); setRejectNote('') } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Absence Request</DialogTitle>
+            <DialogDescription>
+              {rejecting && `${rejecting.student.name} • ${formatAbsenceRange(rejecting.startDate, rejecting.endDate)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Let the student know why (required)"
+            value={rejectNote}
+            onChange={(e) => setRejectNote(e.target.value)}
+            rows={3}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setRejecting(null); setRejectNote('') }}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && review(rejecting, 'REJECTED', rejectNote.trim())}
+              disabled={!rejectNote.trim() || reviewingId === rejecting?.id}
+            >
+              Reject
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
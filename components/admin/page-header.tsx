@@ -4,10 +4,11 @@ interface PageHeaderProps {
   title: string
   description?: string
   lastSaved?: Date | null
+  pendingSyncCount?: number
   actions?: React.ReactNode
 }
 
-export function PageHeader({ title, description, lastSaved, actions }: PageHeaderProps) {
+export function PageHeader({ title, description, lastSaved, pendingSyncCount, actions }: PageHeaderProps) {
   return (
     <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
       <div>
@@ -15,7 +16,7 @@ export function PageHeader({ title, description, lastSaved, actions }: PageHeade
         {description && (
           <p className="text-sm text-gray-600">{description}</p>
         )}
-        {lastSaved !== undefined && <LastSaved date={lastSaved ?? null} />}
+        {lastSaved !== undefined && <LastSaved date={lastSaved ?? null} pendingSyncCount={pendingSyncCount} />}
       </div>
       {actions && (
         <div className="flex items-center gap-2">
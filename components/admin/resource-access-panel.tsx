@@ -0,0 +1,126 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { formatDateUTC } from '@/lib/utils'
+import { BookOpen, ChevronDown, ChevronRight } from 'lucide-react'
+
+interface AccessStudent {
+  studentId: string
+  name: string
+  views: number
+  downloads: number
+  lastOpenedAt: string
+  seenLatest: boolean
+}
+
+interface ResourceSummary {
+  resourceId: string
+  title: string
+  isFile: boolean
+  version: number
+  opened: AccessStudent[]
+  notOpened: { studentId: string; name: string }[]
+}
+
+interface AccessReport {
+  studentCount: number
+  lessons: {
+    id: string
+    title: string
+    lessonNumber: number
+    scheduledDate: string
+    resources: ResourceSummary[]
+  }[]
+}
+
+const formatShort = (date: string) => formatDateUTC(date, { month: 'short', day: 'numeric' })
+
+function ResourceRow({ resource, studentCount }: { resource: ResourceSummary; studentCount: number }) {
+  const [expanded, setExpanded] = useState(false)
+
+  return (
+    <div className="text-sm">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex w-full items-center gap-2 text-left hover:text-maroon-700"
+      >
+        {expanded ? <ChevronDown className="h-3.5 w-3.5 shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 shrink-0" />}
+        <span className="truncate">{resource.title}</span>
+        <span className="ml-auto shrink-0 text-xs text-gray-500">
+          {resource.opened.length} of {studentCount} opened
+        </span>
+      </button>
+      {expanded && (
+        <div className="ml-6 mt-1 space-y-1 text-xs">
+          {resource.opened.map(student => (
+            <div key={student.studentId} className="flex flex-wrap items-center gap-2">
+              <span className="font-medium">{student.name}</span>
+              <span className="text-gray-500">
+                {student.views} view{student.views !== 1 ? 's' : ''}
+                {student.downloads > 0 && `, ${student.downloads} download${student.downloads !== 1 ? 's' : ''}`}
+                {' '}· last {formatShort(student.lastOpenedAt)}
+              </span>
+              {!student.seenLatest && (
+                <Badge variant="outline" className="text-[10px]">Only an older version</Badge>
+              )}
+            </div>
+          ))}
+          {resource.notOpened.length > 0 && (
+            <p className="text-gray-500">
+              Not opened: {resource.notOpened.map(s => s.name).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Who opened the resources of the most recent lessons. Pass a mentorId to
+ * limit it to that mentor's mentees. Renders nothing when no recent lesson
+ * has resources.
+ */
+export function ResourceAccessPanel({ mentorId }: { mentorId?: string }) {
+  const [report, setReport] = useState<AccessReport | null>(null)
+
+  useEffect(() => {
+    const query = mentorId ? `?mentorId=${mentorId}` : ''
+    fetch(`/api/lesson-resources/access${query}`)
+      .then(async res => {
+        if (res.ok) setReport(await res.json())
+      })
+      .catch(error => console.error('Failed to fetch resource access:', error))
+  }, [mentorId])
+
+  if (!report || report.lessons.length === 0 || report.studentCount === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          Lesson Material
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.lessons.map(lesson => (
+          <div key={lesson.id}>
+            <p className="text-sm font-medium mb-1">
+              {lesson.lessonNumber}. {lesson.title}
+              <span className="ml-2 text-xs font-normal text-gray-500">{formatShort(lesson.scheduledDate)}</span>
+            </p>
+            <div className="space-y-1">
+              {lesson.resources.map(resource => (
+                <ResourceRow key={resource.resourceId} resource={resource} studentCount={report.studentCount} />
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
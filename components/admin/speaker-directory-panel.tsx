@@ -0,0 +1,318 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { TableSkeleton } from '@/components/ui/skeleton'
+import { toast } from 'sonner'
+import { Mic, Pencil, Plus, Trash2 } from 'lucide-react'
+
+interface Speaker {
+  id: string
+  name: string
+  email: string | null
+  phone: string | null
+  bio: string | null
+  userId: string | null
+  isActive: boolean
+  user: { id: string; name: string; email: string } | null
+  _count: { lessons: number }
+}
+
+interface UserOption {
+  id: string
+  name: string
+  email: string
+  role: string
+  isDisabled: boolean
+}
+
+const EMPTY_FORM = { name: '', email: '', phone: '', bio: '', userId: '' }
+
+const selectClassName = 'h-9 px-2 rounded-md border border-input bg-background text-sm dark:bg-gray-800 dark:text-white dark:border-gray-600'
+
+export function SpeakerDirectoryPanel({ canManage }: { canManage: boolean }) {
+  const [speakers, setSpeakers] = useState<Speaker[]>([])
+  const [users, setUsers] = useState<UserOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showInactive, setShowInactive] = useState(false)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<Speaker | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  const fetchSpeakers = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/speakers${showInactive ? '?includeInactive=true' : ''}`)
+      if (res.ok) setSpeakers(await res.json())
+    } catch (error) {
+      console.error('Failed to fetch speakers:', error)
+      toast.error('Failed to load speakers')
+    } finally {
+      setLoading(false)
+    }
+  }, [showInactive])
+
+  useEffect(() => {
+    fetchSpeakers()
+  }, [fetchSpeakers])
+
+  // Accounts a speaker can be linked to, for requests and the speaker portal
+  useEffect(() => {
+    if (!canManage) return
+    fetch('/api/users')
+      .then(res => (res.ok ? res.json() : []))
+      .then((data: UserOption[]) => setUsers(data.filter(u => u.role !== 'STUDENT' && !u.isDisabled)))
+      .catch(error => console.error('Failed to fetch users:', error))
+  }, [canManage])
+
+  const openCreate = () => {
+    setEditing(null)
+    setForm(EMPTY_FORM)
+    setDialogOpen(true)
+  }
+
+  const openEdit = (speaker: Speaker) => {
+    setEditing(speaker)
+    setForm({
+      name: speaker.name,
+      email: speaker.email ?? '',
+      phone: speaker.phone ?? '',
+      bio: speaker.bio ?? '',
+      userId: speaker.userId ?? '',
+    })
+    setDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('A speaker name is required')
+      return
+    }
+    setSaving(true)
+    try {
+      const res = await fetch(editing ? `/api/speakers/${editing.id}` : '/api/speakers', {
+        method: editing ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save speaker')
+        return
+      }
+      toast.success(editing ? 'Speaker updated' : 'Speaker added')
+      setDialogOpen(false)
+      fetchSpeakers()
+    } catch (error) {
+      console.error('Failed to save speaker:', error)
+      toast.error('Failed to save speaker')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReactivate = async (speaker: Speaker) => {
+    try {
+      const res = await fetch(`/api/speakers/${speaker.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: true }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        toast.error(data.error || 'Failed to reactivate speaker')
+        return
+      }
+      toast.success(`${speaker.name} is active again`)
+      fetchSpeakers()
+    } catch (error) {
+      console.error('Failed to reactivate speaker:', error)
+      toast.error('Failed to reactivate speaker')
+    }
+  }
+
+  const handleDelete = async (speaker: Speaker) => {
+    const message = speaker._count.lessons > 0
+      ? `${speaker.name} has lessons, so they will be made inactive instead of deleted. Continue?`
+      : `Delete ${speaker.name}?`
+    if (!confirm(message)) return
+    try {
+      const res = await fetch(`/api/speakers/${speaker.id}`, { method: 'DELETE' })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to remove speaker')
+        return
+      }
+      toast.success(data.deactivated ? `${speaker.name} made inactive` : `${speaker.name} deleted`)
+      fetchSpeakers()
+    } catch (error) {
+      console.error('Failed to remove speaker:', error)
+      toast.error('Failed to remove speaker')
+    }
+  }
+
+  // Accounts already linked to another speaker can't be picked again
+  const linkedUserIds = new Set(speakers.filter(s => s.userId && s.id !== editing?.id).map(s => s.userId))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+          />
+          Show inactive speakers
+        </label>
+        {canManage && (
+          <Button size="sm" onClick={openCreate} className="ml-auto gap-1">
+            <Plus className="h-4 w-4" />
+            Add Speaker
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <TableSkeleton />
+          ) : speakers.length === 0 ? (
+            <div className="py-12 text-center text-gray-500">
+              <Mic className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              No speakers yet.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50 dark:bg-gray-900 text-left text-xs text-gray-500">
+                    <th className="p-3">Name</th>
+                    <th className="p-3">Contact</th>
+                    <th className="p-3">Account</th>
+                    <th className="p-3 text-right">Lessons</th>
+                    {canManage && <th className="p-3"></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {speakers.map(speaker => (
+                    <tr key={speaker.id} className={`border-b last:border-0 ${speaker.isActive ? '' : 'opacity-60'}`}>
+                      <td className="p-3 align-top">
+                        <div className="font-medium flex items-center gap-2">
+                          {speaker.name}
+                          {!speaker.isActive && <Badge variant="outline">Inactive</Badge>}
+                        </div>
+                        {speaker.bio && (
+                          <p className="text-xs text-gray-500 mt-0.5 line-clamp-2 max-w-md">{speaker.bio}</p>
+                        )}
+                      </td>
+                      <td className="p-3 align-top text-gray-600 dark:text-gray-400">
+                        {speaker.email && <div>{speaker.email}</div>}
+                        {speaker.phone && <div>{speaker.phone}</div>}
+                        {!speaker.email && !speaker.phone && '—'}
+                      </td>
+                      <td className="p-3 align-top text-gray-600 dark:text-gray-400">
+                        {speaker.user ? speaker.user.name : <span className="text-gray-400">Not linked</span>}
+                      </td>
+                      <td className="p-3 align-top text-right">{speaker._count.lessons}</td>
+                      {canManage && (
+                        <td className="p-3 align-top">
+                          <div className="flex justify-end gap-1">
+                            {!speaker.isActive && (
+                              <Button size="sm" variant="ghost" className="h-8 text-xs" onClick={() => handleReactivate(speaker)}>
+                                Reactivate
+                              </Button>
+                            )}
+                            <Button size="sm" variant="ghost" className="h-8 px-2" onClick={() => openEdit(speaker)} title="Edit">
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            {speaker.isActive && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-8 px-2 text-red-600 hover:text-red-700"
+                                onClick={() => handleDelete(speaker)}
+                                title="Remove"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Speaker' : 'Add Speaker'}</DialogTitle>
+            <DialogDescription>
+              Link the speaker to an account so they get confirmation requests and reminders, and can use the speaker portal.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="speaker-name">Name</Label>
+              <Input id="speaker-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="speaker-email">Email</Label>
+                <Input id="speaker-email" type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="speaker-phone">Phone</Label>
+                <Input id="speaker-phone" value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="speaker-user">Account</Label>
+              <select
+                id="speaker-user"
+                value={form.userId}
+                onChange={(e) => setForm({ ...form, userId: e.target.value })}
+                className={`${selectClassName} w-full`}
+              >
+                <option value="">Not linked</option>
+                {editing?.user && !users.some(u => u.id === editing.user?.id) && (
+                  <option value={editing.user.id}>{editing.user.name} ({editing.user.email})</option>
+                )}
+                {users.filter(u => !linkedUserIds.has(u.id)).map(u => (
+                  <option key={u.id} value={u.id}>{u.name} ({u.email})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="speaker-bio">Bio</Label>
+              <Textarea id="speaker-bio" value={form.bio} onChange={(e) => setForm({ ...form, bio: e.target.value })} className="min-h-[80px]" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { TableSkeleton } from '@/components/ui/skeleton'
+import { toast } from 'sonner'
+
+interface AcademicYear {
+  id: string
+  name: string
+  isActive: boolean
+}
+
+interface ReportRow {
+  speakerId: string | null
+  name: string
+  total: number
+  upcoming: number
+  bySection: Record<string, number>
+}
+
+const selectClassName = 'h-9 px-2 rounded-md border border-input bg-background text-sm dark:bg-gray-800 dark:text-white dark:border-gray-600'
+
+export function SpeakerReportPanel() {
+  const [academicYears, setAcademicYears] = useState<AcademicYear[]>([])
+  const [yearId, setYearId] = useState('')
+  const [sections, setSections] = useState<string[]>([])
+  const [rows, setRows] = useState<ReportRow[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetch('/api/academic-years')
+      .then(res => (res.ok ? res.json() : []))
+      .then((years: AcademicYear[]) => {
+        setAcademicYears(years)
+        const active = years.find(y => y.isActive)
+        if (active) setYearId(active.id)
+      })
+      .catch(error => console.error('Failed to fetch academic years:', error))
+  }, [])
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setLoading(true)
+      try {
+        const res = await fetch(`/api/speakers/report${yearId ? `?academicYearId=${yearId}` : ''}`)
+        if (!res.ok) throw new Error('Failed to fetch report')
+        const data = await res.json()
+        setSections(data.sections)
+        setRows(data.rows)
+      } catch (error) {
+        console.error('Failed to fetch speaker report:', error)
+        toast.error('Failed to load the speaker report')
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchReport()
+  }, [yearId])
+
+  // Only sections someone spoke in get a column
+  const usedSections = sections.filter(section => rows.some(row => row.bySection[section]))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select value={yearId} onChange={(e) => setYearId(e.target.value)} className={selectClassName}>
+          <option value="">All years</option>
+          {academicYears.map(year => (
+            <option key={year.id} value={year.id}>{year.name}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500">
+          Lessons held so far. Cancelled and no-class lessons are not counted.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <TableSkeleton />
+          ) : rows.length === 0 ? (
+            <div className="py-12 text-center text-gray-500">No lessons with speakers.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-gray-50 dark:bg-gray-900 text-xs text-gray-500">
+                    <th className="p-3 text-left">Speaker</th>
+                    {usedSections.map(section => (
+                      <th key={section} className="p-3 text-right">{section}</th>
+                    ))}
+                    <th className="p-3 text-right">Total</th>
+                    <th className="p-3 text-right">Upcoming</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.speakerId ?? `name:${row.name}`} className="border-b last:border-0">
+                      <td className="p-3">
+                        {row.name}
+                        {!row.speakerId && <span className="ml-2 text-xs text-gray-400">not in directory</span>}
+                      </td>
+                      {usedSections.map(section => (
+                        <td key={section} className="p-3 text-right text-gray-600 dark:text-gray-400">
+                          {row.bySection[section] ?? '—'}
+                        </td>
+                      ))}
+                      <td className="p-3 text-right font-medium">{row.total}</td>
+                      <td className="p-3 text-right text-gray-500">{row.upcoming}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
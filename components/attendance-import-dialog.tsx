@@ -0,0 +1,331 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { AlertTriangle, FileSpreadsheet, Upload } from 'lucide-react'
+import { formatDateUTC } from '@/lib/utils'
+import type { AcademicYear } from '@/lib/types'
+import {
+  AUTO_MATCH_CONFIDENCE,
+  buildImportBatches,
+  type AttendanceGrid,
+  type MatchResult,
+} from '@/lib/attendance-import'
+
+interface AttendanceImportDialogProps {
+  academicYears: AcademicYear[]
+  defaultYearId?: string
+  onSuccess: () => void
+}
+
+interface ImportPreview {
+  grid: AttendanceGrid
+  students: Array<{ id: string; name: string }>
+  lessons: Array<{
+    id: string
+    title: string
+    lessonNumber: number
+    scheduledDate: string
+    _count: { attendanceRecords: number }
+  }>
+  studentMatches: Record<number, MatchResult>
+  lessonMatches: Record<string, MatchResult>
+}
+
+const STATUS_SHORT: Record<string, string> = { PRESENT: 'P', LATE: 'L', ABSENT: 'A', EXCUSED: 'E' }
+
+function ConfidenceBadge({ match }: { match: MatchResult }) {
+  const percent = Math.round(match.confidence * 100)
+  if (match.confidence === 1 && !match.needsReview) {
+    return <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Exact</Badge>
+  }
+  if (match.confidence >= AUTO_MATCH_CONFIDENCE) {
+    return <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">{percent}%</Badge>
+  }
+  return (
+    <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+      {match.candidates.length > 0 ? `${percent}%` : 'No match'}
+    </Badge>
+  )
+}
+
+export function AttendanceImportDialog({ academicYears, defaultYearId, onSuccess }: AttendanceImportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [yearId, setYearId] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [studentByRow, setStudentByRow] = useState<Record<number, string | null>>({})
+  const [lessonByDate, setLessonByDate] = useState<Record<string, string | null>>({})
+  const [isParsing, setIsParsing] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const open = () => {
+    setYearId(defaultYearId && defaultYearId !== 'all'
+      ? defaultYearId
+      : academicYears.find(y => y.isActive)?.id || '')
+    setFile(null)
+    setPreview(null)
+    setIsOpen(true)
+  }
+
+  const handlePreview = async () => {
+    if (!file || !yearId) {
+      toast.error('Choose an academic year and a spreadsheet')
+      return
+    }
+
+    setIsParsing(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('academicYearId', yearId)
+      const res = await fetch('/api/attendance/import/preview', { method: 'POST', body: formData })
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to read spreadsheet')
+        return
+      }
+
+      const next = data as ImportPreview
+      setPreview(next)
+      setStudentByRow(Object.fromEntries(
+        next.grid.rows.map(row => [row.rowNumber, next.studentMatches[row.rowNumber]?.matchedId ?? null])
+      ))
+      setLessonByDate(Object.fromEntries(
+        next.grid.columns.map(column => [column.dateKey, next.lessonMatches[column.dateKey]?.matchedId ?? null])
+      ))
+    } catch (error) {
+      console.error('Failed to preview import:', error)
+      toast.error('Failed to read spreadsheet')
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const plan = useMemo(
+    () => preview ? buildImportBatches(preview.grid, studentByRow, lessonByDate) : null,
+    [preview, studentByRow, lessonByDate]
+  )
+  const recordCount = plan?.batches.reduce((sum, batch) => sum + batch.records.length, 0) ?? 0
+  const hasDuplicates = !!plan && (plan.duplicateStudentIds.length > 0 || plan.duplicateLessonIds.length > 0)
+  const unresolvedRows = preview?.grid.rows.filter(row => !studentByRow[row.rowNumber]).length ?? 0
+  const unresolvedColumns = preview?.grid.columns.filter(column => !lessonByDate[column.dateKey]).length ?? 0
+
+  const studentName = (id: string) => preview?.students.find(s => s.id === id)?.name || id
+  const lessonTitle = (id: string) => preview?.lessons.find(l => l.id === id)?.title || id
+
+  const handleCommit = async () => {
+    if (!plan || plan.batches.length === 0) return
+
+    setIsSubmitting(true)
+    try {
+      const res = await fetch('/api/attendance/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ batches: plan.batches }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to import attendance')
+        return
+      }
+
+      const failed: Array<{ lessonId: string; error: string }> = data.failed || []
+      toast.success(`Imported attendance: ${data.created} created, ${data.updated} updated`, {
+        description: failed.length > 0
+          ? `Skipped: ${failed.map(f => `${lessonTitle(f.lessonId)} (${f.error})`).join(', ')}`
+          : undefined,
+      })
+      setIsOpen(false)
+      onSuccess()
+    } catch (error) {
+      console.error('Failed to import attendance:', error)
+      toast.error('Failed to import attendance')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={open} className="text-xs sm:text-sm gap-1">
+        <Upload className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+        Import Spreadsheet
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              Import Attendance
+            </DialogTitle>
+            <DialogDescription>
+              Upload an XLSX or CSV sheet with one row per student and one column per lesson date.
+              Cells may be P / L / A / E, the full status, or Attendance + Late checkboxes.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            {/* Upload */}
+            <div className="grid gap-3 sm:grid-cols-[1fr_2fr_auto] sm:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="import-year">Academic Year</Label>
+                <select
+                  id="import-year"
+                  value={yearId}
+                  onChange={(e) => { setYearId(e.target.value); setPreview(null) }}
+                  className="h-10 w-full px-3 rounded-md border border-input bg-background text-sm"
+                >
+                  <option value="">Select year</option>
+                  {academicYears.map(year => (
+                    <option key={year.id} value={year.id}>{year.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="import-file">Spreadsheet</Label>
+                <Input
+                  id="import-file"
+                  type="file"
+                  accept=".xlsx,.xls,.csv"
+                  onChange={(e) => { setFile(e.target.files?.[0] || null); setPreview(null) }}
+                />
+              </div>
+              <Button onClick={handlePreview} disabled={isParsing || !file || !yearId}>
+                {isParsing ? 'Reading...' : 'Preview'}
+              </Button>
+            </div>
+
+            {preview && plan && (
+              <>
+                {/* Lesson columns */}
+                <div className="space-y-2">
+                  <Label>Lessons ({preview.grid.columns.length} date columns)</Label>
+                  <div className="border rounded-lg divide-y">
+                    {preview.grid.columns.map(column => {
+                      const match = preview.lessonMatches[column.dateKey]
+                      const selected = lessonByDate[column.dateKey]
+                      const duplicate = !!selected && plan.duplicateLessonIds.includes(selected)
+                      return (
+                        <div
+                          key={column.dateKey}
+                          className={`flex flex-wrap items-center gap-2 p-2 text-sm ${match.needsReview || duplicate ? 'bg-amber-50' : ''}`}
+                        >
+                          <span className="w-28 font-medium">
+                            {formatDateUTC(`${column.dateKey}T00:00:00Z`, { month: 'short', day: 'numeric', year: 'numeric' })}
+                          </span>
+                          <ConfidenceBadge match={match} />
+                          <select
+                            value={selected || ''}
+                            onChange={(e) => setLessonByDate(prev => ({ ...prev, [column.dateKey]: e.target.value || null }))}
+                            className="h-8 flex-1 min-w-48 px-2 rounded-md border border-input bg-background text-sm"
+                          >
+                            <option value="">Skip this column</option>
+                            {preview.lessons.map(lesson => (
+                              <option key={lesson.id} value={lesson.id}>
+                                #{lesson.lessonNumber} {lesson.title} ({formatDateUTC(lesson.scheduledDate, { month: 'short', day: 'numeric' })})
+                              </option>
+                            ))}
+                          </select>
+                          {selected && (preview.lessons.find(l => l.id === selected)?._count.attendanceRecords ?? 0) > 0 && (
+                            <span className="text-xs text-gray-500">Has attendance; matching records get the imported status, keeping notes, arrival times and removals</span>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+
+                {/* Student rows */}
+                <div className="space-y-2">
+                  <Label>Students ({preview.grid.rows.length} rows)</Label>
+                  <div className="border rounded-lg divide-y max-h-80 overflow-y-auto">
+                    {preview.grid.rows.map(row => {
+                      const match = preview.studentMatches[row.rowNumber]
+                      const selected = studentByRow[row.rowNumber]
+                      const duplicate = !!selected && plan.duplicateStudentIds.includes(selected)
+                      return (
+                        <div
+                          key={row.rowNumber}
+                          className={`flex flex-wrap items-center gap-2 p-2 text-sm ${match.needsReview || duplicate ? 'bg-amber-50' : ''}`}
+                        >
+                          <span className="w-10 text-xs text-gray-400">#{row.rowNumber}</span>
+                          <span className="w-44 font-medium truncate" title={row.name}>{row.name}</span>
+                          <ConfidenceBadge match={match} />
+                          <select
+                            value={selected || ''}
+                            onChange={(e) => setStudentByRow(prev => ({ ...prev, [row.rowNumber]: e.target.value || null }))}
+                            className="h-8 flex-1 min-w-48 px-2 rounded-md border border-input bg-background text-sm"
+                          >
+                            <option value="">Skip this row</option>
+                            {match.candidates.length > 0 && (
+                              <optgroup label="Suggested">
+                                {match.candidates.map(candidate => (
+                                  <option key={candidate.id} value={candidate.id}>
+                                    {candidate.label} ({Math.round(candidate.confidence * 100)}%)
+                                  </option>
+                                ))}
+                              </optgroup>
+                            )}
+                            <optgroup label="All students">
+                              {preview.students.map(student => (
+                                <option key={student.id} value={student.id}>{student.name}</option>
+                              ))}
+                            </optgroup>
+                          </select>
+                          <span className="text-xs font-mono text-gray-500">
+                            {preview.grid.columns.map(c => STATUS_SHORT[row.statuses[c.dateKey]] || '·').join('')}
+                          </span>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+
+                {/* Warnings */}
+                {(hasDuplicates || unresolvedRows > 0 || unresolvedColumns > 0) && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 space-y-1">
+                    {plan.duplicateStudentIds.map(id => (
+                      <p key={id} className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        {studentName(id)} is matched to more than one row; those rows are skipped.
+                      </p>
+                    ))}
+                    {plan.duplicateLessonIds.map(id => (
+                      <p key={id} className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        {lessonTitle(id)} is matched to more than one column; those columns are skipped.
+                      </p>
+                    ))}
+                    {unresolvedRows > 0 && <p>{unresolvedRows} row(s) have no student and will be skipped.</p>}
+                    {unresolvedColumns > 0 && <p>{unresolvedColumns} column(s) have no lesson and will be skipped.</p>}
+                  </div>
+                )}
+              </>
+            )}
+
+            {/* Actions */}
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button onClick={handleCommit} disabled={isSubmitting || recordCount === 0}>
+                {isSubmitting
+                  ? 'Importing...'
+                  : `Import ${recordCount} Record(s) into ${plan?.batches.length ?? 0} Lesson(s)`}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
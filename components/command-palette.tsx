@@ -17,6 +17,8 @@ import {
   FileText,
   Settings,
   FolderOpen,
+  CalendarDays,
+  Mic,
   X,
 } from 'lucide-react'
 import { isAdmin, canManageUsers, canManageEnrollments } from '@/lib/roles'
@@ -47,6 +49,7 @@ function getNavItemsForRole(role: UserRole): NavItem[] {
     return [
       { label: 'My Progress', href: '/dashboard/student', icon: LayoutDashboard },
       { label: 'My Lessons', href: '/dashboard/student/lessons', icon: BookOpen },
+      { label: 'Calendar', href: '/dashboard/calendar', icon: CalendarDays },
       { label: 'Files', href: '/dashboard/files', icon: FolderOpen },
       { label: 'Settings', href: '/settings', icon: Settings },
     ]
@@ -56,6 +59,8 @@ function getNavItemsForRole(role: UserRole): NavItem[] {
     return [
       { label: 'Mentor Dashboard', href: '/dashboard/mentor', icon: LayoutDashboard },
       { label: 'My Mentees', href: '/dashboard/mentor/my-mentees', icon: Users },
+      { label: 'Calendar', href: '/dashboard/calendar', icon: CalendarDays },
+      { label: 'Speaking', href: '/dashboard/speaker', icon: Mic },
       { label: 'Files', href: '/dashboard/files', icon: FolderOpen },
       { label: 'Settings', href: '/settings', icon: Settings },
     ]
@@ -67,6 +72,9 @@ function getNavItemsForRole(role: UserRole): NavItem[] {
     { label: 'Students', href: '/dashboard/admin/students', icon: Users },
     { label: 'Exams', href: '/dashboard/admin/exams', icon: GraduationCap },
     { label: 'Curriculum', href: '/dashboard/admin/curriculum', icon: BookOpen },
+    { label: 'Calendar', href: '/dashboard/calendar', icon: CalendarDays },
+    { label: 'Speakers', href: '/dashboard/admin/speakers', icon: Mic },
+    { label: 'Speaking', href: '/dashboard/speaker', icon: Mic },
     { label: 'Mentees', href: '/dashboard/admin/mentees', icon: UserCheck },
     { label: 'Async Students', href: '/dashboard/admin/async-students', icon: FileText },
     { label: 'Files', href: '/dashboard/files', icon: FolderOpen },
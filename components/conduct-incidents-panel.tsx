@@ -0,0 +1,380 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { formatDateUTC } from '@/lib/utils'
+import { toast } from 'sonner'
+import { Edit, Plus, ShieldAlert, Trash2, TriangleAlert } from 'lucide-react'
+
+type ConductSeverityValue = 'MINOR' | 'MODERATE' | 'SEVERE'
+type ConductIncidentStatusValue = 'OPEN' | 'FOLLOW_UP' | 'RESOLVED' | 'WITHDRAWN'
+
+interface ConductIncident {
+  id: string
+  occurredAt: string
+  severity: ConductSeverityValue
+  description: string
+  followUpActions: string | null
+  meetingDate: string | null
+  meetingOutcome: string | null
+  status: ConductIncidentStatusValue
+  resolutionNote: string | null
+  resolvedAt: string | null
+  escalatedAt: string | null
+  attendanceRecordId: string | null
+  lesson: { id: string; title: string; scheduledDate: string } | null
+  academicYear: { id: string; name: string }
+  reporter: { id: string; name: string } | null
+  resolver: { id: string; name: string } | null
+}
+
+interface IncidentForm {
+  severity: ConductSeverityValue
+  status: ConductIncidentStatusValue
+  followUpActions: string
+  meetingDate: string
+  meetingOutcome: string
+  resolutionNote: string
+}
+
+const SEVERITY_BADGES: Record<ConductSeverityValue, { label: string; className: string }> = {
+  MINOR: { label: 'Minor', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+  MODERATE: { label: 'Moderate', className: 'bg-orange-100 text-orange-800 border-orange-200' },
+  SEVERE: { label: 'Severe', className: 'bg-red-100 text-red-800 border-red-200' },
+}
+
+const STATUS_BADGES: Record<ConductIncidentStatusValue, { label: string; className: string }> = {
+  OPEN: { label: 'Open', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  FOLLOW_UP: { label: 'Follow-up', className: 'bg-blue-100 text-blue-800 border-blue-200' },
+  RESOLVED: { label: 'Resolved', className: 'bg-green-100 text-green-800 border-green-200' },
+  WITHDRAWN: { label: 'Withdrawn', className: 'bg-gray-100 text-gray-500 border-gray-200' },
+}
+
+const selectClassName = 'h-9 px-2 rounded-md border border-input bg-background text-sm dark:bg-gray-800 dark:text-white dark:border-gray-600'
+
+function toForm(incident: ConductIncident): IncidentForm {
+  return {
+    severity: incident.severity,
+    status: incident.status,
+    followUpActions: incident.followUpActions || '',
+    meetingDate: incident.meetingDate ? incident.meetingDate.slice(0, 10) : '',
+    meetingOutcome: incident.meetingOutcome || '',
+    resolutionNote: incident.resolutionNote || '',
+  }
+}
+
+/**
+ * A student's conduct incidents (lesson removals and logged incidents) with
+ * follow-up, meeting outcome and resolution tracking. Admins with data access
+ * can log new incidents.
+ */
+export function ConductIncidentsPanel({
+  studentId,
+  canLog,
+  onChange,
+}: {
+  studentId: string
+  canLog: boolean
+  onChange?: () => void
+}) {
+  const [incidents, setIncidents] = useState<ConductIncident[]>([])
+  const [loading, setLoading] = useState(false)
+  const [newSeverity, setNewSeverity] = useState<ConductSeverityValue>('MINOR')
+  const [newDate, setNewDate] = useState('')
+  const [newDescription, setNewDescription] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<IncidentForm | null>(null)
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  const fetchIncidents = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/students/${studentId}/conduct-incidents`)
+      if (res.ok) {
+        const data = await res.json()
+        setIncidents(Array.isArray(data) ? data : [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch conduct incidents:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [studentId])
+
+  useEffect(() => {
+    fetchIncidents()
+  }, [fetchIncidents])
+
+  const logIncident = async () => {
+    if (!newDescription.trim()) return
+    setSubmitting(true)
+    try {
+      const res = await fetch(`/api/students/${studentId}/conduct-incidents`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          severity: newSeverity,
+          description: newDescription.trim(),
+          occurredAt: newDate || undefined,
+        })
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to log incident')
+      }
+      toast.success(data.escalatedAt ? 'Incident logged and escalated to the priests' : 'Incident logged')
+      setNewSeverity('MINOR')
+      setNewDate('')
+      setNewDescription('')
+      await fetchIncidents()
+      onChange?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to log incident')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const saveIncident = async (id: string) => {
+    if (!form) return
+    setSavingId(id)
+    try {
+      const res = await fetch(`/api/conduct-incidents/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, meetingDate: form.meetingDate || null })
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update incident')
+      }
+      setIncidents(prev => prev.map(i => i.id === id ? data : i))
+      setEditingId(null)
+      setForm(null)
+      toast.success('Incident updated')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update incident')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const deleteIncident = async (incident: ConductIncident) => {
+    if (!confirm('Delete this conduct incident?')) return
+    try {
+      const res = await fetch(`/api/conduct-incidents/${incident.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to delete incident')
+      }
+      setIncidents(prev => prev.filter(i => i.id !== incident.id))
+      onChange?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete incident')
+    }
+  }
+
+  const openCount = incidents.filter(i => i.status !== 'RESOLVED').length
+
+  return (
+    <div className="space-y-4">
+      {canLog && (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-2 mb-1">
+              <ShieldAlert className="h-4 w-4 text-maroon-600" />
+              <h3 className="font-semibold">Log an Incident</h3>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">
+              Removing a student from a lesson logs an incident automatically. Repeat incidents in
+              an academic year are escalated to the priests.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-2">
+              <select
+                value={newSeverity}
+                onChange={(e) => setNewSeverity(e.target.value as ConductSeverityValue)}
+                className={selectClassName}
+              >
+                {Object.entries(SEVERITY_BADGES).map(([value, { label }]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <Input type="date" value={newDate} onChange={(e) => setNewDate(e.target.value)} />
+            </div>
+            <Textarea
+              placeholder="What happened?"
+              value={newDescription}
+              onChange={(e) => setNewDescription(e.target.value)}
+              rows={2}
+              className="mb-2"
+            />
+            <Button size="sm" onClick={logIncident} disabled={submitting || !newDescription.trim()} className="gap-1">
+              <Plus className="h-4 w-4" />
+              {submitting ? 'Logging...' : 'Log Incident'}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          <h3 className="font-semibold mb-3">
+            Conduct Incidents ({incidents.length}){openCount > 0 && <span className="text-sm font-normal text-gray-500"> • {openCount} open</span>}
+          </h3>
+          {loading ? (
+            <div className="text-sm text-gray-500">Loading...</div>
+          ) : incidents.length === 0 ? (
+            <div className="text-sm text-gray-500">No conduct incidents recorded.</div>
+          ) : (
+            <div className="space-y-3">
+              {incidents.map((incident) => {
+                const isEditing = editingId === incident.id && form
+                return (
+                  <div key={incident.id} className="p-3 rounded border bg-gray-50 dark:bg-gray-800/50 space-y-1.5">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        <span className="text-sm font-medium">
+                          {formatDateUTC(incident.occurredAt, { month: 'short', day: 'numeric', year: 'numeric' })}
+                        </span>
+                        <Badge variant="outline" className={SEVERITY_BADGES[incident.severity].className}>
+                          {SEVERITY_BADGES[incident.severity].label}
+                        </Badge>
+                        <Badge variant="outline" className={STATUS_BADGES[incident.status].className}>
+                          {STATUS_BADGES[incident.status].label}
+                        </Badge>
+                        {incident.escalatedAt && (
+                          <Badge variant="outline" className="bg-purple-100 text-purple-800 border-purple-200 gap-1">
+                            <TriangleAlert className="h-3 w-3" />
+                            Escalated
+                          </Badge>
+                        )}
+                      </div>
+                      {!isEditing && (
+                        <div className="flex shrink-0">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => { setEditingId(incident.id); setForm(toForm(incident)) }}
+                            className="h-7 w-7 p-0"
+                          >
+                            <Edit className="h-3.5 w-3.5" />
+                          </Button>
+                          {canLog && !incident.attendanceRecordId && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => deleteIncident(incident)}
+                              className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="text-sm break-words">{incident.description}</div>
+                    <div className="text-[11px] text-gray-400">
+                      {incident.lesson ? `Removed from ${incident.lesson.title}` : 'Logged incident'}
+                      {' • '}{incident.academicYear.name}
+                      {incident.reporter && ` • Reported by ${incident.reporter.name}`}
+                    </div>
+
+                    {isEditing ? (
+                      <div className="space-y-2 pt-1">
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                          <select
+                            value={form.severity}
+                            onChange={(e) => setForm({ ...form, severity: e.target.value as ConductSeverityValue })}
+                            className={selectClassName}
+                          >
+                            {Object.entries(SEVERITY_BADGES).map(([value, { label }]) => (
+                              <option key={value} value={value}>{label}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={form.status}
+                            onChange={(e) => setForm({ ...form, status: e.target.value as ConductIncidentStatusValue })}
+                            className={selectClassName}
+                          >
+                            {Object.entries(STATUS_BADGES).map(([value, { label }]) => (
+                              <option key={value} value={value}>{label}</option>
+                            ))}
+                          </select>
+                          <Input
+                            type="date"
+                            value={form.meetingDate}
+                            onChange={(e) => setForm({ ...form, meetingDate: e.target.value })}
+                            title="Meeting date"
+                          />
+                        </div>
+                        <Textarea
+                          placeholder="Follow-up actions"
+                          value={form.followUpActions}
+                          onChange={(e) => setForm({ ...form, followUpActions: e.target.value })}
+                          rows={2}
+                        />
+                        <Textarea
+                          placeholder="Mentor / priest meeting outcome"
+                          value={form.meetingOutcome}
+                          onChange={(e) => setForm({ ...form, meetingOutcome: e.target.value })}
+                          rows={2}
+                        />
+                        {form.status === 'RESOLVED' && (
+                          <Textarea
+                            placeholder="Resolution"
+                            value={form.resolutionNote}
+                            onChange={(e) => setForm({ ...form, resolutionNote: e.target.value })}
+                            rows={2}
+                          />
+                        )}
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={() => saveIncident(incident.id)} disabled={savingId === incident.id}>
+                            {savingId === incident.id ? 'Saving...' : 'Save'}
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => { setEditingId(null); setForm(null) }}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        {incident.followUpActions && (
+                          <div className="text-xs text-gray-600 break-words">
+                            <span className="font-medium">Follow-up:</span> {incident.followUpActions}
+                          </div>
+                        )}
+                        {(incident.meetingDate || incident.meetingOutcome) && (
+                          <div className="text-xs text-gray-600 break-words">
+                            <span className="font-medium">
+                              Meeting{incident.meetingDate && ` (${formatDateUTC(incident.meetingDate, { month: 'short', day: 'numeric' })})`}:
+                            </span>{' '}
+                            {incident.meetingOutcome || 'Scheduled'}
+                          </div>
+                        )}
+                        {incident.status === 'RESOLVED' && (
+                          <div className="text-xs text-green-700 break-words">
+                            <span className="font-medium">
+                              Resolved{incident.resolver && ` by ${incident.resolver.name}`}
+                              {incident.resolvedAt && ` on ${formatDateUTC(incident.resolvedAt, { month: 'short', day: 'numeric' })}`}
+                            </span>
+                            {incident.resolutionNote && `: ${incident.resolutionNote}`}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
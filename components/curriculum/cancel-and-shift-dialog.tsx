@@ -0,0 +1,187 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from 'sonner'
+import { formatDateUTC } from '@/lib/utils'
+
+interface LessonShift {
+  lessonId: string | null
+  title: string
+  fromDate: string | null
+  toDate: string
+  fromNumber: number | null
+  toNumber: number
+  examCount: number
+}
+
+interface CancelShiftPreview {
+  academicYear: { id: string; name: string }
+  cancelled: { id: string; title: string; scheduledDate: string; attendanceCount: number }
+  shifts: LessonShift[]
+  movedLessonIds: string[]
+  outsideYear: boolean
+  blockers: string[]
+}
+
+const formatShort = (date: string) => formatDateUTC(date, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })
+
+/**
+ * Cancel a lesson and postpone it and every later lesson: shows the dry-run
+ * of new dates and numbers, then applies it with a cancellation reason.
+ */
+export function CancelAndShiftDialog({
+  lessonId,
+  onOpenChange,
+  onApplied,
+}: {
+  lessonId: string | null
+  onOpenChange: (open: boolean) => void
+  onApplied: () => void
+}) {
+  const [preview, setPreview] = useState<CancelShiftPreview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [reason, setReason] = useState('')
+  const [applying, setApplying] = useState(false)
+
+  useEffect(() => {
+    if (!lessonId) return
+    setPreview(null)
+    setReason('')
+    setLoading(true)
+    fetch(`/api/lessons/${lessonId}/cancel-and-shift/preview`)
+      .then(async res => {
+        const data = await res.json()
+        if (!res.ok) {
+          toast.error(data.error || 'Failed to preview the shift')
+          onOpenChange(false)
+          return
+        }
+        setPreview(data)
+      })
+      .catch(error => {
+        console.error('Failed to preview cancel and shift:', error)
+        toast.error('Failed to preview the shift')
+      })
+      .finally(() => setLoading(false))
+  }, [lessonId, onOpenChange])
+
+  const handleApply = async () => {
+    if (!lessonId) return
+    if (!reason.trim()) {
+      toast.error('A cancellation reason is required')
+      return
+    }
+    setApplying(true)
+    try {
+      const res = await fetch(`/api/lessons/${lessonId}/cancel-and-shift`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cancellationReason: reason }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to cancel and shift')
+        return
+      }
+      toast.success(`Lesson cancelled and ${data.shifted} lesson(s) shifted`)
+      onOpenChange(false)
+      onApplied()
+    } catch (error) {
+      console.error('Failed to cancel and shift:', error)
+      toast.error('Failed to cancel and shift')
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const blocked = !!preview && (preview.blockers.length > 0 || preview.outsideYear)
+  const examCount = preview?.shifts.reduce((sum, s) => sum + s.examCount, 0) ?? 0
+
+  return (
+    <Dialog open={!!lessonId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cancel and Shift</DialogTitle>
+          <DialogDescription>
+            {preview
+              ? `"${preview.cancelled.title}" on ${formatShort(preview.cancelled.scheduledDate)} is cancelled and moves to the next lesson's date; every later lesson moves back one slot.`
+              : 'Loading the new schedule...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && <div className="py-6 text-center text-sm text-gray-500">Loading...</div>}
+
+        {preview && (
+          <div className="space-y-4">
+            {preview.blockers.map(blocker => (
+              <p key={blocker} className="text-sm text-red-600">{blocker}. Reset its attendance or cancel without shifting.</p>
+            ))}
+            {preview.outsideYear && (
+              <p className="text-sm text-red-600">
+                The last lesson would move past the end of {preview.academicYear.name}.
+              </p>
+            )}
+            {preview.cancelled.attendanceCount > 0 && (
+              <p className="text-sm text-amber-600">
+                The {preview.cancelled.attendanceCount} attendance record(s) already taken stay on the cancelled date and won&apos;t count.
+              </p>
+            )}
+            {examCount > 0 && (
+              <p className="text-sm text-amber-600">{examCount} exam(s) move with their exam-day lessons.</p>
+            )}
+
+            <div className="overflow-x-auto rounded border">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs text-gray-500">
+                  <tr>
+                    <th className="p-2">#</th>
+                    <th className="p-2">Lesson</th>
+                    <th className="p-2">From</th>
+                    <th className="p-2">To</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.shifts.map(shift => (
+                    <tr key={shift.lessonId ?? 'placeholder'} className="border-t">
+                      <td className="p-2 text-gray-500 whitespace-nowrap">
+                        {shift.fromNumber !== null && shift.fromNumber !== shift.toNumber ? `${shift.fromNumber} → ` : ''}{shift.toNumber}
+                      </td>
+                      <td className="p-2">
+                        {shift.title}
+                        {shift.lessonId === null && <Badge variant="destructive" className="ml-2">Cancelled</Badge>}
+                        {shift.examCount > 0 && <Badge variant="outline" className="ml-2">Exam day</Badge>}
+                      </td>
+                      <td className="p-2 whitespace-nowrap text-gray-500">{shift.fromDate ? formatShort(shift.fromDate) : '—'}</td>
+                      <td className="p-2 whitespace-nowrap">{formatShort(shift.toDate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Cancellation reason</label>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Shown to students"
+                className="min-h-[60px]"
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>Keep Lesson</Button>
+              <Button size="sm" variant="destructive" onClick={handleApply} disabled={applying || blocked}>
+                {applying ? 'Shifting...' : `Cancel and Shift ${preview.movedLessonIds.length} Lesson(s)`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,411 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { ArrowLeft, Plus, Trash2, X } from 'lucide-react'
+import { formatDateUTC } from '@/lib/utils'
+import type { AcademicYear } from '@/lib/types'
+
+interface CurriculumTemplate {
+  id: string
+  name: string
+  description: string | null
+  createdAt: string
+  sourceAcademicYear: { id: string; name: string } | null
+  creator: { id: string; name: string } | null
+  _count: { lessons: number }
+}
+
+interface PreviewLesson {
+  order: number
+  title: string
+  scheduledDate: string
+  weeksShifted: number
+  outsideYear: boolean
+  clashesWithExisting: boolean
+  examSection: string
+  speaker: string | null
+  isExamDay: boolean
+  resourceCount: number
+}
+
+const selectClassName = 'h-9 px-2 rounded-md border border-input bg-background text-sm dark:bg-gray-800 dark:text-white dark:border-gray-600'
+
+/**
+ * Save a year's lessons as a template and roll a template into another
+ * year: pick the first lesson date and any blackout dates, preview the
+ * resulting schedule, then create the lessons.
+ */
+export function CurriculumTemplatesDialog({
+  open,
+  onOpenChange,
+  academicYears,
+  selectedYearId,
+  onApplied,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  academicYears: AcademicYear[]
+  selectedYearId: string
+  onApplied: () => void
+}) {
+  const [templates, setTemplates] = useState<CurriculumTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [newTemplate, setNewTemplate] = useState({ name: '', description: '', academicYearId: '' })
+
+  // Apply flow
+  const [applying, setApplying] = useState<CurriculumTemplate | null>(null)
+  const [targetYearId, setTargetYearId] = useState('')
+  const [startDate, setStartDate] = useState('')
+  const [blackoutDates, setBlackoutDates] = useState<string[]>([])
+  const [blackoutInput, setBlackoutInput] = useState('')
+  const [preview, setPreview] = useState<PreviewLesson[] | null>(null)
+  const [working, setWorking] = useState(false)
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      const res = await fetch('/api/curriculum-templates')
+      if (res.ok) setTemplates(await res.json())
+    } catch (error) {
+      console.error('Failed to fetch curriculum templates:', error)
+      toast.error('Failed to load templates')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) fetchTemplates()
+  }, [open, fetchTemplates])
+
+  useEffect(() => {
+    if (open && selectedYearId && selectedYearId !== 'all') {
+      setNewTemplate(prev => ({ ...prev, academicYearId: prev.academicYearId || selectedYearId }))
+    }
+  }, [open, selectedYearId])
+
+  const handleSave = async () => {
+    if (!newTemplate.name.trim() || !newTemplate.academicYearId) {
+      toast.error('Enter a name and choose the year to save')
+      return
+    }
+    setSaving(true)
+    try {
+      const res = await fetch('/api/curriculum-templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newTemplate),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save template')
+        return
+      }
+      toast.success(`Saved "${data.name}" with ${data._count.lessons} lesson(s)`)
+      setNewTemplate({ name: '', description: '', academicYearId: newTemplate.academicYearId })
+      await fetchTemplates()
+    } catch (error) {
+      console.error('Failed to save template:', error)
+      toast.error('Failed to save template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: CurriculumTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Lessons already created from it are kept.`)) return
+    try {
+      const res = await fetch(`/api/curriculum-templates/${template.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        toast.error(data.error || 'Failed to delete template')
+        return
+      }
+      toast.success('Template deleted')
+      await fetchTemplates()
+    } catch (error) {
+      console.error('Failed to delete template:', error)
+      toast.error('Failed to delete template')
+    }
+  }
+
+  const startApply = (template: CurriculumTemplate) => {
+    setApplying(template)
+    setTargetYearId(academicYears.find(y => y.isActive)?.id ?? '')
+    setStartDate('')
+    setBlackoutDates([])
+    setBlackoutInput('')
+    setPreview(null)
+  }
+
+  const addBlackout = () => {
+    if (!blackoutInput) return
+    setBlackoutDates(prev => (prev.includes(blackoutInput) ? prev : [...prev, blackoutInput].sort()))
+    setBlackoutInput('')
+    setPreview(null)
+  }
+
+  const removeBlackout = (date: string) => {
+    setBlackoutDates(prev => prev.filter(d => d !== date))
+    setPreview(null)
+  }
+
+  const postApply = async (path: string) => {
+    return fetch(`/api/curriculum-templates/${applying!.id}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ academicYearId: targetYearId, startDate, blackoutDates }),
+    })
+  }
+
+  const handlePreview = async () => {
+    if (!targetYearId || !startDate) {
+      toast.error('Choose the academic year and the first lesson date')
+      return
+    }
+    setWorking(true)
+    try {
+      const res = await postApply('apply/preview')
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to preview template')
+        return
+      }
+      setPreview(data.lessons)
+    } catch (error) {
+      console.error('Failed to preview template:', error)
+      toast.error('Failed to preview template')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleApply = async () => {
+    setWorking(true)
+    try {
+      const res = await postApply('apply')
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to apply template')
+        return
+      }
+      toast.success(`Created ${data.created} lesson(s)`)
+      setApplying(null)
+      onApplied()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Failed to apply template:', error)
+      toast.error('Failed to apply template')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const outsideCount = preview?.filter(l => l.outsideYear).length ?? 0
+  const clashCount = preview?.filter(l => l.clashesWithExisting).length ?? 0
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setApplying(null); onOpenChange(next) }}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{applying ? `Apply "${applying.name}"` : 'Curriculum Templates'}</DialogTitle>
+          <DialogDescription>
+            {applying
+              ? 'Lessons keep their weekly spacing from the first date. A lesson on a blackout date moves back a week, along with every lesson after it.'
+              : "Save a year's lessons, speakers and resources, then roll them into a new academic year."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {applying ? (
+          <div className="space-y-4">
+            <Button variant="ghost" size="sm" onClick={() => setApplying(null)} className="gap-1">
+              <ArrowLeft className="h-4 w-4" />
+              Back to templates
+            </Button>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <label className="space-y-1 text-sm">
+                <span className="font-medium">Academic year</span>
+                <select
+                  value={targetYearId}
+                  onChange={(e) => { setTargetYearId(e.target.value); setPreview(null) }}
+                  className={`${selectClassName} w-full`}
+                >
+                  <option value="">Choose a year</option>
+                  {academicYears.map(year => (
+                    <option key={year.id} value={year.id}>{year.name} {year.isActive ? '(Active)' : ''}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="space-y-1 text-sm">
+                <span className="font-medium">First lesson date</span>
+                <Input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => { setStartDate(e.target.value); setPreview(null) }}
+                  className="h-9"
+                />
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <span className="text-sm font-medium">Blackout dates</span>
+              <div className="flex items-center gap-2">
+                <Input type="date" value={blackoutInput} onChange={(e) => setBlackoutInput(e.target.value)} className="h-9 w-44" />
+                <Button variant="outline" size="sm" onClick={addBlackout} disabled={!blackoutInput} className="gap-1">
+                  <Plus className="h-4 w-4" />
+                  Add
+                </Button>
+              </div>
+              {blackoutDates.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {blackoutDates.map(date => (
+                    <Badge key={date} variant="secondary" className="gap-1">
+                      {formatDateUTC(date, { month: 'short', day: 'numeric', year: 'numeric' })}
+                      <button type="button" onClick={() => removeBlackout(date)} aria-label="Remove blackout date">
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handlePreview} disabled={working}>
+                {working && !preview ? 'Loading...' : 'Preview'}
+              </Button>
+              {preview && (
+                <Button size="sm" onClick={handleApply} disabled={working || outsideCount > 0}>
+                  {working ? 'Creating...' : `Create ${preview.length} Lesson(s)`}
+                </Button>
+              )}
+            </div>
+
+            {preview && (
+              <div className="space-y-2">
+                {outsideCount > 0 && (
+                  <p className="text-sm text-red-600">
+                    {outsideCount} lesson(s) fall outside the academic year. Choose an earlier first date or fewer blackout dates.
+                  </p>
+                )}
+                {clashCount > 0 && (
+                  <p className="text-sm text-amber-600">
+                    {clashCount} lesson(s) land on a day that already has a lesson in this year.
+                  </p>
+                )}
+                <div className="overflow-x-auto rounded border">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-xs text-gray-500">
+                      <tr>
+                        <th className="p-2">#</th>
+                        <th className="p-2">Date</th>
+                        <th className="p-2">Lesson</th>
+                        <th className="p-2">Section</th>
+                        <th className="p-2">Speaker</th>
+                        <th className="p-2">Notes</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.map(lesson => (
+                        <tr key={lesson.order} className={`border-t ${lesson.outsideYear ? 'bg-red-50' : ''}`}>
+                          <td className="p-2 text-gray-500">{lesson.order}</td>
+                          <td className="p-2 whitespace-nowrap">
+                            {formatDateUTC(lesson.scheduledDate, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                          </td>
+                          <td className="p-2">{lesson.title}</td>
+                          <td className="p-2">{lesson.examSection}</td>
+                          <td className="p-2">{lesson.speaker || '-'}</td>
+                          <td className="p-2">
+                            <div className="flex flex-wrap gap-1">
+                              {lesson.isExamDay && <Badge variant="outline">Exam day</Badge>}
+                              {lesson.weeksShifted > 0 && <Badge variant="secondary">+{lesson.weeksShifted} wk</Badge>}
+                              {lesson.outsideYear && <Badge variant="destructive">Outside year</Badge>}
+                              {lesson.clashesWithExisting && (
+                                <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">Existing lesson</Badge>
+                              )}
+                              {lesson.resourceCount > 0 && (
+                                <span className="text-xs text-gray-500">{lesson.resourceCount} resource(s)</span>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2 rounded-md border bg-gray-50 p-3">
+              <span className="text-sm font-medium">Save a year as a template</span>
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={newTemplate.academicYearId}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, academicYearId: e.target.value })}
+                  className={selectClassName}
+                >
+                  <option value="">Choose a year</option>
+                  {academicYears.map(year => (
+                    <option key={year.id} value={year.id}>{year.name}</option>
+                  ))}
+                </select>
+                <Input
+                  placeholder="Template name"
+                  value={newTemplate.name}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
+                  className="h-9 w-48"
+                />
+                <Input
+                  placeholder="Description (optional)"
+                  value={newTemplate.description}
+                  onChange={(e) => setNewTemplate({ ...newTemplate, description: e.target.value })}
+                  className="h-9 flex-1 min-w-40"
+                />
+                <Button size="sm" onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : 'Save Template'}
+                </Button>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="py-6 text-center text-sm text-gray-500">Loading templates...</div>
+            ) : templates.length === 0 ? (
+              <div className="py-6 text-center text-sm text-gray-500">No templates saved yet.</div>
+            ) : (
+              <div className="space-y-2">
+                {templates.map(template => (
+                  <div key={template.id} className="flex items-start gap-3 rounded border p-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium">{template.name}</div>
+                      {template.description && <p className="text-sm text-gray-600">{template.description}</p>}
+                      <p className="text-xs text-gray-500">
+                        {template._count.lessons} lesson(s)
+                        {template.sourceAcademicYear && ` • from ${template.sourceAcademicYear.name}`}
+                        {' • saved '}{formatDateUTC(template.createdAt, { month: 'short', day: 'numeric', year: 'numeric' })}
+                        {template.creator && ` by ${template.creator.name}`}
+                      </p>
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => startApply(template)}>
+                      Apply
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(template)} aria-label="Delete template">
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,13 +3,18 @@
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Button } from '@/components/ui/button'
-import type { Lesson, LessonEdits } from './types'
+import { LessonResourceFiles } from '@/components/lesson-resource-files'
+import { SpeakerAssignment } from './speaker-assignment'
+import type { Lesson, LessonEdits, SpeakerOption } from './types'
 
 interface ExpandedEditableDetailsProps {
   lesson: Lesson
   edits: LessonEdits | undefined
   onEdit: (id: string, field: keyof LessonEdits, value: string | boolean) => void
   onEditResources: (id: string, resources: { title: string; url: string }[]) => void
+  speakers: SpeakerOption[]
+  onSpeakerAssigned: () => void
+  onResourcesChanged: () => void
 }
 
 export function ExpandedEditableDetails({
@@ -17,12 +22,21 @@ export function ExpandedEditableDetails({
   edits,
   onEdit,
   onEditResources,
+  speakers,
+  onSpeakerAssigned,
+  onResourcesChanged,
 }: ExpandedEditableDetailsProps) {
   const currentSubtitle = edits?.subtitle ?? lesson.subtitle ?? ''
   const currentDescription = edits?.description ?? lesson.description ?? ''
   const currentCancellationReason = edits?.cancellationReason ?? lesson.cancellationReason ?? ''
   const currentStatus = (edits?.status ?? lesson.status) as Lesson['status']
-  const currentResources: { title: string; url: string }[] = edits?.resources ?? lesson.resources.map(r => ({ title: r.title, url: r.url }))
+  const currentStartTime = edits?.startTime ?? lesson.startTime ?? ''
+  const currentGraceMinutes = edits?.lateGraceMinutes ?? (typeof lesson.lateGraceMinutes === 'number' ? String(lesson.lateGraceMinutes) : '')
+  const yearStartTime = lesson.academicYear?.defaultLessonStartTime
+  const yearGraceMinutes = lesson.academicYear?.defaultLateGraceMinutes ?? 0
+  // Only links are edited here; uploaded files are saved as soon as they're picked
+  const currentResources: { title: string; url: string }[] = edits?.resources ??
+    lesson.resources.filter(r => !r.filename).map(r => ({ title: r.title, url: r.url }))
 
   const handleResourceChange = (idx: number, field: 'title' | 'url', value: string) => {
     const updated = [...currentResources]
@@ -52,6 +66,39 @@ export function ExpandedEditableDetails({
         />
       </div>
 
+      {/* Speaker from the directory - saved right away so they can be asked to confirm */}
+      <SpeakerAssignment lesson={lesson} speakers={speakers} onAssigned={onSpeakerAssigned} />
+
+      {/* Start time and grace period - blank uses the academic year's defaults */}
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-xs font-medium text-gray-500">Start Time</label>
+          <Input
+            type="time"
+            value={currentStartTime}
+            onChange={(e) => onEdit(lesson.id, 'startTime', e.target.value)}
+            className="h-8 text-sm mt-0.5"
+          />
+          {!currentStartTime && (
+            <p className="text-[10px] text-gray-400 mt-0.5">
+              {yearStartTime ? `Year default: ${yearStartTime}` : 'No start time (Late is set by hand)'}
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="text-xs font-medium text-gray-500">Late Grace (min)</label>
+          <Input
+            type="number"
+            min={0}
+            max={120}
+            value={currentGraceMinutes}
+            onChange={(e) => onEdit(lesson.id, 'lateGraceMinutes', e.target.value)}
+            className="h-8 text-sm mt-0.5"
+            placeholder={String(yearGraceMinutes)}
+          />
+        </div>
+      </div>
+
       {/* Cancellation reason - only when CANCELLED */}
       {currentStatus === 'CANCELLED' && (
         <div>
@@ -113,6 +160,12 @@ export function ExpandedEditableDetails({
           >
             + Add Resource
           </Button>
+          <LessonResourceFiles
+            lessonId={lesson.id}
+            resources={lesson.resources}
+            canUpload={lesson.status !== 'CANCELLED' && lesson.status !== 'NO_CLASS'}
+            onChanged={onResourcesChanged}
+          />
         </div>
       </div>
     </div>
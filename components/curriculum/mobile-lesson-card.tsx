@@ -6,7 +6,7 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { formatDateUTC } from '@/lib/utils'
 import { ExpandedEditableDetails } from './expanded-editable-details'
-import type { Lesson, Section, LessonEdits } from './types'
+import type { Lesson, Section, LessonEdits, SpeakerOption } from './types'
 
 interface MobileLessonCardProps {
   lesson: Lesson
@@ -19,9 +19,13 @@ interface MobileLessonCardProps {
   edits: LessonEdits | undefined
   onEdit: (id: string, field: keyof LessonEdits, value: string | boolean) => void
   onEditResources: (id: string, resources: { title: string; url: string }[]) => void
+  speakers: SpeakerOption[]
+  onSpeakerAssigned: () => void
+  onResourcesChanged: () => void
   onDelete: (id: string) => void
   onDuplicate: (id: string) => void
   onResetAttendance: (id: string) => void
+  onCancelAndShift: (id: string) => void
   onMoveUp: (id: string) => void
   onMoveDown: (id: string) => void
   isExpanded: boolean
@@ -39,9 +43,13 @@ export function MobileLessonCard({
   edits,
   onEdit,
   onEditResources,
+  speakers,
+  onSpeakerAssigned,
+  onResourcesChanged,
   onDelete,
   onDuplicate,
   onResetAttendance,
+  onCancelAndShift,
   onMoveUp,
   onMoveDown,
   isExpanded,
@@ -227,6 +235,9 @@ export function MobileLessonCard({
                 edits={edits}
                 onEdit={onEdit}
                 onEditResources={onEditResources}
+                speakers={speakers}
+                onSpeakerAssigned={onSpeakerAssigned}
+                onResourcesChanged={onResourcesChanged}
               />
             ) : (
               <>
@@ -255,7 +266,7 @@ export function MobileLessonCard({
                       {lesson.resources.map((r, idx) => (
                         <a
                           key={idx}
-                          href={r.url}
+                          href={`/api/lesson-resources/${r.id}/open`}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-xs text-blue-600 hover:underline"
@@ -274,7 +285,7 @@ export function MobileLessonCard({
           </div>
         )}
 
-        {/* Actions: Duplicate + Reset Attendance + Delete */}
+        {/* Actions: Duplicate + Cancel & Shift + Reset Attendance + Delete */}
         {canEdit && (
           <div className="pt-2 border-t flex gap-2 flex-wrap">
             <Button
@@ -285,6 +296,16 @@ export function MobileLessonCard({
             >
               Duplicate
             </Button>
+            {lesson.status === 'SCHEDULED' && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1 text-xs"
+                onClick={() => onCancelAndShift(lesson.id)}
+              >
+                Cancel &amp; Shift
+              </Button>
+            )}
             {hasAttendance && (
               <Button
                 variant="outline"
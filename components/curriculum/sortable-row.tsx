@@ -7,7 +7,7 @@ import { useSortable } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { formatDateUTC } from '@/lib/utils'
 import { ExpandedEditableDetails } from './expanded-editable-details'
-import type { Lesson, Section, LessonEdits } from './types'
+import type { Lesson, Section, LessonEdits, SpeakerOption } from './types'
 
 interface SortableRowProps {
   lesson: Lesson
@@ -18,9 +18,13 @@ interface SortableRowProps {
   edits: LessonEdits | undefined
   onEdit: (id: string, field: keyof LessonEdits, value: string | boolean) => void
   onEditResources: (id: string, resources: { title: string; url: string }[]) => void
+  speakers: SpeakerOption[]
+  onSpeakerAssigned: () => void
+  onResourcesChanged: () => void
   onDelete: (id: string) => void
   onDuplicate: (id: string) => void
   onResetAttendance: (id: string) => void
+  onCancelAndShift: (id: string) => void
   onToggleExpand: (id: string) => void
   isExpanded: boolean
 }
@@ -34,9 +38,13 @@ export function SortableRow({
   edits,
   onEdit,
   onEditResources,
+  speakers,
+  onSpeakerAssigned,
+  onResourcesChanged,
   onDelete,
   onDuplicate,
   onResetAttendance,
+  onCancelAndShift,
   onToggleExpand,
   isExpanded,
 }: SortableRowProps) {
@@ -221,6 +229,17 @@ export function SortableRow({
                 >
                   ⧉
                 </Button>
+                {lesson.status === 'SCHEDULED' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2 text-xs text-gray-500 hover:text-gray-700"
+                    onClick={() => onCancelAndShift(lesson.id)}
+                    title="Cancel and shift — postpone this lesson and every later lesson"
+                  >
+                    ⇥
+                  </Button>
+                )}
                 {hasAttendance && (
                   <Button
                     size="sm"
@@ -257,6 +276,9 @@ export function SortableRow({
                 edits={edits}
                 onEdit={onEdit}
                 onEditResources={onEditResources}
+                speakers={speakers}
+                onSpeakerAssigned={onSpeakerAssigned}
+                onResourcesChanged={onResourcesChanged}
               />
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
@@ -282,7 +304,7 @@ export function SortableRow({
                       {lesson.resources.map((r, idx) => (
                         <a
                           key={idx}
-                          href={r.url}
+                          href={`/api/lesson-resources/${r.id}/open`}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="text-sm text-blue-600 hover:underline"
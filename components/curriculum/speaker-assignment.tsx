@@ -0,0 +1,86 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import type { Lesson, SpeakerOption } from './types'
+
+const selectClassName = 'h-8 px-2 rounded-md border border-input bg-background text-sm dark:bg-gray-800 dark:text-white dark:border-gray-600'
+
+const STATUS_BADGES: Record<NonNullable<Lesson['speakerStatus']>, { label: string; className: string }> = {
+  PENDING: { label: 'Awaiting reply', className: 'bg-amber-100 text-amber-800' },
+  CONFIRMED: { label: 'Confirmed', className: 'bg-green-100 text-green-800' },
+  DECLINED: { label: 'Declined', className: 'bg-red-100 text-red-800' },
+}
+
+interface SpeakerAssignmentProps {
+  lesson: Lesson
+  speakers: SpeakerOption[]
+  onAssigned: () => void
+}
+
+/**
+ * Assign a speaker from the directory to a lesson. Assigning (or choosing
+ * the same speaker again) sends them a confirmation request right away,
+ * separately from the page's unsaved edits.
+ */
+export function SpeakerAssignment({ lesson, speakers, onAssigned }: SpeakerAssignmentProps) {
+  const [saving, setSaving] = useState(false)
+  const assigned = speakers.find(s => s.id === lesson.speakerId)
+  const options = speakers.filter(s => s.isActive || s.id === lesson.speakerId)
+  const badge = lesson.speakerStatus ? STATUS_BADGES[lesson.speakerStatus] : null
+
+  const assign = async (speakerId: string | null) => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/lessons/${lesson.id}/speaker`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ speakerId }),
+      })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to assign speaker')
+      }
+      toast.success(speakerId ? 'Speaker asked to confirm' : 'Speaker unassigned')
+      onAssigned()
+    } catch (error) {
+      console.error('Failed to assign speaker:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to assign speaker')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div>
+      <label className="text-xs font-medium text-gray-500">Assigned Speaker</label>
+      <div className="flex items-center gap-2 mt-0.5">
+        <select
+          value={lesson.speakerId ?? ''}
+          onChange={(e) => assign(e.target.value || null)}
+          disabled={saving}
+          className={`${selectClassName} flex-1`}
+        >
+          <option value="">{lesson.speaker && !lesson.speakerId ? `Free text: ${lesson.speaker}` : 'No speaker assigned'}</option>
+          {options.map(s => (
+            <option key={s.id} value={s.id}>{s.name}{s.isActive ? '' : ' (inactive)'}</option>
+          ))}
+        </select>
+        {badge && (
+          <Badge className={`${badge.className} shrink-0`}>{badge.label}</Badge>
+        )}
+      </div>
+      {assigned && lesson.speakerStatus === 'DECLINED' && (
+        <button
+          type="button"
+          onClick={() => assign(assigned.id)}
+          disabled={saving || !assigned.isActive}
+          className="text-[11px] text-maroon-600 hover:underline mt-0.5"
+        >
+          Ask {assigned.name} again
+        </button>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,10 @@ export interface LessonResource {
   title: string
   url: string
   type?: string
+  filename?: string | null // Set for uploaded files; links have none
+  contentType?: string | null
+  size?: number | null
+  version?: number
 }
 
 export interface Lesson {
@@ -11,11 +15,15 @@ export interface Lesson {
   subtitle?: string
   description?: string
   speaker?: string
+  speakerId?: string | null
+  speakerStatus?: 'PENDING' | 'CONFIRMED' | 'DECLINED' | null
   scheduledDate: string
   lessonNumber: number
   status: 'SCHEDULED' | 'COMPLETED' | 'CANCELLED' | 'NO_CLASS'
   cancellationReason?: string
   isExamDay: boolean
+  startTime?: string | null
+  lateGraceMinutes?: number | null
   examSection: {
     id: string
     displayName: string
@@ -24,6 +32,8 @@ export interface Lesson {
   academicYear?: {
     id: string
     name: string
+    defaultLessonStartTime?: string | null
+    defaultLateGraceMinutes?: number
   }
   resources: LessonResource[]
   _count: {
@@ -31,6 +41,12 @@ export interface Lesson {
   }
 }
 
+export interface SpeakerOption {
+  id: string
+  name: string
+  isActive: boolean
+}
+
 export interface Section {
   id: string
   name: string
@@ -47,5 +63,7 @@ export interface LessonEdits {
   subtitle?: string
   description?: string
   cancellationReason?: string
+  startTime?: string
+  lateGraceMinutes?: string
   resources?: { title: string; url: string }[]
 }
@@ -0,0 +1,159 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { REGRADE_STATUS_BADGES, type RegradeRequestItem } from '@/components/exams/exam-regrade-queue'
+import { MAX_REGRADE_COMMENT_LENGTH, REGRADE_STATUS_LABELS } from '@/lib/exam-regrades'
+import { formatDateUTC } from '@/lib/utils'
+import { toast } from 'sonner'
+import { FileText } from 'lucide-react'
+
+interface PostedScore {
+  id: string
+  score: number
+  percentage: number
+  exam: { id: string; examDate: string; totalPoints: number; examSection: { displayName: string } }
+}
+
+/**
+ * A student's posted exam scores with the feedback on each regrade request,
+ * and a way to ask for a score to be reviewed.
+ */
+export function ExamFeedbackCard() {
+  const [scores, setScores] = useState<PostedScore[]>([])
+  const [requests, setRequests] = useState<RegradeRequestItem[]>([])
+  const [requestingId, setRequestingId] = useState<string | null>(null)
+  const [comment, setComment] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [scoresRes, requestsRes] = await Promise.all([
+        fetch('/api/exam-scores'),
+        fetch('/api/exam-regrades'),
+      ])
+      if (scoresRes.ok) setScores(await scoresRes.json())
+      if (requestsRes.ok) setRequests(await requestsRes.json())
+    } catch (error) {
+      console.error('Failed to fetch exam scores:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const submitRequest = async (examScoreId: string) => {
+    if (!comment.trim()) return
+    setSubmitting(true)
+    try {
+      const res = await fetch('/api/exam-regrades', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ examScoreId, comment: comment.trim() }),
+      })
+      if (res.ok) {
+        toast.success('Regrade request submitted', { description: 'You will be notified once it is reviewed.' })
+        setRequestingId(null)
+        setComment('')
+        await fetchData()
+      } else {
+        const data = await res.json()
+        toast.error(data.error || 'Failed to submit regrade request')
+      }
+    } catch (error) {
+      console.error('Failed to submit regrade request:', error)
+      toast.error('Failed to submit regrade request')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (scores.length === 0) return null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5 text-maroon-600" />
+          Exam Scores &amp; Feedback
+        </CardTitle>
+        <CardDescription>
+          Think a score is wrong? Ask for it to be reviewed and explain why.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {scores.map((score) => {
+          // Requests come newest first
+          const scoreRequests = requests.filter(r => r.examScore.id === score.id)
+          const hasPending = scoreRequests.some(r => r.status === 'PENDING')
+          return (
+            <div key={score.id} className="p-3 rounded border bg-gray-50 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium">{score.exam.examSection.displayName}</div>
+                  <div className="text-xs text-gray-500">
+                    {formatDateUTC(score.exam.examDate, { month: 'short', day: 'numeric', year: 'numeric' })}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span className="text-sm font-medium">
+                    {score.score} / {score.exam.totalPoints} ({score.percentage.toFixed(1)}%)
+                  </span>
+                  {!hasPending && requestingId !== score.id && (
+                    <Button size="sm" variant="outline" onClick={() => { setRequestingId(score.id); setComment('') }}>
+                      Request Regrade
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {scoreRequests.map((request) => (
+                <div key={request.id} className="text-xs border-t pt-2 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={REGRADE_STATUS_BADGES[request.status]}>
+                      {REGRADE_STATUS_LABELS[request.status]}
+                    </Badge>
+                    <span className="text-gray-500">{formatDateUTC(request.createdAt, { weekday: undefined })}</span>
+                    {request.status === 'APPROVED' && request.adjustedScore !== null && (
+                      <span className="text-gray-700">{request.previousScore} → {request.adjustedScore}</span>
+                    )}
+                  </div>
+                  <div className="text-gray-600 break-words">{request.comment}</div>
+                  {request.reviewNote && (
+                    <div className="text-gray-500">
+                      {request.reviewer ? `${request.reviewer.name}: ` : ''}{request.reviewNote}
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {requestingId === score.id && (
+                <div className="space-y-2">
+                  <Textarea
+                    placeholder="Which question or part should be looked at again, and why?"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    maxLength={MAX_REGRADE_COMMENT_LENGTH}
+                    rows={3}
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => submitRequest(score.id)} disabled={submitting || !comment.trim()}>
+                      {submitting ? 'Submitting...' : 'Submit Request'}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setRequestingId(null)} disabled={submitting}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,195 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { SlidersHorizontal } from 'lucide-react'
+import { CURVE_TYPE_LABELS, curvePercentages, type ExamCurve } from '@/lib/exam-grading'
+
+type CurveType = keyof typeof CURVE_TYPE_LABELS
+
+export interface ExamGradingSettings extends ExamCurve {
+  weight: number
+}
+
+/**
+ * Set an exam's weight and curve. Shows the class before and after the curve
+ * so the admin can compare before applying it.
+ */
+export function ExamCurveDialog({
+  exam,
+  rawPercentages,
+  onSuccess,
+}: {
+  exam: ExamGradingSettings & { id: string; totalPoints: number; originalExamId: string | null }
+  rawPercentages: number[]
+  onSuccess: (settings: ExamGradingSettings) => void
+}) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [weight, setWeight] = useState('')
+  const [curveType, setCurveType] = useState<CurveType | ''>('')
+  const [curveValue, setCurveValue] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const open = () => {
+    setWeight(String(exam.weight))
+    setCurveType(exam.curveType ?? '')
+    setCurveValue(exam.curveValue !== null ? String(exam.curveValue) : '')
+    setIsOpen(true)
+  }
+
+  const curve: ExamCurve = useMemo(() => ({
+    curveType: curveType || null,
+    curveValue: curveValue.trim() ? parseFloat(curveValue) : null,
+  }), [curveType, curveValue])
+
+  const preview = useMemo(() => {
+    if (rawPercentages.length === 0) return null
+    const curved = curvePercentages(rawPercentages, curve, exam.totalPoints)
+    const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length
+    return {
+      rawAverage: mean(rawPercentages),
+      curvedAverage: mean(curved),
+      rawPassing: rawPercentages.filter(p => p >= 60).length,
+      curvedPassing: curved.filter(p => p >= 60).length,
+    }
+  }, [rawPercentages, curve, exam.totalPoints])
+
+  const handleSave = async () => {
+    setIsSubmitting(true)
+    try {
+      const weightValue = parseFloat(weight)
+      if (!exam.originalExamId && weightValue !== exam.weight) {
+        const res = await fetch(`/api/exams/${exam.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ weight: weightValue }),
+        })
+        const data = await res.json()
+        if (!res.ok) {
+          toast.error(data.error || 'Failed to save weight')
+          return
+        }
+      }
+
+      const res = await fetch(`/api/exams/${exam.id}/curve`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(curve),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to apply curve')
+        return
+      }
+
+      toast.success(data.curveType ? 'Curve applied' : 'Grading settings saved')
+      setIsOpen(false)
+      onSuccess({
+        weight: exam.originalExamId ? exam.weight : weightValue,
+        curveType: data.curveType,
+        curveValue: data.curveValue,
+      })
+    } catch (error) {
+      console.error('Failed to save grading settings:', error)
+      toast.error('Failed to save grading settings')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={open} className="gap-1">
+        <SlidersHorizontal className="h-4 w-4" />
+        Weight &amp; Curve
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Weight &amp; Curve</DialogTitle>
+            <DialogDescription>
+              Raw scores are kept; averages and graduation use the curved percentages.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="exam-weight">Weight within section</Label>
+              <Input
+                id="exam-weight"
+                type="number"
+                min={0}
+                step="any"
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                disabled={!!exam.originalExamId}
+              />
+              {exam.originalExamId && (
+                <p className="text-xs text-gray-500">Makeups and retakes use the original exam&apos;s weight.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="exam-curve-type">Curve</Label>
+              <select
+                id="exam-curve-type"
+                value={curveType}
+                onChange={(e) => { setCurveType(e.target.value as CurveType | ''); setCurveValue('') }}
+                className="w-full h-9 px-2 rounded-md border border-input bg-background text-sm"
+              >
+                <option value="">No curve</option>
+                {Object.entries(CURVE_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            {(curveType === 'ADD_POINTS' || curveType === 'SCALE_TO_MAX') && (
+              <div className="space-y-2">
+                <Label htmlFor="exam-curve-value">
+                  {curveType === 'ADD_POINTS' ? `Points to add (out of ${exam.totalPoints})` : 'Top score becomes (%)'}
+                </Label>
+                <Input
+                  id="exam-curve-value"
+                  type="number"
+                  min={0}
+                  step="any"
+                  placeholder={curveType === 'SCALE_TO_MAX' ? '100' : ''}
+                  value={curveValue}
+                  onChange={(e) => setCurveValue(e.target.value)}
+                />
+              </div>
+            )}
+
+            {preview && (
+              <div className="bg-gray-50 rounded-lg p-3 text-sm space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Class average</span>
+                  <span>{preview.rawAverage.toFixed(1)}% → <span className="font-medium">{preview.curvedAverage.toFixed(1)}%</span></span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Passing (60%+)</span>
+                  <span>{preview.rawPassing} → <span className="font-medium">{preview.curvedPassing}</span> of {rawPercentages.length}</span>
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSubmitting}>
+                {isSubmitting ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
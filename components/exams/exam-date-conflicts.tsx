@@ -0,0 +1,72 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle, XCircle } from 'lucide-react'
+import type { ExamDateConflict } from '@/lib/exam-calendar'
+
+/**
+ * Live calendar check for a proposed exam date: dates outside the academic
+ * year, cancelled or no-class days, and weeks when many students are away or
+ * serving Sunday School.
+ */
+export function ExamDateConflicts({
+  examDate,
+  academicYearId,
+  yearLevel,
+  originalExamId,
+}: {
+  examDate: string
+  academicYearId?: string
+  yearLevel: string
+  originalExamId?: string
+}) {
+  const [conflicts, setConflicts] = useState<ExamDateConflict[]>([])
+
+  useEffect(() => {
+    if (!examDate || (!originalExamId && !academicYearId)) {
+      setConflicts([])
+      return
+    }
+
+    const params = new URLSearchParams({ examDate })
+    if (originalExamId) {
+      params.set('originalExamId', originalExamId)
+    } else {
+      params.set('academicYearId', academicYearId!)
+      params.set('yearLevel', yearLevel)
+    }
+
+    let cancelled = false
+    fetch(`/api/exams/conflicts?${params.toString()}`)
+      .then(res => (res.ok ? res.json() : { conflicts: [] }))
+      .then(data => {
+        if (!cancelled) setConflicts(data.conflicts)
+      })
+      .catch(error => console.error('Failed to check exam date:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [examDate, academicYearId, yearLevel, originalExamId])
+
+  if (conflicts.length === 0) return null
+
+  return (
+    <div className="space-y-1">
+      {conflicts.map(conflict => (
+        <div
+          key={`${conflict.type}-${conflict.message}`}
+          className={`flex items-start gap-2 text-xs rounded-md border p-2 ${
+            conflict.severity === 'error'
+              ? 'bg-red-50 text-red-800 border-red-200'
+              : 'bg-amber-50 text-amber-800 border-amber-200'
+          }`}
+        >
+          {conflict.severity === 'error'
+            ? <XCircle className="h-4 w-4 shrink-0" />
+            : <AlertTriangle className="h-4 w-4 shrink-0" />}
+          {conflict.message}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from 'sonner'
+import { CheckCircle } from 'lucide-react'
+import { QUESTION_TYPE_LABELS, type ExamQuestionType } from './types'
+
+interface GradingAnswer {
+  id: string
+  response: string | null
+  pointsAwarded: number | null
+  feedback: string | null
+  gradedAt: string | null
+  question: { id: string; order: number; type: ExamQuestionType; prompt: string; points: number }
+  attempt: { id: string; submittedAt: string | null; student: { id: string; name: string } }
+  grader: { id: string; name: string } | null
+}
+
+function GradingCard({
+  answer,
+  canEdit,
+  onGraded,
+}: {
+  answer: GradingAnswer
+  canEdit: boolean
+  onGraded: () => void
+}) {
+  const [points, setPoints] = useState(answer.pointsAwarded !== null ? String(answer.pointsAwarded) : '')
+  const [feedback, setFeedback] = useState(answer.feedback || '')
+  const [saving, setSaving] = useState(false)
+
+  const save = async () => {
+    const value = parseFloat(points)
+    if (isNaN(value) || value < 0 || value > answer.question.points) {
+      toast.error(`Enter points between 0 and ${answer.question.points}`)
+      return
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/exam-answers/${answer.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pointsAwarded: value, feedback }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save grade')
+        return
+      }
+      toast.success(data.finalized
+        ? `${answer.attempt.student.name}'s exam is fully graded and the score was posted`
+        : 'Grade saved')
+      onGraded()
+    } catch (error) {
+      console.error('Failed to save grade:', error)
+      toast.error('Failed to save grade')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-semibold">{answer.attempt.student.name}</span>
+          <Badge variant="outline">Q{answer.question.order} · {QUESTION_TYPE_LABELS[answer.question.type]}</Badge>
+          {answer.grader && (
+            <span className="text-xs text-gray-500">Graded by {answer.grader.name}</span>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 whitespace-pre-wrap">{answer.question.prompt}</p>
+        <div className="text-sm bg-gray-50 border rounded-md p-3 whitespace-pre-wrap">
+          {answer.response || <span className="text-gray-400 italic">No answer</span>}
+        </div>
+        <div className="flex flex-wrap items-start gap-2">
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              max={answer.question.points}
+              step="any"
+              value={points}
+              onChange={(e) => setPoints(e.target.value)}
+              disabled={!canEdit}
+              className="w-20 h-9"
+            />
+            <span className="text-sm text-gray-500">/ {answer.question.points}</span>
+          </div>
+          <Textarea
+            placeholder="Feedback for the student (optional)"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            disabled={!canEdit}
+            rows={2}
+            className="flex-1 min-w-48 text-sm"
+          />
+          {canEdit && (
+            <Button size="sm" onClick={save} disabled={saving || points === ''}>
+              {saving ? 'Saving...' : 'Save Grade'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Essay and unkeyed short answers from submitted online attempts. Grading the
+ * last pending answer of an attempt posts the student's score.
+ */
+export function ExamGradingQueue({ examId, canEdit }: { examId: string; canEdit: boolean }) {
+  const [pending, setPending] = useState<GradingAnswer[]>([])
+  const [graded, setGraded] = useState<GradingAnswer[]>([])
+  const [showGraded, setShowGraded] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/exams/${examId}/grading`)
+      if (!res.ok) throw new Error('Failed to load grading queue')
+      const data = await res.json()
+      setPending(data.pending)
+      setGraded(data.graded)
+    } catch (error) {
+      console.error('Failed to fetch grading queue:', error)
+      toast.error('Failed to load grading queue')
+    } finally {
+      setLoading(false)
+    }
+  }, [examId])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  if (loading) {
+    return <div className="p-6 text-center text-sm text-gray-500">Loading grading queue...</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      {pending.length === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center text-sm text-gray-500 flex items-center justify-center gap-2">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            Nothing waiting to be graded
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">{pending.length} answer(s) waiting to be graded</p>
+          {pending.map(answer => (
+            <GradingCard key={answer.id} answer={answer} canEdit={canEdit} onGraded={fetchQueue} />
+          ))}
+        </>
+      )}
+
+      {graded.length > 0 && (
+        <div className="space-y-3">
+          <Button variant="outline" size="sm" onClick={() => setShowGraded(!showGraded)}>
+            {showGraded ? 'Hide' : 'Show'} hand-graded answers ({graded.length})
+          </Button>
+          {showGraded && graded.map(answer => (
+            <GradingCard key={answer.id} answer={answer} canEdit={canEdit} onGraded={fetchQueue} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,638 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from 'sonner'
+import { ArrowDown, ArrowUp, BookMarked, Edit, Library, Lock, Plus, Printer, Trash2 } from 'lucide-react'
+import { formatDateUTC } from '@/lib/utils'
+import { escapeHtml } from '@/lib/exam-seating'
+import { QUESTION_TYPE_LABELS, type ExamQuestion, type ExamQuestionType } from './types'
+import { QuestionBankDialog } from './question-bank-dialog'
+
+interface QuestionForm {
+  type: ExamQuestionType
+  prompt: string
+  options: string[]
+  answerKey: string[]
+  // Accepted short answers, one per line
+  acceptedAnswers: string
+  points: string
+}
+
+const EMPTY_FORM: QuestionForm = {
+  type: 'MULTIPLE_CHOICE',
+  prompt: '',
+  options: ['', ''],
+  answerKey: [],
+  acceptedAnswers: '',
+  points: '1',
+}
+
+const selectClassName = 'h-9 px-2 rounded-md border border-input bg-background text-sm dark:bg-gray-800 dark:text-white dark:border-gray-600'
+
+function toForm(question: ExamQuestion): QuestionForm {
+  return {
+    type: question.type,
+    prompt: question.prompt,
+    options: question.options.length > 0 ? question.options : ['', ''],
+    answerKey: question.answerKey || [],
+    acceptedAnswers: question.type === 'SHORT_ANSWER' ? (question.answerKey || []).join('\n') : '',
+    points: String(question.points),
+  }
+}
+
+function toBody(form: QuestionForm) {
+  return {
+    type: form.type,
+    prompt: form.prompt,
+    options: form.type === 'MULTIPLE_CHOICE' ? form.options : [],
+    answerKey: form.type === 'SHORT_ANSWER' ? form.acceptedAnswers.split('\n') : form.answerKey,
+    points: parseFloat(form.points),
+  }
+}
+
+function printQuestion(question: ExamQuestion, index: number, withKey: boolean) {
+  let body = ''
+  switch (question.type) {
+    case 'MULTIPLE_CHOICE':
+      body = `<ol class="options">${question.options.map((option, i) => {
+        const correct = withKey && question.answerKey?.includes(String(i))
+        return `<li${correct ? ' class="correct"' : ''}>${escapeHtml(option)}</li>`
+      }).join('')}</ol>`
+      break
+    case 'TRUE_FALSE':
+      body = withKey
+        ? `<p class="correct">${question.answerKey?.[0] === 'true' ? 'True' : 'False'}</p>`
+        : '<p>True &nbsp;/&nbsp; False</p>'
+      break
+    case 'SHORT_ANSWER':
+      body = withKey
+        ? `<p class="correct">${question.answerKey?.length ? escapeHtml(question.answerKey.join(' / ')) : 'Graded by hand'}</p>`
+        : '<div class="lines short"></div>'
+      break
+    case 'ESSAY':
+      body = withKey ? '<p class="correct">Graded by hand</p>' : '<div class="lines essay"></div>'
+      break
+  }
+  return `
+    <div class="question">
+      <div class="prompt"><strong>${index + 1}.</strong> ${escapeHtml(question.prompt)}
+        <span class="points">(${question.points} pt${question.points === 1 ? '' : 's'})</span></div>
+      ${body}
+    </div>`
+}
+
+/** Open the questions as a paper exam (or its answer key) and print */
+function printExam(
+  exam: { examDate: string; examSection: { displayName: string } },
+  questions: ExamQuestion[],
+  withKey: boolean
+) {
+  const title = `${exam.examSection.displayName} Exam${withKey ? ' — Answer Key' : ''}`
+  const date = formatDateUTC(exam.examDate, { month: 'long', day: 'numeric', year: 'numeric' })
+  const total = questions.reduce((sum, q) => sum + q.points, 0)
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${escapeHtml(title)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; padding: 20px; font-size: 14px; }
+        h1 { font-size: 20px; margin-bottom: 4px; }
+        h2 { font-size: 14px; color: #666; margin-top: 0; font-weight: normal; }
+        .name { margin: 16px 0 24px; }
+        .question { margin-bottom: 20px; page-break-inside: avoid; }
+        .prompt { white-space: pre-wrap; }
+        .points { color: #666; font-size: 12px; }
+        .options { list-style: upper-alpha; margin: 8px 0 0; }
+        .options li { margin-bottom: 4px; }
+        .correct { font-weight: bold; color: #15803d; }
+        .lines { border-bottom: 1px solid #999; margin-top: 8px; background: repeating-linear-gradient(transparent, transparent 27px, #ccc 28px); }
+        .lines.short { height: 56px; }
+        .lines.essay { height: 224px; }
+        @media print { body { padding: 0; } }
+      </style>
+    </head>
+    <body>
+      <h1>${escapeHtml(title)}</h1>
+      <h2>${date} • ${questions.length} questions • ${total} points</h2>
+      ${withKey ? '' : '<div class="name">Name: ______________________________</div>'}
+      ${questions.map((q, i) => printQuestion(q, i, withKey)).join('')}
+    </body>
+    </html>
+  `
+
+  const win = window.open('', '_blank')
+  if (win) {
+    win.document.write(html)
+    win.document.close()
+    win.focus()
+    win.print()
+  }
+}
+
+/**
+ * Question authoring for an exam, plus the online settings (open to students,
+ * time limit). Questions lock once a student has started the exam. Questions
+ * can be pulled from and saved to the section's question bank, and printed
+ * for a paper exam.
+ */
+export function ExamQuestionsEditor({
+  exam,
+  canEdit,
+  onExamChange,
+}: {
+  exam: {
+    id: string
+    examDate: string
+    onlineEnabled: boolean
+    durationMinutes: number | null
+    totalPoints: number
+    examSection: { id: string; displayName: string }
+  }
+  canEdit: boolean
+  onExamChange: (changes: { onlineEnabled: boolean; durationMinutes: number | null; questionCount: number }) => void
+}) {
+  const [questions, setQuestions] = useState<ExamQuestion[]>([])
+  const [attemptCount, setAttemptCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState<QuestionForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [duration, setDuration] = useState(exam.durationMinutes ? String(exam.durationMinutes) : '')
+  const [bankOpen, setBankOpen] = useState(false)
+
+  const fetchQuestions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/exams/${exam.id}/questions`)
+      if (!res.ok) throw new Error('Failed to load questions')
+      const data = await res.json()
+      setQuestions(data.questions)
+      setAttemptCount(data.attemptCount)
+    } catch (error) {
+      console.error('Failed to fetch questions:', error)
+      toast.error('Failed to load questions')
+    } finally {
+      setLoading(false)
+    }
+  }, [exam.id])
+
+  useEffect(() => {
+    fetchQuestions()
+  }, [fetchQuestions])
+
+  const locked = attemptCount > 0
+  const editable = canEdit && !locked
+  const questionPoints = questions.reduce((sum, q) => sum + q.points, 0)
+
+  const updateSettings = async (changes: { onlineEnabled?: boolean; durationMinutes?: number | null }) => {
+    try {
+      const res = await fetch(`/api/exams/${exam.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to update exam')
+        return
+      }
+      onExamChange({
+        onlineEnabled: data.onlineEnabled,
+        durationMinutes: data.durationMinutes,
+        questionCount: data._count.questions,
+      })
+      toast.success(changes.onlineEnabled === undefined ? 'Time limit saved' : data.onlineEnabled ? 'Exam opened online' : 'Exam closed online')
+    } catch (error) {
+      console.error('Failed to update exam:', error)
+      toast.error('Failed to update exam')
+    }
+  }
+
+  const saveDuration = () => {
+    const minutes = duration.trim() ? parseInt(duration, 10) : null
+    if (minutes !== null && (isNaN(minutes) || minutes <= 0)) {
+      toast.error('Enter the time limit in minutes')
+      return
+    }
+    updateSettings({ durationMinutes: minutes })
+  }
+
+  const startEdit = (question: ExamQuestion | null) => {
+    setEditingId(question ? question.id : 'new')
+    setForm(question ? toForm(question) : EMPTY_FORM)
+  }
+
+  const saveQuestion = async () => {
+    setSaving(true)
+    try {
+      const isNew = editingId === 'new'
+      const res = await fetch(isNew ? `/api/exams/${exam.id}/questions` : `/api/exam-questions/${editingId}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toBody(form)),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save question')
+        return
+      }
+      toast.success(isNew ? 'Question added' : 'Question updated')
+      setEditingId(null)
+      await fetchQuestions()
+      if (isNew) {
+        onExamChange({ onlineEnabled: exam.onlineEnabled, durationMinutes: exam.durationMinutes, questionCount: questions.length + 1 })
+      }
+    } catch (error) {
+      console.error('Failed to save question:', error)
+      toast.error('Failed to save question')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteQuestion = async (question: ExamQuestion) => {
+    if (!confirm('Delete this question?')) return
+    try {
+      const res = await fetch(`/api/exam-questions/${question.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        toast.error(data.error || 'Failed to delete question')
+        return
+      }
+      toast.success('Question deleted')
+      const remaining = questions.length - 1
+      onExamChange({
+        onlineEnabled: remaining > 0 && exam.onlineEnabled,
+        durationMinutes: exam.durationMinutes,
+        questionCount: remaining,
+      })
+      await fetchQuestions()
+    } catch (error) {
+      console.error('Failed to delete question:', error)
+      toast.error('Failed to delete question')
+    }
+  }
+
+  const moveQuestion = async (index: number, direction: -1 | 1) => {
+    const current = questions[index]
+    const other = questions[index + direction]
+    if (!current || !other) return
+    try {
+      await Promise.all([
+        fetch(`/api/exam-questions/${current.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ order: other.order }),
+        }),
+        fetch(`/api/exam-questions/${other.id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ order: current.order }),
+        }),
+      ])
+      await fetchQuestions()
+    } catch (error) {
+      console.error('Failed to reorder questions:', error)
+      toast.error('Failed to reorder questions')
+    }
+  }
+
+  const handleBankAdded = async (count: number) => {
+    onExamChange({ onlineEnabled: exam.onlineEnabled, durationMinutes: exam.durationMinutes, questionCount: questions.length + count })
+    await fetchQuestions()
+  }
+
+  const saveToBank = async (questionIds?: string[]) => {
+    try {
+      const res = await fetch('/api/question-bank/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ examId: exam.id, questionIds }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save to the question bank')
+        return
+      }
+      toast.success(`Saved ${data.imported} question(s) to the ${exam.examSection.displayName} bank`)
+      await fetchQuestions()
+    } catch (error) {
+      console.error('Failed to save to question bank:', error)
+      toast.error('Failed to save to the question bank')
+    }
+  }
+
+  const setOption = (index: number, value: string) => {
+    setForm(prev => ({ ...prev, options: prev.options.map((o, i) => (i === index ? value : o)) }))
+  }
+
+  const removeOption = (index: number) => {
+    setForm(prev => ({
+      ...prev,
+      options: prev.options.filter((_, i) => i !== index),
+      // Keep the correct-answer indexes pointing at the same options
+      answerKey: prev.answerKey
+        .filter(key => Number(key) !== index)
+        .map(key => (Number(key) > index ? String(Number(key) - 1) : key)),
+    }))
+  }
+
+  const toggleCorrect = (index: number) => {
+    const key = String(index)
+    setForm(prev => ({
+      ...prev,
+      answerKey: prev.answerKey.includes(key) ? prev.answerKey.filter(k => k !== key) : [...prev.answerKey, key],
+    }))
+  }
+
+  const renderForm = () => (
+    <Card className="border-maroon-200">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={form.type}
+            onChange={(e) => setForm({ ...form, type: e.target.value as ExamQuestionType, answerKey: [] })}
+            className={selectClassName}
+          >
+            {Object.entries(QUESTION_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={form.points}
+              onChange={(e) => setForm({ ...form, points: e.target.value })}
+              className="w-20 h-9"
+            />
+            <span className="text-sm text-gray-500">points</span>
+          </div>
+        </div>
+
+        <Textarea
+          placeholder="Question prompt"
+          value={form.prompt}
+          onChange={(e) => setForm({ ...form, prompt: e.target.value })}
+          rows={3}
+        />
+
+        {form.type === 'MULTIPLE_CHOICE' && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500">Tick the correct option(s)</p>
+            {form.options.map((option, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={form.answerKey.includes(String(index))}
+                  onChange={() => toggleCorrect(index)}
+                  className="h-4 w-4"
+                />
+                <Input
+                  placeholder={`Option ${index + 1}`}
+                  value={option}
+                  onChange={(e) => setOption(index, e.target.value)}
+                  className="h-9"
+                />
+                {form.options.length > 2 && (
+                  <Button variant="ghost" size="sm" onClick={() => removeOption(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setForm({ ...form, options: [...form.options, ''] })}>
+              <Plus className="h-4 w-4 mr-1" /> Add option
+            </Button>
+          </div>
+        )}
+
+        {form.type === 'TRUE_FALSE' && (
+          <div className="flex gap-4 text-sm">
+            {['true', 'false'].map(value => (
+              <label key={value} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={form.answerKey[0] === value}
+                  onChange={() => setForm({ ...form, answerKey: [value] })}
+                />
+                {value === 'true' ? 'True' : 'False'}
+              </label>
+            ))}
+          </div>
+        )}
+
+        {form.type === 'SHORT_ANSWER' && (
+          <div className="space-y-1">
+            <Textarea
+              placeholder="Accepted answers, one per line"
+              value={form.acceptedAnswers}
+              onChange={(e) => setForm({ ...form, acceptedAnswers: e.target.value })}
+              rows={2}
+            />
+            <p className="text-xs text-gray-500">
+              Matching ignores case and spacing. Leave empty to grade these answers by hand.
+            </p>
+          </div>
+        )}
+
+        {form.type === 'ESSAY' && (
+          <p className="text-xs text-gray-500">Essay answers are graded by hand from the grading queue.</p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setEditingId(null)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={saveQuestion} disabled={saving || !form.prompt.trim()}>
+            {saving ? 'Saving...' : 'Save Question'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+
+  if (loading) {
+    return <div className="p-6 text-center text-sm text-gray-500">Loading questions...</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Online settings */}
+      <Card>
+        <CardContent className="p-4 flex flex-wrap items-center gap-4">
+          <div className="flex-1 min-w-48">
+            <div className="font-medium text-sm flex items-center gap-2">
+              Online exam
+              <Badge variant="outline" className={exam.onlineEnabled ? 'bg-green-50 text-green-700 border-green-200' : ''}>
+                {exam.onlineEnabled ? 'Open to students' : 'Closed'}
+              </Badge>
+            </div>
+            <p className="text-xs text-gray-500">
+              {questions.length} question(s) worth {questionPoints} point(s), scaled to {exam.totalPoints} in the gradebook
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              placeholder="No limit"
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              disabled={!canEdit}
+              className="w-24 h-9"
+            />
+            <span className="text-sm text-gray-500">min</span>
+            {canEdit && (
+              <Button variant="outline" size="sm" onClick={saveDuration}>Save</Button>
+            )}
+          </div>
+          {canEdit && (
+            <Button
+              size="sm"
+              variant={exam.onlineEnabled ? 'outline' : 'default'}
+              onClick={() => updateSettings({ onlineEnabled: !exam.onlineEnabled })}
+              disabled={!exam.onlineEnabled && questions.length === 0}
+            >
+              {exam.onlineEnabled ? 'Close Online Exam' : 'Open Online Exam'}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {locked && (
+        <div className="flex items-center gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          <Lock className="h-4 w-4 shrink-0" />
+          {attemptCount} student(s) have started this exam, so its questions can no longer be changed.
+        </div>
+      )}
+
+      {/* Questions */}
+      {questions.length === 0 && editingId !== 'new' && (
+        <Card>
+          <CardContent className="p-6 text-center text-sm text-gray-500">
+            No questions yet. Scores can still be entered by hand.
+          </CardContent>
+        </Card>
+      )}
+
+      {questions.map((question, index) => (
+        editingId === question.id ? (
+          <div key={question.id}>{renderForm()}</div>
+        ) : (
+          <Card key={question.id}>
+            <CardContent className="p-4">
+              <div className="flex items-start gap-3">
+                <span className="text-sm font-semibold text-gray-500">{index + 1}.</span>
+                <div className="flex-1 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                    <span className="text-xs text-gray-500">{question.points} pt(s)</span>
+                    {question.bankQuestionId && (
+                      <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">In bank</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{question.prompt}</p>
+                  {question.type === 'MULTIPLE_CHOICE' && (
+                    <ul className="text-sm space-y-1">
+                      {question.options.map((option, i) => (
+                        <li key={i} className={question.answerKey?.includes(String(i)) ? 'text-green-700 font-medium' : 'text-gray-600'}>
+                          {String.fromCharCode(65 + i)}. {option}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {question.type === 'TRUE_FALSE' && (
+                    <p className="text-sm text-green-700">Answer: {question.answerKey?.[0] === 'true' ? 'True' : 'False'}</p>
+                  )}
+                  {question.type === 'SHORT_ANSWER' && (
+                    <p className="text-sm text-gray-600">
+                      {question.answerKey?.length
+                        ? `Accepts: ${question.answerKey.join(', ')}`
+                        : 'Graded by hand'}
+                    </p>
+                  )}
+                </div>
+                {canEdit && !question.bankQuestionId && (
+                  <Button variant="ghost" size="sm" onClick={() => saveToBank([question.id])} title="Save to question bank">
+                    <BookMarked className="h-4 w-4" />
+                  </Button>
+                )}
+                {editable && (
+                  <div className="flex items-center">
+                    <Button variant="ghost" size="sm" onClick={() => moveQuestion(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => moveQuestion(index, 1)} disabled={index === questions.length - 1}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => startEdit(question)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteQuestion(question)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )
+      ))}
+
+      {editingId === 'new' && renderForm()}
+
+      <div className="flex flex-wrap gap-2">
+        {editable && editingId === null && (
+          <>
+            <Button variant="outline" onClick={() => startEdit(null)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Question
+            </Button>
+            <Button variant="outline" onClick={() => setBankOpen(true)} className="gap-2">
+              <Library className="h-4 w-4" />
+              Add from Bank
+            </Button>
+          </>
+        )}
+        {canEdit && questions.some(q => !q.bankQuestionId) && (
+          <Button variant="outline" onClick={() => saveToBank()} className="gap-2">
+            <BookMarked className="h-4 w-4" />
+            Save All to Bank
+          </Button>
+        )}
+        {questions.length > 0 && (
+          <div className="ml-auto flex gap-2">
+            <Button variant="outline" onClick={() => printExam(exam, questions, false)} className="gap-2">
+              <Printer className="h-4 w-4" />
+              Print Exam
+            </Button>
+            <Button variant="outline" onClick={() => printExam(exam, questions, true)} className="gap-2">
+              <Printer className="h-4 w-4" />
+              Answer Key
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <QuestionBankDialog
+        exam={exam}
+        open={bankOpen}
+        onOpenChange={setBankOpen}
+        canEdit={editable}
+        onAdded={handleBankAdded}
+      />
+    </div>
+  )
+}
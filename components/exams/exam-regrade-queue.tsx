@@ -0,0 +1,240 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { toast } from 'sonner'
+import { MessageSquareWarning } from 'lucide-react'
+import { formatDateUTC } from '@/lib/utils'
+import { REGRADE_STATUS_LABELS } from '@/lib/exam-regrades'
+
+type RegradeStatus = keyof typeof REGRADE_STATUS_LABELS
+
+export interface RegradeRequestItem {
+  id: string
+  comment: string
+  status: RegradeStatus
+  previousScore: number
+  adjustedScore: number | null
+  reviewNote: string | null
+  reviewedAt: string | null
+  createdAt: string
+  student: { id: string; name: string }
+  reviewer: { id: string; name: string } | null
+  examScore: {
+    id: string
+    score: number
+    percentage: number
+    exam: { id: string; examDate: string; totalPoints: number; examSection: { displayName: string } }
+  }
+}
+
+export const REGRADE_STATUS_BADGES: Record<RegradeStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  APPROVED: 'bg-green-100 text-green-800 border-green-200',
+  DENIED: 'bg-red-100 text-red-800 border-red-200',
+}
+
+function examLabel(request: RegradeRequestItem) {
+  const { exam } = request.examScore
+  return `${exam.examSection.displayName} • ${formatDateUTC(exam.examDate, { weekday: undefined })}`
+}
+
+function RegradeReviewCard({
+  request,
+  canEdit,
+  onReviewed,
+}: {
+  request: RegradeRequestItem
+  canEdit: boolean
+  onReviewed: () => void
+}) {
+  const { totalPoints } = request.examScore.exam
+  const [adjustedScore, setAdjustedScore] = useState(String(request.examScore.score))
+  const [note, setNote] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const review = async (status: 'APPROVED' | 'DENIED') => {
+    const score = parseFloat(adjustedScore)
+    if (status === 'APPROVED' && (isNaN(score) || score < 0 || score > totalPoints)) {
+      toast.error(`Enter a score between 0 and ${totalPoints}`)
+      return
+    }
+    if (status === 'DENIED' && !note.trim()) {
+      toast.error('Add a note explaining why the score stays')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/exam-regrades/${request.id}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, adjustedScore: status === 'APPROVED' ? score : undefined, note }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to review request')
+        return
+      }
+      toast.success(status === 'APPROVED'
+        ? `${request.student.name}'s score was updated`
+        : `${request.student.name}'s request was denied`)
+      onReviewed()
+    } catch (error) {
+      console.error('Failed to review regrade request:', error)
+      toast.error('Failed to review request')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded border p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-semibold">{request.student.name}</span>
+        <Badge variant="outline">{examLabel(request)}</Badge>
+        <span className="text-gray-600">
+          {request.examScore.score} / {totalPoints} ({request.examScore.percentage.toFixed(1)}%)
+        </span>
+        <span className="text-xs text-gray-500 ml-auto">
+          Requested {formatDateUTC(request.createdAt, { weekday: undefined })}
+        </span>
+      </div>
+      <p className="text-sm bg-gray-50 border rounded-md p-2 whitespace-pre-wrap">{request.comment}</p>
+      {canEdit && (
+        <div className="flex flex-wrap items-start gap-2">
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              min={0}
+              max={totalPoints}
+              step="any"
+              value={adjustedScore}
+              onChange={(e) => setAdjustedScore(e.target.value)}
+              className="w-24 h-9"
+            />
+            <span className="text-sm text-gray-500">/ {totalPoints}</span>
+          </div>
+          <Textarea
+            placeholder="Note for the student (required to deny)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={1}
+            className="flex-1 min-w-48"
+          />
+          <Button size="sm" onClick={() => review('APPROVED')} disabled={saving}>
+            Approve
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => review('DENIED')} disabled={saving}>
+            Deny
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Pending regrade requests across all exams, plus the history of reviewed
+ * ones (score before and after, reviewer and note).
+ */
+export function ExamRegradeQueue({ canEdit }: { canEdit: boolean }) {
+  const [pending, setPending] = useState<RegradeRequestItem[]>([])
+  const [history, setHistory] = useState<RegradeRequestItem[] | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+
+  const fetchPending = useCallback(async () => {
+    try {
+      const res = await fetch('/api/exam-regrades?status=PENDING')
+      if (res.ok) setPending(await res.json())
+    } catch (error) {
+      console.error('Failed to fetch regrade requests:', error)
+    }
+  }, [])
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const res = await fetch('/api/exam-regrades')
+      if (res.ok) {
+        const data: RegradeRequestItem[] = await res.json()
+        setHistory(data.filter(r => r.status !== 'PENDING'))
+      }
+    } catch (error) {
+      console.error('Failed to fetch regrade history:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPending()
+  }, [fetchPending])
+
+  const toggleHistory = () => {
+    if (!showHistory && history === null) fetchHistory()
+    setShowHistory(!showHistory)
+  }
+
+  const handleReviewed = () => {
+    fetchPending()
+    if (history !== null) fetchHistory()
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquareWarning className="h-5 w-5 text-maroon-600" />
+            Regrade Requests
+            {pending.length > 0 && <Badge className="bg-yellow-500">{pending.length}</Badge>}
+          </CardTitle>
+          <CardDescription>Students asking for a posted score to be reviewed</CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={toggleHistory}>
+          {showHistory ? 'Hide History' : 'History'}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pending.length === 0 ? (
+          <div className="text-sm text-gray-500">No pending requests</div>
+        ) : (
+          pending.map(request => (
+            <RegradeReviewCard key={request.id} request={request} canEdit={canEdit} onReviewed={handleReviewed} />
+          ))
+        )}
+
+        {showHistory && (
+          <div className="pt-3 border-t space-y-2">
+            {history === null ? (
+              <div className="text-sm text-gray-500">Loading...</div>
+            ) : history.length === 0 ? (
+              <div className="text-sm text-gray-500">No reviewed requests yet</div>
+            ) : (
+              history.map(request => (
+                <div key={request.id} className="text-sm flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className={REGRADE_STATUS_BADGES[request.status]}>
+                    {REGRADE_STATUS_LABELS[request.status]}
+                  </Badge>
+                  <span className="font-medium">{request.student.name}</span>
+                  <span className="text-gray-600">{examLabel(request)}</span>
+                  <span>
+                    {request.previousScore}
+                    {request.adjustedScore !== null && ` → ${request.adjustedScore}`} / {request.examScore.exam.totalPoints}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {request.reviewer ? `by ${request.reviewer.name}` : ''}
+                    {request.reviewedAt && ` on ${formatDateUTC(request.reviewedAt, { weekday: undefined })}`}
+                    {request.reviewNote && ` — ${request.reviewNote}`}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,140 @@
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { CalendarClock, Eye, EyeOff } from 'lucide-react'
+import { RELEASE_STATUS_LABELS, isExamReleased, type ExamReleaseState } from '@/lib/exam-release'
+
+type ReleaseStatus = keyof typeof RELEASE_STATUS_LABELS
+
+const STATUS_CLASSES: Record<ReleaseStatus, string> = {
+  DRAFT: 'bg-gray-50 text-gray-700 border-gray-200',
+  SCHEDULED: 'bg-amber-50 text-amber-700 border-amber-200',
+  RELEASED: 'bg-green-50 text-green-700 border-green-200',
+}
+
+/** Badge for an exam's score visibility; scheduled releases show their time */
+export function ExamReleaseBadge({ exam }: { exam: ExamReleaseState }) {
+  const status: ReleaseStatus = isExamReleased(exam) ? 'RELEASED' : exam.releaseStatus
+  return (
+    <Badge variant="outline" className={STATUS_CLASSES[status]}>
+      {status === 'SCHEDULED' && exam.releaseAt
+        ? `Releases ${new Date(exam.releaseAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`
+        : RELEASE_STATUS_LABELS[status]}
+    </Badge>
+  )
+}
+
+/**
+ * Release an exam's scores to students and mentors now, schedule the release,
+ * or hide them again. Releasing notifies every student with a score.
+ */
+export function ExamReleaseControl({
+  exam,
+  onChange,
+}: {
+  exam: ExamReleaseState & { id: string }
+  onChange: (state: ExamReleaseState) => void
+}) {
+  const [isScheduling, setIsScheduling] = useState(false)
+  const [releaseAt, setReleaseAt] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const released = isExamReleased(exam)
+
+  const updateRelease = async (releaseStatus: ReleaseStatus, at?: string) => {
+    setIsSubmitting(true)
+    try {
+      const res = await fetch(`/api/exams/${exam.id}/release`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ releaseStatus, releaseAt: at ? new Date(at).toISOString() : null }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to update score release')
+        return
+      }
+
+      toast.success(
+        releaseStatus === 'RELEASED' ? 'Scores released to students'
+          : releaseStatus === 'SCHEDULED' ? 'Score release scheduled'
+          : 'Scores hidden from students'
+      )
+      setIsScheduling(false)
+      onChange({ releaseStatus: data.releaseStatus, releaseAt: data.releaseAt })
+    } catch (error) {
+      console.error('Failed to update score release:', error)
+      toast.error('Failed to update score release')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <ExamReleaseBadge exam={exam} />
+        {released ? (
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => updateRelease('DRAFT')} disabled={isSubmitting}>
+            <EyeOff className="h-4 w-4" />
+            Hide Scores
+          </Button>
+        ) : (
+          <>
+            <Button size="sm" className="gap-1" onClick={() => updateRelease('RELEASED')} disabled={isSubmitting}>
+              <Eye className="h-4 w-4" />
+              Release Now
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1"
+              onClick={() => { setReleaseAt(''); setIsScheduling(true) }}
+              disabled={isSubmitting}
+            >
+              <CalendarClock className="h-4 w-4" />
+              Schedule
+            </Button>
+          </>
+        )}
+      </div>
+
+      <Dialog open={isScheduling} onOpenChange={setIsScheduling}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Schedule Score Release</DialogTitle>
+            <DialogDescription>
+              Students and mentors see the scores from this time on, and every student is notified.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="exam-release-at">Release at</Label>
+              <Input
+                id="exam-release-at"
+                type="datetime-local"
+                value={releaseAt}
+                onChange={(e) => setReleaseAt(e.target.value)}
+              />
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setIsScheduling(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button onClick={() => updateRelease('SCHEDULED', releaseAt)} disabled={isSubmitting || !releaseAt}>
+                {isSubmitting ? 'Saving...' : 'Schedule'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { AlertTriangle, FileSpreadsheet, Upload } from 'lucide-react'
+import { AUTO_MATCH_CONFIDENCE, type MatchResult } from '@/lib/attendance-import'
+import { buildScoreImportPlan, type ScoreSheetRow } from '@/lib/exam-score-import'
+
+interface ScoreImportPreview {
+  rows: ScoreSheetRow[]
+  totalPoints: number
+  students: Array<{ id: string; name: string }>
+  existingScores: Record<string, number>
+  matches: Record<number, MatchResult>
+}
+
+function MatchBadge({ match }: { match: MatchResult }) {
+  const percent = Math.round(match.confidence * 100)
+  if (match.confidence === 1 && !match.needsReview) {
+    return <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">Exact</Badge>
+  }
+  if (match.confidence >= AUTO_MATCH_CONFIDENCE) {
+    return <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">{percent}%</Badge>
+  }
+  return (
+    <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+      {match.candidates.length > 0 ? `${percent}%` : 'No match'}
+    </Badge>
+  )
+}
+
+/**
+ * Upload a name/email + score spreadsheet for one exam, review the matches
+ * and the new vs changed scores, then save them all at once.
+ */
+export function ExamScoreImportDialog({
+  examId,
+  totalPoints,
+  onSuccess,
+}: {
+  examId: string
+  totalPoints: number
+  onSuccess: () => void
+}) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ScoreImportPreview | null>(null)
+  const [studentByRow, setStudentByRow] = useState<Record<number, string | null>>({})
+  const [isParsing, setIsParsing] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const open = () => {
+    setFile(null)
+    setPreview(null)
+    setIsOpen(true)
+  }
+
+  const handlePreview = async () => {
+    if (!file) return
+
+    setIsParsing(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const res = await fetch(`/api/exams/${examId}/scores/import/preview`, { method: 'POST', body: formData })
+      const data = await res.json()
+
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to read spreadsheet')
+        return
+      }
+
+      const next = data as ScoreImportPreview
+      setPreview(next)
+      setStudentByRow(Object.fromEntries(
+        next.rows.map(row => [row.rowNumber, next.matches[row.rowNumber]?.matchedId ?? null])
+      ))
+    } catch (error) {
+      console.error('Failed to preview score import:', error)
+      toast.error('Failed to read spreadsheet')
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const plan = useMemo(
+    () => preview ? buildScoreImportPlan(preview.rows, studentByRow, preview.existingScores, preview.totalPoints) : null,
+    [preview, studentByRow]
+  )
+  const newCount = plan?.entries.filter(e => e.change === 'new').length ?? 0
+  const changedCount = plan?.entries.filter(e => e.change === 'changed').length ?? 0
+  const unresolvedRows = preview?.rows.filter(row => !studentByRow[row.rowNumber]).length ?? 0
+  const entryByRow = new Map(plan?.entries.map(e => [e.rowNumber, e]) ?? [])
+  const errorByRow = new Map(plan?.invalidRows.map(r => [r.rowNumber, r.error]) ?? [])
+
+  const studentName = (id: string) => preview?.students.find(s => s.id === id)?.name || id
+
+  const handleCommit = async () => {
+    if (!plan || plan.entries.length === 0) return
+
+    setIsSubmitting(true)
+    try {
+      const res = await fetch(`/api/exams/${examId}/scores/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          scores: plan.entries.map(({ studentId, score, notes }) => ({ studentId, score, notes })),
+        }),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        const invalid: Array<{ studentId: string; error: string }> = data.invalid || []
+        toast.error(data.error || 'Failed to import scores', {
+          description: invalid.length > 0
+            ? invalid.map(i => `${studentName(i.studentId)}: ${i.error}`).join(', ')
+            : undefined,
+        })
+        return
+      }
+
+      toast.success(`Imported scores: ${data.created} new, ${data.updated} updated`)
+      setIsOpen(false)
+      onSuccess()
+    } catch (error) {
+      console.error('Failed to import scores:', error)
+      toast.error('Failed to import scores')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={open} className="gap-1">
+        <Upload className="h-4 w-4" />
+        Import Scores
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              Import Scores
+            </DialogTitle>
+            <DialogDescription>
+              Upload an XLSX or CSV sheet with a Name and/or Email column and a Score column
+              (points out of {totalPoints}). An optional Notes column is saved with each score.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            {/* Upload */}
+            <div className="grid gap-3 sm:grid-cols-[1fr_auto] sm:items-end">
+              <div className="space-y-2">
+                <Label htmlFor="score-import-file">Spreadsheet</Label>
+                <Input
+                  id="score-import-file"
+                  type="file"
+                  accept=".xlsx,.xls,.csv"
+                  onChange={(e) => { setFile(e.target.files?.[0] || null); setPreview(null) }}
+                />
+              </div>
+              <Button onClick={handlePreview} disabled={isParsing || !file}>
+                {isParsing ? 'Reading...' : 'Preview'}
+              </Button>
+            </div>
+
+            {preview && plan && (
+              <>
+                <div className="space-y-2">
+                  <Label>Rows ({preview.rows.length})</Label>
+                  <div className="border rounded-lg divide-y max-h-96 overflow-y-auto">
+                    {preview.rows.map(row => {
+                      const match = preview.matches[row.rowNumber]
+                      const selected = studentByRow[row.rowNumber]
+                      const entry = entryByRow.get(row.rowNumber)
+                      const rowError = errorByRow.get(row.rowNumber)
+                      const duplicate = !!selected && plan.duplicateStudentIds.includes(selected)
+                      return (
+                        <div
+                          key={row.rowNumber}
+                          className={`flex flex-wrap items-center gap-2 p-2 text-sm ${match.needsReview || duplicate || rowError ? 'bg-amber-50' : ''}`}
+                        >
+                          <span className="w-10 text-xs text-gray-400">#{row.rowNumber}</span>
+                          <span className="w-40 font-medium truncate" title={row.email || row.name}>{row.name}</span>
+                          <MatchBadge match={match} />
+                          <select
+                            value={selected || ''}
+                            onChange={(e) => setStudentByRow(prev => ({ ...prev, [row.rowNumber]: e.target.value || null }))}
+                            className="h-8 flex-1 min-w-40 px-2 rounded-md border border-input bg-background text-sm"
+                          >
+                            <option value="">Skip this row</option>
+                            {match.candidates.length > 0 && (
+                              <optgroup label="Suggested">
+                                {match.candidates.map(candidate => (
+                                  <option key={candidate.id} value={candidate.id}>
+                                    {candidate.label} ({Math.round(candidate.confidence * 100)}%)
+                                  </option>
+                                ))}
+                              </optgroup>
+                            )}
+                            <optgroup label="All eligible students">
+                              {preview.students.map(student => (
+                                <option key={student.id} value={student.id}>{student.name}</option>
+                              ))}
+                            </optgroup>
+                          </select>
+                          <span className="w-36 text-right">
+                            {rowError ? (
+                              <span className="text-xs text-red-600">{row.rawScore || '—'}: {rowError}</span>
+                            ) : entry?.change === 'new' ? (
+                              <Badge className="bg-green-100 text-green-800">New {entry.score}</Badge>
+                            ) : entry?.change === 'changed' ? (
+                              <Badge className="bg-blue-100 text-blue-800">{entry.previousScore} → {entry.score}</Badge>
+                            ) : selected && !duplicate ? (
+                              <span className="text-xs text-gray-500">Unchanged ({row.score})</span>
+                            ) : (
+                              <span className="text-xs text-gray-400">{row.rawScore}</span>
+                            )}
+                          </span>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+
+                {/* Summary & warnings */}
+                <div className="text-sm text-gray-600">
+                  {newCount} new • {changedCount} changed • {plan.unchangedCount} unchanged
+                </div>
+                {(plan.duplicateStudentIds.length > 0 || plan.invalidRows.length > 0 || unresolvedRows > 0) && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 space-y-1">
+                    {plan.duplicateStudentIds.map(id => (
+                      <p key={id} className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        {studentName(id)} is matched to more than one row; those rows are skipped.
+                      </p>
+                    ))}
+                    {plan.invalidRows.length > 0 && (
+                      <p>{plan.invalidRows.length} row(s) have an invalid score and will be skipped.</p>
+                    )}
+                    {unresolvedRows > 0 && <p>{unresolvedRows} row(s) have no student and will be skipped.</p>}
+                  </div>
+                )}
+              </>
+            )}
+
+            {/* Actions */}
+            <div className="flex justify-end gap-3">
+              <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button onClick={handleCommit} disabled={isSubmitting || !plan || plan.entries.length === 0}>
+                {isSubmitting ? 'Importing...' : `Save ${plan?.entries.length ?? 0} Score(s)`}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,265 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { Printer, Shuffle } from 'lucide-react'
+import { formatDateUTC } from '@/lib/utils'
+import { DEFAULT_SEATS_PER_ROW, MAX_SEATS_PER_ROW, escapeHtml, seatLabel, type SeatingFlag } from '@/lib/exam-seating'
+
+interface SeatingStudent {
+  id: string
+  name: string
+  email: string
+  seat: { row: number; seat: number } | null
+  flags: SeatingFlag[]
+}
+
+interface SeatingRoster {
+  exam: { id: string; examDate: string; examSection: { displayName: string } }
+  students: SeatingStudent[]
+}
+
+const bySeat = (a: SeatingStudent, b: SeatingStudent) =>
+  a.seat!.row - b.seat!.row || a.seat!.seat - b.seat!.seat
+
+function openPrintWindow(title: string, body: string) {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${escapeHtml(title)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; padding: 20px; }
+        h1 { font-size: 20px; margin-bottom: 4px; }
+        h2 { font-size: 14px; color: #666; margin-top: 0; }
+        h3 { font-size: 14px; margin-top: 24px; }
+        table { border-collapse: collapse; width: 100%; margin-top: 16px; }
+        th { background: #f5f5f5; padding: 10px; border: 1px solid #ddd; text-align: left; font-size: 13px; }
+        td { padding: 10px 8px; border: 1px solid #ddd; font-size: 13px; }
+        td.signature { width: 40%; }
+        .note { color: #b45309; font-size: 12px; }
+        .grid td { text-align: center; height: 48px; width: 1%; }
+        .grid .label { font-weight: bold; font-size: 11px; color: #666; display: block; }
+        @media print { body { padding: 0; } tr { page-break-inside: avoid; } }
+      </style>
+    </head>
+    <body>${body}</body>
+    </html>
+  `
+
+  const win = window.open('', '_blank')
+  if (win) {
+    win.document.write(html)
+    win.document.close()
+    win.focus()
+    win.print()
+  }
+}
+
+/**
+ * Random seating chart and printable sign-in sheet for an in-person exam.
+ * Students flagged as async or expected absent are listed but not seated.
+ */
+export function ExamSeatingPanel({ examId, canEdit }: { examId: string; canEdit: boolean }) {
+  const [roster, setRoster] = useState<SeatingRoster | null>(null)
+  const [seatsPerRow, setSeatsPerRow] = useState(String(DEFAULT_SEATS_PER_ROW))
+  const [generating, setGenerating] = useState(false)
+
+  const fetchRoster = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/exams/${examId}/seating`)
+      if (res.ok) {
+        const data: SeatingRoster = await res.json()
+        setRoster(data)
+        const widest = Math.max(0, ...data.students.map(s => s.seat?.seat ?? 0))
+        if (widest > 0) setSeatsPerRow(String(widest))
+      }
+    } catch (error) {
+      console.error('Failed to fetch seating:', error)
+    }
+  }, [examId])
+
+  useEffect(() => {
+    fetchRoster()
+  }, [fetchRoster])
+
+  const generate = async () => {
+    const perRow = parseInt(seatsPerRow)
+    if (isNaN(perRow) || perRow < 1 || perRow > MAX_SEATS_PER_ROW) {
+      toast.error(`Seats per row must be from 1 to ${MAX_SEATS_PER_ROW}`)
+      return
+    }
+    if (roster?.students.some(s => s.seat) && !confirm('Replace the current seating chart?')) return
+
+    setGenerating(true)
+    try {
+      const res = await fetch(`/api/exams/${examId}/seating`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ seatsPerRow: perRow }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to generate seating')
+        return
+      }
+      setRoster(data)
+      toast.success('Seating chart generated')
+    } catch (error) {
+      console.error('Failed to generate seating:', error)
+      toast.error('Failed to generate seating')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  if (!roster) {
+    return <div className="py-12 text-center text-sm text-gray-500">Loading seating...</div>
+  }
+
+  const seated = roster.students.filter(s => s.seat).sort(bySeat)
+  const flagged = roster.students.filter(s => s.flags.length > 0)
+  const unseated = roster.students.filter(s => !s.seat && s.flags.length === 0)
+  const rows = Array.from(new Set(seated.map(s => s.seat!.row)))
+  const title = `${roster.exam.examSection.displayName} Exam`
+  const date = formatDateUTC(roster.exam.examDate, { month: 'long', day: 'numeric', year: 'numeric' })
+  const flagNote = (student: SeatingStudent) =>
+    student.flags.map(f => escapeHtml(f.label)).join('; ')
+
+  const printSignInSheet = () => {
+    const row = (student: SeatingStudent, seat: string, note = '') =>
+      `<tr>
+        <td>${seat}</td>
+        <td>${escapeHtml(student.name)}${note ? `<div class="note">${note}</div>` : ''}</td>
+        <td class="signature"></td>
+        <td></td>
+      </tr>`
+    const rosterRows = [
+      ...seated.map(s => row(s, seatLabel(s.seat!.row, s.seat!.seat), flagNote(s))),
+      ...unseated.map(s => row(s, '—')),
+    ].join('')
+    const flaggedRows = flagged.filter(s => !s.seat).map(s => row(s, '—', flagNote(s))).join('')
+
+    openPrintWindow(`${title} Sign-in Sheet`, `
+      <h1>${escapeHtml(title)} — Sign-in Sheet</h1>
+      <h2>${date}</h2>
+      <table>
+        <thead><tr><th>Seat</th><th>Student</th><th>Signature</th><th>Time In</th></tr></thead>
+        <tbody>${rosterRows}</tbody>
+      </table>
+      ${flaggedRows ? `
+        <h3>Not Expected in the Room</h3>
+        <table>
+          <thead><tr><th>Seat</th><th>Student</th><th>Signature</th><th>Time In</th></tr></thead>
+          <tbody>${flaggedRows}</tbody>
+        </table>` : ''}
+    `)
+  }
+
+  const printSeatingChart = () => {
+    const perRow = Math.max(0, ...seated.map(s => s.seat!.seat))
+    const grid = rows.map(r => {
+      const cells = Array.from({ length: perRow }, (_, index) => {
+        const student = seated.find(s => s.seat!.row === r && s.seat!.seat === index + 1)
+        return `<td><span class="label">${seatLabel(r, index + 1)}</span>${student ? escapeHtml(student.name) : ''}</td>`
+      }).join('')
+      return `<tr>${cells}</tr>`
+    }).join('')
+
+    openPrintWindow(`${title} Seating Chart`, `
+      <h1>${escapeHtml(title)} — Seating Chart</h1>
+      <h2>${date} • Front of the room at the top</h2>
+      <table class="grid"><tbody>${grid}</tbody></table>
+    `)
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Seating &amp; Sign-in</CardTitle>
+          <CardDescription>
+            {seated.length} seated • {flagged.length} flagged • {roster.students.length} eligible
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-2">
+          {canEdit && (
+            <>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                Seats per row
+                <Input
+                  type="number"
+                  min={1}
+                  max={MAX_SEATS_PER_ROW}
+                  value={seatsPerRow}
+                  onChange={(e) => setSeatsPerRow(e.target.value)}
+                  className="w-20 h-9"
+                />
+              </label>
+              <Button size="sm" onClick={generate} disabled={generating} className="gap-1">
+                <Shuffle className="h-4 w-4" />
+                {generating ? 'Generating...' : seated.length > 0 ? 'Reshuffle' : 'Generate Seating'}
+              </Button>
+            </>
+          )}
+          <div className="ml-auto flex gap-2">
+            <Button size="sm" variant="outline" onClick={printSeatingChart} disabled={seated.length === 0} className="gap-1">
+              <Printer className="h-4 w-4" />
+              Seating Chart
+            </Button>
+            <Button size="sm" variant="outline" onClick={printSignInSheet} disabled={roster.students.length === 0} className="gap-1">
+              <Printer className="h-4 w-4" />
+              Sign-in Sheet
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {seated.length > 0 && (
+        <Card>
+          <CardContent className="p-4 overflow-x-auto">
+            <div className="text-xs text-gray-500 text-center mb-2">Front of the room</div>
+            <div className="space-y-2">
+              {rows.map(r => (
+                <div key={r} className="flex gap-2">
+                  {seated.filter(s => s.seat!.row === r).map(student => (
+                    <div key={student.id} className="w-28 shrink-0 rounded border p-2 text-center">
+                      <div className="text-xs font-semibold text-gray-500">{seatLabel(r, student.seat!.seat)}</div>
+                      <div className="text-sm truncate" title={student.name}>{student.name}</div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {(flagged.length > 0 || unseated.length > 0) && (
+        <Card>
+          <CardContent className="p-4 space-y-2">
+            {flagged.map(student => (
+              <div key={student.id} className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{student.name}</span>
+                {student.flags.map(flag => (
+                  <Badge key={flag.label} variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                    {flag.label}
+                  </Badge>
+                ))}
+              </div>
+            ))}
+            {unseated.length > 0 && (
+              <div className="text-sm text-gray-600">
+                Not seated yet: {unseated.map(s => s.name).join(', ')}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
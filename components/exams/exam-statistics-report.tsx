@@ -0,0 +1,260 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+import type { QuestionAnalysis, ScoreStatistics, StatisticsYearLevel } from '@/lib/exam-statistics'
+
+interface ExamStatisticsResponse {
+  statistics: ScoreStatistics
+  rawStatistics: ScoreStatistics | null
+  byYearLevel: Record<StatisticsYearLevel, ScoreStatistics>
+  questions: QuestionAnalysis[]
+}
+
+interface SectionStatisticsResponse {
+  section: { id: string; displayName: string; passingScore: number }
+  years: Array<{
+    academicYearId: string
+    name: string
+    examCount: number
+    statistics: ScoreStatistics
+    byYearLevel: Record<StatisticsYearLevel, ScoreStatistics>
+  }>
+}
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`)
+
+function StatTile({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="rounded-lg border p-3">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-lg font-semibold">{value}</div>
+      {detail && <div className="text-xs text-gray-500">{detail}</div>}
+    </div>
+  )
+}
+
+function YearLevelRow({ label, stats }: { label: string; stats: ScoreStatistics }) {
+  return (
+    <tr className="border-b last:border-0">
+      <td className="p-2 font-medium">{label}</td>
+      <td className="p-2 text-center">{stats.count}</td>
+      <td className="p-2 text-center">{formatPercent(stats.mean)}</td>
+      <td className="p-2 text-center">{formatPercent(stats.median)}</td>
+      <td className="p-2 text-center">{stats.standardDeviation === null ? '—' : stats.standardDeviation.toFixed(1)}</td>
+      <td className="p-2 text-center">{formatPercent(stats.passRate)}</td>
+    </tr>
+  )
+}
+
+function topResponse(question: QuestionAnalysis): string {
+  const entries = Object.entries(question.responseCounts).sort((a, b) => b[1] - a[1])
+  return entries.length > 0 ? `${entries[0][0]} (${entries[0][1]})` : '—'
+}
+
+/**
+ * Statistics for one exam (distribution, median, spread, pass rate and the
+ * Year 1 vs Year 2 split) plus how its section compares across academic years.
+ */
+export function ExamStatisticsReport({ examId, sectionId }: { examId: string; sectionId: string }) {
+  const [examStats, setExamStats] = useState<ExamStatisticsResponse | null>(null)
+  const [sectionStats, setSectionStats] = useState<SectionStatisticsResponse | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchStatistics = async () => {
+      setLoading(true)
+      try {
+        const [examRes, sectionRes] = await Promise.all([
+          fetch(`/api/exams/${examId}/statistics`),
+          fetch(`/api/exam-sections/${sectionId}/statistics`),
+        ])
+        if (examRes.ok) setExamStats(await examRes.json())
+        if (sectionRes.ok) setSectionStats(await sectionRes.json())
+      } catch (error) {
+        console.error('Failed to fetch exam statistics:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchStatistics()
+  }, [examId, sectionId])
+
+  if (loading) {
+    return <div className="py-12 text-center text-sm text-gray-500">Loading statistics...</div>
+  }
+
+  if (!examStats) {
+    return <div className="py-12 text-center text-sm text-gray-500">Statistics are not available</div>
+  }
+
+  const { statistics: stats, rawStatistics, byYearLevel } = examStats
+  const yearOverYear = (sectionStats?.years ?? []).map(year => ({
+    name: year.name,
+    mean: year.statistics.mean === null ? null : Math.round(year.statistics.mean * 10) / 10,
+    median: year.statistics.median === null ? null : Math.round(year.statistics.median * 10) / 10,
+    passRate: year.statistics.passRate === null ? null : Math.round(year.statistics.passRate * 10) / 10,
+  }))
+
+  return (
+    <div className="space-y-4">
+      {stats.count === 0 ? (
+        <Card>
+          <CardContent className="p-6 text-center text-sm text-gray-500">
+            No scores entered for this exam yet
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-5">
+            <StatTile label="Scores" value={String(stats.count)} />
+            <StatTile
+              label="Mean"
+              value={formatPercent(stats.mean)}
+              detail={rawStatistics ? `Raw ${formatPercent(rawStatistics.mean)}` : undefined}
+            />
+            <StatTile label="Median" value={formatPercent(stats.median)} />
+            <StatTile
+              label="Std Deviation"
+              value={stats.standardDeviation === null ? '—' : stats.standardDeviation.toFixed(1)}
+              detail={`Range ${formatPercent(stats.min)} – ${formatPercent(stats.max)}`}
+            />
+            <StatTile
+              label={`Pass Rate (${stats.passingScore}%+)`}
+              value={formatPercent(stats.passRate)}
+              detail={`${stats.passCount} of ${stats.count}${rawStatistics ? ` • raw ${formatPercent(rawStatistics.passRate)}` : ''}`}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Score Distribution</CardTitle>
+              <CardDescription>Number of students in each 10-point band</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={stats.histogram} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="label" stroke="#6b7280" fontSize={11} tickMargin={6} />
+                    <YAxis allowDecimals={false} stroke="#6b7280" fontSize={11} />
+                    <Tooltip contentStyle={{ borderRadius: 6, border: '1px solid #e5e7eb' }} />
+                    <Bar dataKey="count" fill="#7c1d3f" name="Students" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          {examStats.questions.some(q => q.gradedCount > 0) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Item Analysis</CardTitle>
+                <CardDescription>Share of each question&apos;s points earned in online attempts</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead className="border-b text-gray-600">
+                    <tr>
+                      <th className="text-left p-2 font-medium w-10">#</th>
+                      <th className="text-left p-2 font-medium">Question</th>
+                      <th className="text-center p-2 font-medium">Answers</th>
+                      <th className="text-center p-2 font-medium">Earned</th>
+                      <th className="text-left p-2 font-medium">Most Picked</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {examStats.questions.map(question => (
+                      <tr key={question.questionId} className="border-b last:border-0">
+                        <td className="p-2 text-gray-500">{question.order}</td>
+                        <td className="p-2 max-w-xs truncate" title={question.prompt}>{question.prompt}</td>
+                        <td className="p-2 text-center">{question.gradedCount}</td>
+                        <td className={`p-2 text-center font-medium ${question.difficulty !== null && question.difficulty < 50 ? 'text-red-600' : ''}`}>
+                          {formatPercent(question.difficulty)}
+                        </td>
+                        <td className="p-2 text-gray-600">{topResponse(question)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Year 1 vs Year 2</CardTitle>
+              <CardDescription>By the year each student was in when they sat the exam</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead className="border-b text-gray-600">
+                  <tr>
+                    <th className="text-left p-2 font-medium">Year</th>
+                    <th className="text-center p-2 font-medium">Scores</th>
+                    <th className="text-center p-2 font-medium">Mean</th>
+                    <th className="text-center p-2 font-medium">Median</th>
+                    <th className="text-center p-2 font-medium">Std Dev</th>
+                    <th className="text-center p-2 font-medium">Pass Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <YearLevelRow label="Year 1" stats={byYearLevel.YEAR_1} />
+                  <YearLevelRow label="Year 2" stats={byYearLevel.YEAR_2} />
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {sectionStats && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{sectionStats.section.displayName} Across Years</CardTitle>
+            <CardDescription>Effective scores on every exam of this section, per academic year</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {yearOverYear.some(y => y.mean !== null) ? (
+              <div className="h-64 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={yearOverYear} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="name" stroke="#6b7280" fontSize={11} tickMargin={6} />
+                    <YAxis domain={[0, 100]} stroke="#6b7280" fontSize={11} tickFormatter={v => `${v}%`} />
+                    <Tooltip
+                      formatter={(value) => (typeof value === 'number' ? `${value.toFixed(1)}%` : '—')}
+                      contentStyle={{ borderRadius: 6, border: '1px solid #e5e7eb' }}
+                    />
+                    <ReferenceLine y={sectionStats.section.passingScore} stroke="#ef4444" strokeDasharray="4 4" />
+                    <Legend />
+                    <Line type="monotone" dataKey="mean" stroke="#7c1d3f" strokeWidth={2} dot={{ r: 3 }} connectNulls name="Mean" />
+                    <Line type="monotone" dataKey="median" stroke="#7c3aed" strokeWidth={2} dot={{ r: 3 }} connectNulls name="Median" />
+                    <Line type="monotone" dataKey="passRate" stroke="#16a34a" strokeWidth={2} dot={{ r: 3 }} connectNulls name="Pass Rate" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <div className="h-32 flex items-center justify-center text-sm text-gray-500">
+                No scores for this section yet
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
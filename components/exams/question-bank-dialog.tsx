@@ -0,0 +1,315 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { Archive, ArchiveRestore, Shuffle } from 'lucide-react'
+import { formatDateUTC } from '@/lib/utils'
+import {
+  QUESTION_DIFFICULTY_LABELS,
+  QUESTION_TYPE_LABELS,
+  type ExamQuestion,
+  type QuestionDifficulty,
+} from './types'
+
+interface BankQuestion extends Omit<ExamQuestion, 'order' | 'bankQuestionId'> {
+  difficulty: QuestionDifficulty
+  isArchived: boolean
+  lesson: { id: string; title: string; lessonNumber: number } | null
+  usedInExamIds: string[]
+  stats: {
+    timesUsed: number
+    lastUsedAt: string | null
+    responseCount: number
+    averagePercent: number | null
+  }
+}
+
+interface SectionLesson {
+  id: string
+  title: string
+  lessonNumber: number
+  academicYear: { name: string }
+}
+
+const selectClassName = 'h-9 px-2 rounded-md border border-input bg-background text-sm dark:bg-gray-800 dark:text-white dark:border-gray-600'
+
+const DIFFICULTY_CLASSES: Record<QuestionDifficulty, string> = {
+  EASY: 'bg-green-50 text-green-700 border-green-200',
+  MEDIUM: 'bg-amber-50 text-amber-700 border-amber-200',
+  HARD: 'bg-red-50 text-red-700 border-red-200',
+}
+
+function describeStats({ stats }: BankQuestion) {
+  if (stats.timesUsed === 0) return 'Never used'
+  const parts = [
+    `Used on ${stats.timesUsed} exam(s)`,
+    stats.lastUsedAt && `last ${formatDateUTC(stats.lastUsedAt, { month: 'short', year: 'numeric' })}`,
+    stats.averagePercent !== null && `avg ${stats.averagePercent}% over ${stats.responseCount} answer(s)`,
+  ]
+  return parts.filter(Boolean).join(' • ')
+}
+
+/**
+ * The exam section's question bank: tag questions by lesson and difficulty,
+ * see how they performed in earlier years, and add them to this exam by
+ * picking or sampling at random.
+ */
+export function QuestionBankDialog({
+  exam,
+  open,
+  onOpenChange,
+  canEdit,
+  onAdded,
+}: {
+  exam: { id: string; examSection: { id: string; displayName: string } }
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  canEdit: boolean
+  onAdded: (count: number) => void
+}) {
+  const [questions, setQuestions] = useState<BankQuestion[]>([])
+  const [lessons, setLessons] = useState<SectionLesson[]>([])
+  const [loading, setLoading] = useState(true)
+  const [lessonFilter, setLessonFilter] = useState('')
+  const [difficultyFilter, setDifficultyFilter] = useState('')
+  const [showArchived, setShowArchived] = useState(false)
+  const [selected, setSelected] = useState<string[]>([])
+  const [sampleCount, setSampleCount] = useState('5')
+  const [adding, setAdding] = useState(false)
+
+  const fetchQuestions = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ examSectionId: exam.examSection.id })
+      if (showArchived) params.set('includeArchived', 'true')
+      const res = await fetch(`/api/question-bank?${params.toString()}`)
+      if (res.ok) setQuestions(await res.json())
+    } catch (error) {
+      console.error('Failed to fetch question bank:', error)
+      toast.error('Failed to load the question bank')
+    } finally {
+      setLoading(false)
+    }
+  }, [exam.examSection.id, showArchived])
+
+  useEffect(() => {
+    if (open) fetchQuestions()
+  }, [open, fetchQuestions])
+
+  useEffect(() => {
+    if (!open) return
+    fetch(`/api/lessons?examSectionId=${exam.examSection.id}`)
+      .then(res => (res.ok ? res.json() : []))
+      .then(setLessons)
+      .catch(error => console.error('Failed to fetch lessons:', error))
+  }, [open, exam.examSection.id])
+
+  const visible = questions.filter(q =>
+    (!lessonFilter || q.lesson?.id === lessonFilter) &&
+    (!difficultyFilter || q.difficulty === difficultyFilter)
+  )
+  const isOnExam = (question: BankQuestion) => question.usedInExamIds.includes(exam.id)
+
+  const updateQuestion = async (id: string, changes: Record<string, unknown>) => {
+    try {
+      const res = await fetch(`/api/question-bank/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to update question')
+        return
+      }
+      await fetchQuestions()
+    } catch (error) {
+      console.error('Failed to update bank question:', error)
+      toast.error('Failed to update question')
+    }
+  }
+
+  const addQuestions = async (body: Record<string, unknown>) => {
+    setAdding(true)
+    try {
+      const res = await fetch(`/api/exams/${exam.id}/questions/from-bank`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to add questions')
+        return
+      }
+      toast.success(`Added ${data.length} question(s) to the exam`)
+      setSelected([])
+      onAdded(data.length)
+      await fetchQuestions()
+    } catch (error) {
+      console.error('Failed to add bank questions:', error)
+      toast.error('Failed to add questions')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const addRandom = () => {
+    const count = parseInt(sampleCount, 10)
+    if (isNaN(count) || count < 1) {
+      toast.error('Enter how many questions to add')
+      return
+    }
+    addQuestions({
+      count,
+      lessonId: lessonFilter || undefined,
+      difficulty: difficultyFilter || undefined,
+    })
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{exam.examSection.displayName} Question Bank</DialogTitle>
+          <DialogDescription>
+            Questions added to the exam are copied, so later edits to the bank don&apos;t change it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={lessonFilter} onChange={(e) => setLessonFilter(e.target.value)} className={selectClassName}>
+            <option value="">All lessons</option>
+            {lessons.map(lesson => (
+              <option key={lesson.id} value={lesson.id}>
+                {lesson.academicYear.name} • {lesson.lessonNumber}. {lesson.title}
+              </option>
+            ))}
+          </select>
+          <select value={difficultyFilter} onChange={(e) => setDifficultyFilter(e.target.value)} className={selectClassName}>
+            <option value="">Any difficulty</option>
+            {Object.entries(QUESTION_DIFFICULTY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} className="h-4 w-4" />
+            Show archived
+          </label>
+        </div>
+
+        {canEdit && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border bg-gray-50 p-3">
+            <Button size="sm" onClick={() => addQuestions({ questionIds: selected })} disabled={adding || selected.length === 0}>
+              Add Selected ({selected.length})
+            </Button>
+            <span className="text-sm text-gray-500 mx-2">or</span>
+            <Input
+              type="number"
+              min={1}
+              value={sampleCount}
+              onChange={(e) => setSampleCount(e.target.value)}
+              className="w-20 h-9"
+            />
+            <Button size="sm" variant="outline" onClick={addRandom} disabled={adding} className="gap-1">
+              <Shuffle className="h-4 w-4" />
+              Add Random
+            </Button>
+            <span className="text-xs text-gray-500">from the filtered questions</span>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {loading ? (
+            <div className="py-6 text-center text-sm text-gray-500">Loading question bank...</div>
+          ) : visible.length === 0 ? (
+            <div className="py-6 text-center text-sm text-gray-500">
+              No bank questions match. Save an exam&apos;s questions to the bank to reuse them.
+            </div>
+          ) : (
+            visible.map(question => (
+              <div key={question.id} className={`rounded border p-3 space-y-2 ${question.isArchived ? 'opacity-60' : ''}`}>
+                <div className="flex items-start gap-3">
+                  {canEdit && (
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(question.id)}
+                      onChange={() => toggleSelected(question.id)}
+                      disabled={question.isArchived || isOnExam(question)}
+                      className="h-4 w-4 mt-1"
+                    />
+                  )}
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{QUESTION_TYPE_LABELS[question.type]}</Badge>
+                      <Badge variant="outline" className={DIFFICULTY_CLASSES[question.difficulty]}>
+                        {QUESTION_DIFFICULTY_LABELS[question.difficulty]}
+                      </Badge>
+                      <span className="text-xs text-gray-500">{question.points} pt(s)</span>
+                      {isOnExam(question) && <Badge variant="secondary">On this exam</Badge>}
+                      {question.isArchived && <Badge variant="secondary">Archived</Badge>}
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap">{question.prompt}</p>
+                    {question.type === 'MULTIPLE_CHOICE' && (
+                      <ul className="text-xs space-y-0.5">
+                        {question.options.map((option, i) => (
+                          <li key={i} className={question.answerKey?.includes(String(i)) ? 'text-green-700 font-medium' : 'text-gray-600'}>
+                            {String.fromCharCode(65 + i)}. {option}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <p className="text-xs text-gray-500">{describeStats(question)}</p>
+                  </div>
+                </div>
+
+                {canEdit && (
+                  <div className="flex flex-wrap items-center gap-2 pl-7">
+                    <select
+                      value={question.lesson?.id ?? ''}
+                      onChange={(e) => updateQuestion(question.id, { lessonId: e.target.value || null })}
+                      className={`${selectClassName} max-w-64`}
+                    >
+                      <option value="">No lesson</option>
+                      {lessons.map(lesson => (
+                        <option key={lesson.id} value={lesson.id}>
+                          {lesson.academicYear.name} • {lesson.lessonNumber}. {lesson.title}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={question.difficulty}
+                      onChange={(e) => updateQuestion(question.id, { difficulty: e.target.value })}
+                      className={selectClassName}
+                    >
+                      {Object.entries(QUESTION_DIFFICULTY_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateQuestion(question.id, { isArchived: !question.isArchived })}
+                      className="gap-1 ml-auto"
+                    >
+                      {question.isArchived
+                        ? <><ArchiveRestore className="h-4 w-4" /> Restore</>
+                        : <><Archive className="h-4 w-4" /> Archive</>}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,29 @@
+export type ExamQuestionType = 'MULTIPLE_CHOICE' | 'TRUE_FALSE' | 'SHORT_ANSWER' | 'ESSAY'
+
+export interface ExamQuestion {
+  id: string
+  order: number
+  type: ExamQuestionType
+  prompt: string
+  options: string[]
+  // Omitted when sent to students
+  answerKey?: string[]
+  points: number
+  // Set when the question came from (or was saved to) the question bank
+  bankQuestionId?: string | null
+}
+
+export const QUESTION_TYPE_LABELS: Record<ExamQuestionType, string> = {
+  MULTIPLE_CHOICE: 'Multiple choice',
+  TRUE_FALSE: 'True / false',
+  SHORT_ANSWER: 'Short answer',
+  ESSAY: 'Essay',
+}
+
+export type QuestionDifficulty = 'EASY' | 'MEDIUM' | 'HARD'
+
+export const QUESTION_DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  EASY: 'Easy',
+  MEDIUM: 'Medium',
+  HARD: 'Hard',
+}
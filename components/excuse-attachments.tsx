@@ -0,0 +1,119 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { Paperclip, Upload, X } from 'lucide-react'
+
+export interface ExcuseAttachmentItem {
+  id: string
+  url: string
+  filename: string
+  contentType: string
+  size: number
+}
+
+interface ExcuseAttachmentsProps {
+  attachments: ExcuseAttachmentItem[]
+  // POST endpoint for new files; omit to render the list read-only
+  uploadUrl?: string
+  canDelete?: boolean
+  onChange?: (attachments: ExcuseAttachmentItem[]) => void
+}
+
+/**
+ * Links to the documentation attached to an excused absence, with optional
+ * upload and remove controls.
+ */
+export function ExcuseAttachments({ attachments, uploadUrl, canDelete, onChange }: ExcuseAttachmentsProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [uploading, setUploading] = useState(false)
+
+  const upload = async (file: File) => {
+    if (!uploadUrl) return
+    setUploading(true)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const res = await fetch(uploadUrl, { method: 'POST', body: formData })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to upload file')
+      }
+      toast.success('Document attached')
+      onChange?.([...attachments, data])
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload file')
+    } finally {
+      setUploading(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const remove = async (attachment: ExcuseAttachmentItem) => {
+    if (!confirm(`Remove ${attachment.filename}?`)) return
+    try {
+      const res = await fetch(`/api/excuse-attachments/${attachment.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to remove file')
+      }
+      onChange?.(attachments.filter(a => a.id !== attachment.id))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove file')
+    }
+  }
+
+  if (attachments.length === 0 && !uploadUrl) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-1">
+      {attachments.map((attachment) => (
+        <span key={attachment.id} className="inline-flex items-center gap-1 text-[11px] bg-white border rounded px-1.5 py-0.5 max-w-[180px]">
+          <Paperclip className="h-3 w-3 shrink-0 text-gray-500" />
+          <a
+            href={`/api/excuse-attachments/${attachment.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="truncate text-maroon-700 hover:underline"
+            title={attachment.filename}
+          >
+            {attachment.filename}
+          </a>
+          {canDelete && (
+            <button
+              type="button"
+              onClick={() => remove(attachment)}
+              className="text-gray-400 hover:text-red-600"
+              title="Remove"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+      {uploadUrl && (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/gif,application/pdf"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) upload(file)
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploading}
+            className="inline-flex items-center gap-1 text-[11px] text-gray-500 hover:text-maroon-700 disabled:opacity-50"
+          >
+            <Upload className="h-3 w-3" />
+            {uploading ? 'Uploading...' : 'Attach proof'}
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
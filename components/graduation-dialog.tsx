@@ -8,6 +8,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
 import { toast } from 'sonner'
 import { GraduationCap, CheckCircle, AlertTriangle, XCircle } from 'lucide-react'
+import { DEFAULT_ATTENDANCE_POLICY, type AttendancePolicy } from '@/lib/attendance-policy'
 
 interface StudentAnalytics {
   studentId: string
@@ -39,6 +40,8 @@ interface GraduationDialogProps {
   onOpenChange: (open: boolean) => void
   selectedStudents: Student[]
   analytics: StudentAnalytics[]
+  // Attendance policy of the year being graduated (defaults to the standard rules)
+  policy?: AttendancePolicy
   onGraduate: (enrollmentIds: string[], graduationNote?: string) => Promise<void>
 }
 
@@ -47,6 +50,7 @@ export function GraduationDialog({
   onOpenChange,
   selectedStudents,
   analytics,
+  policy = DEFAULT_ATTENDANCE_POLICY,
   onGraduate
 }: GraduationDialogProps) {
   const [exceptionNote, setExceptionNote] = useState('')
@@ -67,7 +71,7 @@ export function GraduationDialog({
         const issues: string[] = []
         if (studentAnalytics) {
           if (!studentAnalytics.attendanceMet) {
-            issues.push(`Attendance: ${studentAnalytics.attendancePercentage?.toFixed(1) ?? 'N/A'}% (need 75%)`)
+            issues.push(`Attendance: ${studentAnalytics.attendancePercentage?.toFixed(1) ?? 'N/A'}% (need ${policy.requiredPercentage}%)`)
           }
           if (!studentAnalytics.examAverageMet) {
             issues.push(`Exam average: ${studentAnalytics.examAverage?.toFixed(1) ?? 'N/A'}% (need 75%)`)
@@ -76,7 +80,7 @@ export function GraduationDialog({
             issues.push('One or more sections below 60%')
           }
           if (studentAnalytics.sundaySchoolMet === false) {
-            issues.push('Sunday School attendance below 75%')
+            issues.push(`Sunday School attendance below ${policy.sundaySchoolRequiredPercentage}%`)
           }
         } else {
           issues.push('No analytics data available')
@@ -86,7 +90,7 @@ export function GraduationDialog({
     }
 
     return { eligible, exceptions }
-  }, [selectedStudents, analytics])
+  }, [selectedStudents, analytics, policy])
 
   const hasExceptions = categorizedStudents.exceptions.length > 0
   const canSubmit = !hasExceptions || (confirmException && exceptionNote.trim().length > 0)
@@ -0,0 +1,250 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { toast } from 'sonner'
+import { CalendarPlus, ChevronLeft, ChevronRight, Copy, RefreshCw } from 'lucide-react'
+import { formatDateUTC } from '@/lib/utils'
+
+interface CalendarEvent {
+  uid: string
+  kind: 'LESSON' | 'EXAM' | 'SUNDAY_SCHOOL'
+  title: string
+  date: string
+  startTime: string | null
+  status: 'SCHEDULED' | 'CANCELLED' | 'NO_CLASS' | 'COMPLETED'
+  isExamDay: boolean
+  description: string | null
+}
+
+type CalendarView = 'month' | 'week'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const KIND_CLASSES: Record<CalendarEvent['kind'], string> = {
+  LESSON: 'bg-blue-50 text-blue-800 border-blue-200',
+  EXAM: 'bg-maroon-50 text-maroon-800 border-maroon-200',
+  SUNDAY_SCHOOL: 'bg-green-50 text-green-800 border-green-200',
+}
+
+function toDayKey(date: Date) {
+  return date.toISOString().slice(0, 10)
+}
+
+function todayKey() {
+  const now = new Date()
+  return toDayKey(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())))
+}
+
+/** The days shown: whole Sunday-to-Saturday weeks covering the month, or the anchor's week */
+function visibleDays(anchor: Date, view: CalendarView): Date[] {
+  const first = view === 'month'
+    ? new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth(), 1))
+    : anchor
+  const start = new Date(first.getTime() - first.getUTCDay() * DAY_MS)
+
+  let count = 7
+  if (view === 'month') {
+    const last = new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() + 1, 0))
+    const end = new Date(last.getTime() + (6 - last.getUTCDay()) * DAY_MS)
+    count = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1
+  }
+  return Array.from({ length: count }, (_, i) => new Date(start.getTime() + i * DAY_MS))
+}
+
+function shiftAnchor(anchor: Date, view: CalendarView, direction: number) {
+  if (view === 'week') return new Date(anchor.getTime() + direction * 7 * DAY_MS)
+  return new Date(Date.UTC(anchor.getUTCFullYear(), anchor.getUTCMonth() + direction, 1))
+}
+
+function EventChip({ event, detailed }: { event: CalendarEvent; detailed: boolean }) {
+  const cancelled = event.status === 'CANCELLED' || event.status === 'NO_CLASS'
+  return (
+    <div
+      title={[event.title, event.description].filter(Boolean).join('\n')}
+      className={`rounded border px-1.5 py-0.5 text-xs ${cancelled ? 'bg-gray-50 text-gray-400 border-gray-200 line-through' : KIND_CLASSES[event.kind]}`}
+    >
+      <div className="truncate">
+        {event.startTime && <span className="font-medium mr-1">{event.startTime}</span>}
+        {event.title}
+      </div>
+      {detailed && event.description && (
+        <div className="mt-0.5 whitespace-pre-wrap text-[11px] opacity-80">{event.description}</div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Month and week calendar of lessons, exams and Sunday School weeks, with
+ * the user's subscribable calendar feed.
+ */
+export default function LessonCalendar() {
+  const [view, setView] = useState<CalendarView>('month')
+  const [anchor, setAnchor] = useState(() => new Date(`${todayKey()}T00:00:00.000Z`))
+  const [events, setEvents] = useState<CalendarEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [feedOpen, setFeedOpen] = useState(false)
+  const [feedUrl, setFeedUrl] = useState('')
+
+  const days = visibleDays(anchor, view)
+  const from = toDayKey(days[0])
+  const to = toDayKey(days[days.length - 1])
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/calendar?from=${from}&to=${to}`)
+      if (res.ok) setEvents(await res.json())
+    } catch (error) {
+      console.error('Failed to fetch calendar:', error)
+      toast.error('Failed to load the calendar')
+    } finally {
+      setLoading(false)
+    }
+  }, [from, to])
+
+  useEffect(() => {
+    fetchEvents()
+  }, [fetchEvents])
+
+  useEffect(() => {
+    if (!feedOpen || feedUrl) return
+    fetch('/api/calendar/feed')
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => data && setFeedUrl(data.url))
+      .catch(error => console.error('Failed to fetch calendar feed:', error))
+  }, [feedOpen, feedUrl])
+
+  const copyFeedUrl = () => {
+    navigator.clipboard.writeText(feedUrl)
+    toast.success('Feed link copied to clipboard')
+  }
+
+  const resetFeedUrl = async () => {
+    if (!confirm('Calendars subscribed to the current link will stop updating. Create a new link?')) return
+    try {
+      const res = await fetch('/api/calendar/feed', { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to reset the feed link')
+        return
+      }
+      setFeedUrl(data.url)
+      toast.success('New feed link created')
+    } catch (error) {
+      console.error('Failed to reset calendar feed:', error)
+      toast.error('Failed to reset the feed link')
+    }
+  }
+
+  const eventsByDay = new Map<string, CalendarEvent[]>()
+  for (const event of events) {
+    eventsByDay.set(event.date, [...(eventsByDay.get(event.date) ?? []), event])
+  }
+
+  const today = todayKey()
+  const currentMonth = anchor.getUTCMonth()
+  const heading = view === 'month'
+    ? formatDateUTC(anchor, { month: 'long', year: 'numeric' })
+    : `${formatDateUTC(days[0], { month: 'short', day: 'numeric' })} – ${formatDateUTC(days[6], { month: 'short', day: 'numeric', year: 'numeric' })}`
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => setAnchor(shiftAnchor(anchor, view, -1))} aria-label="Previous">
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setAnchor(new Date(`${today}T00:00:00.000Z`))}>
+          Today
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setAnchor(shiftAnchor(anchor, view, 1))} aria-label="Next">
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <h2 className="text-lg font-semibold ml-2">{heading}</h2>
+        <div className="ml-auto flex items-center gap-2">
+          <div className="flex rounded-md border">
+            {(['month', 'week'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`px-3 py-1 text-sm capitalize ${view === option ? 'bg-maroon-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setFeedOpen(true)} className="gap-1">
+            <CalendarPlus className="h-4 w-4" />
+            Subscribe
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="grid grid-cols-7 border-b bg-gray-50 text-xs font-medium text-gray-500">
+            {WEEKDAYS.map(day => (
+              <div key={day} className="p-2 text-center">{day}</div>
+            ))}
+          </div>
+          <div className={`grid grid-cols-7 ${loading ? 'opacity-60' : ''}`}>
+            {days.map(day => {
+              const key = toDayKey(day)
+              const dayEvents = eventsByDay.get(key) ?? []
+              const outsideMonth = view === 'month' && day.getUTCMonth() !== currentMonth
+              return (
+                <div
+                  key={key}
+                  className={`border-b border-r p-1 space-y-1 ${view === 'week' ? 'min-h-48' : 'min-h-24'} ${outsideMonth ? 'bg-gray-50' : ''}`}
+                >
+                  <div className={`text-xs text-right ${key === today ? 'font-bold text-maroon-600' : outsideMonth ? 'text-gray-400' : 'text-gray-600'}`}>
+                    {view === 'week' ? formatDateUTC(day, { month: 'short', day: 'numeric' }) : day.getUTCDate()}
+                  </div>
+                  {dayEvents.map(event => (
+                    <EventChip key={event.uid} event={event} detailed={view === 'week'} />
+                  ))}
+                </div>
+              )
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className={`h-3 w-3 rounded border ${KIND_CLASSES.LESSON}`} /> Lesson</span>
+        <span className="flex items-center gap-1"><span className={`h-3 w-3 rounded border ${KIND_CLASSES.EXAM}`} /> Exam</span>
+        <span className="flex items-center gap-1"><span className={`h-3 w-3 rounded border ${KIND_CLASSES.SUNDAY_SCHOOL}`} /> Sunday School</span>
+        <span className="line-through">Cancelled / no class</span>
+      </div>
+
+      <Dialog open={feedOpen} onOpenChange={setFeedOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Subscribe to Your Calendar</DialogTitle>
+            <DialogDescription>
+              Add this link to Google Calendar, Apple Calendar or Outlook as a calendar subscription.
+              Cancellations and exam days update automatically. Anyone with the link can see your calendar.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={feedUrl || 'Loading...'} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+            <Button variant="outline" size="sm" onClick={copyFeedUrl} disabled={!feedUrl} className="gap-1">
+              <Copy className="h-4 w-4" />
+              Copy
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={resetFeedUrl} disabled={!feedUrl} className="gap-1 self-start">
+            <RefreshCw className="h-4 w-4" />
+            Reset link
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { upload as uploadToBlob } from '@vercel/blob/client'
+import { FileAudio, FileText, History, Presentation, Upload, X } from 'lucide-react'
+import { formatSize } from '@/lib/drive'
+import { formatDateUTC } from '@/lib/utils'
+
+export interface LessonResourceFile {
+  id: string
+  title: string
+  type?: string | null
+  filename?: string | null
+  size?: number | null
+  version?: number
+}
+
+interface ResourceVersion {
+  id: string
+  version: number
+  filename: string
+  size: number
+  createdAt: string
+  uploader: { id: string; name: string } | null
+}
+
+const ACCEPT = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  '.ppt',
+  '.pptx',
+  '.doc',
+  '.docx',
+  'audio/*',
+].join(',')
+
+function FileIcon({ type }: { type?: string | null }) {
+  if (type === 'audio') return <FileAudio className="h-4 w-4 shrink-0 text-gray-500" />
+  if (type === 'slides') return <Presentation className="h-4 w-4 shrink-0 text-gray-500" />
+  return <FileText className="h-4 w-4 shrink-0 text-gray-500" />
+}
+
+/**
+ * A lesson's uploaded files (slides, PDFs, audio) with upload, new-version,
+ * history and remove controls. Links are edited elsewhere; `resources` may
+ * include them and only the files are shown.
+ */
+export function LessonResourceFiles({
+  lessonId,
+  resources,
+  canUpload = true,
+  onChanged,
+}: {
+  lessonId: string
+  resources: LessonResourceFile[]
+  canUpload?: boolean
+  onChanged: () => void
+}) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [uploading, setUploading] = useState(false)
+  // The file resource the next picked file becomes a new version of; null uploads a new file
+  const [versionOf, setVersionOf] = useState<string | null>(null)
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+  const [versions, setVersions] = useState<ResourceVersion[]>([])
+
+  const files = resources.filter(r => r.filename)
+
+  const pick = (resourceId: string | null) => {
+    setVersionOf(resourceId)
+    inputRef.current?.click()
+  }
+
+  // With Blob storage the file goes straight to Blob and is registered by URL,
+  // so recordings aren't held to the server's request size limit
+  const send = async (url: string, file: File) => {
+    const config: { clientUploads: boolean; maxSize: number } = await fetch('/api/lesson-resources/upload').then(res => res.json())
+    if (file.size > config.maxSize) {
+      throw new Error(`File size exceeds ${Math.round(config.maxSize / 1024 / 1024)} MB limit`)
+    }
+    if (!config.clientUploads) {
+      const formData = new FormData()
+      formData.append('file', file)
+      return fetch(url, { method: 'POST', body: formData })
+    }
+
+    const blob = await uploadToBlob(`lesson-resources/${lessonId}/${file.name}`, file, {
+      access: 'private',
+      contentType: file.type,
+      handleUploadUrl: '/api/lesson-resources/upload',
+      clientPayload: JSON.stringify({ lessonId }),
+      multipart: file.size > 10 * 1024 * 1024,
+    })
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: blob.url, filename: file.name }),
+    })
+  }
+
+  const upload = async (file: File) => {
+    setUploading(true)
+    try {
+      const url = versionOf
+        ? `/api/lesson-resources/${versionOf}/versions`
+        : `/api/lessons/${lessonId}/resources`
+      const res = await send(url, file)
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to upload file')
+      }
+      toast.success(versionOf ? `Version ${data.version} uploaded` : 'File uploaded')
+      if (historyFor === versionOf) setHistoryFor(null)
+      onChanged()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload file')
+    } finally {
+      setUploading(false)
+      setVersionOf(null)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const toggleHistory = async (resourceId: string) => {
+    if (historyFor === resourceId) {
+      setHistoryFor(null)
+      return
+    }
+    try {
+      const res = await fetch(`/api/lesson-resources/${resourceId}/versions`)
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load versions')
+      }
+      setVersions(data)
+      setHistoryFor(resourceId)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load versions')
+    }
+  }
+
+  const remove = async (resource: LessonResourceFile) => {
+    if (!confirm(`Remove ${resource.title} and all its versions?`)) return
+    try {
+      const res = await fetch(`/api/lesson-resources/${resource.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to remove file')
+      }
+      onChanged()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove file')
+    }
+  }
+
+  if (files.length === 0 && !canUpload) return null
+
+  return (
+    <div className="space-y-1.5">
+      {files.map(resource => (
+        <div key={resource.id}>
+          <div className="flex items-center gap-2 text-sm">
+            <FileIcon type={resource.type} />
+            <a
+              href={`/api/lesson-resources/${resource.id}/open`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="truncate text-maroon-700 hover:underline"
+              title={resource.filename ?? undefined}
+            >
+              {resource.title}
+            </a>
+            <span className="text-xs text-gray-500 shrink-0">
+              {resource.version && resource.version > 1 ? `v${resource.version} · ` : ''}
+              {formatSize(resource.size ? String(resource.size) : undefined)}
+            </span>
+            {canUpload && (
+              <span className="ml-auto flex items-center gap-1 shrink-0">
+                <button
+                  type="button"
+                  onClick={() => pick(resource.id)}
+                  disabled={uploading}
+                  className="text-gray-400 hover:text-maroon-700 disabled:opacity-50"
+                  title="Upload a new version"
+                >
+                  <Upload className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => toggleHistory(resource.id)}
+                  className="text-gray-400 hover:text-maroon-700"
+                  title="Earlier versions"
+                >
+                  <History className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(resource)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </span>
+            )}
+          </div>
+          {historyFor === resource.id && (
+            <ul className="ml-6 mt-1 space-y-0.5 text-xs text-gray-500">
+              {versions.map(version => (
+                <li key={version.id}>
+                  <a
+                    href={`/api/lesson-resources/${resource.id}/open?version=${version.version}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="hover:underline"
+                  >
+                    v{version.version} · {version.filename}
+                  </a>
+                  {' '}· {formatDateUTC(version.createdAt, { month: 'short', day: 'numeric', year: 'numeric' })}
+                  {version.uploader && ` · ${version.uploader.name}`}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+      {canUpload && (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) upload(file)
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => pick(null)}
+            disabled={uploading}
+            className="inline-flex items-center gap-1 text-xs text-gray-500 hover:text-maroon-700 disabled:opacity-50"
+          >
+            <Upload className="h-3 w-3" />
+            {uploading ? 'Uploading...' : 'Upload slides, PDF or audio'}
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -56,6 +56,8 @@ export function Navbar() {
       const links: NavLink[] = [
         { href: '/dashboard/student', label: 'My Progress' },
         { href: '/dashboard/student/lessons', label: 'My Lessons' },
+        { href: '/dashboard/student/exams', label: 'My Exams' },
+        { href: '/dashboard/calendar', label: 'Calendar' },
         { href: '/dashboard/files', label: 'Files' },
       ]
       if (session.user.isAsyncStudent) {
@@ -70,6 +72,8 @@ export function Navbar() {
         primary: [
           { href: '/dashboard/mentor', label: 'Dashboard' },
           { href: '/dashboard/mentor/my-mentees', label: 'My Mentees' },
+          { href: '/dashboard/calendar', label: 'Calendar' },
+          { href: '/dashboard/speaker', label: 'Speaking' },
           { href: '/dashboard/files', label: 'Files' },
         ],
         more: []
@@ -86,6 +90,9 @@ export function Navbar() {
 
     const more: NavLink[] = [
       { href: '/dashboard/admin/curriculum', label: 'Curriculum' },
+      { href: '/dashboard/calendar', label: 'Calendar' },
+      { href: '/dashboard/admin/speakers', label: 'Speakers' },
+      { href: '/dashboard/speaker', label: 'Speaking' },
       { href: '/dashboard/admin/mentees', label: 'Mentees' },
       { href: '/dashboard/files', label: 'Files' },
     ]
@@ -18,7 +18,10 @@ import {
   Megaphone,
   ShieldAlert,
   FileText,
+  Plane,
   Star,
+  TriangleAlert,
+  Mic,
 } from 'lucide-react'
 import { formatDistanceToNow } from '@/lib/format-date'
 import useSWR from 'swr'
@@ -44,6 +47,8 @@ const fetcher = (url: string) => fetch(url).then((r) => r.json())
 function getNotificationMeta(type: string): { icon: React.ElementType; color: string } {
   switch (type) {
     case 'GRADE_POSTED':
+    case 'REGRADE_REQUESTED':
+    case 'REGRADE_REVIEWED':
       return { icon: Star, color: 'text-yellow-600 bg-yellow-100 dark:bg-yellow-900/40' }
     case 'ATTENDANCE_RECORDED':
       return { icon: Calendar, color: 'text-blue-600 bg-blue-100 dark:bg-blue-900/40' }
@@ -51,6 +56,10 @@ function getNotificationMeta(type: string): { icon: React.ElementType; color: st
       return { icon: BookOpen, color: 'text-green-600 bg-green-100 dark:bg-green-900/40' }
     case 'LESSON_CANCELLED':
       return { icon: CalendarX, color: 'text-red-600 bg-red-100 dark:bg-red-900/40' }
+    case 'SPEAKER_REQUESTED':
+    case 'SPEAKER_REMINDER':
+    case 'SPEAKER_RESPONDED':
+      return { icon: Mic, color: 'text-sky-600 bg-sky-100 dark:bg-sky-900/40' }
     case 'REGISTRATION_RECEIVED':
       return { icon: ClipboardList, color: 'text-purple-600 bg-purple-100 dark:bg-purple-900/40' }
     case 'REGISTRATION_APPROVED':
@@ -64,7 +73,13 @@ function getNotificationMeta(type: string): { icon: React.ElementType; color: st
     case 'ANNOUNCEMENT':
       return { icon: Megaphone, color: 'text-orange-600 bg-orange-100 dark:bg-orange-900/40' }
     case 'CONDUCT_REMOVAL':
+    case 'CONDUCT_ESCALATED':
       return { icon: ShieldAlert, color: 'text-red-600 bg-red-100 dark:bg-red-900/40' }
+    case 'ATTENDANCE_RISK':
+      return { icon: TriangleAlert, color: 'text-amber-600 bg-amber-100 dark:bg-amber-900/40' }
+    case 'ABSENCE_REQUEST_RECEIVED':
+    case 'ABSENCE_REQUEST_REVIEWED':
+      return { icon: Plane, color: 'text-sky-600 bg-sky-100 dark:bg-sky-900/40' }
     default:
       return { icon: Bell, color: 'text-gray-500 bg-gray-100 dark:bg-gray-800' }
   }
@@ -0,0 +1,182 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { ExcuseAttachments, type ExcuseAttachmentItem } from '@/components/excuse-attachments'
+import { formatAbsenceRange, type ExpectedAbsenceStatusValue } from '@/lib/expected-absence-utils'
+import { toast } from 'sonner'
+import { Plane, Plus, Trash2 } from 'lucide-react'
+
+interface PlannedAbsence {
+  id: string
+  startDate: string
+  endDate: string
+  reason: string
+  status: ExpectedAbsenceStatusValue
+  reviewNote: string | null
+  reviewer?: { id: string; name: string } | null
+  attachments?: ExcuseAttachmentItem[]
+}
+
+const STATUS_BADGES: Record<ExpectedAbsenceStatusValue, { label: string; className: string }> = {
+  PENDING: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  APPROVED: { label: 'Approved', className: 'bg-green-100 text-green-800 border-green-200' },
+  REJECTED: { label: 'Rejected', className: 'bg-red-100 text-red-800 border-red-200' },
+}
+
+/**
+ * Lets a student request a planned absence and follow its review. Approved
+ * absences excuse every lesson in the date range.
+ */
+export function PlannedAbsencesCard({ studentId }: { studentId: string }) {
+  const [absences, setAbsences] = useState<PlannedAbsence[]>([])
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [reason, setReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const fetchAbsences = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/students/${studentId}/expected-absences`)
+      if (res.ok) {
+        const data = await res.json()
+        setAbsences(Array.isArray(data) ? data : [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch planned absences:', error)
+    }
+  }, [studentId])
+
+  useEffect(() => {
+    fetchAbsences()
+  }, [fetchAbsences])
+
+  const submitRequest = async () => {
+    if (!startDate || !endDate || !reason.trim()) return
+    setSubmitting(true)
+    try {
+      const res = await fetch(`/api/students/${studentId}/expected-absences`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startDate, endDate, reason: reason.trim() })
+      })
+      if (res.ok) {
+        toast.success('Absence request submitted', { description: 'You will be notified once it is reviewed.' })
+        setStartDate('')
+        setEndDate('')
+        setReason('')
+        await fetchAbsences()
+      } else {
+        const data = await res.json()
+        toast.error(data.error || 'Failed to submit absence request')
+      }
+    } catch (error) {
+      console.error('Failed to submit absence request:', error)
+      toast.error('Failed to submit absence request')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const withdrawRequest = async (id: string) => {
+    if (!confirm('Withdraw this absence request?')) return
+    try {
+      const res = await fetch(`/api/expected-absences/${id}`, { method: 'DELETE' })
+      if (res.ok) {
+        toast.success('Absence request withdrawn')
+        await fetchAbsences()
+      } else {
+        const data = await res.json()
+        toast.error(data.error || 'Failed to withdraw request')
+      }
+    } catch (error) {
+      console.error('Failed to withdraw absence request:', error)
+      toast.error('Failed to withdraw request')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Plane className="h-5 w-5 text-maroon-600" />
+          Planned Absences
+        </CardTitle>
+        <CardDescription>
+          Let us know ahead of time if you will miss lessons (e.g. travel). Once approved, lessons in the range are excused.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <div>
+            <label className="text-xs text-gray-500">From</label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="mt-1" />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500">To</label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="mt-1" />
+          </div>
+        </div>
+        <Textarea
+          placeholder="Reason (e.g. Family trip)"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+        />
+        <Button
+          size="sm"
+          onClick={submitRequest}
+          disabled={submitting || !startDate || !endDate || !reason.trim()}
+          className="gap-1"
+        >
+          <Plus className="h-4 w-4" />
+          {submitting ? 'Submitting...' : 'Request Absence'}
+        </Button>
+
+        {absences.length > 0 && (
+          <div className="space-y-2 pt-2">
+            {absences.map((absence) => {
+              const badge = STATUS_BADGES[absence.status]
+              return (
+                <div key={absence.id} className="flex items-start justify-between gap-2 p-3 rounded border bg-gray-50">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{formatAbsenceRange(absence.startDate, absence.endDate)}</span>
+                      <Badge variant="outline" className={badge.className}>{badge.label}</Badge>
+                    </div>
+                    <div className="text-xs text-gray-600 break-words">{absence.reason}</div>
+                    {absence.reviewNote && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {absence.reviewer ? `${absence.reviewer.name}: ` : ''}{absence.reviewNote}
+                      </div>
+                    )}
+                    <ExcuseAttachments
+                      attachments={absence.attachments || []}
+                      uploadUrl={absence.status === 'PENDING' ? `/api/expected-absences/${absence.id}/attachments` : undefined}
+                      canDelete={absence.status === 'PENDING'}
+                      onChange={(attachments) => setAbsences(prev => prev.map(a => a.id === absence.id ? { ...a, attachments } : a))}
+                    />
+                  </div>
+                  {absence.status === 'PENDING' && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => withdrawRequest(absence.id)}
+                      className="h-7 w-7 p-0 text-red-600 hover:text-red-700 shrink-0"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,276 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { LessonResourceFiles, type LessonResourceFile } from '@/components/lesson-resource-files'
+import { toast } from 'sonner'
+import { Check, ExternalLink, Mic, Plus, X } from 'lucide-react'
+import { formatDateUTC } from '@/lib/utils'
+
+type SpeakerStatus = 'PENDING' | 'CONFIRMED' | 'DECLINED'
+
+interface PortalLesson {
+  id: string
+  title: string
+  subtitle: string | null
+  description: string | null
+  scheduledDate: string
+  startTime: string | null
+  status: 'SCHEDULED' | 'COMPLETED' | 'CANCELLED' | 'NO_CLASS'
+  speakerStatus: SpeakerStatus | null
+  examSection: { displayName: string }
+  academicYear: { name: string; defaultLessonStartTime: string | null }
+  resources: (LessonResourceFile & { url: string })[]
+  canRespond: boolean // Still scheduled and not yet given
+  canAttach: boolean // Resources can go up before or after the lesson
+}
+
+interface PortalData {
+  speaker: { id: string; name: string; isActive: boolean } | null
+  lessons: PortalLesson[]
+}
+
+const STATUS_BADGES: Record<SpeakerStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Awaiting your reply', className: 'bg-amber-100 text-amber-800' },
+  CONFIRMED: { label: 'Confirmed', className: 'bg-green-100 text-green-800' },
+  DECLINED: { label: 'Declined', className: 'bg-red-100 text-red-800' },
+}
+
+function LessonCard({ lesson, onChanged }: { lesson: PortalLesson; onChanged: () => void }) {
+  const [responding, setResponding] = useState(false)
+  const [resourceTitle, setResourceTitle] = useState('')
+  const [resourceUrl, setResourceUrl] = useState('')
+  const [adding, setAdding] = useState(false)
+
+  const open = lesson.canRespond
+  const links = lesson.resources.filter(r => !r.filename)
+  const startTime = lesson.startTime || lesson.academicYear.defaultLessonStartTime
+  const badge = lesson.speakerStatus ? STATUS_BADGES[lesson.speakerStatus] : null
+
+  const respond = async (status: 'CONFIRMED' | 'DECLINED') => {
+    const note = status === 'DECLINED' ? prompt('Let the organizers know why (optional):') : null
+    if (note === null && status === 'DECLINED') return
+    setResponding(true)
+    try {
+      const res = await fetch(`/api/speaker-portal/lessons/${lesson.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, note }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to send your reply')
+        return
+      }
+      toast.success(status === 'CONFIRMED' ? 'Thanks for confirming' : 'The organizers have been told')
+      onChanged()
+    } catch (error) {
+      console.error('Failed to respond:', error)
+      toast.error('Failed to send your reply')
+    } finally {
+      setResponding(false)
+    }
+  }
+
+  const addResource = async () => {
+    if (!resourceTitle.trim() || !resourceUrl.trim()) {
+      toast.error('A title and link are required')
+      return
+    }
+    setAdding(true)
+    try {
+      const res = await fetch(`/api/speaker-portal/lessons/${lesson.id}/resources`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: resourceTitle, url: resourceUrl }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to add the resource')
+        return
+      }
+      setResourceTitle('')
+      setResourceUrl('')
+      toast.success('Resource added')
+      onChanged()
+    } catch (error) {
+      console.error('Failed to add resource:', error)
+      toast.error('Failed to add the resource')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  return (
+    <Card className={lesson.canAttach ? '' : 'opacity-60'}>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">{lesson.title}</CardTitle>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {formatDateUTC(lesson.scheduledDate, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+              {startTime && ` at ${startTime}`} · {lesson.examSection.displayName} · {lesson.academicYear.name}
+            </p>
+          </div>
+          {open ? (
+            badge && <Badge className={badge.className}>{badge.label}</Badge>
+          ) : lesson.canAttach ? (
+            <Badge variant="outline">Past lesson</Badge>
+          ) : (
+            <Badge variant="outline">{lesson.status === 'CANCELLED' ? 'Cancelled' : 'No class'}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lesson.subtitle && <p className="text-sm font-medium">{lesson.subtitle}</p>}
+        {lesson.description && (
+          <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap">{lesson.description}</p>
+        )}
+
+        {open && (
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => respond('CONFIRMED')}
+              disabled={responding || lesson.speakerStatus === 'CONFIRMED'}
+              className="gap-1"
+            >
+              <Check className="h-4 w-4" />
+              Confirm
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => respond('DECLINED')}
+              disabled={responding || lesson.speakerStatus === 'DECLINED'}
+              className="gap-1"
+            >
+              <X className="h-4 w-4" />
+              Decline
+            </Button>
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-sm font-medium mb-2">Resources</h3>
+          {lesson.resources.length === 0 && (
+            <p className="text-sm text-amber-700 dark:text-amber-400 mb-2">
+              {open
+                ? 'No resources yet. Add your slides, handouts or readings so students can prepare.'
+                : 'No resources yet. You can still share your slides or a recording.'}
+            </p>
+          )}
+          {links.length > 0 && (
+            <ul className="space-y-1 mb-2">
+              {links.map(resource => (
+                <li key={resource.id}>
+                  <a
+                    href={resource.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-maroon-600 hover:underline inline-flex items-center gap-1"
+                  >
+                    {resource.title}
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+          <LessonResourceFiles
+            lessonId={lesson.id}
+            resources={lesson.resources}
+            canUpload={lesson.canAttach}
+            onChanged={onChanged}
+          />
+          {lesson.canAttach && (
+            <div className="flex flex-col sm:flex-row gap-2 mt-3">
+              <Input
+                value={resourceTitle}
+                onChange={(e) => setResourceTitle(e.target.value)}
+                placeholder="Title"
+                className="h-8 text-sm sm:flex-1"
+              />
+              <Input
+                value={resourceUrl}
+                onChange={(e) => setResourceUrl(e.target.value)}
+                placeholder="https://..."
+                className="h-8 text-sm sm:flex-[2]"
+              />
+              <Button size="sm" variant="outline" onClick={addResource} disabled={adding} className="gap-1">
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * The speaker portal: a speaker's upcoming and recent lessons, where they
+ * confirm or decline and upload or link the resources students need.
+ */
+export default function SpeakerPortal() {
+  const [data, setData] = useState<PortalData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchPortal = useCallback(async () => {
+    try {
+      const res = await fetch('/api/speaker-portal')
+      if (res.ok) setData(await res.json())
+    } catch (error) {
+      console.error('Failed to fetch speaker portal:', error)
+      toast.error('Failed to load your lessons')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPortal()
+  }, [fetchPortal])
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading...</p>
+  }
+
+  if (!data?.speaker) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-gray-500">
+          <Mic className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+          Your account isn&apos;t linked to a speaker profile. Ask a curriculum organizer to link it.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const pending = data.lessons.filter(l => l.canRespond && l.speakerStatus === 'PENDING').length
+
+  return (
+    <div className="space-y-4">
+      {pending > 0 && (
+        <p className="text-sm text-amber-700 dark:text-amber-400">
+          {pending} lesson{pending !== 1 ? 's are' : ' is'} waiting for your reply.
+        </p>
+      )}
+      {data.lessons.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            You have no upcoming or recent lessons.
+          </CardContent>
+        </Card>
+      ) : (
+        data.lessons.map(lesson => (
+          <LessonCard key={lesson.id} lesson={lesson} onChanged={fetchPortal} />
+        ))
+      )}
+    </div>
+  )
+}
@@ -8,13 +8,18 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
+import { ExcuseAttachments, type ExcuseAttachmentItem } from '@/components/excuse-attachments'
+import { ConductIncidentsPanel } from '@/components/conduct-incidents-panel'
 import { Card, CardContent } from '@/components/ui/card'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { toast } from 'sonner'
-import { Edit, Check, X, Trash2, Send, Camera, Plane, Plus, CalendarClock } from 'lucide-react'
+import { Edit, Check, X, Trash2, Send, Camera, Plane, Plus, CalendarClock, ArrowRight } from 'lucide-react'
 import { UserRole } from '@prisma/client'
 import { getRoleDisplayName, isAdmin, canManageUsers, canManageData } from '@/lib/roles'
 import { formatDateUTC } from '@/lib/utils'
+import { DEFAULT_ATTENDANCE_POLICY, type AttendancePolicy } from '@/lib/attendance-policy'
+import { calculateAttendancePercentage, countAttendanceStatuses } from '@/lib/attendance-utils'
+import { resolveEffectiveScores, SITTING_TYPE_LABELS, RETAKE_POLICY_LABELS } from '@/lib/exam-retakes'
 
 interface StudentNote {
   id: string
@@ -30,6 +35,7 @@ interface StudentNote {
 
 interface ExamScore {
   id: string
+  studentId: string
   score: number
   percentage: number
   notes?: string
@@ -37,11 +43,17 @@ interface ExamScore {
     id: string
     examDate: string | Date
     totalPoints: number
+    sittingType: 'REGULAR' | 'MAKEUP' | 'RETAKE'
+    originalExamId: string | null
+    academicYear: {
+      examRetakePolicy: 'HIGHEST' | 'LATEST' | 'CAPPED_AT_PASSING'
+    }
     examSection: {
       id: string
       name: string
       displayName: string
       yearLevel: string
+      passingScore: number
     }
   }
   grader?: {
@@ -59,6 +71,7 @@ interface AttendanceRecord {
   conductNote?: string
   notEnrolledYet?: boolean
   expectedAbsenceId?: string | null
+  attachments?: ExcuseAttachmentItem[]
   lesson: {
     id: string
     title: string
@@ -137,7 +150,48 @@ interface ExpectedAbsence {
   startDate: string
   endDate: string
   reason: string
+  status: 'PENDING' | 'APPROVED' | 'REJECTED'
+  reviewNote: string | null
   creator?: { id: string; name: string } | null
+  reviewer?: { id: string; name: string } | null
+  attachments?: ExcuseAttachmentItem[]
+}
+
+type AttendanceStatusValue = 'PRESENT' | 'LATE' | 'ABSENT' | 'EXCUSED'
+
+interface AttendanceHistoryEntry {
+  id: string
+  action: 'CREATED' | 'UPDATED' | 'DELETED'
+  source: 'BATCH' | 'MANUAL_EDIT' | 'SELF_CHECK_IN' | 'LESSON_RESET' | 'EXPECTED_ABSENCE' | 'LATE_START' | 'BACKFILL' | 'IMPORT'
+  previousStatus: AttendanceStatusValue | null
+  newStatus: AttendanceStatusValue | null
+  previousNotes: string | null
+  newNotes: string | null
+  previousConductRemoval: boolean | null
+  newConductRemoval: boolean | null
+  previousConductNote: string | null
+  newConductNote: string | null
+  changedAt: string
+  lesson: { id: string; title: string; lessonNumber: number; scheduledDate: string }
+  actor: { id: string; name: string } | null
+}
+
+const HISTORY_SOURCE_LABELS: Record<AttendanceHistoryEntry['source'], string> = {
+  BATCH: 'Attendance page',
+  MANUAL_EDIT: 'Record edit',
+  SELF_CHECK_IN: 'Self check-in',
+  LESSON_RESET: 'Lesson reset',
+  EXPECTED_ABSENCE: 'Expected absence',
+  LATE_START: 'Attendance start date',
+  BACKFILL: 'Enrollment backfill',
+  IMPORT: 'Spreadsheet import',
+}
+
+const STATUS_BADGE_CLASSES: Record<AttendanceStatusValue, string> = {
+  PRESENT: 'bg-green-100 text-green-800',
+  LATE: 'bg-yellow-100 text-yellow-800',
+  ABSENT: 'bg-red-100 text-red-800',
+  EXCUSED: 'bg-blue-100 text-blue-800',
 }
 
 interface StudentDetailsModalProps {
@@ -156,6 +210,7 @@ interface StudentDetailsModalProps {
   attendanceRecords: AttendanceRecord[]
   allExams?: Exam[]
   allLessons?: Lesson[]
+  policy?: AttendancePolicy
   loading: boolean
   onClose: () => void
   onRefresh: () => void
@@ -176,6 +231,7 @@ export function StudentDetailsModal({
   examScores,
   attendanceRecords,
   allExams = [],
+  policy = DEFAULT_ATTENDANCE_POLICY,
   loading,
   onClose,
   onRefresh
@@ -212,6 +268,10 @@ export function StudentDetailsModal({
   const [asyncNotes, setAsyncNotes] = useState<AsyncNoteSubmission[]>([])
   const [asyncNotesLoading, setAsyncNotesLoading] = useState(false)
 
+  // Attendance history state
+  const [attendanceHistory, setAttendanceHistory] = useState<AttendanceHistoryEntry[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+
   // Expected absences state
   const [expectedAbsences, setExpectedAbsences] = useState<ExpectedAbsence[]>([])
   const [eaStart, setEaStart] = useState('')
@@ -238,6 +298,16 @@ export function StudentDetailsModal({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [studentId, isAsyncStudent])
 
+  // Reload the change log whenever attendance is refreshed (edits, absences, start date)
+  useEffect(() => {
+    if (studentId) {
+      fetchAttendanceHistory()
+    } else {
+      setAttendanceHistory([])
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [studentId, attendanceRecords])
+
   // Sync the late-start date input with the current enrollment value
   useEffect(() => {
     setStartDateInput(attendanceStartDate ? new Date(attendanceStartDate).toISOString().slice(0, 10) : '')
@@ -264,6 +334,22 @@ export function StudentDetailsModal({
     }
   }
 
+  const fetchAttendanceHistory = async () => {
+    if (!studentId) return
+    setHistoryLoading(true)
+    try {
+      const res = await fetch(`/api/students/${studentId}/attendance-history`)
+      if (res.ok) {
+        const data = await res.json()
+        setAttendanceHistory(Array.isArray(data) ? data : [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch attendance history:', error)
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
   const fetchAsyncNotes = async () => {
     if (!studentId) return
     setAsyncNotesLoading(true)
@@ -603,9 +689,15 @@ export function StudentDetailsModal({
     setEditingAttendanceId(null)
   }
 
+  // One effective score per exam: makeups and retakes resolved by the year's retake policy
+  const effectiveScores = resolveEffectiveScores(examScores)
+  const effectiveByScoreId = new Map(
+    effectiveScores.flatMap(e => e.sittings.map(s => [s.id, e] as const))
+  )
+
   // Calculate average score
-  const avgScore = examScores.length > 0
-    ? examScores.reduce((sum, s) => sum + s.percentage, 0) / examScores.length
+  const avgScore = effectiveScores.length > 0
+    ? effectiveScores.reduce((sum, s) => sum + s.percentage, 0) / effectiveScores.length
     : 0
 
   // Group scores by section (using displayName for better readability)
@@ -618,7 +710,7 @@ export function StudentDetailsModal({
 
   // Find missing exams (past exams student hasn't taken - exclude future exams)
   const now = new Date()
-  const takenExamIds = new Set(examScores.map(s => s.exam.id))
+  const takenExamIds = new Set(effectiveScores.map(s => s.originalExamId))
   const missingExams = allExams.filter(exam =>
     !takenExamIds.has(exam.id) && new Date(exam.examDate) < now
   )
@@ -634,7 +726,8 @@ export function StudentDetailsModal({
     r.lesson.examSection.yearLevel === 'YEAR_2'
   )
 
-  // Calculate attendance stats using Formula A: (Present + Late/2) / (Total - Excused) * 100
+  // Attendance rates follow the academic year's policy:
+  // (Present + Late * lateWeight) / (Total - Excused) * 100
   const presentCount = countableAttendance.filter(r => r.status === 'PRESENT').length
   const lateCount = countableAttendance.filter(r => r.status === 'LATE').length
   const absentCount = countableAttendance.filter(r => r.status === 'ABSENT').length
@@ -643,10 +736,7 @@ export function StudentDetailsModal({
   // student joined — show them as N/A rather than a regular excuse.
   const naCount = countableAttendance.filter(r => r.notEnrolledYet).length
   const regularExcusedCount = excusedCount - naCount
-  const effectiveTotal = countableAttendance.length - excusedCount
-  const attendanceRate = effectiveTotal > 0
-    ? ((presentCount + (lateCount / 2)) / effectiveTotal) * 100
-    : 0
+  const attendanceRate = calculateAttendancePercentage(countAttendanceStatuses(countableAttendance, policy), policy) ?? 0
 
   // Year 1 attendance stats
   const year1Present = year1Attendance.filter(r => r.status === 'PRESENT').length
@@ -655,10 +745,7 @@ export function StudentDetailsModal({
   const year1Excused = year1Attendance.filter(r => r.status === 'EXCUSED').length
   const year1Na = year1Attendance.filter(r => r.notEnrolledYet).length
   const year1RegularExcused = year1Excused - year1Na
-  const year1EffectiveTotal = year1Attendance.length - year1Excused
-  const year1Rate = year1EffectiveTotal > 0
-    ? ((year1Present + (year1Late / 2)) / year1EffectiveTotal) * 100
-    : 0
+  const year1Rate = calculateAttendancePercentage(countAttendanceStatuses(year1Attendance, policy), policy) ?? 0
 
   // Year 2 attendance stats
   const year2Present = year2Attendance.filter(r => r.status === 'PRESENT').length
@@ -667,10 +754,7 @@ export function StudentDetailsModal({
   const year2Excused = year2Attendance.filter(r => r.status === 'EXCUSED').length
   const year2Na = year2Attendance.filter(r => r.notEnrolledYet).length
   const year2RegularExcused = year2Excused - year2Na
-  const year2EffectiveTotal = year2Attendance.length - year2Excused
-  const year2Rate = year2EffectiveTotal > 0
-    ? ((year2Present + (year2Late / 2)) / year2EffectiveTotal) * 100
-    : 0
+  const year2Rate = calculateAttendancePercentage(countAttendanceStatuses(year2Attendance, policy), policy) ?? 0
 
   return (
     <Dialog open={!!studentId} onOpenChange={(open) => !open && onClose()}>
@@ -695,11 +779,13 @@ export function StudentDetailsModal({
           <div className="py-8 text-center text-gray-500">Loading...</div>
         ) : (
           <Tabs defaultValue="profile" className="w-full">
-            <TabsList className={`grid w-full ${isAsyncStudent ? 'grid-cols-5' : 'grid-cols-4'}`}>
+            <TabsList className={`grid w-full ${isAsyncStudent ? 'grid-cols-7' : 'grid-cols-6'}`}>
               <TabsTrigger value="profile">Profile</TabsTrigger>
               <TabsTrigger value="notes">Notes</TabsTrigger>
               <TabsTrigger value="scores">Exams</TabsTrigger>
               <TabsTrigger value="attendance">Attendance</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+              <TabsTrigger value="conduct">Conduct</TabsTrigger>
               {isAsyncStudent && <TabsTrigger value="async-notes">Lesson Notes</TabsTrigger>}
             </TabsList>
 
@@ -1002,7 +1088,7 @@ export function StudentDetailsModal({
                     </div>
                     <div>
                       <div className="text-sm text-gray-500">Exams Taken</div>
-                      <div className="text-2xl font-bold">{examScores.length}</div>
+                      <div className="text-2xl font-bold">{effectiveScores.length}</div>
                     </div>
                   </div>
                 </CardContent>
@@ -1018,12 +1104,34 @@ export function StudentDetailsModal({
                       <CardContent className="pt-4">
                         <h3 className="font-semibold mb-3">{section}</h3>
                         <div className="space-y-2">
-                          {scores.map((score) => (
+                          {scores.map((score) => {
+                            const effective = effectiveByScoreId.get(score.id)
+                            const multipleSittings = !!effective && effective.sittings.length > 1
+                            return (
                             <div key={score.id} className="p-2 bg-gray-50 rounded">
                               <div className="flex items-center justify-between">
                                 <div className="flex-1">
-                                  <div className="font-medium text-sm">
+                                  <div className="font-medium text-sm flex flex-wrap items-center gap-2">
                                     {score.exam.examSection.displayName} Exam
+                                    {score.exam.sittingType !== 'REGULAR' && (
+                                      <Badge variant="outline" className="text-xs">
+                                        {SITTING_TYPE_LABELS[score.exam.sittingType]}
+                                      </Badge>
+                                    )}
+                                    {multipleSittings && (
+                                      effective.counted.id === score.id ? (
+                                        <Badge
+                                          className="text-xs bg-green-100 text-green-800"
+                                          title={RETAKE_POLICY_LABELS[effective.policy]}
+                                        >
+                                          Counts{effective.capped && ` (capped at ${effective.percentage}%)`}
+                                        </Badge>
+                                      ) : (
+                                        <Badge variant="outline" className="text-xs text-gray-500">
+                                          Not counted
+                                        </Badge>
+                                      )
+                                    )}
                                   </div>
                                   <div className="text-xs text-gray-500">
                                     {formatDateUTC(score.exam.examDate, {
@@ -1108,7 +1216,8 @@ export function StudentDetailsModal({
                                 </div>
                               )}
                             </div>
-                          ))}
+                            )
+                          })}
                         </div>
                       </CardContent>
                     </Card>
@@ -1244,11 +1353,28 @@ export function StudentDetailsModal({
                                 {formatDateUTC(ea.startDate, { month: 'short', day: 'numeric', year: 'numeric' })}
                                 {' – '}
                                 {formatDateUTC(ea.endDate, { month: 'short', day: 'numeric', year: 'numeric' })}
+                                {ea.status !== 'APPROVED' && (
+                                  <Badge variant="outline" className={`ml-2 ${ea.status === 'PENDING' ? 'text-yellow-700 border-yellow-300' : 'text-red-700 border-red-300'}`}>
+                                    {ea.status === 'PENDING' ? 'Pending' : 'Rejected'}
+                                  </Badge>
+                                )}
                               </div>
                               <div className="text-xs text-gray-600 break-words">{ea.reason}</div>
                               {ea.creator && (
-                                <div className="text-[11px] text-gray-400">Added by {ea.creator.name}</div>
+                                <div className="text-[11px] text-gray-400">
+                                  {ea.creator.id === studentId ? 'Requested by student' : `Added by ${ea.creator.name}`}
+                                  {ea.reviewer && ` • ${ea.status === 'REJECTED' ? 'Rejected' : 'Approved'} by ${ea.reviewer.name}`}
+                                </div>
                               )}
+                              {ea.reviewNote && (
+                                <div className="text-[11px] text-gray-500 break-words">{ea.reviewNote}</div>
+                              )}
+                              <ExcuseAttachments
+                                attachments={ea.attachments || []}
+                                uploadUrl={`/api/expected-absences/${ea.id}/attachments`}
+                                canDelete
+                                onChange={(attachments) => setExpectedAbsences(prev => prev.map(a => a.id === ea.id ? { ...a, attachments } : a))}
+                              />
                             </div>
                             <Button
                               size="sm"
@@ -1273,7 +1399,7 @@ export function StudentDetailsModal({
                   <div className={`grid grid-cols-2 gap-4 ${naCount > 0 ? 'md:grid-cols-6' : 'md:grid-cols-5'}`}>
                     <div>
                       <div className="text-sm text-gray-500">Rate</div>
-                      <div className={`text-xl md:text-2xl font-bold whitespace-nowrap tabular-nums ${attendanceRate >= 75 ? 'text-green-700' : attendanceRate >= 60 ? 'text-yellow-700' : 'text-red-700'}`}>
+                      <div className={`text-xl md:text-2xl font-bold whitespace-nowrap tabular-nums ${attendanceRate >= policy.requiredPercentage ? 'text-green-700' : attendanceRate >= 60 ? 'text-yellow-700' : 'text-red-700'}`}>
                         {attendanceRate.toFixed(1)}%
                       </div>
                     </div>
@@ -1311,7 +1437,7 @@ export function StudentDetailsModal({
                     <div className={`grid grid-cols-2 gap-4 ${year1Na > 0 ? 'md:grid-cols-6' : 'md:grid-cols-5'}`}>
                       <div>
                         <div className="text-sm text-gray-500">Rate</div>
-                        <div className={`text-xl md:text-2xl font-bold whitespace-nowrap tabular-nums ${year1Rate >= 75 ? 'text-green-700' : year1Rate >= 60 ? 'text-yellow-700' : 'text-red-700'}`}>
+                        <div className={`text-xl md:text-2xl font-bold whitespace-nowrap tabular-nums ${year1Rate >= policy.requiredPercentage ? 'text-green-700' : year1Rate >= 60 ? 'text-yellow-700' : 'text-red-700'}`}>
                           {year1Rate.toFixed(1)}%
                         </div>
                       </div>
@@ -1350,7 +1476,7 @@ export function StudentDetailsModal({
                     <div className={`grid grid-cols-2 gap-4 ${year2Na > 0 ? 'md:grid-cols-6' : 'md:grid-cols-5'}`}>
                       <div>
                         <div className="text-sm text-gray-500">Rate</div>
-                        <div className={`text-xl md:text-2xl font-bold whitespace-nowrap tabular-nums ${year2Rate >= 75 ? 'text-green-700' : year2Rate >= 60 ? 'text-yellow-700' : 'text-red-700'}`}>
+                        <div className={`text-xl md:text-2xl font-bold whitespace-nowrap tabular-nums ${year2Rate >= policy.requiredPercentage ? 'text-green-700' : year2Rate >= 60 ? 'text-yellow-700' : 'text-red-700'}`}>
                           {year2Rate.toFixed(1)}%
                         </div>
                       </div>
@@ -1413,6 +1539,14 @@ export function StudentDetailsModal({
                             {record.notEnrolledYet ? '' : record.expectedAbsenceId ? 'Expected absence: ' : ''}{record.notes}
                           </div>
                         ) : null}
+                        {record.status === 'EXCUSED' && !record.notEnrolledYet && (
+                          <ExcuseAttachments
+                            attachments={record.attachments || []}
+                            uploadUrl={canEditData ? `/api/attendance/${record.id}/attachments` : undefined}
+                            canDelete={canEditData}
+                            onChange={onRefresh}
+                          />
+                        )}
                       </div>
                       <div className="flex items-center gap-2">
                         {editingAttendanceId === record.id ? (
@@ -1472,6 +1606,80 @@ export function StudentDetailsModal({
                 </div>
               )}
             </TabsContent>
+
+            {/* Attendance History Tab */}
+            <TabsContent value="history" className="space-y-4">
+              {historyLoading && attendanceHistory.length === 0 ? (
+                <div className="py-4 text-center text-gray-500">Loading...</div>
+              ) : attendanceHistory.length === 0 ? (
+                <div className="py-4 text-center text-gray-500">No attendance changes recorded yet.</div>
+              ) : (
+                <div className="relative max-h-[500px] overflow-y-auto pl-4">
+                  <div className="absolute left-1.5 top-2 bottom-2 w-px bg-gray-200 dark:bg-gray-800" />
+                  <div className="space-y-3">
+                    {attendanceHistory.map(entry => (
+                      <div key={entry.id} className="relative">
+                        <div className="absolute -left-[13px] top-3 h-2.5 w-2.5 rounded-full bg-gray-400 dark:bg-gray-600" />
+                        <Card>
+                          <CardContent className="pt-3 pb-3 space-y-2">
+                            <div className="flex items-start justify-between gap-2">
+                              <div className="min-w-0">
+                                <p className="text-sm font-medium truncate">
+                                  Lesson {entry.lesson.lessonNumber}: {entry.lesson.title}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                  {formatDateUTC(entry.lesson.scheduledDate)}
+                                </p>
+                              </div>
+                              <div className="flex items-center gap-1.5 shrink-0">
+                                {entry.previousStatus ? (
+                                  <Badge className={STATUS_BADGE_CLASSES[entry.previousStatus]}>{entry.previousStatus}</Badge>
+                                ) : (
+                                  <span className="text-xs text-gray-400">New</span>
+                                )}
+                                <ArrowRight className="h-3 w-3 text-gray-400" />
+                                {entry.newStatus ? (
+                                  <Badge className={STATUS_BADGE_CLASSES[entry.newStatus]}>{entry.newStatus}</Badge>
+                                ) : (
+                                  <span className="text-xs text-gray-400">Deleted</span>
+                                )}
+                              </div>
+                            </div>
+                            {(entry.previousNotes ?? null) !== (entry.newNotes ?? null) && (
+                              <div className="text-xs text-gray-600 dark:text-gray-400">
+                                <strong>Notes:</strong>{' '}
+                                {entry.previousNotes && <span className="line-through mr-1">{entry.previousNotes}</span>}
+                                {entry.newNotes || <span className="italic">cleared</span>}
+                              </div>
+                            )}
+                            {entry.previousConductRemoval !== entry.newConductRemoval && entry.newConductRemoval !== null && (
+                              <div className={`text-xs p-1.5 rounded ${entry.newConductRemoval ? 'bg-red-50 dark:bg-red-950 text-red-700' : 'bg-gray-50 dark:bg-gray-900 text-gray-600'}`}>
+                                {entry.newConductRemoval
+                                  ? <>Removed for conduct{entry.newConductNote && `: ${entry.newConductNote}`}</>
+                                  : 'Conduct removal cleared'}
+                              </div>
+                            )}
+                            <p className="text-xs text-gray-400">
+                              {new Date(entry.changedAt).toLocaleString()}
+                              {' • '}{entry.actor?.name || 'System'}
+                              {' • '}{HISTORY_SOURCE_LABELS[entry.source]}
+                            </p>
+                          </CardContent>
+                        </Card>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </TabsContent>
+
+            {/* Conduct Incidents Tab */}
+            <TabsContent value="conduct" className="space-y-4">
+              {studentId && (
+                <ConductIncidentsPanel studentId={studentId} canLog={canEditData} onChange={onRefresh} />
+              )}
+            </TabsContent>
+
             {/* Async Notes Tab */}
             {isAsyncStudent && (
               <TabsContent value="async-notes" className="space-y-4">
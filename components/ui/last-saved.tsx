@@ -1,20 +1,31 @@
 interface LastSavedProps {
   date: Date | null
+  // Saves queued offline that haven't reached the server yet
+  pendingSyncCount?: number
   className?: string
 }
 
-export function LastSaved({ date, className }: LastSavedProps) {
-  if (!date) return null
+export function LastSaved({ date, pendingSyncCount = 0, className }: LastSavedProps) {
+  if (!date && pendingSyncCount === 0) return null
 
   return (
     <p className={`text-xs text-gray-500 mt-1 ${className ?? ''}`}>
-      Last saved {date.toLocaleString('en-US', {
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric',
-        hour: 'numeric',
-        minute: '2-digit'
-      })}
+      {date && (
+        <>
+          Last saved {date.toLocaleString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit'
+          })}
+        </>
+      )}
+      {pendingSyncCount > 0 && (
+        <span className="text-amber-600 font-medium">
+          {date ? ' • ' : ''}{pendingSyncCount} {pendingSyncCount === 1 ? 'save' : 'saves'} pending sync
+        </span>
+      )}
     </p>
   )
 }
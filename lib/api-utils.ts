@@ -2,6 +2,8 @@ import { NextResponse } from "next/server"
 import { UserRole } from "@prisma/client"
 import { prisma } from "./prisma"
 import { requireAuth } from "./auth-helpers"
+import { recordAttendanceHistory } from "./attendance-history"
+import { ATTENDANCE_POLICY_SELECT, toAttendancePolicy, type AttendancePolicy } from "./attendance-policy"
 
 /**
  * Standard API error response handler
@@ -71,6 +73,19 @@ export function parseTimeString(timeStr: string | null | undefined): Date | null
   return !isNaN(parsedDate.getTime()) ? parsedDate : null
 }
 
+/**
+ * Load the attendance policy for an academic year. Without an id (e.g.
+ * analytics aggregated across all years) the active year's policy applies.
+ * Falls back to the default policy if no matching year exists.
+ */
+export async function getAttendancePolicy(academicYearId?: string | null): Promise<AttendancePolicy> {
+  const year = await prisma.academicYear.findFirst({
+    where: academicYearId ? { id: academicYearId } : { isActive: true },
+    select: ATTENDANCE_POLICY_SELECT,
+  })
+  return toAttendancePolicy(year)
+}
+
 /**
  * Get the list of student IDs that a mentor has access to
  * Returns undefined if user is not a mentor (meaning no filter needed)
@@ -209,7 +224,12 @@ export async function backfillAttendanceForStudent(
     }))
 
   if (toCreate.length > 0) {
-    await db.attendanceRecord.createMany({ data: toCreate })
+    const created = await db.attendanceRecord.createManyAndReturn({ data: toCreate })
+    await recordAttendanceHistory(
+      created.map(r => ({ attendanceRecordId: r.id, lessonId: r.lessonId, studentId, before: null, after: r })),
+      { source: 'BACKFILL' },
+      tx
+    )
   }
 }
 
@@ -228,26 +248,38 @@ type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
 export async function reconcileLateStartAttendance(
   studentId: string,
   attendanceStartDate: Date | null,
-  tx?: PrismaTx
+  tx?: PrismaTx,
+  changedBy?: string | null
 ) {
   const db = tx || prisma
+  const snapshotSelect = { id: true, lessonId: true, status: true, notes: true, conductRemoval: true, conductNote: true } as const
 
   // Revert records that were previously auto-excused but should no longer be
   // (start date cleared, or moved to on/before the lesson date).
   const previouslyExcused = await db.attendanceRecord.findMany({
     where: { studentId, notEnrolledYet: true },
-    select: { id: true, lesson: { select: { scheduledDate: true } } },
+    select: { ...snapshotSelect, lesson: { select: { scheduledDate: true } } },
   })
 
   const toRevert = previouslyExcused
     .filter(r => !attendanceStartDate || r.lesson.scheduledDate >= attendanceStartDate)
-    .map(r => r.id)
 
   if (toRevert.length > 0) {
     await db.attendanceRecord.updateMany({
-      where: { id: { in: toRevert } },
+      where: { id: { in: toRevert.map(r => r.id) } },
       data: { status: 'ABSENT', notEnrolledYet: false },
     })
+    await recordAttendanceHistory(
+      toRevert.map(r => ({
+        attendanceRecordId: r.id,
+        lessonId: r.lessonId,
+        studentId,
+        before: r,
+        after: { ...r, status: 'ABSENT' as const },
+      })),
+      { source: 'LATE_START', changedBy },
+      tx
+    )
   }
 
   if (!attendanceStartDate) return
@@ -264,7 +296,7 @@ export async function reconcileLateStartAttendance(
       conductRemoval: false,
       lesson: { scheduledDate: { lt: attendanceStartDate } },
     },
-    select: { id: true },
+    select: snapshotSelect,
   })
 
   if (beforeStart.length > 0) {
@@ -272,6 +304,17 @@ export async function reconcileLateStartAttendance(
       where: { id: { in: beforeStart.map(r => r.id) } },
       data: { status: 'EXCUSED', notEnrolledYet: true },
     })
+    await recordAttendanceHistory(
+      beforeStart.map(r => ({
+        attendanceRecordId: r.id,
+        lessonId: r.lessonId,
+        studentId,
+        before: r,
+        after: { ...r, status: 'EXCUSED' as const },
+      })),
+      { source: 'LATE_START', changedBy },
+      tx
+    )
   }
 }
 
@@ -279,14 +322,15 @@ export async function reconcileLateStartAttendance(
  * Apply a newly created expected absence to a student's existing attendance
  * records. Any record whose lesson falls within the absence window is
  * auto-marked EXCUSED, linked to the expected absence, and has the reason
- * written into its notes. Conduct removals are left untouched.
+ * written into its notes. Conduct removals are left untouched. Changes are
+ * logged to attendance history under the absence's creator.
  */
 export async function applyExpectedAbsenceToRecords(
-  expectedAbsence: { id: string; studentId: string; startDate: Date; endDate: Date; reason: string },
+  expectedAbsence: { id: string; studentId: string; startDate: Date; endDate: Date; reason: string; createdBy?: string | null },
   tx?: PrismaTx
 ) {
   const db = tx || prisma
-  const { id, studentId, startDate, endDate, reason } = expectedAbsence
+  const { id, studentId, startDate, endDate, reason, createdBy } = expectedAbsence
 
   const records = await db.attendanceRecord.findMany({
     where: {
@@ -294,7 +338,7 @@ export async function applyExpectedAbsenceToRecords(
       conductRemoval: false,
       lesson: { scheduledDate: { gte: startDate, lte: endDate } },
     },
-    select: { id: true },
+    select: { id: true, lessonId: true, status: true, notes: true, conductRemoval: true, conductNote: true },
   })
 
   if (records.length > 0) {
@@ -302,5 +346,16 @@ export async function applyExpectedAbsenceToRecords(
       where: { id: { in: records.map(r => r.id) } },
       data: { status: 'EXCUSED', notEnrolledYet: false, expectedAbsenceId: id, notes: reason },
     })
+    await recordAttendanceHistory(
+      records.map(r => ({
+        attendanceRecordId: r.id,
+        lessonId: r.lessonId,
+        studentId,
+        before: r,
+        after: { ...r, status: 'EXCUSED' as const, notes: reason },
+      })),
+      { source: 'EXPECTED_ABSENCE', changedBy: createdBy },
+      tx
+    )
   }
 }
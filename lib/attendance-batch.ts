@@ -0,0 +1,366 @@
+import { AttendanceChangeSource, AttendanceStatus } from "@prisma/client"
+import { prisma } from "./prisma"
+import { parseTimeString } from "./api-utils"
+import { notifyAttendanceRecorded, notifyAttendanceRisk, notifyConductEscalated, notifyConductRemoval } from "./notifications"
+import { deriveArrivalStatus, resolveAttendanceRules, resolveLessonTiming } from "./attendance-utils"
+import { recordAttendanceHistory, type AttendanceChange } from "./attendance-history"
+import { syncConductIncidents } from "./conduct-incidents"
+import { mergeImportedRecord } from "./attendance-import"
+import {
+  partitionAttendanceConflicts,
+  type AttendanceBaseline,
+  type AttendanceConflict,
+  type BatchAttendanceRecord,
+} from "./attendance-sync"
+
+export interface AttendanceBatchInput {
+  lessonId: string
+  records: BatchAttendanceRecord[]
+  // Sent by offline replays: each record's updatedAt when it was last loaded
+  baseline?: AttendanceBaseline
+}
+
+export interface AttendanceBatchOptions {
+  // Recorded on the attendance history entries
+  source?: AttendanceChangeSource
+  // Send mentors the "attendance recorded" summary (off for bulk imports)
+  notifyMentors?: boolean
+  // Keep notes, arrival and conduct removal on existing records when a record
+  // leaves them out (imports only carry a status)
+  mergeExisting?: boolean
+}
+
+export interface AttendanceBatchSummary {
+  created: number
+  updated: number
+  conflicts: Array<{ studentId: string; theirs: AttendanceConflict["theirs"] }>
+}
+
+/**
+ * Save one lesson's attendance in a single transaction: arrival times are
+ * classified against the lesson start time, late-start and expected-absence
+ * rules are applied, history and conduct incidents are recorded, and mentors
+ * are notified in the background. Used by the attendance page (including
+ * offline replays) and by spreadsheet imports. Validation failures come back
+ * as an error with the HTTP status to respond with.
+ */
+export async function saveAttendanceBatch(
+  user: { id: string; name?: string | null },
+  { lessonId, records: submittedRecords, baseline }: AttendanceBatchInput,
+  { source = AttendanceChangeSource.BATCH, notifyMentors = true, mergeExisting = false }: AttendanceBatchOptions = {}
+): Promise<{ data?: AttendanceBatchSummary; error?: string; status?: number }> {
+  // Verify lesson exists
+  const lesson = await prisma.lesson.findUnique({
+    where: { id: lessonId },
+    include: {
+      academicYear: {
+        select: { defaultLessonStartTime: true, defaultLateGraceMinutes: true }
+      }
+    }
+  })
+
+  if (!lesson) {
+    return { error: "Lesson not found", status: 404 }
+  }
+
+  // Prevent editing attendance for future lessons
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  const lessonDate = new Date(lesson.scheduledDate)
+  lessonDate.setHours(0, 0, 0, 0)
+  if (lessonDate > today) {
+    return { error: "Cannot edit attendance before the lesson date", status: 400 }
+  }
+
+  // Get existing attendance records for this lesson
+  const existingRecords = await prisma.attendanceRecord.findMany({
+    where: { lessonId },
+    select: { id: true, studentId: true, status: true, notes: true, arrivedAt: true, minutesLate: true, conductRemoval: true, conductNote: true, updatedAt: true }
+  })
+
+  // Offline replays must not overwrite records edited since they were queued
+  const { accepted: records, conflicts } = partitionAttendanceConflicts(submittedRecords, existingRecords, baseline)
+
+  const existingByStudent = new Map(
+    existingRecords.map(r => [r.studentId, r])
+  )
+
+  const studentIdSet = records.map(r => r.studentId)
+
+  // Late-start: students whose attendance start date is after this lesson's
+  // date should have this lesson auto-excused as "joined later".
+  const lessonDateValue = new Date(lesson.scheduledDate)
+  const enrollmentsForStudents = await prisma.studentEnrollment.findMany({
+    where: { studentId: { in: studentIdSet } },
+    select: { studentId: true, attendanceStartDate: true },
+  })
+  const attendanceStartByStudent = new Map<string, Date | null>(
+    enrollmentsForStudents.map(e => [e.studentId, e.attendanceStartDate])
+  )
+
+  // Expected absences covering this lesson's date, per student
+  const coveringAbsences = await prisma.expectedAbsence.findMany({
+    where: {
+      studentId: { in: studentIdSet },
+      status: "APPROVED",
+      startDate: { lte: lesson.scheduledDate },
+      endDate: { gte: lesson.scheduledDate },
+    },
+    select: { id: true, studentId: true, reason: true },
+  })
+  const absenceByStudent = new Map(coveringAbsences.map(a => [a.studentId, a]))
+
+  // Arrival times are classified against the lesson (or year default) start time
+  const timing = resolveLessonTiming(lesson, lesson.academicYear)
+
+  // Validate conduct removals: must have a non-empty note
+  for (const record of records) {
+    if (record.conductRemoval === true && (!record.conductNote || !record.conductNote.trim())) {
+      return { error: `A reason is required when removing a student from a lesson`, status: 400 }
+    }
+  }
+
+  // Separate into creates and updates
+  const toCreate: Array<{
+    lessonId: string
+    studentId: string
+    status: AttendanceStatus
+    arrivedAt: Date | null
+    minutesLate: number | null
+    notes: string | null
+    recordedBy: string
+    conductRemoval: boolean
+    conductNote: string | null
+    notEnrolledYet: boolean
+    expectedAbsenceId: string | null
+  }> = []
+
+  const toUpdate: Array<{
+    id: string
+    status: AttendanceStatus
+    arrivedAt: Date | null
+    minutesLate: number | null
+    notes: string | null
+    conductRemoval: boolean
+    conductNote: string | null
+    notEnrolledYet: boolean
+    expectedAbsenceId: string | null
+  }> = []
+
+  // Audit trail for records that already exist; new records are added once
+  // their ids are known
+  const changes: AttendanceChange[] = []
+
+  // Statuses as saved (arrival times can turn PRESENT into LATE)
+  const savedStatusByStudent = new Map<string, AttendanceStatus>()
+
+  for (const submitted of records) {
+    const existing = existingByStudent.get(submitted.studentId)
+    const { record, keptArrival } = mergeExisting && existing
+      ? mergeImportedRecord(submitted, existing)
+      : { record: submitted, keptArrival: null }
+    // Parse arrivedAt using utility function
+    const arrivedAt = keptArrival ? keptArrival.arrivedAt : parseTimeString(record.arrivedAt)
+    const conductRemoval = record.conductRemoval === true
+    const conductNote = conductRemoval ? (record.conductNote || null) : null
+
+    // PRESENT/LATE follow the arrival time when the lesson has a start time
+    const arrival = deriveArrivalStatus(
+      { status: record.status as AttendanceStatus, arrivedAt: record.arrivedAt, conductRemoval },
+      timing
+    )
+    // A kept arrival keeps its lateness while the student is still counted as there
+    const keepsLateness = keptArrival && !conductRemoval &&
+      (arrival.status === AttendanceStatus.PRESENT || arrival.status === AttendanceStatus.LATE)
+    const minutesLate = keepsLateness ? keptArrival.minutesLate : arrival.minutesLate
+
+    // Late-start and expected-absence rules (shared with lesson self check-in)
+    const { status, notes, notEnrolledYet, expectedAbsenceId } = resolveAttendanceRules(
+      { status: arrival.status, notes: record.notes, conductRemoval },
+      {
+        lessonDate: lessonDateValue,
+        attendanceStartDate: attendanceStartByStudent.get(record.studentId),
+        expectedAbsence: absenceByStudent.get(record.studentId),
+      }
+    )
+
+    savedStatusByStudent.set(record.studentId, status)
+
+    if (existing) {
+      changes.push({
+        attendanceRecordId: existing.id,
+        lessonId,
+        studentId: record.studentId,
+        before: existing,
+        after: { status, notes, conductRemoval, conductNote },
+      })
+      toUpdate.push({
+        id: existing.id,
+        status,
+        arrivedAt,
+        minutesLate,
+        notes,
+        conductRemoval,
+        conductNote,
+        notEnrolledYet,
+        expectedAbsenceId,
+      })
+    } else {
+      toCreate.push({
+        lessonId,
+        studentId: record.studentId,
+        status,
+        arrivedAt,
+        minutesLate,
+        notes,
+        recordedBy: user.id,
+        conductRemoval,
+        conductNote,
+        notEnrolledYet,
+        expectedAbsenceId,
+      })
+    }
+  }
+
+  // Execute batch operations in a transaction
+  const escalations = await prisma.$transaction(async (tx) => {
+    // Batch create new records
+    if (toCreate.length > 0) {
+      const created = await tx.attendanceRecord.createManyAndReturn({
+        data: toCreate
+      })
+      for (const record of created) {
+        changes.push({
+          attendanceRecordId: record.id,
+          lessonId,
+          studentId: record.studentId,
+          before: null,
+          after: record,
+        })
+      }
+    }
+
+    // Batch update existing records
+    if (toUpdate.length > 0) {
+      // Group simple status-only updates (no arrivedAt, notes, or conductRemoval)
+      const updateGroups = new Map<string, typeof toUpdate>()
+      const complexUpdates: typeof toUpdate = []
+
+      for (const update of toUpdate) {
+        if (
+          update.arrivedAt === null &&
+          update.notes === null &&
+          !update.conductRemoval &&
+          !update.notEnrolledYet &&
+          !update.expectedAbsenceId
+        ) {
+          // Simple status-only updates can be grouped
+          if (!updateGroups.has(update.status)) {
+            updateGroups.set(update.status, [])
+          }
+          updateGroups.get(update.status)!.push(update)
+        } else {
+          // Complex updates need individual handling
+          complexUpdates.push(update)
+        }
+      }
+
+      // Execute grouped updates (clears conduct removal / absence flags when not flagged)
+      for (const [status, groupedRecords] of updateGroups) {
+        if (groupedRecords.length > 0) {
+          await tx.attendanceRecord.updateMany({
+            where: { id: { in: groupedRecords.map(r => r.id) } },
+            data: { status: status as AttendanceStatus, minutesLate: null, conductRemoval: false, conductNote: null, notEnrolledYet: false, expectedAbsenceId: null }
+          })
+        }
+      }
+
+      // Execute individual complex updates
+      for (const update of complexUpdates) {
+        await tx.attendanceRecord.update({
+          where: { id: update.id },
+          data: {
+            status: update.status,
+            arrivedAt: update.arrivedAt,
+            minutesLate: update.minutesLate,
+            notes: update.notes,
+            conductRemoval: update.conductRemoval,
+            conductNote: update.conductNote,
+            notEnrolledYet: update.notEnrolledYet,
+            expectedAbsenceId: update.expectedAbsenceId,
+          }
+        })
+      }
+    }
+
+    await recordAttendanceHistory(changes, { source, changedBy: user.id }, tx)
+
+    // Conduct removals open (or, when undone, remove) conduct incidents
+    return syncConductIncidents(
+      changes,
+      { academicYearId: lesson.academicYearId, occurredAt: lesson.scheduledDate, reportedBy: user.id },
+      tx
+    )
+  })
+
+  // Send notifications to mentors (non-blocking)
+  const studentIds = records.map((r: BatchAttendanceRecord) => r.studentId)
+  const conductRemovals = records.filter((r: BatchAttendanceRecord) => r.conductRemoval === true)
+  prisma.user.findMany({
+    where: { id: { in: studentIds } },
+    select: { id: true, name: true },
+  }).then(async (students) => {
+    const studentRecords = records.map((r: BatchAttendanceRecord) => ({
+      studentId: r.studentId,
+      studentName: students.find((s) => s.id === r.studentId)?.name || 'Student',
+      status: savedStatusByStudent.get(r.studentId) ?? r.status,
+    }))
+    const lessonDate = lesson.scheduledDate
+      ? new Date(lesson.scheduledDate).toLocaleDateString()
+      : 'N/A'
+    if (notifyMentors) {
+      await notifyAttendanceRecorded({
+        lessonTitle: lesson.title,
+        lessonDate,
+        studentRecords,
+      }).catch(() => {})
+    }
+
+    // Alert when this save pushes a student to at-risk or failing
+    if (!lesson.isExamDay) {
+      await notifyAttendanceRisk({
+        academicYearId: lesson.academicYearId,
+        studentIds,
+      }).catch(() => {})
+    }
+
+    // Notify mentors for each conduct removal (non-blocking)
+    const removedByName = user.name || 'Admin'
+    for (const removal of conductRemovals) {
+      const studentName = students.find((s) => s.id === removal.studentId)?.name || 'Student'
+      notifyConductRemoval({
+        studentId: removal.studentId,
+        studentName,
+        lessonTitle: lesson.title,
+        conductNote: removal.conductNote || '',
+        removedByName,
+      }).catch(() => {})
+    }
+
+    for (const escalation of escalations) {
+      notifyConductEscalated({
+        studentId: escalation.studentId,
+        studentName: students.find((s) => s.id === escalation.studentId)?.name || 'Student',
+        incidentCount: escalation.incidentCount,
+      }).catch(() => {})
+    }
+  }).catch(() => {})
+
+  return {
+    data: {
+      created: toCreate.length,
+      updated: toUpdate.length,
+      conflicts: conflicts.map(c => ({ studentId: c.record.studentId, theirs: c.theirs })),
+    },
+  }
+}
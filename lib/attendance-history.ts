@@ -0,0 +1,107 @@
+import { AttendanceChangeAction, AttendanceChangeSource, AttendanceStatus, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
+
+// ============================================
+// Types
+// ============================================
+
+/** The audited fields of an attendance record at a point in time */
+export interface AttendanceSnapshot {
+  status: AttendanceStatus
+  notes: string | null
+  conductRemoval: boolean
+  conductNote: string | null
+}
+
+/**
+ * One record-level change. `before` is null for a newly created record and
+ * `after` is null for a deleted one.
+ */
+export interface AttendanceChange {
+  attendanceRecordId?: string | null
+  lessonId: string
+  studentId: string
+  before: AttendanceSnapshot | null
+  after: AttendanceSnapshot | null
+}
+
+export interface AttendanceChangeContext {
+  source: AttendanceChangeSource
+  changedBy?: string | null
+}
+
+// ============================================
+// Entry Building
+// ============================================
+
+export function hasAttendanceChanged(before: AttendanceSnapshot, after: AttendanceSnapshot): boolean {
+  return (
+    before.status !== after.status ||
+    (before.notes ?? null) !== (after.notes ?? null) ||
+    before.conductRemoval !== after.conductRemoval ||
+    (before.conductNote ?? null) !== (after.conductNote ?? null)
+  )
+}
+
+/**
+ * Turn record-level changes into history rows. Updates that leave every
+ * audited field unchanged (e.g. re-saving the attendance page) are dropped.
+ */
+export function buildAttendanceHistoryEntries(
+  changes: AttendanceChange[],
+  context: AttendanceChangeContext
+): Prisma.AttendanceHistoryCreateManyInput[] {
+  const entries: Prisma.AttendanceHistoryCreateManyInput[] = []
+
+  for (const { attendanceRecordId, lessonId, studentId, before, after } of changes) {
+    if (!before && !after) continue
+    if (before && after && !hasAttendanceChanged(before, after)) continue
+
+    const action = !before
+      ? AttendanceChangeAction.CREATED
+      : !after
+        ? AttendanceChangeAction.DELETED
+        : AttendanceChangeAction.UPDATED
+
+    entries.push({
+      attendanceRecordId: attendanceRecordId ?? null,
+      lessonId,
+      studentId,
+      action,
+      source: context.source,
+      previousStatus: before?.status ?? null,
+      newStatus: after?.status ?? null,
+      previousNotes: before?.notes ?? null,
+      newNotes: after?.notes ?? null,
+      previousConductRemoval: before?.conductRemoval ?? null,
+      newConductRemoval: after?.conductRemoval ?? null,
+      previousConductNote: before?.conductNote ?? null,
+      newConductNote: after?.conductNote ?? null,
+      changedBy: context.changedBy ?? null,
+    })
+  }
+
+  return entries
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+/**
+ * Append history rows for a set of attendance changes. Pass the transaction
+ * the record writes run in so history and records commit together.
+ */
+export async function recordAttendanceHistory(
+  changes: AttendanceChange[],
+  context: AttendanceChangeContext,
+  tx?: PrismaTx
+) {
+  const entries = buildAttendanceHistoryEntries(changes, context)
+  if (entries.length === 0) return
+
+  const db = tx || prisma
+  await db.attendanceHistory.createMany({ data: entries })
+}
@@ -0,0 +1,400 @@
+/**
+ * Spreadsheet attendance import
+ *
+ * Admins upload an XLSX/CSV grid with one row per student and one column per
+ * lesson date. The server parses the grid and fuzzy-matches each name to a
+ * student and each date to a lesson, with a confidence score. The admin
+ * confirms or fixes the matches, then the records are saved lesson by lesson
+ * through the same batch save as the attendance page.
+ *
+ * Two layouts are understood: a single cell per date (P / L / A / E, the full
+ * words, or TRUE / FALSE), and the older "Attendance" + "Late" checkbox pair
+ * per date used by past years' sheets.
+ *
+ * This module has no server dependencies so the import dialog can use it too.
+ */
+
+import type { AttendanceStatusValue, BatchAttendanceRecord } from './attendance-sync'
+
+// ============================================
+// Types
+// ============================================
+
+export interface AttendanceGridColumn {
+  dateKey: string // YYYY-MM-DD
+  col: number
+  // Paired "Late" checkbox column, for the checkbox layout
+  lateCol: number | null
+}
+
+export interface AttendanceGridRow {
+  rowNumber: number // 1-based, as shown in the spreadsheet
+  name: string
+  statuses: Record<string, AttendanceStatusValue> // dateKey -> status; blank cells are left out
+}
+
+export interface AttendanceGrid {
+  columns: AttendanceGridColumn[]
+  rows: AttendanceGridRow[]
+}
+
+export interface MatchCandidate {
+  id: string
+  label: string
+  confidence: number // 0-1
+}
+
+/**
+ * The best match for a name or date. Only confident matches are preselected;
+ * anything else has matchedId null and its candidates listed for the admin.
+ */
+export interface MatchResult {
+  matchedId: string | null
+  confidence: number
+  needsReview: boolean
+  candidates: MatchCandidate[]
+}
+
+// Confident enough to preselect without review
+/** The fields of a student's saved record that an import leaves alone */
+export interface SavedAttendanceFields {
+  notes: string | null
+  arrivedAt: Date | null
+  minutesLate: number | null
+  conductRemoval: boolean
+  conductNote: string | null
+}
+
+export const AUTO_MATCH_CONFIDENCE = 0.85
+// Lower-scoring students aren't offered as candidates
+export const MIN_MATCH_CONFIDENCE = 0.5
+// Lessons more than this many days from a column's date aren't offered
+export const MAX_LESSON_DATE_DRIFT_DAYS = 3
+
+const MAX_CANDIDATES = 3
+const HEADER_SEARCH_ROWS = 5
+
+// ============================================
+// Grid Parsing
+// ============================================
+
+function formatDateKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Read a header cell as a calendar date. Accepts Date objects, Excel serial
+ * numbers, ISO dates and US-style M/D/YY or M/D/YYYY strings.
+ */
+export function toDateKey(value: unknown): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null
+    return formatDateKey(value.getFullYear(), value.getMonth() + 1, value.getDate())
+  }
+
+  // Excel serial dates (roughly 1982-2118); smaller numbers are lesson numbers etc.
+  if (typeof value === 'number' && value > 30000 && value < 80000) {
+    const date = new Date(Math.round((value - 25569) * 86400 * 1000))
+    return formatDateKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())
+  }
+
+  if (typeof value !== 'string') return null
+  const text = value.trim()
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (iso) return formatDateKey(Number(iso[1]), Number(iso[2]), Number(iso[3]))
+
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/)
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3])
+    const month = Number(us[1])
+    const day = Number(us[2])
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null
+    return formatDateKey(year, month, day)
+  }
+
+  return null
+}
+
+function isTruthyCell(value: unknown): boolean {
+  if (value === true || value === 1) return true
+  if (typeof value !== 'string') return false
+  return ['true', 'yes', 'y', 'x', '✓', '1'].includes(value.trim().toLowerCase())
+}
+
+/**
+ * Read one attendance cell. With a late cell (checkbox layout) the main cell
+ * is a present/absent checkbox. Blank cells return null (not recorded).
+ */
+export function parseAttendanceCell(value: unknown, lateValue?: unknown): AttendanceStatusValue | null {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'string' && !value.trim()) return null
+
+  if (lateValue !== undefined) {
+    if (isTruthyCell(value)) return isTruthyCell(lateValue) ? 'LATE' : 'PRESENT'
+    return 'ABSENT'
+  }
+
+  if (value === true || value === 1) return 'PRESENT'
+  if (value === false || value === 0) return 'ABSENT'
+  if (typeof value !== 'string') return null
+
+  switch (value.trim().toLowerCase()) {
+    case 'p':
+    case 'present':
+    case 'true':
+    case 'yes':
+    case 'x':
+    case '✓':
+      return 'PRESENT'
+    case 'l':
+    case 'late':
+      return 'LATE'
+    case 'a':
+    case 'absent':
+    case 'false':
+    case 'no':
+      return 'ABSENT'
+    case 'e':
+    case 'excused':
+      return 'EXCUSED'
+    default:
+      return null
+  }
+}
+
+/**
+ * Find the header row (the first row with date cells), the name column and
+ * the date columns, then read every student row. Rows without a name, like
+ * an "Attendance / Late" sub-header, are skipped.
+ */
+export function parseAttendanceGrid(data: unknown[][]): { grid?: AttendanceGrid; error?: string } {
+  const headerIndex = data
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex(row => Array.isArray(row) && row.some(cell => toDateKey(cell) !== null))
+  if (headerIndex === -1) {
+    return { error: 'No lesson dates found. The first row should have one column per lesson date.' }
+  }
+
+  const header = data[headerIndex]
+  const subHeader = data[headerIndex + 1] || []
+
+  const dateCols = new Set<number>()
+  header.forEach((cell, col) => {
+    if (toDateKey(cell)) dateCols.add(col)
+  })
+
+  const columns: AttendanceGridColumn[] = []
+  for (const col of dateCols) {
+    const nextIsLate =
+      !dateCols.has(col + 1) &&
+      typeof subHeader[col + 1] === 'string' &&
+      /late/i.test(subHeader[col + 1] as string)
+    columns.push({ dateKey: toDateKey(header[col])!, col, lateCol: nextIsLate ? col + 1 : null })
+  }
+
+  // A "Name" header wins; otherwise the first column before the dates holding text
+  let nameCol = header.findIndex(cell => typeof cell === 'string' && /name/i.test(cell))
+  if (nameCol === -1) {
+    const firstDateCol = Math.min(...dateCols)
+    const sampleRows = data.slice(headerIndex + 1).filter(row => Array.isArray(row))
+    for (let col = 0; col < firstDateCol && nameCol === -1; col++) {
+      if (sampleRows.some(row => typeof row[col] === 'string' && /[a-z]{2}/i.test(row[col] as string))) {
+        nameCol = col
+      }
+    }
+  }
+  if (nameCol === -1) {
+    return { error: 'Could not find the student name column' }
+  }
+
+  const rows: AttendanceGridRow[] = []
+  for (let index = headerIndex + 1; index < data.length; index++) {
+    const row = data[index]
+    if (!Array.isArray(row)) continue
+    const name = typeof row[nameCol] === 'string' ? (row[nameCol] as string).trim() : ''
+    if (!name || !/[a-z]/i.test(name)) continue
+
+    const statuses: Record<string, AttendanceStatusValue> = {}
+    for (const column of columns) {
+      const status = column.lateCol === null
+        ? parseAttendanceCell(row[column.col])
+        : parseAttendanceCell(row[column.col], row[column.lateCol] ?? null)
+      if (status) statuses[column.dateKey] = status
+    }
+    rows.push({ rowNumber: index + 1, name, statuses })
+  }
+
+  if (rows.length === 0) {
+    return { error: 'No student rows found' }
+  }
+
+  return { grid: { columns, rows } }
+}
+
+// ============================================
+// Matching
+// ============================================
+
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function levenshteinRatio(a: string, b: string): number {
+  const longer = Math.max(a.length, b.length)
+  if (longer === 0) return 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+
+  return (longer - previous[b.length]) / longer
+}
+
+/**
+ * Similarity of two names from 0 to 1. Word order is ignored so
+ * "Abdelmalak, Mivel" still matches "Mivel Abdelmalak".
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a)
+  const right = normalizeName(b)
+  const sortWords = (name: string) => name.split(' ').sort().join(' ')
+  return Math.max(levenshteinRatio(left, right), levenshteinRatio(sortWords(left), sortWords(right)))
+}
+
+function toMatchResult(candidates: MatchCandidate[]): MatchResult {
+  const [best, second] = candidates
+  if (!best) return { matchedId: null, confidence: 0, needsReview: true, candidates }
+
+  // A confident best match that clearly beats the runner-up is preselected
+  const clearWinner = !second || (best.confidence === 1
+    ? second.confidence < 1
+    : best.confidence - second.confidence >= 0.05)
+  const confident = best.confidence >= AUTO_MATCH_CONFIDENCE && clearWinner
+  return {
+    matchedId: confident ? best.id : null,
+    confidence: best.confidence,
+    needsReview: !confident || best.confidence < 1,
+    candidates,
+  }
+}
+
+export function matchStudentName(name: string, students: Array<{ id: string; name: string }>): MatchResult {
+  const candidates = students
+    .map(student => ({ id: student.id, label: student.name, confidence: nameSimilarity(name, student.name) }))
+    .filter(candidate => candidate.confidence >= MIN_MATCH_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES)
+  return toMatchResult(candidates)
+}
+
+/**
+ * Match a column date to a lesson. Same-day lessons are certain; lessons a
+ * few days off (a rescheduled class) are offered at lower confidence.
+ */
+export function matchLessonDate(
+  dateKey: string,
+  lessons: Array<{ id: string; title: string; scheduledDate: string | Date }>
+): MatchResult {
+  const target = Date.parse(`${dateKey}T00:00:00Z`)
+  const candidates = lessons
+    .map(lesson => {
+      const lessonKey = new Date(lesson.scheduledDate).toISOString().slice(0, 10)
+      const days = Math.abs(Date.parse(`${lessonKey}T00:00:00Z`) - target) / 86400000
+      return { id: lesson.id, label: lesson.title, days }
+    })
+    .filter(candidate => candidate.days <= MAX_LESSON_DATE_DRIFT_DAYS)
+    .sort((a, b) => a.days - b.days)
+    .slice(0, MAX_CANDIDATES)
+    .map(({ id, label, days }) => ({ id, label, confidence: 1 - days / (MAX_LESSON_DATE_DRIFT_DAYS + 1) }))
+  return toMatchResult(candidates)
+}
+
+// ============================================
+// Commit
+// ============================================
+
+/**
+ * Turn the grid and the admin's confirmed matches into one batch per lesson.
+ * Rows or columns left unmatched are skipped. Two rows matched to the same
+ * student (or two columns to the same lesson) are reported instead of
+ * silently overwriting each other.
+ */
+export function buildImportBatches(
+  grid: AttendanceGrid,
+  studentByRow: Record<number, string | null>,
+  lessonByDate: Record<string, string | null>
+): {
+  batches: Array<{ lessonId: string; records: BatchAttendanceRecord[] }>
+  duplicateStudentIds: string[]
+  duplicateLessonIds: string[]
+} {
+  const countValues = (values: Array<string | null>) => {
+    const counts = new Map<string, number>()
+    for (const value of values) {
+      if (value) counts.set(value, (counts.get(value) || 0) + 1)
+    }
+    return [...counts].filter(([, count]) => count > 1).map(([value]) => value)
+  }
+
+  const duplicateStudentIds = countValues(grid.rows.map(row => studentByRow[row.rowNumber] ?? null))
+  const duplicateLessonIds = countValues(grid.columns.map(column => lessonByDate[column.dateKey] ?? null))
+
+  const recordsByLesson = new Map<string, BatchAttendanceRecord[]>()
+  for (const column of grid.columns) {
+    const lessonId = lessonByDate[column.dateKey]
+    if (!lessonId || duplicateLessonIds.includes(lessonId)) continue
+
+    for (const row of grid.rows) {
+      const studentId = studentByRow[row.rowNumber]
+      const status = row.statuses[column.dateKey]
+      if (!studentId || !status || duplicateStudentIds.includes(studentId)) continue
+
+      if (!recordsByLesson.has(lessonId)) recordsByLesson.set(lessonId, [])
+      recordsByLesson.get(lessonId)!.push({ studentId, status })
+    }
+  }
+
+  return {
+    batches: [...recordsByLesson].map(([lessonId, records]) => ({ lessonId, records })),
+    duplicateStudentIds,
+    duplicateLessonIds,
+  }
+}
+
+/**
+ * Merge an imported record into the student's saved one. Sheets only carry a
+ * status, so notes, the arrival time and a conduct removal are kept unless the
+ * record sets them; a status-only import must not undo a removal (which would
+ * withdraw its conduct incident). `keptArrival` is the saved arrival when the
+ * record sends none.
+ */
+export function mergeImportedRecord(
+  record: BatchAttendanceRecord,
+  saved: SavedAttendanceFields
+): {
+  record: BatchAttendanceRecord
+  keptArrival: { arrivedAt: Date | null; minutesLate: number | null } | null
+} {
+  return {
+    record: {
+      ...record,
+      notes: record.notes !== undefined ? record.notes : saved.notes,
+      conductRemoval: record.conductRemoval ?? saved.conductRemoval,
+      conductNote: record.conductNote !== undefined ? record.conductNote : saved.conductNote,
+    },
+    keptArrival: record.arrivedAt === undefined
+      ? { arrivedAt: saved.arrivedAt, minutesLate: saved.minutesLate }
+      : null,
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Attendance policy
+ *
+ * Each academic year stores its own attendance rules so they can change
+ * between years without a deploy. Calculators take an AttendancePolicy and
+ * fall back to DEFAULT_ATTENDANCE_POLICY (the program's long-standing rules)
+ * when none is given.
+ *
+ * This module has no server dependencies so client components can use it too.
+ */
+
+export interface AttendancePolicy {
+  // Minimum lesson attendance percentage required to graduate
+  requiredPercentage: number
+  // Credit a LATE earns toward attendance, between 0 and 1 (0.5 = 2 lates = 1 absence)
+  lateWeight: number
+  // When false, lessons a student was removed from for conduct are left out
+  // of the percentage entirely (like an excused absence)
+  conductRemovalCountsAsAbsence: boolean
+  // Minimum Sunday School attendance percentage for async students
+  sundaySchoolRequiredPercentage: number
+}
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  requiredPercentage: 75,
+  lateWeight: 0.5,
+  conductRemovalCountsAsAbsence: true,
+  sundaySchoolRequiredPercentage: 75,
+}
+
+/** The AcademicYear columns that hold the policy */
+export interface AcademicYearPolicyFields {
+  attendanceRequiredPercent: number
+  attendanceLateWeight: number
+  conductRemovalCountsAsAbsence: boolean
+  sundaySchoolRequiredPercent: number
+}
+
+/** Prisma `select` for loading a year's policy columns */
+export const ATTENDANCE_POLICY_SELECT = {
+  attendanceRequiredPercent: true,
+  attendanceLateWeight: true,
+  conductRemovalCountsAsAbsence: true,
+  sundaySchoolRequiredPercent: true,
+} as const
+
+/**
+ * Build a policy from an academic year's columns. Returns the default policy
+ * when there is no year (e.g. no active year configured yet).
+ */
+export function toAttendancePolicy(year?: AcademicYearPolicyFields | null): AttendancePolicy {
+  if (!year) return DEFAULT_ATTENDANCE_POLICY
+  return {
+    requiredPercentage: year.attendanceRequiredPercent,
+    lateWeight: year.attendanceLateWeight,
+    conductRemovalCountsAsAbsence: year.conductRemovalCountsAsAbsence,
+    sundaySchoolRequiredPercentage: year.sundaySchoolRequiredPercent,
+  }
+}
+
+/**
+ * Validate policy fields from an academic year create/update body. Only the
+ * fields present in the body are returned, so PATCH can update a subset.
+ */
+export function parseAttendancePolicyInput(
+  body: Record<string, unknown>
+): { data: Partial<AcademicYearPolicyFields>; error?: string } {
+  const data: Partial<AcademicYearPolicyFields> = {}
+
+  const percentFields = ['attendanceRequiredPercent', 'sundaySchoolRequiredPercent'] as const
+  for (const field of percentFields) {
+    if (body[field] === undefined) continue
+    const value = Number(body[field])
+    if (!Number.isFinite(value) || value < 0 || value > 100) {
+      return { data, error: `${field} must be a number between 0 and 100` }
+    }
+    data[field] = value
+  }
+
+  if (body.attendanceLateWeight !== undefined) {
+    const value = Number(body.attendanceLateWeight)
+    if (!Number.isFinite(value) || value < 0 || value > 1) {
+      return { data, error: 'attendanceLateWeight must be a number between 0 and 1' }
+    }
+    data.attendanceLateWeight = value
+  }
+
+  if (body.conductRemovalCountsAsAbsence !== undefined) {
+    if (typeof body.conductRemovalCountsAsAbsence !== 'boolean') {
+      return { data, error: 'conductRemovalCountsAsAbsence must be true or false' }
+    }
+    data.conductRemovalCountsAsAbsence = body.conductRemovalCountsAsAbsence
+  }
+
+  return { data }
+}
+
+/**
+ * Describe the late rule for display, e.g. "2 lates = 1 absence" for 0.5.
+ */
+export function describeLateWeight(lateWeight: number): string {
+  if (lateWeight >= 1) return 'Lates count as present'
+  if (lateWeight <= 0) return 'Lates count as absences'
+  const latesPerAbsence = 1 / (1 - lateWeight)
+  if (Number.isInteger(latesPerAbsence)) {
+    return `${latesPerAbsence} lates = 1 absence`
+  }
+  return `A late counts as ${Math.round(lateWeight * 100)}% present`
+}
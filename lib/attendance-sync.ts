@@ -0,0 +1,166 @@
+/**
+ * Offline attendance sync
+ *
+ * When the attendance page can't reach the server, batch saves are queued in
+ * IndexedDB and replayed later (by the service worker's background sync, or
+ * by the page when it comes back online). Each queued save carries the
+ * `updatedAt` of every record as the admin last saw it, so the batch endpoint
+ * can refuse to overwrite a record someone else changed in the meantime and
+ * report it as a conflict instead.
+ *
+ * This module has no server dependencies so the page can use it too.
+ */
+
+export type AttendanceStatusValue = 'PRESENT' | 'LATE' | 'ABSENT' | 'EXCUSED'
+
+/** One record in a POST /api/attendance/batch body */
+export interface BatchAttendanceRecord {
+  studentId: string
+  status: AttendanceStatusValue
+  arrivedAt?: string | null
+  notes?: string | null
+  conductRemoval?: boolean
+  conductNote?: string | null
+}
+
+/**
+ * studentId -> the record's updatedAt (ISO) when it was loaded, or null when
+ * the student had no record yet
+ */
+export type AttendanceBaseline = Record<string, string | null>
+
+/** A record someone else saved after the queued change was made */
+export interface AttendanceConflict {
+  studentId: string
+  theirs: { status: AttendanceStatusValue; notes: string | null; updatedAt: string } | null
+  mine: BatchAttendanceRecord
+}
+
+export interface QueuedAttendanceSave {
+  id: string
+  lessonId: string
+  lessonTitle: string
+  records: BatchAttendanceRecord[]
+  baseline: AttendanceBaseline
+  queuedAt: string
+  // Set once a replay was refused; flagged saves wait for the admin to resolve them
+  conflicts?: AttendanceConflict[]
+  error?: string
+}
+
+// Shared with public/sw.js, which replays the queue during background sync
+export const OFFLINE_DB_NAME = 'servants-prep-offline'
+export const ATTENDANCE_QUEUE_STORE = 'attendance-queue'
+export const ATTENDANCE_SYNC_TAG = 'attendance-sync'
+
+// ============================================
+// Conflict Detection (server)
+// ============================================
+
+/**
+ * Split submitted records into those safe to write and those that conflict
+ * with a newer server version. Without a baseline (a normal online save)
+ * every record is accepted. Students missing from the baseline are accepted.
+ */
+export function partitionAttendanceConflicts<T extends { studentId: string }>(
+  records: T[],
+  existing: Array<{ studentId: string; status: AttendanceStatusValue; notes: string | null; updatedAt: Date }>,
+  baseline?: AttendanceBaseline | null
+): {
+  accepted: T[]
+  conflicts: Array<{ record: T; theirs: AttendanceConflict['theirs'] }>
+} {
+  if (!baseline) return { accepted: records, conflicts: [] }
+
+  const existingByStudent = new Map(existing.map(r => [r.studentId, r]))
+  const accepted: T[] = []
+  const conflicts: Array<{ record: T; theirs: AttendanceConflict['theirs'] }> = []
+
+  for (const record of records) {
+    if (!(record.studentId in baseline)) {
+      accepted.push(record)
+      continue
+    }
+    const seen = baseline[record.studentId]
+    const current = existingByStudent.get(record.studentId)
+    const unchanged = seen === null
+      ? !current
+      : !!current && new Date(seen).getTime() === current.updatedAt.getTime()
+
+    if (unchanged) {
+      accepted.push(record)
+    } else {
+      conflicts.push({
+        record,
+        theirs: current
+          ? { status: current.status, notes: current.notes, updatedAt: current.updatedAt.toISOString() }
+          : null,
+      })
+    }
+  }
+
+  return { accepted, conflicts }
+}
+
+// ============================================
+// Queue Management (client)
+// ============================================
+
+/**
+ * Add a save to the queue. A second offline save for the same lesson is
+ * folded into the pending one: newer record values win, but each student's
+ * baseline stays at what the admin saw before the first offline edit.
+ * Flagged (conflicting) saves are never merged into.
+ */
+export function mergeQueuedSave(
+  queue: QueuedAttendanceSave[],
+  save: QueuedAttendanceSave
+): QueuedAttendanceSave[] {
+  const pending = queue.find(q => q.lessonId === save.lessonId && !q.conflicts && !q.error)
+  if (!pending) return [...queue, save]
+
+  const recordsByStudent = new Map(pending.records.map(r => [r.studentId, r]))
+  for (const record of save.records) {
+    recordsByStudent.set(record.studentId, record)
+  }
+
+  const merged: QueuedAttendanceSave = {
+    ...pending,
+    lessonTitle: save.lessonTitle,
+    records: [...recordsByStudent.values()],
+    baseline: { ...save.baseline, ...pending.baseline },
+  }
+
+  return queue.map(q => (q.id === pending.id ? merged : q))
+}
+
+/** Saves that should be sent on the next replay */
+export function getReplayableSaves(queue: QueuedAttendanceSave[]): QueuedAttendanceSave[] {
+  return queue
+    .filter(q => !q.conflicts && !q.error)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))
+}
+
+/**
+ * Fold a batch response into the queued save: null when everything was
+ * written (drop it from the queue), otherwise the save narrowed to the
+ * conflicting records and flagged for review.
+ */
+export function applyReplayResult(
+  save: QueuedAttendanceSave,
+  result: { conflicts?: Array<{ studentId: string; theirs: AttendanceConflict['theirs'] }> }
+): QueuedAttendanceSave | null {
+  const conflicts = result.conflicts ?? []
+  if (conflicts.length === 0) return null
+
+  const mineByStudent = new Map(save.records.map(r => [r.studentId, r]))
+  return {
+    ...save,
+    records: save.records.filter(r => conflicts.some(c => c.studentId === r.studentId)),
+    conflicts: conflicts.map(c => ({
+      studentId: c.studentId,
+      theirs: c.theirs,
+      mine: mineByStudent.get(c.studentId)!,
+    })),
+  }
+}
@@ -1,12 +1,14 @@
 import { AttendanceStatus } from "@prisma/client"
+import { DEFAULT_ATTENDANCE_POLICY, type AttendancePolicy } from "./attendance-policy"
 
 /**
  * Attendance calculation utility functions
  * Centralizes the attendance percentage logic used across the application
  *
- * Formula: (present + (late / 2)) / (total - excused) * 100
- * - 2 lates count as 1 absence
+ * Formula: (present + (late * lateWeight)) / (total - excused) * 100
+ * - lateWeight comes from the academic year's attendance policy (default 0.5, so 2 lates count as 1 absence)
  * - Excused absences are excluded from both numerator and denominator
+ * - Conduct removals count as absences unless the policy says otherwise, in which case they are treated like excused
  * - Exam day lessons are excluded from attendance calculations (filtered before calling these functions)
  * - Cancelled lessons are excluded from attendance calculations (filtered before calling these functions)
  */
@@ -23,9 +25,13 @@ export interface AttendanceCounts {
  * Returns null if there are no countable lessons (all excused or zero total)
  *
  * @param counts - Object containing present, late, absent, excused counts
+ * @param policy - Attendance policy (only lateWeight is used)
  * @returns Percentage (0-100) or null if no countable lessons
  */
-export function calculateAttendancePercentage(counts: AttendanceCounts): number | null {
+export function calculateAttendancePercentage(
+  counts: AttendanceCounts,
+  policy: Pick<AttendancePolicy, 'lateWeight'> = DEFAULT_ATTENDANCE_POLICY
+): number | null {
   const { present, late, absent, excused } = counts
   const total = present + late + absent + excused
   const countableLessons = total - excused
@@ -34,64 +40,100 @@ export function calculateAttendancePercentage(counts: AttendanceCounts): number
     return null
   }
 
-  // Formula: (present + (late / 2)) / countable * 100
-  // This means 2 lates = 1 absence in terms of impact
-  const effectivePresent = present + (late / 2)
-  return (effectivePresent / countableLessons) * 100
+  // Formula: (present + (late * lateWeight)) / countable * 100
+  return (calculateEffectivePresent(counts, policy) / countableLessons) * 100
+}
+
+/**
+ * Calculate the "effective present" lessons: present plus the credit earned by lates
+ *
+ * @param counts - AttendanceCounts object
+ * @param policy - Attendance policy (only lateWeight is used)
+ * @returns Number of effective present lessons
+ */
+export function calculateEffectivePresent(
+  counts: Pick<AttendanceCounts, 'present' | 'late'>,
+  policy: Pick<AttendancePolicy, 'lateWeight'> = DEFAULT_ATTENDANCE_POLICY
+): number {
+  return counts.present + (counts.late * policy.lateWeight)
 }
 
 /**
  * Calculate attendance percentage from raw attendance records
  *
  * @param records - Array of attendance records with status field
+ * @param policy - Attendance policy for the year being calculated
  * @returns Percentage (0-100) or null if no countable lessons
  */
 export function calculateAttendanceFromRecords(
-  records: Array<{ status: AttendanceStatus }>
+  records: Array<{ status: AttendanceStatus; conductRemoval?: boolean }>,
+  policy: AttendancePolicy = DEFAULT_ATTENDANCE_POLICY
 ): number | null {
-  const counts = countAttendanceStatuses(records)
-  return calculateAttendancePercentage(counts)
+  const counts = countAttendanceStatuses(records, policy)
+  return calculateAttendancePercentage(counts, policy)
+}
+
+/**
+ * Add `amount` records of one status to running counts. Conduct removals are
+ * tallied as excused when the policy doesn't count them as absences.
+ * Use this when counts come from a groupBy rather than individual records.
+ */
+export function tallyAttendanceStatus(
+  counts: AttendanceCounts,
+  record: { status: AttendanceStatus; conductRemoval?: boolean },
+  policy: Pick<AttendancePolicy, 'conductRemovalCountsAsAbsence'> = DEFAULT_ATTENDANCE_POLICY,
+  amount: number = 1
+): AttendanceCounts {
+  if (record.conductRemoval && !policy.conductRemovalCountsAsAbsence) {
+    counts.excused += amount
+    return counts
+  }
+  switch (record.status) {
+    case AttendanceStatus.PRESENT:
+      counts.present += amount
+      break
+    case AttendanceStatus.LATE:
+      counts.late += amount
+      break
+    case AttendanceStatus.ABSENT:
+      counts.absent += amount
+      break
+    case AttendanceStatus.EXCUSED:
+      counts.excused += amount
+      break
+  }
+  return counts
 }
 
 /**
  * Count attendance statuses from an array of records
  *
  * @param records - Array of attendance records with status field
+ * @param policy - Attendance policy (only conductRemovalCountsAsAbsence is used)
  * @returns AttendanceCounts object
  */
 export function countAttendanceStatuses(
-  records: Array<{ status: AttendanceStatus }>
+  records: Array<{ status: AttendanceStatus; conductRemoval?: boolean }>,
+  policy: Pick<AttendancePolicy, 'conductRemovalCountsAsAbsence'> = DEFAULT_ATTENDANCE_POLICY
 ): AttendanceCounts {
   return records.reduce(
-    (acc, record) => {
-      switch (record.status) {
-        case AttendanceStatus.PRESENT:
-          acc.present++
-          break
-        case AttendanceStatus.LATE:
-          acc.late++
-          break
-        case AttendanceStatus.ABSENT:
-          acc.absent++
-          break
-        case AttendanceStatus.EXCUSED:
-          acc.excused++
-          break
-      }
-      return acc
-    },
+    (acc, record) => tallyAttendanceStatus(acc, record, policy),
     { present: 0, late: 0, absent: 0, excused: 0 } as AttendanceCounts
   )
 }
 
 /**
- * Check if attendance percentage meets graduation requirement (≥75%)
+ * Check if attendance percentage meets the graduation requirement
  *
  * @param percentage - Attendance percentage or null
+ * @param requiredPercentage - Minimum required percentage from the attendance policy (default: 75)
  * @returns true if meets requirement, false otherwise
  */
-export function meetsAttendanceRequirement(percentage: number | null): boolean {
-  return percentage !== null && percentage >= 75
+export function meetsAttendanceRequirement(
+  percentage: number | null,
+  requiredPercentage: number = DEFAULT_ATTENDANCE_POLICY.requiredPercentage
+): boolean {
+  return percentage !== null && percentage >= requiredPercentage
 }
 
 /**
@@ -119,41 +161,232 @@ export function getAttendanceStatusLabel(status: AttendanceStatus): string {
  * Calculate the "effective absences" from counts
  * This is useful for displaying how many absences a student effectively has
  *
- * Formula: absent + (late / 2)
+ * Formula: absent + (late * (1 - lateWeight))
  *
  * @param counts - AttendanceCounts object
+ * @param policy - Attendance policy (only lateWeight is used)
  * @returns Number of effective absences
  */
-export function calculateEffectiveAbsences(counts: AttendanceCounts): number {
-  return counts.absent + (counts.late / 2)
+export function calculateEffectiveAbsences(
+  counts: AttendanceCounts,
+  policy: Pick<AttendancePolicy, 'lateWeight'> = DEFAULT_ATTENDANCE_POLICY
+): number {
+  return counts.absent + (counts.late * (1 - policy.lateWeight))
 }
 
 /**
- * Calculate how many more absences a student can have before falling below 75%
+ * Calculate how many more absences a student can have before falling below
+ * the policy's required percentage
  *
  * @param counts - Current attendance counts
  * @param remainingLessons - Number of lessons remaining in the year
+ * @param policy - Attendance policy for the year
  * @returns Number of absences allowed (can be negative if already below threshold)
  */
 export function calculateAbsencesAllowed(
   counts: AttendanceCounts,
-  remainingLessons: number
+  remainingLessons: number,
+  policy: Pick<AttendancePolicy, 'requiredPercentage' | 'lateWeight'> = DEFAULT_ATTENDANCE_POLICY
 ): number {
   const { present, late, absent, excused } = counts
   const currentTotal = present + late + absent + excused
+  const required = policy.requiredPercentage / 100
 
-  // To maintain 75%: effectivePresent / countable >= 0.75
-  // effectivePresent + remainingLessons >= 0.75 * (countable + remainingLessons)
+  // To maintain the requirement: effectivePresent / countable >= required
+  // effectivePresent + remainingLessons >= required * (countable + remainingLessons)
   // Solving for allowed absences...
-  const currentEffectivePresent = present + (late / 2)
+  const currentEffectivePresent = calculateEffectivePresent({ present, late }, policy)
   const currentCountable = currentTotal - excused
 
   // Assuming student attends all remaining lessons:
-  // (currentEffectivePresent + remainingLessons) / (currentCountable + remainingLessons) = 0.75
+  // (currentEffectivePresent + remainingLessons) / (currentCountable + remainingLessons) = required
   // We want: how many of those remaining can they miss?
 
-  const futurePresentNeeded = 0.75 * (currentCountable + remainingLessons)
+  const futurePresentNeeded = required * (currentCountable + remainingLessons)
   const absencesAllowed = currentEffectivePresent + remainingLessons - futurePresentNeeded
 
   return Math.floor(absencesAllowed)
 }
+
+export interface AttendanceRuleContext {
+  lessonDate: Date
+  // The student's late-start date (StudentEnrollment.attendanceStartDate), if any
+  attendanceStartDate?: Date | null
+  // An expected absence covering the lesson date, if any
+  expectedAbsence?: { id: string; reason: string } | null
+}
+
+export interface ResolvedAttendance {
+  status: AttendanceStatus
+  notes: string | null
+  notEnrolledYet: boolean
+  expectedAbsenceId: string | null
+}
+
+/**
+ * Apply the late-start and expected-absence rules to a requested status.
+ * Shared by the batch save and lesson self check-in so both record the same
+ * flags for the same situation.
+ *
+ * - Lessons before the student's attendance start date are auto-excused as
+ *   "joined later" when ABSENT/EXCUSED is requested. Present/Late are respected.
+ * - EXCUSED under a covering expected absence is linked to it, and its reason
+ *   fills in empty notes.
+ * - Conduct removals bypass both rules.
+ */
+export function resolveAttendanceRules(
+  requested: { status: AttendanceStatus; notes?: string | null; conductRemoval?: boolean },
+  context: AttendanceRuleContext
+): ResolvedAttendance {
+  let status = requested.status
+  let notes = requested.notes || null
+  let notEnrolledYet = false
+  let expectedAbsenceId: string | null = null
+
+  if (!requested.conductRemoval) {
+    const { lessonDate, attendanceStartDate, expectedAbsence } = context
+    if (
+      attendanceStartDate &&
+      lessonDate < attendanceStartDate &&
+      (status === AttendanceStatus.ABSENT || status === AttendanceStatus.EXCUSED)
+    ) {
+      status = AttendanceStatus.EXCUSED
+      notEnrolledYet = true
+    } else if (expectedAbsence && status === AttendanceStatus.EXCUSED) {
+      expectedAbsenceId = expectedAbsence.id
+      if (!notes) notes = expectedAbsence.reason
+    }
+  }
+
+  return { status, notes, notEnrolledYet, expectedAbsenceId }
+}
+
+export interface LessonTiming {
+  // "HH:MM", or null when neither the lesson nor its year sets a start time
+  startTime: string | null
+  lateGraceMinutes: number
+}
+
+/**
+ * Resolve a lesson's start time and grace period. Values set on the lesson
+ * override the academic year's defaults.
+ */
+export function resolveLessonTiming(
+  lesson: { startTime?: string | null; lateGraceMinutes?: number | null },
+  year?: { defaultLessonStartTime?: string | null; defaultLateGraceMinutes?: number | null } | null
+): LessonTiming {
+  return {
+    startTime: lesson.startTime || year?.defaultLessonStartTime || null,
+    lateGraceMinutes: lesson.lateGraceMinutes ?? year?.defaultLateGraceMinutes ?? 0,
+  }
+}
+
+/**
+ * Parse an "HH:MM" or "HH:MM:SS" clock time into minutes after midnight
+ *
+ * @returns Minutes after midnight, or null if the string isn't a valid time
+ */
+export function parseClockMinutes(time: string | null | undefined): number | null {
+  if (!time) return null
+  const match = /^(\d{1,2}):(\d{2})(?::\d{2})?$/.exec(time.trim())
+  if (!match) return null
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59) return null
+  return hours * 60 + minutes
+}
+
+/**
+ * Validate lesson timing values from a request body. Empty values clear the
+ * field (null) and undefined values are left out, so updates can be partial.
+ * Start times are normalized to zero-padded "HH:MM".
+ */
+export function parseLessonTimingInput(
+  startTime: unknown,
+  lateGraceMinutes: unknown
+): { data: { startTime?: string | null; lateGraceMinutes?: number | null }; error?: string } {
+  const data: { startTime?: string | null; lateGraceMinutes?: number | null } = {}
+
+  if (startTime !== undefined) {
+    if (startTime === null || startTime === '') {
+      data.startTime = null
+    } else {
+      const minutes = typeof startTime === 'string' ? parseClockMinutes(startTime) : null
+      if (minutes === null) {
+        return { data, error: 'startTime must be a time in HH:MM format' }
+      }
+      data.startTime = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+    }
+  }
+
+  if (lateGraceMinutes !== undefined) {
+    if (lateGraceMinutes === null || lateGraceMinutes === '') {
+      data.lateGraceMinutes = null
+    } else {
+      const value = Number(lateGraceMinutes)
+      if (!Number.isInteger(value) || value < 0 || value > 120) {
+        return { data, error: 'lateGraceMinutes must be a whole number between 0 and 120' }
+      }
+      data.lateGraceMinutes = value
+    }
+  }
+
+  return { data }
+}
+
+/**
+ * Minutes between the lesson start and an arrival, both "HH:MM". Arrivals
+ * at or before the start are 0 minutes late.
+ *
+ * @returns Minutes late, or null if either time is missing or invalid
+ */
+export function calculateMinutesLate(
+  arrivedAt: string | null | undefined,
+  startTime: string | null | undefined
+): number | null {
+  const arrival = parseClockMinutes(arrivedAt)
+  const start = parseClockMinutes(startTime)
+  if (arrival === null || start === null) return null
+  return Math.max(0, arrival - start)
+}
+
+/**
+ * Derive PRESENT/LATE from an arrival time. Only a requested PRESENT or LATE
+ * is reclassified; ABSENT, EXCUSED and conduct removals are left alone, as is
+ * everything when the lesson has no start time or no arrival was entered.
+ */
+export function deriveArrivalStatus(
+  requested: { status: AttendanceStatus; arrivedAt?: string | null; conductRemoval?: boolean },
+  timing: LessonTiming
+): { status: AttendanceStatus; minutesLate: number | null } {
+  const { status, arrivedAt, conductRemoval } = requested
+  if (conductRemoval || (status !== AttendanceStatus.PRESENT && status !== AttendanceStatus.LATE)) {
+    return { status, minutesLate: null }
+  }
+
+  const minutesLate = calculateMinutesLate(arrivedAt, timing.startTime)
+  if (minutesLate === null) {
+    return { status, minutesLate: null }
+  }
+
+  return {
+    status: minutesLate > timing.lateGraceMinutes ? AttendanceStatus.LATE : AttendanceStatus.PRESENT,
+    minutesLate,
+  }
+}
+
+/**
+ * Average minutes late across LATE records that have an arrival time
+ *
+ * @returns Average rounded to one decimal, or null if no timed late arrivals
+ */
+export function calculateAverageLateness(
+  records: Array<{ status: AttendanceStatus; minutesLate?: number | null }>
+): number | null {
+  const timed = records.filter(
+    r => r.status === AttendanceStatus.LATE && r.minutesLate !== null && r.minutesLate !== undefined
+  )
+  if (timed.length === 0) return null
+  const total = timed.reduce((sum, r) => sum + (r.minutesLate ?? 0), 0)
+  return Math.round((total / timed.length) * 10) / 10
+}
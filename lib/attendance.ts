@@ -1,19 +1,23 @@
 /**
  * Attendance calculation utilities
  *
- * Formula: (Present + (Lates / 2)) / (TotalLessons - Excused)
+ * Formula: (Present + (Lates * LateWeight)) / (TotalLessons - Excused)
  *
  * - PRESENT counts as 1
- * - LATE counts as 0.5 (2 lates = 1 absence)
+ * - LATE counts as the policy's lateWeight (default 0.5, so 2 lates = 1 absence)
  * - ABSENT counts as 0
  * - EXCUSED is excluded from both numerator and denominator
+ * - Conduct removals are treated as EXCUSED when the policy doesn't count them as absences
  * - Lessons marked as isExamDay are excluded from calculations
  */
 
+import { DEFAULT_ATTENDANCE_POLICY, type AttendancePolicy } from './attendance-policy'
+
 export type AttendanceStatus = 'PRESENT' | 'LATE' | 'ABSENT' | 'EXCUSED'
 
 export interface AttendanceRecord {
   status: AttendanceStatus
+  conductRemoval?: boolean
 }
 
 export interface AttendanceStats {
@@ -34,21 +38,26 @@ export interface AttendanceStats {
  *
  * @param records - Array of attendance records with status
  * @param totalLessonsWithAttendance - Total number of lessons where attendance was taken (excludes exam days)
- * @param requiredPercentage - Minimum percentage required (default: 75)
+ * @param policy - Attendance policy, or just the minimum percentage required (default policy: 75%)
  * @returns AttendanceStats object with all calculated values
  */
 export function calculateAttendanceStats(
   records: AttendanceRecord[],
   totalLessonsWithAttendance: number,
-  requiredPercentage: number = 75
+  policy: AttendancePolicy | number = DEFAULT_ATTENDANCE_POLICY
 ): AttendanceStats {
-  const presentCount = records.filter(r => r.status === 'PRESENT').length
-  const lateCount = records.filter(r => r.status === 'LATE').length
-  const absentCount = records.filter(r => r.status === 'ABSENT').length
-  const excusedCount = records.filter(r => r.status === 'EXCUSED').length
-
-  // Formula: (Present + (Lates / 2)) / (TotalLessons - Excused)
-  const effectivePresent = presentCount + (lateCount / 2)
+  const { requiredPercentage, lateWeight, conductRemovalCountsAsAbsence } = typeof policy === 'number'
+    ? { ...DEFAULT_ATTENDANCE_POLICY, requiredPercentage: policy }
+    : policy
+  const counted = conductRemovalCountsAsAbsence ? records : records.filter(r => !r.conductRemoval)
+
+  const presentCount = counted.filter(r => r.status === 'PRESENT').length
+  const lateCount = counted.filter(r => r.status === 'LATE').length
+  const absentCount = counted.filter(r => r.status === 'ABSENT').length
+  const excusedCount = counted.filter(r => r.status === 'EXCUSED').length + (records.length - counted.length)
+
+  // Formula: (Present + (Lates * LateWeight)) / (TotalLessons - Excused)
+  const effectivePresent = presentCount + (lateCount * lateWeight)
   const effectiveTotalLessons = totalLessonsWithAttendance - excusedCount
   const percentage = effectiveTotalLessons > 0
     ? (effectivePresent / effectiveTotalLessons) * 100
@@ -74,23 +83,25 @@ export function calculateAttendanceStats(
  *
  * @param records - Array of attendance records
  * @param totalLessons - Total lessons with attendance taken
- * @param requiredPercentage - Minimum required percentage (default: 75)
+ * @param policy - Attendance policy, or just the minimum percentage required (default policy: 75%)
  * @returns boolean indicating if requirement is met
  */
 export function meetsAttendanceRequirement(
   records: AttendanceRecord[],
   totalLessons: number,
-  requiredPercentage: number = 75
+  policy: AttendancePolicy | number = DEFAULT_ATTENDANCE_POLICY
 ): boolean {
-  return calculateAttendanceStats(records, totalLessons, requiredPercentage).met
+  return calculateAttendanceStats(records, totalLessons, policy).met
 }
 
 /**
  * Calculate exam section averages and overall average
  */
 export interface ExamScore {
-  percentage: number
+  percentage: number // Curved percentage when the exam has a curve
   sectionName: string
+  weight?: number // The exam's weight within its section (default 1)
+  sectionWeight?: number // The section's weight in the overall average (default 1)
 }
 
 export interface ExamStats {
@@ -102,10 +113,21 @@ export interface ExamStats {
   requiredMinimum: number
 }
 
+function weightedMean(values: { value: number; weight: number }[]): number {
+  const totalWeight = values.reduce((sum, v) => sum + v.weight, 0)
+  return totalWeight > 0
+    ? values.reduce((sum, v) => sum + v.value * v.weight, 0) / totalWeight
+    : 0
+}
+
 /**
  * Calculate exam statistics from exam scores
  *
- * @param scores - Array of exam scores with percentage and section
+ * Section averages weigh each exam by its weight; the overall average weighs
+ * each exam by its weight times its section's weight. Without weights both
+ * are plain means.
+ *
+ * @param scores - Array of exam scores with percentage, section and optional weights
  * @param requiredAverage - Minimum overall average required (default: 75)
  * @param requiredMinimum - Minimum per-section average required (default: 60)
  */
@@ -115,17 +137,17 @@ export function calculateExamStats(
   requiredMinimum: number = 60
 ): ExamStats {
   // Group scores by section
-  const scoresBySection: { [key: string]: number[] } = {}
+  const scoresBySection: { [key: string]: ExamScore[] } = {}
   scores.forEach(score => {
     if (!scoresBySection[score.sectionName]) {
       scoresBySection[score.sectionName] = []
     }
-    scoresBySection[score.sectionName].push(score.percentage)
+    scoresBySection[score.sectionName].push(score)
   })
 
   // Calculate averages per section
   const sectionAverages = Object.entries(scoresBySection).map(([section, sectionScores]) => {
-    const average = sectionScores.reduce((a, b) => a + b, 0) / sectionScores.length
+    const average = weightedMean(sectionScores.map(s => ({ value: s.percentage, weight: s.weight ?? 1 })))
     return {
       section,
       average,
@@ -134,10 +156,10 @@ export function calculateExamStats(
   })
 
   // Calculate overall average
-  const allScores = Object.values(scoresBySection).flat()
-  const overallAverage = allScores.length > 0
-    ? allScores.reduce((a, b) => a + b, 0) / allScores.length
-    : 0
+  const overallAverage = weightedMean(scores.map(s => ({
+    value: s.percentage,
+    weight: (s.weight ?? 1) * (s.sectionWeight ?? 1),
+  })))
   const overallAverageMet = overallAverage >= requiredAverage
 
   // Check if all sections have at least minimum
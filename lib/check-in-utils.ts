@@ -0,0 +1,72 @@
+import { AttendanceStatus } from '@prisma/client'
+
+// ============================================
+// Code Generation
+// ============================================
+
+// How long a single rotating code stays valid. The kiosk rotates every
+// CHECK_IN_ROTATE_SECONDS, so a code scanned just before rotation still works.
+export const CHECK_IN_CODE_TTL_SECONDS = 90
+export const CHECK_IN_ROTATE_SECONDS = 60
+
+// Exclude confusable chars (0/O, 1/I/L). Uses Web Crypto so this module can
+// also be imported by the kiosk page in the browser.
+const ALPHANUMERIC = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+export function generateCheckInCode(): string {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(6))
+  let code = ''
+  for (let i = 0; i < 6; i++) {
+    code += ALPHANUMERIC[bytes[i] % ALPHANUMERIC.length]
+  }
+  return code
+}
+
+export function getCheckInCodeValidUntil(generatedAt: Date = new Date()): Date {
+  return new Date(generatedAt.getTime() + CHECK_IN_CODE_TTL_SECONDS * 1000)
+}
+
+export function normalizeCheckInCode(code: string): string {
+  return code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+/**
+ * Build the URL encoded in the kiosk QR code. Scanning it opens the student
+ * check-in page with the code pre-filled.
+ */
+export function buildCheckInUrl(origin: string, code: string): string {
+  return `${origin}/dashboard/student/check-in?code=${encodeURIComponent(code)}`
+}
+
+// ============================================
+// Status Classification
+// ============================================
+
+/**
+ * Classify a self check-in: on time (at or before the lesson start plus the
+ * grace period) is PRESENT, anything after is LATE.
+ */
+export function getCheckInStatus(scannedAt: Date, startsAt: Date, graceMinutes: number = 0): AttendanceStatus {
+  return scannedAt.getTime() <= startsAt.getTime() + graceMinutes * 60 * 1000
+    ? AttendanceStatus.PRESENT
+    : AttendanceStatus.LATE
+}
+
+/**
+ * Whole minutes between the lesson start and a scan; 0 for early scans.
+ */
+export function getCheckInMinutesLate(scannedAt: Date, startsAt: Date): number {
+  return Math.max(0, Math.floor((scannedAt.getTime() - startsAt.getTime()) / (60 * 1000)))
+}
+
+/**
+ * Whether a lesson on `lessonDate` can take check-ins on `now`. Mirrors the
+ * batch save rule: attendance cannot be recorded before the lesson date.
+ */
+export function isLessonOpenForCheckIn(lessonDate: Date, now: Date = new Date()): boolean {
+  const today = new Date(now)
+  today.setHours(0, 0, 0, 0)
+  const lessonDay = new Date(lessonDate)
+  lessonDay.setHours(0, 0, 0, 0)
+  return lessonDay <= today
+}
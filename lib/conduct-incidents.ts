@@ -0,0 +1,253 @@
+import { ConductIncidentStatus, ConductSeverity } from '@prisma/client'
+import { prisma } from './prisma'
+import type { AttendanceChange } from './attendance-history'
+
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
+
+// Incidents in one academic year at which the student is escalated to the priests
+export const CONDUCT_ESCALATION_THRESHOLD = 3
+
+// Incidents that count toward a student's record; withdrawn ones (the removal
+// was undone) are kept for their follow-up history but don't count
+export const COUNTED_CONDUCT_INCIDENTS = { status: { not: ConductIncidentStatus.WITHDRAWN } }
+
+// ============================================
+// Types
+// ============================================
+
+export interface ConductIncidentContext {
+  academicYearId: string
+  occurredAt: Date
+  reportedBy?: string | null
+}
+
+/** Incident writes needed to mirror a set of attendance changes */
+export interface ConductIncidentSyncPlan {
+  toCreate: Array<{ attendanceRecordId: string; lessonId: string; studentId: string; description: string }>
+  toUpdate: Array<{ attendanceRecordId: string; description: string }>
+  // Attendance record ids whose conduct removal was undone
+  toWithdraw: string[]
+}
+
+export interface EscalatedConductIncident {
+  incidentId: string
+  studentId: string
+  incidentCount: number
+  escalatedAt: Date
+}
+
+/** Fields an admin or mentor can set on an incident */
+export interface ConductIncidentInput {
+  severity?: ConductSeverity
+  description?: string
+  occurredAt?: Date
+  followUpActions?: string | null
+  meetingDate?: Date | null
+  meetingOutcome?: string | null
+  status?: ConductIncidentStatus
+  resolutionNote?: string | null
+}
+
+// ============================================
+// Planning & Validation
+// ============================================
+
+/**
+ * Work out which incidents to open, re-describe or withdraw after attendance
+ * records were saved. A new conduct removal opens an incident (or reopens the
+ * one withdrawn earlier), editing the conduct note updates its description,
+ * and clearing the removal withdraws it.
+ */
+export function planConductIncidentSync(changes: AttendanceChange[]): ConductIncidentSyncPlan {
+  const plan: ConductIncidentSyncPlan = { toCreate: [], toUpdate: [], toWithdraw: [] }
+
+  for (const { attendanceRecordId, lessonId, studentId, before, after } of changes) {
+    if (!attendanceRecordId || !after) continue
+    const wasRemoved = !!before?.conductRemoval
+    const description = after.conductNote?.trim() || 'Removed from lesson'
+
+    if (after.conductRemoval && !wasRemoved) {
+      plan.toCreate.push({ attendanceRecordId, lessonId, studentId, description })
+    } else if (!after.conductRemoval && wasRemoved) {
+      plan.toWithdraw.push(attendanceRecordId)
+    } else if (after.conductRemoval && (before?.conductNote ?? null) !== (after.conductNote ?? null)) {
+      plan.toUpdate.push({ attendanceRecordId, description })
+    }
+  }
+
+  return plan
+}
+
+export function shouldEscalateConduct(incidentCount: number, threshold = CONDUCT_ESCALATION_THRESHOLD): boolean {
+  return incidentCount >= threshold
+}
+
+function parseOptionalText(value: unknown): string | null | undefined {
+  if (value === undefined) return undefined
+  if (value === null) return null
+  if (typeof value !== 'string') return undefined
+  return value.trim() || null
+}
+
+function parseOptionalDate(value: unknown): Date | null | undefined | 'invalid' {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+  const date = new Date(value as string)
+  return isNaN(date.getTime()) ? 'invalid' : date
+}
+
+/**
+ * Validate a create or update body. Creating requires a description; updates
+ * only touch the fields that are present.
+ */
+export function parseConductIncidentInput(
+  body: Record<string, unknown>,
+  { requireDescription = false }: { requireDescription?: boolean } = {}
+): { data?: ConductIncidentInput; error?: string } {
+  const data: ConductIncidentInput = {}
+
+  if (body.severity !== undefined) {
+    if (!Object.values(ConductSeverity).includes(body.severity as ConductSeverity)) {
+      return { error: `Invalid severity. Must be one of: ${Object.values(ConductSeverity).join(', ')}` }
+    }
+    data.severity = body.severity as ConductSeverity
+  }
+
+  if (body.status !== undefined) {
+    if (!Object.values(ConductIncidentStatus).includes(body.status as ConductIncidentStatus)) {
+      return { error: `Invalid status. Must be one of: ${Object.values(ConductIncidentStatus).join(', ')}` }
+    }
+    data.status = body.status as ConductIncidentStatus
+  }
+
+  if (body.description !== undefined || requireDescription) {
+    if (typeof body.description !== 'string' || !body.description.trim()) {
+      return { error: 'A description is required' }
+    }
+    data.description = body.description.trim()
+  }
+
+  const occurredAt = parseOptionalDate(body.occurredAt)
+  if (occurredAt === 'invalid') return { error: 'Invalid incident date' }
+  if (occurredAt) data.occurredAt = occurredAt
+
+  const meetingDate = parseOptionalDate(body.meetingDate)
+  if (meetingDate === 'invalid') return { error: 'Invalid meeting date' }
+  if (meetingDate !== undefined) data.meetingDate = meetingDate
+
+  const followUpActions = parseOptionalText(body.followUpActions)
+  if (followUpActions !== undefined) data.followUpActions = followUpActions
+  const meetingOutcome = parseOptionalText(body.meetingOutcome)
+  if (meetingOutcome !== undefined) data.meetingOutcome = meetingOutcome
+  const resolutionNote = parseOptionalText(body.resolutionNote)
+  if (resolutionNote !== undefined) data.resolutionNote = resolutionNote
+
+  return { data }
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+/**
+ * Flag an incident as escalated when it brings the student's incidents for
+ * the year to the threshold or beyond. Callers notify the priests.
+ */
+export async function escalateRepeatIncident(
+  incident: { id: string; studentId: string; academicYearId: string },
+  tx?: PrismaTx
+): Promise<EscalatedConductIncident | null> {
+  const db = tx || prisma
+  const incidentCount = await db.conductIncident.count({
+    where: { studentId: incident.studentId, academicYearId: incident.academicYearId, ...COUNTED_CONDUCT_INCIDENTS },
+  })
+  if (!shouldEscalateConduct(incidentCount)) return null
+
+  const escalatedAt = new Date()
+  await db.conductIncident.update({
+    where: { id: incident.id },
+    data: { escalatedAt },
+  })
+  return { incidentId: incident.id, studentId: incident.studentId, incidentCount, escalatedAt }
+}
+
+/**
+ * Keep conduct incidents in step with conduct removals on attendance records.
+ * Pass the transaction the record writes run in. Returns the new incidents
+ * that were escalated.
+ */
+export async function syncConductIncidents(
+  changes: AttendanceChange[],
+  context: ConductIncidentContext,
+  tx?: PrismaTx
+): Promise<EscalatedConductIncident[]> {
+  const plan = planConductIncidentSync(changes)
+  const db = tx || prisma
+
+  if (plan.toWithdraw.length > 0) {
+    await db.conductIncident.updateMany({
+      where: { attendanceRecordId: { in: plan.toWithdraw } },
+      data: { status: ConductIncidentStatus.WITHDRAWN },
+    })
+  }
+
+  for (const update of plan.toUpdate) {
+    await db.conductIncident.updateMany({
+      where: { attendanceRecordId: update.attendanceRecordId },
+      data: { description: update.description },
+    })
+  }
+
+  const escalated: EscalatedConductIncident[] = []
+  for (const create of plan.toCreate) {
+    // A removal that was undone and made again reopens its withdrawn incident
+    const incident = await db.conductIncident.upsert({
+      where: { attendanceRecordId: create.attendanceRecordId },
+      update: { description: create.description, status: ConductIncidentStatus.OPEN },
+      create: {
+        ...create,
+        academicYearId: context.academicYearId,
+        occurredAt: context.occurredAt,
+        reportedBy: context.reportedBy ?? null,
+      },
+    })
+    const escalation = await escalateRepeatIncident(incident, tx)
+    if (escalation) escalated.push(escalation)
+  }
+
+  return escalated
+}
+
+/**
+ * Open an incident for every conduct removal recorded before incidents
+ * existed, so counts and escalation include them. Safe to run repeatedly:
+ * removals that already have an incident are skipped, and nobody is
+ * notified. Returns how many incidents were created.
+ */
+export async function backfillConductIncidents(): Promise<number> {
+  const records = await prisma.attendanceRecord.findMany({
+    where: { conductRemoval: true, conductIncident: null },
+    select: {
+      id: true,
+      lessonId: true,
+      studentId: true,
+      conductNote: true,
+      recordedBy: true,
+      lesson: { select: { academicYearId: true, scheduledDate: true } },
+    },
+  })
+
+  const { count } = await prisma.conductIncident.createMany({
+    data: records.map(record => ({
+      attendanceRecordId: record.id,
+      lessonId: record.lessonId,
+      studentId: record.studentId,
+      academicYearId: record.lesson.academicYearId,
+      occurredAt: record.lesson.scheduledDate,
+      description: record.conductNote?.trim() || 'Removed from lesson',
+      reportedBy: record.recordedBy,
+    })),
+    skipDuplicates: true,
+  })
+  return count
+}
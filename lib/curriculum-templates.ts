@@ -0,0 +1,306 @@
+/**
+ * Curriculum templates
+ *
+ * A year's lessons saved as a reusable plan: titles, sections, speakers,
+ * resource links and timing, with each lesson's position stored as weeks after
+ * the first lesson. Applying a template to a new academic year lays the
+ * lessons out from a chosen first date, pushing a lesson (and everything
+ * after it) back a week whenever it lands on a blackout date. The admin
+ * previews the dates before any lessons are created.
+ */
+import { LessonStatus } from '@prisma/client'
+import { prisma } from './prisma'
+import { speakerAssignmentData } from './speakers'
+
+// ============================================
+// Types
+// ============================================
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/
+
+export interface TemplateResource {
+  title: string
+  url: string
+  type: string | null
+}
+
+export interface TemplateLessonData {
+  order: number
+  weekOffset: number
+  examSectionId: string
+  title: string
+  subtitle: string | null
+  description: string | null
+  speaker: string | null
+  speakerId: string | null // Speaker from the directory, asked again when applied
+  isExamDay: boolean
+  startTime: string | null
+  lateGraceMinutes: number | null
+  resources: TemplateResource[]
+}
+
+export interface SourceLesson extends Omit<TemplateLessonData, 'order' | 'weekOffset'> {
+  scheduledDate: Date
+  status: LessonStatus
+}
+
+export interface TemplateApplyInput {
+  academicYearId: string
+  startDate: Date // Date of the template's first lesson
+  blackoutDates: string[] // "YYYY-MM-DD"
+}
+
+export interface PlannedTemplateLesson {
+  order: number
+  title: string
+  examSectionId: string
+  scheduledDate: Date
+  weeksShifted: number // Weeks pushed back by blackout dates
+  outsideYear: boolean
+  clashesWithExisting: boolean // The new year already has a lesson that day
+}
+
+// ============================================
+// Building & Planning
+// ============================================
+
+/** "YYYY-MM-DD" of the date's UTC day */
+export function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Turn a year's lessons into template lessons, in date order. Cancelled and
+ * no-class lessons are left out since they didn't take place.
+ */
+export function toTemplateLessons(lessons: SourceLesson[]): TemplateLessonData[] {
+  const held = lessons
+    .filter(l => l.status !== LessonStatus.CANCELLED && l.status !== LessonStatus.NO_CLASS)
+    .sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime())
+  if (held.length === 0) return []
+
+  const first = held[0].scheduledDate.getTime()
+  return held.map(({ scheduledDate, status: _status, ...lesson }, index) => ({
+    ...lesson,
+    order: index + 1,
+    weekOffset: Math.round((scheduledDate.getTime() - first) / WEEK_MS),
+  }))
+}
+
+/**
+ * Date each template lesson from the first lesson's date. A lesson that lands
+ * on a blackout date moves to the next free week and the lessons after it
+ * move with it, so the spacing between lessons is kept.
+ */
+export function planTemplateLessons(
+  lessons: Pick<TemplateLessonData, 'order' | 'weekOffset' | 'title' | 'examSectionId'>[],
+  options: {
+    startDate: Date
+    blackoutDates: string[]
+    academicYear: { startDate: Date; endDate: Date }
+    existingLessonDates: Date[]
+  }
+): PlannedTemplateLesson[] {
+  const blackouts = new Set(options.blackoutDates)
+  const existing = new Set(options.existingLessonDates.map(toDayKey))
+  const firstDay = toDayKey(options.academicYear.startDate)
+  const lastDay = toDayKey(options.academicYear.endDate)
+
+  let shift = 0
+  return [...lessons]
+    .sort((a, b) => a.order - b.order)
+    .map(lesson => {
+      let scheduledDate = new Date(options.startDate.getTime() + (lesson.weekOffset + shift) * WEEK_MS)
+      while (blackouts.has(toDayKey(scheduledDate))) {
+        shift++
+        scheduledDate = new Date(scheduledDate.getTime() + WEEK_MS)
+      }
+      const day = toDayKey(scheduledDate)
+      return {
+        order: lesson.order,
+        title: lesson.title,
+        examSectionId: lesson.examSectionId,
+        scheduledDate,
+        weeksShifted: shift,
+        outsideYear: day < firstDay || day > lastDay,
+        clashesWithExisting: existing.has(day),
+      }
+    })
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/** Validate the save body: a template name and the academic year to save from */
+export function parseTemplateInput(
+  body: Record<string, unknown>
+): { data?: { name: string; description: string | null; academicYearId: string }; error?: string } {
+  const { name, description, academicYearId } = body
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'A template name is required' }
+  }
+  if (typeof academicYearId !== 'string' || !academicYearId) {
+    return { error: 'academicYearId is required' }
+  }
+  return {
+    data: {
+      name: name.trim(),
+      description: typeof description === 'string' && description.trim() ? description.trim() : null,
+      academicYearId,
+    },
+  }
+}
+
+/** Validate the apply body: the target year, the first lesson's date and optional blackout dates */
+export function parseTemplateApplyInput(body: Record<string, unknown>): { data?: TemplateApplyInput; error?: string } {
+  const { academicYearId, startDate, blackoutDates = [] } = body
+  if (typeof academicYearId !== 'string' || !academicYearId) {
+    return { error: 'academicYearId is required' }
+  }
+  if (typeof startDate !== 'string' || !DAY_KEY.test(startDate) || isNaN(new Date(startDate).getTime())) {
+    return { error: 'Choose the date of the first lesson' }
+  }
+  if (!Array.isArray(blackoutDates) ||
+      blackoutDates.some(d => typeof d !== 'string' || !DAY_KEY.test(d) || isNaN(new Date(d).getTime()))) {
+    return { error: 'Blackout dates must be a list of YYYY-MM-DD dates' }
+  }
+  return {
+    data: {
+      academicYearId,
+      startDate: new Date(startDate),
+      blackoutDates: [...new Set(blackoutDates as string[])].sort(),
+    },
+  }
+}
+
+// ============================================
+// Database Operations
+// ============================================
+
+/** Save an academic year's lessons as a new template */
+export async function createTemplateFromYear(
+  input: { name: string; description: string | null; academicYearId: string },
+  userId: string
+) {
+  const lessons = await prisma.lesson.findMany({
+    where: { academicYearId: input.academicYearId },
+    // Uploaded files belong to the year's lessons; templates keep the links
+    include: { resources: { where: { filename: null }, orderBy: { createdAt: 'asc' } } },
+  })
+  const templateLessons = toTemplateLessons(lessons.map(lesson => ({
+    scheduledDate: lesson.scheduledDate,
+    status: lesson.status,
+    examSectionId: lesson.examSectionId,
+    title: lesson.title,
+    subtitle: lesson.subtitle,
+    description: lesson.description,
+    speaker: lesson.speaker,
+    speakerId: lesson.speakerId,
+    isExamDay: lesson.isExamDay,
+    startTime: lesson.startTime,
+    lateGraceMinutes: lesson.lateGraceMinutes,
+    resources: lesson.resources.map(({ title, url, type }) => ({ title, url, type })),
+  })))
+
+  return prisma.curriculumTemplate.create({
+    data: {
+      name: input.name,
+      description: input.description,
+      sourceAcademicYearId: input.academicYearId,
+      createdBy: userId,
+      lessons: {
+        create: templateLessons.map(({ resources, ...lesson }) => ({
+          ...lesson,
+          resources: { create: resources },
+        })),
+      },
+    },
+    include: { _count: { select: { lessons: true } } },
+  })
+}
+
+/**
+ * The dates a template's lessons would get in the target year. Returns null
+ * when the template or the year doesn't exist.
+ */
+export async function getTemplatePlan(templateId: string, input: TemplateApplyInput) {
+  const [template, academicYear] = await Promise.all([
+    prisma.curriculumTemplate.findUnique({
+      where: { id: templateId },
+      include: {
+        lessons: {
+          orderBy: { order: 'asc' },
+          include: {
+            resources: true,
+            examSection: { select: { displayName: true } },
+            assignedSpeaker: { select: { id: true, name: true, isActive: true } },
+          },
+        },
+      },
+    }),
+    prisma.academicYear.findUnique({ where: { id: input.academicYearId } }),
+  ])
+  if (!template || !academicYear) return null
+
+  const existingLessons = await prisma.lesson.findMany({
+    where: { academicYearId: input.academicYearId },
+    select: { scheduledDate: true },
+  })
+
+  const plan = planTemplateLessons(template.lessons, {
+    startDate: input.startDate,
+    blackoutDates: input.blackoutDates,
+    academicYear,
+    existingLessonDates: existingLessons.map(l => l.scheduledDate),
+  })
+  return { template, academicYear, plan }
+}
+
+export type TemplatePlan = NonNullable<Awaited<ReturnType<typeof getTemplatePlan>>>
+
+/**
+ * Create a planned template's lessons in the target year on the planned
+ * dates, numbered after the year's existing lessons. Speakers still active
+ * in the directory are assigned again and need to confirm the new dates.
+ */
+export async function applyTemplatePlan(planned: TemplatePlan, userId: string) {
+  const academicYearId = planned.academicYear.id
+  const lessonsByOrder = new Map(planned.template.lessons.map(l => [l.order, l]))
+
+  return prisma.$transaction(async (tx) => {
+    const maxResult = await tx.lesson.aggregate({
+      where: { academicYearId },
+      _max: { lessonNumber: true },
+    })
+    let lessonNumber = maxResult._max.lessonNumber ?? 0
+
+    const created = []
+    for (const entry of planned.plan) {
+      const lesson = lessonsByOrder.get(entry.order)!
+      created.push(await tx.lesson.create({
+        data: {
+          academicYearId,
+          examSectionId: lesson.examSectionId,
+          title: lesson.title,
+          subtitle: lesson.subtitle,
+          description: lesson.description,
+          ...(lesson.assignedSpeaker?.isActive
+            ? speakerAssignmentData(lesson.assignedSpeaker)
+            : { speaker: lesson.speaker }),
+          isExamDay: lesson.isExamDay,
+          startTime: lesson.startTime,
+          lateGraceMinutes: lesson.lateGraceMinutes,
+          scheduledDate: entry.scheduledDate,
+          lessonNumber: ++lessonNumber,
+          createdBy: userId,
+          resources: {
+            create: lesson.resources.map(({ title, url, type }) => ({ title, url, type })),
+          },
+        },
+      }))
+    }
+    return created
+  })
+}
@@ -0,0 +1,345 @@
+/**
+ * Exam calendar
+ *
+ * Checks a proposed exam date against the rest of the calendar before the
+ * exam is scheduled: the academic year's dates (a hard error), lessons that
+ * were cancelled or marked no-class that day, and weeks when many of the
+ * exam's students are expected to be away or are serving Sunday School
+ * (warnings the admin can confirm past).
+ *
+ * Regular exams are tied to an exam-day lesson on the same date so the
+ * lesson's isExamDay flag and the exam's date can't drift apart: scheduling
+ * an exam flags (or creates) that day's lesson, and moving the lesson moves
+ * its exams. A created lesson is numbered in date order.
+ */
+import { ExamYearLevel, LessonStatus } from '@prisma/client'
+import { prisma } from './prisma'
+
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
+
+// ============================================
+// Types
+// ============================================
+
+// Warn when at least this share of the exam's students are away that week
+export const ABSENCE_WARNING_SHARE = 0.2
+
+export type ExamDateConflictType =
+  | 'OUTSIDE_ACADEMIC_YEAR'
+  | 'LESSON_CANCELLED'
+  | 'NO_CLASS'
+  | 'EXPECTED_ABSENCES'
+  | 'SUNDAY_SCHOOL'
+
+export interface ExamDateConflict {
+  type: ExamDateConflictType
+  severity: 'error' | 'warning' // Errors block scheduling; warnings need confirming
+  message: string
+}
+
+export interface ExamDateContext {
+  examDate: Date
+  academicYear: { name: string; startDate: Date; endDate: Date }
+  lessons: { title: string; status: LessonStatus; cancellationReason: string | null }[] // On the exam day
+  studentCount: number
+  absentStudentCount: number // Students with an expected absence that week
+  sundaySchoolStudentCount: number // Students serving Sunday School that day
+}
+
+export interface ExamDateInput {
+  academicYearId: string
+  examDate: Date
+  yearLevel: ExamYearLevel
+}
+
+// ============================================
+// Date Ranges
+// ============================================
+
+/** Start and end of the date's UTC day */
+export function utcDayRange(date: Date): { start: Date; end: Date } {
+  const start = new Date(date)
+  start.setUTCHours(0, 0, 0, 0)
+  const end = new Date(start)
+  end.setUTCHours(23, 59, 59, 999)
+  return { start, end }
+}
+
+/** Sunday to Saturday (UTC) around the date */
+export function utcWeekRange(date: Date): { start: Date; end: Date } {
+  const start = utcDayRange(date).start
+  start.setUTCDate(start.getUTCDate() - start.getUTCDay())
+  const end = new Date(start)
+  end.setUTCDate(end.getUTCDate() + 6)
+  end.setUTCHours(23, 59, 59, 999)
+  return { start, end }
+}
+
+/** Whether a Sunday School assignment has its students serving on the date's weekday that week */
+export function sundaySchoolCoversDate(
+  assignment: { startDate: Date; totalWeeks: number },
+  date: Date
+): boolean {
+  const first = utcDayRange(assignment.startDate).start
+  const day = utcDayRange(date).start
+  const daysIn = Math.round((day.getTime() - first.getTime()) / (24 * 60 * 60 * 1000))
+  return daysIn >= 0 && daysIn % 7 === 0 && daysIn / 7 < assignment.totalWeeks
+}
+
+// ============================================
+// Conflicts
+// ============================================
+
+export function findExamDateConflicts(context: ExamDateContext): ExamDateConflict[] {
+  const { examDate, academicYear } = context
+  const conflicts: ExamDateConflict[] = []
+
+  const day = utcDayRange(examDate)
+  if (day.end < academicYear.startDate || day.start > academicYear.endDate) {
+    conflicts.push({
+      type: 'OUTSIDE_ACADEMIC_YEAR',
+      severity: 'error',
+      message: `The exam date is outside the ${academicYear.name} academic year`,
+    })
+  }
+
+  for (const lesson of context.lessons) {
+    if (lesson.status === 'CANCELLED') {
+      conflicts.push({
+        type: 'LESSON_CANCELLED',
+        severity: 'warning',
+        message: `"${lesson.title}" was cancelled that day${lesson.cancellationReason ? ` (${lesson.cancellationReason})` : ''}`,
+      })
+    } else if (lesson.status === 'NO_CLASS') {
+      conflicts.push({
+        type: 'NO_CLASS',
+        severity: 'warning',
+        message: `That day is marked as no class ("${lesson.title}")`,
+      })
+    }
+  }
+
+  if (context.studentCount > 0 && context.absentStudentCount / context.studentCount >= ABSENCE_WARNING_SHARE) {
+    conflicts.push({
+      type: 'EXPECTED_ABSENCES',
+      severity: 'warning',
+      message: `${context.absentStudentCount} of ${context.studentCount} students expect to be away that week`,
+    })
+  }
+
+  if (context.sundaySchoolStudentCount > 0) {
+    conflicts.push({
+      type: 'SUNDAY_SCHOOL',
+      severity: 'warning',
+      message: `${context.sundaySchoolStudentCount} student(s) are serving Sunday School that day`,
+    })
+  }
+
+  return conflicts
+}
+
+/**
+ * Check a proposed exam date for the students in its year level. Returns null
+ * when the academic year doesn't exist.
+ */
+export async function checkExamDate(input: ExamDateInput): Promise<ExamDateConflict[] | null> {
+  const academicYear = await prisma.academicYear.findUnique({
+    where: { id: input.academicYearId },
+    select: { name: true, startDate: true, endDate: true },
+  })
+  if (!academicYear) return null
+
+  const day = utcDayRange(input.examDate)
+  const week = utcWeekRange(input.examDate)
+
+  const [lessons, students] = await Promise.all([
+    prisma.lesson.findMany({
+      where: {
+        academicYearId: input.academicYearId,
+        scheduledDate: { gte: day.start, lte: day.end },
+      },
+      select: { title: true, status: true, cancellationReason: true },
+    }),
+    prisma.user.findMany({
+      where: {
+        role: 'STUDENT',
+        enrollments: {
+          some: { isActive: true, ...(input.yearLevel !== 'BOTH' && { yearLevel: input.yearLevel }) },
+        },
+      },
+      select: {
+        id: true,
+        expectedAbsences: {
+          where: {
+            status: { in: ['APPROVED', 'PENDING'] },
+            startDate: { lte: week.end },
+            endDate: { gte: week.start },
+          },
+          select: { id: true },
+        },
+        sundaySchoolAssignments: {
+          where: { isActive: true, academicYearId: input.academicYearId },
+          select: { startDate: true, totalWeeks: true },
+        },
+      },
+    }),
+  ])
+
+  return findExamDateConflicts({
+    examDate: input.examDate,
+    academicYear,
+    lessons,
+    studentCount: students.length,
+    absentStudentCount: students.filter(s => s.expectedAbsences.length > 0).length,
+    sundaySchoolStudentCount: students.filter(s =>
+      s.sundaySchoolAssignments.some(a => sundaySchoolCoversDate(a, input.examDate))
+    ).length,
+  })
+}
+
+// ============================================
+// Exam-day Lessons
+// ============================================
+
+/**
+ * Numbers for a new exam-day lesson and the lessons after it (given in date
+ * order), the way cancel-and-shift renumbers: the later lessons' numbers plus
+ * one past the year's highest are handed out in date order, so lessons before
+ * the exam keep theirs. Only lessons whose number changes are returned.
+ */
+export function planExamDayLessonNumbers(
+  later: { id: string; lessonNumber: number }[],
+  maxNumber: number | null
+): { lessonNumber: number; renumbered: { id: string; lessonNumber: number }[] } {
+  const numbers = [...later.map(l => l.lessonNumber), (maxNumber ?? 0) + 1].sort((a, b) => a - b)
+  return {
+    lessonNumber: numbers[0],
+    renumbered: later
+      .map((lesson, i) => ({ id: lesson.id, lessonNumber: numbers[i + 1] }))
+      .filter((lesson, i) => lesson.lessonNumber !== later[i].lessonNumber),
+  }
+}
+
+/**
+ * Tie a regular exam to the exam-day lesson on its date: the day's held
+ * lesson is flagged isExamDay (or one is created), and a lesson the exam
+ * was previously tied to is released. Makeups and retakes aren't tied to a
+ * lesson.
+ */
+export async function syncExamDayLesson(tx: PrismaTx, examId: string, userId?: string) {
+  const exam = await tx.exam.findUniqueOrThrow({
+    where: { id: examId },
+    include: { examSection: { select: { displayName: true } }, lesson: true },
+  })
+  if (exam.sittingType !== 'REGULAR') return null
+
+  const day = utcDayRange(exam.examDate)
+  const current = exam.lesson
+  if (current && current.scheduledDate >= day.start && current.scheduledDate <= day.end) {
+    if (!current.isExamDay) {
+      await tx.lesson.update({ where: { id: current.id }, data: { isExamDay: true } })
+    }
+    return current.id
+  }
+
+  let lesson = await tx.lesson.findFirst({
+    where: {
+      academicYearId: exam.academicYearId,
+      scheduledDate: { gte: day.start, lte: day.end },
+      status: { notIn: [LessonStatus.CANCELLED, LessonStatus.NO_CLASS] },
+    },
+    // Prefer a lesson that's already an exam day (another section's exam)
+    orderBy: [{ isExamDay: 'desc' }, { createdAt: 'asc' }],
+  })
+
+  if (lesson) {
+    if (!lesson.isExamDay) {
+      lesson = await tx.lesson.update({ where: { id: lesson.id }, data: { isExamDay: true } })
+    }
+  } else {
+    const later = await tx.lesson.findMany({
+      where: { academicYearId: exam.academicYearId, scheduledDate: { gt: day.end } },
+      orderBy: [{ scheduledDate: 'asc' }, { lessonNumber: 'asc' }],
+      select: { id: true, lessonNumber: true },
+    })
+    const maxResult = await tx.lesson.aggregate({
+      where: { academicYearId: exam.academicYearId },
+      _max: { lessonNumber: true },
+    })
+    const numbering = planExamDayLessonNumbers(later, maxResult._max.lessonNumber)
+
+    // Negative temporary numbers first so no two lessons ever share a number
+    for (let i = 0; i < numbering.renumbered.length; i++) {
+      await tx.lesson.update({ where: { id: numbering.renumbered[i].id }, data: { lessonNumber: -(i + 1) } })
+    }
+    lesson = await tx.lesson.create({
+      data: {
+        academicYearId: exam.academicYearId,
+        examSectionId: exam.examSectionId,
+        title: `${exam.examSection.displayName} Exam`,
+        scheduledDate: exam.examDate,
+        lessonNumber: numbering.lessonNumber,
+        isExamDay: true,
+        createdBy: userId ?? null,
+      },
+    })
+    for (const { id, lessonNumber } of numbering.renumbered) {
+      await tx.lesson.update({ where: { id }, data: { lessonNumber } })
+    }
+  }
+
+  await tx.exam.update({ where: { id: examId }, data: { lessonId: lesson.id } })
+  if (current) await releaseExamDayLesson(tx, current.id, examId)
+  return lesson.id
+}
+
+/**
+ * Tie the regular exams scheduled before exams had exam-day lessons to their
+ * day's lesson. Exams already tied are skipped, so running it again does
+ * nothing. Returns how many exams were linked.
+ */
+export async function backfillExamDayLessons(): Promise<number> {
+  const exams = await prisma.exam.findMany({
+    where: { sittingType: 'REGULAR', lessonId: null },
+    orderBy: { examDate: 'asc' },
+    select: { id: true },
+  })
+  for (const exam of exams) {
+    await prisma.$transaction(tx => syncExamDayLesson(tx, exam.id))
+  }
+  return exams.length
+}
+
+/**
+ * Clear a lesson's isExamDay flag once no exam other than `exceptExamId` is
+ * tied to it, so the day counts toward attendance again.
+ */
+export async function releaseExamDayLesson(tx: PrismaTx, lessonId: string, exceptExamId: string) {
+  const remaining = await tx.exam.count({ where: { lessonId, id: { not: exceptExamId } } })
+  if (remaining === 0) {
+    await tx.lesson.update({ where: { id: lessonId }, data: { isExamDay: false } })
+  }
+}
+
+/**
+ * Why a change to an exam's exam-day lesson isn't allowed, or null. The
+ * lesson has to stay a held exam day while an exam is tied to it.
+ */
+export function examDayLessonChangeError(change: { isExamDay?: boolean; status?: string }): string | null {
+  if (change.isExamDay === false) {
+    return "This lesson is an exam's exam day. Move or delete the exam instead"
+  }
+  if (change.status === LessonStatus.CANCELLED || change.status === LessonStatus.NO_CLASS) {
+    return "Move or delete this day's exam before cancelling the lesson"
+  }
+  return null
+}
+
+/** Keep the exams tied to a lesson on its (new) date */
+export async function moveExamsWithLesson(lessonId: string, scheduledDate: Date, tx?: PrismaTx) {
+  const db = tx || prisma
+  await db.exam.updateMany({
+    where: { lessonId },
+    data: { examDate: scheduledDate },
+  })
+}
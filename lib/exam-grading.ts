@@ -0,0 +1,141 @@
+/**
+ * Exam weights and curves
+ *
+ * Every exam and exam section has a weight (default 1). A section average
+ * weighs each exam by its own weight; the overall average weighs each exam by
+ * its weight times its section's weight. With every weight at 1 both are the
+ * plain means of the percentages (see calculateExamStats in lib/attendance.ts).
+ *
+ * Admins can curve an exam. Each score keeps its raw percentage
+ * (score / totalPoints) in rawPercentage and stores the curved one in
+ * percentage, which is what every average reads. A curve only ever raises a
+ * score, and never above 100%.
+ *
+ * Type-only Prisma imports keep this usable from client components.
+ */
+import type { ExamCurveType } from '@prisma/client'
+
+// ============================================
+// Types
+// ============================================
+
+export const CURVE_TYPE_LABELS: Record<ExamCurveType, string> = {
+  ADD_POINTS: 'Add points',
+  SCALE_TO_MAX: 'Scale top score',
+  SQUARE_ROOT: 'Square root',
+}
+
+export interface ExamCurve {
+  curveType: ExamCurveType | null
+  curveValue: number | null
+}
+
+export const NO_CURVE: ExamCurve = { curveType: null, curveValue: null }
+
+// SCALE_TO_MAX without a value scales the top score to 100%
+const DEFAULT_SCALE_TARGET = 100
+
+// ============================================
+// Validation
+// ============================================
+
+/** Weights are positive numbers; omit the field to leave the weight alone */
+export function parseWeightInput(value: unknown): { data?: number; error?: string } {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return { error: 'Weight must be a positive number' }
+  }
+  return { data: value }
+}
+
+/**
+ * Validate a curve body. A missing or null curveType removes the curve.
+ * ADD_POINTS needs the points to add (on the exam's own scale), SCALE_TO_MAX
+ * takes the percentage the top score becomes (default 100), and SQUARE_ROOT
+ * takes no value.
+ */
+export function parseExamCurveInput(
+  body: Record<string, unknown>,
+  totalPoints: number
+): { data?: ExamCurve; error?: string } {
+  const { curveType, curveValue } = body
+  if (curveType === null || curveType === undefined || curveType === '') {
+    return { data: NO_CURVE }
+  }
+  if (typeof curveType !== 'string' || !Object.keys(CURVE_TYPE_LABELS).includes(curveType)) {
+    return { error: 'Invalid curve type' }
+  }
+
+  const value = curveValue === null || curveValue === undefined || curveValue === '' ? null : curveValue
+  if (value !== null && (typeof value !== 'number' || !Number.isFinite(value))) {
+    return { error: 'Curve value must be a number' }
+  }
+
+  switch (curveType as ExamCurveType) {
+    case 'ADD_POINTS':
+      if (value === null || value <= 0 || value > totalPoints) {
+        return { error: `Points to add must be between 0 and ${totalPoints}` }
+      }
+      return { data: { curveType: 'ADD_POINTS', curveValue: value } }
+    case 'SCALE_TO_MAX':
+      if (value !== null && (value <= 0 || value > 100)) {
+        return { error: 'Target top score must be between 0 and 100%' }
+      }
+      return { data: { curveType: 'SCALE_TO_MAX', curveValue: value ?? DEFAULT_SCALE_TARGET } }
+    case 'SQUARE_ROOT':
+      return { data: { curveType: 'SQUARE_ROOT', curveValue: null } }
+  }
+}
+
+// ============================================
+// Curves
+// ============================================
+
+export function toRawPercentage(score: number, totalPoints: number): number {
+  return totalPoints > 0 ? (score / totalPoints) * 100 : 0
+}
+
+/**
+ * Curve one raw percentage. SCALE_TO_MAX needs the exam's top raw percentage
+ * so every score rises in proportion.
+ */
+export function applyCurve(
+  rawPercentage: number,
+  curve: ExamCurve,
+  context: { totalPoints: number; topRawPercentage: number }
+): number {
+  let curved = rawPercentage
+  switch (curve.curveType) {
+    case 'ADD_POINTS':
+      curved = rawPercentage + toRawPercentage(curve.curveValue ?? 0, context.totalPoints)
+      break
+    case 'SCALE_TO_MAX':
+      if (context.topRawPercentage > 0) {
+        curved = rawPercentage * ((curve.curveValue ?? DEFAULT_SCALE_TARGET) / context.topRawPercentage)
+      }
+      break
+    case 'SQUARE_ROOT':
+      curved = Math.sqrt(Math.max(rawPercentage, 0)) * 10
+      break
+  }
+  return Math.min(100, Math.max(rawPercentage, curved))
+}
+
+/** Curve every raw percentage on an exam, in the same order */
+export function curvePercentages(rawPercentages: number[], curve: ExamCurve, totalPoints: number): number[] {
+  const topRawPercentage = rawPercentages.length > 0 ? Math.max(...rawPercentages) : 0
+  return rawPercentages.map(raw => applyCurve(raw, curve, { totalPoints, topRawPercentage }))
+}
+
+/** Short description of an exam's curve for badges and notes */
+export function describeCurve(curve: ExamCurve): string | null {
+  switch (curve.curveType) {
+    case 'ADD_POINTS':
+      return `+${curve.curveValue} pts`
+    case 'SCALE_TO_MAX':
+      return `Top score → ${curve.curveValue ?? DEFAULT_SCALE_TARGET}%`
+    case 'SQUARE_ROOT':
+      return '√ curve'
+    default:
+      return null
+  }
+}
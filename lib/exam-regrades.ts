@@ -0,0 +1,84 @@
+/**
+ * Exam regrade requests
+ *
+ * A student can ask for a posted (released) score to be reviewed, with a
+ * comment explaining why. Exam managers approve the request with the adjusted
+ * score or deny it with a note; either way the reviewer's note is shown to the
+ * student. Requests are kept after review as the score's audit trail.
+ *
+ * This module has no server dependencies so client components can use it too.
+ */
+import type { RegradeRequestStatus } from '@prisma/client'
+
+// ============================================
+// Types
+// ============================================
+
+export const REGRADE_STATUS_LABELS: Record<RegradeRequestStatus, string> = {
+  PENDING: 'Pending',
+  APPROVED: 'Approved',
+  DENIED: 'Denied',
+}
+
+export const MAX_REGRADE_COMMENT_LENGTH = 2000
+
+export interface RegradeDecision {
+  status: 'APPROVED' | 'DENIED'
+  adjustedScore: number | null // Set when approved
+  reviewNote: string | null
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/** Validate a student's request body */
+export function parseRegradeRequestInput(
+  body: Record<string, unknown>
+): { data?: { examScoreId: string; comment: string }; error?: string } {
+  const { examScoreId, comment } = body
+  if (typeof examScoreId !== 'string' || !examScoreId) {
+    return { error: 'examScoreId is required' }
+  }
+  if (typeof comment !== 'string' || !comment.trim()) {
+    return { error: 'Explain what should be reviewed' }
+  }
+  if (comment.trim().length > MAX_REGRADE_COMMENT_LENGTH) {
+    return { error: `Comments are limited to ${MAX_REGRADE_COMMENT_LENGTH} characters` }
+  }
+  return { data: { examScoreId, comment: comment.trim() } }
+}
+
+/**
+ * Validate a review. Only pending requests can be reviewed. Approving needs
+ * the adjusted score (within the exam's points); denying needs a note so the
+ * student knows why.
+ */
+export function validateRegradeReview(
+  currentStatus: RegradeRequestStatus,
+  body: Record<string, unknown>,
+  totalPoints: number
+): { data?: RegradeDecision; error?: string } {
+  const { status, adjustedScore, note } = body
+  if (status !== 'APPROVED' && status !== 'DENIED') {
+    return { error: 'Invalid status. Must be APPROVED or DENIED' }
+  }
+  if (currentStatus !== 'PENDING') {
+    return { error: `Request has already been ${currentStatus.toLowerCase()}` }
+  }
+
+  const reviewNote = typeof note === 'string' && note.trim() ? note.trim() : null
+
+  if (status === 'DENIED') {
+    if (!reviewNote) return { error: 'A note is required when denying a request' }
+    return { data: { status, adjustedScore: null, reviewNote } }
+  }
+
+  if (typeof adjustedScore !== 'number' || isNaN(adjustedScore)) {
+    return { error: 'Enter the adjusted score' }
+  }
+  if (adjustedScore < 0 || adjustedScore > totalPoints) {
+    return { error: `Score must be between 0 and ${totalPoints}` }
+  }
+  return { data: { status, adjustedScore, reviewNote } }
+}
@@ -0,0 +1,98 @@
+/**
+ * Exam score release
+ *
+ * An exam's scores can be held back from students and mentors until admins
+ * release them, right away or at a scheduled time. Admins (priests included)
+ * always see every score. Scores saved while an exam is hidden notify nobody;
+ * the release sends every student their grade in one batch.
+ *
+ * A scheduled exam's scores are visible as soon as its time passes
+ * (releasedExamWhere); the cron that claims the release and sends the batch
+ * runs hourly, so it may lag behind by up to an hour.
+ */
+import type { ExamReleaseStatus, UserRole } from '@prisma/client'
+import { isAdmin } from './roles'
+
+// ============================================
+// Types
+// ============================================
+
+export const RELEASE_STATUS_LABELS: Record<ExamReleaseStatus, string> = {
+  DRAFT: 'Hidden',
+  SCHEDULED: 'Scheduled',
+  RELEASED: 'Released',
+}
+
+export interface ExamReleaseState {
+  releaseStatus: ExamReleaseStatus
+  releaseAt: Date | string | null
+}
+
+export interface ExamReleaseInput {
+  releaseStatus: ExamReleaseStatus
+  releaseAt: Date | null
+}
+
+// ============================================
+// Visibility
+// ============================================
+
+/** Admins see scores before release; students and mentors don't */
+export function canSeeUnreleasedScores(role: UserRole): boolean {
+  return isAdmin(role)
+}
+
+export function isExamReleased(exam: ExamReleaseState, now: Date = new Date()): boolean {
+  if (exam.releaseStatus === 'RELEASED') return true
+  return exam.releaseStatus === 'SCHEDULED' && !!exam.releaseAt && new Date(exam.releaseAt) <= now
+}
+
+/**
+ * Whether a newly saved score should notify its student now. A scheduled
+ * exam whose time has passed is visible but not yet claimed, and the cron
+ * will send its whole batch, this score included.
+ */
+export function notifiesOnScoreSave(exam: Pick<ExamReleaseState, 'releaseStatus'>): boolean {
+  return exam.releaseStatus === 'RELEASED'
+}
+
+/** Prisma `where` for exams whose scores students and mentors can see */
+export function releasedExamWhere(now: Date = new Date()) {
+  return {
+    OR: [
+      { releaseStatus: 'RELEASED' as const },
+      { releaseStatus: 'SCHEDULED' as const, releaseAt: { lte: now } },
+    ],
+  }
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate a release body. SCHEDULED needs a future releaseAt; the other
+ * states clear it.
+ */
+export function parseReleaseInput(
+  body: Record<string, unknown>,
+  now: Date = new Date()
+): { data?: ExamReleaseInput; error?: string } {
+  const { releaseStatus, releaseAt } = body
+  if (typeof releaseStatus !== 'string' || !Object.keys(RELEASE_STATUS_LABELS).includes(releaseStatus)) {
+    return { error: 'Invalid release status' }
+  }
+
+  if (releaseStatus !== 'SCHEDULED') {
+    return { data: { releaseStatus: releaseStatus as ExamReleaseStatus, releaseAt: null } }
+  }
+
+  const date = typeof releaseAt === 'string' ? new Date(releaseAt) : null
+  if (!date || isNaN(date.getTime())) {
+    return { error: 'Choose when the scores should be released' }
+  }
+  if (date <= now) {
+    return { error: 'The release time must be in the future' }
+  }
+  return { data: { releaseStatus: 'SCHEDULED', releaseAt: date } }
+}
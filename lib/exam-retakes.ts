@@ -0,0 +1,212 @@
+/**
+ * Makeup and retake sittings
+ *
+ * A makeup or retake is its own Exam row (with its own ExamScore rows) linked
+ * to the REGULAR exam through originalExamId. Analytics collapse every sitting
+ * of an exam into one effective score using the academic year's retake policy;
+ * the individual sittings are kept as the student's history.
+ *
+ * Type-only Prisma imports keep this usable from client components.
+ */
+import type { ExamRetakePolicy, ExamSittingType } from '@prisma/client'
+
+// ============================================
+// Types
+// ============================================
+
+export const RETAKE_POLICY_LABELS: Record<ExamRetakePolicy, string> = {
+  HIGHEST: 'Highest score counts',
+  LATEST: 'Latest score counts',
+  CAPPED_AT_PASSING: 'Retakes capped at passing score',
+}
+
+export const SITTING_TYPE_LABELS: Record<ExamSittingType, string> = {
+  REGULAR: 'Regular',
+  MAKEUP: 'Makeup',
+  RETAKE: 'Retake',
+}
+
+/** The exam fields needed to resolve a sitting */
+export interface ExamSittingInfo {
+  id: string
+  examDate: Date | string
+  totalPoints: number
+  sittingType: ExamSittingType
+  originalExamId: string | null
+  academicYear: { examRetakePolicy: ExamRetakePolicy }
+  examSection: { passingScore: number }
+}
+
+export interface SittingScore {
+  studentId: string
+  score: number
+  percentage: number
+  exam: ExamSittingInfo
+}
+
+export interface EffectiveExamScore<T extends SittingScore = SittingScore> {
+  originalExamId: string
+  studentId: string
+  // The original sitting, or the makeup that stood in for it
+  base: T
+  // The sitting whose score counts
+  counted: T
+  score: number
+  percentage: number
+  policy: ExamRetakePolicy
+  // True when a retake was held down to the passing score
+  capped: boolean
+  // Every sitting, oldest first
+  sittings: T[]
+}
+
+/** Prisma `select` for the exam fields resolveEffectiveScores needs */
+export const EXAM_SITTING_SELECT = {
+  id: true,
+  examDate: true,
+  totalPoints: true,
+  sittingType: true,
+  originalExamId: true,
+  academicYear: { select: { examRetakePolicy: true } },
+  examSection: { select: { passingScore: true } },
+} as const
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate the sitting fields of an exam create body. Makeups and retakes
+ * must name the exam they belong to; regular exams must not.
+ */
+export function parseExamSittingInput(
+  body: Record<string, unknown>
+): { data?: { sittingType: ExamSittingType; originalExamId: string | null }; error?: string } {
+  const sittingType = body.sittingType ?? 'REGULAR'
+  if (typeof sittingType !== 'string' || !Object.keys(SITTING_TYPE_LABELS).includes(sittingType)) {
+    return { error: 'sittingType must be REGULAR, MAKEUP or RETAKE' }
+  }
+
+  const originalExamId = typeof body.originalExamId === 'string' && body.originalExamId
+    ? body.originalExamId
+    : null
+
+  if (sittingType === 'REGULAR') {
+    if (originalExamId) return { error: 'Only makeup and retake sittings can link to an original exam' }
+    return { data: { sittingType, originalExamId: null } }
+  }
+
+  if (!originalExamId) {
+    return { error: 'Choose the original exam for this sitting' }
+  }
+  return { data: { sittingType: sittingType as ExamSittingType, originalExamId } }
+}
+
+/** Validate the retake policy field of an academic year create/update body */
+export function parseRetakePolicyInput(
+  body: Record<string, unknown>
+): { data: { examRetakePolicy?: ExamRetakePolicy }; error?: string } {
+  if (body.examRetakePolicy === undefined) return { data: {} }
+  const value = body.examRetakePolicy
+  if (typeof value !== 'string' || !Object.keys(RETAKE_POLICY_LABELS).includes(value)) {
+    return { data: {}, error: 'examRetakePolicy must be HIGHEST, LATEST or CAPPED_AT_PASSING' }
+  }
+  return { data: { examRetakePolicy: value as ExamRetakePolicy } }
+}
+
+/**
+ * Makeups are for students with no score on the original; retakes are for
+ * students who already have one. Regular exams are open to everyone.
+ */
+export function isSittingOpenToStudent(
+  exam: { sittingType: ExamSittingType },
+  hasOriginalScore: boolean
+): boolean {
+  if (exam.sittingType === 'MAKEUP') return !hasOriginalScore
+  if (exam.sittingType === 'RETAKE') return hasOriginalScore
+  return true
+}
+
+// ============================================
+// Effective scores
+// ============================================
+
+const SITTING_ORDER: Record<ExamSittingType, number> = { REGULAR: 0, MAKEUP: 1, RETAKE: 2 }
+
+export function getOriginalExamId(exam: { id: string; originalExamId: string | null }): string {
+  return exam.originalExamId ?? exam.id
+}
+
+function compareSittings(a: SittingScore, b: SittingScore): number {
+  const byDate = new Date(a.exam.examDate).getTime() - new Date(b.exam.examDate).getTime()
+  if (byDate !== 0) return byDate
+  return SITTING_ORDER[a.exam.sittingType] - SITTING_ORDER[b.exam.sittingType]
+}
+
+function best<T extends SittingScore>(sittings: T[]): T {
+  // Earliest wins a tie so the original keeps counting when a retake only matches it
+  return sittings.reduce((top, s) => (s.percentage > top.percentage ? s : top))
+}
+
+/**
+ * Collapse one student's sittings of one exam into the score that counts.
+ * The policy and passing score come from the original sitting.
+ */
+export function resolveEffectiveScore<T extends SittingScore>(sittings: T[]): EffectiveExamScore<T> | null {
+  if (sittings.length === 0) return null
+
+  const ordered = [...sittings].sort(compareSittings)
+  const base = ordered.find(s => s.exam.sittingType !== 'RETAKE') ?? ordered[0]
+  const later = ordered.filter(s => s !== base)
+  const policy = base.exam.academicYear.examRetakePolicy
+
+  const result = (counted: T, percentage = counted.percentage, capped = false): EffectiveExamScore<T> => ({
+    originalExamId: getOriginalExamId(base.exam),
+    studentId: base.studentId,
+    base,
+    counted,
+    score: capped ? Math.round((percentage / 100) * counted.exam.totalPoints * 100) / 100 : counted.score,
+    percentage,
+    policy,
+    capped,
+    sittings: ordered,
+  })
+
+  if (later.length === 0) return result(base)
+
+  switch (policy) {
+    case 'LATEST':
+      return result(ordered[ordered.length - 1])
+    case 'CAPPED_AT_PASSING': {
+      const retake = best(later)
+      const passing = base.exam.examSection.passingScore
+      const cappedPercentage = Math.min(retake.percentage, passing)
+      if (cappedPercentage <= base.percentage) return result(base)
+      return result(retake, cappedPercentage, retake.percentage > passing)
+    }
+    case 'HIGHEST':
+    default:
+      return result(best([base, ...later]))
+  }
+}
+
+/**
+ * Group scores by student and original exam and resolve each group. Scores
+ * for several students and exams can be passed in together.
+ */
+export function resolveEffectiveScores<T extends SittingScore>(scores: T[]): EffectiveExamScore<T>[] {
+  const groups = new Map<string, T[]>()
+  for (const score of scores) {
+    const key = `${score.studentId}:${getOriginalExamId(score.exam)}`
+    const group = groups.get(key)
+    if (group) group.push(score)
+    else groups.set(key, [score])
+  }
+
+  const resolved: EffectiveExamScore<T>[] = []
+  for (const group of groups.values()) {
+    const effective = resolveEffectiveScore(group)
+    if (effective) resolved.push(effective)
+  }
+  return resolved
+}
@@ -0,0 +1,210 @@
+/**
+ * Spreadsheet exam score import
+ *
+ * Admins upload an XLSX/CSV with one row per student: a name and/or email
+ * column and a score column (points out of the exam's totalPoints). Rows are
+ * matched by email first, then by the fuzzy name matching the attendance
+ * import uses. The admin reviews the matches and a diff of new vs changed
+ * scores before anything is saved.
+ *
+ * This module has no server dependencies so the import dialog can use it too.
+ */
+
+import { matchStudentName, type MatchResult } from './attendance-import'
+
+// ============================================
+// Types
+// ============================================
+
+export interface ScoreSheetRow {
+  rowNumber: number // 1-based, as shown in the spreadsheet
+  name: string
+  email: string | null
+  score: number | null // null when the cell isn't a number
+  rawScore: string
+  notes: string | null
+}
+
+export interface ScoreImportEntry {
+  studentId: string
+  score: number
+  notes?: string | null
+}
+
+export interface PlannedScore extends ScoreImportEntry {
+  rowNumber: number
+  change: 'new' | 'changed'
+  previousScore: number | null
+}
+
+export interface ScoreImportPlan {
+  // Scores to save, each new or different from what's stored
+  entries: PlannedScore[]
+  // Matched rows whose score is already stored
+  unchangedCount: number
+  invalidRows: Array<{ rowNumber: number; error: string }>
+  duplicateStudentIds: string[]
+}
+
+const HEADER_SEARCH_ROWS = 5
+
+// ============================================
+// Sheet Parsing
+// ============================================
+
+/**
+ * Read a score cell. Numbers and numeric text ("17", "17.5") are accepted;
+ * anything else (including "17/20" or "85%") is left for the admin to fix.
+ */
+export function parseScoreCell(value: unknown): { score: number | null; rawScore: string } {
+  if (typeof value === 'number') {
+    return { score: Number.isFinite(value) ? value : null, rawScore: String(value) }
+  }
+  const rawScore = typeof value === 'string' ? value.trim() : ''
+  if (!/^-?\d+(\.\d+)?$/.test(rawScore)) return { score: null, rawScore }
+  return { score: Number(rawScore), rawScore }
+}
+
+function findColumn(header: unknown[], pattern: RegExp): number {
+  return header.findIndex(cell => typeof cell === 'string' && pattern.test(cell.trim()))
+}
+
+/**
+ * Find the header row (the first with a score column), then read every row
+ * that names a student. Rows with a blank score are skipped (not taken).
+ */
+export function parseScoreSheet(data: unknown[][]): { rows?: ScoreSheetRow[]; error?: string } {
+  const scorePattern = /^(score|points|grade|mark|result)s?\b/i
+  const headerIndex = data
+    .slice(0, HEADER_SEARCH_ROWS)
+    .findIndex(row => Array.isArray(row) && findColumn(row, scorePattern) !== -1)
+  if (headerIndex === -1) {
+    return { error: 'No score column found. Add a header row with a "Score" column.' }
+  }
+
+  const header = data[headerIndex]
+  const scoreCol = findColumn(header, scorePattern)
+  const nameCol = findColumn(header, /name/i)
+  const emailCol = findColumn(header, /e-?mail/i)
+  const notesCol = findColumn(header, /^(notes?|comments?)$/i)
+  if (nameCol === -1 && emailCol === -1) {
+    return { error: 'Add a "Name" or "Email" column so rows can be matched to students' }
+  }
+
+  const text = (row: unknown[], col: number) =>
+    col !== -1 && typeof row[col] === 'string' ? (row[col] as string).trim() : ''
+
+  const rows: ScoreSheetRow[] = []
+  for (let index = headerIndex + 1; index < data.length; index++) {
+    const row = data[index]
+    if (!Array.isArray(row)) continue
+    const name = text(row, nameCol)
+    const email = text(row, emailCol)
+    if (!name && !email) continue
+
+    const cell = row[scoreCol]
+    if (cell === null || cell === undefined || (typeof cell === 'string' && !cell.trim())) continue
+
+    rows.push({
+      rowNumber: index + 1,
+      name: name || email,
+      email: email ? email.toLowerCase() : null,
+      ...parseScoreCell(cell),
+      notes: text(row, notesCol) || null,
+    })
+  }
+
+  if (rows.length === 0) {
+    return { error: 'No score rows found' }
+  }
+
+  return { rows }
+}
+
+// ============================================
+// Matching & Validation
+// ============================================
+
+/** An exact email match wins; otherwise fall back to fuzzy name matching */
+export function matchScoreRow(
+  row: Pick<ScoreSheetRow, 'name' | 'email'>,
+  students: Array<{ id: string; name: string; email: string }>
+): MatchResult {
+  if (row.email) {
+    const student = students.find(s => s.email.toLowerCase() === row.email)
+    if (student) {
+      return {
+        matchedId: student.id,
+        confidence: 1,
+        needsReview: false,
+        candidates: [{ id: student.id, label: student.name, confidence: 1 }],
+      }
+    }
+  }
+  return matchStudentName(row.name, students)
+}
+
+/** Returns an error message, or null when the score fits the exam */
+export function validateImportedScore(score: number | null, totalPoints: number): string | null {
+  if (score === null || !Number.isFinite(score)) return 'Score is not a number'
+  if (score < 0) return 'Score cannot be negative'
+  if (score > totalPoints) return `Score is above the exam's ${totalPoints} points`
+  return null
+}
+
+// ============================================
+// Diff
+// ============================================
+
+/**
+ * Compare the matched rows with the stored scores. Invalid rows and students
+ * matched to more than one row are reported and left out; rows matching the
+ * stored score exactly are counted but not re-saved.
+ */
+export function buildScoreImportPlan(
+  rows: ScoreSheetRow[],
+  studentByRow: Record<number, string | null>,
+  existingScores: Record<string, number>,
+  totalPoints: number
+): ScoreImportPlan {
+  const rowsByStudent = new Map<string, ScoreSheetRow[]>()
+  for (const row of rows) {
+    const studentId = studentByRow[row.rowNumber]
+    if (!studentId) continue
+    rowsByStudent.set(studentId, [...(rowsByStudent.get(studentId) || []), row])
+  }
+
+  const plan: ScoreImportPlan = { entries: [], unchangedCount: 0, invalidRows: [], duplicateStudentIds: [] }
+  for (const [studentId, studentRows] of rowsByStudent) {
+    if (studentRows.length > 1) {
+      plan.duplicateStudentIds.push(studentId)
+      continue
+    }
+
+    const [row] = studentRows
+    const error = validateImportedScore(row.score, totalPoints)
+    if (error) {
+      plan.invalidRows.push({ rowNumber: row.rowNumber, error })
+      continue
+    }
+
+    const previousScore = existingScores[studentId] ?? null
+    if (previousScore === row.score) {
+      plan.unchangedCount++
+      continue
+    }
+
+    plan.entries.push({
+      rowNumber: row.rowNumber,
+      studentId,
+      score: row.score!,
+      notes: row.notes,
+      change: previousScore === null ? 'new' : 'changed',
+      previousScore,
+    })
+  }
+
+  plan.entries.sort((a, b) => a.rowNumber - b.rowNumber)
+  plan.invalidRows.sort((a, b) => a.rowNumber - b.rowNumber)
+  return plan
+}
@@ -0,0 +1,385 @@
+import { prisma } from './prisma'
+import { isSittingOpenToStudent } from './exam-retakes'
+import { validateImportedScore, type ScoreImportEntry } from './exam-score-import'
+import { curvePercentages, toRawPercentage, type ExamCurve } from './exam-grading'
+import type { RegradeDecision } from './exam-regrades'
+import { getSeatingFlags, type SeatAssignment, type SeatingFlag } from './exam-seating'
+
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExamRosterStudent {
+  id: string
+  name: string
+  email: string
+}
+
+export interface SeatingRosterStudent extends ExamRosterStudent {
+  seat: { row: number; seat: number } | null
+  flags: SeatingFlag[]
+}
+
+export interface ReleasedExamScores {
+  examId: string
+  // Shaped for notifyGradesPosted
+  examSection: string
+  grades: Array<{ studentId: string; studentName: string; percentage: number }>
+}
+
+export interface ReviewedRegrade {
+  requestId: string
+  status: RegradeDecision['status']
+  // Shaped for notifyRegradeReviewed
+  studentId: string
+  examSection: string
+  percentage: number // The score's percentage after the review
+  reviewNote: string | null
+}
+
+export interface SavedScoreBatch {
+  created: number
+  updated: number
+  // New or changed scores, shaped for notifyGradesPosted
+  posted: Array<{ studentId: string; studentName: string; percentage: number }>
+}
+
+// ============================================
+// Roster
+// ============================================
+
+/**
+ * Students who can have a score on this exam: actively enrolled in the
+ * exam's year level, and for a makeup or retake, missing or holding a score on the
+ * original. Returns null when the exam doesn't exist.
+ */
+export async function getExamRoster(examId: string) {
+  const exam = await prisma.exam.findUnique({
+    where: { id: examId },
+    include: { examSection: { select: { displayName: true } } },
+  })
+  if (!exam) return null
+
+  const students = await prisma.user.findMany({
+    where: {
+      role: 'STUDENT',
+      enrollments: { some: exam.yearLevel === 'BOTH' ? { isActive: true } : { isActive: true, yearLevel: exam.yearLevel } },
+    },
+    select: { id: true, name: true, email: true },
+    orderBy: { name: 'asc' },
+  })
+
+  if (!exam.originalExamId) return { exam, students }
+
+  const originalScores = await prisma.examScore.findMany({
+    where: { examId: exam.originalExamId },
+    select: { studentId: true },
+  })
+  const satOriginal = new Set(originalScores.map(s => s.studentId))
+  return {
+    exam,
+    students: students.filter(student => isSittingOpenToStudent(exam, satOriginal.has(student.id))),
+  }
+}
+
+/**
+ * The exam's roster with each student's seat and the reasons they might not
+ * be in the room. Returns null when the exam doesn't exist.
+ */
+export async function getExamSeatingRoster(examId: string) {
+  const roster = await getExamRoster(examId)
+  if (!roster) return null
+
+  const studentIds = roster.students.map(s => s.id)
+  const examDay = new Date(roster.exam.examDate)
+  const [enrollments, absences, seats] = await Promise.all([
+    prisma.studentEnrollment.findMany({
+      where: { studentId: { in: studentIds } },
+      select: { studentId: true, isAsyncStudent: true },
+    }),
+    // Narrowed to within a day either side; getSeatingFlags checks the exact day
+    prisma.expectedAbsence.findMany({
+      where: {
+        studentId: { in: studentIds },
+        status: { not: 'REJECTED' },
+        startDate: { lte: new Date(examDay.getTime() + 24 * 60 * 60 * 1000) },
+        endDate: { gte: new Date(examDay.getTime() - 24 * 60 * 60 * 1000) },
+      },
+      select: { studentId: true, startDate: true, endDate: true, reason: true, status: true },
+    }),
+    prisma.examSeat.findMany({
+      where: { examId },
+      select: { studentId: true, row: true, seat: true },
+    }),
+  ])
+
+  const asyncIds = new Set(enrollments.filter(e => e.isAsyncStudent).map(e => e.studentId))
+  const seatById = new Map(seats.map(s => [s.studentId, { row: s.row, seat: s.seat }]))
+  const students: SeatingRosterStudent[] = roster.students.map(student => ({
+    ...student,
+    seat: seatById.get(student.id) ?? null,
+    flags: getSeatingFlags(
+      {
+        isAsyncStudent: asyncIds.has(student.id),
+        expectedAbsences: absences.filter(a => a.studentId === student.id),
+      },
+      roster.exam.examDate
+    ),
+  }))
+
+  return { exam: roster.exam, students }
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+/** Replace an exam's seating chart */
+export async function saveExamSeating(examId: string, seats: SeatAssignment[]) {
+  await prisma.$transaction([
+    prisma.examSeat.deleteMany({ where: { examId } }),
+    prisma.examSeat.createMany({ data: seats.map(seat => ({ examId, ...seat })) }),
+  ])
+}
+
+/**
+ * Validate and save imported scores in one transaction. Every entry must be a
+ * roster student with a score that fits the exam; otherwise nothing is saved
+ * and the problems are returned. Notes are only overwritten when given.
+ * Callers notify the students.
+ */
+export async function saveImportedScores(
+  exam: { id: string; totalPoints: number } & ExamCurve,
+  roster: ExamRosterStudent[],
+  entries: ScoreImportEntry[],
+  gradedBy: string
+): Promise<{ data?: SavedScoreBatch; error?: string; invalid?: Array<{ studentId: string; error: string }> }> {
+  const rosterById = new Map(roster.map(student => [student.id, student]))
+  const seen = new Set<string>()
+  const invalid: Array<{ studentId: string; error: string }> = []
+
+  for (const entry of entries) {
+    const error = !rosterById.has(entry.studentId)
+      ? 'Student is not eligible for this exam'
+      : seen.has(entry.studentId)
+        ? 'Student appears more than once'
+        : validateImportedScore(typeof entry.score === 'number' ? entry.score : null, exam.totalPoints)
+    if (error) invalid.push({ studentId: entry.studentId, error })
+    seen.add(entry.studentId)
+  }
+  if (invalid.length > 0) {
+    return { error: `${invalid.length} score(s) could not be imported`, invalid }
+  }
+
+  const existing = await prisma.examScore.findMany({
+    where: { examId: exam.id, studentId: { in: entries.map(e => e.studentId) } },
+    select: { studentId: true, score: true },
+  })
+  const existingByStudent = new Map(existing.map(s => [s.studentId, s.score]))
+
+  const result: SavedScoreBatch = { created: 0, updated: 0, posted: [] }
+  await prisma.$transaction(
+    entries.map(entry => {
+      const percentage = toRawPercentage(entry.score, exam.totalPoints)
+      const previous = existingByStudent.get(entry.studentId)
+      if (previous === undefined) result.created++
+      else result.updated++
+      if (previous !== entry.score) {
+        result.posted.push({
+          studentId: entry.studentId,
+          studentName: rosterById.get(entry.studentId)!.name,
+          percentage,
+        })
+      }
+
+      return prisma.examScore.upsert({
+        where: { examId_studentId: { examId: exam.id, studentId: entry.studentId } },
+        create: {
+          examId: exam.id,
+          studentId: entry.studentId,
+          score: entry.score,
+          percentage,
+          rawPercentage: percentage,
+          notes: entry.notes || null,
+          gradedBy,
+        },
+        update: {
+          score: entry.score,
+          percentage,
+          rawPercentage: percentage,
+          gradedBy,
+          ...(entry.notes ? { notes: entry.notes } : {}),
+        },
+      })
+    })
+  )
+
+  if (exam.curveType) {
+    const curved = await applyExamCurve(exam.id)
+    for (const grade of result.posted) {
+      grade.percentage = curved.get(grade.studentId) ?? grade.percentage
+    }
+  }
+
+  return { data: result }
+}
+
+/**
+ * Recompute the curved percentage of every score on an exam from its raw
+ * percentage, after the curve changes or a score is saved on a curved exam.
+ * Scale-to-max curves depend on the top score, so the whole exam is redone.
+ * Returns the curved percentage by student.
+ */
+export async function applyExamCurve(examId: string, tx?: PrismaTx): Promise<Map<string, number>> {
+  const db = tx || prisma
+  const exam = await db.exam.findUniqueOrThrow({
+    where: { id: examId },
+    select: {
+      totalPoints: true,
+      curveType: true,
+      curveValue: true,
+      scores: { select: { id: true, studentId: true, percentage: true, rawPercentage: true } },
+    },
+  })
+
+  const raw = exam.scores.map(s => s.rawPercentage ?? s.percentage)
+  const curved = curvePercentages(raw, exam, exam.totalPoints)
+  const updates = exam.scores
+    .map((s, index) => ({ ...s, raw: raw[index], curved: curved[index] }))
+    .filter(s => s.percentage !== s.curved || s.rawPercentage === null)
+    .map(s => db.examScore.update({
+      where: { id: s.id },
+      data: { percentage: s.curved, rawPercentage: s.raw },
+    }))
+
+  if (tx) await Promise.all(updates)
+  else if (updates.length > 0) await prisma.$transaction(updates)
+
+  return new Map(exam.scores.map((s, index) => [s.studentId, curved[index]]))
+}
+
+// ============================================
+// Regrades
+// ============================================
+
+/**
+ * Record a regrade decision in one transaction. Approving sets the score to
+ * the adjusted points (re-curving a curved exam); denying leaves it. The
+ * pending status is re-checked inside the transaction so a request can't be
+ * reviewed twice. Callers notify the student.
+ */
+export async function reviewRegradeRequest(
+  requestId: string,
+  decision: RegradeDecision,
+  reviewerId: string
+): Promise<ReviewedRegrade> {
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.examRegradeRequest.updateMany({
+      where: { id: requestId, status: 'PENDING' },
+      data: {
+        status: decision.status,
+        adjustedScore: decision.adjustedScore,
+        reviewNote: decision.reviewNote,
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+      },
+    })
+    if (claimed.count === 0) {
+      throw new Error('Request has already been reviewed')
+    }
+
+    const request = await tx.examRegradeRequest.findUniqueOrThrow({
+      where: { id: requestId },
+      select: {
+        studentId: true,
+        examScore: {
+          select: {
+            id: true,
+            percentage: true,
+            exam: { select: { id: true, totalPoints: true, curveType: true, examSection: { select: { displayName: true } } } },
+          },
+        },
+      },
+    })
+    const { exam } = request.examScore
+    let percentage = request.examScore.percentage
+
+    if (decision.status === 'APPROVED' && decision.adjustedScore !== null) {
+      const rawPercentage = toRawPercentage(decision.adjustedScore, exam.totalPoints)
+      await tx.examScore.update({
+        where: { id: request.examScore.id },
+        data: {
+          score: decision.adjustedScore,
+          percentage: rawPercentage,
+          rawPercentage,
+          gradedBy: reviewerId,
+          gradedAt: new Date(),
+        },
+      })
+      percentage = exam.curveType
+        ? (await applyExamCurve(exam.id, tx)).get(request.studentId) ?? rawPercentage
+        : rawPercentage
+    }
+
+    return {
+      requestId,
+      status: decision.status,
+      studentId: request.studentId,
+      examSection: exam.examSection.displayName,
+      percentage,
+      reviewNote: decision.reviewNote,
+    }
+  })
+}
+
+// ============================================
+// Release
+// ============================================
+
+/**
+ * Release an exam's scores. The status change is claimed with a conditional
+ * update so concurrent callers can't release (and notify) twice. Returns the
+ * grades to notify, or null when the exam was already released.
+ * Callers notify the students.
+ */
+export async function releaseExamScores(
+  examId: string,
+  now: Date = new Date()
+): Promise<ReleasedExamScores | null> {
+  const claimed = await prisma.exam.updateMany({
+    where: { id: examId, releaseStatus: { not: 'RELEASED' } },
+    data: { releaseStatus: 'RELEASED', releasedAt: now },
+  })
+  if (claimed.count === 0) return null
+
+  const exam = await prisma.exam.findUniqueOrThrow({
+    where: { id: examId },
+    select: {
+      examSection: { select: { displayName: true } },
+      scores: { select: { studentId: true, percentage: true, student: { select: { name: true } } } },
+    },
+  })
+
+  return {
+    examId,
+    examSection: exam.examSection.displayName,
+    grades: exam.scores.map(s => ({ studentId: s.studentId, studentName: s.student.name, percentage: s.percentage })),
+  }
+}
+
+/** Release every scheduled exam whose time has come. Callers notify the students. */
+export async function releaseDueExams(now: Date = new Date()): Promise<ReleasedExamScores[]> {
+  const due = await prisma.exam.findMany({
+    where: { releaseStatus: 'SCHEDULED', releaseAt: { lte: now } },
+    select: { id: true },
+  })
+
+  const released: ReleasedExamScores[] = []
+  for (const exam of due) {
+    const batch = await releaseExamScores(exam.id, now)
+    if (batch) released.push(batch)
+  }
+  return released
+}
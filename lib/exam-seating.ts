@@ -0,0 +1,132 @@
+/**
+ * Exam seating
+ *
+ * Seating charts and sign-in sheets for in-person exams. Every student
+ * eligible for the exam is listed; students who probably won't be in the
+ * room (async students, or an expected absence covering the exam date) are
+ * flagged and left out of the random seating so no seat sits empty.
+ *
+ * This module has no server dependencies so the seating panel can use it too.
+ */
+import type { ExpectedAbsenceStatus } from '@prisma/client'
+
+// ============================================
+// Types
+// ============================================
+
+export const DEFAULT_SEATS_PER_ROW = 6
+export const MAX_SEATS_PER_ROW = 30
+
+export interface SeatAssignment {
+  studentId: string
+  row: number
+  seat: number
+}
+
+export interface SeatingFlag {
+  type: 'ASYNC' | 'EXPECTED_ABSENCE'
+  label: string
+}
+
+export interface SeatingAbsence {
+  startDate: Date | string
+  endDate: Date | string
+  reason: string
+  status: ExpectedAbsenceStatus
+}
+
+// ============================================
+// Seating
+// ============================================
+
+/** Fisher-Yates shuffle; returns a new array */
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+/** Seat students in random order, filling each row before the next */
+export function assignSeats(
+  studentIds: string[],
+  seatsPerRow: number,
+  random: () => number = Math.random
+): SeatAssignment[] {
+  return shuffle(studentIds, random).map((studentId, index) => ({
+    studentId,
+    row: Math.floor(index / seatsPerRow) + 1,
+    seat: (index % seatsPerRow) + 1,
+  }))
+}
+
+/** "A1", "B4", … rows past Z continue as AA, AB, … */
+export function seatLabel(row: number, seat: number): string {
+  let letters = ''
+  for (let n = row; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters
+  }
+  return `${letters}${seat}`
+}
+
+/** Validate the generate body; seatsPerRow defaults to DEFAULT_SEATS_PER_ROW */
+export function parseSeatingInput(body: Record<string, unknown>): { data?: { seatsPerRow: number }; error?: string } {
+  const { seatsPerRow } = body
+  if (seatsPerRow === undefined || seatsPerRow === null) {
+    return { data: { seatsPerRow: DEFAULT_SEATS_PER_ROW } }
+  }
+  if (typeof seatsPerRow !== 'number' || !Number.isInteger(seatsPerRow) || seatsPerRow < 1 || seatsPerRow > MAX_SEATS_PER_ROW) {
+    return { error: `Seats per row must be a whole number from 1 to ${MAX_SEATS_PER_ROW}` }
+  }
+  return { data: { seatsPerRow } }
+}
+
+// ============================================
+// Flags
+// ============================================
+
+/** Whether an absence window overlaps the exam's (UTC) day */
+export function absenceCoversDate(absence: Pick<SeatingAbsence, 'startDate' | 'endDate'>, date: Date | string): boolean {
+  const dayStart = new Date(date)
+  dayStart.setUTCHours(0, 0, 0, 0)
+  const dayEnd = new Date(dayStart)
+  dayEnd.setUTCHours(23, 59, 59, 999)
+  return new Date(absence.startDate) <= dayEnd && new Date(absence.endDate) >= dayStart
+}
+
+/**
+ * Why a student might not be in the room: async enrollment, or an approved
+ * or pending expected absence on the exam date. Rejected requests are ignored.
+ */
+export function getSeatingFlags(
+  student: { isAsyncStudent: boolean; expectedAbsences: SeatingAbsence[] },
+  examDate: Date | string
+): SeatingFlag[] {
+  const flags: SeatingFlag[] = []
+  if (student.isAsyncStudent) {
+    flags.push({ type: 'ASYNC', label: 'Async student' })
+  }
+  for (const absence of student.expectedAbsences) {
+    if (absence.status === 'REJECTED' || !absenceCoversDate(absence, examDate)) continue
+    flags.push({
+      type: 'EXPECTED_ABSENCE',
+      label: `${absence.status === 'PENDING' ? 'Requested absence' : 'Expected absence'}: ${absence.reason}`,
+    })
+  }
+  return flags
+}
+
+// ============================================
+// Printing
+// ============================================
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
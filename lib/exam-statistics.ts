@@ -0,0 +1,174 @@
+/**
+ * Exam statistics
+ *
+ * Summary statistics for a set of exam percentages: a 10-point histogram,
+ * mean, median, standard deviation and the pass rate against the section's
+ * passing score. Used for the per-exam report and the year-over-year section
+ * comparison on the admin exams page. Exams taken online also get an item
+ * analysis: how hard each question was and which choices students picked.
+ *
+ * This module has no server dependencies so the report can use it too.
+ */
+import type { ExamQuestionType } from '@prisma/client'
+
+// ============================================
+// Types
+// ============================================
+
+export interface ScoreBucket {
+  label: string // "60–69"
+  min: number
+  max: number // Inclusive upper bound shown in the label
+  count: number
+}
+
+export interface ScoreStatistics {
+  count: number
+  mean: number | null
+  median: number | null
+  standardDeviation: number | null
+  min: number | null
+  max: number | null
+  passingScore: number
+  passCount: number
+  passRate: number | null // Percentage of scores at or above passingScore
+  histogram: ScoreBucket[]
+}
+
+export type StatisticsYearLevel = 'YEAR_1' | 'YEAR_2'
+
+export interface QuestionAnalysis {
+  questionId: string
+  order: number
+  type: ExamQuestionType
+  prompt: string
+  points: number
+  gradedCount: number // Graded answers, including blank ones
+  // Average share of the question's points earned (higher = easier); null until graded
+  difficulty: number | null
+  // How often each choice was picked (choice questions only), keyed by its text
+  responseCounts: Record<string, number>
+}
+
+const BUCKET_SIZE = 10
+
+// ============================================
+// Statistics
+// ============================================
+
+export function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/** Population standard deviation: the class is the whole population */
+export function standardDeviation(values: number[]): number | null {
+  const average = mean(values)
+  if (average === null) return null
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - average) ** 2, 0) / values.length)
+}
+
+/**
+ * Ten buckets, 0–9 through 90–100. 100% lands in the top bucket; anything
+ * between buckets (e.g. 69.5) goes to the lower one.
+ */
+export function buildHistogram(percentages: number[]): ScoreBucket[] {
+  const buckets: ScoreBucket[] = Array.from({ length: 100 / BUCKET_SIZE }, (_, index) => {
+    const min = index * BUCKET_SIZE
+    const max = index === 100 / BUCKET_SIZE - 1 ? 100 : min + BUCKET_SIZE - 1
+    return { label: `${min}–${max}`, min, max, count: 0 }
+  })
+  for (const percentage of percentages) {
+    const index = Math.min(Math.max(Math.floor(percentage / BUCKET_SIZE), 0), buckets.length - 1)
+    buckets[index].count++
+  }
+  return buckets
+}
+
+export function calculateScoreStatistics(percentages: number[], passingScore: number): ScoreStatistics {
+  const passCount = percentages.filter(p => p >= passingScore).length
+  return {
+    count: percentages.length,
+    mean: mean(percentages),
+    median: median(percentages),
+    standardDeviation: standardDeviation(percentages),
+    min: percentages.length > 0 ? Math.min(...percentages) : null,
+    max: percentages.length > 0 ? Math.max(...percentages) : null,
+    passingScore,
+    passCount,
+    passRate: percentages.length > 0 ? (passCount / percentages.length) * 100 : null,
+    histogram: buildHistogram(percentages),
+  }
+}
+
+/**
+ * Per-question item analysis from online attempts. Answers still waiting on
+ * a grader are left out of the difficulty.
+ */
+export function analyzeQuestions(
+  questions: Array<{ id: string; order: number; type: ExamQuestionType; prompt: string; options: string[]; points: number }>,
+  answers: Array<{ questionId: string; response: string | null; pointsAwarded: number | null }>
+): QuestionAnalysis[] {
+  return [...questions]
+    .sort((a, b) => a.order - b.order)
+    .map(question => {
+      const questionAnswers = answers.filter(a => a.questionId === question.id)
+      const graded = questionAnswers.filter(a => a.pointsAwarded !== null)
+      const responseCounts: Record<string, number> = {}
+      if (question.type === 'MULTIPLE_CHOICE' || question.type === 'TRUE_FALSE') {
+        for (const answer of questionAnswers) {
+          if (answer.response === null) continue
+          const label = question.type === 'MULTIPLE_CHOICE'
+            ? question.options[Number(answer.response)] ?? answer.response
+            : answer.response
+          responseCounts[label] = (responseCounts[label] || 0) + 1
+        }
+      }
+      const earned = mean(graded.map(a => a.pointsAwarded! / (question.points || 1)))
+      return {
+        questionId: question.id,
+        order: question.order,
+        type: question.type,
+        prompt: question.prompt,
+        points: question.points,
+        gradedCount: graded.length,
+        difficulty: earned === null ? null : earned * 100,
+        responseCounts,
+      }
+    })
+}
+
+// ============================================
+// Year Levels
+// ============================================
+
+/**
+ * The year a student was in when they sat an exam. Enrollments record the
+ * academic year the student started in: an exam in that year was taken in
+ * Year 1, an exam in any later year in Year 2. Without a start year, the
+ * enrollment's current year level is used.
+ */
+export function yearLevelAtExam(
+  enrollment: { academicYearId: string | null; yearLevel: StatisticsYearLevel } | null,
+  examAcademicYearId: string
+): StatisticsYearLevel | null {
+  if (!enrollment) return null
+  if (!enrollment.academicYearId) return enrollment.yearLevel
+  return enrollment.academicYearId === examAcademicYearId ? 'YEAR_1' : 'YEAR_2'
+}
+
+/** Split percentages by year level and summarize each group */
+export function calculateYearLevelStatistics(
+  scores: Array<{ percentage: number; yearLevel: StatisticsYearLevel | null }>,
+  passingScore: number
+): Record<StatisticsYearLevel, ScoreStatistics> {
+  const forLevel = (level: StatisticsYearLevel) =>
+    calculateScoreStatistics(scores.filter(s => s.yearLevel === level).map(s => s.percentage), passingScore)
+  return { YEAR_1: forLevel('YEAR_1'), YEAR_2: forLevel('YEAR_2') }
+}
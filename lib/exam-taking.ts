@@ -0,0 +1,352 @@
+import { ExamAttemptStatus, ExamQuestionType } from '@prisma/client'
+import { prisma } from './prisma'
+import { applyExamCurve } from './exam-scores'
+import { isExamReleased, notifiesOnScoreSave } from './exam-release'
+
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
+
+// Answers saved this soon after the time limit still count (slow networks)
+export const ATTEMPT_GRACE_SECONDS = 30
+
+// ============================================
+// Types
+// ============================================
+
+/** A validated question as stored on ExamQuestion */
+export interface ExamQuestionInput {
+  type: ExamQuestionType
+  prompt: string
+  options: string[]
+  answerKey: string[]
+  points: number
+}
+
+export interface GradableQuestion {
+  id: string
+  type: ExamQuestionType
+  answerKey: string[]
+  points: number
+}
+
+export interface AnswerGrade {
+  isCorrect: boolean
+  pointsAwarded: number
+}
+
+export interface AttemptSummary {
+  earned: number
+  possible: number
+  // Answers still waiting on a grader
+  pendingCount: number
+}
+
+/** A result written to ExamScore, shaped for notifyGradePosted */
+export interface FinalizedAttempt {
+  examId: string
+  studentId: string
+  studentName: string
+  examSection: string
+  score: number
+  percentage: number
+  // False while the exam's scores are hidden: don't show the score
+  released: boolean
+  // Only once the exam is actually released; a due release notifies in its batch
+  notify: boolean
+}
+
+// ============================================
+// Validation
+// ============================================
+
+function toTrimmedList(value: unknown): string[] | null {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) return null
+  return (value as string[]).map(item => item.trim())
+}
+
+/**
+ * Validate a question body. The answer key must fit the question type:
+ * an option index for multiple choice, "true" or "false", optional accepted
+ * wordings for short answers, and nothing for essays.
+ */
+export function parseExamQuestionInput(body: Record<string, unknown>): { data?: ExamQuestionInput; error?: string } {
+  const type = body.type as ExamQuestionType
+  if (!Object.values(ExamQuestionType).includes(type)) {
+    return { error: `Invalid question type. Must be one of: ${Object.values(ExamQuestionType).join(', ')}` }
+  }
+
+  if (typeof body.prompt !== 'string' || !body.prompt.trim()) {
+    return { error: 'A question prompt is required' }
+  }
+
+  const points = body.points === undefined ? 1 : body.points
+  if (typeof points !== 'number' || !isFinite(points) || points <= 0) {
+    return { error: 'Points must be a positive number' }
+  }
+
+  const options = toTrimmedList(body.options)
+  const answerKey = toTrimmedList(body.answerKey)?.filter(Boolean)
+  if (!options || !answerKey) {
+    return { error: 'Options and answer key must be lists of text' }
+  }
+
+  const data: ExamQuestionInput = { type, prompt: body.prompt.trim(), options: [], answerKey: [], points }
+
+  switch (type) {
+    case ExamQuestionType.MULTIPLE_CHOICE:
+      if (options.length < 2) return { error: 'Multiple choice questions need at least two options' }
+      // Blank options aren't dropped: the answer key refers to options by position
+      if (options.some(option => !option)) return { error: 'Options cannot be blank' }
+      if (answerKey.length === 0 || answerKey.some(key => !/^\d+$/.test(key) || Number(key) >= options.length)) {
+        return { error: 'Mark which option is correct' }
+      }
+      data.options = options
+      data.answerKey = [...new Set(answerKey)]
+      break
+    case ExamQuestionType.TRUE_FALSE: {
+      const key = answerKey[0]?.toLowerCase()
+      if (answerKey.length !== 1 || (key !== 'true' && key !== 'false')) {
+        return { error: 'True/false questions need an answer of true or false' }
+      }
+      data.answerKey = [key]
+      break
+    }
+    case ExamQuestionType.SHORT_ANSWER:
+      data.answerKey = answerKey
+      break
+    case ExamQuestionType.ESSAY:
+      break
+  }
+
+  return { data }
+}
+
+// ============================================
+// Grading
+// ============================================
+
+export function normalizeAnswer(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!]+$/, '')
+}
+
+/**
+ * Auto-grade one answer. Returns null when the answer needs a grader:
+ * essays, and short answers without an answer key. Blank answers score zero
+ * for every type so they never sit in the grading queue.
+ */
+export function gradeAnswer(question: GradableQuestion, response: string | null | undefined): AnswerGrade | null {
+  if (!response?.trim()) return { isCorrect: false, pointsAwarded: 0 }
+
+  let isCorrect: boolean
+  switch (question.type) {
+    case ExamQuestionType.ESSAY:
+      return null
+    case ExamQuestionType.SHORT_ANSWER:
+      if (question.answerKey.length === 0) return null
+      isCorrect = question.answerKey.some(key => normalizeAnswer(key) === normalizeAnswer(response))
+      break
+    case ExamQuestionType.MULTIPLE_CHOICE:
+      isCorrect = question.answerKey.includes(response.trim())
+      break
+    case ExamQuestionType.TRUE_FALSE:
+      isCorrect = question.answerKey[0] === response.trim().toLowerCase()
+      break
+    default:
+      return null
+  }
+
+  return { isCorrect, pointsAwarded: isCorrect ? question.points : 0 }
+}
+
+export function summarizeAttempt(
+  questions: Array<{ id: string; points: number }>,
+  answers: Array<{ questionId: string; pointsAwarded: number | null }>
+): AttemptSummary {
+  const awarded = new Map(answers.map(a => [a.questionId, a.pointsAwarded]))
+  let earned = 0
+  let possible = 0
+  let pendingCount = 0
+
+  for (const question of questions) {
+    possible += question.points
+    const points = awarded.get(question.id)
+    if (points === null || points === undefined) {
+      pendingCount++
+    } else {
+      earned += points
+    }
+  }
+
+  return { earned, possible, pendingCount }
+}
+
+/**
+ * Scale earned question points to the exam's total points, so an online
+ * result lands in ExamScore exactly like a typed-in score.
+ */
+export function toExamScore(earned: number, possible: number, totalPoints: number): { score: number; percentage: number } {
+  const percentage = possible > 0 ? (earned / possible) * 100 : 0
+  const score = Math.round((percentage / 100) * totalPoints * 100) / 100
+  return { score, percentage }
+}
+
+export function getAttemptExpiry(startedAt: Date, durationMinutes: number | null): Date | null {
+  if (!durationMinutes) return null
+  return new Date(startedAt.getTime() + durationMinutes * 60 * 1000)
+}
+
+/** An attempt accepts answers until it is submitted or its time (plus grace) runs out */
+export function isAttemptOpen(
+  attempt: { status: ExamAttemptStatus; expiresAt: Date | null },
+  now = new Date()
+): boolean {
+  if (attempt.status !== ExamAttemptStatus.IN_PROGRESS) return false
+  if (!attempt.expiresAt) return true
+  return now.getTime() <= attempt.expiresAt.getTime() + ATTEMPT_GRACE_SECONDS * 1000
+}
+
+/** Online exams are open to active students in the exam's year level */
+export function isExamOpenToStudent(
+  exam: { onlineEnabled: boolean; yearLevel: string },
+  enrollment: { yearLevel: string; isActive: boolean } | null
+): boolean {
+  if (!exam.onlineEnabled || !enrollment?.isActive) return false
+  return exam.yearLevel === 'BOTH' || exam.yearLevel === enrollment.yearLevel
+}
+
+/** Strip the answer key before sending a question to a student */
+export function toStudentQuestion<T extends { answerKey: string[] }>(question: T): Omit<T, 'answerKey'> {
+  const { answerKey: _answerKey, ...rest } = question
+  return rest
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+export async function saveAttemptResponses(
+  attemptId: string,
+  responses: Record<string, string | null>,
+  tx?: PrismaTx
+): Promise<void> {
+  const db = tx || prisma
+  for (const [questionId, response] of Object.entries(responses)) {
+    await db.examAnswer.upsert({
+      where: { attemptId_questionId: { attemptId, questionId } },
+      create: { attemptId, questionId, response },
+      update: { response },
+    })
+  }
+}
+
+/**
+ * Write the attempt's result to ExamScore once every answer is graded, and
+ * mark it GRADED. Re-running after a regrade rewrites the score. Returns null
+ * while answers are still waiting on a grader. Callers notify the student.
+ */
+export async function finalizeAttempt(
+  attemptId: string,
+  gradedBy: string | null,
+  tx?: PrismaTx
+): Promise<FinalizedAttempt | null> {
+  const db = tx || prisma
+  const attempt = await db.examAttempt.findUniqueOrThrow({
+    where: { id: attemptId },
+    include: {
+      exam: {
+        select: {
+          totalPoints: true,
+          curveType: true,
+          releaseStatus: true,
+          releaseAt: true,
+          examSection: { select: { displayName: true } },
+          questions: { select: { id: true, points: true } },
+        },
+      },
+      student: { select: { name: true } },
+      answers: { select: { questionId: true, pointsAwarded: true } },
+    },
+  })
+
+  const summary = summarizeAttempt(attempt.exam.questions, attempt.answers)
+  if (summary.pendingCount > 0) return null
+
+  const { score, percentage: rawPercentage } = toExamScore(summary.earned, summary.possible, attempt.exam.totalPoints)
+  await db.examScore.upsert({
+    where: { examId_studentId: { examId: attempt.examId, studentId: attempt.studentId } },
+    create: { examId: attempt.examId, studentId: attempt.studentId, score, percentage: rawPercentage, rawPercentage, gradedBy },
+    update: { score, percentage: rawPercentage, rawPercentage, gradedBy, gradedAt: new Date() },
+  })
+  const percentage = attempt.exam.curveType
+    ? (await applyExamCurve(attempt.examId, tx)).get(attempt.studentId) ?? rawPercentage
+    : rawPercentage
+  await db.examAttempt.update({
+    where: { id: attemptId },
+    data: { status: ExamAttemptStatus.GRADED },
+  })
+
+  return {
+    examId: attempt.examId,
+    studentId: attempt.studentId,
+    studentName: attempt.student.name,
+    examSection: attempt.exam.examSection.displayName,
+    score,
+    percentage,
+    released: isExamReleased(attempt.exam),
+    notify: notifiesOnScoreSave(attempt.exam),
+  }
+}
+
+/**
+ * Close an attempt: auto-grade every objective answer (unanswered questions
+ * score zero), queue the rest for manual grading, and finalize when nothing
+ * is left to grade.
+ */
+export async function submitAttempt(attemptId: string, tx?: PrismaTx): Promise<FinalizedAttempt | null> {
+  const db = tx || prisma
+  const attempt = await db.examAttempt.findUniqueOrThrow({
+    where: { id: attemptId },
+    include: {
+      exam: { select: { questions: { select: { id: true, type: true, answerKey: true, points: true } } } },
+      answers: { select: { questionId: true, response: true } },
+    },
+  })
+
+  const responses = new Map(attempt.answers.map(a => [a.questionId, a.response]))
+  for (const question of attempt.exam.questions) {
+    const response = responses.get(question.id) ?? null
+    const grade = gradeAnswer(question, response)
+    const result = {
+      isCorrect: grade?.isCorrect ?? null,
+      pointsAwarded: grade?.pointsAwarded ?? null,
+      gradedAt: grade ? new Date() : null,
+    }
+    await db.examAnswer.upsert({
+      where: { attemptId_questionId: { attemptId, questionId: question.id } },
+      create: { attemptId, questionId: question.id, response, ...result },
+      update: result,
+    })
+  }
+
+  await db.examAttempt.update({
+    where: { id: attemptId },
+    data: { status: ExamAttemptStatus.SUBMITTED, submittedAt: new Date() },
+  })
+
+  return finalizeAttempt(attemptId, null, tx)
+}
+
+/**
+ * Submit an in-progress attempt whose time ran out, so a student who closed
+ * the tab is still graded. `result` is set when this call finalized it.
+ */
+export async function closeExpiredAttempt(
+  attempt: { id: string; status: ExamAttemptStatus; expiresAt: Date | null },
+  now = new Date()
+): Promise<{ closed: boolean; result: FinalizedAttempt | null }> {
+  if (attempt.status !== ExamAttemptStatus.IN_PROGRESS || isAttemptOpen(attempt, now)) {
+    return { closed: false, result: null }
+  }
+  const result = await prisma.$transaction(tx => submitAttempt(attempt.id, tx))
+  return { closed: true, result }
+}
@@ -0,0 +1,78 @@
+/**
+ * Expected absence helpers
+ *
+ * An expected absence blocks out a date range for a student (e.g. travel).
+ * Admins add them directly; students submit them as requests that an admin
+ * or their mentor approves. Only approved absences excuse attendance.
+ *
+ * This module has no server dependencies so client components can use it too.
+ */
+
+import { formatDateUTC } from './utils'
+
+export type ExpectedAbsenceStatusValue = 'PENDING' | 'APPROVED' | 'REJECTED'
+
+export interface ExpectedAbsenceWindow {
+  startDate: Date
+  endDate: Date
+  reason: string
+}
+
+/**
+ * Validate the dates and reason from a create body. The end date is pushed to
+ * the last millisecond of its UTC day so a lesson scheduled at any time on
+ * that day is covered.
+ */
+export function parseExpectedAbsenceInput(
+  body: Record<string, unknown>
+): { data?: ExpectedAbsenceWindow; error?: string } {
+  const { startDate, endDate, reason } = body
+
+  if (!startDate || !endDate || typeof reason !== 'string' || !reason.trim()) {
+    return { error: 'Start date, end date, and reason are required' }
+  }
+
+  const start = new Date(startDate as string)
+  const end = new Date(endDate as string)
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return { error: 'Invalid date(s)' }
+  }
+  end.setUTCHours(23, 59, 59, 999)
+  if (end < start) {
+    return { error: 'End date must be on or after the start date' }
+  }
+
+  return { data: { startDate: start, endDate: end, reason: reason.trim() } }
+}
+
+/**
+ * Validate a review decision. Only pending requests can be reviewed, and a
+ * rejection needs a note so the student knows why.
+ */
+export function validateAbsenceReview(
+  currentStatus: ExpectedAbsenceStatusValue,
+  decision: unknown,
+  note?: unknown
+): string | null {
+  if (decision !== 'APPROVED' && decision !== 'REJECTED') {
+    return 'Invalid status. Must be APPROVED or REJECTED'
+  }
+  if (currentStatus !== 'PENDING') {
+    return `Request has already been ${currentStatus.toLowerCase()}`
+  }
+  if (decision === 'REJECTED' && (typeof note !== 'string' || !note.trim())) {
+    return 'A note is required when rejecting a request'
+  }
+  return null
+}
+
+/**
+ * Describe an absence window, e.g. "Mar 1 – Mar 5, 2026" or "Mar 1, 2026".
+ */
+export function formatAbsenceRange(startDate: string | Date, endDate: string | Date): string {
+  const options: Intl.DateTimeFormatOptions = { weekday: undefined, year: undefined }
+  const start = formatDateUTC(startDate, options)
+  const end = formatDateUTC(endDate, options)
+  const year = formatDateUTC(endDate, { weekday: undefined, month: undefined, day: undefined })
+  return start === end ? `${start}, ${year}` : `${start} – ${end}, ${year}`
+}
@@ -0,0 +1,177 @@
+import path from 'path'
+import { mkdir, readFile, unlink, writeFile } from 'fs/promises'
+import { put, del, get, head, BlobNotFoundError } from '@vercel/blob'
+
+/**
+ * File storage
+ *
+ * Uploads go to Vercel Blob when BLOB_READ_WRITE_TOKEN is set (production).
+ * Without a token (local development, self-hosting) files are written under
+ * LOCAL_UPLOAD_DIR. Blobs are private, so either way files are only served
+ * through routes that check access and read them back with readStoredFile.
+ *
+ * Server uploads are capped at MAX_UPLOAD_SIZE. Larger files (lesson audio)
+ * go from the browser straight to Blob with a client token and are then
+ * registered by URL; see app/api/lesson-resources/upload.
+ */
+
+export const ALLOWED_DOCUMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/jpg',
+  'image/gif',
+  'application/pdf',
+]
+export const MAX_UPLOAD_SIZE = 4.5 * 1024 * 1024 // 4.5 MB (Vercel's server upload limit)
+
+// Marks a stored URL as a local file; the rest is its pathname under
+// LOCAL_UPLOAD_DIR. Not a route: files are served by the routes that own them.
+export const LOCAL_UPLOAD_PREFIX = '/api/uploads/'
+
+export interface StoredFile {
+  url: string
+  filename: string
+  contentType: string
+  size: number
+}
+
+function getLocalUploadDir(): string {
+  return path.resolve(process.cwd(), process.env.LOCAL_UPLOAD_DIR || '.uploads')
+}
+
+/**
+ * Check a file's type and size against the upload limits. Returns an error
+ * message, or null when the file is acceptable.
+ */
+export function validateUploadFile(
+  file: { type: string; size: number },
+  allowedTypes: string[] = ALLOWED_DOCUMENT_TYPES,
+  maxSize: number = MAX_UPLOAD_SIZE
+): string | null {
+  if (!allowedTypes.includes(file.type)) {
+    return `Invalid file type. Allowed types: ${allowedTypes.join(', ')}`
+  }
+  if (file.size > maxSize) {
+    return `File size exceeds ${maxSize / 1024 / 1024} MB limit`
+  }
+  return null
+}
+
+/** Whether uploads go to Vercel Blob (and so can be uploaded from the browser) */
+export function usesBlobStorage(): boolean {
+  return !!process.env.BLOB_READ_WRITE_TOKEN
+}
+
+/**
+ * A Content-Disposition header for serving a stored file under its original
+ * name: an ASCII `filename` for old clients plus the exact name as
+ * `filename*` (RFC 6266), so browsers don't save names full of %20.
+ */
+export function contentDisposition(type: 'inline' | 'attachment', filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\%]/g, '_')
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`
+}
+
+/**
+ * Turn a client filename into a safe single path segment.
+ */
+export function sanitizeFilename(filename: string): string {
+  const cleaned = filename.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^[.-]+/, '')
+  return cleaned.slice(-100) || 'file'
+}
+
+/**
+ * Resolve a stored pathname inside the local upload directory. Returns null
+ * for anything that would escape it (e.g. "../").
+ */
+export function resolveLocalUploadPath(pathname: string, baseDir: string = getLocalUploadDir()): string | null {
+  const resolved = path.resolve(baseDir, pathname)
+  if (!resolved.startsWith(baseDir + path.sep)) return null
+  return resolved
+}
+
+/**
+ * Store an uploaded file under `folder` and return where it can be fetched.
+ */
+export async function storeFile(folder: string, file: File): Promise<StoredFile> {
+  const pathname = `${folder}/${Date.now()}-${sanitizeFilename(file.name)}`
+
+  if (process.env.BLOB_READ_WRITE_TOKEN) {
+    const blob = await put(pathname, file, {
+      access: 'private',
+      addRandomSuffix: true,
+      token: process.env.BLOB_READ_WRITE_TOKEN,
+    })
+    return { url: blob.url, filename: file.name, contentType: file.type, size: file.size }
+  }
+
+  const target = resolveLocalUploadPath(pathname)
+  if (!target) throw new Error('Invalid upload path')
+  await mkdir(path.dirname(target), { recursive: true })
+  await writeFile(target, Buffer.from(await file.arrayBuffer()))
+  return { url: `${LOCAL_UPLOAD_PREFIX}${pathname}`, filename: file.name, contentType: file.type, size: file.size }
+}
+
+/**
+ * Read a locally stored file back by its pathname (the part of the URL after
+ * LOCAL_UPLOAD_PREFIX). Returns null when it does not exist.
+ */
+async function readLocalFile(pathname: string): Promise<Buffer | null> {
+  const target = resolveLocalUploadPath(pathname)
+  if (!target) return null
+  try {
+    return await readFile(target)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read a stored file back by its URL, from local storage or Blob. Returns
+ * null when it does not exist. Blobs uploaded before they were made private
+ * are still read from their public URL.
+ */
+export async function readStoredFile(url: string): Promise<Uint8Array<ArrayBuffer> | ReadableStream<Uint8Array> | null> {
+  if (url.startsWith(LOCAL_UPLOAD_PREFIX)) {
+    const contents = await readLocalFile(url.slice(LOCAL_UPLOAD_PREFIX.length))
+    return contents ? new Uint8Array(contents) : null
+  }
+  const result = await get(url, {
+    access: new URL(url).hostname.includes('.public.blob.') ? 'public' : 'private',
+    token: process.env.BLOB_READ_WRITE_TOKEN,
+  })
+  return result?.statusCode === 200 ? result.stream : null
+}
+
+/**
+ * Look up a blob uploaded from the browser: its pathname in the store, and
+ * the type and size Blob recorded (not what the client claims). Returns null
+ * when it does not exist.
+ */
+export async function describeUploadedBlob(url: string): Promise<{ pathname: string; contentType: string; size: number } | null> {
+  try {
+    const blob = await head(url, { token: process.env.BLOB_READ_WRITE_TOKEN })
+    return { pathname: blob.pathname, contentType: blob.contentType, size: blob.size }
+  } catch (error) {
+    if (error instanceof BlobNotFoundError) return null
+    throw error
+  }
+}
+
+/**
+ * Delete a stored file. Best-effort: failures are logged, not thrown, so a
+ * missing blob never blocks removing its database row.
+ */
+export async function deleteStoredFile(url: string) {
+  try {
+    if (url.startsWith(LOCAL_UPLOAD_PREFIX)) {
+      const target = resolveLocalUploadPath(url.slice(LOCAL_UPLOAD_PREFIX.length))
+      if (target) await unlink(target)
+      return
+    }
+    await del(url, { token: process.env.BLOB_READ_WRITE_TOKEN })
+  } catch (error) {
+    console.error('Error deleting stored file:', error)
+  }
+}
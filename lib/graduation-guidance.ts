@@ -4,6 +4,10 @@ export interface AttendanceGuidance {
   status: 'on-track' | 'at-risk' | 'failing' | 'no-data'
   message: string
   detail?: string
+  // Further absences allowed before dropping below the requirement (when met)
+  buffer?: number
+  // Consecutive lessons needed to get back above the requirement (when failing)
+  lessonsToRecover?: number
 }
 
 export interface ExamGuidance {
@@ -12,6 +16,11 @@ export interface ExamGuidance {
   detail?: string
 }
 
+// With only a few lessons recorded, even perfect attendance has no buffer
+// (1 of 1 at 75%: 1 / 0.75 - 1 = 0.33 → 0), so a zero buffer only counts as
+// at-risk once this many countable lessons are in
+const MIN_LESSONS_FOR_ATTENDANCE_RISK = 4
+
 export function getAttendanceGuidance(a: AttendanceAnalytics): AttendanceGuidance {
   const denom = a.allLessons - a.excusedCount
   if (denom <= 0 || a.percentage === null) {
@@ -27,15 +36,17 @@ export function getAttendanceGuidance(a: AttendanceAnalytics): AttendanceGuidanc
     const buffer = Math.floor(effective / required - denom)
     if (buffer <= 0) {
       return {
-        status: 'on-track',
+        status: denom >= MIN_LESSONS_FOR_ATTENDANCE_RISK ? 'at-risk' : 'on-track',
         message: 'Just above the line',
-        detail: 'Any further absence will drop you below 75%',
+        detail: `Any further absence will drop you below ${a.required}%`,
+        buffer: 0,
       }
     }
     return {
       status: 'on-track',
       message: `${buffer} absence${buffer === 1 ? '' : 's'} of buffer remaining`,
       detail: `You can miss up to ${buffer} more lesson${buffer === 1 ? '' : 's'} before dropping below ${a.required}%`,
+      buffer,
     }
   }
 
@@ -47,6 +58,7 @@ export function getAttendanceGuidance(a: AttendanceAnalytics): AttendanceGuidanc
       status: 'failing',
       message: `Attend the next ${needed} lesson${needed === 1 ? '' : 's'} in a row to recover`,
       detail: `Currently ${(a.percentage ?? 0).toFixed(1)}%. Target is ${a.required}%.`,
+      lessonsToRecover: needed,
     }
   }
 
@@ -57,6 +69,28 @@ export function getAttendanceGuidance(a: AttendanceAnalytics): AttendanceGuidanc
   }
 }
 
+/**
+ * Summarize an at-risk or failing attendance guidance for an alert, with the
+ * buffer/recovery numbers. Written in the third person so the same text works
+ * for the student, their mentor and admins.
+ */
+export function describeAttendanceRisk(a: AttendanceAnalytics, g: AttendanceGuidance): string {
+  const current = `Attendance is ${(a.percentage ?? 0).toFixed(1)}% (required ${a.required}%).`
+  if (g.status === 'at-risk') {
+    return `${current} No absences to spare: any further absence drops below ${a.required}%.`
+  }
+  if (g.lessonsToRecover) {
+    const n = g.lessonsToRecover
+    return `${current} Needs to attend the next ${n} lesson${n === 1 ? '' : 's'} in a row to recover.`
+  }
+  return `${current} Below the required threshold.`
+}
+
+/**
+ * Exam guidance from effective scores: examsTaken and overallAverage count
+ * one score per exam after the year's retake policy, so a retake changes the
+ * average rather than adding another exam.
+ */
 export function getExamGuidance(e: ExamAnalytics): ExamGuidance {
   const taken = e.examsTaken
   const missing = e.missingExams?.length ?? 0
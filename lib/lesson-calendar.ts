@@ -0,0 +1,437 @@
+/**
+ * Lesson calendar
+ *
+ * Lessons, exams and Sunday School weeks as calendar events, for the
+ * month/week calendar view and for each user's iCalendar (.ics) feed.
+ *
+ * The feed URL is public so calendar apps can poll it without signing in,
+ * and is protected by a token signed with NEXTAUTH_SECRET over the user's
+ * id and calendarFeedVersion. Bumping the version revokes the old URL.
+ * Cancelled and no-class lessons stay in the feed marked as cancelled, so
+ * subscribed calendars pick up the change instead of silently dropping
+ * the event.
+ */
+import { createHmac, timingSafeEqual } from 'crypto'
+import { ExamSittingType, ExamYearLevel, LessonStatus, SundaySchoolGrade, UserRole } from '@prisma/client'
+import { prisma } from './prisma'
+import { isAdmin, isMentor, isStudent } from './roles'
+import { GRADE_DISPLAY_NAMES } from './sunday-school-utils'
+
+// ============================================
+// Types
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEK_MS = 7 * DAY_MS
+
+// Calendar apps need an end time; lessons and exams don't record one
+export const DEFAULT_EVENT_MINUTES = 60
+
+// The feed covers recent history and the year ahead
+export const FEED_PAST_DAYS = 60
+export const FEED_FUTURE_DAYS = 365
+
+export type CalendarEventKind = 'LESSON' | 'EXAM' | 'SUNDAY_SCHOOL'
+
+export interface CalendarEvent {
+  uid: string // Stable across feed refreshes
+  kind: CalendarEventKind
+  title: string
+  date: string // "YYYY-MM-DD"
+  startTime: string | null // "HH:MM" local time; null = all-day
+  status: LessonStatus
+  isExamDay: boolean
+  description: string | null
+  updatedAt: Date
+}
+
+export interface CalendarLesson {
+  id: string
+  title: string
+  subtitle: string | null
+  speaker: string | null
+  scheduledDate: Date
+  status: LessonStatus
+  cancellationReason: string | null
+  isExamDay: boolean
+  startTime: string | null
+  updatedAt: Date
+  examSection: { displayName: string }
+  academicYear: { defaultLessonStartTime: string | null }
+}
+
+export interface CalendarExam {
+  id: string
+  examDate: Date
+  yearLevel: ExamYearLevel
+  lessonId: string | null
+  updatedAt: Date
+  examSection: { displayName: string }
+  lesson: { startTime: string | null } | null
+  academicYear: { defaultLessonStartTime: string | null }
+}
+
+export interface CalendarSundaySchoolAssignment {
+  studentId: string
+  grade: SundaySchoolGrade
+  startDate: Date
+  totalWeeks: number
+  updatedAt: Date
+}
+
+export interface CalendarRange {
+  from: Date
+  to: Date
+}
+
+// ============================================
+// Events
+// ============================================
+
+/** "YYYY-MM-DD" of the date's UTC day */
+function toDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+const STATUS_PREFIXES: Partial<Record<LessonStatus, string>> = {
+  CANCELLED: 'Cancelled: ',
+  NO_CLASS: 'No class: ',
+}
+
+export function lessonToEvent(lesson: CalendarLesson): CalendarEvent {
+  const prefix = STATUS_PREFIXES[lesson.status] ?? (lesson.isExamDay ? 'Exam day: ' : '')
+  const details = [
+    lesson.subtitle,
+    lesson.examSection.displayName,
+    lesson.speaker && `Speaker: ${lesson.speaker}`,
+    lesson.cancellationReason && STATUS_PREFIXES[lesson.status] && `Reason: ${lesson.cancellationReason}`,
+  ].filter(Boolean)
+
+  return {
+    uid: `lesson-${lesson.id}`,
+    kind: 'LESSON',
+    title: `${prefix}${lesson.title}`,
+    date: toDayKey(lesson.scheduledDate),
+    startTime: lesson.startTime ?? lesson.academicYear.defaultLessonStartTime,
+    status: lesson.status,
+    isExamDay: lesson.isExamDay,
+    description: details.length > 0 ? details.join('\n') : null,
+    updatedAt: lesson.updatedAt,
+  }
+}
+
+const YEAR_LEVEL_SUFFIXES: Record<ExamYearLevel, string> = {
+  YEAR_1: ' (Year 1)',
+  YEAR_2: ' (Year 2)',
+  BOTH: '',
+}
+
+export function examToEvent(exam: CalendarExam): CalendarEvent {
+  return {
+    uid: `exam-${exam.id}`,
+    kind: 'EXAM',
+    title: `${exam.examSection.displayName} Exam${YEAR_LEVEL_SUFFIXES[exam.yearLevel]}`,
+    date: toDayKey(exam.examDate),
+    startTime: exam.lesson?.startTime ?? exam.academicYear.defaultLessonStartTime,
+    status: LessonStatus.SCHEDULED,
+    isExamDay: true,
+    description: null,
+    updatedAt: exam.updatedAt,
+  }
+}
+
+/**
+ * Sunday School weeks that fall in the range, as all-day events on each
+ * week's first day. A single student's assignment gets its week number;
+ * several students' assignments are combined into one event per week.
+ */
+export function sundaySchoolEvents(
+  assignments: CalendarSundaySchoolAssignment[],
+  range: CalendarRange,
+  combine: boolean
+): CalendarEvent[] {
+  const weeks = new Map<string, { assignments: CalendarSundaySchoolAssignment[]; weekNumbers: number[] }>()
+  for (const assignment of assignments) {
+    for (let i = 0; i < assignment.totalWeeks; i++) {
+      const weekOf = new Date(assignment.startDate.getTime() + i * WEEK_MS)
+      if (weekOf < range.from || weekOf > range.to) continue
+      const key = toDayKey(weekOf)
+      const week = weeks.get(key) ?? { assignments: [], weekNumbers: [] }
+      week.assignments.push(assignment)
+      week.weekNumbers.push(i + 1)
+      weeks.set(key, week)
+    }
+  }
+
+  const events: CalendarEvent[] = []
+  for (const [date, week] of weeks) {
+    const updatedAt = new Date(Math.max(...week.assignments.map(a => a.updatedAt.getTime())))
+    const base = { kind: 'SUNDAY_SCHOOL' as const, date, startTime: null, status: LessonStatus.SCHEDULED, isExamDay: false, updatedAt }
+    if (combine) {
+      const students = new Set(week.assignments.map(a => a.studentId)).size
+      events.push({
+        ...base,
+        uid: `sunday-school-${date}`,
+        title: `Sunday School (${students} student${students === 1 ? '' : 's'})`,
+        description: null,
+      })
+    } else {
+      week.assignments.forEach((assignment, i) => {
+        events.push({
+          ...base,
+          uid: `sunday-school-${assignment.studentId}-${date}`,
+          title: `Sunday School week ${week.weekNumbers[i]} of ${assignment.totalWeeks}`,
+          description: GRADE_DISPLAY_NAMES[assignment.grade],
+        })
+      })
+    }
+  }
+  return events
+}
+
+/**
+ * Combine lessons, exams and Sunday School weeks in date order. An exam-day
+ * lesson that one of the exams is tied to is left out; the exam stands in
+ * for it.
+ */
+export function mergeCalendarEvents(
+  lessons: CalendarLesson[],
+  exams: CalendarExam[],
+  sundaySchool: CalendarEvent[]
+): CalendarEvent[] {
+  const examLessonIds = new Set(exams.map(e => e.lessonId).filter(Boolean))
+  return [
+    ...lessons.filter(l => !examLessonIds.has(l.id)).map(lessonToEvent),
+    ...exams.map(examToEvent),
+    ...sundaySchool,
+  ].sort((a, b) =>
+    a.date.localeCompare(b.date) ||
+    (a.startTime ?? '').localeCompare(b.startTime ?? '') ||
+    a.title.localeCompare(b.title)
+  )
+}
+
+// ============================================
+// iCalendar
+// ============================================
+
+/** Escape text for an iCalendar property value (RFC 5545 §3.3.11) */
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/** Fold a content line to 75 octets, continuing on lines that start with a space */
+export function foldICalLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  for (const char of line) {
+    const bytes = encoder.encode(char).length
+    const limit = parts.length === 0 ? 75 : 74 // Continuation lines lose an octet to the leading space
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += bytes
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+/** UTC timestamp, e.g. 20250907T183000Z */
+function formatICalTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * DTSTART/DTEND lines. Timed events use floating local times, since lesson
+ * start times are wall-clock times at the church.
+ */
+function eventTimeLines(event: CalendarEvent): string[] {
+  const [year, month, day] = event.date.split('-').map(Number)
+  if (!event.startTime) {
+    const next = new Date(Date.UTC(year, month - 1, day) + DAY_MS)
+    return [
+      `DTSTART;VALUE=DATE:${event.date.replace(/-/g, '')}`,
+      `DTEND;VALUE=DATE:${toDayKey(next).replace(/-/g, '')}`,
+    ]
+  }
+  const [hours, minutes] = event.startTime.split(':').map(Number)
+  const start = new Date(Date.UTC(year, month - 1, day, hours, minutes))
+  const end = new Date(start.getTime() + DEFAULT_EVENT_MINUTES * 60 * 1000)
+  const floating = (date: Date) => formatICalTimestamp(date).replace(/Z$/, '')
+  return [`DTSTART:${floating(start)}`, `DTEND:${floating(end)}`]
+}
+
+/** Build a VCALENDAR document from calendar events */
+export function buildICalendar(events: CalendarEvent[], calendarName: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Servants Prep//Lesson Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(calendarName)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+  ]
+
+  for (const event of events) {
+    const cancelled = event.status === LessonStatus.CANCELLED || event.status === LessonStatus.NO_CLASS
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}@servants-prep`,
+      `DTSTAMP:${formatICalTimestamp(event.updatedAt)}`,
+      `LAST-MODIFIED:${formatICalTimestamp(event.updatedAt)}`,
+      ...eventTimeLines(event),
+      `SUMMARY:${escapeICalText(event.title)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeICalText(event.description)}`] : []),
+      `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+      ...(event.kind === 'EXAM' ? ['CATEGORIES:Exam'] : []),
+      'END:VEVENT'
+    )
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldICalLine).join('\r\n') + '\r\n'
+}
+
+// ============================================
+// Feed Tokens
+// ============================================
+
+function feedSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) throw new Error('NEXTAUTH_SECRET is not set')
+  return secret
+}
+
+function feedSignature(userId: string, version: number, secret: string): string {
+  return createHmac('sha256', secret).update(`calendar-feed:${userId}:${version}`).digest('base64url')
+}
+
+/** Token for a user's feed URL: "<userId>.<version>.<signature>" */
+export function signCalendarFeedToken(userId: string, version: number, secret: string = feedSecret()): string {
+  return `${userId}.${version}.${feedSignature(userId, version, secret)}`
+}
+
+/**
+ * Check a feed token's signature. Returns the user id and feed version it was
+ * issued for, or null when it's malformed or forged. The caller still has to
+ * compare the version with the user's current one.
+ */
+export function readCalendarFeedToken(
+  token: string,
+  secret: string = feedSecret()
+): { userId: string; version: number } | null {
+  const [userId, versionText, signature, ...rest] = token.split('.')
+  if (!userId || !versionText || !signature || rest.length > 0 || !/^\d+$/.test(versionText)) return null
+
+  const version = Number(versionText)
+  const expected = Buffer.from(feedSignature(userId, version, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+  return { userId, version }
+}
+
+// ============================================
+// Database Operations
+// ============================================
+
+const lessonSelect = {
+  id: true,
+  title: true,
+  subtitle: true,
+  speaker: true,
+  scheduledDate: true,
+  status: true,
+  cancellationReason: true,
+  isExamDay: true,
+  startTime: true,
+  updatedAt: true,
+  examSection: { select: { displayName: true } },
+  academicYear: { select: { defaultLessonStartTime: true } },
+} as const
+
+const examSelect = {
+  id: true,
+  examDate: true,
+  yearLevel: true,
+  lessonId: true,
+  updatedAt: true,
+  examSection: { select: { displayName: true } },
+  lesson: { select: { startTime: true } },
+  academicYear: { select: { defaultLessonStartTime: true } },
+} as const
+
+const assignmentSelect = {
+  studentId: true,
+  grade: true,
+  startDate: true,
+  totalWeeks: true,
+  updatedAt: true,
+} as const
+
+/**
+ * The events a user sees between two dates. Everyone sees all lessons and
+ * regular exam sittings; students only see exams for their year level and
+ * their own Sunday School weeks, mentors see their mentees' Sunday School
+ * weeks and admins see everyone's.
+ */
+export async function getCalendarEvents(
+  user: { id: string; role: UserRole },
+  range: CalendarRange
+): Promise<CalendarEvent[]> {
+  const student = isStudent(user.role)
+  const enrollment = student
+    ? await prisma.studentEnrollment.findUnique({ where: { studentId: user.id }, select: { yearLevel: true } })
+    : null
+
+  const examYearLevels = student
+    ? (enrollment ? [enrollment.yearLevel as ExamYearLevel, ExamYearLevel.BOTH] : [])
+    : undefined
+
+  const assignmentStudents = student
+    ? { studentId: user.id }
+    : isMentor(user.role)
+      ? { student: { enrollments: { some: { mentorId: user.id } } } }
+      : isAdmin(user.role) ? {} : null
+
+  const [lessons, exams, assignments] = await Promise.all([
+    prisma.lesson.findMany({
+      where: { scheduledDate: { gte: range.from, lte: range.to } },
+      select: lessonSelect,
+    }),
+    prisma.exam.findMany({
+      where: {
+        examDate: { gte: range.from, lte: range.to },
+        sittingType: ExamSittingType.REGULAR,
+        ...(examYearLevels && { yearLevel: { in: examYearLevels } }),
+      },
+      select: examSelect,
+    }),
+    assignmentStudents
+      ? prisma.sundaySchoolAssignment.findMany({
+          where: { isActive: true, startDate: { lte: range.to }, ...assignmentStudents },
+          select: assignmentSelect,
+        })
+      : Promise.resolve([]),
+  ])
+
+  return mergeCalendarEvents(lessons, exams, sundaySchoolEvents(assignments, range, !student))
+}
+
+/** Date range for a user's feed, around the given time */
+export function feedRange(now: Date = new Date()): CalendarRange {
+  return {
+    from: new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS),
+    to: new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS),
+  }
+}
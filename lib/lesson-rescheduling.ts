@@ -0,0 +1,255 @@
+/**
+ * Cancel and shift
+ *
+ * Cancelling a lesson normally just marks it CANCELLED and its topic is lost.
+ * "Cancel and shift" postpones the topic instead: the lesson and every later
+ * scheduled lesson in the year move forward one slot, taking the date of the
+ * next scheduled lesson (so breaks and irregular weeks are kept), and the
+ * last one moves to the next free week. The cancelled date keeps a CANCELLED
+ * placeholder so students and the calendar still see the cancellation, and
+ * lessons from the cancelled date on are renumbered in date order.
+ *
+ * Attendance already recorded for the cancelled lesson describes that
+ * evening, so it moves to the placeholder (cancelled lessons don't count
+ * toward attendance) and the postponed lesson starts clean. Later lessons
+ * that already have attendance can't be moved safely and block the shift.
+ */
+import { LessonStatus } from '@prisma/client'
+import { prisma } from './prisma'
+import { toDayKey } from './curriculum-templates'
+import { moveExamsWithLesson } from './exam-calendar'
+import { resetSpeakerConfirmations } from './speakers'
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+// ============================================
+// Types
+// ============================================
+
+export interface RescheduleLesson {
+  id: string
+  title: string
+  lessonNumber: number
+  scheduledDate: Date
+  status: LessonStatus
+  attendanceCount: number
+  examCount: number // Exams held on this exam-day lesson; they move with it
+}
+
+export interface LessonShift {
+  lessonId: string | null // null for the cancelled-date placeholder
+  title: string
+  fromDate: Date | null
+  toDate: Date
+  fromNumber: number | null
+  toNumber: number
+  examCount: number
+}
+
+export interface CancelShiftPlan {
+  cancelled: { id: string; title: string; scheduledDate: Date; attendanceCount: number }
+  shifts: LessonShift[] // Every lesson whose date or number changes, and the placeholder, in date order
+  movedLessonIds: string[] // The cancelled lesson and the later lessons that take a new date
+  outsideYear: boolean // The last lesson would land after the academic year ends
+  blockers: string[] // Later lessons with attendance already recorded
+}
+
+// ============================================
+// Planning
+// ============================================
+
+/**
+ * Plan cancelling a lesson and shifting it and every later scheduled lesson
+ * forward one slot. `lessons` are all of the academic year's lessons.
+ */
+export function planCancelAndShift(
+  lessons: RescheduleLesson[],
+  lessonId: string,
+  academicYear: { endDate: Date }
+): { plan?: CancelShiftPlan; error?: string } {
+  const target = lessons.find(l => l.id === lessonId)
+  if (!target) return { error: 'Lesson not found' }
+  if (target.status !== LessonStatus.SCHEDULED) {
+    return { error: 'Only scheduled lessons can be cancelled and shifted' }
+  }
+
+  const byDate = (a: RescheduleLesson, b: RescheduleLesson) =>
+    a.scheduledDate.getTime() - b.scheduledDate.getTime() || a.lessonNumber - b.lessonNumber
+  const moving = [
+    target,
+    ...lessons
+      .filter(l => l.id !== target.id && l.status === LessonStatus.SCHEDULED && l.scheduledDate > target.scheduledDate)
+      .sort(byDate),
+  ]
+  const movingIds = new Set(moving.map(l => l.id))
+
+  // Each lesson takes the next one's date; the last moves to the next week
+  // that has no lesson left on it
+  const stayingDays = new Set(lessons.filter(l => !movingIds.has(l.id)).map(l => toDayKey(l.scheduledDate)))
+  stayingDays.add(toDayKey(target.scheduledDate))
+  let lastDate = new Date(moving[moving.length - 1].scheduledDate.getTime() + WEEK_MS)
+  while (stayingDays.has(toDayKey(lastDate))) {
+    lastDate = new Date(lastDate.getTime() + WEEK_MS)
+  }
+  const newDates = new Map(moving.map((lesson, i) => [
+    lesson.id,
+    i < moving.length - 1 ? moving[i + 1].scheduledDate : lastDate,
+  ]))
+
+  // Renumber from the cancelled date on, reusing those lessons' numbers plus
+  // one past the year's highest for the placeholder
+  const affected = lessons.filter(l => l.scheduledDate >= target.scheduledDate)
+  const maxNumber = Math.max(...lessons.map(l => l.lessonNumber))
+  const numbers = [...affected.map(l => l.lessonNumber), maxNumber + 1].sort((a, b) => a - b)
+
+  const ordered = [
+    { lesson: null, date: target.scheduledDate, order: -1 },
+    ...affected.map(lesson => ({ lesson, date: newDates.get(lesson.id) ?? lesson.scheduledDate, order: lesson.lessonNumber })),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime() || a.order - b.order)
+
+  const shifts: LessonShift[] = []
+  ordered.forEach(({ lesson, date }, i) => {
+    if (!lesson) {
+      shifts.push({ lessonId: null, title: target.title, fromDate: null, toDate: date, fromNumber: null, toNumber: numbers[i], examCount: 0 })
+    } else if (date.getTime() !== lesson.scheduledDate.getTime() || numbers[i] !== lesson.lessonNumber) {
+      shifts.push({
+        lessonId: lesson.id,
+        title: lesson.title,
+        fromDate: lesson.scheduledDate,
+        toDate: date,
+        fromNumber: lesson.lessonNumber,
+        toNumber: numbers[i],
+        examCount: movingIds.has(lesson.id) ? lesson.examCount : 0,
+      })
+    }
+  })
+
+  const endOfYear = new Date(academicYear.endDate)
+  endOfYear.setUTCHours(23, 59, 59, 999)
+
+  return {
+    plan: {
+      cancelled: {
+        id: target.id,
+        title: target.title,
+        scheduledDate: target.scheduledDate,
+        attendanceCount: target.attendanceCount,
+      },
+      shifts,
+      movedLessonIds: moving.map(l => l.id),
+      outsideYear: lastDate > endOfYear,
+      blockers: moving
+        .slice(1)
+        .filter(l => l.attendanceCount > 0)
+        .map(l => `Lesson ${l.lessonNumber} "${l.title}" already has attendance recorded`),
+    },
+  }
+}
+
+// ============================================
+// Database Operations
+// ============================================
+
+/**
+ * Plan a cancel-and-shift against the lesson's academic year. Returns null
+ * when the lesson doesn't exist.
+ */
+export async function getCancelShiftPlan(lessonId: string) {
+  const lesson = await prisma.lesson.findUnique({
+    where: { id: lessonId },
+    select: { academicYear: { select: { id: true, name: true, endDate: true } } },
+  })
+  if (!lesson) return null
+
+  const lessons = await prisma.lesson.findMany({
+    where: { academicYearId: lesson.academicYear.id },
+    select: {
+      id: true,
+      title: true,
+      lessonNumber: true,
+      scheduledDate: true,
+      status: true,
+      _count: { select: { attendanceRecords: true, exams: true } },
+    },
+  })
+
+  const { plan, error } = planCancelAndShift(
+    lessons.map(({ _count, ...l }) => ({ ...l, attendanceCount: _count.attendanceRecords, examCount: _count.exams })),
+    lessonId,
+    lesson.academicYear
+  )
+  return { academicYear: lesson.academicYear, plan, error }
+}
+
+/**
+ * Carry out a cancel-and-shift plan: renumber and move the lessons, create
+ * the cancelled-date placeholder and move the cancelled lesson's attendance
+ * onto it. Returns the placeholder and the moved lessons whose speakers need
+ * to confirm their new dates.
+ */
+export async function applyCancelShiftPlan(
+  plan: CancelShiftPlan,
+  { academicYearId, cancellationReason, userId }: { academicYearId: string; cancellationReason: string; userId: string }
+) {
+  return prisma.$transaction(async (tx) => {
+    const source = await tx.lesson.findUniqueOrThrow({ where: { id: plan.cancelled.id } })
+    const lessonShifts = plan.shifts.filter(s => s.lessonId !== null)
+
+    // Negative temporary numbers first so no two lessons ever share a number
+    for (let i = 0; i < lessonShifts.length; i++) {
+      await tx.lesson.update({
+        where: { id: lessonShifts[i].lessonId! },
+        data: { lessonNumber: -(i + 1) },
+      })
+    }
+
+    const placeholderShift = plan.shifts.find(s => s.lessonId === null)!
+    const placeholder = await tx.lesson.create({
+      data: {
+        academicYearId,
+        examSectionId: source.examSectionId,
+        title: source.title,
+        subtitle: source.subtitle,
+        scheduledDate: source.scheduledDate,
+        startTime: source.startTime,
+        status: LessonStatus.CANCELLED,
+        cancellationReason,
+        lessonNumber: placeholderShift.toNumber,
+        createdBy: userId,
+      },
+    })
+
+    for (const shift of lessonShifts) {
+      await tx.lesson.update({
+        where: { id: shift.lessonId! },
+        data: { scheduledDate: shift.toDate, lessonNumber: shift.toNumber },
+      })
+      if (shift.examCount > 0) {
+        await moveExamsWithLesson(shift.lessonId!, shift.toDate, tx)
+      }
+    }
+
+    // The cancelled evening's attendance stays on the cancelled date
+    const records = await tx.attendanceRecord.findMany({
+      where: { lessonId: source.id },
+      select: { id: true },
+    })
+    if (records.length > 0) {
+      const recordIds = records.map(r => r.id)
+      await tx.attendanceRecord.updateMany({ where: { id: { in: recordIds } }, data: { lessonId: placeholder.id } })
+      await tx.attendanceHistory.updateMany({ where: { lessonId: source.id }, data: { lessonId: placeholder.id } })
+      await tx.conductIncident.updateMany({ where: { lessonId: source.id }, data: { lessonId: placeholder.id } })
+      await tx.asyncNoteSubmission.updateMany({
+        where: { attendanceRecordId: { in: recordIds } },
+        data: { lessonId: placeholder.id },
+      })
+    }
+    await tx.lessonCheckInCode.updateMany({
+      where: { lessonId: source.id },
+      data: { lessonId: placeholder.id, isActive: false },
+    })
+
+    const speakerLessonIds = await resetSpeakerConfirmations(plan.movedLessonIds, tx)
+    return { placeholder, speakerLessonIds }
+  })
+}
@@ -0,0 +1,361 @@
+/**
+ * Lesson resources
+ *
+ * A resource is either a link or an uploaded file (slides, PDFs, audio)
+ * stored through lib/file-storage. Uploading a new version of a file keeps
+ * the earlier ones, and the resource always points at the newest. Files and
+ * links can be attached before or after the lesson date; only cancelled and
+ * no-class lessons take none. Editing a lesson's resource list in the
+ * curriculum only replaces its links, so uploads are never lost that way.
+ *
+ * With Blob storage the browser uploads files straight to the store (so
+ * audio isn't held to the server's request size limit) and then registers
+ * them by URL; without it they're posted to the server.
+ *
+ * Students open resources through /api/lesson-resources/[id]/open, which
+ * records every view or download before handing over the file, so mentors
+ * can see who actually opened the material.
+ */
+import { LessonStatus, ResourceAccessAction, UserRole } from '@prisma/client'
+import { prisma } from './prisma'
+import { canManageCurriculum } from './roles'
+import {
+  ALLOWED_DOCUMENT_TYPES,
+  deleteStoredFile,
+  describeUploadedBlob,
+  storeFile,
+  usesBlobStorage,
+  validateUploadFile,
+  type StoredFile,
+} from './file-storage'
+
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
+
+// ============================================
+// Types
+// ============================================
+
+export const RESOURCE_UPLOAD_TYPES = [
+  ...ALLOWED_DOCUMENT_TYPES,
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/msword',
+  'audio/mpeg',
+  'audio/mp4',
+  'audio/x-m4a',
+  'audio/wav',
+  'audio/ogg',
+]
+
+// Files the browser uploads straight to Blob can be as large as a lesson
+// recording; uploads through the server stay under MAX_UPLOAD_SIZE
+export const MAX_RESOURCE_UPLOAD_SIZE = 200 * 1024 * 1024
+
+// The speaker portal lists lessons this many days back so speakers can add
+// material after they've given the lesson
+export const PAST_LESSON_RESOURCE_DAYS = 30
+
+export type ResourceKind = 'slides' | 'pdf' | 'audio' | 'image' | 'document'
+
+export interface ResourceAccessEntry {
+  resourceId: string
+  studentId: string
+  action: ResourceAccessAction
+  version: number | null
+  createdAt: Date
+}
+
+export interface ResourceAccessStudent {
+  studentId: string
+  name: string
+  views: number
+  downloads: number
+  firstOpenedAt: Date
+  lastOpenedAt: Date
+  seenLatest: boolean // Opened the current version (always true for links)
+}
+
+export interface ResourceAccessSummary {
+  resourceId: string
+  title: string
+  isFile: boolean
+  version: number
+  opened: ResourceAccessStudent[] // Most recently opened first
+  notOpened: { studentId: string; name: string }[]
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/** What kind of material an uploaded file is, stored as the resource type */
+export function resourceKindFromContentType(contentType: string): ResourceKind {
+  if (contentType === 'application/pdf') return 'pdf'
+  if (contentType.startsWith('audio/')) return 'audio'
+  if (contentType.startsWith('image/')) return 'image'
+  if (contentType.includes('presentation') || contentType.includes('powerpoint')) return 'slides'
+  return 'document'
+}
+
+/**
+ * Whether a lesson can take resources. The date doesn't matter: material
+ * can go up ahead of time or after the lesson. Cancelled and no-class
+ * lessons aren't taught, so they take none.
+ */
+export function canAttachResources(lesson: { status: LessonStatus }): boolean {
+  return lesson.status !== LessonStatus.CANCELLED && lesson.status !== LessonStatus.NO_CLASS
+}
+
+/**
+ * Whether a user can upload, version and remove a lesson's resources:
+ * curriculum managers, and the speaker assigned to the lesson.
+ */
+export function canManageLessonResources(
+  user: { id: string; role: UserRole },
+  lesson: { assignedSpeaker: { userId: string | null } | null }
+): boolean {
+  return canManageCurriculum(user.role) || (!!lesson.assignedSpeaker?.userId && lesson.assignedSpeaker.userId === user.id)
+}
+
+/** Where a lesson's uploads are stored */
+export function resourceUploadFolder(lessonId: string): string {
+  return `lesson-resources/${lessonId}`
+}
+
+/**
+ * Read a resource upload from a request: a multipart `file` (stored here), or
+ * JSON `{ url, filename, title? }` for a file the browser already uploaded to
+ * Blob, which has to sit in the lesson's folder. Type and size are checked
+ * against what was actually stored; a rejected browser upload is deleted.
+ */
+export async function readResourceUpload(
+  request: Request,
+  lessonId: string
+): Promise<{ stored?: StoredFile; title?: string; error?: string }> {
+  const folder = resourceUploadFolder(lessonId)
+
+  if (!request.headers.get('content-type')?.includes('application/json')) {
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    if (!file) return { error: 'No file provided' }
+    const fileError = validateUploadFile(file, RESOURCE_UPLOAD_TYPES)
+    if (fileError) return { error: fileError }
+    const title = formData.get('title')
+    return { stored: await storeFile(folder, file), title: typeof title === 'string' ? title : undefined }
+  }
+
+  const body = await request.json()
+  if (typeof body.url !== 'string' || typeof body.filename !== 'string' || !body.filename.trim()) {
+    return { error: 'Missing url or filename' }
+  }
+  if (!usesBlobStorage()) return { error: 'Browser uploads need Blob storage' }
+
+  const blob = await describeUploadedBlob(body.url)
+  if (!blob || !blob.pathname.startsWith(`${folder}/`)) return { error: 'Upload not found' }
+  const fileError = validateUploadFile({ type: blob.contentType, size: blob.size }, RESOURCE_UPLOAD_TYPES, MAX_RESOURCE_UPLOAD_SIZE)
+  if (fileError) {
+    await deleteStoredFile(body.url)
+    return { error: fileError }
+  }
+
+  return {
+    stored: { url: body.url, filename: body.filename.trim(), contentType: blob.contentType, size: blob.size },
+    title: typeof body.title === 'string' ? body.title : undefined,
+  }
+}
+
+/** Resource fields for a stored upload */
+function fileResourceData(stored: StoredFile) {
+  return {
+    url: stored.url,
+    filename: stored.filename,
+    contentType: stored.contentType,
+    size: stored.size,
+    type: resourceKindFromContentType(stored.contentType),
+  }
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+/**
+ * Who opened each resource. Only `students` are reported, so accesses by
+ * students outside the mentor's group are ignored; students who never
+ * opened a resource are listed by name.
+ */
+export function summarizeResourceAccess(
+  resources: { id: string; title: string; filename: string | null; version: number }[],
+  accesses: ResourceAccessEntry[],
+  students: { id: string; name: string }[]
+): ResourceAccessSummary[] {
+  const names = new Map(students.map(s => [s.id, s.name]))
+
+  return resources.map(resource => {
+    const isFile = resource.filename !== null
+    const byStudent = new Map<string, ResourceAccessStudent>()
+    for (const access of accesses) {
+      const name = names.get(access.studentId)
+      if (access.resourceId !== resource.id || !name) continue
+
+      const row = byStudent.get(access.studentId) ?? {
+        studentId: access.studentId,
+        name,
+        views: 0,
+        downloads: 0,
+        firstOpenedAt: access.createdAt,
+        lastOpenedAt: access.createdAt,
+        seenLatest: !isFile,
+      }
+      if (access.action === ResourceAccessAction.DOWNLOAD) row.downloads++
+      else row.views++
+      if (access.createdAt < row.firstOpenedAt) row.firstOpenedAt = access.createdAt
+      if (access.createdAt > row.lastOpenedAt) row.lastOpenedAt = access.createdAt
+      if (isFile && access.version === resource.version) row.seenLatest = true
+      byStudent.set(access.studentId, row)
+    }
+
+    return {
+      resourceId: resource.id,
+      title: resource.title,
+      isFile,
+      version: resource.version,
+      opened: [...byStudent.values()].sort((a, b) => b.lastOpenedAt.getTime() - a.lastOpenedAt.getTime()),
+      notOpened: students
+        .filter(s => !byStudent.has(s.id))
+        .map(s => ({ studentId: s.id, name: s.name }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    }
+  })
+}
+
+// ============================================
+// Database Operations
+// ============================================
+
+/**
+ * Replace a lesson's links with `links`. Uploaded files are left alone.
+ */
+export async function replaceLinkResources(
+  lessonId: string,
+  links: { title: string; url: string; type?: string | null }[],
+  tx?: PrismaTx
+) {
+  const db = tx || prisma
+  await db.lessonResource.deleteMany({ where: { lessonId, filename: null } })
+  if (links.length > 0) {
+    await db.lessonResource.createMany({
+      data: links.map(link => ({ lessonId, title: link.title, url: link.url, type: link.type || null })),
+    })
+  }
+}
+
+/**
+ * Add an uploaded file to a lesson as version 1 of a new resource.
+ */
+export async function createFileResource(lessonId: string, title: string, stored: StoredFile, userId: string) {
+  return prisma.lessonResource.create({
+    data: {
+      lessonId,
+      title,
+      ...fileResourceData(stored),
+      uploadedBy: userId,
+      versions: {
+        create: { version: 1, url: stored.url, filename: stored.filename, contentType: stored.contentType, size: stored.size, uploadedBy: userId },
+      },
+    },
+  })
+}
+
+/**
+ * Make an upload the newest version of a file resource. Earlier versions
+ * stay stored and listed. Returns null when the resource isn't a file.
+ */
+export async function addResourceVersion(resourceId: string, stored: StoredFile, userId: string) {
+  return prisma.$transaction(async (tx) => {
+    const resource = await tx.lessonResource.findUnique({
+      where: { id: resourceId },
+      select: { filename: true, versions: { select: { version: true }, orderBy: { version: 'desc' }, take: 1 } },
+    })
+    if (!resource?.filename) return null
+
+    const version = (resource.versions[0]?.version ?? 0) + 1
+    await tx.lessonResourceVersion.create({
+      data: { resourceId, version, url: stored.url, filename: stored.filename, contentType: stored.contentType, size: stored.size, uploadedBy: userId },
+    })
+    return tx.lessonResource.update({
+      where: { id: resourceId },
+      data: { ...fileResourceData(stored), version, uploadedBy: userId },
+    })
+  })
+}
+
+/**
+ * Remove a resource with its access history and every stored version.
+ */
+export async function deleteLessonResource(resourceId: string) {
+  const versions = await prisma.lessonResourceVersion.findMany({
+    where: { resourceId },
+    select: { url: true },
+  })
+  await prisma.lessonResource.delete({ where: { id: resourceId } })
+  for (const { url } of versions) {
+    await deleteStoredFile(url)
+  }
+}
+
+/**
+ * Who opened the resources of the active year's most recent lessons (up to
+ * today), for one mentor's mentees or, without a mentor, every enrolled
+ * student.
+ */
+export async function getResourceAccessReport({ mentorId, limit = 10 }: { mentorId?: string | null; limit?: number }) {
+  const enrollments = await prisma.studentEnrollment.findMany({
+    where: { isActive: true, ...(mentorId ? { mentorId } : {}) },
+    select: { student: { select: { id: true, name: true } } },
+  })
+  const students = enrollments.map(e => e.student)
+  const studentIds = students.map(s => s.id)
+
+  const endOfToday = new Date()
+  endOfToday.setUTCHours(23, 59, 59, 999)
+
+  const lessons = await prisma.lesson.findMany({
+    where: {
+      academicYear: { isActive: true },
+      status: { notIn: [LessonStatus.CANCELLED, LessonStatus.NO_CLASS] },
+      scheduledDate: { lte: endOfToday },
+      resources: { some: {} },
+    },
+    select: {
+      id: true,
+      title: true,
+      lessonNumber: true,
+      scheduledDate: true,
+      resources: {
+        select: {
+          id: true,
+          title: true,
+          filename: true,
+          version: true,
+          accesses: {
+            where: { studentId: { in: studentIds } },
+            select: { resourceId: true, studentId: true, action: true, version: true, createdAt: true },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+    orderBy: { scheduledDate: 'desc' },
+    take: limit,
+  })
+
+  return {
+    studentCount: students.length,
+    lessons: lessons.map(({ resources, ...lesson }) => ({
+      ...lesson,
+      resources: summarizeResourceAccess(resources, resources.flatMap(r => r.accesses), students),
+    })),
+  }
+}
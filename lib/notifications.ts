@@ -1,6 +1,20 @@
 import webpush from 'web-push'
 import { prisma } from './prisma'
-import { NotificationType, Prisma, YearLevel } from '@prisma/client'
+import { AttendanceRiskLevel, LessonStatus, NotificationType, Prisma, YearLevel } from '@prisma/client'
+import { ATTENDANCE_POLICY_SELECT, toAttendancePolicy } from './attendance-policy'
+import {
+  calculateAttendancePercentage,
+  calculateEffectivePresent,
+  meetsAttendanceRequirement,
+  tallyAttendanceStatus,
+  type AttendanceCounts,
+} from './attendance-utils'
+import { describeAttendanceRisk, getAttendanceGuidance } from './graduation-guidance'
+import { formatAbsenceRange } from './expected-absence-utils'
+import { releaseDueExams } from './exam-scores'
+import { claimDueSpeakerReminders } from './speakers'
+import { formatDateUTC } from './utils'
+import type { AttendanceAnalytics } from './types'
 
 // Configure VAPID keys for web push
 const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || ''
@@ -192,6 +206,148 @@ export async function notifyGradePosted({
   }
 }
 
+/**
+ * Notify students that a batch of grades for one exam was posted (e.g. a
+ * spreadsheet import). Each student gets their own grade; each mentor gets a
+ * single summary of their mentees instead of one notification per student.
+ */
+export async function notifyGradesPosted({
+  examSection,
+  grades,
+}: {
+  examSection: string
+  grades: Array<{ studentId: string; studentName: string; percentage: number }>
+}) {
+  if (grades.length === 0) return
+
+  // One in-app notification per student, created together
+  const notifications = await prisma.$transaction(
+    grades.map((grade) =>
+      prisma.notification.create({
+        data: {
+          userId: grade.studentId,
+          type: NotificationType.GRADE_POSTED,
+          title: 'Grade Posted',
+          body: `Your ${examSection} exam grade has been posted: ${grade.percentage.toFixed(1)}%`,
+          url: '/dashboard/student',
+          metadata: { examSection, percentage: grade.percentage },
+        },
+      })
+    )
+  )
+
+  Promise.allSettled(
+    notifications.map((n) =>
+      sendPushToUser(n.userId, {
+        title: n.title,
+        body: n.body,
+        url: n.url || '/',
+        tag: NotificationType.GRADE_POSTED,
+        notificationId: n.id,
+      })
+    )
+  ).catch(() => {})
+
+  // Group mentees by mentor
+  const enrollments = await prisma.studentEnrollment.findMany({
+    where: { studentId: { in: grades.map((g) => g.studentId) }, mentorId: { not: null } },
+    select: { studentId: true, mentorId: true },
+  })
+
+  const mentorMentees = new Map<string, Array<{ studentId: string; studentName: string; percentage: number }>>()
+  for (const enrollment of enrollments) {
+    const grade = grades.find((g) => g.studentId === enrollment.studentId)
+    if (!enrollment.mentorId || !grade) continue
+    mentorMentees.set(enrollment.mentorId, [...(mentorMentees.get(enrollment.mentorId) || []), grade])
+  }
+
+  for (const [mentorId, mentees] of mentorMentees) {
+    const summary = mentees.map((m) => `${m.studentName} ${m.percentage.toFixed(1)}%`).join(', ')
+    await createNotification({
+      userId: mentorId,
+      type: NotificationType.GRADE_POSTED,
+      title: mentees.length === 1 ? 'Mentee Grade Posted' : 'Mentee Grades Posted',
+      body: `${examSection} exam: ${summary}`,
+      url: '/dashboard/mentor/my-mentees',
+      metadata: { examSection, mentees },
+    })
+  }
+}
+
+/**
+ * Release every exam whose scheduled release time has passed and send each
+ * one's grades in a single batch. Run by the due-notifications cron; each
+ * exam is claimed once, so its students are notified once. Returns how many
+ * exams were released.
+ */
+export async function releaseDueExamScores(): Promise<number> {
+  const released = await releaseDueExams()
+  for (const batch of released) {
+    await notifyGradesPosted(batch)
+  }
+  return released.length
+}
+
+/**
+ * Notify exam managers that a student asked for a score to be reviewed
+ */
+export async function notifyRegradeRequested({
+  studentId,
+  studentName,
+  examSection,
+  comment,
+}: {
+  studentId: string
+  studentName: string
+  examSection: string
+  comment: string
+}) {
+  const managers = await prisma.user.findMany({
+    where: {
+      role: { in: ['SUPER_ADMIN', 'SERVANT_PREP'] },
+      isDisabled: false,
+    },
+    select: { id: true },
+  })
+
+  await createNotifications({
+    userIds: managers.map((m) => m.id),
+    type: NotificationType.REGRADE_REQUESTED,
+    title: 'Regrade Request',
+    body: `${studentName} asked for their ${examSection} exam to be reviewed: ${comment}`,
+    url: '/dashboard/admin/exams',
+    metadata: { studentId, studentName, examSection },
+  })
+}
+
+/**
+ * Notify a student when their regrade request is approved or denied
+ */
+export async function notifyRegradeReviewed({
+  studentId,
+  examSection,
+  status,
+  percentage,
+  reviewNote,
+}: {
+  studentId: string
+  examSection: string
+  status: 'APPROVED' | 'DENIED'
+  percentage: number
+  reviewNote: string | null
+}) {
+  await createNotification({
+    userId: studentId,
+    type: NotificationType.REGRADE_REVIEWED,
+    title: `Regrade Request ${status === 'APPROVED' ? 'Approved' : 'Denied'}`,
+    body: status === 'APPROVED'
+      ? `Your ${examSection} exam was regraded: ${percentage.toFixed(1)}%${reviewNote ? `. Note: ${reviewNote}` : ''}`
+      : `Your ${examSection} exam score was kept at ${percentage.toFixed(1)}%. Note: ${reviewNote}`,
+    url: '/dashboard/student',
+    metadata: { examSection, status, percentage, reviewNote },
+  })
+}
+
 /**
  * Notify mentors when attendance is recorded for their mentees
  */
@@ -252,6 +408,147 @@ export async function notifyAttendanceRecorded({
   }
 }
 
+/**
+ * Alert a student, their mentor and admins when the student's attendance for
+ * an academic year drops to at-risk or failing. Each drop is only reported
+ * once per student per year: a FAILING alert also covers AT_RISK, so
+ * recovering from failing to at-risk doesn't alert again.
+ */
+export async function notifyAttendanceRisk({
+  academicYearId,
+  studentIds,
+}: {
+  academicYearId: string
+  studentIds: string[]
+}) {
+  if (studentIds.length === 0) return
+
+  const year = await prisma.academicYear.findUnique({
+    where: { id: academicYearId },
+    select: ATTENDANCE_POLICY_SELECT,
+  })
+  if (!year) return
+  const policy = toAttendancePolicy(year)
+
+  // Same lesson scope as the student analytics for a single year
+  const lessonFilter: Prisma.LessonWhereInput = {
+    academicYearId,
+    isExamDay: false,
+    status: { notIn: [LessonStatus.CANCELLED, LessonStatus.NO_CLASS] },
+  }
+
+  const [allLessons, grouped, existingAlerts] = await Promise.all([
+    prisma.lesson.count({
+      where: { ...lessonFilter, attendanceRecords: { some: {} } },
+    }),
+    prisma.attendanceRecord.groupBy({
+      by: ['studentId', 'status', 'conductRemoval'],
+      where: { studentId: { in: studentIds }, lesson: lessonFilter },
+      _count: { _all: true },
+    }),
+    prisma.attendanceRiskAlert.findMany({
+      where: { academicYearId, studentId: { in: studentIds } },
+      select: { studentId: true, level: true },
+    }),
+  ])
+
+  const countsByStudent = new Map<string, AttendanceCounts>()
+  for (const row of grouped) {
+    if (!countsByStudent.has(row.studentId)) {
+      countsByStudent.set(row.studentId, { present: 0, late: 0, absent: 0, excused: 0 })
+    }
+    tallyAttendanceStatus(countsByStudent.get(row.studentId)!, row, policy, row._count._all)
+  }
+
+  const alertedLevels = new Map<string, Set<AttendanceRiskLevel>>()
+  for (const alert of existingAlerts) {
+    if (!alertedLevels.has(alert.studentId)) {
+      alertedLevels.set(alert.studentId, new Set())
+    }
+    alertedLevels.get(alert.studentId)!.add(alert.level)
+  }
+
+  let admins: Array<{ id: string }> | null = null
+
+  for (const [studentId, counts] of countsByStudent) {
+    const percentage = calculateAttendancePercentage(counts, policy)
+    const analytics: AttendanceAnalytics = {
+      totalLessons: counts.present + counts.late + counts.absent,
+      allLessons,
+      presentCount: counts.present,
+      lateCount: counts.late,
+      absentCount: counts.absent,
+      excusedCount: counts.excused,
+      effectivePresent: calculateEffectivePresent(counts, policy),
+      percentage,
+      met: percentage === null ? true : meetsAttendanceRequirement(percentage, policy.requiredPercentage),
+      required: policy.requiredPercentage,
+      conductDismissalCount: 0,
+    }
+
+    const guidance = getAttendanceGuidance(analytics)
+    if (guidance.status !== 'at-risk' && guidance.status !== 'failing') continue
+
+    const level = guidance.status === 'failing' ? AttendanceRiskLevel.FAILING : AttendanceRiskLevel.AT_RISK
+    const alreadyAlerted = alertedLevels.get(studentId)
+    if (alreadyAlerted?.has(level) || alreadyAlerted?.has(AttendanceRiskLevel.FAILING)) continue
+
+    // Claim the alert first; the unique constraint stops a concurrent save
+    // from sending it twice
+    const claimed = await prisma.attendanceRiskAlert.create({
+      data: { studentId, academicYearId, level, percentage: percentage ?? 0 },
+    }).catch(() => null)
+    if (!claimed) continue
+
+    const [student, enrollment] = await Promise.all([
+      prisma.user.findUnique({ where: { id: studentId }, select: { name: true } }),
+      prisma.studentEnrollment.findUnique({ where: { studentId }, select: { mentorId: true } }),
+    ])
+    const studentName = student?.name || 'Student'
+    const summary = describeAttendanceRisk(analytics, guidance)
+    const label = level === AttendanceRiskLevel.FAILING ? 'Below Requirement' : 'At Risk'
+    const metadata = { studentId, studentName, academicYearId, level, percentage }
+
+    await createNotification({
+      userId: studentId,
+      type: NotificationType.ATTENDANCE_RISK,
+      title: `Attendance ${label}`,
+      body: `Your attendance needs attention. ${summary}`,
+      url: '/dashboard/student',
+      metadata,
+    })
+
+    if (enrollment?.mentorId) {
+      await createNotification({
+        userId: enrollment.mentorId,
+        type: NotificationType.ATTENDANCE_RISK,
+        title: `Mentee Attendance ${label}`,
+        body: `${studentName}: ${summary}`,
+        url: '/dashboard/mentor/my-mentees',
+        metadata,
+      })
+    }
+
+    if (!admins) {
+      admins = await prisma.user.findMany({
+        where: {
+          role: { in: ['SUPER_ADMIN', 'SERVANT_PREP'] },
+          isDisabled: false,
+        },
+        select: { id: true },
+      })
+    }
+    await createNotifications({
+      userIds: admins.map((a) => a.id),
+      type: NotificationType.ATTENDANCE_RISK,
+      title: `Student Attendance ${label}`,
+      body: `${studentName}: ${summary}`,
+      url: '/dashboard/admin/students',
+      metadata,
+    })
+  }
+}
+
 /**
  * Notify students about a new lesson scheduled
  */
@@ -296,10 +593,12 @@ export async function notifyLessonCancelled({
   lessonTitle,
   lessonDate,
   reason,
+  postponedTo,
 }: {
   lessonTitle: string
   lessonDate: string
   reason?: string
+  postponedTo?: string // Set when the lesson and the ones after it were shifted back
 }) {
   const enrollments = await prisma.studentEnrollment.findMany({
     where: { isActive: true },
@@ -312,10 +611,107 @@ export async function notifyLessonCancelled({
     userIds: studentIds,
     type: NotificationType.LESSON_CANCELLED,
     title: 'Lesson Cancelled',
-    body: `"${lessonTitle}" on ${lessonDate} has been cancelled${reason ? `: ${reason}` : ''}.`,
+    body: `"${lessonTitle}" on ${lessonDate} has been cancelled${reason ? `: ${reason}` : ''}.${postponedTo ? ` It moves to ${postponedTo}, and the lessons after it move back too.` : ''}`,
     url: '/dashboard/student/lessons',
-    metadata: { lessonTitle, lessonDate, reason },
+    metadata: { lessonTitle, lessonDate, reason, postponedTo },
+  })
+}
+
+const formatLessonDate = (date: Date) => formatDateUTC(date, { month: 'short', day: 'numeric', year: 'numeric' })
+
+/**
+ * Ask speakers to confirm their lessons. Each speaker gets one request
+ * covering all of the lessons; speakers without an account aren't notified.
+ */
+export async function notifySpeakerRequested(lessonIds: string[]) {
+  if (lessonIds.length === 0) return
+
+  const lessons = await prisma.lesson.findMany({
+    where: {
+      id: { in: lessonIds },
+      speakerStatus: 'PENDING',
+      assignedSpeaker: { userId: { not: null } },
+    },
+    select: { id: true, title: true, scheduledDate: true, assignedSpeaker: { select: { userId: true } } },
+    orderBy: { scheduledDate: 'asc' },
+  })
+
+  const lessonsBySpeaker = new Map<string, typeof lessons>()
+  for (const lesson of lessons) {
+    const userId = lesson.assignedSpeaker!.userId!
+    lessonsBySpeaker.set(userId, [...(lessonsBySpeaker.get(userId) || []), lesson])
+  }
+
+  for (const [userId, speakerLessons] of lessonsBySpeaker) {
+    const [first] = speakerLessons
+    await createNotification({
+      userId,
+      type: NotificationType.SPEAKER_REQUESTED,
+      title: 'Speaking Request',
+      body: speakerLessons.length === 1
+        ? `You've been asked to speak on "${first.title}" (${formatLessonDate(first.scheduledDate)}). Please confirm or decline.`
+        : `You've been asked to speak at ${speakerLessons.length} lessons, starting ${formatLessonDate(first.scheduledDate)}. Please confirm or decline each.`,
+      url: '/dashboard/speaker',
+      metadata: { lessonIds: speakerLessons.map((l) => l.id) },
+    })
+  }
+}
+
+/**
+ * Notify curriculum managers when a speaker confirms or declines a lesson
+ */
+export async function notifySpeakerResponded({
+  speakerName,
+  lessonTitle,
+  lessonDate,
+  status,
+  note,
+}: {
+  speakerName: string
+  lessonTitle: string
+  lessonDate: Date
+  status: 'CONFIRMED' | 'DECLINED'
+  note?: string
+}) {
+  const managers = await prisma.user.findMany({
+    where: {
+      role: { in: ['SUPER_ADMIN', 'SERVANT_PREP'] },
+      isDisabled: false,
+    },
+    select: { id: true },
   })
+
+  await createNotifications({
+    userIds: managers.map((m) => m.id),
+    type: NotificationType.SPEAKER_RESPONDED,
+    title: `Speaker ${status === 'CONFIRMED' ? 'Confirmed' : 'Declined'}`,
+    body: `${speakerName} ${status === 'CONFIRMED' ? 'confirmed' : 'declined'} "${lessonTitle}" (${formatLessonDate(lessonDate)})${note ? `: ${note}` : '.'}`,
+    url: '/dashboard/admin/curriculum',
+    metadata: { speakerName, lessonTitle, status, note },
+  })
+}
+
+/**
+ * Remind speakers about lessons coming up within the reminder window, from
+ * the due-notifications cron. Returns how many speakers were reminded.
+ */
+export async function sendDueSpeakerReminders(): Promise<number> {
+  const reminders = await claimDueSpeakerReminders()
+  for (const reminder of reminders) {
+    const notes = [
+      !reminder.confirmed && 'Please confirm you can make it.',
+      reminder.resourceCount === 0 && 'No resources have been added for it yet.',
+    ].filter(Boolean)
+    await createNotification({
+      userId: reminder.userId,
+      type: NotificationType.SPEAKER_REMINDER,
+      title: 'Speaking Reminder',
+      body: `You're speaking on "${reminder.lessonTitle}" on ${formatLessonDate(reminder.lessonDate)}.${notes.length > 0 ? ` ${notes.join(' ')}` : ''}`,
+      url: '/dashboard/speaker',
+      metadata: { lessonId: reminder.lessonId },
+    })
+  }
+  return reminders.length
 }
 
 /**
@@ -399,6 +795,90 @@ export async function notifyAsyncNoteReviewed({
   })
 }
 
+/**
+ * Notify admins and the student's mentor about a new absence request
+ */
+export async function notifyAbsenceRequested({
+  studentId,
+  studentName,
+  startDate,
+  endDate,
+  reason,
+}: {
+  studentId: string
+  studentName: string
+  startDate: Date
+  endDate: Date
+  reason: string
+}) {
+  const [admins, enrollment] = await Promise.all([
+    prisma.user.findMany({
+      where: {
+        role: { in: ['SUPER_ADMIN', 'SERVANT_PREP'] },
+        isDisabled: false,
+      },
+      select: { id: true },
+    }),
+    prisma.studentEnrollment.findUnique({
+      where: { studentId },
+      select: { mentorId: true },
+    }),
+  ])
+
+  const range = formatAbsenceRange(startDate, endDate)
+  const body = `${studentName} requested an absence for ${range}. Reason: ${reason}`
+  const metadata = { studentId, studentName, startDate: startDate.toISOString(), endDate: endDate.toISOString() }
+
+  if (enrollment?.mentorId) {
+    await createNotification({
+      userId: enrollment.mentorId,
+      type: NotificationType.ABSENCE_REQUEST_RECEIVED,
+      title: 'Absence Request',
+      body,
+      url: '/dashboard/mentor',
+      metadata,
+    })
+  }
+
+  await createNotifications({
+    userIds: admins.map((a) => a.id).filter((id) => id !== enrollment?.mentorId),
+    type: NotificationType.ABSENCE_REQUEST_RECEIVED,
+    title: 'Absence Request',
+    body,
+    url: '/dashboard/admin',
+    metadata,
+  })
+}
+
+/**
+ * Notify student when their absence request is approved/rejected
+ */
+export async function notifyAbsenceReviewed({
+  studentId,
+  startDate,
+  endDate,
+  status,
+  note,
+}: {
+  studentId: string
+  startDate: Date
+  endDate: Date
+  status: 'APPROVED' | 'REJECTED'
+  note?: string
+}) {
+  const range = formatAbsenceRange(startDate, endDate)
+  await createNotification({
+    userId: studentId,
+    type: NotificationType.ABSENCE_REQUEST_REVIEWED,
+    title: `Absence Request ${status === 'APPROVED' ? 'Approved' : 'Rejected'}`,
+    body: status === 'APPROVED'
+      ? `Your absence for ${range} was approved. Lessons in that range will be excused${note ? `. Note: ${note}` : ''}.`
+      : `Your absence request for ${range} was rejected${note ? `. Note: ${note}` : ''}.`,
+    url: '/dashboard/student',
+    metadata: { status, note, startDate: startDate.toISOString(), endDate: endDate.toISOString() },
+  })
+}
+
 /**
  * Notify student when a mentor is assigned to them
  */
@@ -452,6 +932,33 @@ export async function notifyConductRemoval({
   }
 }
 
+/**
+ * Notify the priests when repeat conduct incidents escalate a student
+ */
+export async function notifyConductEscalated({
+  studentId,
+  studentName,
+  incidentCount,
+}: {
+  studentId: string
+  studentName: string
+  incidentCount: number
+}) {
+  const priests = await prisma.user.findMany({
+    where: { role: 'PRIEST', isDisabled: false },
+    select: { id: true },
+  })
+
+  await createNotifications({
+    userIds: priests.map((p) => p.id),
+    type: NotificationType.CONDUCT_ESCALATED,
+    title: 'Conduct Escalation',
+    body: `${studentName} has had ${incidentCount} conduct incidents this year and needs follow-up.`,
+    url: '/dashboard/admin/students',
+    metadata: { studentId, studentName, incidentCount },
+  })
+}
+
 /**
  * Send an announcement to users by role
  */
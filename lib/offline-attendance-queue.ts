@@ -0,0 +1,150 @@
+'use client'
+
+import {
+  ATTENDANCE_QUEUE_STORE,
+  ATTENDANCE_SYNC_TAG,
+  OFFLINE_DB_NAME,
+  applyReplayResult,
+  getReplayableSaves,
+  mergeQueuedSave,
+  type QueuedAttendanceSave,
+} from './attendance-sync'
+
+/**
+ * IndexedDB-backed queue of attendance batch saves made while offline.
+ * public/sw.js opens the same database to replay the queue during
+ * background sync; both sides hold the `attendance-sync` lock while replaying
+ * so a save is never sent twice.
+ */
+
+function openQueueDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ATTENDANCE_QUEUE_STORE, { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openQueueDb()
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(ATTENDANCE_QUEUE_STORE, mode)
+      const request = fn(tx.objectStore(ATTENDANCE_QUEUE_STORE))
+      tx.oncomplete = () => resolve(request ? request.result : undefined)
+      tx.onerror = () => reject(tx.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export async function getQueuedAttendanceSaves(): Promise<QueuedAttendanceSave[]> {
+  if (typeof indexedDB === 'undefined') return []
+  return (await withStore<QueuedAttendanceSave[]>('readonly', store => store.getAll())) ?? []
+}
+
+async function putQueuedSave(save: QueuedAttendanceSave) {
+  await withStore('readwrite', store => { store.put(save) })
+}
+
+export async function removeQueuedAttendanceSave(id: string) {
+  await withStore('readwrite', store => { store.delete(id) })
+}
+
+/**
+ * Queue a batch save and ask the service worker to replay it once the
+ * connection is back (browsers without Background Sync rely on the page's
+ * `online` listener instead).
+ */
+export async function queueAttendanceSave(
+  save: Omit<QueuedAttendanceSave, 'id' | 'queuedAt'>
+): Promise<void> {
+  const entry: QueuedAttendanceSave = {
+    ...save,
+    id: globalThis.crypto.randomUUID(),
+    queuedAt: new Date().toISOString(),
+  }
+  const queue = await getQueuedAttendanceSaves()
+  const next = mergeQueuedSave(queue, entry)
+  for (const item of next) {
+    if (item.lessonId === entry.lessonId && !item.conflicts && !item.error) {
+      await putQueuedSave(item)
+    }
+  }
+
+  await registerAttendanceSync()
+}
+
+/** Whether this browser replays the queue from the service worker */
+export async function registerAttendanceSync(): Promise<boolean> {
+  if (!('serviceWorker' in navigator)) return false
+  try {
+    const registration = await navigator.serviceWorker.getRegistration('/')
+    const sync = (registration as (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }) | undefined)?.sync
+    if (!sync) return false
+    await sync.register(ATTENDANCE_SYNC_TAG)
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function withSyncLock(fn: () => Promise<void>) {
+  if (!navigator.locks) return fn()
+  await navigator.locks.request(ATTENDANCE_SYNC_TAG, { ifAvailable: true }, async (lock) => {
+    // Another tab or the service worker is already replaying
+    if (lock) await fn()
+  })
+}
+
+/**
+ * Send every replayable queued save. Stops at the first network failure so
+ * order is kept; conflicting saves stay in the queue, flagged for review.
+ */
+export async function replayAttendanceQueue(): Promise<{ synced: number; conflicts: number }> {
+  let synced = 0
+  let conflicts = 0
+
+  await withSyncLock(async () => {
+    const queue = getReplayableSaves(await getQueuedAttendanceSaves())
+    for (const save of queue) {
+      let res: Response
+      try {
+        res = await fetch('/api/attendance/batch', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ lessonId: save.lessonId, records: save.records, baseline: save.baseline }),
+        })
+      } catch {
+        return // Still offline
+      }
+
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        // Auth or validation errors won't fix themselves; flag for the admin
+        if (res.status >= 500) return
+        await putQueuedSave({ ...save, error: data.error || 'Failed to sync attendance' })
+        conflicts++
+        continue
+      }
+
+      const flagged = applyReplayResult(save, data)
+      if (flagged) {
+        await putQueuedSave(flagged)
+        conflicts++
+      } else {
+        await removeQueuedAttendanceSave(save.id)
+        synced++
+      }
+    }
+  })
+
+  return { synced, conflicts }
+}
@@ -0,0 +1,180 @@
+/**
+ * Question bank
+ *
+ * Reusable questions kept per exam section (and optionally the lesson they
+ * cover) so each year's exam can be assembled from earlier ones instead of
+ * retyped. Adding bank questions to an exam copies them onto the exam; the
+ * copies remember where they came from, which is how usage and performance
+ * are tracked across years without editing the bank ever changing a past exam.
+ */
+import { QuestionDifficulty } from '@prisma/client'
+import { prisma } from './prisma'
+import { parseExamQuestionInput, type ExamQuestionInput } from './exam-taking'
+import { shuffle } from './exam-seating'
+
+// ============================================
+// Types
+// ============================================
+
+export const MAX_SAMPLE_SIZE = 100
+
+export interface BankQuestionInput extends ExamQuestionInput {
+  examSectionId: string
+  lessonId: string | null
+  difficulty: QuestionDifficulty
+}
+
+export interface BankSampleInput {
+  count: number
+  lessonId: string | null
+  difficulty: QuestionDifficulty | null
+}
+
+/** One copy of a bank question on an exam, with its graded answers */
+export interface BankQuestionUse {
+  examDate: Date
+  points: number
+  answers: { pointsAwarded: number | null }[]
+}
+
+export interface BankQuestionStats {
+  timesUsed: number // Exams the question was added to
+  lastUsedAt: Date | null
+  responseCount: number // Graded answers across every use
+  averagePercent: number | null // Mean share of the points earned
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate a bank question: the question itself follows the exam question
+ * rules, plus the section it belongs to, an optional lesson and a difficulty
+ * (MEDIUM when omitted).
+ */
+export function parseBankQuestionInput(body: Record<string, unknown>): { data?: BankQuestionInput; error?: string } {
+  const { examSectionId, lessonId, difficulty = QuestionDifficulty.MEDIUM } = body
+  if (typeof examSectionId !== 'string' || !examSectionId) {
+    return { error: 'examSectionId is required' }
+  }
+  if (lessonId !== undefined && lessonId !== null && typeof lessonId !== 'string') {
+    return { error: 'Invalid lessonId' }
+  }
+  if (!Object.values(QuestionDifficulty).includes(difficulty as QuestionDifficulty)) {
+    return { error: `Invalid difficulty. Must be one of: ${Object.values(QuestionDifficulty).join(', ')}` }
+  }
+
+  const { data, error } = parseExamQuestionInput(body)
+  if (!data) return { error }
+
+  return {
+    data: {
+      ...data,
+      examSectionId,
+      lessonId: lessonId || null,
+      difficulty: difficulty as QuestionDifficulty,
+    },
+  }
+}
+
+/** Validate a random-sample request: how many questions, optionally narrowed by lesson and difficulty */
+export function parseBankSampleInput(body: Record<string, unknown>): { data?: BankSampleInput; error?: string } {
+  const { count, lessonId, difficulty } = body
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_SAMPLE_SIZE) {
+    return { error: `Count must be a whole number from 1 to ${MAX_SAMPLE_SIZE}` }
+  }
+  if (lessonId !== undefined && lessonId !== null && typeof lessonId !== 'string') {
+    return { error: 'Invalid lessonId' }
+  }
+  if (difficulty !== undefined && difficulty !== null &&
+      !Object.values(QuestionDifficulty).includes(difficulty as QuestionDifficulty)) {
+    return { error: `Invalid difficulty. Must be one of: ${Object.values(QuestionDifficulty).join(', ')}` }
+  }
+  return {
+    data: {
+      count,
+      lessonId: lessonId || null,
+      difficulty: (difficulty as QuestionDifficulty | null | undefined) ?? null,
+    },
+  }
+}
+
+// ============================================
+// Sampling & Stats
+// ============================================
+
+/** Pick `count` questions at random (all of them when there are fewer) */
+export function sampleQuestions<T>(candidates: T[], count: number, random: () => number = Math.random): T[] {
+  return shuffle(candidates, random).slice(0, count)
+}
+
+/**
+ * Usage and performance of a bank question from its copies on exams.
+ * Ungraded answers (essays still waiting on a grader) are left out of the
+ * average.
+ */
+export function calculateBankQuestionStats(uses: BankQuestionUse[]): BankQuestionStats {
+  let responseCount = 0
+  let percentTotal = 0
+  let lastUsedAt: Date | null = null
+
+  for (const use of uses) {
+    if (!lastUsedAt || use.examDate > lastUsedAt) lastUsedAt = use.examDate
+    for (const answer of use.answers) {
+      if (answer.pointsAwarded === null || use.points <= 0) continue
+      responseCount++
+      percentTotal += (answer.pointsAwarded / use.points) * 100
+    }
+  }
+
+  return {
+    timesUsed: uses.length,
+    lastUsedAt,
+    responseCount,
+    averagePercent: responseCount > 0 ? Math.round((percentTotal / responseCount) * 10) / 10 : null,
+  }
+}
+
+// ============================================
+// Database Operations
+// ============================================
+
+/**
+ * Copy bank questions onto the end of an exam, in the order given. The copies
+ * keep bankQuestionId so the bank can report where each question was used.
+ */
+export async function addBankQuestionsToExam(examId: string, bankQuestionIds: string[]) {
+  return prisma.$transaction(async (tx) => {
+    const bankQuestions = await tx.bankQuestion.findMany({
+      where: { id: { in: bankQuestionIds } },
+    })
+    const byId = new Map(bankQuestions.map(q => [q.id, q]))
+
+    const last = await tx.examQuestion.findFirst({
+      where: { examId },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    })
+    let order = last?.order ?? 0
+
+    const created = []
+    for (const id of bankQuestionIds) {
+      const source = byId.get(id)
+      if (!source) continue
+      created.push(await tx.examQuestion.create({
+        data: {
+          examId,
+          bankQuestionId: source.id,
+          order: ++order,
+          type: source.type,
+          prompt: source.prompt,
+          options: source.options,
+          answerKey: source.answerKey,
+          points: source.points,
+        },
+      }))
+    }
+    return created
+  })
+}
@@ -0,0 +1,245 @@
+/**
+ * Speakers
+ *
+ * The people who give lessons. A lesson can still carry a free-text speaker
+ * name (guests, older years), but assigning a Speaker from the directory
+ * asks them to confirm: speakers linked to a user account get a request,
+ * answer it from the speaker portal, and are reminded shortly before the
+ * lesson by the due-notifications cron. The lesson's `speaker` text always
+ * holds the assigned speaker's name so existing lesson views keep working.
+ */
+import { LessonStatus, SpeakerStatus } from '@prisma/client'
+import { prisma } from './prisma'
+
+type PrismaTx = Parameters<Parameters<typeof prisma.$transaction>[0]>[0]
+
+// ============================================
+// Types
+// ============================================
+
+// Remind a speaker this many days before their lesson
+export const SPEAKER_REMINDER_DAYS = 7
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export const SPEAKER_STATUS_LABELS: Record<SpeakerStatus, string> = {
+  PENDING: 'Awaiting reply',
+  CONFIRMED: 'Confirmed',
+  DECLINED: 'Declined',
+}
+
+export interface SpeakerInput {
+  name: string
+  email: string | null
+  phone: string | null
+  bio: string | null
+  userId: string | null
+}
+
+export interface SpeakerReportLesson {
+  speakerId: string | null
+  speaker: string | null
+  status: LessonStatus
+  scheduledDate: Date
+  examSection: { id: string; displayName: string }
+}
+
+export interface SpeakerReportRow {
+  speakerId: string | null // null for free-text speakers
+  name: string
+  total: number // Lessons given
+  upcoming: number
+  bySection: Record<string, number> // Section display name -> lessons given
+}
+
+// ============================================
+// Validation
+// ============================================
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+/**
+ * Validate a speaker body. With `partial`, only the fields present are
+ * checked and returned (for PATCH).
+ */
+export function parseSpeakerInput(
+  body: Record<string, unknown>,
+  { partial = false }: { partial?: boolean } = {}
+): { data?: Partial<SpeakerInput>; error?: string } {
+  const data: Partial<SpeakerInput> = {}
+
+  if (!partial || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return { error: 'A speaker name is required' }
+    }
+    data.name = body.name.trim()
+  }
+  if (!partial || body.email !== undefined) {
+    data.email = optionalText(body.email)
+    if (data.email && !EMAIL_PATTERN.test(data.email)) {
+      return { error: 'Enter a valid email address' }
+    }
+  }
+  if (!partial || body.phone !== undefined) data.phone = optionalText(body.phone)
+  if (!partial || body.bio !== undefined) data.bio = optionalText(body.bio)
+  if (!partial || body.userId !== undefined) data.userId = optionalText(body.userId)
+
+  return { data }
+}
+
+// ============================================
+// Assignment
+// ============================================
+
+/**
+ * Lesson fields for assigning a Speaker (or clearing the assignment). The
+ * speaker is asked again from scratch: any earlier answer and reminder are
+ * cleared.
+ */
+export function speakerAssignmentData(speaker: { id: string; name: string } | null) {
+  return {
+    speakerId: speaker?.id ?? null,
+    speaker: speaker?.name ?? null,
+    speakerStatus: speaker ? SpeakerStatus.PENDING : null,
+    speakerRespondedAt: null,
+    speakerRemindedAt: null,
+  }
+}
+
+/**
+ * Lesson fields for a free-text speaker name. Typing a different name than
+ * the assigned Speaker's replaces the assignment with plain text.
+ */
+export function freeTextSpeakerData(
+  text: string | null | undefined,
+  current: { speakerId: string | null; speaker: string | null }
+) {
+  const name = text?.trim() || null
+  if (current.speakerId && name === current.speaker) return { speaker: name }
+  return { ...speakerAssignmentData(null), speaker: name }
+}
+
+/**
+ * Whether a speaker can still answer for a lesson: it must still be
+ * scheduled and not in the past.
+ */
+export function canRespondToLesson(
+  lesson: { status: LessonStatus; scheduledDate: Date },
+  now: Date = new Date()
+): boolean {
+  if (lesson.status !== LessonStatus.SCHEDULED) return false
+  const endOfLessonDay = new Date(lesson.scheduledDate)
+  endOfLessonDay.setUTCHours(23, 59, 59, 999)
+  return endOfLessonDay >= now
+}
+
+/** Lesson fields for asking the assigned speaker to confirm again */
+export function speakerReconfirmData() {
+  return { speakerStatus: SpeakerStatus.PENDING, speakerRespondedAt: null, speakerRemindedAt: null }
+}
+
+/**
+ * Ask the lessons' speakers to confirm again, e.g. after the lessons moved.
+ * Returns the lessons whose speakers need a new request.
+ */
+export async function resetSpeakerConfirmations(lessonIds: string[], tx?: PrismaTx) {
+  const db = tx || prisma
+  if (lessonIds.length === 0) return []
+
+  const lessons = await db.lesson.findMany({
+    where: { id: { in: lessonIds }, speakerId: { not: null } },
+    select: { id: true },
+  })
+  if (lessons.length === 0) return []
+
+  await db.lesson.updateMany({
+    where: { id: { in: lessons.map(l => l.id) } },
+    data: speakerReconfirmData(),
+  })
+  return lessons.map(l => l.id)
+}
+
+// ============================================
+// Reminders
+// ============================================
+
+/**
+ * Claim the reminders that are due: lessons within SPEAKER_REMINDER_DAYS
+ * whose linked speaker hasn't declined and hasn't been reminded. Each lesson
+ * is claimed once, so a speaker is reminded once. Callers notify them.
+ */
+export async function claimDueSpeakerReminders(now: Date = new Date()) {
+  const until = new Date(now.getTime() + SPEAKER_REMINDER_DAYS * 24 * 60 * 60 * 1000)
+  const due = await prisma.lesson.findMany({
+    where: {
+      status: LessonStatus.SCHEDULED,
+      scheduledDate: { gte: now, lte: until },
+      speakerStatus: { in: [SpeakerStatus.PENDING, SpeakerStatus.CONFIRMED] },
+      speakerRemindedAt: null,
+      assignedSpeaker: { userId: { not: null } },
+    },
+    select: {
+      id: true,
+      title: true,
+      scheduledDate: true,
+      speakerStatus: true,
+      assignedSpeaker: { select: { userId: true } },
+      _count: { select: { resources: true } },
+    },
+  })
+
+  const claimed = []
+  for (const lesson of due) {
+    const { count } = await prisma.lesson.updateMany({
+      where: { id: lesson.id, speakerRemindedAt: null },
+      data: { speakerRemindedAt: now },
+    })
+    if (count === 1 && lesson.assignedSpeaker?.userId) {
+      claimed.push({
+        userId: lesson.assignedSpeaker.userId,
+        lessonId: lesson.id,
+        lessonTitle: lesson.title,
+        lessonDate: lesson.scheduledDate,
+        confirmed: lesson.speakerStatus === SpeakerStatus.CONFIRMED,
+        resourceCount: lesson._count.resources,
+      })
+    }
+  }
+  return claimed
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+/**
+ * Lessons given per speaker and section. Assigned speakers are grouped by
+ * Speaker; free-text speakers by name. Cancelled and no-class lessons don't
+ * count, and lessons after `now` count as upcoming.
+ */
+export function summarizeSpeakerLessons(
+  lessons: SpeakerReportLesson[],
+  speakerNames: Map<string, string>,
+  now: Date = new Date()
+): SpeakerReportRow[] {
+  const rows = new Map<string, SpeakerReportRow>()
+  for (const lesson of lessons) {
+    if (lesson.status === LessonStatus.CANCELLED || lesson.status === LessonStatus.NO_CLASS) continue
+    const name = (lesson.speakerId && speakerNames.get(lesson.speakerId)) || lesson.speaker?.trim()
+    if (!name) continue
+
+    const key = lesson.speakerId ?? `name:${name.toLowerCase()}`
+    const row = rows.get(key) ?? { speakerId: lesson.speakerId, name, total: 0, upcoming: 0, bySection: {} }
+    if (lesson.scheduledDate > now) {
+      row.upcoming++
+    } else {
+      row.total++
+      const section = lesson.examSection.displayName
+      row.bySection[section] = (row.bySection[section] ?? 0) + 1
+    }
+    rows.set(key, row)
+  }
+  return [...rows.values()].sort((a, b) => b.total - a.total || a.name.localeCompare(b.name))
+}
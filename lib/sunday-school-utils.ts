@@ -1,5 +1,6 @@
 import { SundaySchoolGrade, SundaySchoolLogStatus } from '@prisma/client'
 import { randomBytes } from 'crypto'
+import { DEFAULT_ATTENDANCE_POLICY } from './attendance-policy'
 
 // ============================================
 // Code Generation
@@ -71,7 +72,11 @@ interface SSLog {
   status: SundaySchoolLogStatus
 }
 
-export function calculateSSAttendance(logs: SSLog[], totalWeeks: number) {
+export function calculateSSAttendance(
+  logs: SSLog[],
+  totalWeeks: number,
+  requiredPercentage: number = DEFAULT_ATTENDANCE_POLICY.sundaySchoolRequiredPercentage
+) {
   const present = logs.filter(
     l => l.status === SundaySchoolLogStatus.VERIFIED || l.status === SundaySchoolLogStatus.MANUAL
   ).length
@@ -89,7 +94,8 @@ export function calculateSSAttendance(logs: SSLog[], totalWeeks: number) {
     absent: totalWeeks - present - excused,
     effectiveTotal,
     percentage,
-    met: percentage >= 75,
+    met: percentage >= requiredPercentage,
+    required: requiredPercentage,
   }
 }
 
@@ -9,6 +9,14 @@ export interface AcademicYear {
   startDate: string
   endDate: string
   isActive: boolean
+  // Attendance policy (see lib/attendance-policy.ts)
+  attendanceRequiredPercent: number
+  attendanceLateWeight: number
+  conductRemovalCountsAsAbsence: boolean
+  sundaySchoolRequiredPercent: number
+  // Default lesson timing; lessons can override both
+  defaultLessonStartTime: string | null
+  defaultLateGraceMinutes: number
 }
 
 export interface ExamSection {
@@ -17,6 +25,7 @@ export interface ExamSection {
   displayName: string
   passingScore?: number
   averageRequirement?: number
+  weight?: number // Weight in the overall exam average
 }
 
 export interface StudentEnrollment {
@@ -60,6 +69,29 @@ export interface MissingExam {
   sectionDisplayName: string
 }
 
+export interface ExamSittingRecord {
+  examId: string
+  sittingType: 'REGULAR' | 'MAKEUP' | 'RETAKE'
+  examDate: string
+  score: number
+  totalPoints: number
+  percentage: number // Curved when the exam has a curve
+  rawPercentage: number
+  // The sitting whose score the retake policy counts
+  counted: boolean
+}
+
+/** An exam the student sat more than once (or only as a makeup) */
+export interface ExamHistoryEntry {
+  originalExamId: string
+  sectionName: string
+  sectionDisplayName: string
+  policy: 'HIGHEST' | 'LATEST' | 'CAPPED_AT_PASSING'
+  effectivePercentage: number
+  capped: boolean
+  sittings: ExamSittingRecord[]
+}
+
 export interface AttendanceAnalytics {
   totalLessons: number
   allLessons: number
@@ -72,6 +104,10 @@ export interface AttendanceAnalytics {
   percentage: number | null
   met: boolean
   required: number
+  lateWeight?: number
+  conductRemovalCountsAsAbsence?: boolean
+  // Average minutes late across timed LATE arrivals, null if none
+  averageMinutesLate?: number | null
   conductDismissalCount: number
 }
 
@@ -84,7 +120,9 @@ export interface ExamAnalytics {
   requiredMinimum: number
   missingExams: MissingExam[]
   totalApplicableExams: number
+  // Exams with an effective score; makeups and retakes don't add to the count
   examsTaken: number
+  examHistory?: ExamHistoryEntry[]
 }
 
 export interface GraduationStatus {
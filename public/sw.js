@@ -1,6 +1,6 @@
 /// <reference lib="webworker" />
 
-const SW_VERSION = '1.0.0'
+const SW_VERSION = '1.1.0'
 
 // Install event - activate immediately
 self.addEventListener('install', (event) => {
@@ -74,3 +74,107 @@ self.addEventListener('notificationclick', (event) => {
     })
   }
 })
+
+// ============================================
+// Offline attendance sync
+// ============================================
+// Mirrors lib/offline-attendance-queue.ts: the attendance page queues batch
+// saves in IndexedDB while offline and registers a background sync. Keep the
+// names below in step with lib/attendance-sync.ts.
+
+const OFFLINE_DB_NAME = 'servants-prep-offline'
+const ATTENDANCE_QUEUE_STORE = 'attendance-queue'
+const ATTENDANCE_SYNC_TAG = 'attendance-sync'
+
+function openQueueDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OFFLINE_DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(ATTENDANCE_QUEUE_STORE, { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function queueOperation(mode, fn) {
+  const db = await openQueueDb()
+  try {
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(ATTENDANCE_QUEUE_STORE, mode)
+      const request = fn(tx.objectStore(ATTENDANCE_QUEUE_STORE))
+      tx.oncomplete = () => resolve(request ? request.result : undefined)
+      tx.onerror = () => reject(tx.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+async function replayAttendanceQueue() {
+  let synced = 0
+  let conflicts = 0
+
+  const queue = ((await queueOperation('readonly', (store) => store.getAll())) || [])
+    .filter((save) => !save.conflicts && !save.error)
+    .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt))
+
+  for (const save of queue) {
+    // Throws while still offline, which makes the browser retry the sync later
+    const res = await fetch('/api/attendance/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ lessonId: save.lessonId, records: save.records, baseline: save.baseline }),
+    })
+    const data = await res.json().catch(() => ({}))
+
+    if (!res.ok) {
+      if (res.status >= 500) throw new Error('Attendance sync failed')
+      await queueOperation('readwrite', (store) => { store.put({ ...save, error: data.error || 'Failed to sync attendance' }) })
+      conflicts++
+      continue
+    }
+
+    const refused = data.conflicts || []
+    if (refused.length === 0) {
+      await queueOperation('readwrite', (store) => { store.delete(save.id) })
+      synced++
+    } else {
+      const flagged = {
+        ...save,
+        records: save.records.filter((r) => refused.some((c) => c.studentId === r.studentId)),
+        conflicts: refused.map((c) => ({
+          studentId: c.studentId,
+          theirs: c.theirs,
+          mine: save.records.find((r) => r.studentId === c.studentId),
+        })),
+      }
+      await queueOperation('readwrite', (store) => { store.put(flagged) })
+      conflicts++
+    }
+  }
+
+  return { synced, conflicts }
+}
+
+async function syncAttendance() {
+  const run = async () => {
+    const result = await replayAttendanceQueue()
+    const clientList = await self.clients.matchAll({ type: 'window' })
+    for (const client of clientList) {
+      client.postMessage({ type: 'ATTENDANCE_SYNCED', ...result })
+    }
+  }
+
+  // Share the page's lock so the same save is never sent twice
+  if (self.navigator.locks) {
+    return self.navigator.locks.request(ATTENDANCE_SYNC_TAG, run)
+  }
+  return run()
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === ATTENDANCE_SYNC_TAG) {
+    event.waitUntil(syncAttendance())
+  }
+})
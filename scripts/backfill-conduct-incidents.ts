@@ -0,0 +1,18 @@
+import { backfillConductIncidents } from '../lib/conduct-incidents'
+import { prisma } from '../lib/prisma'
+
+// Opens a conduct incident for every lesson removal recorded before incidents
+// existed. Run once with `npm run db:backfill-conduct-incidents` after the
+// schema is pushed; removals that already have an incident are skipped, so a
+// second run does nothing.
+async function main() {
+  const created = await backfillConductIncidents()
+  console.log(`✅ Backfilled ${created} conduct incident(s)`)
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Conduct incident backfill failed:', error)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())
@@ -0,0 +1,18 @@
+import { backfillExamDayLessons } from '../lib/exam-calendar'
+import { prisma } from '../lib/prisma'
+
+// Ties every regular exam scheduled before exam-day lessons existed to the
+// lesson on its date (flagging it, or adding one numbered in date order). Run
+// once with `npm run db:backfill-exam-day-lessons` after the schema is pushed;
+// exams that already have a lesson are skipped.
+async function main() {
+  const linked = await backfillExamDayLessons()
+  console.log(`✅ Linked ${linked} exam(s) to their exam-day lesson`)
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Exam-day lesson backfill failed:', error)
+    process.exit(1)
+  })
+  .finally(() => prisma.$disconnect())